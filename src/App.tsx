@@ -11,10 +11,17 @@ import ForgotPassword from './pages/auth/ForgotPassword';
 import VerifyEmail from './pages/auth/VerifyEmail';
 import ResetPassword from './pages/auth/ResetPassword';
 import OAuthCallback from './pages/auth/OAuthCallback';
+import AcceptInvite from './pages/auth/AcceptInvite';
 import TenantStoreSelection from './pages/auth/TenantStoreSelection';
 import CreateTenantPage from './pages/auth/CreateTenantPage';
 import Dashboard from './pages/Dashboard';
 import Products from './pages/Products';
+import Inventory from './pages/Inventory';
+import Purchasing from './pages/Purchasing';
+import PriceBooks from './pages/PriceBooks';
+import StockTransfers from './pages/StockTransfers';
+import StockCounts from './pages/StockCounts';
+import StockCountSession from './pages/StockCountSession';
 import ProductEdit from './pages/ProductEdit';
 import GlobalModifiers from './pages/GlobalModifiers';
 import GlobalModifierEdit from './pages/GlobalModifierEdit';
@@ -25,11 +32,13 @@ import CategoryDetailPage from './pages/CategoryDetailPage';
 import Discounts from './pages/Discounts';
 import DiscountEditPage from './pages/DiscountEditPage';
 import DiscountDetailPage from './pages/DiscountDetailPage';
+import Deals from './pages/Deals';
 import ReasonCodes from './pages/ReasonCodes';
 import Sales from './pages/Sales';
 import SalesDetail from './pages/SalesDetail';
 import ReceiptDemo from './pages/ReceiptDemo';
 import Customers from './pages/Customers';
+import CustomerDetailPage from './pages/CustomerDetailPage';
 import TaxSettings from './pages/TaxSettings';
 import PaymentSettings from './pages/PaymentSettings';
 import TenderEditPage from './pages/TenderEditPage';
@@ -50,6 +59,7 @@ import EditRolePage from './pages/roles/EditRolePage';
 import RoleDetailPage from './pages/roles/RoleDetailPage';
 import { Tables, TableEditPage, TableDetailPage, ZoneEditPage, ReservationEditPage, ServerAssignmentPage, TableMergeUnmergePage } from './pages/table';
 import EmployeeShiftManagement from './pages/EmployeeShiftManagement';
+import EmployeeTimesheets from './pages/EmployeeTimesheets';
 import ReceiptBuilder from './pages/ReceiptBuilder';
 import TenantAccessDebug from './pages/TenantAccessDebug';
 import TenantOverviewPage from './pages/tenant/TenantOverviewPage';
@@ -138,6 +148,7 @@ function App() {
             <Route path="/auth/verify-email" element={<VerifyEmail />} />
             <Route path="/auth/reset-password" element={<ResetPassword />} />
             <Route path="/auth/callback" element={<OAuthCallback />} />
+            <Route path="/auth/accept-invite" element={<AcceptInvite />} />
             
             {/* i18n Test Page - Public for testing translations */}
             <Route path="/i18n-test" element={<I18nTestPage />} />
@@ -204,6 +215,12 @@ function App() {
               <Route path="products" element={<Products />} />
               <Route path="products/new" element={<ProductEdit />} />
               <Route path="products/edit/:id" element={<ProductEdit />} />
+              <Route path="inventory" element={<Inventory />} />
+              <Route path="purchasing" element={<Purchasing />} />
+              <Route path="price-books" element={<PriceBooks />} />
+              <Route path="transfers" element={<StockTransfers />} />
+              <Route path="stock-counts" element={<StockCounts />} />
+              <Route path="stock-counts/:countId" element={<StockCountSession />} />
               <Route path="global-modifiers" element={<GlobalModifiers />} />
               <Route path="global-modifiers/new" element={<GlobalModifierEdit />} />
               <Route path="global-modifiers/edit/:id" element={<GlobalModifierEdit />} />
@@ -216,11 +233,13 @@ function App() {
               <Route path="discounts/new" element={<DiscountEditPage />} />
               <Route path="discounts/edit/:id" element={<DiscountEditPage />} />
               <Route path="discounts/:id" element={<DiscountDetailPage />} />
+              <Route path="deals" element={<Deals />} />
               <Route path="reason-codes" element={<ReasonCodes />} />
               <Route path="sales" element={<Sales />} />
               <Route path="sales/:transId" element={<SalesDetail />} />
               <Route path="receipt-demo" element={<ReceiptDemo />} />
               <Route path="customers" element={<Customers />} />
+              <Route path="customers/:id" element={<CustomerDetailPage />} />
               <Route path="tables" element={<Tables />} />
               <Route path="tables/new" element={<TableEditPage />} />
               <Route path="tables/edit/:tableId" element={<TableEditPage />} />
@@ -232,6 +251,7 @@ function App() {
               <Route path="reservations/new" element={<ReservationEditPage />} />
               <Route path="reservations/edit/:reservationId" element={<ReservationEditPage />} />
               <Route path="employee-shifts" element={<EmployeeShiftManagement />} />
+              <Route path="employee-timesheets" element={<EmployeeTimesheets />} />
               
               {/* Employee Management Routes */}
               <Route path="employees" element={<EmployeeManagement />} />
@@ -26,6 +26,8 @@ export interface SignUpParams {
   email: string;
   password: string;
   name?: string;
+  /** Token from a tenant invitation link; lets the sign-up triggers link the new user to it */
+  inviteToken?: string;
 }
 
 export interface ConfirmSignUpParams {
@@ -57,7 +59,7 @@ class AuthService {
     }
   }
 
-  async signUp({ email, password, name }: SignUpParams) {
+  async signUp({ email, password, name, inviteToken }: SignUpParams) {
     try {
       const result = await signUp({
         username: email,
@@ -67,6 +69,7 @@ class AuthService {
             email,
             name: name || '',
           },
+          ...(inviteToken && { clientMetadata: { invite_token: inviteToken } }),
         },
       });
       return result;
@@ -0,0 +1,255 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Modal, Button, InputTextField, InputTextArea, Alert } from '../ui';
+import type {
+  Customer,
+  CreateCustomerRequest,
+  CustomerGender,
+  CustomerStatus
+} from '../../services/types/customer.types';
+
+interface CustomerFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (data: CreateCustomerRequest) => Promise<void>;
+  customer?: Customer | null;
+}
+
+const emptyForm: CreateCustomerRequest = {
+  first_name: '',
+  last_name: '',
+  email: '',
+  phone: '',
+  address: {
+    street: '',
+    city: '',
+    state: '',
+    zip_code: '',
+    country: 'US',
+  },
+  date_of_birth: '',
+  gender: undefined,
+  status: 'active',
+  notes: '',
+};
+
+const toFormData = (customer: Customer): CreateCustomerRequest => ({
+  first_name: customer.first_name,
+  last_name: customer.last_name,
+  email: customer.email,
+  phone: customer.phone,
+  address: { ...customer.address },
+  date_of_birth: customer.date_of_birth || '',
+  gender: customer.gender,
+  status: customer.status,
+  notes: customer.notes || '',
+});
+
+const CustomerFormModal: React.FC<CustomerFormModalProps> = ({ isOpen, onClose, onSubmit, customer }) => {
+  const { t } = useTranslation();
+  const [formData, setFormData] = useState<CreateCustomerRequest>(emptyForm);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset the form whenever the modal is opened for a different customer
+  useEffect(() => {
+    if (isOpen) {
+      setFormData(customer ? toFormData(customer) : emptyForm);
+      setErrors({});
+    }
+  }, [isOpen, customer]);
+
+  const clearFieldError = (field: string) => {
+    if (errors[field]) {
+      setErrors(prev => {
+        const newErrors = { ...prev };
+        delete newErrors[field];
+        return newErrors;
+      });
+    }
+  };
+
+  const handleChange = <K extends keyof CreateCustomerRequest>(field: K, value: CreateCustomerRequest[K]) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    clearFieldError(field);
+  };
+
+  const handleAddressChange = (field: keyof CreateCustomerRequest['address'], value: string) => {
+    setFormData(prev => ({ ...prev, address: { ...prev.address, [field]: value } }));
+    clearFieldError(`address.${field}`);
+  };
+
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {};
+
+    if (!formData.first_name.trim()) newErrors.first_name = t('customers.validation.firstNameRequired');
+    if (!formData.last_name.trim()) newErrors.last_name = t('customers.validation.lastNameRequired');
+    if (!formData.email.trim()) {
+      newErrors.email = t('customers.validation.emailRequired');
+    } else if (!/\S+@\S+\.\S+/.test(formData.email)) {
+      newErrors.email = t('customers.validation.emailInvalid');
+    }
+    if (!formData.phone.trim()) newErrors.phone = t('customers.validation.phoneRequired');
+    if (!formData.address.street.trim()) newErrors['address.street'] = t('customers.validation.streetRequired');
+    if (!formData.address.city.trim()) newErrors['address.city'] = t('customers.validation.cityRequired');
+    if (!formData.address.state.trim()) newErrors['address.state'] = t('customers.validation.stateRequired');
+    if (!formData.address.zip_code.trim()) newErrors['address.zip_code'] = t('customers.validation.zipCodeRequired');
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!validateForm()) return;
+
+    setIsSaving(true);
+    try {
+      await onSubmit({
+        ...formData,
+        date_of_birth: formData.date_of_birth || undefined,
+        notes: formData.notes || undefined,
+      });
+      onClose();
+    } catch (error) {
+      console.error('Failed to save customer:', error);
+      setErrors({ general: t('customers.messages.saveFailed') });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const selectClassName = 'w-full px-3 py-2.5 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-sm';
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={customer ? t('customers.form.editTitle') : t('customers.form.createTitle')}
+      size="lg"
+      footer={
+        <div className="flex justify-end space-x-3">
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={() => handleSubmit()} disabled={isSaving}>
+            {isSaving ? t('common.saving') : t('common.save')}
+          </Button>
+        </div>
+      }
+    >
+      <form onSubmit={handleSubmit} className="space-y-6">
+        {errors.general && <Alert variant="error">{errors.general}</Alert>}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <InputTextField
+            label={t('customers.form.firstName')}
+            required
+            value={formData.first_name}
+            onChange={(value) => handleChange('first_name', value)}
+            error={errors.first_name}
+          />
+          <InputTextField
+            label={t('customers.form.lastName')}
+            required
+            value={formData.last_name}
+            onChange={(value) => handleChange('last_name', value)}
+            error={errors.last_name}
+          />
+          <InputTextField
+            label={t('customers.form.email')}
+            type="email"
+            required
+            value={formData.email}
+            onChange={(value) => handleChange('email', value)}
+            error={errors.email}
+          />
+          <InputTextField
+            label={t('customers.form.phone')}
+            type="tel"
+            required
+            value={formData.phone}
+            onChange={(value) => handleChange('phone', value)}
+            error={errors.phone}
+          />
+          <InputTextField
+            label={t('customers.form.street')}
+            required
+            value={formData.address.street}
+            onChange={(value) => handleAddressChange('street', value)}
+            error={errors['address.street']}
+            colSpan="md:col-span-2"
+          />
+          <InputTextField
+            label={t('customers.form.city')}
+            required
+            value={formData.address.city}
+            onChange={(value) => handleAddressChange('city', value)}
+            error={errors['address.city']}
+          />
+          <InputTextField
+            label={t('customers.form.state')}
+            required
+            value={formData.address.state}
+            onChange={(value) => handleAddressChange('state', value)}
+            error={errors['address.state']}
+          />
+          <InputTextField
+            label={t('customers.form.zipCode')}
+            required
+            value={formData.address.zip_code}
+            onChange={(value) => handleAddressChange('zip_code', value)}
+            error={errors['address.zip_code']}
+          />
+          <InputTextField
+            label={t('customers.form.country')}
+            value={formData.address.country}
+            onChange={(value) => handleAddressChange('country', value)}
+          />
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">{t('customers.form.dateOfBirth')}</label>
+            <input
+              type="date"
+              value={formData.date_of_birth || ''}
+              onChange={(e) => handleChange('date_of_birth', e.target.value)}
+              className={selectClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">{t('customers.form.gender')}</label>
+            <select
+              value={formData.gender || ''}
+              onChange={(e) => handleChange('gender', (e.target.value || undefined) as CustomerGender | undefined)}
+              className={selectClassName}
+            >
+              <option value="">{t('customers.form.genderUnspecified')}</option>
+              <option value="male">{t('customers.form.genderMale')}</option>
+              <option value="female">{t('customers.form.genderFemale')}</option>
+              <option value="other">{t('customers.form.genderOther')}</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">{t('customers.table.status')}</label>
+            <select
+              value={formData.status}
+              onChange={(e) => handleChange('status', e.target.value as CustomerStatus)}
+              className={selectClassName}
+            >
+              <option value="active">{t('customers.status.active')}</option>
+              <option value="inactive">{t('customers.status.inactive')}</option>
+            </select>
+          </div>
+          <InputTextArea
+            label={t('customers.form.notes')}
+            value={formData.notes}
+            onChange={(value) => handleChange('notes', value)}
+            rows={3}
+            colSpan="md:col-span-2"
+          />
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default CustomerFormModal;
@@ -0,0 +1 @@
+export { default as CustomerFormModal } from './CustomerFormModal';
@@ -0,0 +1,84 @@
+import React from 'react';
+import { TrashIcon } from '@heroicons/react/24/outline';
+import { MultipleDropdownSearch } from '../ui';
+import type { MultipleDropdownSearchOption } from '../ui/MultipleDropdownSearch';
+import type { DealComponent } from '../../services/deal';
+
+interface DealComponentEditorProps {
+  title: string;
+  hint?: string;
+  component: DealComponent;
+  onChange: (component: DealComponent) => void;
+  onRemove?: () => void;
+  productOptions: MultipleDropdownSearchOption[];
+  categoryOptions: MultipleDropdownSearchOption[];
+}
+
+const inputClass = 'w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+const labelClass = 'block text-sm font-medium text-gray-700 mb-1';
+
+/**
+ * One part of a deal: a quantity of anything matching the chosen items or
+ * categories
+ */
+const DealComponentEditor: React.FC<DealComponentEditorProps> = ({
+  title,
+  hint,
+  component,
+  onChange,
+  onRemove,
+  productOptions,
+  categoryOptions
+}) => (
+  <div className="rounded-lg border border-gray-200 p-4 space-y-3">
+    <div className="flex items-start justify-between">
+      <div>
+        <p className="text-sm font-medium text-gray-900">{title}</p>
+        {hint && <p className="text-xs text-gray-500">{hint}</p>}
+      </div>
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-red-600"
+          title="Remove part"
+        >
+          <TrashIcon className="h-4 w-4" />
+        </button>
+      )}
+    </div>
+    <div className="grid grid-cols-1 sm:grid-cols-[6rem_1fr_1fr] gap-3">
+      <div>
+        <label className={labelClass}>Quantity</label>
+        <input
+          type="number"
+          min={1}
+          step={1}
+          value={component.quantity}
+          onChange={(e) => onChange({ ...component, quantity: Math.max(1, Math.trunc(Number(e.target.value) || 1)) })}
+          className={inputClass}
+        />
+      </div>
+      <MultipleDropdownSearch
+        label="Items"
+        values={component.item_ids}
+        placeholder="No items"
+        searchPlaceholder="Search products..."
+        options={productOptions}
+        onSelect={(values) => onChange({ ...component, item_ids: values })}
+        noOptionsMessage="No products available"
+      />
+      <MultipleDropdownSearch
+        label="Categories"
+        values={component.category_ids}
+        placeholder="No categories"
+        searchPlaceholder="Search categories..."
+        options={categoryOptions}
+        onSelect={(values) => onChange({ ...component, category_ids: values })}
+        noOptionsMessage="No categories available"
+      />
+    </div>
+  </div>
+);
+
+export default DealComponentEditor;
@@ -0,0 +1,321 @@
+import React, { useEffect, useState } from 'react';
+import { PlusIcon } from '@heroicons/react/24/outline';
+import { Modal, Button } from '../ui';
+import type { MultipleDropdownSearchOption } from '../ui/MultipleDropdownSearch';
+import DealComponentEditor from './DealComponentEditor';
+import { DEAL_REWARD_LABELS, DEAL_REWARD_TYPES, DEAL_TYPE_HINTS, DEAL_TYPE_LABELS, describeDeal } from './dealFormat';
+import { DAY_NAMES, validateDeal } from '../../services/deal';
+import type { CreateDealRequest, Deal, DealComponent, DealRewardType, DealType } from '../../services/deal';
+
+interface DealFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Deal being edited; omit to create one */
+  deal?: Deal | null;
+  productOptions: MultipleDropdownSearchOption[];
+  categoryOptions: MultipleDropdownSearchOption[];
+  formatCurrency: (amount: number) => string;
+  onSave: (data: CreateDealRequest, dealId?: string) => Promise<void>;
+}
+
+const inputClass = 'w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+const labelClass = 'block text-sm font-medium text-gray-700 mb-1';
+
+// datetime-local inputs work in local time without a zone
+const toLocalInput = (timestamp: string | null | undefined): string => {
+  if (!timestamp) return '';
+  const date = new Date(timestamp);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const fromLocalInput = (value: string): string | null => (value ? new Date(value).toISOString() : null);
+
+const emptyComponent = (quantity = 1): DealComponent => ({ item_ids: [], category_ids: [], quantity });
+
+const defaultComponents = (type: DealType): DealComponent[] => {
+  switch (type) {
+    case 'BUY_X_GET_Y':
+      return [emptyComponent(1), emptyComponent(1)];
+    case 'MIX_AND_MATCH':
+      return [emptyComponent(3)];
+    case 'QUANTITY_THRESHOLD':
+      return [emptyComponent(5)];
+    case 'BUNDLE_PRICE':
+      return [emptyComponent(1), emptyComponent(1)];
+  }
+};
+
+const DealFormModal: React.FC<DealFormModalProps> = ({
+  isOpen,
+  onClose,
+  deal,
+  productOptions,
+  categoryOptions,
+  formatCurrency,
+  onSave
+}) => {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [dealType, setDealType] = useState<DealType>('BUY_X_GET_Y');
+  const [components, setComponents] = useState<DealComponent[]>(defaultComponents('BUY_X_GET_Y'));
+  const [rewardType, setRewardType] = useState<DealRewardType>('FREE');
+  const [rewardValue, setRewardValue] = useState(0);
+  const [maxApplications, setMaxApplications] = useState('');
+  const [priority, setPriority] = useState(0);
+  const [active, setActive] = useState(true);
+  const [effectiveAt, setEffectiveAt] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [days, setDays] = useState<number[]>([]);
+  const [startTime, setStartTime] = useState('');
+  const [endTime, setEndTime] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(deal?.name || '');
+    setDescription(deal?.description || '');
+    setDealType(deal?.deal_type || 'BUY_X_GET_Y');
+    setComponents(deal?.components || defaultComponents('BUY_X_GET_Y'));
+    setRewardType(deal?.reward_type || 'FREE');
+    setRewardValue(deal?.reward_value ?? 0);
+    setMaxApplications(deal?.max_applications != null ? String(deal.max_applications) : '');
+    setPriority(deal?.priority ?? 0);
+    setActive(deal?.active ?? true);
+    setEffectiveAt(toLocalInput(deal?.effective_datetime || new Date().toISOString()));
+    setExpiresAt(toLocalInput(deal?.expr_datetime));
+    setDays(deal?.days_of_week || []);
+    setStartTime(deal?.start_time || '');
+    setEndTime(deal?.end_time || '');
+  }, [isOpen, deal]);
+
+  const changeType = (type: DealType) => {
+    setDealType(type);
+    setComponents(defaultComponents(type));
+    if (!DEAL_REWARD_TYPES[type].includes(rewardType)) {
+      setRewardType(DEAL_REWARD_TYPES[type][0]);
+    }
+  };
+
+  const updateComponent = (index: number, component: DealComponent) => {
+    setComponents(prev => prev.map((existing, position) => (position === index ? component : existing)));
+  };
+
+  const toggleDay = (day: number) => {
+    setDays(prev => (prev.includes(day) ? prev.filter(existing => existing !== day) : [...prev, day].sort((a, b) => a - b)));
+  };
+
+  const data: CreateDealRequest = {
+    name: name.trim(),
+    description: description.trim() || undefined,
+    deal_type: dealType,
+    components,
+    reward_type: rewardType,
+    reward_value: rewardType === 'FREE' ? 0 : rewardValue,
+    max_applications: maxApplications ? Math.max(1, Math.trunc(Number(maxApplications))) : null,
+    priority,
+    active,
+    effective_datetime: fromLocalInput(effectiveAt) || new Date().toISOString(),
+    expr_datetime: fromLocalInput(expiresAt),
+    days_of_week: days.length === 7 ? [] : days,
+    start_time: startTime || null,
+    end_time: endTime || null
+  };
+  const validationError = validateDeal(data);
+  const summary = describeDeal(data, formatCurrency);
+
+  const componentTitle = (index: number) => {
+    if (dealType === 'BUY_X_GET_Y') return index === 0 ? 'Buy' : 'Get';
+    if (dealType === 'BUNDLE_PRICE') return `Part ${index + 1}`;
+    return 'Qualifying items';
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (validationError) return;
+
+    setSaving(true);
+    try {
+      await onSave(data, deal?.deal_id);
+      onClose();
+    } catch (error) {
+      console.error('Failed to save deal:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={deal ? `Edit ${deal.name}` : 'New Deal'}
+      size="xl"
+      footer={
+        <div className="flex w-full items-center justify-between">
+          <span className="text-sm text-gray-600">{name.trim() ? validationError || summary : ''}</span>
+          <div className="flex space-x-3">
+            <Button type="button" variant="outline" onClick={onClose} disabled={saving}>
+              Cancel
+            </Button>
+            <Button type="submit" form="deal-form" isLoading={saving} disabled={Boolean(validationError)}>
+              {deal ? 'Save Deal' : 'Create Deal'}
+            </Button>
+          </div>
+        </div>
+      }
+    >
+      <form id="deal-form" onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className={labelClass}>Name</label>
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Lunch combo"
+              className={inputClass}
+              required
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Deal type</label>
+            <select value={dealType} onChange={(e) => changeType(e.target.value as DealType)} className={inputClass}>
+              {(Object.keys(DEAL_TYPE_LABELS) as DealType[]).map(type => (
+                <option key={type} value={type}>{DEAL_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500">{DEAL_TYPE_HINTS[dealType]}</p>
+          </div>
+        </div>
+
+        <div>
+          <label className={labelClass}>Description</label>
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={2}
+            className={inputClass}
+          />
+        </div>
+
+        <div className="space-y-3">
+          {components.map((component, index) => (
+            <DealComponentEditor
+              key={index}
+              title={componentTitle(index)}
+              hint={dealType === 'BUY_X_GET_Y' && index === 1 ? 'Leave items and categories empty to reward the same items as Buy' : undefined}
+              component={component}
+              onChange={(updated) => updateComponent(index, updated)}
+              onRemove={dealType === 'BUNDLE_PRICE' && components.length > 2
+                ? () => setComponents(prev => prev.filter((_existing, position) => position !== index))
+                : undefined}
+              productOptions={productOptions}
+              categoryOptions={categoryOptions}
+            />
+          ))}
+          {dealType === 'BUNDLE_PRICE' && (
+            <Button type="button" variant="outline" size="sm" onClick={() => setComponents(prev => [...prev, emptyComponent()])}>
+              <PlusIcon className="h-4 w-4 mr-1" />
+              Add Part
+            </Button>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+          <div>
+            <label className={labelClass}>Reward</label>
+            <select value={rewardType} onChange={(e) => setRewardType(e.target.value as DealRewardType)} className={inputClass}>
+              {DEAL_REWARD_TYPES[dealType].map(type => (
+                <option key={type} value={type}>{DEAL_REWARD_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>{rewardType === 'PERCENT' ? 'Percent' : 'Amount'}</label>
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={rewardType === 'FREE' ? '' : rewardValue}
+              disabled={rewardType === 'FREE'}
+              onChange={(e) => setRewardValue(Math.max(0, Number(e.target.value) || 0))}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Max per transaction</label>
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={maxApplications}
+              placeholder="Unlimited"
+              disabled={dealType === 'QUANTITY_THRESHOLD'}
+              onChange={(e) => setMaxApplications(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Priority</label>
+            <input
+              type="number"
+              step={1}
+              value={priority}
+              onChange={(e) => setPriority(Math.trunc(Number(e.target.value) || 0))}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div className="rounded-lg bg-gray-50 p-4 space-y-3">
+          <p className="text-sm font-medium text-gray-900">Eligibility window</p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Starts</label>
+              <input type="datetime-local" value={effectiveAt} onChange={(e) => setEffectiveAt(e.target.value)} className={inputClass} required />
+            </div>
+            <div>
+              <label className={labelClass}>Ends</label>
+              <input type="datetime-local" value={expiresAt} onChange={(e) => setExpiresAt(e.target.value)} className={inputClass} />
+            </div>
+          </div>
+          <div>
+            <label className={labelClass}>Days</label>
+            <div className="flex flex-wrap gap-2">
+              {DAY_NAMES.map((dayName, day) => (
+                <button
+                  key={dayName}
+                  type="button"
+                  onClick={() => toggleDay(day)}
+                  className={`rounded-full px-3 py-1 text-xs font-medium ${
+                    days.includes(day) ? 'bg-blue-600 text-white' : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {dayName.slice(0, 3)}
+                </button>
+              ))}
+            </div>
+            <p className="mt-1 text-xs text-gray-500">No days selected means every day</p>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>From time</label>
+              <input type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Until time</label>
+              <input type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} className={inputClass} />
+            </div>
+          </div>
+        </div>
+
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input type="checkbox" checked={active} onChange={(e) => setActive(e.target.checked)} />
+          <span>Enabled</span>
+        </label>
+      </form>
+    </Modal>
+  );
+};
+
+export default DealFormModal;
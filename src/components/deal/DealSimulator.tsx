@@ -0,0 +1,219 @@
+import React, { useMemo, useState } from 'react';
+import { BeakerIcon, TrashIcon, TrophyIcon } from '@heroicons/react/24/outline';
+import { Widget, Badge, DropdownSearch } from '../ui';
+import { describeDeal } from './dealFormat';
+import { simulateDeals } from '../../services/deal';
+import type { Deal, SimulationCartLine } from '../../services/deal';
+import type { ApiProduct } from '../../services/types/product.types';
+
+interface DealSimulatorProps {
+  deals: Deal[];
+  products: ApiProduct[];
+  formatCurrency: (amount: number) => string;
+}
+
+const inputClass = 'w-full rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+// datetime-local inputs work in local time without a zone
+const toLocalInput = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+/** Shelf price: the sale price when the product has one */
+const getShelfPrice = (product: ApiProduct): number =>
+  product.sale_price && product.sale_price > 0 && product.sale_price < product.list_price ? product.sale_price : product.list_price;
+
+/**
+ * Build a sample basket and see which deals it earns. Deals are applied
+ * best saving first and each unit counts towards one deal only.
+ */
+const DealSimulator: React.FC<DealSimulatorProps> = ({ deals, products, formatCurrency }) => {
+  const [lines, setLines] = useState<SimulationCartLine[]>([]);
+  const [at, setAt] = useState(() => toLocalInput(new Date()));
+
+  const productOptions = useMemo(
+    () => products.map(product => ({
+      id: product.item_id,
+      label: product.name,
+      description: `${product.item_id} · ${formatCurrency(getShelfPrice(product))}`
+    })),
+    [products, formatCurrency]
+  );
+
+  const addProduct = (itemId: string) => {
+    const product = products.find(candidate => candidate.item_id === itemId);
+    if (!product) return;
+    setLines(prev => (prev.some(line => line.item_id === itemId)
+      ? prev.map(line => (line.item_id === itemId ? { ...line, quantity: line.quantity + 1 } : line))
+      : [...prev, {
+        item_id: product.item_id,
+        name: product.name,
+        category_ids: product.categories || [],
+        unit_price: getShelfPrice(product),
+        quantity: 1
+      }]));
+  };
+
+  const updateLine = (index: number, changes: Partial<SimulationCartLine>) => {
+    setLines(prev => prev.map((line, position) => (position === index ? { ...line, ...changes } : line)));
+  };
+
+  const result = useMemo(() => simulateDeals(deals, lines, at ? new Date(at) : new Date()), [deals, lines, at]);
+
+  const appliedSavings = new Map(result.applied.map(application => [application.deal.deal_id, application.savings]));
+  const winnerId = result.applied[0]?.deal.deal_id;
+  const sortedCandidates = [...result.candidates].sort((a, b) => (b.savings ?? -1) - (a.savings ?? -1));
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <Widget title="Sample Basket" description="Add products and quantities" icon={BeakerIcon} className="overflow-visible">
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <DropdownSearch
+              label="Add product"
+              placeholder="Search products"
+              searchPlaceholder="Search products..."
+              options={productOptions}
+              onSelect={(option) => option && addProduct(option.id)}
+              noOptionsMessage="No products"
+              closeOnSelect={true}
+            />
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Checkout time</label>
+              <input
+                type="datetime-local"
+                value={at}
+                onChange={(e) => setAt(e.target.value)}
+                className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+
+          <div className="overflow-x-auto rounded-lg border border-gray-200">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr className="text-left text-xs font-medium uppercase text-gray-500">
+                  <th className="px-3 py-2">Item</th>
+                  <th className="px-3 py-2 w-20">Qty</th>
+                  <th className="px-3 py-2 w-24">Price</th>
+                  <th className="px-3 py-2 text-right">Deal</th>
+                  <th className="px-3 py-2 w-10"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {lines.map((line, index) => {
+                  const modifiers = result.modifiers.filter(modifier => modifier.line_index === index);
+                  return (
+                    <tr key={line.item_id}>
+                      <td className="px-3 py-2">
+                        <div className="font-medium text-gray-900">{line.name}</div>
+                        {modifiers.map(modifier => (
+                          <div key={modifier.deal_id} className="text-xs text-green-700">
+                            {modifier.reason} · {modifier.desc} · deal_id {modifier.deal_id}
+                          </div>
+                        ))}
+                      </td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="number"
+                          min={1}
+                          step={1}
+                          value={line.quantity}
+                          onChange={(e) => updateLine(index, { quantity: Math.max(1, Math.trunc(Number(e.target.value) || 1)) })}
+                          className={inputClass}
+                        />
+                      </td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          value={line.unit_price}
+                          onChange={(e) => updateLine(index, { unit_price: Math.max(0, Number(e.target.value) || 0) })}
+                          className={inputClass}
+                        />
+                      </td>
+                      <td className="px-3 py-2 text-right text-green-700">
+                        {modifiers.length > 0 ? `−${formatCurrency(modifiers.reduce((sum, modifier) => sum + modifier.amount, 0))}` : ''}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        <button
+                          type="button"
+                          onClick={() => setLines(prev => prev.filter((_line, position) => position !== index))}
+                          className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-red-600"
+                          title="Remove line"
+                        >
+                          <TrashIcon className="h-4 w-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+                {lines.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-3 py-8 text-center text-gray-500">Add products to build a basket</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          <dl className="space-y-1 text-sm">
+            <div className="flex justify-between">
+              <dt className="text-gray-600">Subtotal</dt>
+              <dd className="text-gray-900">{formatCurrency(result.subtotal)}</dd>
+            </div>
+            <div className="flex justify-between">
+              <dt className="text-gray-600">Deal savings</dt>
+              <dd className="text-green-700">−{formatCurrency(result.total_savings)}</dd>
+            </div>
+            <div className="flex justify-between border-t border-gray-200 pt-1 font-semibold">
+              <dt className="text-gray-900">Total before tax</dt>
+              <dd className="text-gray-900">{formatCurrency(result.subtotal - result.total_savings)}</dd>
+            </div>
+          </dl>
+        </div>
+      </Widget>
+
+      <Widget title="Deal Results" description="Every deal, best saving first" icon={TrophyIcon}>
+        {deals.length === 0 ? (
+          <p className="text-sm text-gray-500">No deals set up yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {sortedCandidates.map(candidate => {
+              const applied = appliedSavings.get(candidate.deal.deal_id);
+              return (
+                <li key={candidate.deal.deal_id} className="flex items-start justify-between gap-3 py-3">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-gray-900">{candidate.deal.name}</span>
+                      {candidate.deal.deal_id === winnerId && <Badge color="green" size="sm">Winner</Badge>}
+                      {applied !== undefined && candidate.deal.deal_id !== winnerId && <Badge color="blue" size="sm">Also applied</Badge>}
+                    </div>
+                    <p className="text-xs text-gray-500">{describeDeal(candidate.deal, formatCurrency)}</p>
+                    {candidate.reason && <p className="text-xs text-gray-400">{candidate.reason}</p>}
+                    {candidate.savings !== null && applied === undefined && (
+                      <p className="text-xs text-orange-600">Lost: its items were already used by a better deal</p>
+                    )}
+                  </div>
+                  <div className="text-right text-sm whitespace-nowrap">
+                    {applied !== undefined ? (
+                      <span className="font-semibold text-green-700">−{formatCurrency(applied)}</span>
+                    ) : candidate.savings !== null ? (
+                      <span className="text-gray-400 line-through">−{formatCurrency(candidate.savings)}</span>
+                    ) : (
+                      <span className="text-gray-300">—</span>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </Widget>
+    </div>
+  );
+};
+
+export default DealSimulator;
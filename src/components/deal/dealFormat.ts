@@ -0,0 +1,82 @@
+import type { BadgeProps } from '../ui';
+import { DAY_NAMES } from '../../services/deal';
+import type { Deal, DealRewardType, DealStatus, DealType } from '../../services/deal';
+
+export const DEAL_TYPE_LABELS: Record<DealType, string> = {
+  BUY_X_GET_Y: 'Buy X Get Y',
+  MIX_AND_MATCH: 'Mix & Match',
+  QUANTITY_THRESHOLD: 'Quantity Threshold',
+  BUNDLE_PRICE: 'Bundle Price'
+};
+
+export const DEAL_TYPE_HINTS: Record<DealType, string> = {
+  BUY_X_GET_Y: 'Buy a quantity of some items and get others free or reduced',
+  MIX_AND_MATCH: 'Any combination from a list of items or categories, priced as a set',
+  QUANTITY_THRESHOLD: 'Buy at least a quantity and every unit gets the reward',
+  BUNDLE_PRICE: 'A fixed combination of parts, such as a meal combo'
+};
+
+export const DEAL_REWARD_LABELS: Record<DealRewardType, string> = {
+  FREE: 'Free',
+  PERCENT: 'Percent off',
+  AMOUNT: 'Amount off',
+  FIXED_PRICE: 'Fixed price'
+};
+
+export const DEAL_REWARD_TYPES: Record<DealType, DealRewardType[]> = {
+  BUY_X_GET_Y: ['FREE', 'PERCENT', 'AMOUNT', 'FIXED_PRICE'],
+  MIX_AND_MATCH: ['FIXED_PRICE', 'PERCENT', 'AMOUNT'],
+  QUANTITY_THRESHOLD: ['PERCENT', 'AMOUNT', 'FIXED_PRICE'],
+  BUNDLE_PRICE: ['FIXED_PRICE', 'PERCENT', 'AMOUNT']
+};
+
+export const DEAL_STATUS_LABELS: Record<DealStatus, string> = {
+  active: 'Active',
+  scheduled: 'Scheduled',
+  expired: 'Expired',
+  disabled: 'Disabled'
+};
+
+export const DEAL_STATUS_COLORS: Record<DealStatus, NonNullable<BadgeProps['color']>> = {
+  active: 'green',
+  scheduled: 'blue',
+  expired: 'gray',
+  disabled: 'yellow'
+};
+
+/** Plain-language summary, e.g. "Buy 2 get 1 free" or "Any 3 for $10.00" */
+export const describeDeal = (deal: Pick<Deal, 'deal_type' | 'components' | 'reward_type' | 'reward_value'>, formatCurrency: (amount: number) => string): string => {
+  const [first, second] = deal.components;
+  const quantity = first?.quantity ?? 1;
+  const value = deal.reward_value;
+  const amount = formatCurrency(value);
+
+  switch (deal.deal_type) {
+    case 'BUY_X_GET_Y': {
+      const reward = {
+        FREE: 'free',
+        PERCENT: `${value}% off`,
+        AMOUNT: `${amount} off`,
+        FIXED_PRICE: `for ${amount} each`
+      }[deal.reward_type];
+      return `Buy ${quantity} get ${second?.quantity ?? 1} ${reward}`;
+    }
+    case 'MIX_AND_MATCH':
+      if (deal.reward_type === 'FIXED_PRICE') return `Any ${quantity} for ${amount}`;
+      return `${deal.reward_type === 'PERCENT' ? `${value}%` : amount} off every ${quantity}`;
+    case 'QUANTITY_THRESHOLD':
+      if (deal.reward_type === 'FIXED_PRICE') return `Buy ${quantity}+ and pay ${amount} each`;
+      return `Buy ${quantity}+ and get ${deal.reward_type === 'PERCENT' ? `${value}%` : amount} off each`;
+    case 'BUNDLE_PRICE':
+      if (deal.reward_type === 'FIXED_PRICE') return `${deal.components.length}-part bundle for ${amount}`;
+      return `${deal.reward_type === 'PERCENT' ? `${value}%` : amount} off the ${deal.components.length}-part bundle`;
+  }
+};
+
+/** Days and hours the deal runs, e.g. "Mon, Tue · 11:00–14:00" */
+export const formatDealWindow = (deal: Pick<Deal, 'days_of_week' | 'start_time' | 'end_time'>): string => {
+  const days = deal.days_of_week.length === 0 || deal.days_of_week.length === 7
+    ? 'Every day'
+    : [...deal.days_of_week].sort((a, b) => a - b).map(day => DAY_NAMES[day].slice(0, 3)).join(', ');
+  return deal.start_time && deal.end_time ? `${days} · ${deal.start_time}–${deal.end_time}` : days;
+};
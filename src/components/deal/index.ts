@@ -0,0 +1,13 @@
+export { default as DealComponentEditor } from './DealComponentEditor';
+export { default as DealFormModal } from './DealFormModal';
+export { default as DealSimulator } from './DealSimulator';
+export {
+  DEAL_TYPE_LABELS,
+  DEAL_TYPE_HINTS,
+  DEAL_REWARD_LABELS,
+  DEAL_REWARD_TYPES,
+  DEAL_STATUS_LABELS,
+  DEAL_STATUS_COLORS,
+  describeDeal,
+  formatDealWindow
+} from './dealFormat';
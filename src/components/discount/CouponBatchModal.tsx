@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowPathIcon } from '@heroicons/react/24/outline';
+import { Modal, Button } from '../ui';
+import {
+  MAX_COUPON_BATCH_SIZE,
+  generateSerial,
+  generateSerials,
+  getPatternCapacity,
+  validateSerialPattern
+} from '../../services/discount/couponSerials';
+import type { CreateCouponBatchRequest } from '../../types/coupon';
+
+interface CouponBatchModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  discountCode: string;
+  /** Serials already issued for the discount, kept unique across batches */
+  existingSerials: string[];
+  onSave: (data: CreateCouponBatchRequest) => Promise<void>;
+}
+
+const inputClass = 'w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+const labelClass = 'block text-sm font-medium text-gray-700 mb-1';
+
+/** A starting pattern from the discount code, limited to characters Code39 prints */
+const defaultPattern = (discountCode: string): string => {
+  const prefix = discountCode.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 10);
+  return prefix ? `${prefix}-****-****` : '****-****-****';
+};
+
+const CouponBatchModal: React.FC<CouponBatchModalProps> = ({
+  isOpen,
+  onClose,
+  discountCode,
+  existingSerials,
+  onSave
+}) => {
+  const [name, setName] = useState('');
+  const [pattern, setPattern] = useState('');
+  const [quantity, setQuantity] = useState(100);
+  const [checkDigit, setCheckDigit] = useState(true);
+  const [notes, setNotes] = useState('');
+  const [previewSeed, setPreviewSeed] = useState(0);
+  const [samples, setSamples] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(`Batch ${new Date().toLocaleDateString()}`);
+    setPattern(defaultPattern(discountCode));
+    setQuantity(100);
+    setCheckDigit(true);
+    setNotes('');
+  }, [isOpen, discountCode]);
+
+  const patternError = validateSerialPattern(pattern);
+  const capacity = patternError ? 0 : getPatternCapacity(pattern);
+  const validationError = !name.trim()
+    ? 'Give the batch a name'
+    : patternError
+      || (quantity < 1 || quantity > MAX_COUPON_BATCH_SIZE ? `Issue between 1 and ${MAX_COUPON_BATCH_SIZE} codes at a time` : null)
+      || (capacity < quantity * 100 ? 'The pattern is too short for that many codes; add more placeholders' : null);
+
+  // previewSeed changes only to draw new samples
+  useEffect(() => {
+    setSamples(patternError ? [] : Array.from({ length: 3 }, () => generateSerial(pattern, checkDigit)));
+  }, [pattern, checkDigit, patternError, previewSeed]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (validationError) return;
+
+    setSaving(true);
+    try {
+      const serials = generateSerials(pattern, quantity, { checkDigit, existing: existingSerials });
+      await onSave({
+        name: name.trim(),
+        pattern,
+        check_digit: checkDigit,
+        serials,
+        notes: notes.trim() || undefined
+      });
+      onClose();
+    } catch (error) {
+      console.error('Failed to create coupon batch:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Generate Coupon Batch"
+      size="lg"
+      footer={
+        <div className="flex w-full items-center justify-between">
+          <span className="text-sm text-gray-500">{validationError}</span>
+          <div className="flex space-x-3">
+            <Button type="button" variant="outline" onClick={onClose} disabled={saving}>
+              Cancel
+            </Button>
+            <Button type="submit" form="coupon-batch-form" isLoading={saving} disabled={Boolean(validationError)}>
+              Generate {quantity > 0 ? quantity : ''} Codes
+            </Button>
+          </div>
+        </div>
+      }
+    >
+      <form id="coupon-batch-form" onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="sm:col-span-2">
+            <label className={labelClass}>Batch name</label>
+            <input type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputClass} required />
+          </div>
+          <div>
+            <label className={labelClass}>Quantity</label>
+            <input
+              type="number"
+              min={1}
+              max={MAX_COUPON_BATCH_SIZE}
+              step={1}
+              value={quantity}
+              onChange={(e) => setQuantity(Math.trunc(Number(e.target.value) || 0))}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className={labelClass}>Pattern</label>
+          <input
+            type="text"
+            value={pattern}
+            onChange={(e) => setPattern(e.target.value.toUpperCase())}
+            className={`${inputClass} font-mono`}
+          />
+          <p className="mt-1 text-xs text-gray-500">
+            # digit · ? letter · * letter or digit. Other characters are printed as typed; letters I and O and digits 0 and 1 are never generated where they could be confused.
+          </p>
+        </div>
+
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input type="checkbox" checked={checkDigit} onChange={(e) => setCheckDigit(e.target.checked)} />
+          <span>Add a check character so mistyped serials are rejected at the register</span>
+        </label>
+
+        <div className="rounded-lg bg-gray-50 p-4">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium text-gray-900">Preview</p>
+            <button
+              type="button"
+              onClick={() => setPreviewSeed(seed => seed + 1)}
+              className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-blue-600"
+              title="New samples"
+            >
+              <ArrowPathIcon className="h-4 w-4" />
+            </button>
+          </div>
+          {samples.length > 0 ? (
+            <ul className="mt-2 space-y-1 font-mono text-sm text-gray-800">
+              {samples.map((sample, index) => <li key={index}>{sample}</li>)}
+            </ul>
+          ) : (
+            <p className="mt-2 text-sm text-red-600">{patternError}</p>
+          )}
+          {capacity > 0 && (
+            <p className="mt-2 text-xs text-gray-500">
+              {capacity >= 1e12 ? 'Over a trillion' : capacity.toLocaleString()} possible codes
+            </p>
+          )}
+        </div>
+
+        <div>
+          <label className={labelClass}>Notes</label>
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={2}
+            placeholder="e.g. Spring mailer, 2 per household"
+            className={inputClass}
+          />
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default CouponBatchModal;
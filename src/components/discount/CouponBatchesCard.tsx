@@ -0,0 +1,386 @@
+import React, { useMemo, useState } from 'react';
+import {
+  ArrowDownTrayIcon,
+  ChevronDownIcon,
+  ChevronRightIcon,
+  MagnifyingGlassIcon,
+  PlusIcon,
+  PrinterIcon,
+  QrCodeIcon,
+  TicketIcon,
+  TrashIcon
+} from '@heroicons/react/24/outline';
+import { Card, Button, Badge, ConfirmDialog } from '../ui';
+import CouponBatchModal from './CouponBatchModal';
+import { printCouponSheet } from './couponPrint';
+import type { CouponCodeFormat } from './couponPrint';
+import { couponBatchService } from '../../services/discount/couponBatchService';
+import { getCouponSerialRows } from '../../services/discount/couponSerials';
+import useCouponBatches from '../../hooks/useCouponBatches';
+import { useConfirmDialog } from '../../hooks/useConfirmDialog';
+import { useError } from '../../hooks/useError';
+import { toCsv, downloadFile } from '../../utils/csvUtils';
+import type { Discount } from '../../types/discount';
+import type { CouponBatch, CouponSerialStatus, CreateCouponBatchRequest } from '../../types/coupon';
+
+interface CouponBatchesCardProps {
+  discount: Discount;
+  formatCurrency: (amount: number) => string;
+}
+
+const SERIALS_SHOWN = 200;
+
+const STATUS_LABELS: Record<CouponSerialStatus, string> = {
+  unused: 'Unused',
+  redeemed: 'Redeemed',
+  reused: 'Used more than once'
+};
+
+const STATUS_COLORS: Record<CouponSerialStatus, 'gray' | 'green' | 'red'> = {
+  unused: 'gray',
+  redeemed: 'green',
+  reused: 'red'
+};
+
+const toDateInput = (date: Date) => date.toISOString().split('T')[0];
+
+/**
+ * Serialized coupon batches for a discount: generate, export, print and
+ * check which serials were redeemed
+ */
+const CouponBatchesCard: React.FC<CouponBatchesCardProps> = ({ discount, formatCurrency }) => {
+  const { showError, showSuccess } = useError();
+  const confirmDialog = useConfirmDialog();
+  const {
+    batches,
+    isLoading,
+    error,
+    setBatches,
+    upsertBatch,
+    scan,
+    isScanning,
+    scanRedemptions
+  } = useCouponBatches({ storeId: discount.store_id, discountId: discount.discount_id, discountCode: discount.discount_code });
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [printing, setPrinting] = useState<string | null>(null);
+  const [scanStart, setScanStart] = useState('');
+  const [scanEnd, setScanEnd] = useState(() => toDateInput(new Date()));
+
+  const allSerials = useMemo(() => batches.flatMap(batch => batch.serials), [batches]);
+
+  // Default the scan to start when the first batch was issued
+  const earliestIssue = batches.length > 0
+    ? toDateInput(new Date(Math.min(...batches.map(batch => new Date(batch.created_at).getTime()))))
+    : toDateInput(new Date());
+  const effectiveStart = scanStart || earliestIssue;
+
+  const rowsByBatch = useMemo(
+    () => new Map(batches.map(batch => [batch.batch_id, getCouponSerialRows(batch.serials, scan?.redemptions || [])])),
+    [batches, scan]
+  );
+
+  const issuedSet = useMemo(() => new Set(allSerials.map(serial => serial.toUpperCase())), [allSerials]);
+  const unknownUses = (scan?.redemptions || []).filter(redemption => !issuedSet.has(redemption.serial_num.toUpperCase()));
+
+  const handleCreate = async (data: CreateCouponBatchRequest) => {
+    try {
+      const batch = await couponBatchService.createBatch(discount.store_id, discount.discount_id, data);
+      upsertBatch(batch);
+      setExpandedId(batch.batch_id);
+      showSuccess(`${batch.serials.length} codes generated`);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to create coupon batch');
+      throw err;
+    }
+  };
+
+  const handleDelete = (batch: CouponBatch) => {
+    confirmDialog.openDialog(async () => {
+      try {
+        await couponBatchService.deleteBatch(discount.store_id, discount.discount_id, batch.batch_id);
+        setBatches(prev => prev.filter(existing => existing.batch_id !== batch.batch_id));
+        showSuccess(`${batch.name} withdrawn`);
+      } catch (err) {
+        console.error('Failed to delete coupon batch:', err);
+        showError('Failed to delete coupon batch');
+      }
+    }, {
+      title: 'Withdraw batch',
+      message: `Withdraw "${batch.name}" and its ${batch.serials.length} codes? Codes already handed out will stop working at the register.`,
+      confirmText: 'Withdraw',
+      variant: 'danger'
+    });
+  };
+
+  const handleExport = (batch: CouponBatch) => {
+    const rows = rowsByBatch.get(batch.batch_id) || [];
+    const csv = toCsv(
+      ['serial_num', 'discount_code', 'batch', 'status', 'trans_ids', 'biz_dates', 'discount_amt'],
+      rows.map(row => {
+        const uses = row.redemptions.filter(redemption => !redemption.is_void);
+        return [
+          row.serial_num,
+          discount.discount_code,
+          batch.name,
+          scan ? row.status : 'not checked',
+          uses.map(redemption => redemption.trans_id).join(' '),
+          uses.map(redemption => redemption.biz_date).join(' '),
+          uses.length > 0 ? uses.reduce((total, redemption) => total + redemption.amount, 0).toFixed(2) : ''
+        ];
+      })
+    );
+    downloadFile(csv, `${discount.discount_code}-${batch.name.replace(/[^A-Za-z0-9-]+/g, '_')}.csv`);
+  };
+
+  const handlePrint = async (batch: CouponBatch, format: CouponCodeFormat) => {
+    setPrinting(`${batch.batch_id}:${format}`);
+    try {
+      await printCouponSheet(batch.serials, {
+        title: `${discount.discount_code} · ${batch.name}`,
+        headline: discount.description || discount.discount_code,
+        footer: `Valid ${new Date(discount.effective_datetime).toLocaleDateString()} – ${new Date(discount.expr_datetime).toLocaleDateString()}. One use per code.`,
+        format
+      });
+    } catch (err) {
+      console.error('Failed to print coupons:', err);
+      showError(err instanceof Error ? err.message : 'Failed to prepare the coupon sheet');
+    } finally {
+      setPrinting(null);
+    }
+  };
+
+  const handleScan = async () => {
+    try {
+      await scanRedemptions({ start_date: effectiveStart, end_date: scanEnd });
+    } catch (err) {
+      console.error('Failed to check redemptions:', err);
+      showError(err instanceof Error ? err.message : 'Failed to check redemptions');
+    }
+  };
+
+  const countStatus = (batchId: string, status: CouponSerialStatus) =>
+    (rowsByBatch.get(batchId) || []).filter(row => row.status === status).length;
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center">
+          <TicketIcon className="h-5 w-5 text-gray-400 mr-2" />
+          <h3 className="text-lg font-medium text-gray-900">Coupon Batches</h3>
+        </div>
+        <Button size="sm" onClick={() => setIsModalOpen(true)} className="flex items-center gap-1">
+          <PlusIcon className="h-4 w-4" />
+          Generate Batch
+        </Button>
+      </div>
+
+      {discount.serialized_discount_flag !== 1 && (
+        <p className="mb-4 rounded-md bg-yellow-50 px-3 py-2 text-sm text-yellow-800">
+          Serialized Discount is off, so the register will not ask for a serial. Turn it on before handing out codes.
+        </p>
+      )}
+
+      {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading batches...</p>
+      ) : batches.length === 0 ? (
+        <p className="text-sm text-gray-500">No codes issued yet.</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-end gap-3 rounded-lg bg-gray-50 p-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-500 mb-1">From</label>
+              <input
+                type="date"
+                value={effectiveStart}
+                onChange={(e) => setScanStart(e.target.value)}
+                className="rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-500 mb-1">To</label>
+              <input
+                type="date"
+                value={scanEnd}
+                onChange={(e) => setScanEnd(e.target.value)}
+                className="rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              />
+            </div>
+            <Button size="sm" variant="outline" onClick={handleScan} isLoading={isScanning}>
+              Check Redemptions
+            </Button>
+            {scan && (
+              <p className="text-xs text-gray-500">
+                {scan.scanned} discounted transactions checked, {scan.start_date} to {scan.end_date}
+                {scan.truncated && ' — stopped early; narrow the dates to check the rest'}
+              </p>
+            )}
+          </div>
+
+          {unknownUses.length > 0 && (
+            <p className="text-sm text-orange-700">
+              {unknownUses.length} use{unknownUses.length === 1 ? '' : 's'} of {discount.discount_code} with serials not issued here:
+              {' '}{[...new Set(unknownUses.map(redemption => redemption.serial_num))].slice(0, 5).join(', ')}
+            </p>
+          )}
+
+          <ul className="divide-y divide-gray-100 rounded-lg border border-gray-200">
+            {batches.map(batch => {
+              const isExpanded = expandedId === batch.batch_id;
+              const rows = (rowsByBatch.get(batch.batch_id) || [])
+                .filter(row => !search || row.serial_num.includes(search.toUpperCase()));
+              return (
+                <li key={batch.batch_id} className="p-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <button
+                      type="button"
+                      onClick={() => setExpandedId(isExpanded ? null : batch.batch_id)}
+                      className="flex items-center gap-2 text-left"
+                    >
+                      {isExpanded ? <ChevronDownIcon className="h-4 w-4 text-gray-400" /> : <ChevronRightIcon className="h-4 w-4 text-gray-400" />}
+                      <div>
+                        <div className="font-medium text-gray-900">{batch.name}</div>
+                        <div className="text-xs text-gray-500">
+                          {batch.serials.length} codes · <span className="font-mono">{batch.pattern}</span>
+                          {batch.check_digit && ' + check'} · {new Date(batch.created_at).toLocaleDateString()}
+                        </div>
+                      </div>
+                    </button>
+                    <div className="flex items-center gap-2">
+                      {scan && (
+                        <span className="text-xs text-gray-600">
+                          {countStatus(batch.batch_id, 'redeemed')} redeemed
+                          {countStatus(batch.batch_id, 'reused') > 0 && (
+                            <span className="text-red-600"> · {countStatus(batch.batch_id, 'reused')} reused</span>
+                          )}
+                        </span>
+                      )}
+                      <button
+                        onClick={() => handleExport(batch)}
+                        className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-blue-600"
+                        title="Export CSV"
+                      >
+                        <ArrowDownTrayIcon className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handlePrint(batch, 'qrcode')}
+                        disabled={printing !== null}
+                        className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-blue-600 disabled:opacity-50"
+                        title="Print with QR codes"
+                      >
+                        <QrCodeIcon className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handlePrint(batch, 'code39')}
+                        disabled={printing !== null}
+                        className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-blue-600 disabled:opacity-50"
+                        title="Print with Code39 barcodes"
+                      >
+                        <PrinterIcon className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(batch)}
+                        className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-red-600"
+                        title="Withdraw batch"
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+
+                  {isExpanded && (
+                    <div className="mt-3 space-y-2">
+                      {batch.notes && <p className="text-xs text-gray-500">{batch.notes}</p>}
+                      <div className="relative max-w-xs">
+                        <MagnifyingGlassIcon className="pointer-events-none absolute left-2 top-1.5 h-4 w-4 text-gray-400" />
+                        <input
+                          type="text"
+                          value={search}
+                          onChange={(e) => setSearch(e.target.value)}
+                          placeholder="Find a serial"
+                          className="w-full rounded-md border border-gray-300 py-1 pl-8 pr-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        />
+                      </div>
+                      <div className="max-h-80 overflow-y-auto rounded border border-gray-100">
+                        <table className="min-w-full divide-y divide-gray-100 text-sm">
+                          <thead className="bg-gray-50 sticky top-0">
+                            <tr className="text-left text-xs font-medium uppercase text-gray-500">
+                              <th className="px-3 py-2">Serial</th>
+                              <th className="px-3 py-2">Status</th>
+                              <th className="px-3 py-2">Transactions</th>
+                              <th className="px-3 py-2 text-right">Discount</th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-gray-100">
+                            {rows.slice(0, SERIALS_SHOWN).map(row => (
+                              <tr key={row.serial_num}>
+                                <td className="px-3 py-1.5 font-mono text-gray-900">{row.serial_num}</td>
+                                <td className="px-3 py-1.5">
+                                  {scan
+                                    ? <Badge color={STATUS_COLORS[row.status]} size="sm">{STATUS_LABELS[row.status]}</Badge>
+                                    : <span className="text-xs text-gray-400">Not checked</span>}
+                                </td>
+                                <td className="px-3 py-1.5 text-xs text-gray-600">
+                                  {row.redemptions.map(redemption => (
+                                    <div key={redemption.trans_id} className={redemption.is_void ? 'line-through text-gray-400' : ''}>
+                                      {redemption.trans_id} · {redemption.biz_date}
+                                    </div>
+                                  ))}
+                                </td>
+                                <td className="px-3 py-1.5 text-right text-gray-700">
+                                  {row.redemptions.some(redemption => !redemption.is_void)
+                                    ? formatCurrency(row.redemptions.filter(redemption => !redemption.is_void).reduce((total, redemption) => total + redemption.amount, 0))
+                                    : ''}
+                                </td>
+                              </tr>
+                            ))}
+                            {rows.length === 0 && (
+                              <tr>
+                                <td colSpan={4} className="px-3 py-4 text-center text-gray-500">No serials match</td>
+                              </tr>
+                            )}
+                          </tbody>
+                        </table>
+                      </div>
+                      {rows.length > SERIALS_SHOWN && (
+                        <p className="text-xs text-gray-500">
+                          Showing {SERIALS_SHOWN} of {rows.length}; export the CSV for the full list
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      <CouponBatchModal
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        discountCode={discount.discount_code}
+        existingSerials={allSerials}
+        onSave={handleCreate}
+      />
+
+      <ConfirmDialog
+        isOpen={confirmDialog.dialogState.isOpen}
+        onClose={confirmDialog.closeDialog}
+        onConfirm={confirmDialog.handleConfirm}
+        title={confirmDialog.dialogState.title}
+        message={confirmDialog.dialogState.message}
+        confirmText={confirmDialog.dialogState.confirmText}
+        cancelText={confirmDialog.dialogState.cancelText}
+        variant={confirmDialog.dialogState.variant}
+        isLoading={confirmDialog.dialogState.isLoading}
+      />
+    </Card>
+  );
+};
+
+export default CouponBatchesCard;
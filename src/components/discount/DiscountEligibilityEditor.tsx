@@ -0,0 +1,155 @@
+import React from 'react';
+import { MultipleDropdownSearch, InputMoneyField, TagsInput } from '../ui';
+import type { MultipleDropdownSearchOption } from '../ui/MultipleDropdownSearch';
+import { WEEKDAY_LABELS } from '../../services/discount/discountEligibility';
+import type { DiscountEligibility } from '../../types/discount';
+
+interface DiscountEligibilityEditorProps {
+  eligibility: DiscountEligibility;
+  onChange: (eligibility: DiscountEligibility) => void;
+  productOptions: MultipleDropdownSearchOption[];
+  categoryOptions: MultipleDropdownSearchOption[];
+  errors: Record<string, string>;
+}
+
+const inputClass = 'w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors';
+const labelClass = 'block text-sm font-semibold text-gray-700 mb-2';
+
+/**
+ * Product, customer, basket and time targeting for a discount
+ */
+const DiscountEligibilityEditor: React.FC<DiscountEligibilityEditorProps> = ({
+  eligibility,
+  onChange,
+  productOptions,
+  categoryOptions,
+  errors
+}) => {
+  const update = (changes: Partial<DiscountEligibility>) => onChange({ ...eligibility, ...changes });
+
+  const toggleDay = (day: number) => {
+    update({
+      days_of_week: eligibility.days_of_week.includes(day)
+        ? eligibility.days_of_week.filter(existing => existing !== day)
+        : [...eligibility.days_of_week, day].sort((a, b) => a - b)
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <MultipleDropdownSearch
+          label="Include Items"
+          values={eligibility.include_item_ids}
+          placeholder="Any item"
+          searchPlaceholder="Search products..."
+          options={productOptions}
+          onSelect={(values) => update({ include_item_ids: values })}
+          noOptionsMessage="No products available"
+          error={errors.eligibility_items}
+        />
+        <MultipleDropdownSearch
+          label="Exclude Items"
+          values={eligibility.exclude_item_ids}
+          placeholder="No exclusions"
+          searchPlaceholder="Search products..."
+          options={productOptions}
+          onSelect={(values) => update({ exclude_item_ids: values })}
+          noOptionsMessage="No products available"
+        />
+        <MultipleDropdownSearch
+          label="Include Categories"
+          values={eligibility.include_category_ids}
+          placeholder="Any category"
+          searchPlaceholder="Search categories..."
+          options={categoryOptions}
+          onSelect={(values) => update({ include_category_ids: values })}
+          noOptionsMessage="No categories available"
+          error={errors.eligibility_categories}
+        />
+        <MultipleDropdownSearch
+          label="Exclude Categories"
+          values={eligibility.exclude_category_ids}
+          placeholder="No exclusions"
+          searchPlaceholder="Search categories..."
+          options={categoryOptions}
+          onSelect={(values) => update({ exclude_category_ids: values })}
+          noOptionsMessage="No categories available"
+        />
+      </div>
+      <p className="text-xs text-gray-500">
+        With no items or categories included, every product qualifies. Exclusions always win over inclusions.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label className={labelClass}>Customer Groups</label>
+          <TagsInput
+            tags={eligibility.customer_groups}
+            onChange={(groups) => update({ customer_groups: groups })}
+            placeholder="e.g. STAFF, VIP"
+          />
+          <p className="mt-1 text-xs text-gray-500">Leave empty to allow every customer, including walk-ins</p>
+        </div>
+        <InputMoneyField
+          label="Minimum Basket Total"
+          value={eligibility.min_basket_total || 0}
+          onChange={(value) => update({ min_basket_total: value ? parseFloat(value) : null })}
+          placeholder="0.00"
+          helperText="Subtotal of the transaction before discounts"
+          error={errors.min_basket_total}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label className={labelClass}>Days</label>
+          <div className="flex flex-wrap gap-2">
+            {WEEKDAY_LABELS.map((label, day) => (
+              <button
+                key={label}
+                type="button"
+                onClick={() => toggleDay(day)}
+                className={`rounded-full px-3 py-1 text-xs font-medium ${
+                  eligibility.days_of_week.includes(day) ? 'bg-blue-600 text-white' : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <p className="mt-1 text-xs text-gray-500">No days selected means every day</p>
+        </div>
+        <div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>From</label>
+              <input
+                type="time"
+                value={eligibility.start_time || ''}
+                onChange={(e) => update({ start_time: e.target.value || null })}
+                className={`${inputClass} ${errors.eligibility_time ? 'border-red-300' : 'border-gray-300'}`}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Until</label>
+              <input
+                type="time"
+                value={eligibility.end_time || ''}
+                onChange={(e) => update({ end_time: e.target.value || null })}
+                className={`${inputClass} ${errors.eligibility_time ? 'border-red-300' : 'border-gray-300'}`}
+              />
+            </div>
+          </div>
+          {errors.eligibility_time ? (
+            <p className="mt-1 text-sm text-red-600">{errors.eligibility_time}</p>
+          ) : (
+            <p className="mt-1 text-xs text-gray-500">Store time; a window can run past midnight</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DiscountEligibilityEditor;
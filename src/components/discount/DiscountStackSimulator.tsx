@@ -0,0 +1,324 @@
+import React, { useMemo, useState } from 'react';
+import { BeakerIcon, ListBulletIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { Widget, Badge, DropdownSearch } from '../ui';
+import { isPercentDiscount, isPromptDiscount, simulateDiscountStack } from '../../services/discount/discountSimulation';
+import type { Discount, DiscountCap } from '../../types/discount';
+import type { SimulationCartLine } from '../../types/deal';
+import type { ApiProduct } from '../../services/types/product.types';
+
+interface DiscountStackSimulatorProps {
+  discounts: Discount[];
+  products: ApiProduct[];
+  productsLoading?: boolean;
+  formatCurrency: (amount: number) => string;
+}
+
+const inputClass = 'w-full rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+const labelClass = 'block text-sm font-medium text-gray-700 mb-1';
+
+const CAP_LABELS: Record<DiscountCap, string> = {
+  max_percentage: 'max percentage',
+  max_amount: 'max amount',
+  max_discount: 'max discount'
+};
+
+// datetime-local inputs work in local time without a zone
+const toLocalInput = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+/** Shelf price: the sale price when the product has one */
+const getShelfPrice = (product: ApiProduct): number =>
+  product.sale_price && product.sale_price > 0 && product.sale_price < product.list_price ? product.sale_price : product.list_price;
+
+/**
+ * Try a sample cart against every discount in sort order and see how they
+ * stack, line by line
+ */
+const DiscountStackSimulator: React.FC<DiscountStackSimulatorProps> = ({
+  discounts,
+  products,
+  productsLoading = false,
+  formatCurrency
+}) => {
+  const [lines, setLines] = useState<SimulationCartLine[]>([]);
+  const [at, setAt] = useState(() => toLocalInput(new Date()));
+  const [customerGroup, setCustomerGroup] = useState('');
+  const [skippedIds, setSkippedIds] = useState<string[]>([]);
+  const [promptValues, setPromptValues] = useState<Record<string, number>>({});
+
+  const productOptions = useMemo(
+    () => products.map(product => ({
+      id: product.item_id,
+      label: product.name,
+      description: `${product.item_id} · ${formatCurrency(getShelfPrice(product))}`
+    })),
+    [products, formatCurrency]
+  );
+
+  const addProduct = (itemId: string) => {
+    const product = products.find(candidate => candidate.item_id === itemId);
+    if (!product) return;
+    setLines(prev => (prev.some(line => line.item_id === itemId)
+      ? prev.map(line => (line.item_id === itemId ? { ...line, quantity: line.quantity + 1 } : line))
+      : [...prev, {
+        item_id: product.item_id,
+        name: product.name,
+        category_ids: product.categories || [],
+        unit_price: getShelfPrice(product),
+        quantity: 1
+      }]));
+  };
+
+  const updateLine = (index: number, changes: Partial<SimulationCartLine>) => {
+    setLines(prev => prev.map((line, position) => (position === index ? { ...line, ...changes } : line)));
+  };
+
+  const togglePresented = (discountId: string) => {
+    setSkippedIds(prev => (prev.includes(discountId) ? prev.filter(id => id !== discountId) : [...prev, discountId]));
+  };
+
+  const result = useMemo(
+    () => simulateDiscountStack(discounts, lines, {
+      at: at ? new Date(at) : new Date(),
+      customer_group: customerGroup.trim() || null,
+      prompt_values: promptValues,
+      skipped_ids: skippedIds,
+      formatAmount: formatCurrency
+    }),
+    [discounts, lines, at, customerGroup, promptValues, skippedIds, formatCurrency]
+  );
+
+  const formatValue = (discount: Discount, value: number) =>
+    (isPercentDiscount(discount) ? `${value}%` : formatCurrency(value));
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Widget title="Sample Cart" description="Real products at their shelf price" icon={BeakerIcon} className="overflow-visible">
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <DropdownSearch
+                label="Add product"
+                placeholder={productsLoading ? 'Loading products...' : 'Search products'}
+                searchPlaceholder="Search products..."
+                options={productOptions}
+                onSelect={(option) => option && addProduct(option.id)}
+                noOptionsMessage="No products"
+                closeOnSelect={true}
+                disabled={productsLoading}
+              />
+              <div>
+                <label className={labelClass}>Customer group</label>
+                <input
+                  type="text"
+                  value={customerGroup}
+                  onChange={(e) => setCustomerGroup(e.target.value)}
+                  placeholder="Walk-in"
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Checkout time</label>
+                <input
+                  type="datetime-local"
+                  value={at}
+                  onChange={(e) => setAt(e.target.value)}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+
+            <div className="overflow-x-auto rounded-lg border border-gray-200">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr className="text-left text-xs font-medium uppercase text-gray-500">
+                    <th className="px-3 py-2">Item</th>
+                    <th className="px-3 py-2 w-20">Qty</th>
+                    <th className="px-3 py-2 w-24">Price</th>
+                    <th className="px-3 py-2 text-right">Net</th>
+                    <th className="px-3 py-2 w-10"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {lines.map((line, index) => (
+                    <tr key={line.item_id}>
+                      <td className="px-3 py-2 font-medium text-gray-900">{line.name}</td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="number"
+                          min={1}
+                          step={1}
+                          value={line.quantity}
+                          onChange={(e) => updateLine(index, { quantity: Math.max(1, Math.trunc(Number(e.target.value) || 1)) })}
+                          className={inputClass}
+                        />
+                      </td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          value={line.unit_price}
+                          onChange={(e) => updateLine(index, { unit_price: Math.max(0, Number(e.target.value) || 0) })}
+                          className={inputClass}
+                        />
+                      </td>
+                      <td className="px-3 py-2 text-right text-gray-900">{formatCurrency(result.line_totals[index] ?? 0)}</td>
+                      <td className="px-3 py-2 text-right">
+                        <button
+                          type="button"
+                          onClick={() => setLines(prev => prev.filter((_line, position) => position !== index))}
+                          className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-red-600"
+                          title="Remove line"
+                        >
+                          <TrashIcon className="h-4 w-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                  {lines.length === 0 && (
+                    <tr>
+                      <td colSpan={5} className="px-3 py-8 text-center text-gray-500">Add products to build a cart</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            <dl className="space-y-1 text-sm">
+              <div className="flex justify-between">
+                <dt className="text-gray-600">Subtotal</dt>
+                <dd className="text-gray-900">{formatCurrency(result.subtotal)}</dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className="text-gray-600">Discounts</dt>
+                <dd className="text-green-700">−{formatCurrency(result.total_discount)}</dd>
+              </div>
+              <div className="flex justify-between border-t border-gray-200 pt-1 font-semibold">
+                <dt className="text-gray-900">Total before tax</dt>
+                <dd className="text-gray-900">{formatCurrency(result.subtotal - result.total_discount)}</dd>
+              </div>
+            </dl>
+          </div>
+        </Widget>
+
+        <Widget title="Discounts in Order" description="Applied by sort order; untick coupons the customer did not present" icon={ListBulletIcon}>
+          {result.steps.length === 0 ? (
+            <p className="text-sm text-gray-500">No discounts set up yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {result.steps.map(step => {
+                const { discount } = step;
+                return (
+                  <li key={discount.discount_id} className="flex items-start justify-between gap-3 py-3">
+                    <div className="flex items-start gap-3">
+                      <input
+                        type="checkbox"
+                        checked={!skippedIds.includes(discount.discount_id)}
+                        onChange={() => togglePresented(discount.discount_id)}
+                        className="mt-1 h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <span className="text-xs text-gray-400">#{discount.sort_order}</span>
+                          <span className="font-mono text-sm font-medium text-gray-900">{discount.discount_code}</span>
+                          {discount.exclusive_discount_flag === 1 && <Badge color="purple" size="sm">Exclusive</Badge>}
+                          <Badge color={step.outcome === 'applied' ? 'green' : 'gray'} size="sm">
+                            {step.outcome === 'applied' ? 'Applied' : 'Skipped'}
+                          </Badge>
+                        </div>
+                        <p className="text-xs text-gray-500">{discount.description}</p>
+                        {isPromptDiscount(discount) && (
+                          <div className="mt-1 flex items-center gap-2 text-xs text-gray-600">
+                            <span>Cashier enters</span>
+                            <input
+                              type="number"
+                              min={0}
+                              step="0.01"
+                              value={promptValues[discount.discount_id] ?? ''}
+                              placeholder={String((isPercentDiscount(discount) ? discount.percentage : discount.discount) ?? 0)}
+                              onChange={(e) => setPromptValues(prev => ({ ...prev, [discount.discount_id]: Math.max(0, Number(e.target.value) || 0) }))}
+                              className="w-20 rounded-md border border-gray-300 px-2 py-0.5 text-xs focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                            />
+                            <span>{isPercentDiscount(discount) ? '%' : ''}</span>
+                          </div>
+                        )}
+                        {step.reason && <p className="text-xs text-gray-400">{step.reason}</p>}
+                        {step.caps.length > 0 && (
+                          <p className="text-xs text-orange-600">
+                            Capped by {step.caps.map(cap => CAP_LABELS[cap]).join(' and ')}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                    <div className="text-right text-sm whitespace-nowrap">
+                      {step.outcome === 'applied' ? (
+                        <>
+                          <div className="font-semibold text-green-700">−{formatCurrency(step.amount)}</div>
+                          <div className="text-xs text-gray-500">{formatValue(discount, step.value)}</div>
+                        </>
+                      ) : (
+                        <span className="text-gray-300">—</span>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </Widget>
+      </div>
+
+      <Widget title="Price Modifiers" description="What each line would carry on the transaction">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-xs font-medium uppercase text-gray-500">
+                <th className="px-3 py-2">Line</th>
+                <th className="px-3 py-2">Seq</th>
+                <th className="px-3 py-2">Reason</th>
+                <th className="px-3 py-2">Disc Code</th>
+                <th className="px-3 py-2">Desc</th>
+                <th className="px-3 py-2 text-right">Change Amt</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {lines.map((line, index) => {
+                const lineModifiers = result.modifiers.filter(modifier => modifier.line_index === index);
+                return (
+                  <React.Fragment key={line.item_id}>
+                    {lineModifiers.map((modifier, position) => (
+                      <tr key={`${modifier.disc_code}-${position}`}>
+                        <td className="px-3 py-2 text-gray-900">{position === 0 ? `${index + 1}. ${line.name}` : ''}</td>
+                        <td className="px-3 py-2 text-gray-500">{position + 1}</td>
+                        <td className="px-3 py-2 font-mono text-xs text-gray-700">{modifier.reason}</td>
+                        <td className="px-3 py-2 font-mono text-xs text-gray-700">{modifier.disc_code}</td>
+                        <td className="px-3 py-2 text-gray-600">{modifier.desc}</td>
+                        <td className="px-3 py-2 text-right text-green-700">−{formatCurrency(modifier.amount)}</td>
+                      </tr>
+                    ))}
+                    {lineModifiers.length === 0 && (
+                      <tr>
+                        <td className="px-3 py-2 text-gray-900">{`${index + 1}. ${line.name}`}</td>
+                        <td colSpan={5} className="px-3 py-2 text-gray-400">No discounts</td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+              {lines.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-3 py-6 text-center text-gray-500">Modifiers appear once the cart has items</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Widget>
+    </div>
+  );
+};
+
+export default DiscountStackSimulator;
@@ -0,0 +1,138 @@
+import QRCode from 'qrcode';
+import JsBarcode from 'jsbarcode';
+
+export type CouponCodeFormat = 'qrcode' | 'code39';
+
+interface CouponSheetOptions {
+  title: string;
+  /** Offer text printed on every coupon */
+  headline: string;
+  /** Small print such as the validity dates */
+  footer?: string;
+  format: CouponCodeFormat;
+}
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const renderCode = async (serial: string, format: CouponCodeFormat): Promise<string> => {
+  try {
+    if (format === 'qrcode') {
+      const dataUrl = await QRCode.toDataURL(serial, { width: 120, margin: 1 });
+      return `<img src="${dataUrl}" alt="${escapeHtml(serial)}" style="width: 110px; height: 110px;" />`;
+    }
+
+    const canvas = document.createElement('canvas');
+    JsBarcode(canvas, serial, {
+      format: 'CODE39',
+      width: 1.4,
+      height: 48,
+      displayValue: false,
+      margin: 4,
+      background: '#ffffff',
+      lineColor: '#000000'
+    });
+    return `<img src="${canvas.toDataURL()}" alt="${escapeHtml(serial)}" style="max-width: 100%; height: 52px;" />`;
+  } catch (error) {
+    console.error('Failed to generate coupon code:', serial, error);
+    return '<div style="font-size: 10px; color: #b91c1c;">Code could not be generated</div>';
+  }
+};
+
+/**
+ * Open a print window with one coupon per tile, each carrying its serial as
+ * a QR code or Code39 barcode.
+ *
+ * Call straight from a click handler: the window opens before the codes are
+ * rendered, while the browser still allows the popup.
+ */
+export const printCouponSheet = async (serials: string[], options: CouponSheetOptions): Promise<void> => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error('The print window was blocked. Allow pop-ups for this site and try again.');
+  }
+  printWindow.document.write(`<title>${escapeHtml(options.title)}</title><p style="font-family: Arial, Helvetica, sans-serif;">Generating ${serials.length} coupons…</p>`);
+
+  let tiles: string[];
+  try {
+    tiles = await Promise.all(serials.map(async serial => `
+      <div class="coupon">
+        <div class="headline">${escapeHtml(options.headline)}</div>
+        <div class="code">${await renderCode(serial, options.format)}</div>
+        <div class="serial">${escapeHtml(serial)}</div>
+        ${options.footer ? `<div class="footer">${escapeHtml(options.footer)}</div>` : ''}
+      </div>
+    `));
+  } catch (error) {
+    printWindow.close();
+    throw error;
+  }
+
+  // Replace the placeholder with the sheet
+  printWindow.document.open();
+  printWindow.document.write(`
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <title>${escapeHtml(options.title)}</title>
+      <style>
+        body {
+          font-family: Arial, Helvetica, sans-serif;
+          margin: 0;
+          padding: 16px;
+          background: white;
+        }
+        .sheet {
+          display: grid;
+          grid-template-columns: repeat(${options.format === 'qrcode' ? 3 : 2}, 1fr);
+          gap: 8px;
+        }
+        .coupon {
+          border: 1px dashed #666;
+          padding: 10px;
+          text-align: center;
+          page-break-inside: avoid;
+          break-inside: avoid;
+        }
+        .headline {
+          font-weight: bold;
+          font-size: 13px;
+          margin-bottom: 6px;
+        }
+        .serial {
+          font-family: monospace;
+          font-size: 12px;
+          letter-spacing: 1px;
+          margin-top: 4px;
+        }
+        .footer {
+          font-size: 9px;
+          color: #555;
+          margin-top: 4px;
+        }
+        @media print {
+          body {
+            padding: 0;
+          }
+          @page {
+            margin: 0.4in;
+          }
+        }
+      </style>
+    </head>
+    <body>
+      <div class="sheet">
+        ${tiles.join('')}
+      </div>
+      <script>
+        window.onload = function() {
+          setTimeout(function() {
+            window.print();
+          }, 500);
+        };
+      </script>
+    </body>
+    </html>
+  `);
+  printWindow.document.close();
+};
@@ -0,0 +1,4 @@
+export { default as DiscountEligibilityEditor } from './DiscountEligibilityEditor';
+export { default as DiscountStackSimulator } from './DiscountStackSimulator';
+export { default as CouponBatchModal } from './CouponBatchModal';
+export { default as CouponBatchesCard } from './CouponBatchesCard';
@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, Button, CompactToggle } from '../ui';
+import type { InventoryAlertSettings, UpdateInventoryAlertSettingsRequest } from '../../services/inventory';
+
+interface InventoryAlertSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: InventoryAlertSettings;
+  onSave: (data: UpdateInventoryAlertSettingsRequest) => Promise<void>;
+}
+
+const inputClass = 'w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+const labelClass = 'block text-sm font-medium text-gray-700 mb-1';
+
+// Empty optional inputs clear the setting
+const parseOptional = (value: string): number | undefined => (value === '' ? undefined : Math.max(0, Number(value)));
+
+const InventoryAlertSettingsModal: React.FC<InventoryAlertSettingsModalProps> = ({ isOpen, onClose, settings, onSave }) => {
+  const [form, setForm] = useState<InventoryAlertSettings>(settings);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) setForm(settings);
+  }, [isOpen, settings]);
+
+  const update = (changes: Partial<InventoryAlertSettings>) => setForm(prev => ({ ...prev, ...changes }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await onSave(form);
+      onClose();
+    } catch (error) {
+      console.error('Failed to save inventory settings:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Stock Alert Settings"
+      size="md"
+      footer={
+        <div className="flex justify-end space-x-3">
+          <Button type="button" variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button type="submit" form="inventory-alerts-form" isLoading={saving}>
+            Save Settings
+          </Button>
+        </div>
+      }
+    >
+      <form id="inventory-alerts-form" onSubmit={handleSubmit} className="space-y-5">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div>
+            <label className={labelClass}>Low stock at or below</label>
+            <input
+              type="number"
+              min={0}
+              value={form.low_stock_threshold}
+              onChange={(e) => update({ low_stock_threshold: Math.max(0, Number(e.target.value) || 0) })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Reorder point</label>
+            <input
+              type="number"
+              min={0}
+              value={form.reorder_point ?? ''}
+              onChange={(e) => update({ reorder_point: parseOptional(e.target.value) })}
+              placeholder="Off"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Reorder quantity</label>
+            <input
+              type="number"
+              min={0}
+              value={form.reorder_quantity ?? ''}
+              onChange={(e) => update({ reorder_quantity: parseOptional(e.target.value) })}
+              placeholder="Off"
+              className={inputClass}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">These are the store's operational settings; items can override them individually.</p>
+
+        <div className="space-y-3">
+          <CompactToggle
+            label="Alert when items run out"
+            checked={form.out_of_stock_notifications}
+            onChange={(checked) => update({ out_of_stock_notifications: checked })}
+          />
+          <CompactToggle
+            label="Allow negative inventory"
+            checked={form.negative_inventory_allowed}
+            onChange={(checked) => update({ negative_inventory_allowed: checked })}
+          />
+          <CompactToggle
+            label="Reorder automatically at the reorder point"
+            checked={form.auto_reorder}
+            onChange={(checked) => update({ auto_reorder: checked })}
+          />
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default InventoryAlertSettingsModal;
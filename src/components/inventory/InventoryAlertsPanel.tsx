@@ -0,0 +1,56 @@
+import React from 'react';
+import { CheckCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import type { InventoryAlert } from '../../services/inventory';
+import { ALERT_TYPE_LABELS, ALERT_TYPE_STYLES } from './inventoryFormat';
+
+interface InventoryAlertsPanelProps {
+  alerts: InventoryAlert[];
+  onAdjust?: (itemId: string) => void;
+}
+
+const InventoryAlertsPanel: React.FC<InventoryAlertsPanelProps> = ({ alerts, onAdjust }) => {
+  if (alerts.length === 0) {
+    return (
+      <div className="flex items-center justify-center rounded-lg border border-dashed border-gray-300 bg-white p-10 text-sm text-gray-500">
+        <CheckCircleIcon className="mr-2 h-5 w-5 text-green-500" />
+        All tracked items are above their thresholds
+      </div>
+    );
+  }
+
+  return (
+    <ul className="space-y-2">
+      {alerts.map(alert => (
+        <li
+          key={alert.item_id}
+          className={`flex items-center justify-between rounded-md border px-4 py-3 ${ALERT_TYPE_STYLES[alert.type]}`}
+        >
+          <div className="flex items-center">
+            <ExclamationTriangleIcon className="mr-3 h-5 w-5 flex-shrink-0" />
+            <div>
+              <div className="font-medium">
+                {alert.name}
+                <span className="ml-2 text-xs font-normal opacity-75">{alert.item_id}</span>
+              </div>
+              <div className="text-sm">{alert.message}</div>
+            </div>
+          </div>
+          <div className="flex items-center space-x-3">
+            <span className="text-xs font-semibold uppercase">{ALERT_TYPE_LABELS[alert.type]}</span>
+            {onAdjust && (
+              <button
+                type="button"
+                onClick={() => onAdjust(alert.item_id)}
+                className="rounded-md border border-current px-2 py-1 text-xs font-medium hover:bg-white/60"
+              >
+                Adjust
+              </button>
+            )}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default InventoryAlertsPanel;
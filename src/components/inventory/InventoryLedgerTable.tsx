@@ -0,0 +1,88 @@
+import React from 'react';
+import { Button } from '../ui';
+import type { InventoryAdjustment } from '../../services/inventory';
+import { ADJUSTMENT_TYPE_LABELS, formatQuantityDelta } from './inventoryFormat';
+
+interface InventoryLedgerTableProps {
+  adjustments: InventoryAdjustment[];
+  itemNames: Map<string, string>;
+  loading?: boolean;
+  hasMore?: boolean;
+  onLoadMore?: () => void;
+  /** Hide the item column when showing a single item's history */
+  showItem?: boolean;
+}
+
+const formatTimestamp = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+const InventoryLedgerTable: React.FC<InventoryLedgerTableProps> = ({
+  adjustments,
+  itemNames,
+  loading = false,
+  hasMore = false,
+  onLoadMore,
+  showItem = true
+}) => (
+  <div className="rounded-lg border border-gray-200 bg-white">
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200 text-sm">
+        <thead className="bg-gray-50">
+          <tr className="text-left text-xs font-medium uppercase text-gray-500">
+            <th className="px-3 py-2">When</th>
+            {showItem && <th className="px-3 py-2">Item</th>}
+            <th className="px-3 py-2">Type</th>
+            <th className="px-3 py-2 text-right">Change</th>
+            <th className="px-3 py-2 text-right">Before</th>
+            <th className="px-3 py-2 text-right">After</th>
+            <th className="px-3 py-2">Reason</th>
+            <th className="px-3 py-2">By</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {adjustments.map(adjustment => (
+            <tr key={adjustment.adjustment_id}>
+              <td className="px-3 py-2 whitespace-nowrap text-gray-600">{formatTimestamp(adjustment.created_at)}</td>
+              {showItem && (
+                <td className="px-3 py-2">
+                  <div className="font-medium text-gray-900">{itemNames.get(adjustment.item_id) || adjustment.item_id}</div>
+                  <div className="text-xs text-gray-500">{adjustment.item_id}</div>
+                </td>
+              )}
+              <td className="px-3 py-2 whitespace-nowrap text-gray-700">
+                {ADJUSTMENT_TYPE_LABELS[adjustment.type] || adjustment.type}
+                {adjustment.reference_id && (
+                  <div className="text-xs text-gray-500">{adjustment.reference_type} {adjustment.reference_id}</div>
+                )}
+              </td>
+              <td className={`px-3 py-2 text-right font-medium ${adjustment.quantity_delta < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                {formatQuantityDelta(adjustment.quantity_delta)}
+              </td>
+              <td className="px-3 py-2 text-right text-gray-600">{adjustment.quantity_before}</td>
+              <td className="px-3 py-2 text-right text-gray-900">{adjustment.quantity_after}</td>
+              <td className="px-3 py-2 text-gray-700">
+                {adjustment.reason_code || <span className="text-gray-300">—</span>}
+                {adjustment.comment && <div className="text-xs text-gray-500">{adjustment.comment}</div>}
+              </td>
+              <td className="px-3 py-2 whitespace-nowrap text-gray-600">{adjustment.created_by}</td>
+            </tr>
+          ))}
+          {!loading && adjustments.length === 0 && (
+            <tr>
+              <td colSpan={showItem ? 8 : 7} className="px-3 py-10 text-center text-gray-500">No stock changes recorded</td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+    {(hasMore || loading) && (
+      <div className="flex justify-center border-t border-gray-100 p-3">
+        <Button size="sm" variant="outline" onClick={onLoadMore} isLoading={loading} disabled={!hasMore}>
+          Load More
+        </Button>
+      </div>
+    )}
+  </div>
+);
+
+export default InventoryLedgerTable;
@@ -0,0 +1,252 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Modal, Button, DropdownSearch } from '../ui';
+import {
+  ADJUSTMENT_DIRECTION,
+  REASON_REQUIRED_TYPES,
+  deriveStockStatus,
+  validateAdjustment
+} from '../../services/inventory';
+import type {
+  CreateInventoryAdjustmentRequest,
+  InventoryAdjustmentType,
+  InventoryAlertSettings,
+  InventoryItem
+} from '../../services/inventory';
+import type { ReasonCode } from '../../types/reasonCode';
+import { ADJUSTMENT_TYPE_LABELS, STOCK_STATUS_LABELS } from './inventoryFormat';
+
+interface StockAdjustmentModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Item to adjust; when omitted the user picks one */
+  item?: InventoryItem | null;
+  items: InventoryItem[];
+  settings: InventoryAlertSettings;
+  reasonCodes: ReasonCode[];
+  onSubmit: (data: CreateInventoryAdjustmentRequest) => Promise<void>;
+}
+
+type QuantityMode = 'add' | 'remove' | 'set';
+
+const MANUAL_TYPES: InventoryAdjustmentType[] = ['adjust', 'receive', 'damage', 'shrink', 'return'];
+
+const inputClass = 'w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+const labelClass = 'block text-sm font-medium text-gray-700 mb-1';
+
+const StockAdjustmentModal: React.FC<StockAdjustmentModalProps> = ({
+  isOpen,
+  onClose,
+  item,
+  items,
+  settings,
+  reasonCodes,
+  onSubmit
+}) => {
+  const [itemId, setItemId] = useState('');
+  const [type, setType] = useState<InventoryAdjustmentType>('adjust');
+  const [mode, setMode] = useState<QuantityMode>('add');
+  const [quantity, setQuantity] = useState('');
+  const [unitCost, setUnitCost] = useState('');
+  const [reasonCode, setReasonCode] = useState('');
+  const [comment, setComment] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setItemId(item?.item_id || '');
+    setType('adjust');
+    setMode('add');
+    setQuantity('');
+    setUnitCost(item?.unit_cost != null ? String(item.unit_cost) : '');
+    setReasonCode('');
+    setComment('');
+  }, [isOpen, item]);
+
+  const selected = item || items.find(candidate => candidate.item_id === itemId);
+  const direction = ADJUSTMENT_DIRECTION[type];
+  // Only free adjustments can set an absolute quantity; the others move one way
+  const effectiveMode: QuantityMode = direction === 'in' ? 'add' : direction === 'out' ? 'remove' : mode;
+
+  const itemOptions = useMemo(
+    () => items.map(candidate => ({
+      id: candidate.item_id,
+      label: candidate.name,
+      description: `${candidate.item_id} · ${candidate.on_hand} on hand`
+    })),
+    [items]
+  );
+
+  const amount = Number(quantity);
+  const onHand = selected?.on_hand ?? 0;
+  const quantityDelta = quantity === '' || !Number.isFinite(amount)
+    ? 0
+    : effectiveMode === 'set' ? amount - onHand : effectiveMode === 'remove' ? -Math.abs(amount) : Math.abs(amount);
+
+  const reasonRequired = REASON_REQUIRED_TYPES.includes(type);
+  const selectedReason = reasonCodes.find(code => code.code === reasonCode);
+  const commentRequired = Boolean(selectedReason?.req_cmt);
+  const validationError = selected && quantity !== '' ? validateAdjustment(onHand, type, quantityDelta, settings) : null;
+  const isValid = Boolean(
+    selected
+    && quantity !== ''
+    && !validationError
+    && (!reasonRequired || reasonCode)
+    && (!commentRequired || comment.trim())
+  );
+
+  const resultStatus = selected
+    ? deriveStockStatus(onHand + quantityDelta, selected.on_order, selected.low_stock_threshold)
+    : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected || !isValid) return;
+
+    setSaving(true);
+    try {
+      await onSubmit({
+        item_id: selected.item_id,
+        type,
+        quantity_delta: quantityDelta,
+        reason_code: reasonCode || undefined,
+        comment: comment.trim() || undefined,
+        unit_cost: type === 'receive' && unitCost !== '' ? Number(unitCost) : undefined
+      });
+      onClose();
+    } catch (error) {
+      console.error('Failed to adjust stock:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={selected && item ? `Adjust Stock: ${selected.name}` : 'Adjust Stock'}
+      size="md"
+      footer={
+        <div className="flex justify-end space-x-3">
+          <Button type="button" variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button type="submit" form="stock-adjustment-form" isLoading={saving} disabled={!isValid}>
+            Save Adjustment
+          </Button>
+        </div>
+      }
+    >
+      <form id="stock-adjustment-form" onSubmit={handleSubmit} className="space-y-4">
+        {!item && (
+          <DropdownSearch
+            label="Item"
+            value={itemId || undefined}
+            placeholder="Select an item"
+            searchPlaceholder="Search items..."
+            options={itemOptions}
+            onSelect={(option) => setItemId(option?.id || '')}
+            noOptionsMessage="No tracked items"
+            closeOnSelect={true}
+          />
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className={labelClass}>Type</label>
+            <select
+              value={type}
+              onChange={(e) => setType(e.target.value as InventoryAdjustmentType)}
+              className={inputClass}
+            >
+              {MANUAL_TYPES.map(option => (
+                <option key={option} value={option}>{ADJUSTMENT_TYPE_LABELS[option]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Quantity</label>
+            <div className="flex space-x-2">
+              {direction === 'either' && (
+                <select
+                  value={mode}
+                  onChange={(e) => setMode(e.target.value as QuantityMode)}
+                  className="rounded-md border border-gray-300 px-2 py-2 text-sm focus:border-blue-500 focus:outline-none"
+                >
+                  <option value="add">Add</option>
+                  <option value="remove">Remove</option>
+                  <option value="set">Set to</option>
+                </select>
+              )}
+              <input
+                type="number"
+                min={effectiveMode === 'set' && settings.negative_inventory_allowed ? undefined : 0}
+                step="any"
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+                className={inputClass}
+                required
+              />
+            </div>
+          </div>
+        </div>
+
+        {selected && (
+          <div className="rounded-md bg-gray-50 px-3 py-2 text-sm text-gray-700">
+            {onHand} on hand
+            {quantity !== '' && !validationError && (
+              <> → <span className="font-semibold">{onHand + quantityDelta}</span> ({resultStatus && STOCK_STATUS_LABELS[resultStatus]})</>
+            )}
+          </div>
+        )}
+        {validationError && <p className="text-sm text-red-600">{validationError}</p>}
+
+        {type === 'receive' && (
+          <div>
+            <label className={labelClass}>Unit cost</label>
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={unitCost}
+              onChange={(e) => setUnitCost(e.target.value)}
+              placeholder="Leave empty to keep the current cost"
+              className={inputClass}
+            />
+          </div>
+        )}
+
+        <div>
+          <label className={labelClass}>Reason{!reasonRequired && ' (optional)'}</label>
+          <select
+            value={reasonCode}
+            onChange={(e) => setReasonCode(e.target.value)}
+            className={inputClass}
+            required={reasonRequired}
+          >
+            <option value="">Select a reason...</option>
+            {reasonCodes.map(code => (
+              <option key={code.code} value={code.code}>{code.code} - {code.description}</option>
+            ))}
+          </select>
+          {reasonCodes.length === 0 && (
+            <p className="mt-1 text-xs text-gray-500">Add reason codes with the Inventory Adjustment category under Reason Codes.</p>
+          )}
+        </div>
+
+        <div>
+          <label className={labelClass}>Comment{commentRequired && ' (required)'}</label>
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            rows={2}
+            className={inputClass}
+            required={commentRequired}
+          />
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default StockAdjustmentModal;
@@ -0,0 +1,12 @@
+export { default as StockAdjustmentModal } from './StockAdjustmentModal';
+export { default as InventoryAlertSettingsModal } from './InventoryAlertSettingsModal';
+export { default as InventoryLedgerTable } from './InventoryLedgerTable';
+export { default as InventoryAlertsPanel } from './InventoryAlertsPanel';
+export {
+  STOCK_STATUS_LABELS,
+  STOCK_STATUS_COLORS,
+  ADJUSTMENT_TYPE_LABELS,
+  ALERT_TYPE_LABELS,
+  ALERT_TYPE_STYLES,
+  formatQuantityDelta
+} from './inventoryFormat';
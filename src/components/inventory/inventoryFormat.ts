@@ -0,0 +1,44 @@
+import type { BadgeProps } from '../ui';
+import type { InventoryAdjustmentType, InventoryAlertType, StockStatus } from '../../services/inventory';
+
+export const STOCK_STATUS_LABELS: Record<StockStatus, string> = {
+  in_stock: 'In Stock',
+  low_stock: 'Low Stock',
+  out_of_stock: 'Out of Stock',
+  on_order: 'On Order'
+};
+
+export const STOCK_STATUS_COLORS: Record<StockStatus, NonNullable<BadgeProps['color']>> = {
+  in_stock: 'green',
+  low_stock: 'yellow',
+  out_of_stock: 'red',
+  on_order: 'blue'
+};
+
+export const ADJUSTMENT_TYPE_LABELS: Record<InventoryAdjustmentType, string> = {
+  adjust: 'Adjustment',
+  receive: 'Received',
+  damage: 'Damaged',
+  shrink: 'Shrink',
+  count: 'Count',
+  return: 'Customer Return',
+  transfer_in: 'Transfer In',
+  transfer_out: 'Transfer Out'
+};
+
+export const ALERT_TYPE_LABELS: Record<InventoryAlertType, string> = {
+  negative: 'Negative',
+  out_of_stock: 'Out of Stock',
+  low_stock: 'Low Stock',
+  reorder: 'Reorder'
+};
+
+export const ALERT_TYPE_STYLES: Record<InventoryAlertType, string> = {
+  negative: 'border-red-300 bg-red-50 text-red-800',
+  out_of_stock: 'border-red-200 bg-red-50 text-red-700',
+  low_stock: 'border-yellow-200 bg-yellow-50 text-yellow-800',
+  reorder: 'border-blue-200 bg-blue-50 text-blue-800'
+};
+
+/** Signed quantity for ledger deltas: 5 → "+5", -2 → "-2" */
+export const formatQuantityDelta = (quantity: number): string => (quantity > 0 ? `+${quantity}` : String(quantity));
@@ -0,0 +1,324 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { TrashIcon } from '@heroicons/react/24/outline';
+import { Modal, Button, DropdownSearch } from '../ui';
+import { validatePriceBook } from '../../services/price-book';
+import type { CreatePriceBookRequest, PriceBook, PriceBookItem, PriceBookScope } from '../../services/price-book';
+import type { ApiProduct } from '../../services/types/product.types';
+import type { Terminal } from '../../services/types/store.types';
+
+interface PriceBookFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Book being edited; omit to create one */
+  priceBook?: PriceBook | null;
+  products: ApiProduct[];
+  terminals: Terminal[];
+  formatCurrency: (amount: number) => string;
+  onSave: (data: CreatePriceBookRequest, priceBookId?: string) => Promise<void>;
+}
+
+const inputClass = 'w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+const labelClass = 'block text-sm font-medium text-gray-700 mb-1';
+
+// datetime-local inputs work in local time without a zone
+const toLocalInput = (timestamp: string | null | undefined): string => {
+  if (!timestamp) return '';
+  const date = new Date(timestamp);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const fromLocalInput = (value: string): string | null => (value ? new Date(value).toISOString() : null);
+
+/** Midnight tonight, the usual time for a price change to land */
+const nextMidnight = (): string => {
+  const date = new Date();
+  date.setHours(24, 0, 0, 0);
+  return toLocalInput(date.toISOString());
+};
+
+const PriceBookFormModal: React.FC<PriceBookFormModalProps> = ({
+  isOpen,
+  onClose,
+  priceBook,
+  products,
+  terminals,
+  formatCurrency,
+  onSave
+}) => {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [scope, setScope] = useState<PriceBookScope>('store');
+  const [terminalIds, setTerminalIds] = useState<string[]>([]);
+  const [effectiveAt, setEffectiveAt] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [priority, setPriority] = useState(0);
+  const [active, setActive] = useState(true);
+  const [items, setItems] = useState<PriceBookItem[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(priceBook?.name || '');
+    setDescription(priceBook?.description || '');
+    setScope(priceBook?.scope || 'store');
+    setTerminalIds(priceBook?.terminal_ids || []);
+    setEffectiveAt(priceBook ? toLocalInput(priceBook.effective_at) : nextMidnight());
+    setExpiresAt(toLocalInput(priceBook?.expires_at));
+    setPriority(priceBook?.priority ?? 0);
+    setActive(priceBook?.active ?? true);
+    setItems(priceBook?.items || []);
+  }, [isOpen, priceBook]);
+
+  const productsById = useMemo(() => new Map(products.map(product => [product.item_id, product])), [products]);
+
+  const itemOptions = useMemo(
+    () => products
+      .filter(product => !items.some(item => item.item_id === product.item_id))
+      .map(product => ({
+        id: product.item_id,
+        label: product.name,
+        description: `${product.item_id} · ${formatCurrency(product.list_price)}`
+      })),
+    [products, items, formatCurrency]
+  );
+
+  const addItem = (itemId: string) => {
+    const product = productsById.get(itemId);
+    if (!product) return;
+    setItems(prev => [...prev, {
+      item_id: product.item_id,
+      item_name: product.name,
+      list_price: product.list_price,
+      sale_price: null
+    }]);
+  };
+
+  const updateItem = (itemId: string, changes: Partial<PriceBookItem>) => {
+    setItems(prev => prev.map(item => (item.item_id === itemId ? { ...item, ...changes } : item)));
+  };
+
+  const toggleTerminal = (terminalId: string) => {
+    setTerminalIds(prev => (prev.includes(terminalId) ? prev.filter(id => id !== terminalId) : [...prev, terminalId]));
+  };
+
+  const data: CreatePriceBookRequest = {
+    name: name.trim(),
+    description: description.trim() || undefined,
+    scope,
+    terminal_ids: scope === 'terminal' ? terminalIds : [],
+    effective_at: fromLocalInput(effectiveAt) || '',
+    expires_at: fromLocalInput(expiresAt),
+    priority,
+    active,
+    items
+  };
+  const validationError = effectiveAt ? validatePriceBook(data) : 'Choose when the prices take effect';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (validationError) return;
+
+    setSaving(true);
+    try {
+      await onSave(data, priceBook?.price_book_id);
+      onClose();
+    } catch (error) {
+      console.error('Failed to save price book:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={priceBook ? `Edit ${priceBook.name}` : 'New Price Book'}
+      size="lg"
+      footer={
+        <div className="flex w-full items-center justify-between">
+          <span className="text-sm text-gray-500">{name.trim() && items.length > 0 ? validationError : ''}</span>
+          <div className="flex space-x-3">
+            <Button type="button" variant="outline" onClick={onClose} disabled={saving}>
+              Cancel
+            </Button>
+            <Button type="submit" form="price-book-form" isLoading={saving} disabled={Boolean(validationError)}>
+              {priceBook ? 'Save Price Book' : 'Create Price Book'}
+            </Button>
+          </div>
+        </div>
+      }
+    >
+      <form id="price-book-form" onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className={labelClass}>Name</label>
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Summer promotion"
+              className={inputClass}
+              required
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Priority</label>
+            <input
+              type="number"
+              step={1}
+              value={priority}
+              onChange={(e) => setPriority(Math.trunc(Number(e.target.value) || 0))}
+              className={inputClass}
+            />
+            <p className="mt-1 text-xs text-gray-500">When books overlap, the higher priority wins</p>
+          </div>
+          <div>
+            <label className={labelClass}>Effective from</label>
+            <input
+              type="datetime-local"
+              value={effectiveAt}
+              onChange={(e) => setEffectiveAt(e.target.value)}
+              className={inputClass}
+              required
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Expires</label>
+            <input
+              type="datetime-local"
+              value={expiresAt}
+              onChange={(e) => setExpiresAt(e.target.value)}
+              className={inputClass}
+            />
+            <p className="mt-1 text-xs text-gray-500">Leave empty to keep the prices until changed</p>
+          </div>
+        </div>
+
+        <div>
+          <label className={labelClass}>Description</label>
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={2}
+            className={inputClass}
+          />
+        </div>
+
+        <div>
+          <label className={labelClass}>Applies to</label>
+          <div className="flex space-x-6 text-sm text-gray-700">
+            <label className="flex items-center space-x-2">
+              <input type="radio" checked={scope === 'store'} onChange={() => setScope('store')} />
+              <span>Whole store</span>
+            </label>
+            <label className="flex items-center space-x-2">
+              <input type="radio" checked={scope === 'terminal'} onChange={() => setScope('terminal')} disabled={terminals.length === 0} />
+              <span>Selected terminals</span>
+            </label>
+          </div>
+          {scope === 'terminal' && (
+            <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {terminals.map(terminal => (
+                <label key={terminal.terminal_id} className="flex items-center space-x-2 rounded border border-gray-200 px-3 py-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={terminalIds.includes(terminal.terminal_id)}
+                    onChange={() => toggleTerminal(terminal.terminal_id)}
+                  />
+                  <span className="text-gray-900">{terminal.name || terminal.terminal_id}</span>
+                  {terminal.status !== 'active' && <span className="text-xs text-gray-400">inactive</span>}
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DropdownSearch
+          label="Add item"
+          placeholder="Search products"
+          searchPlaceholder="Search products..."
+          options={itemOptions}
+          onSelect={(option) => option && addItem(option.id)}
+          noOptionsMessage="No more products"
+          closeOnSelect={true}
+        />
+
+        <div className="overflow-x-auto rounded-lg border border-gray-200">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-xs font-medium uppercase text-gray-500">
+                <th className="px-3 py-2">Item</th>
+                <th className="px-3 py-2 text-right">Current</th>
+                <th className="px-3 py-2 w-32">List price</th>
+                <th className="px-3 py-2 w-32">Sale price</th>
+                <th className="px-3 py-2 w-10"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {items.map(item => {
+                const product = productsById.get(item.item_id);
+                return (
+                  <tr key={item.item_id}>
+                    <td className="px-3 py-2">
+                      <div className="font-medium text-gray-900">{item.item_name}</div>
+                      <div className="text-xs text-gray-500">{item.item_id}</div>
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-500">
+                      {product ? formatCurrency(product.list_price) : '—'}
+                    </td>
+                    <td className="px-3 py-2">
+                      <input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        value={item.list_price}
+                        onChange={(e) => updateItem(item.item_id, { list_price: Math.max(0, Number(e.target.value) || 0) })}
+                        className={inputClass}
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        value={item.sale_price ?? ''}
+                        placeholder="None"
+                        onChange={(e) => updateItem(item.item_id, {
+                          sale_price: e.target.value === '' ? null : Math.max(0, Number(e.target.value) || 0)
+                        })}
+                        className={inputClass}
+                      />
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <button
+                        type="button"
+                        onClick={() => setItems(prev => prev.filter(candidate => candidate.item_id !== item.item_id))}
+                        className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-red-600"
+                        title="Remove item"
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+              {items.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-3 py-8 text-center text-gray-500">Add the items this book reprices</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input type="checkbox" checked={active} onChange={(e) => setActive(e.target.checked)} />
+          <span>Enabled — disabled books are kept but never applied</span>
+        </label>
+      </form>
+    </Modal>
+  );
+};
+
+export default PriceBookFormModal;
@@ -0,0 +1,7 @@
+export { default as PriceBookFormModal } from './PriceBookFormModal';
+export {
+  PRICE_BOOK_STATUS_LABELS,
+  PRICE_BOOK_STATUS_COLORS,
+  formatPriceBookDate,
+  formatPriceWindow
+} from './priceBookFormat';
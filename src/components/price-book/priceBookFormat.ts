@@ -0,0 +1,26 @@
+import type { BadgeProps } from '../ui';
+import type { PriceBookStatus } from '../../services/price-book';
+
+export const PRICE_BOOK_STATUS_LABELS: Record<PriceBookStatus, string> = {
+  scheduled: 'Scheduled',
+  live: 'Live',
+  expired: 'Expired',
+  disabled: 'Disabled'
+};
+
+export const PRICE_BOOK_STATUS_COLORS: Record<PriceBookStatus, NonNullable<BadgeProps['color']>> = {
+  scheduled: 'blue',
+  live: 'green',
+  expired: 'gray',
+  disabled: 'yellow'
+};
+
+export const formatPriceBookDate = (timestamp: string): string =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+/** "1 Jun 2026, 00:00 → 1 Sep 2026, 00:00", open-ended when there is no end */
+export const formatPriceWindow = (startsAt: string | null, endsAt: string | null | undefined): string => {
+  if (!startsAt && !endsAt) return 'Always';
+  if (!startsAt) return `Until ${formatPriceBookDate(endsAt!)}`;
+  return endsAt ? `${formatPriceBookDate(startsAt)} → ${formatPriceBookDate(endsAt)}` : `From ${formatPriceBookDate(startsAt)}`;
+};
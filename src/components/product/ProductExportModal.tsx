@@ -0,0 +1,212 @@
+import React, { useRef, useState } from 'react';
+import { ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import { Modal, Button, Alert } from '../ui';
+import { downloadFile } from '../../utils/csvUtils';
+import {
+  PRODUCT_EXPORT_COLUMNS,
+  PRODUCT_EXPORT_GROUP_LABELS,
+  DEFAULT_PRODUCT_EXPORT_COLUMNS,
+  exportProducts,
+  type ProductExportColumnGroup,
+  type ProductExportFormat,
+  type ProductExportProgress
+} from '../../services/product/productExport.service';
+import type { ApiProduct } from '../../services/types/product.types';
+
+interface ProductExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  tenantId: string;
+  storeId: string;
+  /** Current page filters; only matching products are exported */
+  filter?: (product: ApiProduct) => boolean;
+  hasActiveFilters?: boolean;
+}
+
+const COLUMN_GROUPS = Object.keys(PRODUCT_EXPORT_GROUP_LABELS) as ProductExportColumnGroup[];
+
+const ProductExportModal: React.FC<ProductExportModalProps> = ({
+  isOpen,
+  onClose,
+  tenantId,
+  storeId,
+  filter,
+  hasActiveFilters = false
+}) => {
+  const [format, setFormat] = useState<ProductExportFormat>('csv');
+  const [selectedColumns, setSelectedColumns] = useState<string[]>(DEFAULT_PRODUCT_EXPORT_COLUMNS);
+  const [progress, setProgress] = useState<ProductExportProgress | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const stopRequested = useRef(false);
+
+  const toggleColumn = (key: string) => {
+    setSelectedColumns(prev => prev.includes(key) ? prev.filter(column => column !== key) : [...prev, key]);
+  };
+
+  const toggleGroup = (group: ProductExportColumnGroup, selected: boolean) => {
+    const groupKeys = PRODUCT_EXPORT_COLUMNS.filter(column => column.group === group).map(column => column.key);
+    setSelectedColumns(prev => selected
+      ? Array.from(new Set([...prev, ...groupKeys]))
+      : prev.filter(key => !groupKeys.includes(key)));
+  };
+
+  const handleClose = () => {
+    if (isExporting) {
+      stopRequested.current = true;
+      return;
+    }
+    setProgress(null);
+    setError(null);
+    onClose();
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    setProgress({ pages: 0, scanned: 0, exported: 0 });
+    stopRequested.current = false;
+
+    try {
+      const result = await exportProducts(tenantId, storeId, {
+        format,
+        columns: selectedColumns,
+        filter,
+        onProgress: setProgress,
+        shouldStop: () => stopRequested.current
+      });
+
+      if (result.cancelled) {
+        setProgress(null);
+        return;
+      }
+
+      const date = new Date().toISOString().split('T')[0];
+      downloadFile(
+        result.parts,
+        `products-${storeId}-${date}.${format}`,
+        format === 'csv' ? 'text/csv;charset=utf-8' : 'application/json'
+      );
+    } catch (err) {
+      console.error('Product export failed:', err);
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const footer = (
+    <div className="flex justify-end gap-3">
+      <Button variant="outline" onClick={handleClose}>
+        {isExporting ? 'Cancel export' : 'Close'}
+      </Button>
+      <Button
+        onClick={handleExport}
+        disabled={isExporting || (format === 'csv' && selectedColumns.length === 0)}
+        className="flex items-center gap-2"
+      >
+        <ArrowDownTrayIcon className="h-4 w-4" />
+        {isExporting ? 'Exporting...' : `Export ${format.toUpperCase()}`}
+      </Button>
+    </div>
+  );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title="Export Products"
+      size="lg"
+      closeOnBackdropClick={!isExporting}
+      footer={footer}
+    >
+      <div className="space-y-5">
+        {error && (
+          <Alert variant="error" onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {hasActiveFilters && (
+          <Alert variant="info">
+            Only products matching the current search and filters will be exported.
+          </Alert>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">Format</label>
+          <div className="flex gap-3">
+            {(['csv', 'json'] as ProductExportFormat[]).map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setFormat(option)}
+                disabled={isExporting}
+                className={`flex-1 rounded-lg border px-4 py-3 text-left transition-colors ${
+                  format === option ? 'border-blue-500 bg-blue-50' : 'border-slate-200 hover:border-slate-300'
+                }`}
+              >
+                <div className="text-sm font-semibold text-slate-900">{option.toUpperCase()}</div>
+                <div className="text-xs text-slate-500">
+                  {option === 'csv'
+                    ? 'Flat spreadsheet with the columns selected below'
+                    : 'Complete product records that can be sent back to the API'}
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {format === 'csv' && (
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-slate-700">Columns</label>
+              <span className="text-xs text-slate-500">{selectedColumns.length} selected</span>
+            </div>
+            <div className="max-h-80 overflow-y-auto border border-slate-200 rounded-lg divide-y divide-slate-200">
+              {COLUMN_GROUPS.map(group => {
+                const columns = PRODUCT_EXPORT_COLUMNS.filter(column => column.group === group);
+                const allSelected = columns.every(column => selectedColumns.includes(column.key));
+                return (
+                  <div key={group} className="p-3">
+                    <label className="flex items-center gap-2 text-sm font-semibold text-slate-900 mb-2">
+                      <input
+                        type="checkbox"
+                        checked={allSelected}
+                        onChange={(e) => toggleGroup(group, e.target.checked)}
+                        className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      {PRODUCT_EXPORT_GROUP_LABELS[group]}
+                    </label>
+                    <div className="grid grid-cols-2 gap-1 pl-6">
+                      {columns.map(column => (
+                        <label key={column.key} className="flex items-center gap-2 text-sm text-slate-700">
+                          <input
+                            type="checkbox"
+                            checked={selectedColumns.includes(column.key)}
+                            onChange={() => toggleColumn(column.key)}
+                            className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                          />
+                          {column.label}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {progress && (
+          <div className="text-sm text-slate-600">
+            {isExporting ? 'Exporting' : 'Exported'} {progress.exported} products
+            ({progress.scanned} scanned across {progress.pages} pages)
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default ProductExportModal;
@@ -0,0 +1,435 @@
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  ArrowUpTrayIcon,
+  ArrowDownTrayIcon,
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+  XCircleIcon
+} from '@heroicons/react/24/outline';
+import { Modal, Button, Alert } from '../ui';
+import { parseCsvRecords, toCsv, downloadFile } from '../../utils/csvUtils';
+import { readXlsxRecords } from '../../utils/xlsxReader';
+import {
+  PRODUCT_IMPORT_FIELDS,
+  CUSTOM_ATTRIBUTE_PREFIX,
+  PROPERTY_PREFIX,
+  autoMapColumns,
+  buildImportRows,
+  buildCategoryLookup,
+  fetchExistingItemIds,
+  getImportTemplateHeaders,
+  runProductImport,
+  type ProductImportMapping,
+  type ProductImportResult,
+  type ProductImportRow
+} from '../../services/product/productImport.service';
+import type { EnhancedCategory } from '../../types/category';
+
+interface ProductImportWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onComplete: () => void;
+  tenantId: string;
+  storeId: string;
+  categories: EnhancedCategory[];
+}
+
+type WizardStep = 'upload' | 'mapping' | 'validation' | 'import';
+
+const BATCH_SIZE = 10;
+const MAX_ERROR_ROWS_SHOWN = 200;
+
+const ProductImportWizard: React.FC<ProductImportWizardProps> = ({
+  isOpen,
+  onClose,
+  onComplete,
+  tenantId,
+  storeId,
+  categories
+}) => {
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [records, setRecords] = useState<Record<string, string>[]>([]);
+  const [mapping, setMapping] = useState<ProductImportMapping>({});
+  const [rows, setRows] = useState<ProductImportRow[]>([]);
+  const [results, setResults] = useState<Record<number, ProductImportResult>>({});
+  const [isBusy, setIsBusy] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const stopRequested = useRef(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const validRows = useMemo(() => rows.filter(row => Object.keys(row.errors).length === 0), [rows]);
+  const invalidRows = useMemo(() => rows.filter(row => Object.keys(row.errors).length > 0), [rows]);
+  const resultList = Object.values(results);
+  const succeededCount = resultList.filter(result => result.status !== 'failed').length;
+  const failedResults = resultList.filter(result => result.status === 'failed');
+  const pendingRows = validRows.filter(row => !results[row.rowNumber] || results[row.rowNumber].status === 'failed');
+  const progress = validRows.length > 0 ? Math.round((resultList.length / validRows.length) * 100) : 0;
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setHeaders([]);
+    setRecords([]);
+    setMapping({});
+    setRows([]);
+    setResults({});
+    setError(null);
+    stopRequested.current = false;
+  };
+
+  const handleClose = () => {
+    if (isRunning) return;
+    if (succeededCount > 0) onComplete();
+    reset();
+    onClose();
+  };
+
+  const handleFileSelected = async (file: File) => {
+    setError(null);
+    setIsBusy(true);
+    try {
+      const isXlsx = file.name.toLowerCase().endsWith('.xlsx');
+      const parsed = isXlsx
+        ? await readXlsxRecords(await file.arrayBuffer())
+        : parseCsvRecords(await file.text());
+
+      if (parsed.headers.length === 0 || parsed.records.length === 0) {
+        setError('The file has no data rows. The first row must contain column headers.');
+        return;
+      }
+
+      setFileName(file.name);
+      setHeaders(parsed.headers);
+      setRecords(parsed.records);
+      setMapping(autoMapColumns(parsed.headers));
+      setStep('mapping');
+    } catch (err) {
+      console.error('Failed to read import file:', err);
+      setError(err instanceof Error ? err.message : 'Failed to read file');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDownloadTemplate = () => {
+    downloadFile(toCsv([...getImportTemplateHeaders(), `${CUSTOM_ATTRIBUTE_PREFIX}color`], []), 'product-import-template.csv');
+  };
+
+  const handleValidate = async () => {
+    const mappedTargets = Object.values(mapping);
+    // With a SKU column the file may only update existing products; new rows are still validated one by one
+    const missing = mappedTargets.includes('item_id')
+      ? []
+      : PRODUCT_IMPORT_FIELDS.filter(field => field.required && !mappedTargets.includes(field.key));
+    if (missing.length > 0) {
+      setError(`Map a column to: ${missing.map(field => field.label).join(', ')}`);
+      return;
+    }
+
+    setError(null);
+    setIsBusy(true);
+    try {
+      const existingItemIds = await fetchExistingItemIds(tenantId, storeId);
+      setRows(buildImportRows(records, mapping, {
+        storeId,
+        existingItemIds,
+        categoryLookup: buildCategoryLookup(categories)
+      }));
+      setResults({});
+      setStep('validation');
+    } catch (err) {
+      console.error('Failed to validate import:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load existing products');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRunImport = async () => {
+    setStep('import');
+    setIsRunning(true);
+    stopRequested.current = false;
+
+    try {
+      await runProductImport(tenantId, storeId, pendingRows, {
+        batchSize: BATCH_SIZE,
+        shouldStop: () => stopRequested.current,
+        onProgress: (batchResults) => {
+          setResults(prev => {
+            const next = { ...prev };
+            batchResults.forEach(result => { next[result.rowNumber] = result; });
+            return next;
+          });
+        }
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleDownloadErrorReport = () => {
+    const reportRows = [
+      ...invalidRows.map(row => [row.rowNumber, row.itemId, 'invalid', Object.values(row.errors).join('; ')]),
+      ...failedResults.map(result => [result.rowNumber, result.itemId, 'failed', result.error || ''])
+    ];
+    downloadFile(toCsv(['row', 'item_id', 'status', 'errors'], reportRows), `${fileName || 'products'}-errors.csv`);
+  };
+
+  const renderUploadStep = () => (
+    <div className="space-y-6">
+      <p className="text-sm text-slate-600">
+        Upload a CSV or XLSX file with one product per row. The first row must contain column headers.
+        Rows with an existing SKU update only the mapped columns of that product; other rows create new products.
+      </p>
+      <div
+        className="border-2 border-dashed border-slate-300 rounded-xl p-10 text-center hover:border-blue-400 transition-colors cursor-pointer"
+        onClick={() => fileInputRef.current?.click()}
+      >
+        <ArrowUpTrayIcon className="mx-auto h-10 w-10 text-slate-400" />
+        <p className="mt-3 text-sm font-medium text-slate-900">
+          {isBusy ? 'Reading file...' : 'Click to choose a file'}
+        </p>
+        <p className="mt-1 text-xs text-slate-500">.csv or .xlsx</p>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFileSelected(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      <Button variant="outline" onClick={handleDownloadTemplate} className="flex items-center gap-2">
+        <ArrowDownTrayIcon className="h-4 w-4" />
+        Download template
+      </Button>
+    </div>
+  );
+
+  const renderMappingStep = () => (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-600">
+        {fileName}: {records.length} rows. Choose the product field for each column.
+        Columns named <code>{CUSTOM_ATTRIBUTE_PREFIX}name</code> or <code>{PROPERTY_PREFIX}name</code> become custom attributes or properties.
+      </p>
+      <div className="border border-slate-200 rounded-lg divide-y divide-slate-200">
+        {headers.map(header => (
+          <div key={header} className="grid grid-cols-2 gap-4 items-center px-4 py-2">
+            <div>
+              <div className="text-sm font-medium text-slate-900">{header}</div>
+              <div className="text-xs text-slate-500 truncate">{records[0]?.[header]}</div>
+            </div>
+            <select
+              value={mapping[header] || ''}
+              onChange={(e) => setMapping(prev => ({ ...prev, [header]: e.target.value }))}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">Skip column</option>
+              {PRODUCT_IMPORT_FIELDS.map(field => (
+                <option key={field.key} value={field.key}>
+                  {field.label}{field.required ? ' *' : ''}
+                </option>
+              ))}
+              <option value={`${CUSTOM_ATTRIBUTE_PREFIX}${header}`}>Custom attribute "{header}"</option>
+              <option value={`${PROPERTY_PREFIX}${header}`}>Property "{header}"</option>
+            </select>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  const renderValidationStep = () => (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-4">
+        <div className="rounded-lg bg-green-50 p-4">
+          <div className="text-2xl font-bold text-green-700">{validRows.filter(row => row.action === 'create').length}</div>
+          <div className="text-sm text-green-700">New products</div>
+        </div>
+        <div className="rounded-lg bg-blue-50 p-4">
+          <div className="text-2xl font-bold text-blue-700">{validRows.filter(row => row.action === 'update').length}</div>
+          <div className="text-sm text-blue-700">Updates to existing products</div>
+        </div>
+        <div className="rounded-lg bg-red-50 p-4">
+          <div className="text-2xl font-bold text-red-700">{invalidRows.length}</div>
+          <div className="text-sm text-red-700">Rows with errors (skipped)</div>
+        </div>
+      </div>
+
+      {invalidRows.length > 0 ? (
+        <div className="border border-slate-200 rounded-lg overflow-hidden">
+          <table className="min-w-full text-sm">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-slate-500">Row</th>
+                <th className="px-4 py-2 text-left font-medium text-slate-500">SKU</th>
+                <th className="px-4 py-2 text-left font-medium text-slate-500">Errors</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {invalidRows.slice(0, MAX_ERROR_ROWS_SHOWN).map(row => (
+                <tr key={row.rowNumber}>
+                  <td className="px-4 py-2 text-slate-900">{row.rowNumber}</td>
+                  <td className="px-4 py-2 font-mono text-slate-700">{row.itemId}</td>
+                  <td className="px-4 py-2 text-red-700">
+                    {Object.entries(row.errors).map(([field, message]) => (
+                      <div key={field}>{message}</div>
+                    ))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {invalidRows.length > MAX_ERROR_ROWS_SHOWN && (
+            <div className="px-4 py-2 text-xs text-slate-500 bg-slate-50">
+              Showing the first {MAX_ERROR_ROWS_SHOWN} rows. Download the error report for the full list.
+            </div>
+          )}
+        </div>
+      ) : (
+        <Alert variant="success">All {rows.length} rows passed validation.</Alert>
+      )}
+    </div>
+  );
+
+  const renderImportStep = () => (
+    <div className="space-y-4">
+      <div>
+        <div className="flex justify-between text-sm text-slate-600 mb-1">
+          <span>{isRunning ? 'Importing...' : 'Import finished'}</span>
+          <span>{resultList.length} / {validRows.length}</span>
+        </div>
+        <div className="h-2 bg-slate-200 rounded-full overflow-hidden">
+          <div className="h-full bg-blue-600 transition-all" style={{ width: `${progress}%` }} />
+        </div>
+      </div>
+
+      <div className="flex gap-6 text-sm">
+        <span className="flex items-center text-green-700">
+          <CheckCircleIcon className="h-4 w-4 mr-1" /> {succeededCount} saved
+        </span>
+        <span className="flex items-center text-red-700">
+          <XCircleIcon className="h-4 w-4 mr-1" /> {failedResults.length} failed
+        </span>
+        {!isRunning && pendingRows.length > failedResults.length && (
+          <span className="flex items-center text-amber-700">
+            <ExclamationTriangleIcon className="h-4 w-4 mr-1" /> {pendingRows.length - failedResults.length} not started
+          </span>
+        )}
+      </div>
+
+      {failedResults.length > 0 && (
+        <div className="border border-slate-200 rounded-lg max-h-64 overflow-y-auto">
+          <table className="min-w-full text-sm">
+            <tbody className="divide-y divide-slate-200">
+              {failedResults.map(result => (
+                <tr key={result.rowNumber}>
+                  <td className="px-4 py-2 text-slate-900">Row {result.rowNumber}</td>
+                  <td className="px-4 py-2 font-mono text-slate-700">{result.itemId}</td>
+                  <td className="px-4 py-2 text-red-700">{result.error}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+
+  const renderFooter = () => {
+    switch (step) {
+      case 'upload':
+        return (
+          <div className="flex justify-end">
+            <Button variant="outline" onClick={handleClose}>Cancel</Button>
+          </div>
+        );
+      case 'mapping':
+        return (
+          <div className="flex justify-between">
+            <Button variant="outline" onClick={reset} disabled={isBusy}>Back</Button>
+            <Button onClick={handleValidate} disabled={isBusy}>
+              {isBusy ? 'Validating...' : 'Validate (dry run)'}
+            </Button>
+          </div>
+        );
+      case 'validation':
+        return (
+          <div className="flex justify-between">
+            <Button variant="outline" onClick={() => setStep('mapping')}>Back</Button>
+            <div className="flex gap-3">
+              {invalidRows.length > 0 && (
+                <Button variant="outline" onClick={handleDownloadErrorReport}>Download error report</Button>
+              )}
+              <Button onClick={handleRunImport} disabled={validRows.length === 0}>
+                Import {validRows.length} products
+              </Button>
+            </div>
+          </div>
+        );
+      case 'import':
+        return (
+          <div className="flex justify-between">
+            <div>
+              {(invalidRows.length > 0 || failedResults.length > 0) && !isRunning && (
+                <Button variant="outline" onClick={handleDownloadErrorReport}>Download error report</Button>
+              )}
+            </div>
+            <div className="flex gap-3">
+              {isRunning ? (
+                <Button variant="outline" onClick={() => { stopRequested.current = true; }}>
+                  Pause
+                </Button>
+              ) : (
+                <>
+                  {pendingRows.length > 0 && (
+                    <Button variant="outline" onClick={handleRunImport}>
+                      {failedResults.length === pendingRows.length ? 'Retry failed rows' : 'Resume import'}
+                    </Button>
+                  )}
+                  <Button onClick={handleClose}>Done</Button>
+                </>
+              )}
+            </div>
+          </div>
+        );
+    }
+  };
+
+  const stepTitles: Record<WizardStep, string> = {
+    upload: 'Import Products: Upload File',
+    mapping: 'Import Products: Map Columns',
+    validation: 'Import Products: Validation Report',
+    import: 'Import Products: Progress'
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title={stepTitles[step]}
+      size="lg"
+      closeOnBackdropClick={false}
+      showCloseButton={!isRunning}
+      footer={renderFooter()}
+    >
+      {error && (
+        <Alert variant="error" onClose={() => setError(null)} className="mb-4">
+          {error}
+        </Alert>
+      )}
+      {step === 'upload' && renderUploadStep()}
+      {step === 'mapping' && renderMappingStep()}
+      {step === 'validation' && renderValidationStep()}
+      {step === 'import' && renderImportStep()}
+    </Modal>
+  );
+};
+
+export default ProductImportWizard;
@@ -0,0 +1,113 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { CalendarDaysIcon } from '@heroicons/react/24/outline';
+import { Widget, Badge } from '../ui';
+import { priceBookService, buildItemPriceTimeline } from '../../services/price-book';
+import type { ItemPricePeriod, PriceBook } from '../../services/price-book';
+import { formatPriceWindow } from '../price-book';
+import { useCurrencyFormatter } from '../../utils/currencyUtils';
+
+interface ProductPriceTimelineProps {
+  storeId: string;
+  itemId: string;
+  listPrice: number;
+  salePrice?: number | null;
+}
+
+const TIMING_COLORS: Record<ItemPricePeriod['timing'], 'gray' | 'green' | 'blue'> = {
+  past: 'gray',
+  current: 'green',
+  upcoming: 'blue'
+};
+
+const TIMING_LABELS: Record<ItemPricePeriod['timing'], string> = {
+  past: 'Past',
+  current: 'Now',
+  upcoming: 'Upcoming'
+};
+
+/**
+ * Past, current and upcoming prices for one item from the store's price
+ * books. Terminal-specific books are listed in their own windows.
+ */
+export const ProductPriceTimeline: React.FC<ProductPriceTimelineProps> = ({ storeId, itemId, listPrice, salePrice }) => {
+  const formatCurrency = useCurrencyFormatter();
+  const [priceBooks, setPriceBooks] = useState<PriceBook[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    priceBookService.getAllPriceBooks(storeId, { item_id: itemId })
+      .then(books => {
+        if (!cancelled) setPriceBooks(books);
+      })
+      .catch(err => {
+        console.error('Failed to load price books:', err);
+        if (!cancelled) setError('Could not load scheduled prices');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [storeId, itemId]);
+
+  const periods = useMemo(
+    () => buildItemPriceTimeline(priceBooks, itemId, { list_price: listPrice, sale_price: salePrice }),
+    [priceBooks, itemId, listPrice, salePrice]
+  );
+
+  return (
+    <Widget
+      title="Price Timeline"
+      description="Scheduled prices from price books"
+      icon={CalendarDaysIcon}
+      variant="default"
+      headerActions={
+        <Link to="/price-books" className="text-sm font-medium text-blue-600 hover:text-blue-700">
+          Manage price books
+        </Link>
+      }
+    >
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading scheduled prices...</p>
+      ) : error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : priceBooks.length === 0 ? (
+        <p className="text-sm text-gray-500">No price books change this item. It sells at its list price everywhere.</p>
+      ) : (
+        <ol className="relative space-y-3 border-l border-gray-200 pl-5">
+          {periods.map((period, index) => (
+            <li key={`${period.price_book_id ?? 'base'}-${index}`} className={period.timing === 'past' ? 'opacity-60' : ''}>
+              <span className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border-2 border-white ${
+                period.timing === 'current' ? 'bg-green-500' : period.timing === 'upcoming' ? 'bg-blue-500' : 'bg-gray-300'
+              }`} />
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-gray-900">{period.name}</span>
+                  <Badge color={TIMING_COLORS[period.timing]} size="sm">{TIMING_LABELS[period.timing]}</Badge>
+                  {period.scope === 'terminal' && (
+                    <span className="text-xs text-gray-500">
+                      {period.terminal_ids.length} terminal{period.terminal_ids.length === 1 ? '' : 's'} only
+                    </span>
+                  )}
+                </div>
+                <div className="text-sm">
+                  <span className="font-semibold text-gray-900">{formatCurrency(period.list_price)}</span>
+                  {period.sale_price != null && (
+                    <span className="ml-2 text-green-700">sale {formatCurrency(period.sale_price)}</span>
+                  )}
+                </div>
+              </div>
+              <p className="text-xs text-gray-500">{formatPriceWindow(period.starts_at, period.ends_at)}</p>
+            </li>
+          ))}
+        </ol>
+      )}
+    </Widget>
+  );
+};
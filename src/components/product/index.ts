@@ -1,7 +1,10 @@
 export { default as ProductModifierManager } from './ProductModifierManager';
 export { ProductBasicInfoTab } from './ProductBasicInfoTab';
 export { ProductPricingTab } from './ProductPricingTab';
+export { ProductPriceTimeline } from './ProductPriceTimeline';
 export { ProductSettingsTab } from './ProductSettingsTab';
 export { ProductAttributesTab } from './ProductAttributesTab';
 export { ProductMediaTab } from './ProductMediaTab';
 export { ProductModifiersTab } from './ProductModifiersTab';
+export { default as ProductImportWizard } from './ProductImportWizard';
+export { default as ProductExportModal } from './ProductExportModal';
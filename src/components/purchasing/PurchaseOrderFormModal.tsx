@@ -0,0 +1,244 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { TrashIcon } from '@heroicons/react/24/outline';
+import { Modal, Button, DropdownSearch } from '../ui';
+import { getOrderTotal } from '../../services/purchasing';
+import type {
+  CreatePurchaseOrderRequest,
+  PurchaseOrder,
+  PurchaseOrderLineInput,
+  Supplier
+} from '../../services/purchasing';
+import type { InventoryItem } from '../../services/inventory';
+
+interface PurchaseOrderFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Draft being edited; omit to create one */
+  order?: PurchaseOrder | null;
+  suppliers: Supplier[];
+  items: InventoryItem[];
+  formatCurrency: (amount: number) => string;
+  onSave: (data: CreatePurchaseOrderRequest, poId?: string) => Promise<void>;
+}
+
+const inputClass = 'w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+const labelClass = 'block text-sm font-medium text-gray-700 mb-1';
+
+const PurchaseOrderFormModal: React.FC<PurchaseOrderFormModalProps> = ({
+  isOpen,
+  onClose,
+  order,
+  suppliers,
+  items,
+  formatCurrency,
+  onSave
+}) => {
+  const [supplierId, setSupplierId] = useState('');
+  const [expectedDate, setExpectedDate] = useState('');
+  const [notes, setNotes] = useState('');
+  const [lines, setLines] = useState<PurchaseOrderLineInput[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSupplierId(order?.supplier_id || '');
+    setExpectedDate(order?.expected_date || '');
+    setNotes(order?.notes || '');
+    setLines(order?.lines.map(({ item_id, item_name, quantity_ordered, unit_cost }) => ({
+      item_id,
+      item_name,
+      quantity_ordered,
+      unit_cost
+    })) || []);
+  }, [isOpen, order]);
+
+  // Inactive suppliers stay selectable on orders that already use them
+  const supplierOptions = suppliers.filter(supplier => supplier.active || supplier.supplier_id === order?.supplier_id);
+
+  const itemOptions = useMemo(
+    () => items.map(item => ({
+      id: item.item_id,
+      label: item.name,
+      description: `${item.item_id} · ${item.on_hand} on hand`
+    })),
+    [items]
+  );
+
+  const addItem = (itemId: string) => {
+    const item = items.find(candidate => candidate.item_id === itemId);
+    if (!item) return;
+
+    setLines(prev => (prev.some(line => line.item_id === itemId)
+      ? prev.map(line => (line.item_id === itemId ? { ...line, quantity_ordered: line.quantity_ordered + 1 } : line))
+      : [...prev, {
+        item_id: item.item_id,
+        item_name: item.name,
+        quantity_ordered: item.reorder_quantity || 1,
+        unit_cost: item.unit_cost ?? 0
+      }]));
+  };
+
+  const updateLine = (itemId: string, changes: Partial<PurchaseOrderLineInput>) => {
+    setLines(prev => prev.map(line => (line.item_id === itemId ? { ...line, ...changes } : line)));
+  };
+
+  const isValid = Boolean(
+    supplierId
+    && lines.length > 0
+    && lines.every(line => line.quantity_ordered > 0 && line.unit_cost >= 0)
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+
+    setSaving(true);
+    try {
+      await onSave({
+        supplier_id: supplierId,
+        lines,
+        expected_date: expectedDate || undefined,
+        notes: notes.trim() || undefined
+      }, order?.po_id);
+      onClose();
+    } catch (error) {
+      console.error('Failed to save purchase order:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={order ? `Edit ${order.po_number}` : 'New Purchase Order'}
+      size="lg"
+      footer={
+        <div className="flex w-full items-center justify-between">
+          <span className="text-sm text-gray-600">
+            Total <span className="ml-1 font-semibold text-gray-900">{formatCurrency(getOrderTotal(lines))}</span>
+          </span>
+          <div className="flex space-x-3">
+            <Button type="button" variant="outline" onClick={onClose} disabled={saving}>
+              Cancel
+            </Button>
+            <Button type="submit" form="purchase-order-form" isLoading={saving} disabled={!isValid}>
+              {order ? 'Save Draft' : 'Create Draft'}
+            </Button>
+          </div>
+        </div>
+      }
+    >
+      <form id="purchase-order-form" onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className={labelClass}>Supplier</label>
+            <select
+              value={supplierId}
+              onChange={(e) => setSupplierId(e.target.value)}
+              className={inputClass}
+              required
+            >
+              <option value="">Select a supplier...</option>
+              {supplierOptions.map(supplier => (
+                <option key={supplier.supplier_id} value={supplier.supplier_id}>{supplier.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Expected delivery</label>
+            <input
+              type="date"
+              value={expectedDate}
+              onChange={(e) => setExpectedDate(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <DropdownSearch
+          label="Add item"
+          placeholder="Search tracked items"
+          searchPlaceholder="Search items..."
+          options={itemOptions}
+          onSelect={(option) => option && addItem(option.id)}
+          noOptionsMessage="No tracked items"
+          closeOnSelect={true}
+        />
+
+        <div className="overflow-x-auto rounded-lg border border-gray-200">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-xs font-medium uppercase text-gray-500">
+                <th className="px-3 py-2">Item</th>
+                <th className="px-3 py-2 w-28">Quantity</th>
+                <th className="px-3 py-2 w-32">Unit cost</th>
+                <th className="px-3 py-2 text-right">Line total</th>
+                <th className="px-3 py-2 w-10"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {lines.map(line => (
+                <tr key={line.item_id}>
+                  <td className="px-3 py-2">
+                    <div className="font-medium text-gray-900">{line.item_name}</div>
+                    <div className="text-xs text-gray-500">{line.item_id}</div>
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="number"
+                      min={1}
+                      step="any"
+                      value={line.quantity_ordered}
+                      onChange={(e) => updateLine(line.item_id, { quantity_ordered: Math.max(0, Number(e.target.value) || 0) })}
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={line.unit_cost}
+                      onChange={(e) => updateLine(line.item_id, { unit_cost: Math.max(0, Number(e.target.value) || 0) })}
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="px-3 py-2 text-right text-gray-900">{formatCurrency(line.quantity_ordered * line.unit_cost)}</td>
+                  <td className="px-3 py-2 text-right">
+                    <button
+                      type="button"
+                      onClick={() => setLines(prev => prev.filter(candidate => candidate.item_id !== line.item_id))}
+                      className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-red-600"
+                      title="Remove line"
+                    >
+                      <TrashIcon className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              {lines.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-3 py-8 text-center text-gray-500">Add the items to order</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div>
+          <label className={labelClass}>Notes</label>
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={2}
+            className={inputClass}
+          />
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default PurchaseOrderFormModal;
@@ -0,0 +1,195 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, Button } from '../ui';
+import { getLineOutstanding, validateReceipt } from '../../services/purchasing';
+import type { PurchaseOrder, ReceivePurchaseOrderRequest } from '../../services/purchasing';
+
+interface ReceivePurchaseOrderModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  order: PurchaseOrder | null;
+  formatCurrency: (amount: number) => string;
+  onReceive: (order: PurchaseOrder, data: ReceivePurchaseOrderRequest) => Promise<void>;
+}
+
+interface ReceiptRow {
+  quantity: string;
+  unit_cost: string;
+}
+
+// Default each line to everything still outstanding at the ordered cost
+const outstandingRows = (order: PurchaseOrder): Record<string, ReceiptRow> => Object.fromEntries(order.lines.map(line => [
+  line.line_id,
+  { quantity: String(getLineOutstanding(line)), unit_cost: String(line.unit_cost) }
+]));
+
+const inputClass = 'w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+const ReceivePurchaseOrderModal: React.FC<ReceivePurchaseOrderModalProps> = ({
+  isOpen,
+  onClose,
+  order,
+  formatCurrency,
+  onReceive
+}) => {
+  const [rows, setRows] = useState<Record<string, ReceiptRow>>({});
+  const [comment, setComment] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !order) return;
+    setRows(outstandingRows(order));
+    setComment('');
+  }, [isOpen, order]);
+
+  if (!order) return null;
+
+  const openLines = order.lines.filter(line => getLineOutstanding(line) > 0);
+
+  const updateRow = (lineId: string, changes: Partial<ReceiptRow>) => {
+    setRows(prev => ({ ...prev, [lineId]: { ...prev[lineId], ...changes } }));
+  };
+
+  const request: ReceivePurchaseOrderRequest = {
+    lines: openLines
+      .map(line => {
+        const row = rows[line.line_id];
+        const cost = row?.unit_cost === '' || row?.unit_cost === undefined ? line.unit_cost : Number(row.unit_cost);
+        return {
+          line_id: line.line_id,
+          quantity: row?.quantity ? Number(row.quantity) : 0,
+          unit_cost: cost !== line.unit_cost ? cost : undefined
+        };
+      })
+      .filter(line => line.quantity !== 0),
+    comment: comment.trim() || undefined
+  };
+
+  const validationError = validateReceipt(order, request.lines);
+  const receivedValue = request.lines.reduce((total, input) => {
+    const line = order.lines.find(candidate => candidate.line_id === input.line_id);
+    return total + input.quantity * (input.unit_cost ?? line?.unit_cost ?? 0);
+  }, 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (validationError) return;
+
+    setSaving(true);
+    try {
+      await onReceive(order, request);
+      onClose();
+    } catch (error) {
+      console.error('Failed to receive purchase order:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Receive ${order.po_number}`}
+      size="lg"
+      footer={
+        <div className="flex w-full items-center justify-between">
+          <span className="text-sm text-gray-600">
+            Receiving <span className="ml-1 font-semibold text-gray-900">{formatCurrency(receivedValue)}</span>
+          </span>
+          <div className="flex space-x-3">
+            <Button type="button" variant="outline" onClick={onClose} disabled={saving}>
+              Cancel
+            </Button>
+            <Button type="submit" form="receive-po-form" isLoading={saving} disabled={Boolean(validationError)}>
+              Receive Stock
+            </Button>
+          </div>
+        </div>
+      }
+    >
+      <form id="receive-po-form" onSubmit={handleSubmit} className="space-y-4">
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600">
+            Enter what arrived in this delivery. Anything left outstanding keeps the order open.
+          </p>
+          <div className="flex space-x-2">
+            <Button type="button" size="sm" variant="outline" onClick={() => setRows(outstandingRows(order))}>
+              All Outstanding
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => setRows(prev => Object.fromEntries(Object.entries(prev).map(([id, row]) => [id, { ...row, quantity: '0' }])))}
+            >
+              Clear
+            </Button>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto rounded-lg border border-gray-200">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-xs font-medium uppercase text-gray-500">
+                <th className="px-3 py-2">Item</th>
+                <th className="px-3 py-2 text-right">Ordered</th>
+                <th className="px-3 py-2 text-right">Received</th>
+                <th className="px-3 py-2 text-right">Outstanding</th>
+                <th className="px-3 py-2 w-28">Receive</th>
+                <th className="px-3 py-2 w-32">Unit cost</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {openLines.map(line => (
+                <tr key={line.line_id}>
+                  <td className="px-3 py-2">
+                    <div className="font-medium text-gray-900">{line.item_name}</div>
+                    <div className="text-xs text-gray-500">{line.item_id}</div>
+                  </td>
+                  <td className="px-3 py-2 text-right text-gray-700">{line.quantity_ordered}</td>
+                  <td className="px-3 py-2 text-right text-gray-700">{line.quantity_received}</td>
+                  <td className="px-3 py-2 text-right font-medium text-gray-900">{getLineOutstanding(line)}</td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="number"
+                      min={0}
+                      max={getLineOutstanding(line)}
+                      step="any"
+                      value={rows[line.line_id]?.quantity ?? ''}
+                      onChange={(e) => updateRow(line.line_id, { quantity: e.target.value })}
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={rows[line.line_id]?.unit_cost ?? ''}
+                      onChange={(e) => updateRow(line.line_id, { unit_cost: e.target.value })}
+                      className={inputClass}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {validationError && <p className="text-sm text-red-600">{validationError}</p>}
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Comment</label>
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            rows={2}
+            placeholder="Delivery note or invoice number"
+            className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default ReceivePurchaseOrderModal;
@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { CheckCircleIcon, DocumentPlusIcon } from '@heroicons/react/24/outline';
+import { Button } from '../ui';
+import type { ReorderSuggestion, Supplier } from '../../services/purchasing';
+
+interface ReorderSuggestionsPanelProps {
+  suggestions: ReorderSuggestion[];
+  suppliers: Supplier[];
+  formatCurrency: (amount: number) => string;
+  /** Called with the selected suggestions, edited quantities and suppliers applied */
+  onCreateDrafts: (suggestions: ReorderSuggestion[]) => Promise<void>;
+  disabled?: boolean;
+}
+
+interface SuggestionEdit {
+  selected: boolean;
+  quantity?: number;
+  supplier_id?: string | null;
+}
+
+const inputClass = 'rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+const ReorderSuggestionsPanel: React.FC<ReorderSuggestionsPanelProps> = ({
+  suggestions,
+  suppliers,
+  formatCurrency,
+  onCreateDrafts,
+  disabled = false
+}) => {
+  const [edits, setEdits] = useState<Record<string, SuggestionEdit>>({});
+  const [creating, setCreating] = useState(false);
+
+  const activeSuppliers = suppliers.filter(supplier => supplier.active);
+
+  const resolved = suggestions.map(suggestion => {
+    const edit = edits[suggestion.item_id];
+    return {
+      suggestion: {
+        ...suggestion,
+        suggested_quantity: edit?.quantity ?? suggestion.suggested_quantity,
+        supplier_id: edit?.supplier_id !== undefined ? edit.supplier_id : suggestion.supplier_id
+      },
+      selected: edit?.selected ?? true
+    };
+  });
+
+  const chosen = resolved.filter(row => row.selected && row.suggestion.suggested_quantity > 0);
+  const missingSupplier = chosen.filter(row => !row.suggestion.supplier_id).length;
+  const supplierCount = new Set(chosen.map(row => row.suggestion.supplier_id).filter(Boolean)).size;
+
+  const updateEdit = (itemId: string, changes: Partial<SuggestionEdit>) => {
+    setEdits(prev => ({ ...prev, [itemId]: { ...(prev[itemId] || { selected: true }), ...changes } }));
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      await onCreateDrafts(chosen.map(row => row.suggestion));
+      setEdits({});
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  if (suggestions.length === 0) {
+    return (
+      <div className="flex items-center justify-center rounded-lg border border-dashed border-gray-300 bg-white p-10 text-sm text-gray-500">
+        <CheckCircleIcon className="mr-2 h-5 w-5 text-green-500" />
+        Nothing is at its reorder point once open orders are counted
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-gray-600">
+          Items at or below their reorder point. Quantities already on open orders, drafts included, are counted as available.
+        </p>
+        <Button
+          onClick={handleCreate}
+          isLoading={creating}
+          disabled={disabled || supplierCount === 0}
+          className="flex items-center space-x-2"
+        >
+          <DocumentPlusIcon className="h-5 w-5" />
+          <span>Create {supplierCount} Draft{supplierCount === 1 ? '' : 's'}</span>
+        </Button>
+      </div>
+      {missingSupplier > 0 && (
+        <p className="text-sm text-yellow-700">
+          {missingSupplier} selected item(s) have no supplier and will be skipped.
+        </p>
+      )}
+
+      <div className="overflow-x-auto rounded-lg border border-gray-200 bg-white">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr className="text-left text-xs font-medium uppercase text-gray-500">
+              <th className="px-3 py-2 w-10"></th>
+              <th className="px-3 py-2">Item</th>
+              <th className="px-3 py-2 text-right">On Hand</th>
+              <th className="px-3 py-2 text-right">On Order</th>
+              <th className="px-3 py-2 text-right">Reorder Point</th>
+              <th className="px-3 py-2 w-28">Order</th>
+              <th className="px-3 py-2">Supplier</th>
+              <th className="px-3 py-2 text-right">Est. Cost</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {resolved.map(({ suggestion, selected }) => (
+              <tr key={suggestion.item_id} className={selected ? '' : 'opacity-50'}>
+                <td className="px-3 py-2">
+                  <input
+                    type="checkbox"
+                    checked={selected}
+                    onChange={(e) => updateEdit(suggestion.item_id, { selected: e.target.checked })}
+                    className="h-4 w-4 rounded border-gray-300 text-blue-600"
+                  />
+                </td>
+                <td className="px-3 py-2">
+                  <div className="font-medium text-gray-900">{suggestion.item_name}</div>
+                  <div className="text-xs text-gray-500">{suggestion.item_id}</div>
+                </td>
+                <td className="px-3 py-2 text-right text-gray-700">{suggestion.on_hand}</td>
+                <td className="px-3 py-2 text-right text-gray-700">{suggestion.on_order || '—'}</td>
+                <td className="px-3 py-2 text-right text-gray-700">{suggestion.reorder_point}</td>
+                <td className="px-3 py-2">
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={suggestion.suggested_quantity}
+                    onChange={(e) => updateEdit(suggestion.item_id, { quantity: Math.max(0, Number(e.target.value) || 0) })}
+                    className={`${inputClass} w-full`}
+                  />
+                </td>
+                <td className="px-3 py-2">
+                  <select
+                    value={suggestion.supplier_id || ''}
+                    onChange={(e) => updateEdit(suggestion.item_id, { supplier_id: e.target.value || null })}
+                    className={inputClass}
+                  >
+                    <option value="">No supplier</option>
+                    {activeSuppliers.map(supplier => (
+                      <option key={supplier.supplier_id} value={supplier.supplier_id}>{supplier.name}</option>
+                    ))}
+                  </select>
+                </td>
+                <td className="px-3 py-2 text-right text-gray-900">
+                  {formatCurrency(suggestion.suggested_quantity * suggestion.unit_cost)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ReorderSuggestionsPanel;
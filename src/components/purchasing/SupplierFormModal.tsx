@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, Button, InputTextField, InputTextArea, CompactToggle } from '../ui';
+import type { CreateSupplierRequest, Supplier } from '../../services/purchasing';
+
+interface SupplierFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Supplier being edited; omit to create one */
+  supplier?: Supplier | null;
+  onSave: (data: CreateSupplierRequest, supplierId?: string) => Promise<void>;
+}
+
+const EMPTY_FORM: CreateSupplierRequest = {
+  name: '',
+  contact_name: '',
+  email: '',
+  phone: '',
+  address: '',
+  account_number: '',
+  payment_terms: '',
+  lead_time_days: null,
+  notes: '',
+  active: true
+};
+
+const toForm = (supplier?: Supplier | null): CreateSupplierRequest => (supplier ? {
+  name: supplier.name,
+  contact_name: supplier.contact_name || '',
+  email: supplier.email || '',
+  phone: supplier.phone || '',
+  address: supplier.address || '',
+  account_number: supplier.account_number || '',
+  payment_terms: supplier.payment_terms || '',
+  lead_time_days: supplier.lead_time_days ?? null,
+  notes: supplier.notes || '',
+  active: supplier.active
+} : EMPTY_FORM);
+
+const SupplierFormModal: React.FC<SupplierFormModalProps> = ({ isOpen, onClose, supplier, onSave }) => {
+  const [form, setForm] = useState<CreateSupplierRequest>(EMPTY_FORM);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setForm(toForm(supplier));
+    setErrors({});
+  }, [isOpen, supplier]);
+
+  const update = (changes: Partial<CreateSupplierRequest>) => setForm(prev => ({ ...prev, ...changes }));
+
+  const validate = (): boolean => {
+    const nextErrors: Record<string, string> = {};
+    if (!form.name.trim()) nextErrors.name = 'Supplier name is required';
+    if (form.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(form.email)) nextErrors.email = 'Enter a valid email address';
+    setErrors(nextErrors);
+    return Object.keys(nextErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validate()) return;
+
+    setSaving(true);
+    try {
+      await onSave({ ...form, name: form.name.trim() }, supplier?.supplier_id);
+      onClose();
+    } catch (error) {
+      console.error('Failed to save supplier:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={supplier ? 'Edit Supplier' : 'Add Supplier'}
+      size="md"
+      footer={
+        <div className="flex justify-end space-x-3">
+          <Button type="button" variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button type="submit" form="supplier-form" isLoading={saving}>
+            {supplier ? 'Save Changes' : 'Add Supplier'}
+          </Button>
+        </div>
+      }
+    >
+      <form id="supplier-form" onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <InputTextField
+            label="Name"
+            value={form.name}
+            onChange={(value) => update({ name: value })}
+            error={errors.name}
+            required
+          />
+          <InputTextField
+            label="Contact"
+            value={form.contact_name || ''}
+            onChange={(value) => update({ contact_name: value })}
+          />
+          <InputTextField
+            label="Email"
+            type="email"
+            value={form.email || ''}
+            onChange={(value) => update({ email: value })}
+            error={errors.email}
+          />
+          <InputTextField
+            label="Phone"
+            type="tel"
+            value={form.phone || ''}
+            onChange={(value) => update({ phone: value })}
+          />
+          <InputTextField
+            label="Account number"
+            value={form.account_number || ''}
+            onChange={(value) => update({ account_number: value })}
+          />
+          <InputTextField
+            label="Payment terms"
+            value={form.payment_terms || ''}
+            onChange={(value) => update({ payment_terms: value })}
+            placeholder="e.g. Net 30"
+          />
+          <InputTextField
+            label="Lead time (days)"
+            type="number"
+            value={form.lead_time_days != null ? String(form.lead_time_days) : ''}
+            onChange={(value) => update({ lead_time_days: value === '' ? null : Math.max(0, Number(value) || 0) })}
+          />
+          <CompactToggle
+            label="Status"
+            inlineLabel={form.active ? 'Active' : 'Inactive'}
+            checked={form.active}
+            onChange={(checked) => update({ active: checked })}
+          />
+        </div>
+        <InputTextArea
+          label="Address"
+          value={form.address || ''}
+          onChange={(value) => update({ address: value })}
+          rows={2}
+        />
+        <InputTextArea
+          label="Notes"
+          value={form.notes || ''}
+          onChange={(value) => update({ notes: value })}
+          rows={2}
+        />
+      </form>
+    </Modal>
+  );
+};
+
+export default SupplierFormModal;
@@ -0,0 +1,5 @@
+export { default as SupplierFormModal } from './SupplierFormModal';
+export { default as PurchaseOrderFormModal } from './PurchaseOrderFormModal';
+export { default as ReceivePurchaseOrderModal } from './ReceivePurchaseOrderModal';
+export { default as ReorderSuggestionsPanel } from './ReorderSuggestionsPanel';
+export { PO_STATUS_LABELS, PO_STATUS_COLORS } from './purchasingFormat';
@@ -0,0 +1,18 @@
+import type { BadgeProps } from '../ui';
+import type { PurchaseOrderStatus } from '../../services/purchasing';
+
+export const PO_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  partially_received: 'Partially Received',
+  received: 'Received',
+  cancelled: 'Cancelled'
+};
+
+export const PO_STATUS_COLORS: Record<PurchaseOrderStatus, NonNullable<BadgeProps['color']>> = {
+  draft: 'gray',
+  sent: 'blue',
+  partially_received: 'orange',
+  received: 'green',
+  cancelled: 'red'
+};
@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowDownTrayIcon, PrinterIcon } from '@heroicons/react/24/outline';
+import type { ReceiptElement } from '../../types/receipt';
+import type { CharacterEncoding, PaperSize, PrinterConfig } from '../../types/hardware.types';
+import { THERMAL_PAPER_SIZES, CHARACTER_ENCODINGS } from '../../constants/hardware.options';
+import { renderEscPos, toHexDump, describeEscPos } from '../../services/receipt/escPosRenderer';
+import { downloadFile } from '../../utils/csvUtils';
+
+interface EscPosPreviewProps {
+  elements: ReceiptElement[];
+  printerConfig: PrinterConfig;
+  onPrinterConfigChange: (config: PrinterConfig) => void;
+}
+
+const EscPosPreview: React.FC<EscPosPreviewProps> = ({ elements, printerConfig, onPrinterConfigChange }) => {
+  const [bytes, setBytes] = useState<Uint8Array | null>(null);
+  const [view, setView] = useState<'commands' | 'hex'>('commands');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    renderEscPos(elements, { printer: printerConfig })
+      .then(result => {
+        if (!cancelled) {
+          setBytes(result);
+          setError(null);
+        }
+      })
+      .catch(err => {
+        console.error('Failed to render ESC/POS output:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to render ESC/POS output');
+      });
+    return () => { cancelled = true; };
+  }, [elements, printerConfig]);
+
+  const update = (changes: Partial<PrinterConfig>) => onPrinterConfigChange({ ...printerConfig, ...changes });
+
+  const handleDownload = () => {
+    if (!bytes) return;
+    downloadFile(bytes, 'receipt.bin', 'application/octet-stream');
+  };
+
+  const encoding = printerConfig.encoding || 'utf8';
+
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <div className="px-4 py-3 border-b border-gray-200 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <PrinterIcon className="h-5 w-5 text-gray-500" />
+          <h3 className="text-sm font-semibold text-gray-900">ESC/POS Output</h3>
+          {bytes && <span className="text-xs text-gray-500">{bytes.length.toLocaleString()} bytes</span>}
+        </div>
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <select
+            value={printerConfig.paper || '80mm'}
+            onChange={(e) => update({ paper: e.target.value as PaperSize })}
+            className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+          >
+            {THERMAL_PAPER_SIZES.map(option => (
+              <option key={option.id} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <select
+            value={encoding}
+            onChange={(e) => update({ encoding: e.target.value as CharacterEncoding })}
+            className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+          >
+            {CHARACTER_ENCODINGS.map(option => (
+              <option key={option.id} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1 text-gray-700">
+            <input
+              type="checkbox"
+              checked={printerConfig.cut !== false}
+              onChange={(e) => update({ cut: e.target.checked })}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            Cut
+          </label>
+          <label className="flex items-center gap-1 text-gray-700">
+            <input
+              type="checkbox"
+              checked={!!printerConfig.drawer}
+              onChange={(e) => update({ drawer: e.target.checked })}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            Open drawer
+          </label>
+          <div className="flex rounded-md border border-gray-300 overflow-hidden">
+            {(['commands', 'hex'] as const).map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setView(option)}
+                className={`px-3 py-1 text-xs font-medium ${
+                  view === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {option === 'commands' ? 'Commands' : 'Hex'}
+              </button>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={handleDownload}
+            disabled={!bytes}
+            className="inline-flex items-center px-3 py-1 border border-gray-300 rounded-md text-xs font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            <ArrowDownTrayIcon className="h-4 w-4 mr-1" />
+            .bin
+          </button>
+        </div>
+      </div>
+      {error ? (
+        <div className="p-4 text-sm text-red-700">{error}</div>
+      ) : (
+        <pre className="p-4 text-xs font-mono text-gray-800 bg-gray-50 overflow-auto max-h-96 whitespace-pre">
+          {bytes ? (view === 'hex' ? toHexDump(bytes) : describeEscPos(bytes, encoding)) : 'Rendering...'}
+        </pre>
+      )}
+    </div>
+  );
+};
+
+export default EscPosPreview;
@@ -0,0 +1,250 @@
+import React, { useMemo, useRef, useState } from 'react';
+import type { ReceiptElement, ReceiptSection } from '../../types/receipt';
+import { buildReceipt, type ReceiptTemplates } from '../../services/receipt/receiptTemplateEngine';
+import { ReceiptElementRenderer } from './ReceiptElementRenderer';
+import ReceiptDesignerOutline from './ReceiptDesignerOutline';
+import ReceiptElementProperties, { ConditionsField } from './ReceiptElementProperties';
+import {
+  RECEIPT_ELEMENT_TYPES,
+  RECEIPT_PAPER_WIDTHS,
+  createReceiptElement,
+  getChildElements,
+  getElementAt,
+  insertElementAt,
+  moveElement,
+  removeElementAt,
+  updateElementAt,
+  type ElementPath,
+  type ReceiptElementType,
+  type ReceiptPaperSize
+} from './receiptDesignerUtils';
+
+interface ReceiptDesignerProps {
+  /** Parsed receipt configuration; every edit is reported back through onChange */
+  templates: ReceiptTemplates;
+  sectionKey: string;
+  /** Sample receipt data used for the live preview */
+  data: unknown;
+  paperSize?: ReceiptPaperSize;
+  onPaperSizeChange?: (paperSize: ReceiptPaperSize) => void;
+  onChange: (templates: ReceiptTemplates) => void;
+}
+
+type DragPayload = { kind: 'new'; type: ReceiptElementType } | { kind: 'move'; path: ElementPath };
+
+const ReceiptDesigner: React.FC<ReceiptDesignerProps> = ({
+  templates,
+  sectionKey,
+  data,
+  paperSize = 'thermal_80mm',
+  onPaperSizeChange,
+  onChange
+}) => {
+  const [selectedPath, setSelectedPath] = useState<ElementPath | null>(null);
+  const dragPayload = useRef<DragPayload | null>(null);
+
+  const section: ReceiptSection = templates[sectionKey] || { type: 'section', rows: [] };
+  const rows = section.rows || [];
+  const selectedElement = selectedPath ? getElementAt(rows, selectedPath) : null;
+  const previewWidth = RECEIPT_PAPER_WIDTHS[paperSize].width;
+
+  const preview = useMemo(() => {
+    try {
+      return { elements: buildReceipt(sectionKey, templates, data), error: null };
+    } catch (error) {
+      return { elements: [], error: error instanceof Error ? error.message : 'Failed to render preview' };
+    }
+  }, [sectionKey, templates, data]);
+
+  const updateSection = (changes: Partial<ReceiptSection>) => {
+    onChange({ ...templates, [sectionKey]: { ...section, type: 'section', ...changes } });
+  };
+
+  const updateRows = (nextRows: ReceiptElement[], nextSelection: ElementPath | null = selectedPath) => {
+    updateSection({ rows: nextRows });
+    setSelectedPath(nextSelection);
+  };
+
+  const handleDrop = (parentPath: ElementPath, index: number) => {
+    const payload = dragPayload.current;
+    dragPayload.current = null;
+    if (!payload) return;
+
+    if (payload.kind === 'new') {
+      updateRows(insertElementAt(rows, parentPath, index, createReceiptElement(payload.type)), [...parentPath, index]);
+    } else {
+      const result = moveElement(rows, payload.path, parentPath, index);
+      updateRows(result.rows, result.path);
+    }
+  };
+
+  // Palette items can also be clicked to append after the selection
+  const handleAdd = (type: ReceiptElementType) => {
+    const selected = selectedPath && selectedElement;
+    const container = selected && getChildElements(selectedElement);
+    if (selected && container) {
+      updateRows(insertElementAt(rows, selectedPath, container.length, createReceiptElement(type)), [...selectedPath, container.length]);
+    } else if (selected) {
+      const parentPath = selectedPath.slice(0, -1);
+      const index = selectedPath[selectedPath.length - 1] + 1;
+      updateRows(insertElementAt(rows, parentPath, index, createReceiptElement(type)), [...parentPath, index]);
+    } else {
+      updateRows(insertElementAt(rows, [], rows.length, createReceiptElement(type)), [rows.length]);
+    }
+  };
+
+  const handleMove = (offset: number) => {
+    if (!selectedPath) return;
+    const parentPath = selectedPath.slice(0, -1);
+    const index = selectedPath[selectedPath.length - 1];
+    const siblings = parentPath.length === 0 ? rows : getChildElements(getElementAt(rows, parentPath)!) || [];
+    const target = index + offset;
+    if (target < 0 || target >= siblings.length) return;
+    // moveElement inserts before the given index, so moving down skips one more
+    const result = moveElement(rows, selectedPath, parentPath, offset > 0 ? target + 1 : target);
+    updateRows(result.rows, result.path);
+  };
+
+  const handleDuplicate = () => {
+    if (!selectedPath || !selectedElement) return;
+    const parentPath = selectedPath.slice(0, -1);
+    const index = selectedPath[selectedPath.length - 1] + 1;
+    const copy = JSON.parse(JSON.stringify(selectedElement)) as ReceiptElement;
+    updateRows(insertElementAt(rows, parentPath, index, copy), [...parentPath, index]);
+  };
+
+  const handleRemove = () => {
+    if (!selectedPath) return;
+    updateRows(removeElementAt(rows, selectedPath), null);
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-12 gap-4">
+      {/* Palette and outline */}
+      <div className="lg:col-span-4 space-y-4">
+        <div className="bg-white shadow rounded-lg p-4">
+          <h3 className="text-sm font-semibold text-gray-900 mb-3">Elements</h3>
+          <div className="grid grid-cols-2 gap-2">
+            {RECEIPT_ELEMENT_TYPES.map(item => (
+              <button
+                key={item.type}
+                type="button"
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = 'copy';
+                  e.dataTransfer.setData('text/plain', item.type);
+                  dragPayload.current = { kind: 'new', type: item.type };
+                }}
+                onDragEnd={() => { dragPayload.current = null; }}
+                onClick={() => handleAdd(item.type)}
+                className="rounded-md border border-gray-200 px-3 py-2 text-left hover:border-blue-400 hover:bg-blue-50 cursor-grab"
+              >
+                <div className="text-sm font-medium text-gray-900">{item.label}</div>
+                <div className="text-xs text-gray-500">{item.description}</div>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="bg-white shadow rounded-lg p-4">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-sm font-semibold text-gray-900">Outline ({sectionKey})</h3>
+            {selectedPath && (
+              <button
+                type="button"
+                onClick={() => setSelectedPath(null)}
+                className="text-xs text-blue-600 hover:text-blue-800"
+              >
+                Section settings
+              </button>
+            )}
+          </div>
+          <div className="max-h-[520px] overflow-y-auto">
+            <ReceiptDesignerOutline
+              rows={rows}
+              selectedPath={selectedPath}
+              onSelect={setSelectedPath}
+              onDragStart={(path) => { dragPayload.current = { kind: 'move', path }; }}
+              onDragEnd={() => { dragPayload.current = null; }}
+              onDrop={handleDrop}
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Properties */}
+      <div className="lg:col-span-4">
+        <div className="bg-white shadow rounded-lg p-4">
+          <h3 className="text-sm font-semibold text-gray-900 mb-3">Properties</h3>
+          {selectedPath && selectedElement ? (
+            <ReceiptElementProperties
+              key={selectedPath.join('.')}
+              element={selectedElement}
+              sectionKeys={Object.keys(templates).filter(key => key !== sectionKey)}
+              onChange={(element) => updateRows(updateElementAt(rows, selectedPath, () => element))}
+              onMove={handleMove}
+              onDuplicate={handleDuplicate}
+              onRemove={handleRemove}
+            />
+          ) : (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-500">
+                Select an element in the outline to edit it. Section conditions decide whether
+                the whole section prints.
+              </p>
+              <ConditionsField
+                key={sectionKey}
+                conditions={section.conditions}
+                onChange={(conditions) => updateSection({ conditions })}
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Live preview */}
+      <div className="lg:col-span-4">
+        <div className="bg-white shadow rounded-lg p-4">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-sm font-semibold text-gray-900">Preview</h3>
+            <div className="flex rounded-md border border-gray-300 overflow-hidden">
+              {(Object.keys(RECEIPT_PAPER_WIDTHS) as ReceiptPaperSize[]).map(size => (
+                <button
+                  key={size}
+                  type="button"
+                  onClick={() => onPaperSizeChange?.(size)}
+                  className={`px-3 py-1 text-xs font-medium ${
+                    paperSize === size ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {RECEIPT_PAPER_WIDTHS[size].label}
+                </button>
+              ))}
+            </div>
+          </div>
+          {preview.error ? (
+            <div className="rounded-md bg-red-50 border border-red-200 p-3 text-sm text-red-700">{preview.error}</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <div
+                className="border border-gray-300 bg-white p-3 mx-auto font-mono"
+                style={{ width: `${previewWidth}px` }}
+              >
+                {preview.elements.map((element, index) => (
+                  <ReceiptElementRenderer
+                    key={`preview-${index}`}
+                    element={element}
+                    width={previewWidth}
+                    fontSize={paperSize === 'thermal_58mm' ? 10 : 12}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReceiptDesigner;
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { Bars3Icon } from '@heroicons/react/24/outline';
+import type { ReceiptElement } from '../../types/receipt';
+import {
+  describeElement,
+  getChildElements,
+  isSamePath,
+  type ElementPath
+} from './receiptDesignerUtils';
+
+interface ReceiptDesignerOutlineProps {
+  rows: ReceiptElement[];
+  selectedPath: ElementPath | null;
+  onSelect: (path: ElementPath) => void;
+  onDragStart: (path: ElementPath) => void;
+  onDragEnd: () => void;
+  /** Drop the dragged element or palette item at `index` within `parentPath` */
+  onDrop: (parentPath: ElementPath, index: number) => void;
+}
+
+const dropKey = (parentPath: ElementPath, index: number) => `${parentPath.join('.')}:${index}`;
+
+const ReceiptDesignerOutline: React.FC<ReceiptDesignerOutlineProps> = ({
+  rows,
+  selectedPath,
+  onSelect,
+  onDragStart,
+  onDragEnd,
+  onDrop
+}) => {
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const dropHandlers = (parentPath: ElementPath, index: number) => ({
+    onDragOver: (e: React.DragEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      setDropTarget(dropKey(parentPath, index));
+    },
+    onDragLeave: () => setDropTarget(null),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      setDropTarget(null);
+      onDrop(parentPath, index);
+    }
+  });
+
+  const renderDropZone = (parentPath: ElementPath, index: number, label: string) => (
+    <div
+      {...dropHandlers(parentPath, index)}
+      className={`rounded border border-dashed px-2 py-1 text-xs transition-colors ${
+        dropTarget === dropKey(parentPath, index)
+          ? 'border-blue-500 bg-blue-50 text-blue-700'
+          : 'border-gray-200 text-gray-400'
+      }`}
+    >
+      {label}
+    </div>
+  );
+
+  const renderNodes = (elements: ReceiptElement[], parentPath: ElementPath): React.ReactNode => (
+    <div className="space-y-1">
+      {elements.map((element, index) => {
+        const path = [...parentPath, index];
+        const children = getChildElements(element);
+        const isSelected = isSamePath(path, selectedPath);
+        const isDropTarget = dropTarget === dropKey(parentPath, index);
+
+        return (
+          <div key={path.join('.')}>
+            <div
+              draggable
+              onDragStart={(e) => {
+                e.stopPropagation();
+                e.dataTransfer.effectAllowed = 'move';
+                e.dataTransfer.setData('text/plain', path.join('.'));
+                onDragStart(path);
+              }}
+              onDragEnd={onDragEnd}
+              {...dropHandlers(parentPath, index)}
+              onClick={() => onSelect(path)}
+              className={`flex items-center gap-2 rounded px-2 py-1 text-sm cursor-pointer border-t-2 ${
+                isDropTarget ? 'border-blue-500' : 'border-transparent'
+              } ${isSelected ? 'bg-blue-100 text-blue-900' : 'hover:bg-gray-100 text-gray-700'}`}
+            >
+              <Bars3Icon className="h-4 w-4 flex-shrink-0 text-gray-400 cursor-grab" />
+              <span className="text-xs font-mono uppercase text-gray-500 flex-shrink-0">{element.type}</span>
+              <span className="truncate">{describeElement(element)}</span>
+              {element.conditions && element.conditions.length > 0 && (
+                <span className="ml-auto flex-shrink-0 rounded bg-amber-100 px-1.5 text-xs text-amber-800">if</span>
+              )}
+            </div>
+            {children && (
+              <div className="ml-5 mt-1 border-l border-gray-200 pl-2">
+                {renderNodes(children, path)}
+                {renderDropZone(path, children.length, `Drop into ${element.type}`)}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <div className="space-y-1">
+      {rows.length === 0 && (
+        <p className="text-sm text-gray-500">Drag elements from the palette to start.</p>
+      )}
+      {renderNodes(rows, [])}
+      {renderDropZone([], rows.length, 'Drop at end')}
+    </div>
+  );
+};
+
+export default ReceiptDesignerOutline;
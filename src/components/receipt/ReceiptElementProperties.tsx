@@ -0,0 +1,248 @@
+import React, { useState } from 'react';
+import {
+  ArrowUpIcon,
+  ArrowDownIcon,
+  DocumentDuplicateIcon,
+  TrashIcon
+} from '@heroicons/react/24/outline';
+import type { BarcodeElement, ReceiptCondition, ReceiptElement, TextElement } from '../../types/receipt';
+import { formatConditions, parseConditions } from './receiptDesignerUtils';
+
+interface ReceiptElementPropertiesProps {
+  element: ReceiptElement;
+  sectionKeys: string[];
+  onChange: (element: ReceiptElement) => void;
+  onMove: (offset: number) => void;
+  onDuplicate: () => void;
+  onRemove: () => void;
+}
+
+const inputClass = 'w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+const labelClass = 'block text-xs font-medium text-gray-600 mb-1';
+
+// Keeps the raw text so blank lines survive while typing; remount (key) to reset
+export const ConditionsField: React.FC<{
+  conditions?: ReceiptCondition[];
+  onChange: (conditions: ReceiptCondition[] | undefined) => void;
+}> = ({ conditions, onChange }) => {
+  const [text, setText] = useState(() => formatConditions(conditions));
+
+  return (
+    <div>
+      <label className={labelClass}>Conditions (one per line, all must pass)</label>
+      <textarea
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          onChange(parseConditions(e.target.value));
+        }}
+        rows={3}
+        placeholder="payments.length > 1"
+        className={`${inputClass} font-mono`}
+      />
+    </div>
+  );
+};
+
+const ReceiptElementProperties: React.FC<ReceiptElementPropertiesProps> = ({
+  element,
+  sectionKeys,
+  onChange,
+  onMove,
+  onDuplicate,
+  onRemove
+}) => {
+  const update = (changes: Partial<ReceiptElement> | Partial<TextElement> | { as?: string }) => {
+    const next: Record<string, unknown> = { ...element, ...changes };
+    // Leave unset optional fields out of the JSON
+    Object.keys(changes).forEach(key => {
+      if (next[key] === undefined || next[key] === '') delete next[key];
+    });
+    onChange(next as unknown as ReceiptElement);
+  };
+
+  const flexField = (
+    <div>
+      <label className={labelClass}>Flex (column width in rows)</label>
+      <input
+        type="number"
+        min={0}
+        value={element.flex ?? ''}
+        onChange={(e) => update({ flex: e.target.value === '' ? undefined : Number(e.target.value) })}
+        className={inputClass}
+      />
+    </div>
+  );
+
+  const renderFields = () => {
+    switch (element.type) {
+      case 'text':
+        return (
+          <>
+            <div>
+              <label className={labelClass}>Text</label>
+              <textarea
+                value={element.text}
+                onChange={(e) => onChange({ ...element, text: e.target.value })}
+                rows={3}
+                className={`${inputClass} font-mono`}
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Use {'{{ path | filter }}'}, e.g. {'{{ transaction.total | currency }}'}
+              </p>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className={labelClass}>Alignment</label>
+                <select
+                  value={element.align || 'left'}
+                  onChange={(e) => update({ align: e.target.value as TextElement['align'] })}
+                  className={inputClass}
+                >
+                  <option value="left">Left</option>
+                  <option value="center">Center</option>
+                  <option value="right">Right</option>
+                  <option value="justify">Justify</option>
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Style</label>
+                <input
+                  type="text"
+                  value={element.style || ''}
+                  onChange={(e) => update({ style: e.target.value })}
+                  placeholder="bold large"
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            {flexField}
+          </>
+        );
+
+      case 'barcode':
+        return (
+          <>
+            <div>
+              <label className={labelClass}>Code</label>
+              <input
+                type="text"
+                value={element.code}
+                onChange={(e) => onChange({ ...element, code: e.target.value })}
+                className={`${inputClass} font-mono`}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Barcode Type</label>
+              <select
+                value={element.barcode_type}
+                onChange={(e) => onChange({ ...element, barcode_type: e.target.value as BarcodeElement['barcode_type'] })}
+                className={inputClass}
+              >
+                <option value="code39">Code 39</option>
+                <option value="qrcode">QR Code</option>
+                <option value="pdf417">PDF417</option>
+              </select>
+            </div>
+          </>
+        );
+
+      case 'picture':
+        return (
+          <div>
+            <label className={labelClass}>Image URL</label>
+            <input
+              type="text"
+              value={element.url}
+              onChange={(e) => onChange({ ...element, url: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+        );
+
+      case 'sectionref':
+        return (
+          <div>
+            <label className={labelClass}>Section</label>
+            <select
+              value={element.ref}
+              onChange={(e) => onChange({ ...element, ref: e.target.value })}
+              className={inputClass}
+            >
+              <option value="">Select a section</option>
+              {sectionKeys.map(key => (
+                <option key={key} value={key}>{key}</option>
+              ))}
+            </select>
+          </div>
+        );
+
+      case 'iterator':
+        return (
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>List Path</label>
+              <input
+                type="text"
+                value={element.path}
+                onChange={(e) => onChange({ ...element, path: e.target.value })}
+                placeholder="transaction.lineItems"
+                className={`${inputClass} font-mono`}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Item Name</label>
+              <input
+                type="text"
+                value={element.as || ''}
+                onChange={(e) => update({ as: e.target.value })}
+                placeholder="item"
+                className={`${inputClass} font-mono`}
+              />
+            </div>
+          </div>
+        );
+
+      case 'row':
+        return (
+          <p className="text-sm text-gray-500">
+            Drag elements into the row in the outline; each child's flex sets its column width.
+          </p>
+        );
+
+      default:
+        return <p className="text-sm text-gray-500">This element has no properties.</p>;
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-gray-900 capitalize">{element.type}</h4>
+        <div className="flex items-center gap-1">
+          <button type="button" onClick={() => onMove(-1)} title="Move up" className="rounded p-1 text-gray-500 hover:bg-gray-100">
+            <ArrowUpIcon className="h-4 w-4" />
+          </button>
+          <button type="button" onClick={() => onMove(1)} title="Move down" className="rounded p-1 text-gray-500 hover:bg-gray-100">
+            <ArrowDownIcon className="h-4 w-4" />
+          </button>
+          <button type="button" onClick={onDuplicate} title="Duplicate" className="rounded p-1 text-gray-500 hover:bg-gray-100">
+            <DocumentDuplicateIcon className="h-4 w-4" />
+          </button>
+          <button type="button" onClick={onRemove} title="Delete" className="rounded p-1 text-red-500 hover:bg-red-50">
+            <TrashIcon className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      {renderFields()}
+
+      <ConditionsField
+        conditions={element.conditions}
+        onChange={(conditions) => update({ conditions })}
+      />
+    </div>
+  );
+};
+
+export default ReceiptElementProperties;
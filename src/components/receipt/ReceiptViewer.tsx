@@ -7,11 +7,11 @@ import {
   ChevronUpIcon,
   DocumentTextIcon
 } from '@heroicons/react/24/outline';
-import QRCode from 'qrcode';
-import JsBarcode from 'jsbarcode';
 import { ReceiptElementRenderer } from './ReceiptElementRenderer';
+import { printReceiptElements } from './receiptPrint';
 import type { ReceiptElement, ReceiptRenderOptions } from '../../types/receipt';
 import { receiptBinaryCodec } from '../../services/receipt/receiptBinaryCodec';
+import { resolveReceiptElements, type ReceiptTemplates } from '../../services/receipt/receiptTemplateEngine';
 
 interface ReceiptViewerProps {
   documents: Array<{
@@ -25,6 +25,10 @@ interface ReceiptViewerProps {
   printButtonText?: string;
   onPrintAll?: () => void;
   transactionId?: string;
+  /** Receipt data for documents that still contain template rows */
+  templateData?: unknown;
+  /** Sections that template documents may reference */
+  templates?: ReceiptTemplates;
 }
 
 const ReceiptViewer: React.FC<ReceiptViewerProps> = ({
@@ -34,7 +38,9 @@ const ReceiptViewer: React.FC<ReceiptViewerProps> = ({
   showCopyButton = true,
   printButtonText = 'Print',
   onPrintAll,
-  transactionId
+  transactionId,
+  templateData,
+  templates
 }) => {
   const [expandedReceipts, setExpandedReceipts] = useState<Set<string>>(new Set());
   const [selectedReceipt, setSelectedReceipt] = useState<string | null>(null);
@@ -50,6 +56,19 @@ const ReceiptViewer: React.FC<ReceiptViewerProps> = ({
   };
 
   const parseReceiptData = (dataString: string): ReceiptElement[] => {
+    const elements = decodeReceiptData(dataString);
+    if (templateData === undefined) return elements;
+
+    try {
+      return resolveReceiptElements(elements, templateData, templates);
+    } catch (error) {
+      // A malformed condition or placeholder must not take the page down; show the stored rows
+      console.error('Failed to resolve receipt template rows:', error);
+      return elements;
+    }
+  };
+
+  const decodeReceiptData = (dataString: string): ReceiptElement[] => {
     try {
       // Try binary codec first (base64-encoded receipt binary)
       if (receiptBinaryCodec.isReceiptBinary(dataString)) {
@@ -94,188 +113,11 @@ const ReceiptViewer: React.FC<ReceiptViewerProps> = ({
       try {
         const receiptElements = parseReceiptData(receipt.data);
 
-        // Create a temporary container to render the receipt content
-        const tempContainer = document.createElement('div');
-        tempContainer.style.fontFamily = defaultOptions.fontFamily || 'monospace';
-        tempContainer.style.fontSize = `${defaultOptions.fontSize}px`;
-        tempContainer.style.lineHeight = '1.2';
-        tempContainer.style.width = `${defaultOptions.width}px`;
-
-        // Render each element as HTML
-        const renderElementToHTML = async (element: any): Promise<string> => {
-          switch (element.type) {
-            case 'text':
-              const textAlign = element.align === 'center' ? 'center' :
-                element.align === 'right' ? 'right' :
-                  element.align === 'justify' ? 'justify' : 'left';
-              return `<div style="text-align: ${textAlign}; ${element.flex ? `flex: ${element.flex};` : ''}">${element.text || ''}</div>`;
-
-            case 'row':
-              const childrenHTML = await Promise.all(
-                (element.children || []).map(async (child: any) =>
-                  `<div style="${child.flex ? `flex: ${child.flex};` : ''}">${await renderElementToHTML(child)}</div>`
-                )
-              );
-              return `<div style="display: flex; gap: 4px;">${childrenHTML.join('')}</div>`;
-
-            case 'horizontalline':
-              return '<div style="border-top: 1px dashed #666; margin: 8px 0; width: 100%;"></div>';
-
-            case 'pagebreak':
-              return '<div style="page-break-after: always; margin: 16px 0; border-top: 2px solid #444;"></div>';
-
-            case 'barcode':
-              if (element.barcode_type === 'qrcode') {
-                try {
-                  // Generate QR code as data URL
-                  const qrDataURL = await QRCode.toDataURL(element.code, {
-                    width: 120,
-                    margin: 1,
-                    color: {
-                      dark: '#000000',
-                      light: '#FFFFFF'
-                    }
-                  });
-                  return `<div style="text-align: center; margin: 8px 0;">
-                    <img src="${qrDataURL}" alt="QR Code" style="width: 120px; height: 120px;" />
-                  </div>`;
-                } catch (qrError) {
-                  console.error('Failed to generate QR code:', qrError);
-                  // Fallback to text representation
-                  return `<div style="text-align: center; margin: 8px 0; padding: 10px; border: 1px solid #ccc; background: #f9f9f9;">
-                    <div style="font-size: 10px; margin-bottom: 4px;">QR Code (Failed to Generate)</div>
-                    <div style="font-family: monospace; font-size: 8px;">${element.code}</div>
-                  </div>`;
-                }
-              } else {
-                try {
-                  // Generate other barcode types using jsbarcode
-                  const canvas = document.createElement('canvas');
-
-                  // Map barcode types to jsbarcode formats
-                  const formatMap: { [key: string]: string } = {
-                    'code128': 'CODE128',
-                    'code39': 'CODE39',
-                    'ean13': 'EAN13',
-                    'ean8': 'EAN8',
-                    'upc': 'UPC',
-                    'upca': 'UPC',
-                    'upce': 'UPCE',
-                    'itf': 'ITF',
-                    'itf14': 'ITF14',
-                    'msi': 'MSI',
-                    'pharmacode': 'pharmacode',
-                    'codabar': 'codabar'
-                  };
-
-                  const format = formatMap[element.barcode_type.toLowerCase()] || 'CODE128';
-
-                  JsBarcode(canvas, element.code, {
-                    format: format,
-                    width: 2,
-                    height: 50,
-                    displayValue: true,
-                    fontSize: 14,
-                    textAlign: 'center',
-                    textPosition: 'bottom',
-                    textMargin: 2,
-                    fontOptions: '',
-                    font: 'monospace',
-                    background: '#ffffff',
-                    lineColor: '#000000',
-                    margin: 5
-                  });
-
-                  const barcodeDataURL = canvas.toDataURL();
-                  return `<div style="text-align: center; margin: 8px 0;">
-                    <img src="${barcodeDataURL}" alt="${element.barcode_type} Barcode" style="max-width: 250px; height: auto;" />
-                  </div>`;
-                } catch (barcodeError) {
-                  console.error('Failed to generate barcode:', barcodeError);
-                  // Fallback to text representation
-                  return `<div style="text-align: center; margin: 8px 0; padding: 8px; border: 1px solid #ccc; background: #f9f9f9;">
-                    <div style="font-size: 10px; margin-bottom: 4px;">${element.barcode_type.toUpperCase()} (Failed to Generate)</div>
-                    <div style="font-family: monospace; background: white; padding: 4px; border: 1px solid #ddd;">${element.code}</div>
-                  </div>`;
-                }
-              }
-
-            case 'picture':
-              return `<div style="text-align: center; margin: 8px 0;">
-                <img src="${element.url}" alt="Receipt Image" style="max-width: 100%; max-height: 100px;" onerror="this.style.display='none'; this.nextSibling.style.display='block';" />
-                <div style="display: none; padding: 16px; background: #f3f4f6; border: 1px solid #d1d5db; text-align: center; color: #6b7280; font-size: 12px;">Image not available</div>
-              </div>`;
-
-            case 'sectionref':
-              return `<div style="color: #6b7280; font-style: italic; font-size: 12px;">[Section: ${element.ref}]</div>`;
-
-            case 'iterator':
-              const iteratorHTML = await Promise.all(
-                (element.rows || []).map(async (row: any) => await renderElementToHTML(row))
-              );
-              return `<div>${iteratorHTML.join('')}</div>`;
-
-            default:
-              return `<div style="color: #ef4444; font-size: 12px;">Unknown element type: ${element.type}</div>`;
-          }
-        };
-
-        // Process all elements with async support
-        const receiptHTMLElements = await Promise.all(
-          receiptElements.map(async (element) => await renderElementToHTML(element))
+        await printReceiptElements(
+          receiptElements,
+          defaultOptions,
+          transactionId ? `${transactionId}_${docId}` : `Receipt_${docId}`
         );
-        const receiptHTML = receiptHTMLElements.join('');
-
-        // Create a new window for printing
-        const printWindow = window.open('', '_blank');
-        if (printWindow) {
-          printWindow.document.write(`
-            <!DOCTYPE html>
-            <html>
-            <head>
-              <title>${transactionId ? `${transactionId}_${docId}` : `Receipt_${docId}`}</title>
-              <style>
-                body {
-                  font-family: ${defaultOptions.fontFamily || 'monospace'};
-                  font-size: ${defaultOptions.fontSize}px;
-                  line-height: 1.2;
-                  margin: 0;
-                  padding: 16px;
-                  width: ${defaultOptions.width}px;
-                  background: white;
-                  word-break: break-word;
-                }
-                .receipt-container {
-                  width: 100%;
-                }
-                @media print {
-                  body { 
-                    margin: 0; 
-                    padding: 8px; 
-                  }
-                  @page {
-                    margin: 0.5in;
-                  }
-                }
-              </style>
-            </head>
-            <body>
-              <div class="receipt-container">
-                ${receiptHTML}
-              </div>
-              <script>
-                window.onload = function() {
-                  setTimeout(function() {
-                    window.print();
-                    window.close();
-                  }, 500);
-                };
-              </script>
-            </body>
-            </html>
-          `);
-          printWindow.document.close();
-        }
       } catch (error) {
         console.error('Error generating receipt for printing:', error);
         alert('Error generating receipt for printing. Please try again.');
@@ -1,3 +1,6 @@
 export { default as ReceiptViewer } from './ReceiptViewer';
 export { ReceiptElementRenderer } from './ReceiptElementRenderer';
+export { default as ReceiptDesigner } from './ReceiptDesigner';
+export { default as EscPosPreview } from './EscPosPreview';
+export { printReceiptElements, renderReceiptElementToHtml } from './receiptPrint';
 export * from '../../types/receipt';
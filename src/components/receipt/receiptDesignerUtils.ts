@@ -0,0 +1,209 @@
+import type { ReceiptCondition, ReceiptElement } from '../../types/receipt';
+import type { ReceiptSettings } from '../../services/types/store.types';
+
+// =============================================================================
+// Element tree helpers for the visual receipt designer.
+//
+// Elements are addressed by their index path from the section rows, e.g. [2, 0]
+// is the first child of the third row. Every helper returns new arrays so the
+// result can be serialized straight back into the configuration JSON.
+// =============================================================================
+
+export type ElementPath = number[];
+
+export type ReceiptElementType = ReceiptElement['type'];
+
+export type ReceiptPaperSize = Extract<ReceiptSettings['paper_size'], 'thermal_58mm' | 'thermal_80mm'>;
+
+/** Preview width in pixels for each thermal paper size */
+export const RECEIPT_PAPER_WIDTHS: Record<ReceiptPaperSize, { label: string; width: number }> = {
+  thermal_58mm: { label: '58mm', width: 220 },
+  thermal_80mm: { label: '80mm', width: 300 },
+};
+
+export const RECEIPT_ELEMENT_TYPES: Array<{ type: ReceiptElementType; label: string; description: string }> = [
+  { type: 'text', label: 'Text', description: 'Static text or {{placeholders}}' },
+  { type: 'row', label: 'Row', description: 'Side-by-side columns' },
+  { type: 'barcode', label: 'Barcode', description: 'Code39, QR or PDF417' },
+  { type: 'picture', label: 'Picture', description: 'Logo or image URL' },
+  { type: 'horizontalline', label: 'Line', description: 'Dashed separator' },
+  { type: 'pagebreak', label: 'Page Break', description: 'Cut / new page' },
+  { type: 'sectionref', label: 'Section', description: 'Include another section' },
+  { type: 'iterator', label: 'Iterator', description: 'Repeat rows for a list' },
+];
+
+export const createReceiptElement = (type: ReceiptElementType): ReceiptElement => {
+  switch (type) {
+    case 'text':
+      return { type: 'text', text: 'Text', align: 'left' };
+    case 'row':
+      return {
+        type: 'row',
+        children: [
+          { type: 'text', text: 'Left', align: 'left', flex: 1 },
+          { type: 'text', text: 'Right', align: 'right', flex: 1 },
+        ],
+      };
+    case 'barcode':
+      return { type: 'barcode', code: '{{transaction.trans_id}}', barcode_type: 'qrcode' };
+    case 'picture':
+      return { type: 'picture', url: '' };
+    case 'horizontalline':
+      return { type: 'horizontalline' };
+    case 'pagebreak':
+      return { type: 'pagebreak' };
+    case 'sectionref':
+      return { type: 'sectionref', ref: '' };
+    case 'iterator':
+      return { type: 'iterator', path: '', as: 'item', rows: [] };
+  }
+};
+
+/** Child list of a container element (row children, iterator rows) */
+export const getChildElements = (element: ReceiptElement): ReceiptElement[] | null => {
+  if (element.type === 'row') return element.children || [];
+  if (element.type === 'iterator') return element.rows || [];
+  return null;
+};
+
+const withChildElements = (element: ReceiptElement, children: ReceiptElement[]): ReceiptElement => {
+  if (element.type === 'row') return { ...element, children };
+  if (element.type === 'iterator') return { ...element, rows: children };
+  return element;
+};
+
+export const getElementAt = (rows: ReceiptElement[], path: ElementPath): ReceiptElement | null => {
+  let list: ReceiptElement[] | null = rows;
+  let element: ReceiptElement | null = null;
+  for (const index of path) {
+    element = list?.[index] ?? null;
+    if (!element) return null;
+    list = getChildElements(element);
+  }
+  return element;
+};
+
+/** Replace the child list at `parentPath` ([] for the section rows) */
+const updateChildrenAt = (
+  rows: ReceiptElement[],
+  parentPath: ElementPath,
+  update: (children: ReceiptElement[]) => ReceiptElement[]
+): ReceiptElement[] => {
+  if (parentPath.length === 0) return update(rows);
+  const [index, ...rest] = parentPath;
+  return rows.map((element, i) => {
+    if (i !== index) return element;
+    const children = getChildElements(element);
+    return children ? withChildElements(element, updateChildrenAt(children, rest, update)) : element;
+  });
+};
+
+export const updateElementAt = (
+  rows: ReceiptElement[],
+  path: ElementPath,
+  update: (element: ReceiptElement) => ReceiptElement
+): ReceiptElement[] => {
+  const parentPath = path.slice(0, -1);
+  const index = path[path.length - 1];
+  return updateChildrenAt(rows, parentPath, children =>
+    children.map((element, i) => (i === index ? update(element) : element))
+  );
+};
+
+export const insertElementAt = (
+  rows: ReceiptElement[],
+  parentPath: ElementPath,
+  index: number,
+  element: ReceiptElement
+): ReceiptElement[] =>
+  updateChildrenAt(rows, parentPath, children => {
+    const next = [...children];
+    next.splice(Math.max(0, Math.min(index, next.length)), 0, element);
+    return next;
+  });
+
+export const removeElementAt = (rows: ReceiptElement[], path: ElementPath): ReceiptElement[] => {
+  const index = path[path.length - 1];
+  return updateChildrenAt(rows, path.slice(0, -1), children => children.filter((_element, i) => i !== index));
+};
+
+export const isSamePath = (a: ElementPath | null, b: ElementPath | null): boolean =>
+  !!a && !!b && a.length === b.length && a.every((value, i) => value === b[i]);
+
+/** True when `path` is `ancestor` or lies inside it */
+export const isPathWithin = (path: ElementPath, ancestor: ElementPath): boolean =>
+  path.length >= ancestor.length && ancestor.every((value, i) => value === path[i]);
+
+/**
+ * Move an element to `index` within `parentPath` and return the new rows and
+ * the element's new path. Moving an element into itself is a no-op.
+ */
+export const moveElement = (
+  rows: ReceiptElement[],
+  from: ElementPath,
+  parentPath: ElementPath,
+  index: number
+): { rows: ReceiptElement[]; path: ElementPath } => {
+  const element = getElementAt(rows, from);
+  if (!element || isPathWithin(parentPath, from)) return { rows, path: from };
+
+  // Removing the element shifts later siblings (and their descendants) up by one
+  const target = [...parentPath];
+  let targetIndex = index;
+  const fromParent = from.slice(0, -1);
+  const fromIndex = from[from.length - 1];
+  if (isPathWithin(target, fromParent) && target.length > fromParent.length && target[fromParent.length] > fromIndex) {
+    target[fromParent.length] -= 1;
+  } else if (isSamePath(target, fromParent) && targetIndex > fromIndex) {
+    targetIndex -= 1;
+  }
+
+  const removed = removeElementAt(rows, from);
+  const childCount = target.length === 0 ? removed.length : getChildElements(getElementAt(removed, target)!)?.length ?? 0;
+  const clampedIndex = Math.min(targetIndex, childCount);
+  return { rows: insertElementAt(removed, target, clampedIndex, element), path: [...target, clampedIndex] };
+};
+
+/** Short label for the outline */
+export const describeElement = (element: ReceiptElement): string => {
+  switch (element.type) {
+    case 'text':
+      return element.text || '(empty text)';
+    case 'row':
+      return `${element.children?.length ?? 0} columns`;
+    case 'barcode':
+      return `${element.barcode_type}: ${element.code}`;
+    case 'picture':
+      return element.url || '(no image)';
+    case 'sectionref':
+      return element.ref || '(no section)';
+    case 'iterator':
+      return `${element.path || '(no path)'} as ${element.as || 'item'}`;
+    case 'horizontalline':
+      return 'Separator';
+    case 'pagebreak':
+      return 'Page break';
+    default:
+      return (element as ReceiptElement).type;
+  }
+};
+
+// One condition per line; rule objects are written as JSON
+export const formatConditions = (conditions?: ReceiptCondition[]): string =>
+  (conditions || []).map(condition => (typeof condition === 'string' ? condition : JSON.stringify(condition))).join('\n');
+
+export const parseConditions = (value: string): ReceiptCondition[] | undefined => {
+  const conditions = value
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line)
+    .map(line => {
+      if (!line.startsWith('{')) return line;
+      try {
+        return JSON.parse(line) as ReceiptCondition;
+      } catch {
+        return line;
+      }
+    });
+  return conditions.length > 0 ? conditions : undefined;
+};
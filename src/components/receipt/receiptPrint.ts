@@ -0,0 +1,188 @@
+import QRCode from 'qrcode';
+import JsBarcode from 'jsbarcode';
+import type { ReceiptElement, ReceiptRenderOptions } from '../../types/receipt';
+
+// Map barcode types to jsbarcode formats
+const BARCODE_FORMATS: { [key: string]: string } = {
+  'code128': 'CODE128',
+  'code39': 'CODE39',
+  'ean13': 'EAN13',
+  'ean8': 'EAN8',
+  'upc': 'UPC',
+  'upca': 'UPC',
+  'upce': 'UPCE',
+  'itf': 'ITF',
+  'itf14': 'ITF14',
+  'msi': 'MSI',
+  'pharmacode': 'pharmacode',
+  'codabar': 'codabar'
+};
+
+/**
+ * Render a receipt element as print HTML
+ */
+export const renderReceiptElementToHtml = async (element: ReceiptElement): Promise<string> => {
+  switch (element.type) {
+    case 'text': {
+      const textAlign = element.align === 'center' ? 'center' :
+        element.align === 'right' ? 'right' :
+          element.align === 'justify' ? 'justify' : 'left';
+      return `<div style="text-align: ${textAlign}; ${element.flex ? `flex: ${element.flex};` : ''}">${element.text || ''}</div>`;
+    }
+
+    case 'row': {
+      const childrenHTML = await Promise.all(
+        (element.children || []).map(async child =>
+          `<div style="${child.flex ? `flex: ${child.flex};` : ''}">${await renderReceiptElementToHtml(child)}</div>`
+        )
+      );
+      return `<div style="display: flex; gap: 4px;">${childrenHTML.join('')}</div>`;
+    }
+
+    case 'horizontalline':
+      return '<div style="border-top: 1px dashed #666; margin: 8px 0; width: 100%;"></div>';
+
+    case 'pagebreak':
+      return '<div style="page-break-after: always; margin: 16px 0; border-top: 2px solid #444;"></div>';
+
+    case 'barcode':
+      if (element.barcode_type === 'qrcode') {
+        try {
+          // Generate QR code as data URL
+          const qrDataURL = await QRCode.toDataURL(element.code, {
+            width: 120,
+            margin: 1,
+            color: {
+              dark: '#000000',
+              light: '#FFFFFF'
+            }
+          });
+          return `<div style="text-align: center; margin: 8px 0;">
+            <img src="${qrDataURL}" alt="QR Code" style="width: 120px; height: 120px;" />
+          </div>`;
+        } catch (qrError) {
+          console.error('Failed to generate QR code:', qrError);
+          // Fallback to text representation
+          return `<div style="text-align: center; margin: 8px 0; padding: 10px; border: 1px solid #ccc; background: #f9f9f9;">
+            <div style="font-size: 10px; margin-bottom: 4px;">QR Code (Failed to Generate)</div>
+            <div style="font-family: monospace; font-size: 8px;">${element.code}</div>
+          </div>`;
+        }
+      }
+
+      try {
+        // Generate other barcode types using jsbarcode
+        const canvas = document.createElement('canvas');
+
+        JsBarcode(canvas, element.code, {
+          format: BARCODE_FORMATS[element.barcode_type.toLowerCase()] || 'CODE128',
+          width: 2,
+          height: 50,
+          displayValue: true,
+          fontSize: 14,
+          textAlign: 'center',
+          textPosition: 'bottom',
+          textMargin: 2,
+          fontOptions: '',
+          font: 'monospace',
+          background: '#ffffff',
+          lineColor: '#000000',
+          margin: 5
+        });
+
+        const barcodeDataURL = canvas.toDataURL();
+        return `<div style="text-align: center; margin: 8px 0;">
+          <img src="${barcodeDataURL}" alt="${element.barcode_type} Barcode" style="max-width: 250px; height: auto;" />
+        </div>`;
+      } catch (barcodeError) {
+        console.error('Failed to generate barcode:', barcodeError);
+        // Fallback to text representation
+        return `<div style="text-align: center; margin: 8px 0; padding: 8px; border: 1px solid #ccc; background: #f9f9f9;">
+          <div style="font-size: 10px; margin-bottom: 4px;">${element.barcode_type.toUpperCase()} (Failed to Generate)</div>
+          <div style="font-family: monospace; background: white; padding: 4px; border: 1px solid #ddd;">${element.code}</div>
+        </div>`;
+      }
+
+    case 'picture':
+      return `<div style="text-align: center; margin: 8px 0;">
+        <img src="${element.url}" alt="Receipt Image" style="max-width: 100%; max-height: 100px;" onerror="this.style.display='none'; this.nextSibling.style.display='block';" />
+        <div style="display: none; padding: 16px; background: #f3f4f6; border: 1px solid #d1d5db; text-align: center; color: #6b7280; font-size: 12px;">Image not available</div>
+      </div>`;
+
+    case 'sectionref':
+      return `<div style="color: #6b7280; font-style: italic; font-size: 12px;">[Section: ${element.ref}]</div>`;
+
+    case 'iterator': {
+      const iteratorHTML = await Promise.all(
+        (element.rows || []).map(row => renderReceiptElementToHtml(row))
+      );
+      return `<div>${iteratorHTML.join('')}</div>`;
+    }
+
+    default:
+      return `<div style="color: #ef4444; font-size: 12px;">Unknown element type: ${(element as ReceiptElement).type}</div>`;
+  }
+};
+
+/**
+ * Open a print window for a receipt. Used by the receipt viewer and for
+ * reprints so both produce the same page.
+ */
+export const printReceiptElements = async (
+  elements: ReceiptElement[],
+  options: ReceiptRenderOptions,
+  title: string
+): Promise<void> => {
+  const receiptHTMLElements = await Promise.all(elements.map(element => renderReceiptElementToHtml(element)));
+  const receiptHTML = receiptHTMLElements.join('');
+
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return;
+
+  printWindow.document.write(`
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <title>${title}</title>
+      <style>
+        body {
+          font-family: ${options.fontFamily || 'monospace'};
+          font-size: ${options.fontSize}px;
+          line-height: 1.2;
+          margin: 0;
+          padding: 16px;
+          width: ${options.width}px;
+          background: white;
+          word-break: break-word;
+        }
+        .receipt-container {
+          width: 100%;
+        }
+        @media print {
+          body {
+            margin: 0;
+            padding: 8px;
+          }
+          @page {
+            margin: 0.5in;
+          }
+        }
+      </style>
+    </head>
+    <body>
+      <div class="receipt-container">
+        ${receiptHTML}
+      </div>
+      <script>
+        window.onload = function() {
+          setTimeout(function() {
+            window.print();
+            window.close();
+          }, 500);
+        };
+      </script>
+    </body>
+    </html>
+  `);
+  printWindow.document.close();
+};
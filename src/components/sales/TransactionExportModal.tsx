@@ -0,0 +1,230 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import { Modal, Button, Alert } from '../ui';
+import { usePermissions } from '../../utils/permissions';
+import { downloadFile } from '../../utils/csvUtils';
+import { formattingService } from '../../services/formatting';
+import {
+  fromScaledInt,
+  fetchTransactionDetails,
+  buildTransactionSummaryCsv,
+  buildLineItemCsv,
+  buildDailyJournal,
+  buildJournalCsv,
+  type JournalEntry,
+  type TransactionSummary
+} from '../../services/transaction';
+
+type ExportScope = 'selected' | 'filtered';
+type ExportKind = 'transactions' | 'line_items' | 'journal';
+
+interface TransactionExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  storeId: string;
+  selectedSummaries: TransactionSummary[];
+  /** Number of loaded transactions matching the current filters */
+  filteredCount: number;
+  /** True when more matching pages exist on the server */
+  hasMorePages: boolean;
+  loadFilteredSummaries: () => Promise<TransactionSummary[]>;
+}
+
+const EXPORT_KINDS: Array<{ id: ExportKind; label: string; description: string }> = [
+  { id: 'transactions', label: 'Transactions', description: 'One row per transaction with totals and tenders' },
+  { id: 'line_items', label: 'Line items', description: 'One row per line item with discounts and taxes' },
+  { id: 'journal', label: 'Daily journal', description: 'Double-entry summary per business date for bookkeeping' },
+];
+
+const TransactionExportModal: React.FC<TransactionExportModalProps> = ({
+  isOpen,
+  onClose,
+  storeId,
+  selectedSummaries,
+  filteredCount,
+  hasMorePages,
+  loadFilteredSummaries
+}) => {
+  const { hasPermission } = usePermissions();
+  const canExportJournal = hasPermission('reports_financial');
+  const canExportSales = hasPermission('reports_sales');
+
+  const [scope, setScope] = useState<ExportScope>(selectedSummaries.length > 0 ? 'selected' : 'filtered');
+  const [kind, setKind] = useState<ExportKind>(canExportSales ? 'transactions' : 'journal');
+  const [status, setStatus] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [journal, setJournal] = useState<JournalEntry[] | null>(null);
+
+  // Default to the selection whenever the dialog opens with one
+  useEffect(() => {
+    if (isOpen) {
+      setScope(selectedSummaries.length > 0 ? 'selected' : 'filtered');
+    }
+  }, [isOpen, selectedSummaries.length]);
+
+  const effectiveScope: ExportScope = selectedSummaries.length === 0 ? 'filtered' : scope;
+
+  const handleClose = () => {
+    if (isExporting) return;
+    setStatus(null);
+    setError(null);
+    setJournal(null);
+    onClose();
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    setJournal(null);
+
+    try {
+      let summaries = selectedSummaries;
+      if (effectiveScope === 'filtered') {
+        setStatus(hasMorePages ? 'Loading all matching transactions...' : null);
+        summaries = await loadFilteredSummaries();
+      }
+
+      if (summaries.length === 0) {
+        setError('There are no transactions to export.');
+        return;
+      }
+
+      const date = new Date().toISOString().split('T')[0];
+
+      if (kind === 'transactions') {
+        downloadFile(buildTransactionSummaryCsv(summaries), `transactions-${storeId}-${date}.csv`);
+        setStatus(`Exported ${summaries.length} transactions.`);
+        return;
+      }
+
+      const details = await fetchTransactionDetails(
+        storeId,
+        summaries.map(summary => summary.trans_id),
+        ({ loaded, total }) => setStatus(`Loading transaction details ${loaded} / ${total}...`)
+      );
+
+      if (kind === 'line_items') {
+        downloadFile(buildLineItemCsv(details), `transaction-lines-${storeId}-${date}.csv`);
+        setStatus(`Exported line items from ${details.length} transactions.`);
+      } else {
+        const entries = buildDailyJournal(details);
+        downloadFile(buildJournalCsv(entries), `sales-journal-${storeId}-${date}.csv`);
+        setJournal(entries);
+        setStatus(`Generated ${entries.length} daily journal ${entries.length === 1 ? 'entry' : 'entries'}.`);
+      }
+    } catch (err) {
+      console.error('❌ Transaction export failed:', err);
+      setError(err instanceof Error ? err.message : 'Export failed');
+      setStatus(null);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const footer = (
+    <div className="flex justify-end gap-3">
+      <Button variant="outline" onClick={handleClose} disabled={isExporting}>
+        Close
+      </Button>
+      <Button onClick={handleExport} disabled={isExporting} className="flex items-center gap-2">
+        <ArrowDownTrayIcon className="h-4 w-4" />
+        {isExporting ? 'Exporting...' : 'Export CSV'}
+      </Button>
+    </div>
+  );
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Export Transactions" size="lg" footer={footer}>
+      <div className="space-y-5">
+        {error && (
+          <Alert variant="error" onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Transactions</label>
+          <div className="space-y-2">
+            <label className={`flex items-center gap-3 text-sm ${selectedSummaries.length === 0 ? 'text-gray-400' : 'text-gray-700'}`}>
+              <input
+                type="radio"
+                checked={effectiveScope === 'selected'}
+                disabled={selectedSummaries.length === 0 || isExporting}
+                onChange={() => setScope('selected')}
+                className="text-blue-600 focus:ring-blue-500"
+              />
+              Selected transactions ({selectedSummaries.length})
+            </label>
+            <label className="flex items-center gap-3 text-sm text-gray-700">
+              <input
+                type="radio"
+                checked={effectiveScope === 'filtered'}
+                disabled={isExporting}
+                onChange={() => setScope('filtered')}
+                className="text-blue-600 focus:ring-blue-500"
+              />
+              All transactions matching the current filters ({filteredCount}{hasMorePages ? '+' : ''})
+            </label>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Export</label>
+          <div className="grid grid-cols-3 gap-3">
+            {EXPORT_KINDS.map(option => {
+              const allowed = option.id === 'journal' ? canExportJournal : canExportSales;
+              return (
+                <button
+                  key={option.id}
+                  type="button"
+                  disabled={!allowed || isExporting}
+                  onClick={() => setKind(option.id)}
+                  className={`rounded-lg border px-3 py-3 text-left transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                    kind === option.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-gray-300'
+                  }`}
+                >
+                  <div className="text-sm font-semibold text-gray-900">{option.label}</div>
+                  <div className="text-xs text-gray-500 mt-1">{option.description}</div>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        {status && <div className="text-sm text-gray-600">{status}</div>}
+
+        {journal && journal.length > 0 && (
+          <div className="border border-gray-200 rounded-lg overflow-hidden">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Business Date</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Transactions</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Debits</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Credits</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {journal.map(entry => (
+                  <tr key={`${entry.biz_date}-${entry.currency}`}>
+                    <td className="px-4 py-2 text-gray-900">{entry.biz_date}</td>
+                    <td className="px-4 py-2 text-right text-gray-700">{entry.transaction_count}</td>
+                    <td className="px-4 py-2 text-right text-gray-700">
+                      {formattingService.formatCurrency(fromScaledInt(entry.total_debit), { currency: entry.currency })}
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-700">
+                      {formattingService.formatCurrency(fromScaledInt(entry.total_credit), { currency: entry.currency })}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default TransactionExportModal;
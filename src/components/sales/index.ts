@@ -0,0 +1 @@
+export { default as TransactionExportModal } from './TransactionExportModal';
@@ -0,0 +1,157 @@
+import React, { useMemo } from 'react';
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import {
+  getShiftHours,
+  getShiftWindow,
+  getStoreTimingForDate,
+  getUserDisplayName,
+  minutesToTime,
+  parseTimingRange
+} from '../../services/schedule';
+import type { ScheduleConflict, Shift, ShiftTemplate } from '../../services/schedule';
+import type { StoreTimings } from '../../services/types/store.types';
+import type { StoreUser } from '../../services/types/user.types';
+import { formatHours, getShiftColor } from './shiftStyles';
+
+interface DayShiftTimelineProps {
+  date: string;
+  users: StoreUser[];
+  shifts: Shift[];
+  templates: ShiftTemplate[];
+  conflicts: ScheduleConflict[];
+  storeTimings?: StoreTimings | null;
+  onCellClick?: (userId: string, date: string) => void;
+  onShiftClick?: (shift: Shift) => void;
+}
+
+const DEFAULT_START = 6 * 60;
+const DEFAULT_END = 24 * 60;
+
+const DayShiftTimeline: React.FC<DayShiftTimelineProps> = ({
+  date,
+  users,
+  shifts,
+  templates,
+  conflicts,
+  storeTimings,
+  onCellClick,
+  onShiftClick
+}) => {
+  const dayShifts = useMemo(() => shifts.filter(shift => shift.date === date), [shifts, date]);
+  const storeHours = useMemo(
+    () => (storeTimings ? parseTimingRange(getStoreTimingForDate(storeTimings, date)) : null),
+    [storeTimings, date]
+  );
+  const conflictIds = useMemo(() => new Set(conflicts.map(conflict => conflict.shift_id)), [conflicts]);
+
+  // Widen the visible range to fit opening hours and overnight shifts
+  const { rangeStart, rangeEnd } = useMemo(() => {
+    let start = storeHours ? Math.min(DEFAULT_START, storeHours.start) : DEFAULT_START;
+    let end = storeHours ? Math.max(DEFAULT_END, storeHours.end) : DEFAULT_END;
+    dayShifts.forEach(shift => {
+      const window = getShiftWindow(shift);
+      start = Math.min(start, window.start);
+      end = Math.max(end, window.end);
+    });
+    return { rangeStart: Math.floor(start / 60) * 60, rangeEnd: Math.ceil(end / 60) * 60 };
+  }, [dayShifts, storeHours]);
+
+  const span = rangeEnd - rangeStart;
+  const percent = (minutes: number) => `${((minutes - rangeStart) / span) * 100}%`;
+  const hourMarks = Array.from({ length: span / 60 + 1 }, (_, index) => rangeStart + index * 60);
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 overflow-x-auto">
+      <div className="min-w-[900px]">
+        {/* Hour ruler */}
+        <div className="flex border-b border-gray-200 bg-gray-50">
+          <div className="w-48 flex-shrink-0 px-3 py-2 text-xs font-medium text-gray-500 uppercase border-r border-gray-200">
+            Employee
+          </div>
+          <div className="relative flex-1 h-8">
+            {hourMarks.slice(0, -1).map(minutes => (
+              <div
+                key={minutes}
+                className="absolute top-0 h-full border-l border-gray-200 pl-1 text-[11px] text-gray-500"
+                style={{ left: percent(minutes) }}
+              >
+                {minutesToTime(minutes)}
+              </div>
+            ))}
+          </div>
+          <div className="w-16 flex-shrink-0 px-2 py-2 text-center text-xs font-medium text-gray-500 uppercase">
+            Hours
+          </div>
+        </div>
+
+        {users.map(user => {
+          const userShifts = dayShifts.filter(shift => shift.user_id === user.user_id);
+          const hours = userShifts
+            .filter(shift => shift.status !== 'cancelled')
+            .reduce((total, shift) => total + getShiftHours(shift), 0);
+
+          return (
+            <div key={user.user_id} className="flex border-b border-gray-100">
+              <div className="w-48 flex-shrink-0 px-3 py-2 border-r border-gray-200">
+                <div className="text-sm font-medium text-gray-900 truncate">{getUserDisplayName(user)}</div>
+                <div className="text-xs text-gray-500 truncate">{user.role_name || user.role}</div>
+              </div>
+              <div
+                className={`relative flex-1 h-14 ${onCellClick ? 'cursor-pointer hover:bg-gray-50' : ''}`}
+                onClick={() => onCellClick?.(user.user_id, date)}
+              >
+                {/* Closed hours are shaded */}
+                {storeHours && (
+                  <>
+                    <div className="absolute inset-y-0 bg-gray-100" style={{ left: 0, width: percent(storeHours.start) }} />
+                    <div className="absolute inset-y-0 right-0 bg-gray-100" style={{ left: percent(storeHours.end) }} />
+                  </>
+                )}
+                {hourMarks.slice(1, -1).map(minutes => (
+                  <div key={minutes} className="absolute inset-y-0 border-l border-gray-100" style={{ left: percent(minutes) }} />
+                ))}
+                {userShifts.map(shift => {
+                  const window = getShiftWindow(shift);
+                  const hasConflict = conflictIds.has(shift.shift_id);
+                  return (
+                    <button
+                      key={shift.shift_id}
+                      type="button"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onShiftClick?.(shift);
+                      }}
+                      className={`absolute top-2 bottom-2 rounded px-2 text-left text-xs text-white shadow-sm overflow-hidden ${
+                        shift.status === 'cancelled' ? 'opacity-40 line-through' : ''
+                      } ${hasConflict ? 'ring-2 ring-red-500' : ''}`}
+                      style={{
+                        left: percent(window.start),
+                        width: `${((window.end - window.start) / span) * 100}%`,
+                        backgroundColor: getShiftColor(shift, templates)
+                      }}
+                    >
+                      <span className="flex items-center gap-1 font-medium whitespace-nowrap">
+                        {hasConflict && <ExclamationTriangleIcon className="h-3.5 w-3.5" />}
+                        {shift.start_time}-{shift.end_time}
+                        {shift.role && <span className="opacity-90">· {shift.role}</span>}
+                      </span>
+                    </button>
+                  );
+                })}
+              </div>
+              <div className="w-16 flex-shrink-0 px-2 py-2 text-center text-sm font-medium text-gray-700">
+                {formatHours(hours)}
+              </div>
+            </div>
+          );
+        })}
+
+        {users.length === 0 && (
+          <div className="px-4 py-10 text-center text-gray-500">No employees to schedule</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DayShiftTimeline;
@@ -0,0 +1,303 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { Modal, Button } from '../ui';
+import {
+  detectScheduleConflicts,
+  getShiftHours,
+  getUserDisplayName
+} from '../../services/schedule';
+import type { CreateShiftRequest, Shift, ShiftStatus, ShiftTemplate } from '../../services/schedule';
+import type { StoreTimings } from '../../services/types/store.types';
+import type { StoreUser } from '../../services/types/user.types';
+import { SHIFT_STATUS_LABELS, formatHours } from './shiftStyles';
+
+interface ShiftFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Shift being edited; omit to create one */
+  shift?: Shift | null;
+  defaultUserId?: string;
+  defaultDate?: string;
+  users: StoreUser[];
+  templates: ShiftTemplate[];
+  /** Other shifts, used to warn about conflicts before saving */
+  shifts: Shift[];
+  storeTimings?: StoreTimings | null;
+  onSave: (data: CreateShiftRequest, shiftId?: string) => Promise<void>;
+  onDelete?: (shift: Shift) => Promise<void>;
+}
+
+type ShiftForm = Required<Pick<CreateShiftRequest, 'user_id' | 'date' | 'start_time' | 'end_time' | 'break_minutes' | 'status'>> & {
+  role: string;
+  notes: string;
+  template_id?: string;
+};
+
+const inputClass = 'w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+const labelClass = 'block text-sm font-medium text-gray-700 mb-1';
+
+const buildForm = (shift: Shift | null | undefined, userId = '', date = ''): ShiftForm => ({
+  user_id: shift?.user_id || userId,
+  date: shift?.date || date,
+  start_time: shift?.start_time || '09:00',
+  end_time: shift?.end_time || '17:00',
+  break_minutes: shift?.break_minutes ?? 30,
+  status: shift?.status || 'scheduled',
+  role: shift?.role || '',
+  notes: shift?.notes || '',
+  template_id: shift?.template_id
+});
+
+const ShiftFormModal: React.FC<ShiftFormModalProps> = ({
+  isOpen,
+  onClose,
+  shift,
+  defaultUserId,
+  defaultDate,
+  users,
+  templates,
+  shifts,
+  storeTimings,
+  onSave,
+  onDelete
+}) => {
+  const [form, setForm] = useState<ShiftForm>(() => buildForm(shift, defaultUserId, defaultDate));
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) setForm(buildForm(shift, defaultUserId, defaultDate));
+  }, [isOpen, shift, defaultUserId, defaultDate]);
+
+  const update = (changes: Partial<ShiftForm>) => setForm(prev => ({ ...prev, ...changes }));
+
+  const applyTemplate = (templateId: string) => {
+    const template = templates.find(item => item.template_id === templateId);
+    if (!template) {
+      update({ template_id: undefined });
+      return;
+    }
+    update({
+      template_id: template.template_id,
+      start_time: template.start_time,
+      end_time: template.end_time,
+      break_minutes: template.break_minutes,
+      role: template.role || form.role
+    });
+  };
+
+  // Check the draft against the person's other shifts as it is edited
+  const conflicts = useMemo(() => {
+    if (!form.user_id || !form.date) return [];
+    const draft: Shift = {
+      shift_id: shift?.shift_id || '__draft__',
+      store_id: shift?.store_id || '',
+      created_at: '',
+      updated_at: '',
+      ...form
+    };
+    const others = shifts.filter(item => item.user_id === form.user_id && item.shift_id !== draft.shift_id);
+    return detectScheduleConflicts([...others, draft], users, storeTimings)
+      .filter(conflict => conflict.shift_id === draft.shift_id);
+  }, [form, shift, shifts, users, storeTimings]);
+
+  const isValid = form.user_id && form.date && form.start_time && form.end_time && form.start_time !== form.end_time;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+
+    const user = users.find(item => item.user_id === form.user_id);
+    setSaving(true);
+    try {
+      await onSave({
+        ...form,
+        role: form.role || undefined,
+        notes: form.notes || undefined,
+        employee_name: user ? getUserDisplayName(user) : shift?.employee_name
+      }, shift?.shift_id);
+      onClose();
+    } catch (error) {
+      console.error('Failed to save shift:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!shift || !onDelete) return;
+    setSaving(true);
+    try {
+      await onDelete(shift);
+      onClose();
+    } catch (error) {
+      console.error('Failed to delete shift:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={shift ? 'Edit Shift' : 'Schedule Shift'}
+      size="md"
+      footer={
+        <div className="flex w-full items-center justify-between">
+          <div>
+            {shift && onDelete && (
+              <Button type="button" variant="destructiveReverse" onClick={handleDelete} disabled={saving}>
+                Delete
+              </Button>
+            )}
+          </div>
+          <div className="flex space-x-3">
+            <Button type="button" variant="outline" onClick={onClose} disabled={saving}>
+              Cancel
+            </Button>
+            <Button type="submit" form="shift-form" isLoading={saving} disabled={!isValid}>
+              {shift ? 'Save Shift' : 'Add Shift'}
+            </Button>
+          </div>
+        </div>
+      }
+    >
+      <form id="shift-form" onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className={labelClass}>Employee</label>
+            <select
+              value={form.user_id}
+              onChange={(e) => update({ user_id: e.target.value })}
+              className={inputClass}
+              required
+            >
+              <option value="">Select employee...</option>
+              {users.map(user => (
+                <option key={user.user_id} value={user.user_id}>{getUserDisplayName(user)}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Date</label>
+            <input
+              type="date"
+              value={form.date}
+              onChange={(e) => update({ date: e.target.value })}
+              className={inputClass}
+              required
+            />
+          </div>
+        </div>
+
+        {templates.length > 0 && (
+          <div>
+            <label className={labelClass}>Template</label>
+            <select
+              value={form.template_id || ''}
+              onChange={(e) => applyTemplate(e.target.value)}
+              className={inputClass}
+            >
+              <option value="">Custom times</option>
+              {templates.map(template => (
+                <option key={template.template_id} value={template.template_id}>
+                  {template.name} ({template.start_time}-{template.end_time})
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <label className={labelClass}>Start</label>
+            <input
+              type="time"
+              value={form.start_time}
+              onChange={(e) => update({ start_time: e.target.value, template_id: undefined })}
+              className={inputClass}
+              required
+            />
+          </div>
+          <div>
+            <label className={labelClass}>End</label>
+            <input
+              type="time"
+              value={form.end_time}
+              onChange={(e) => update({ end_time: e.target.value, template_id: undefined })}
+              className={inputClass}
+              required
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Break (min)</label>
+            <input
+              type="number"
+              min={0}
+              step={5}
+              value={form.break_minutes}
+              onChange={(e) => update({ break_minutes: Math.max(0, Number(e.target.value) || 0) })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">
+          {formatHours(getShiftHours(form))} paid
+          {form.end_time <= form.start_time && form.start_time !== form.end_time && ' · ends the next day'}
+        </p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className={labelClass}>Role / Position</label>
+            <input
+              type="text"
+              value={form.role}
+              onChange={(e) => update({ role: e.target.value })}
+              placeholder="e.g. Cashier, Server"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Status</label>
+            <select
+              value={form.status}
+              onChange={(e) => update({ status: e.target.value as ShiftStatus })}
+              className={inputClass}
+            >
+              {(Object.keys(SHIFT_STATUS_LABELS) as ShiftStatus[]).map(status => (
+                <option key={status} value={status}>{SHIFT_STATUS_LABELS[status]}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <label className={labelClass}>Notes</label>
+          <textarea
+            value={form.notes}
+            onChange={(e) => update({ notes: e.target.value })}
+            rows={2}
+            className={inputClass}
+          />
+        </div>
+
+        {conflicts.length > 0 && (
+          <div className="rounded-md border border-yellow-200 bg-yellow-50 p-3">
+            <div className="flex items-center text-sm font-medium text-yellow-800">
+              <ExclamationTriangleIcon className="h-4 w-4 mr-1" />
+              Scheduling conflicts
+            </div>
+            <ul className="mt-1 list-disc pl-5 text-sm text-yellow-700">
+              {conflicts.map((conflict, index) => (
+                <li key={index}>{conflict.message}</li>
+              ))}
+            </ul>
+            <p className="mt-1 text-xs text-yellow-700">You can still save the shift.</p>
+          </div>
+        )}
+      </form>
+    </Modal>
+  );
+};
+
+export default ShiftFormModal;
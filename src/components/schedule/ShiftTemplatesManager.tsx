@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { PencilIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { Button } from '../ui';
+import { getShiftHours } from '../../services/schedule';
+import type { CreateShiftTemplateRequest, ShiftTemplate } from '../../services/schedule';
+import { formatHours } from './shiftStyles';
+
+interface ShiftTemplatesManagerProps {
+  templates: ShiftTemplate[];
+  onCreate: (data: CreateShiftTemplateRequest) => Promise<void>;
+  onUpdate: (templateId: string, data: CreateShiftTemplateRequest) => Promise<void>;
+  onDelete: (template: ShiftTemplate) => void;
+}
+
+const TEMPLATE_COLORS = ['#2563eb', '#16a34a', '#9333ea', '#ea580c', '#0891b2', '#db2777'];
+
+const EMPTY_TEMPLATE: CreateShiftTemplateRequest = {
+  name: '',
+  start_time: '09:00',
+  end_time: '17:00',
+  break_minutes: 30,
+  role: '',
+  color: TEMPLATE_COLORS[0]
+};
+
+const inputClass = 'w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+const labelClass = 'block text-xs font-medium text-gray-600 mb-1';
+
+const ShiftTemplatesManager: React.FC<ShiftTemplatesManagerProps> = ({ templates, onCreate, onUpdate, onDelete }) => {
+  // null: no form, '' : new template, otherwise the template being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<CreateShiftTemplateRequest>(EMPTY_TEMPLATE);
+  const [saving, setSaving] = useState(false);
+
+  const startEdit = (template?: ShiftTemplate) => {
+    setEditingId(template?.template_id ?? '');
+    setForm(template ? {
+      name: template.name,
+      start_time: template.start_time,
+      end_time: template.end_time,
+      break_minutes: template.break_minutes,
+      role: template.role || '',
+      color: template.color || TEMPLATE_COLORS[0]
+    } : EMPTY_TEMPLATE);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim() || editingId === null) return;
+
+    const data = { ...form, name: form.name.trim(), role: form.role || undefined };
+    setSaving(true);
+    try {
+      if (editingId) {
+        await onUpdate(editingId, data);
+      } else {
+        await onCreate(data);
+      }
+      setEditingId(null);
+    } catch (error) {
+      console.error('Failed to save shift template:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500">
+          Templates are reusable shifts. Pick one in the planner to fill cells with a single click.
+        </p>
+        {editingId === null && (
+          <Button size="sm" onClick={() => startEdit()} className="flex items-center space-x-1">
+            <PlusIcon className="h-4 w-4" />
+            <span>New Template</span>
+          </Button>
+        )}
+      </div>
+
+      {editingId !== null && (
+        <form onSubmit={handleSubmit} className="bg-white rounded-lg border border-gray-200 p-4 space-y-3">
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+            <div className="col-span-2">
+              <label className={labelClass}>Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. Morning, Close"
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Start</label>
+              <input
+                type="time"
+                value={form.start_time}
+                onChange={(e) => setForm({ ...form, start_time: e.target.value })}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label className={labelClass}>End</label>
+              <input
+                type="time"
+                value={form.end_time}
+                onChange={(e) => setForm({ ...form, end_time: e.target.value })}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Break (min)</label>
+              <input
+                type="number"
+                min={0}
+                step={5}
+                value={form.break_minutes ?? 0}
+                onChange={(e) => setForm({ ...form, break_minutes: Math.max(0, Number(e.target.value) || 0) })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Role</label>
+              <input
+                type="text"
+                value={form.role || ''}
+                onChange={(e) => setForm({ ...form, role: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <span className="text-xs font-medium text-gray-600">Color</span>
+              {TEMPLATE_COLORS.map(color => (
+                <button
+                  key={color}
+                  type="button"
+                  onClick={() => setForm({ ...form, color })}
+                  className={`h-6 w-6 rounded-full ${form.color === color ? 'ring-2 ring-offset-2 ring-gray-400' : ''}`}
+                  style={{ backgroundColor: color }}
+                  aria-label={color}
+                />
+              ))}
+            </div>
+            <div className="flex space-x-2">
+              <Button type="button" size="sm" variant="outline" onClick={() => setEditingId(null)} disabled={saving}>
+                Cancel
+              </Button>
+              <Button type="submit" size="sm" isLoading={saving} disabled={!form.name.trim()}>
+                {editingId ? 'Save Template' : 'Create Template'}
+              </Button>
+            </div>
+          </div>
+        </form>
+      )}
+
+      {templates.length === 0 && editingId === null ? (
+        <div className="bg-white rounded-lg border border-dashed border-gray-300 p-8 text-center text-sm text-gray-500">
+          No shift templates yet
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {templates.map(template => (
+            <div key={template.template_id} className="bg-white rounded-lg border border-gray-200 p-4 flex items-start justify-between">
+              <div className="flex items-start space-x-3">
+                <span className="mt-1 h-3 w-3 rounded-full flex-shrink-0" style={{ backgroundColor: template.color || '#6b7280' }} />
+                <div>
+                  <div className="font-medium text-gray-900">{template.name}</div>
+                  <div className="text-sm text-gray-600">
+                    {template.start_time}-{template.end_time} · {formatHours(getShiftHours(template))}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {template.break_minutes} min break{template.role ? ` · ${template.role}` : ''}
+                  </div>
+                </div>
+              </div>
+              <div className="flex space-x-1">
+                <button
+                  type="button"
+                  onClick={() => startEdit(template)}
+                  className="rounded p-1 text-gray-500 hover:bg-gray-100"
+                  title="Edit"
+                >
+                  <PencilIcon className="h-4 w-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onDelete(template)}
+                  className="rounded p-1 text-red-500 hover:bg-red-50"
+                  title="Delete"
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShiftTemplatesManager;
@@ -0,0 +1,193 @@
+import React, { useMemo } from 'react';
+import { ExclamationTriangleIcon, PlusIcon } from '@heroicons/react/24/outline';
+import {
+  getShiftHours,
+  getStoreTimingForDate,
+  getUserDisplayName,
+  parseDateKey,
+  toDateKey
+} from '../../services/schedule';
+import type { DailyLaborSummary, ScheduleConflict, Shift, ShiftTemplate } from '../../services/schedule';
+import type { StoreTimings } from '../../services/types/store.types';
+import type { StoreUser } from '../../services/types/user.types';
+import { formatHours, getShiftColor } from './shiftStyles';
+
+interface WeeklyShiftPlannerProps {
+  weekDates: string[];
+  users: StoreUser[];
+  shifts: Shift[];
+  templates: ShiftTemplate[];
+  conflicts: ScheduleConflict[];
+  labor: DailyLaborSummary[];
+  storeTimings?: StoreTimings | null;
+  onCellClick?: (userId: string, date: string) => void;
+  onShiftClick?: (shift: Shift) => void;
+}
+
+const WeeklyShiftPlanner: React.FC<WeeklyShiftPlannerProps> = ({
+  weekDates,
+  users,
+  shifts,
+  templates,
+  conflicts,
+  labor,
+  storeTimings,
+  onCellClick,
+  onShiftClick
+}) => {
+  const today = toDateKey(new Date());
+
+  const conflictsByShift = useMemo(() => {
+    const map = new Map<string, ScheduleConflict[]>();
+    conflicts.forEach(conflict => {
+      map.set(conflict.shift_id, [...(map.get(conflict.shift_id) || []), conflict]);
+    });
+    return map;
+  }, [conflicts]);
+
+  const shiftsByCell = useMemo(() => {
+    const map = new Map<string, Shift[]>();
+    shifts.forEach(shift => {
+      const key = `${shift.user_id}|${shift.date}`;
+      map.set(key, [...(map.get(key) || []), shift]);
+    });
+    map.forEach(list => list.sort((a, b) => a.start_time.localeCompare(b.start_time)));
+    return map;
+  }, [shifts]);
+
+  const getUserWeekHours = (userId: string) => shifts
+    .filter(shift => shift.user_id === userId && shift.status !== 'cancelled' && weekDates.includes(shift.date))
+    .reduce((total, shift) => total + getShiftHours(shift), 0);
+
+  const getStoreHoursLabel = (date: string) => {
+    if (!storeTimings) return null;
+    const timing = getStoreTimingForDate(storeTimings, date);
+    if (timing === undefined) return null;
+    return !timing || timing.toLowerCase() === 'closed' ? 'Closed' : timing;
+  };
+
+  const weekTotal = labor.reduce((total, day) => total + day.hours, 0);
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 overflow-x-auto">
+      <table className="min-w-full border-collapse text-sm">
+        <thead>
+          <tr className="bg-gray-50">
+            <th className="sticky left-0 z-10 bg-gray-50 w-48 px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase border-b border-r border-gray-200">
+              Employee
+            </th>
+            {weekDates.map(date => {
+              const day = parseDateKey(date);
+              const hoursLabel = getStoreHoursLabel(date);
+              return (
+                <th
+                  key={date}
+                  className={`min-w-[130px] px-2 py-2 text-center border-b border-r border-gray-200 ${
+                    date === today ? 'bg-blue-50' : ''
+                  }`}
+                >
+                  <div className="text-xs font-medium text-gray-500 uppercase">
+                    {day.toLocaleDateString('en-US', { weekday: 'short' })}
+                  </div>
+                  <div className={`text-base font-semibold ${date === today ? 'text-blue-600' : 'text-gray-900'}`}>
+                    {day.getDate()}
+                  </div>
+                  {hoursLabel && (
+                    <div className={`text-[11px] ${hoursLabel === 'Closed' ? 'text-red-500' : 'text-gray-400'}`}>
+                      {hoursLabel}
+                    </div>
+                  )}
+                </th>
+              );
+            })}
+            <th className="w-20 px-2 py-2 text-center text-xs font-medium text-gray-500 uppercase border-b border-gray-200">
+              Hours
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {users.length === 0 && (
+            <tr>
+              <td colSpan={weekDates.length + 2} className="px-4 py-10 text-center text-gray-500">
+                No employees to schedule
+              </td>
+            </tr>
+          )}
+          {users.map(user => (
+            <tr key={user.user_id} className="align-top">
+              <td className="sticky left-0 z-10 bg-white px-3 py-2 border-b border-r border-gray-200">
+                <div className="font-medium text-gray-900 truncate">{getUserDisplayName(user)}</div>
+                <div className="text-xs text-gray-500 truncate">{user.role_name || user.role}</div>
+              </td>
+              {weekDates.map(date => {
+                const cellShifts = shiftsByCell.get(`${user.user_id}|${date}`) || [];
+                return (
+                  <td
+                    key={date}
+                    className={`group px-1.5 py-1.5 border-b border-r border-gray-200 ${
+                      date === today ? 'bg-blue-50/40' : ''
+                    } ${onCellClick ? 'cursor-pointer hover:bg-gray-50' : ''}`}
+                    onClick={() => onCellClick?.(user.user_id, date)}
+                  >
+                    <div className="space-y-1 min-h-[44px]">
+                      {cellShifts.map(shift => {
+                        const shiftConflicts = conflictsByShift.get(shift.shift_id) || [];
+                        return (
+                          <button
+                            key={shift.shift_id}
+                            type="button"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onShiftClick?.(shift);
+                            }}
+                            title={shiftConflicts.map(conflict => conflict.message).join('\n') || undefined}
+                            className={`w-full rounded px-2 py-1 text-left text-xs text-white shadow-sm hover:shadow ${
+                              shift.status === 'cancelled' ? 'opacity-40 line-through' : ''
+                            } ${shiftConflicts.length > 0 ? 'ring-2 ring-red-500 ring-offset-1' : ''}`}
+                            style={{ backgroundColor: getShiftColor(shift, templates) }}
+                          >
+                            <div className="flex items-center justify-between gap-1 font-medium">
+                              <span>{shift.start_time}-{shift.end_time}</span>
+                              {shiftConflicts.length > 0 && <ExclamationTriangleIcon className="h-3.5 w-3.5 flex-shrink-0" />}
+                            </div>
+                            {shift.role && <div className="truncate opacity-90">{shift.role}</div>}
+                          </button>
+                        );
+                      })}
+                      {onCellClick && cellShifts.length === 0 && (
+                        <div className="flex h-[44px] items-center justify-center text-gray-300 opacity-0 group-hover:opacity-100">
+                          <PlusIcon className="h-4 w-4" />
+                        </div>
+                      )}
+                    </div>
+                  </td>
+                );
+              })}
+              <td className="px-2 py-2 text-center font-medium text-gray-700 border-b border-gray-200">
+                {formatHours(getUserWeekHours(user.user_id))}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr className="bg-gray-50">
+            <td className="sticky left-0 z-10 bg-gray-50 px-3 py-2 text-xs font-medium text-gray-500 uppercase border-r border-gray-200">
+              Projected labor
+            </td>
+            {labor.map(day => (
+              <td key={day.date} className="px-2 py-2 text-center border-r border-gray-200">
+                <div className="font-semibold text-gray-900">{formatHours(day.hours)}</div>
+                <div className="text-[11px] text-gray-500">
+                  {day.employee_count} staff · {day.shift_count} shifts
+                </div>
+              </td>
+            ))}
+            <td className="px-2 py-2 text-center font-semibold text-gray-900">{formatHours(weekTotal)}</td>
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+};
+
+export default WeeklyShiftPlanner;
@@ -0,0 +1,5 @@
+export { default as WeeklyShiftPlanner } from './WeeklyShiftPlanner';
+export { default as DayShiftTimeline } from './DayShiftTimeline';
+export { default as ShiftFormModal } from './ShiftFormModal';
+export { default as ShiftTemplatesManager } from './ShiftTemplatesManager';
+export { SHIFT_STATUS_LABELS, getShiftColor, formatHours } from './shiftStyles';
@@ -0,0 +1,24 @@
+import type { Shift, ShiftStatus, ShiftTemplate } from '../../services/schedule';
+
+const ROLE_PALETTE = ['#2563eb', '#16a34a', '#9333ea', '#ea580c', '#0891b2', '#db2777', '#65a30d', '#4f46e5'];
+
+export const SHIFT_STATUS_LABELS: Record<ShiftStatus, string> = {
+  scheduled: 'Scheduled',
+  confirmed: 'Confirmed',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+/** Template colour when the shift came from one, otherwise a stable colour per role */
+export function getShiftColor(shift: Shift, templates: ShiftTemplate[]): string {
+  const template = shift.template_id ? templates.find(item => item.template_id === shift.template_id) : undefined;
+  if (template?.color) return template.color;
+
+  const key = shift.role || shift.user_id;
+  let hash = 0;
+  for (let i = 0; i < key.length; i++) hash = (hash * 31 + key.charCodeAt(i)) | 0;
+  return ROLE_PALETTE[Math.abs(hash) % ROLE_PALETTE.length];
+}
+
+export const formatHours = (hours: number) => `${Number.isInteger(hours) ? hours : hours.toFixed(1)}h`;
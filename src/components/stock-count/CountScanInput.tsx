@@ -0,0 +1,75 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { QrCodeIcon } from '@heroicons/react/24/outline';
+import { parseCountEntry } from '../../services/stock-count';
+import type { ParsedCountEntry } from '../../services/stock-count';
+import type { ScannerConfig } from '../../types/hardware.types';
+
+export interface ScanFeedback {
+  ok: boolean;
+  message: string;
+}
+
+interface CountScanInputProps {
+  scannerConfigs: ScannerConfig[];
+  /** Apply an entry and describe what happened */
+  onEntry: (entry: ParsedCountEntry) => ScanFeedback;
+  disabled?: boolean;
+}
+
+/**
+ * Single field that takes keyboard-wedge scans: each Enter is one entry and
+ * focus stays in the field so the next scan can follow straight away.
+ */
+const CountScanInput: React.FC<CountScanInputProps> = ({ scannerConfigs, onEntry, disabled = false }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [value, setValue] = useState('');
+  const [feedback, setFeedback] = useState<ScanFeedback | null>(null);
+
+  useEffect(() => {
+    if (!disabled) inputRef.current?.focus();
+  }, [disabled]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+
+    const entry = parseCountEntry(value, scannerConfigs);
+    setValue('');
+    if (!entry) return;
+
+    setFeedback(onEntry(entry));
+  };
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-4">
+      <label className="block text-sm font-medium text-gray-700 mb-1">Scan or type an item code</label>
+      <div className="relative">
+        <QrCodeIcon className="pointer-events-none absolute left-3 top-1/2 h-5 w-5 -translate-y-1/2 text-gray-400" />
+        <input
+          ref={inputRef}
+          type="text"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={handleKeyDown}
+          disabled={disabled}
+          autoComplete="off"
+          spellCheck={false}
+          placeholder="Scan a barcode, or enter 12*CODE to count twelve"
+          className="w-full rounded-md border border-gray-300 py-3 pl-10 pr-3 font-mono text-lg focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:bg-gray-50"
+        />
+      </div>
+      <div className="mt-2 flex items-center justify-between text-sm">
+        {feedback ? (
+          <span className={feedback.ok ? 'text-green-700' : 'text-red-600'}>{feedback.message}</span>
+        ) : (
+          <span className="text-gray-500">Each scan adds one unit to the item&apos;s count.</span>
+        )}
+        {scannerConfigs.some(config => config.prefix || config.suffix) && (
+          <span className="text-xs text-gray-400">Scanner prefix/suffix removed automatically</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CountScanInput;
@@ -0,0 +1,181 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Modal, Button, InputTextField, InputTextArea } from '../ui';
+import type { DropdownSearchOption } from '../ui/DropdownSearch';
+import { MERCH_LEVELS, buildCountLines, getMerchValues } from '../../services/stock-count';
+import type { CreateStockCountRequest, MerchLevel, StockCountScope } from '../../services/stock-count';
+import type { InventoryItem } from '../../services/inventory';
+
+interface NewStockCountModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  items: InventoryItem[];
+  categoryOptions: DropdownSearchOption[];
+  onCreate: (data: CreateStockCountRequest) => Promise<void>;
+}
+
+type ScopeType = 'all' | 'category' | 'merch';
+
+const inputClass = 'w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+const labelClass = 'block text-sm font-medium text-gray-700 mb-1';
+
+const defaultName = () => `Count ${new Date().toLocaleDateString()}`;
+
+const NewStockCountModal: React.FC<NewStockCountModalProps> = ({
+  isOpen,
+  onClose,
+  items,
+  categoryOptions,
+  onCreate
+}) => {
+  const [name, setName] = useState('');
+  const [scopeType, setScopeType] = useState<ScopeType>('all');
+  const [categoryId, setCategoryId] = useState('');
+  const [merchLevel, setMerchLevel] = useState<MerchLevel>(1);
+  const [merchValue, setMerchValue] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(defaultName());
+    setScopeType('all');
+    setCategoryId('');
+    setMerchLevel(1);
+    setMerchValue('');
+    setNotes('');
+  }, [isOpen]);
+
+  const merchValues = useMemo(() => getMerchValues(items, merchLevel), [items, merchLevel]);
+
+  const scope = useMemo<StockCountScope>(() => ({
+    category_id: scopeType === 'category' ? categoryId || null : null,
+    merch_level: scopeType === 'merch' ? merchLevel : null,
+    merch_value: scopeType === 'merch' ? merchValue || null : null
+  }), [scopeType, categoryId, merchLevel, merchValue]);
+  const lines = useMemo(() => buildCountLines(items, scope), [items, scope]);
+
+  const scopeComplete = scopeType === 'all'
+    || (scopeType === 'category' && Boolean(categoryId))
+    || (scopeType === 'merch' && Boolean(merchValue));
+  const isValid = Boolean(name.trim()) && scopeComplete && lines.length > 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+
+    setSaving(true);
+    try {
+      await onCreate({ name: name.trim(), scope, lines, notes: notes.trim() || undefined });
+      onClose();
+    } catch (error) {
+      console.error('Failed to start stock count:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const scopeButton = (type: ScopeType, label: string) => (
+    <button
+      type="button"
+      onClick={() => setScopeType(type)}
+      className={`flex-1 rounded-md border px-3 py-2 text-sm font-medium ${
+        scopeType === type ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Start Stock Count"
+      size="md"
+      footer={
+        <div className="flex w-full items-center justify-between">
+          <span className="text-sm text-gray-600">
+            {scopeComplete ? `${lines.length} item(s) to count` : 'Choose what to count'}
+          </span>
+          <div className="flex space-x-3">
+            <Button type="button" variant="outline" onClick={onClose} disabled={saving}>
+              Cancel
+            </Button>
+            <Button type="submit" form="stock-count-form" isLoading={saving} disabled={!isValid}>
+              Start Count
+            </Button>
+          </div>
+        </div>
+      }
+    >
+      <form id="stock-count-form" onSubmit={handleSubmit} className="space-y-4">
+        <InputTextField
+          label="Name"
+          value={name}
+          onChange={setName}
+          placeholder="e.g. Q3 full count"
+          required
+        />
+
+        <div>
+          <label className={labelClass}>Scope</label>
+          <div className="flex space-x-2">
+            {scopeButton('all', 'All items')}
+            {scopeButton('category', 'Category')}
+            {scopeButton('merch', 'Merch level')}
+          </div>
+        </div>
+
+        {scopeType === 'category' && (
+          <div>
+            <label className={labelClass}>Category</label>
+            <select value={categoryId} onChange={(e) => setCategoryId(e.target.value)} className={inputClass}>
+              <option value="">Select a category...</option>
+              {categoryOptions.map(option => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {scopeType === 'merch' && (
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className={labelClass}>Level</label>
+              <select
+                value={merchLevel}
+                onChange={(e) => { setMerchLevel(Number(e.target.value) as MerchLevel); setMerchValue(''); }}
+                className={inputClass}
+              >
+                {MERCH_LEVELS.map(level => (
+                  <option key={level} value={level}>Level {level}</option>
+                ))}
+              </select>
+            </div>
+            <div className="col-span-2">
+              <label className={labelClass}>Value</label>
+              <select value={merchValue} onChange={(e) => setMerchValue(e.target.value)} className={inputClass}>
+                <option value="">{merchValues.length > 0 ? 'Select a value...' : 'No items use this level'}</option>
+                {merchValues.map(value => (
+                  <option key={value} value={value}>{value}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        )}
+
+        {scopeComplete && lines.length === 0 && (
+          <p className="text-sm text-yellow-700">No tracked items match this scope.</p>
+        )}
+
+        <p className="text-xs text-gray-500">
+          Expected quantities are taken from current stock when the count starts. Sales made while counting are not subtracted.
+        </p>
+
+        <InputTextArea label="Notes" value={notes} onChange={setNotes} rows={2} />
+      </form>
+    </Modal>
+  );
+};
+
+export default NewStockCountModal;
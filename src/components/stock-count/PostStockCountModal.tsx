@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, Button } from '../ui';
+import { summarizeCount } from '../../services/stock-count';
+import type { PostStockCountRequest, StockCount, UncountedHandling } from '../../services/stock-count';
+import type { ReasonCode } from '../../types/reasonCode';
+
+interface PostStockCountModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  count: StockCount;
+  reasonCodes: ReasonCode[];
+  formatCurrency: (amount: number) => string;
+  onPost: (data: Omit<PostStockCountRequest, 'lines'>) => Promise<void>;
+}
+
+const inputClass = 'w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+const labelClass = 'block text-sm font-medium text-gray-700 mb-1';
+
+const PostStockCountModal: React.FC<PostStockCountModalProps> = ({
+  isOpen,
+  onClose,
+  count,
+  reasonCodes,
+  formatCurrency,
+  onPost
+}) => {
+  const [reasonCode, setReasonCode] = useState('');
+  const [comment, setComment] = useState('');
+  const [uncounted, setUncounted] = useState<UncountedHandling>('skip');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setReasonCode('');
+    setComment('');
+    setUncounted('skip');
+  }, [isOpen]);
+
+  const summary = summarizeCount(count.lines, uncounted);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reasonCode) return;
+
+    setSaving(true);
+    try {
+      await onPost({ reason_code: reasonCode, comment: comment.trim() || undefined, uncounted });
+      onClose();
+    } catch (error) {
+      console.error('Failed to post stock count:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Post ${count.count_number}`}
+      size="md"
+      footer={
+        <div className="flex justify-end space-x-3">
+          <Button type="button" variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button type="submit" form="post-count-form" isLoading={saving} disabled={!reasonCode}>
+            Post {summary.variances} Adjustment{summary.variances === 1 ? '' : 's'}
+          </Button>
+        </div>
+      }
+    >
+      <form id="post-count-form" onSubmit={handleSubmit} className="space-y-4">
+        <dl className="grid grid-cols-2 gap-3 rounded-lg bg-gray-50 p-4 text-sm">
+          <div>
+            <dt className="text-gray-500">Counted</dt>
+            <dd className="font-medium text-gray-900">{summary.counted} of {summary.total}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Lines with variance</dt>
+            <dd className="font-medium text-gray-900">{summary.variances}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Units over / short</dt>
+            <dd className="font-medium text-gray-900">
+              <span className="text-green-600">+{summary.units_over}</span> / <span className="text-red-600">-{summary.units_short}</span>
+            </dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Value impact</dt>
+            <dd className={`font-medium ${summary.value_impact < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+              {formatCurrency(summary.value_impact)}
+            </dd>
+          </div>
+        </dl>
+        {summary.uncosted > 0 && (
+          <p className="text-xs text-gray-500">{summary.uncosted} item(s) with a variance have no unit cost and are left out of the value impact.</p>
+        )}
+
+        {summary.uncounted > 0 && (
+          <div>
+            <label className={labelClass}>{summary.uncounted} item(s) were not counted</label>
+            <div className="space-y-2 text-sm">
+              <label className="flex items-center space-x-2">
+                <input type="radio" checked={uncounted === 'skip'} onChange={() => setUncounted('skip')} />
+                <span>Leave their stock unchanged</span>
+              </label>
+              <label className="flex items-center space-x-2">
+                <input type="radio" checked={uncounted === 'zero'} onChange={() => setUncounted('zero')} />
+                <span>Set their stock to zero</span>
+              </label>
+            </div>
+          </div>
+        )}
+
+        <div>
+          <label className={labelClass}>Reason</label>
+          <select value={reasonCode} onChange={(e) => setReasonCode(e.target.value)} className={inputClass} required>
+            <option value="">Select a reason...</option>
+            {reasonCodes.map(code => (
+              <option key={code.code} value={code.code}>{code.code} - {code.description}</option>
+            ))}
+          </select>
+          {reasonCodes.length === 0 && (
+            <p className="mt-1 text-xs text-gray-500">Add reason codes with the Inventory Adjustment category under Reason Codes.</p>
+          )}
+        </div>
+
+        <div>
+          <label className={labelClass}>Comment</label>
+          <textarea value={comment} onChange={(e) => setComment(e.target.value)} rows={2} className={inputClass} />
+        </div>
+
+        <p className="text-xs text-gray-500">
+          Each variance is posted as a count adjustment in one batch. The count cannot be edited afterwards.
+        </p>
+      </form>
+    </Modal>
+  );
+};
+
+export default PostStockCountModal;
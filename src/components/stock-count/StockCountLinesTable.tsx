@@ -0,0 +1,121 @@
+import React, { useEffect, useRef } from 'react';
+import { getLineVariance } from '../../services/stock-count';
+import type { StockCountLine, UncountedHandling } from '../../services/stock-count';
+import { formatQuantityDelta } from '../inventory/inventoryFormat';
+
+interface StockCountLinesTableProps {
+  lines: StockCountLine[];
+  /** Omit to show the lines read-only */
+  onCountChange?: (itemId: string, counted: number | null) => void;
+  /** Row to scroll to and highlight, e.g. the last scanned item */
+  highlightItemId?: string | null;
+  uncounted?: UncountedHandling;
+  formatCurrency: (amount: number) => string;
+}
+
+const inputClass = 'w-24 rounded-md border border-gray-300 px-2 py-1 text-right text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+const StockCountLinesTable: React.FC<StockCountLinesTableProps> = ({
+  lines,
+  onCountChange,
+  highlightItemId,
+  uncounted = 'skip',
+  formatCurrency
+}) => {
+  const tableRef = useRef<HTMLTableSectionElement>(null);
+
+  useEffect(() => {
+    if (!highlightItemId) return;
+    tableRef.current
+      ?.querySelector(`[data-item-id="${CSS.escape(highlightItemId)}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [highlightItemId]);
+
+  // Enter moves down a row so a paper count sheet can be typed in without the mouse
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, index: number) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+    const next = tableRef.current?.querySelector<HTMLInputElement>(`input[data-row="${index + (e.shiftKey ? -1 : 1)}"]`);
+    next?.focus();
+    next?.select();
+  };
+
+  return (
+    <div className="overflow-x-auto rounded-lg border border-gray-200 bg-white">
+      <table className="min-w-full divide-y divide-gray-200 text-sm">
+        <thead className="bg-gray-50">
+          <tr className="text-left text-xs font-medium uppercase text-gray-500">
+            <th className="px-3 py-2">Item</th>
+            <th className="px-3 py-2 text-right">Expected</th>
+            <th className="px-3 py-2 text-right">Counted</th>
+            <th className="px-3 py-2 text-right">Variance</th>
+            <th className="px-3 py-2 text-right">Unit Cost</th>
+            <th className="px-3 py-2 text-right">Value Impact</th>
+          </tr>
+        </thead>
+        <tbody ref={tableRef} className="divide-y divide-gray-100">
+          {lines.map((line, index) => {
+            const variance = getLineVariance(line, uncounted);
+            const rowClass = line.item_id === highlightItemId
+              ? 'bg-blue-50'
+              : variance ? 'bg-orange-50/50' : '';
+
+            return (
+              <tr key={line.item_id} data-item-id={line.item_id} className={rowClass}>
+                <td className="px-3 py-2">
+                  <div className="font-medium text-gray-900">{line.item_name}</div>
+                  <div className="font-mono text-xs text-gray-500">{line.item_id}</div>
+                </td>
+                <td className="px-3 py-2 text-right text-gray-700">{line.expected_quantity}</td>
+                <td className="px-3 py-2 text-right">
+                  {onCountChange ? (
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      data-row={index}
+                      value={line.counted_quantity ?? ''}
+                      onChange={(e) => onCountChange(line.item_id, e.target.value === '' ? null : Math.max(0, Number(e.target.value) || 0))}
+                      onKeyDown={(e) => handleKeyDown(e, index)}
+                      onFocus={(e) => e.target.select()}
+                      placeholder="—"
+                      className={inputClass}
+                    />
+                  ) : (
+                    <span className="text-gray-900">{line.counted_quantity ?? <span className="text-gray-300">—</span>}</span>
+                  )}
+                </td>
+                <td className="px-3 py-2 text-right">
+                  {variance === null ? (
+                    <span className="text-gray-300">—</span>
+                  ) : (
+                    <span className={`font-medium ${variance < 0 ? 'text-red-600' : variance > 0 ? 'text-green-600' : 'text-gray-500'}`}>
+                      {variance === 0 ? '0' : formatQuantityDelta(variance)}
+                    </span>
+                  )}
+                </td>
+                <td className="px-3 py-2 text-right text-gray-700">
+                  {line.unit_cost !== null ? formatCurrency(line.unit_cost) : <span className="text-gray-300">—</span>}
+                </td>
+                <td className="px-3 py-2 text-right">
+                  {variance && line.unit_cost !== null ? (
+                    <span className={variance < 0 ? 'text-red-600' : 'text-green-600'}>{formatCurrency(variance * line.unit_cost)}</span>
+                  ) : (
+                    <span className="text-gray-300">—</span>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+          {lines.length === 0 && (
+            <tr>
+              <td colSpan={6} className="px-3 py-8 text-center text-gray-500">No lines match this filter</td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default StockCountLinesTable;
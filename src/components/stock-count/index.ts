@@ -0,0 +1,6 @@
+export { default as NewStockCountModal } from './NewStockCountModal';
+export { default as CountScanInput } from './CountScanInput';
+export { default as StockCountLinesTable } from './StockCountLinesTable';
+export { default as PostStockCountModal } from './PostStockCountModal';
+export { STOCK_COUNT_STATUS_LABELS, STOCK_COUNT_STATUS_COLORS } from './stockCountFormat';
+export type { ScanFeedback } from './CountScanInput';
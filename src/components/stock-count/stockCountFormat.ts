@@ -0,0 +1,14 @@
+import type { BadgeProps } from '../ui';
+import type { StockCountStatus } from '../../services/stock-count';
+
+export const STOCK_COUNT_STATUS_LABELS: Record<StockCountStatus, string> = {
+  in_progress: 'In Progress',
+  posted: 'Posted',
+  cancelled: 'Cancelled'
+};
+
+export const STOCK_COUNT_STATUS_COLORS: Record<StockCountStatus, NonNullable<BadgeProps['color']>> = {
+  in_progress: 'blue',
+  posted: 'green',
+  cancelled: 'gray'
+};
@@ -0,0 +1,481 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ArrowPathIcon, EyeIcon, PencilSquareIcon } from '@heroicons/react/24/outline';
+import { Button } from '../ui';
+import type { Table, TableShape, TableStatus, TableStatusEntity, TableZone, UpdateTableRequest } from '../../types/table';
+import FloorPlanTable, { type FloorPlanHandle } from './FloorPlanTable';
+import {
+  DEFAULT_GRID_SIZE,
+  FLOOR_PLAN_HEIGHT,
+  FLOOR_PLAN_WIDTH,
+  GRID_SIZES,
+  TABLE_STATUS_COLORS,
+  angleFromCenter,
+  constrainLayout,
+  getTableLayout,
+  isSameLayout,
+  layoutToUpdateRequest,
+  snapLayout,
+  snapToGrid,
+  ROTATION_STEP,
+  type TableLayout
+} from './floorPlanUtils';
+
+export interface FloorPlanUpdate {
+  tableId: string;
+  changes: UpdateTableRequest;
+}
+
+interface FloorPlanEditorProps {
+  zones: TableZone[];
+  tables: Table[];
+  /** Current table statuses from getTableStatuses, used by the live view */
+  statuses: TableStatusEntity[];
+  onSave: (updates: FloorPlanUpdate[]) => Promise<void>;
+  onRefreshStatuses?: () => void;
+  onTableClick?: (table: Table) => void;
+  canEdit?: boolean;
+}
+
+interface Interaction {
+  handle: FloorPlanHandle;
+  tableId: string;
+  shape?: TableShape;
+  startX: number;
+  startY: number;
+  origin: TableLayout;
+}
+
+const NO_ZONE = '__none__';
+const inputClass = 'w-full rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+const labelClass = 'block text-xs font-medium text-gray-600 mb-1';
+
+const FloorPlanEditor: React.FC<FloorPlanEditorProps> = ({
+  zones,
+  tables,
+  statuses,
+  onSave,
+  onRefreshStatuses,
+  onTableClick,
+  canEdit = true
+}) => {
+  const { t } = useTranslation();
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const sortedZones = useMemo(
+    () => [...zones].sort((a, b) => (a.display_order ?? 0) - (b.display_order ?? 0)),
+    [zones]
+  );
+  const hasUnzonedTables = tables.some(table => !table.zone_id);
+
+  const [zoneId, setZoneId] = useState<string>('');
+  const [mode, setMode] = useState<'edit' | 'live'>(canEdit ? 'edit' : 'live');
+  const [drafts, setDrafts] = useState<Record<string, TableLayout>>({});
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [snapEnabled, setSnapEnabled] = useState(true);
+  const [gridSize, setGridSize] = useState(DEFAULT_GRID_SIZE);
+  const [interaction, setInteraction] = useState<Interaction | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Fall back to the first zone once zones load or the selected one disappears
+  const activeZoneId = zoneId && (zoneId === NO_ZONE || sortedZones.some(zone => zone.zone_id === zoneId))
+    ? zoneId
+    : sortedZones[0]?.zone_id || (hasUnzonedTables ? NO_ZONE : '');
+
+  const zoneTables = useMemo(
+    () => tables.filter(table => (activeZoneId === NO_ZONE ? !table.zone_id : table.zone_id === activeZoneId)),
+    [tables, activeZoneId]
+  );
+
+  const savedLayouts = useMemo(() => {
+    const layouts: Record<string, TableLayout> = {};
+    zoneTables.forEach((table, index) => {
+      layouts[table.table_id] = getTableLayout(table, index);
+    });
+    return layouts;
+  }, [zoneTables]);
+
+  const statusMap = useMemo(() => new Map(statuses.map(status => [status.tbl_id, status])), [statuses]);
+
+  const layoutOf = (tableId: string) => drafts[tableId] || savedLayouts[tableId];
+  const isEditing = mode === 'edit' && canEdit;
+  const selectedTable = isEditing ? zoneTables.find(table => table.table_id === selectedId) : undefined;
+  const selectedLayout = selectedTable ? layoutOf(selectedTable.table_id) : undefined;
+
+  // Drafts for tables that are no longer in the list would never be saved
+  const pendingIds = Object.keys(drafts).filter(id => tables.some(table => table.table_id === id));
+
+  const updateDraft = (tableId: string, layout: TableLayout) => {
+    const next = constrainLayout(layout);
+    setDrafts(prev => {
+      const table = tables.find(item => item.table_id === tableId);
+      const original = table ? getTableLayout(table, zoneTables.indexOf(table)) : undefined;
+      if (original && isSameLayout(original, next)) {
+        const rest = { ...prev };
+        delete rest[tableId];
+        return rest;
+      }
+      return { ...prev, [tableId]: next };
+    });
+  };
+
+  const toSvgPoint = (clientX: number, clientY: number) => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return { x: clientX, y: clientY };
+    const point = new DOMPoint(clientX, clientY).matrixTransform(matrix.inverse());
+    return { x: point.x, y: point.y };
+  };
+
+  useEffect(() => {
+    if (!interaction) return;
+
+    const handleMove = (event: PointerEvent) => {
+      const point = toSvgPoint(event.clientX, event.clientY);
+      const dx = point.x - interaction.startX;
+      const dy = point.y - interaction.startY;
+      const { origin } = interaction;
+
+      if (interaction.handle === 'move') {
+        const x = origin.x + dx;
+        const y = origin.y + dy;
+        updateDraft(interaction.tableId, {
+          ...origin,
+          x: snapEnabled ? snapToGrid(x, gridSize) : x,
+          y: snapEnabled ? snapToGrid(y, gridSize) : y,
+        });
+      } else if (interaction.handle === 'resize') {
+        // Resize along the table's own axes so rotated tables grow the expected way
+        const radians = (-origin.rotation * Math.PI) / 180;
+        const localX = dx * Math.cos(radians) - dy * Math.sin(radians);
+        const localY = dx * Math.sin(radians) + dy * Math.cos(radians);
+        let width = origin.width + localX;
+        let height = origin.height + localY;
+        if (snapEnabled) {
+          width = Math.max(snapToGrid(width, gridSize), gridSize);
+          height = Math.max(snapToGrid(height, gridSize), gridSize);
+        }
+        if (interaction.shape === 'round' || interaction.shape === 'square') {
+          width = height = Math.max(width, height);
+        }
+        updateDraft(interaction.tableId, { ...origin, width, height });
+      } else {
+        const angle = angleFromCenter(origin, point.x, point.y);
+        updateDraft(interaction.tableId, {
+          ...origin,
+          rotation: snapEnabled ? snapToGrid(angle, ROTATION_STEP) : angle,
+        });
+      }
+    };
+
+    const handleUp = () => setInteraction(null);
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    window.addEventListener('pointercancel', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      window.removeEventListener('pointercancel', handleUp);
+    };
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [interaction, snapEnabled, gridSize]);
+
+  const handleTablePointerDown = (table: Table) => (handle: FloorPlanHandle, event: React.PointerEvent) => {
+    event.preventDefault();
+    const point = toSvgPoint(event.clientX, event.clientY);
+    setSelectedId(table.table_id);
+    setInteraction({
+      handle,
+      tableId: table.table_id,
+      shape: table.shape,
+      startX: point.x,
+      startY: point.y,
+      origin: layoutOf(table.table_id),
+    });
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (!selectedTable || !selectedLayout) return;
+    const step = event.shiftKey ? gridSize : 1;
+    const offsets: Record<string, [number, number]> = {
+      ArrowLeft: [-step, 0],
+      ArrowRight: [step, 0],
+      ArrowUp: [0, -step],
+      ArrowDown: [0, step],
+    };
+    const offset = offsets[event.key];
+    if (!offset) return;
+    event.preventDefault();
+    updateDraft(selectedTable.table_id, {
+      ...selectedLayout,
+      x: selectedLayout.x + offset[0],
+      y: selectedLayout.y + offset[1],
+    });
+  };
+
+  const handleFieldChange = (field: keyof TableLayout, value: string) => {
+    if (!selectedTable || !selectedLayout) return;
+    const number = Number(value);
+    if (value === '' || Number.isNaN(number)) return;
+    updateDraft(selectedTable.table_id, { ...selectedLayout, [field]: number });
+  };
+
+  const handleSnapAll = () => {
+    zoneTables.forEach(table => {
+      updateDraft(table.table_id, snapLayout(layoutOf(table.table_id), gridSize));
+    });
+  };
+
+  const handleSave = async () => {
+    if (pendingIds.length === 0) return;
+    setSaving(true);
+    try {
+      await onSave(pendingIds.map(tableId => ({ tableId, changes: layoutToUpdateRequest(drafts[tableId]) })));
+      setDrafts({});
+    } catch (error) {
+      console.error('Failed to save floor plan:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const getLiveStatus = (table: Table): TableStatus => statusMap.get(table.table_id)?.status || table.status;
+
+  const getLiveSubtitle = (table: Table) => {
+    const status = statusMap.get(table.table_id);
+    if (status?.party_size) return t('tables.floorPlan.guests', { count: status.party_size, capacity: table.capacity });
+    if (status?.rsv) return status.rsv.cust_name;
+    return t('tables.floorPlan.seats', { count: table.capacity });
+  };
+
+  const statusCounts = useMemo(() => {
+    const counts: Partial<Record<TableStatus, number>> = {};
+    zoneTables.forEach(table => {
+      const status = statusMap.get(table.table_id)?.status || table.status;
+      counts[status] = (counts[status] || 0) + 1;
+    });
+    return counts;
+  }, [zoneTables, statusMap]);
+
+  if (!activeZoneId) {
+    return (
+      <div className="bg-white shadow rounded-lg p-12 text-center">
+        <h3 className="text-sm font-medium text-gray-900">{t('tables.floorPlan.noZones')}</h3>
+        <p className="mt-1 text-sm text-gray-500">{t('tables.floorPlan.noZonesDescription')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Toolbar */}
+      <div className="bg-white shadow rounded-lg px-4 py-3 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap items-center gap-2">
+          {sortedZones.map(zone => (
+            <button
+              key={zone.zone_id}
+              type="button"
+              onClick={() => { setZoneId(zone.zone_id); setSelectedId(null); }}
+              className={`px-3 py-1.5 rounded-md text-sm font-medium border ${
+                activeZoneId === zone.zone_id
+                  ? 'bg-blue-600 text-white border-blue-600'
+                  : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {zone.zone_name}
+            </button>
+          ))}
+          {hasUnzonedTables && (
+            <button
+              type="button"
+              onClick={() => { setZoneId(NO_ZONE); setSelectedId(null); }}
+              className={`px-3 py-1.5 rounded-md text-sm font-medium border ${
+                activeZoneId === NO_ZONE
+                  ? 'bg-blue-600 text-white border-blue-600'
+                  : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {t('tables.noZone')}
+            </button>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          {canEdit && (
+            <div className="flex rounded-md border border-gray-300 overflow-hidden">
+              <button
+                type="button"
+                onClick={() => setMode('edit')}
+                className={`px-3 py-1.5 text-sm font-medium flex items-center gap-1 ${
+                  mode === 'edit' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <PencilSquareIcon className="h-4 w-4" />
+                {t('tables.floorPlan.editLayout')}
+              </button>
+              <button
+                type="button"
+                onClick={() => { setMode('live'); setSelectedId(null); }}
+                className={`px-3 py-1.5 text-sm font-medium flex items-center gap-1 ${
+                  mode === 'live' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <EyeIcon className="h-4 w-4" />
+                {t('tables.floorPlan.liveView')}
+              </button>
+            </div>
+          )}
+
+          {isEditing ? (
+            <>
+              <label className="flex items-center gap-1 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={snapEnabled}
+                  onChange={(e) => setSnapEnabled(e.target.checked)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                {t('tables.floorPlan.snapToGrid')}
+              </label>
+              <select
+                value={gridSize}
+                onChange={(e) => setGridSize(Number(e.target.value))}
+                className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+              >
+                {GRID_SIZES.map(size => (
+                  <option key={size} value={size}>{size}px</option>
+                ))}
+              </select>
+              <Button variant="outline" size="sm" onClick={handleSnapAll}>
+                {t('tables.floorPlan.alignAll')}
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setDrafts({})} disabled={pendingIds.length === 0 || saving}>
+                {t('tables.floorPlan.discard')}
+              </Button>
+              <Button size="sm" onClick={handleSave} isLoading={saving} disabled={pendingIds.length === 0}>
+                {pendingIds.length > 0
+                  ? t('tables.floorPlan.saveCount', { count: pendingIds.length })
+                  : t('tables.floorPlan.save')}
+              </Button>
+            </>
+          ) : (
+            onRefreshStatuses && (
+              <Button variant="outline" size="sm" onClick={onRefreshStatuses} className="flex items-center gap-1">
+                <ArrowPathIcon className="h-4 w-4" />
+                {t('common.refresh')}
+              </Button>
+            )
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-4 gap-4">
+        {/* Canvas */}
+        <div className="xl:col-span-3 bg-white shadow rounded-lg p-3 overflow-auto">
+          <svg
+            ref={svgRef}
+            viewBox={`0 0 ${FLOOR_PLAN_WIDTH} ${FLOOR_PLAN_HEIGHT}`}
+            className="w-full h-auto bg-slate-50 rounded border border-gray-200 touch-none focus:outline-none"
+            tabIndex={isEditing ? 0 : undefined}
+            onKeyDown={isEditing ? handleKeyDown : undefined}
+            onPointerDown={() => setSelectedId(null)}
+          >
+            {isEditing && (
+              <>
+                <defs>
+                  <pattern id="floor-plan-grid" width={gridSize} height={gridSize} patternUnits="userSpaceOnUse">
+                    <path d={`M ${gridSize} 0 L 0 0 0 ${gridSize}`} fill="none" stroke="#e2e8f0" strokeWidth={1} />
+                  </pattern>
+                </defs>
+                <rect width={FLOOR_PLAN_WIDTH} height={FLOOR_PLAN_HEIGHT} fill="url(#floor-plan-grid)" />
+              </>
+            )}
+            {zoneTables.map(table => (
+              <FloorPlanTable
+                key={table.table_id}
+                table={table}
+                layout={layoutOf(table.table_id)}
+                status={isEditing ? undefined : getLiveStatus(table)}
+                subtitle={isEditing ? t('tables.floorPlan.seats', { count: table.capacity }) : getLiveSubtitle(table)}
+                selected={isEditing && selectedId === table.table_id}
+                editable={isEditing}
+                onPointerDown={handleTablePointerDown(table)}
+                onClick={!isEditing && onTableClick ? () => onTableClick(table) : undefined}
+              />
+            ))}
+          </svg>
+          {zoneTables.length === 0 && (
+            <p className="mt-3 text-center text-sm text-gray-500">{t('tables.floorPlan.emptyZone')}</p>
+          )}
+        </div>
+
+        {/* Side panel */}
+        <div className="bg-white shadow rounded-lg p-4">
+          {isEditing ? (
+            selectedTable && selectedLayout ? (
+              <div className="space-y-4">
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-900">{selectedTable.table_number}</h3>
+                  <p className="text-xs text-gray-500">{t(`tables.table.shapes.${selectedTable.shape || 'square'}`)}</p>
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  {([
+                    ['x', t('tables.table.positionX')],
+                    ['y', t('tables.table.positionY')],
+                    ['width', t('tables.table.width')],
+                    ['height', t('tables.table.height')],
+                  ] as const).map(([field, label]) => (
+                    <div key={field}>
+                      <label className={labelClass}>{label}</label>
+                      <input
+                        type="number"
+                        value={Math.round(selectedLayout[field])}
+                        onChange={(e) => handleFieldChange(field, e.target.value)}
+                        className={inputClass}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div>
+                  <label className={labelClass}>{t('tables.table.rotation')}</label>
+                  <input
+                    type="range"
+                    min={0}
+                    max={359}
+                    step={snapEnabled ? ROTATION_STEP : 1}
+                    value={selectedLayout.rotation}
+                    onChange={(e) => handleFieldChange('rotation', e.target.value)}
+                    className="w-full"
+                  />
+                  <div className="text-xs text-gray-500 text-right">{selectedLayout.rotation}°</div>
+                </div>
+                <p className="text-xs text-gray-500">{t('tables.floorPlan.keyboardHint')}</p>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">{t('tables.floorPlan.selectHint')}</p>
+            )
+          ) : (
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold text-gray-900 mb-3">{t('tables.floorPlan.legend')}</h3>
+              {(Object.keys(TABLE_STATUS_COLORS) as TableStatus[]).map(status => (
+                <div key={status} className="flex items-center justify-between text-sm">
+                  <span className="flex items-center gap-2">
+                    <span
+                      className="inline-block h-3 w-3 rounded-sm border"
+                      style={{ backgroundColor: TABLE_STATUS_COLORS[status].fill, borderColor: TABLE_STATUS_COLORS[status].stroke }}
+                    />
+                    {t(`tables.status.${status}`)}
+                  </span>
+                  <span className="text-gray-500">{statusCounts[status] || 0}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FloorPlanEditor;
@@ -0,0 +1,133 @@
+import React from 'react';
+import type { Table, TableStatus } from '../../types/table';
+import { TABLE_STATUS_COLORS, type TableLayout } from './floorPlanUtils';
+
+export type FloorPlanHandle = 'move' | 'resize' | 'rotate';
+
+interface FloorPlanTableProps {
+  table: Table;
+  layout: TableLayout;
+  /** Live status; tables are drawn neutral in edit mode when omitted */
+  status?: TableStatus;
+  subtitle?: string;
+  selected?: boolean;
+  editable?: boolean;
+  onPointerDown?: (handle: FloorPlanHandle, event: React.PointerEvent) => void;
+  onClick?: () => void;
+}
+
+const HANDLE_SIZE = 10;
+const ROTATE_HANDLE_OFFSET = 24;
+
+const FloorPlanTable: React.FC<FloorPlanTableProps> = ({
+  table,
+  layout,
+  status,
+  subtitle,
+  selected = false,
+  editable = false,
+  onPointerDown,
+  onClick
+}) => {
+  const { x, y, width, height, rotation } = layout;
+  const colors = status ? TABLE_STATUS_COLORS[status] : { fill: '#ffffff', stroke: '#64748b' };
+  const stroke = selected ? '#2563eb' : colors.stroke;
+  const strokeWidth = selected ? 3 : 2;
+  const isEllipse = table.shape === 'round' || table.shape === 'oval';
+
+  const startDrag = (handle: FloorPlanHandle) => (event: React.PointerEvent) => {
+    if (!editable || !onPointerDown) return;
+    event.stopPropagation();
+    onPointerDown(handle, event);
+  };
+
+  return (
+    <g
+      transform={`translate(${x} ${y}) rotate(${rotation} ${width / 2} ${height / 2})`}
+      onClick={onClick}
+      style={{ cursor: editable ? 'move' : onClick ? 'pointer' : 'default' }}
+    >
+      <g onPointerDown={startDrag('move')}>
+        {isEllipse ? (
+          <ellipse
+            cx={width / 2}
+            cy={height / 2}
+            rx={width / 2}
+            ry={height / 2}
+            fill={colors.fill}
+            stroke={stroke}
+            strokeWidth={strokeWidth}
+          />
+        ) : (
+          <rect
+            width={width}
+            height={height}
+            rx={table.shape === 'square' ? 6 : 8}
+            fill={colors.fill}
+            stroke={stroke}
+            strokeWidth={strokeWidth}
+          />
+        )}
+        {/* Counter-rotate the labels so they stay readable */}
+        <g transform={`rotate(${-rotation} ${width / 2} ${height / 2})`} style={{ pointerEvents: 'none' }}>
+          <text
+            x={width / 2}
+            y={height / 2 - (subtitle ? 4 : 0)}
+            textAnchor="middle"
+            dominantBaseline="middle"
+            className="fill-gray-900 text-sm font-semibold select-none"
+          >
+            {table.table_number}
+          </text>
+          {subtitle && (
+            <text
+              x={width / 2}
+              y={height / 2 + 12}
+              textAnchor="middle"
+              dominantBaseline="middle"
+              className="fill-gray-600 text-xs select-none"
+            >
+              {subtitle}
+            </text>
+          )}
+        </g>
+      </g>
+
+      {editable && selected && (
+        <>
+          <line
+            x1={width / 2}
+            y1={0}
+            x2={width / 2}
+            y2={-ROTATE_HANDLE_OFFSET}
+            stroke="#2563eb"
+            strokeWidth={1}
+          />
+          <circle
+            cx={width / 2}
+            cy={-ROTATE_HANDLE_OFFSET}
+            r={HANDLE_SIZE / 2 + 1}
+            fill="#ffffff"
+            stroke="#2563eb"
+            strokeWidth={2}
+            style={{ cursor: 'grab' }}
+            onPointerDown={startDrag('rotate')}
+          />
+          <rect
+            x={width - HANDLE_SIZE / 2}
+            y={height - HANDLE_SIZE / 2}
+            width={HANDLE_SIZE}
+            height={HANDLE_SIZE}
+            fill="#ffffff"
+            stroke="#2563eb"
+            strokeWidth={2}
+            style={{ cursor: 'nwse-resize' }}
+            onPointerDown={startDrag('resize')}
+          />
+        </>
+      )}
+    </g>
+  );
+};
+
+export default FloorPlanTable;
@@ -0,0 +1,113 @@
+import type { Table, TableShape, TableStatus, UpdateTableRequest } from '../../types/table';
+
+export const FLOOR_PLAN_WIDTH = 1200;
+export const FLOOR_PLAN_HEIGHT = 800;
+export const GRID_SIZES = [10, 20, 40];
+export const DEFAULT_GRID_SIZE = 20;
+export const MIN_TABLE_SIZE = 30;
+export const ROTATION_STEP = 15;
+
+/** Position of a table on the floor plan; x/y is the top-left corner before rotation */
+export interface TableLayout {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+}
+
+export const DEFAULT_TABLE_SIZES: Record<TableShape, { width: number; height: number }> = {
+  round: { width: 80, height: 80 },
+  square: { width: 80, height: 80 },
+  rectangle: { width: 140, height: 80 },
+  oval: { width: 140, height: 80 },
+};
+
+export const TABLE_STATUS_COLORS: Record<TableStatus, { fill: string; stroke: string }> = {
+  available: { fill: '#dcfce7', stroke: '#16a34a' },
+  occupied: { fill: '#fee2e2', stroke: '#dc2626' },
+  reserved: { fill: '#dbeafe', stroke: '#2563eb' },
+  cleaning: { fill: '#fef9c3', stroke: '#ca8a04' },
+  blocked: { fill: '#f3f4f6', stroke: '#6b7280' },
+};
+
+export const snapToGrid = (value: number, gridSize: number) => Math.round(value / gridSize) * gridSize;
+
+export const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+/** Rotation in degrees, kept within [0, 360) */
+export const normalizeRotation = (degrees: number) => ((Math.round(degrees) % 360) + 360) % 360;
+
+/**
+ * Layout stored on the table, or a slot in a simple grid for tables that
+ * have never been placed so new tables don't pile up in the corner.
+ */
+export function getTableLayout(table: Table, index: number): TableLayout {
+  const defaults = DEFAULT_TABLE_SIZES[table.shape || 'square'];
+  const width = table.width || defaults.width;
+  const height = table.height || defaults.height;
+
+  if (table.position_x == null && table.position_y == null) {
+    const slot = 180;
+    const perRow = Math.floor(FLOOR_PLAN_WIDTH / slot);
+    return {
+      x: 40 + (index % perRow) * slot,
+      y: 40 + Math.floor(index / perRow) * slot,
+      width,
+      height,
+      rotation: 0,
+    };
+  }
+
+  return {
+    x: table.position_x || 0,
+    y: table.position_y || 0,
+    width,
+    height,
+    rotation: normalizeRotation(table.rotation || 0),
+  };
+}
+
+/** Keep the table's bounding box on the canvas */
+export function constrainLayout(layout: TableLayout): TableLayout {
+  const width = clamp(layout.width, MIN_TABLE_SIZE, FLOOR_PLAN_WIDTH);
+  const height = clamp(layout.height, MIN_TABLE_SIZE, FLOOR_PLAN_HEIGHT);
+  return {
+    x: clamp(layout.x, 0, FLOOR_PLAN_WIDTH - width),
+    y: clamp(layout.y, 0, FLOOR_PLAN_HEIGHT - height),
+    width,
+    height,
+    rotation: normalizeRotation(layout.rotation),
+  };
+}
+
+export function snapLayout(layout: TableLayout, gridSize: number): TableLayout {
+  return {
+    x: snapToGrid(layout.x, gridSize),
+    y: snapToGrid(layout.y, gridSize),
+    width: Math.max(snapToGrid(layout.width, gridSize), gridSize),
+    height: Math.max(snapToGrid(layout.height, gridSize), gridSize),
+    rotation: snapToGrid(layout.rotation, ROTATION_STEP),
+  };
+}
+
+export function isSameLayout(a: TableLayout, b: TableLayout): boolean {
+  return a.x === b.x && a.y === b.y && a.width === b.width && a.height === b.height && a.rotation === b.rotation;
+}
+
+export function layoutToUpdateRequest(layout: TableLayout): UpdateTableRequest {
+  return {
+    position_x: Math.round(layout.x),
+    position_y: Math.round(layout.y),
+    width: Math.round(layout.width),
+    height: Math.round(layout.height),
+    rotation: normalizeRotation(layout.rotation),
+  };
+}
+
+/** Angle in degrees from the table centre to a point, with 0 pointing up */
+export function angleFromCenter(layout: TableLayout, pointX: number, pointY: number): number {
+  const centerX = layout.x + layout.width / 2;
+  const centerY = layout.y + layout.height / 2;
+  return (Math.atan2(pointY - centerY, pointX - centerX) * 180) / Math.PI + 90;
+}
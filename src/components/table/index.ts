@@ -0,0 +1,3 @@
+export { default as FloorPlanEditor } from './FloorPlanEditor';
+export type { FloorPlanUpdate } from './FloorPlanEditor';
+export { default as FloorPlanTable } from './FloorPlanTable';
@@ -16,6 +16,7 @@ import {
   XCircleIcon,
   UserMinusIcon,
   EnvelopeIcon,
+  ArrowDownTrayIcon,
 } from '@heroicons/react/24/outline';
 
 // ── Action display config ────────────────────────────────────────────────────
@@ -31,6 +32,7 @@ const actionDisplayMap: Record<AuditAction, ActionDisplayConfig> = {
   store_deleted: { label: 'Store Deleted', color: 'red', icon: TrashIcon },
   store_deactivated: { label: 'Store Deactivated', color: 'yellow', icon: BuildingStorefrontIcon },
   store_activated: { label: 'Store Activated', color: 'green', icon: BuildingStorefrontIcon },
+  store_exported: { label: 'Store Exported', color: 'gray', icon: ArrowDownTrayIcon },
   user_invited: { label: 'User Invited', color: 'blue', icon: EnvelopeIcon },
   user_removed: { label: 'User Removed', color: 'red', icon: UserMinusIcon },
   user_role_changed: { label: 'Role Changed', color: 'purple', icon: ShieldCheckIcon },
@@ -47,6 +49,7 @@ const actionFilterOptions = [
   { id: 'store_deleted', label: 'Store Deleted' },
   { id: 'store_deactivated', label: 'Store Deactivated' },
   { id: 'store_activated', label: 'Store Activated' },
+  { id: 'store_exported', label: 'Store Exported' },
   { id: 'user_invited', label: 'User Invited' },
   { id: 'user_removed', label: 'User Removed' },
   { id: 'user_role_changed', label: 'Role Changed' },
@@ -140,6 +143,9 @@ const AuditLog: React.FC = () => {
       case 'store_activated':
         parts.push(`activated store "${entry.target_name || entry.target_id}"`);
         break;
+      case 'store_exported':
+        parts.push(`exported data for store "${entry.target_name || entry.target_id}"`);
+        break;
       case 'user_invited':
         parts.push(`invited ${entry.target_name || entry.target_id} to the tenant`);
         break;
@@ -177,6 +183,10 @@ const AuditLog: React.FC = () => {
         parts.push(`performed ${entry.action}`);
     }
 
+    if (entry.action.startsWith('store_') && entry.details?.reason) {
+      parts.push(`— ${entry.details.reason}`);
+    }
+
     return parts.join(' ');
   };
 
@@ -190,6 +190,14 @@ const BillingSection: React.FC = () => {
     <div className="space-y-6">
       {/* ── Status Banners ──────────────────────────────────────────────── */}
 
+      {billingService.backendKind === 'mock' && (
+        <Alert variant="info">
+          <p className="text-sm">
+            Showing sample billing data (VITE_BILLING_BACKEND=mock). Changes here are not sent to Stripe.
+          </p>
+        </Alert>
+      )}
+
       {isPastDue && (
         <Alert variant="error">
           <div className="flex items-start gap-2">
@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { EnvelopeIcon } from '@heroicons/react/24/outline';
+import { Modal, Button, InputTextField, DropdownSearch } from '../ui';
+import StoreAccessEditor from './StoreAccessEditor';
+import { ROLE_OPTIONS } from './tenantUserFormat';
+import { validateInvite } from '../../services/tenant-dashboard/invitationUtils';
+import type {
+  InviteUserRequest,
+  TenantInvitation,
+  TenantRole,
+  TenantUser
+} from '../../services/types/tenant-dashboard.types';
+import type { ApiRole } from '../../services/role/roleApiService';
+
+interface InviteUserModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  users: TenantUser[];
+  invitations: TenantInvitation[];
+  stores: { store_id: string; store_name: string }[];
+  rolesByStore: Record<string, ApiRole[]>;
+  rolesLoading?: boolean;
+  onInvite: (data: InviteUserRequest) => Promise<void>;
+}
+
+const EMPTY_INVITE: InviteUserRequest = { email: '', role: 'staff', store_access: [] };
+
+const InviteUserModal: React.FC<InviteUserModalProps> = ({
+  isOpen,
+  onClose,
+  users,
+  invitations,
+  stores,
+  rolesByStore,
+  rolesLoading = false,
+  onInvite
+}) => {
+  const [form, setForm] = useState<InviteUserRequest>(EMPTY_INVITE);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [inviting, setInviting] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setForm(EMPTY_INVITE);
+    setErrors({});
+  }, [isOpen]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = { ...form, email: form.email.trim(), message: form.message?.trim() || undefined };
+    const validation = validateInvite(data, users, invitations);
+    setErrors(validation);
+    if (Object.keys(validation).length > 0) return;
+
+    setInviting(true);
+    try {
+      await onInvite(data);
+      onClose();
+    } catch (error) {
+      console.error('Failed to send invitation:', error);
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Invite User"
+      size="lg"
+      footer={
+        <div className="flex justify-end gap-3">
+          <Button variant="outline" onClick={onClose} disabled={inviting}>
+            Cancel
+          </Button>
+          <Button type="submit" form="invite-user-form" variant="primary" isLoading={inviting} disabled={inviting}>
+            <EnvelopeIcon className="h-4 w-4 mr-2" />
+            Send Invitation
+          </Button>
+        </div>
+      }
+    >
+      <form id="invite-user-form" onSubmit={handleSubmit} className="space-y-4">
+        <InputTextField
+          label="Email Address"
+          required
+          value={form.email}
+          onChange={(value) => {
+            setForm((prev) => ({ ...prev, email: value }));
+            if (errors.email) setErrors((prev) => ({ ...prev, email: '' }));
+          }}
+          placeholder="colleague@company.com"
+          error={errors.email}
+        />
+        <DropdownSearch
+          label="Organization Role"
+          value={form.role}
+          options={ROLE_OPTIONS}
+          onSelect={(option) => setForm((prev) => ({ ...prev, role: (option?.id as TenantRole) || 'staff' }))}
+          placeholder="Select role"
+          required
+        />
+
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 mb-1">Store Access</h4>
+          <p className="text-xs text-gray-500 mb-2">
+            Pick the role they get at each store. Roles are set up per store under Settings → Roles.
+          </p>
+          <StoreAccessEditor
+            stores={stores}
+            rolesByStore={rolesByStore}
+            value={form.store_access}
+            onChange={(store_access) => {
+              setForm((prev) => ({ ...prev, store_access }));
+              if (errors.store_access) setErrors((prev) => ({ ...prev, store_access: '' }));
+            }}
+            rolesLoading={rolesLoading}
+            disabled={inviting}
+          />
+          {errors.store_access && <p className="mt-1 text-sm text-red-600">{errors.store_access}</p>}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Personal Message</label>
+          <textarea
+            value={form.message || ''}
+            onChange={(e) => setForm((prev) => ({ ...prev, message: e.target.value }))}
+            rows={2}
+            placeholder="Optional note included in the email"
+            className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default InviteUserModal;
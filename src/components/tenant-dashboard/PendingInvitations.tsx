@@ -0,0 +1,86 @@
+import React from 'react';
+import { EnvelopeIcon, ArrowPathIcon, XMarkIcon, ClockIcon } from '@heroicons/react/24/outline';
+import { Widget, Button, Badge } from '../ui';
+import { ROLE_COLORS } from './tenantUserFormat';
+import { formatInvitationExpiry, isInvitationExpired } from '../../services/tenant-dashboard/invitationUtils';
+import type { TenantInvitation } from '../../services/types/tenant-dashboard.types';
+
+interface PendingInvitationsProps {
+  invitations: TenantInvitation[];
+  storeNames: Map<string, string>;
+  canManage: boolean;
+  /** Invitation currently being resent, to show its spinner */
+  resendingId?: string | null;
+  onResend: (invitation: TenantInvitation) => void;
+  onRevoke: (invitation: TenantInvitation) => void;
+}
+
+const PendingInvitations: React.FC<PendingInvitationsProps> = ({
+  invitations,
+  storeNames,
+  canManage,
+  resendingId,
+  onResend,
+  onRevoke
+}) => {
+  if (invitations.length === 0) return null;
+
+  return (
+    <Widget
+      title={`Pending Invitations (${invitations.length})`}
+      description="Invited by email and not yet accepted"
+      icon={EnvelopeIcon}
+    >
+      <div className="divide-y divide-gray-100">
+        {invitations.map((invitation) => {
+          const expired = isInvitationExpired(invitation);
+          const stores = invitation.store_access.map((entry) => storeNames.get(entry.store_id) || entry.store_id);
+
+          return (
+            <div key={invitation.invitation_id} className="flex items-center justify-between py-3 px-2">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <h4 className="text-sm font-semibold text-gray-900 truncate">{invitation.email}</h4>
+                  <Badge color={ROLE_COLORS[invitation.role]} size="sm">{invitation.role}</Badge>
+                  {expired && <Badge color="red" size="sm">expired</Badge>}
+                </div>
+                <p className="text-xs text-gray-500 truncate mt-0.5">
+                  {stores.length > 0 ? stores.join(', ') : 'No store access'}
+                </p>
+                <p className={`text-xs flex items-center gap-1 mt-0.5 ${expired ? 'text-red-600' : 'text-amber-600'}`}>
+                  <ClockIcon className="h-3 w-3" />
+                  {formatInvitationExpiry(invitation.expires_at)}
+                  <span className="text-gray-400">
+                    · sent {new Date(invitation.last_sent_at || invitation.invited_at).toLocaleDateString()}
+                    {invitation.send_count > 1 && ` (${invitation.send_count}×)`}
+                  </span>
+                </p>
+              </div>
+
+              {canManage && (
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <Button
+                    variant={expired ? 'primary' : 'ghost'}
+                    size="sm"
+                    onClick={() => onResend(invitation)}
+                    isLoading={resendingId === invitation.invitation_id}
+                    disabled={!!resendingId}
+                  >
+                    <ArrowPathIcon className="h-4 w-4 mr-1" />
+                    Resend
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => onRevoke(invitation)}>
+                    <XMarkIcon className="h-4 w-4 mr-1" />
+                    Revoke
+                  </Button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </Widget>
+  );
+};
+
+export default PendingInvitations;
@@ -0,0 +1,86 @@
+import React from 'react';
+import { applyRoleToStores, getSharedRoleNames, getStoreRoleId, setStoreRole } from '../../services/tenant-dashboard/invitationUtils';
+import type { StoreAccess } from '../../services/types/tenant-dashboard.types';
+import type { ApiRole } from '../../services/role/roleApiService';
+
+interface StoreAccessEditorProps {
+  stores: { store_id: string; store_name: string }[];
+  rolesByStore: Record<string, ApiRole[]>;
+  value: StoreAccess[];
+  onChange: (access: StoreAccess[]) => void;
+  rolesLoading?: boolean;
+  disabled?: boolean;
+}
+
+const selectClass = 'w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:bg-gray-50';
+
+/**
+ * One row per store with that store's roles; leaving a store on "No access"
+ * keeps the user out of it entirely.
+ */
+const StoreAccessEditor: React.FC<StoreAccessEditorProps> = ({
+  stores,
+  rolesByStore,
+  value,
+  onChange,
+  rolesLoading = false,
+  disabled = false
+}) => {
+  const sharedRoleNames = getSharedRoleNames(rolesByStore);
+
+  if (stores.length === 0) {
+    return <p className="text-sm text-gray-500">This organization has no stores yet.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {stores.length > 1 && (
+        <div className="flex items-center gap-3 rounded-lg bg-gray-50 p-3">
+          <span className="text-xs font-medium text-gray-700 whitespace-nowrap">Same role in every store</span>
+          <select
+            value=""
+            onChange={(e) => {
+              if (e.target.value === '') return;
+              const roleName = e.target.value === '__none__' ? '' : e.target.value;
+              onChange(applyRoleToStores(value, stores.map(store => store.store_id), rolesByStore, roleName));
+            }}
+            disabled={disabled || rolesLoading}
+            className={selectClass}
+          >
+            <option value="">Choose a role...</option>
+            {sharedRoleNames.map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+            <option value="__none__">No access</option>
+          </select>
+        </div>
+      )}
+
+      <div className="divide-y divide-gray-100 rounded-lg border border-gray-200">
+        {stores.map(store => {
+          const roles = (rolesByStore[store.store_id] || []).filter(role => role.is_active);
+          return (
+            <div key={store.store_id} className="flex items-center justify-between gap-4 px-3 py-2">
+              <span className="text-sm text-gray-900 truncate">{store.store_name}</span>
+              <div className="w-48 flex-shrink-0">
+                <select
+                  value={getStoreRoleId(value, store.store_id)}
+                  onChange={(e) => onChange(setStoreRole(value, store.store_id, e.target.value))}
+                  disabled={disabled || rolesLoading}
+                  className={selectClass}
+                >
+                  <option value="">{rolesLoading ? 'Loading roles...' : 'No access'}</option>
+                  {roles.map(role => (
+                    <option key={role.role_id} value={role.role_id}>{role.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default StoreAccessEditor;
@@ -0,0 +1,83 @@
+import React from 'react';
+import { BuildingStorefrontIcon, PencilSquareIcon } from '@heroicons/react/24/outline';
+import { Widget } from '../ui';
+import { getStoreRoleId } from '../../services/tenant-dashboard/invitationUtils';
+import type { TenantUser } from '../../services/types/tenant-dashboard.types';
+import type { ApiRole } from '../../services/role/roleApiService';
+
+interface StoreAccessMatrixProps {
+  users: TenantUser[];
+  stores: { store_id: string; store_name: string }[];
+  rolesByStore: Record<string, ApiRole[]>;
+  canManage: boolean;
+  onEdit: (user: TenantUser) => void;
+}
+
+/**
+ * Users down the side, stores across the top, each cell the user's role at
+ * that store. Owners and admins reach every store through the tenant role.
+ */
+const StoreAccessMatrix: React.FC<StoreAccessMatrixProps> = ({ users, stores, rolesByStore, canManage, onEdit }) => {
+  if (users.length === 0 || stores.length === 0) return null;
+
+  const roleName = (storeId: string, roleId: string) =>
+    rolesByStore[storeId]?.find((role) => role.role_id === roleId)?.name || 'Unknown role';
+
+  return (
+    <Widget title="Store Access" description="Role held at each store" icon={BuildingStorefrontIcon}>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead>
+            <tr className="text-left text-xs font-medium uppercase text-gray-500">
+              <th className="px-3 py-2">User</th>
+              {stores.map((store) => (
+                <th key={store.store_id} className="px-3 py-2 whitespace-nowrap">{store.store_name}</th>
+              ))}
+              {canManage && <th className="px-3 py-2" />}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {users.map((user) => {
+              const tenantWide = user.role === 'owner' || user.role === 'admin';
+              return (
+                <tr key={user.id}>
+                  <td className="px-3 py-2">
+                    <div className="font-medium text-gray-900">{user.name}</div>
+                    <div className="text-xs text-gray-500">{user.email}</div>
+                  </td>
+                  {stores.map((store) => {
+                    const roleId = getStoreRoleId(user.store_access, store.store_id);
+                    return (
+                      <td key={store.store_id} className="px-3 py-2 whitespace-nowrap">
+                        {roleId ? (
+                          <span className="text-gray-900">{roleName(store.store_id, roleId)}</span>
+                        ) : tenantWide ? (
+                          <span className="text-gray-400 capitalize">{user.role}</span>
+                        ) : (
+                          <span className="text-gray-300">—</span>
+                        )}
+                      </td>
+                    );
+                  })}
+                  {canManage && (
+                    <td className="px-3 py-2 text-right">
+                      <button
+                        onClick={() => onEdit(user)}
+                        className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-blue-600"
+                        title="Edit store access"
+                      >
+                        <PencilSquareIcon className="h-4 w-4" />
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </Widget>
+  );
+};
+
+export default StoreAccessMatrix;
@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, Button } from '../ui';
+import StoreAccessEditor from './StoreAccessEditor';
+import type { StoreAccess, TenantUser } from '../../services/types/tenant-dashboard.types';
+import type { ApiRole } from '../../services/role/roleApiService';
+
+interface StoreAccessModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  user: TenantUser | null;
+  stores: { store_id: string; store_name: string }[];
+  rolesByStore: Record<string, ApiRole[]>;
+  rolesLoading?: boolean;
+  onSave: (user: TenantUser, access: StoreAccess[]) => Promise<void>;
+}
+
+const StoreAccessModal: React.FC<StoreAccessModalProps> = ({
+  isOpen,
+  onClose,
+  user,
+  stores,
+  rolesByStore,
+  rolesLoading = false,
+  onSave
+}) => {
+  const [access, setAccess] = useState<StoreAccess[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setAccess(user?.store_access || []);
+  }, [isOpen, user]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    setSaving(true);
+    try {
+      await onSave(user, access);
+      onClose();
+    } catch (error) {
+      console.error('Failed to update store access:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={user ? `Store Access — ${user.name}` : 'Store Access'}
+      size="md"
+      footer={
+        <div className="flex justify-end gap-3">
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button type="submit" form="store-access-form" variant="primary" isLoading={saving}>
+            Save Access
+          </Button>
+        </div>
+      }
+    >
+      <form id="store-access-form" onSubmit={handleSubmit} className="space-y-3">
+        {(user?.role === 'owner' || user?.role === 'admin') && (
+          <p className="text-xs text-gray-500">
+            As {user.role}, {user.name} can already manage every store from the tenant dashboard. Store roles apply when they sign in at a store.
+          </p>
+        )}
+        <StoreAccessEditor
+          stores={stores}
+          rolesByStore={rolesByStore}
+          value={access}
+          onChange={setAccess}
+          rolesLoading={rolesLoading}
+          disabled={saving}
+        />
+      </form>
+    </Modal>
+  );
+};
+
+export default StoreAccessModal;
@@ -0,0 +1,272 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  ArrowDownTrayIcon,
+  ComputerDesktopIcon,
+  CurrencyDollarIcon,
+  ExclamationTriangleIcon,
+} from '@heroicons/react/24/outline';
+import { Modal, Button, Alert } from '../ui';
+import type { Store } from '../../tenants/tenantStore';
+import { storeService } from '../../services/store/storeService';
+import { billingService } from '../../services/billing/billingService';
+import { tenantStoreService } from '../../services/tenant-dashboard/tenantDashboardService';
+import { getStoreLifecycleImpact } from '../../services/tenant-dashboard/storeLifecycleUtils';
+import type { StoreLifecycleAction } from '../../services/tenant-dashboard/storeLifecycleUtils';
+import type {
+  StoreDataExport,
+  StoreLifecycleImpact,
+  StoreLifecycleRequest,
+} from '../../services/types/tenant-dashboard.types';
+
+interface StoreLifecycleModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  store: Store | null;
+  action: StoreLifecycleAction;
+  onConfirm: (store: Store, action: StoreLifecycleAction, data: StoreLifecycleRequest) => Promise<void>;
+}
+
+const ACTION_COPY: Record<StoreLifecycleAction, { title: string; confirm: string; summary: string }> = {
+  deactivate: {
+    title: 'Archive Store',
+    confirm: 'Archive Store',
+    summary: 'The store stops trading and moves to Archived. Its data is kept and it can be reactivated at any time.',
+  },
+  activate: {
+    title: 'Reactivate Store',
+    confirm: 'Reactivate',
+    summary: 'The store returns to Active and its terminals can sign in again.',
+  },
+  delete: {
+    title: 'Delete Store Permanently',
+    confirm: 'Delete Permanently',
+    summary: 'All catalog, sales, customer and settings data for this store is erased. This cannot be undone.',
+  },
+};
+
+const EXPORT_POLL_MS = 2000;
+const EXPORT_MAX_POLLS = 90;
+
+const inputClass = 'w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+const labelClass = 'block text-sm font-medium text-gray-700 mb-1';
+
+const StoreLifecycleModal: React.FC<StoreLifecycleModalProps> = ({ isOpen, onClose, store, action, onConfirm }) => {
+  const [impact, setImpact] = useState<StoreLifecycleImpact | null>(null);
+  const [impactLoading, setImpactLoading] = useState(false);
+  const [reason, setReason] = useState('');
+  const [confirmName, setConfirmName] = useState('');
+  const [skipExport, setSkipExport] = useState(false);
+  const [dataExport, setDataExport] = useState<StoreDataExport | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [saving, setSaving] = useState(false);
+  // Stops polling once the modal closes
+  const pollToken = useRef(0);
+
+  const copy = ACTION_COPY[action];
+  const isDelete = action === 'delete';
+
+  useEffect(() => {
+    pollToken.current += 1;
+    if (!isOpen || !store) return;
+
+    setReason('');
+    setConfirmName('');
+    setSkipExport(false);
+    setDataExport(null);
+    setExporting(false);
+    setImpact(null);
+    setImpactLoading(true);
+
+    Promise.allSettled([
+      storeService.getStoreDetails(store.store_id),
+      billingService.getSubscription(),
+    ]).then(([details, subscription]) => {
+      if (details.status === 'rejected') console.error('Failed to load store details:', details.reason);
+      if (subscription.status === 'rejected') console.error('Failed to load subscription:', subscription.reason);
+      setImpact(getStoreLifecycleImpact(
+        action,
+        store.status === 'active',
+        details.status === 'fulfilled' ? details.value : null,
+        subscription.status === 'fulfilled' ? subscription.value : null
+      ));
+    }).finally(() => setImpactLoading(false));
+  }, [isOpen, store, action]);
+
+  const handleExport = async () => {
+    if (!store) return;
+    const token = pollToken.current;
+    setExporting(true);
+    try {
+      let current = await tenantStoreService.createExport(store.store_id);
+      setDataExport(current);
+      for (let attempt = 0; current.status === 'pending' && attempt < EXPORT_MAX_POLLS; attempt++) {
+        await new Promise((resolve) => setTimeout(resolve, EXPORT_POLL_MS));
+        if (token !== pollToken.current) return;
+        current = await tenantStoreService.getExport(store.store_id, current.export_id);
+        setDataExport(current);
+      }
+      if (current.status === 'ready' && current.download_url) {
+        window.open(current.download_url, '_blank', 'noopener');
+      }
+    } catch (error) {
+      console.error('Failed to export store data:', error);
+      setDataExport((prev) => ({
+        ...(prev || { export_id: '', store_id: store.store_id, created_at: new Date().toISOString() }),
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Export failed',
+      }));
+    } finally {
+      if (token === pollToken.current) setExporting(false);
+    }
+  };
+
+  const exportReady = dataExport?.status === 'ready';
+  const canSubmit = !isDelete || (confirmName === store?.store_name && (exportReady || skipExport));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!store || !canSubmit) return;
+
+    setSaving(true);
+    try {
+      await onConfirm(store, action, {
+        reason: reason.trim() || undefined,
+        ...(isDelete && { confirm_name: confirmName, export_id: exportReady ? dataExport?.export_id : undefined }),
+      });
+      onClose();
+    } catch (error) {
+      console.error(`Failed to ${action} store:`, error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatCost = (amount: number) => billingService.formatAmount(amount, impact?.currency);
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={copy.title}
+      size="md"
+      footer={
+        <div className="flex justify-end gap-3">
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            form="store-lifecycle-form"
+            variant={isDelete ? 'destructive' : 'primary'}
+            isLoading={saving}
+            disabled={!canSubmit || impactLoading}
+          >
+            {copy.confirm}
+          </Button>
+        </div>
+      }
+    >
+      <form id="store-lifecycle-form" onSubmit={handleSubmit} className="space-y-4">
+        <p className="text-sm text-gray-700">
+          <strong>{store?.store_name}</strong> — {copy.summary}
+        </p>
+
+        {impactLoading ? (
+          <p className="text-sm text-gray-500">Checking impact...</p>
+        ) : impact && (
+          <div className="space-y-2 rounded-lg bg-gray-50 p-4 text-sm">
+            <div className="flex items-start gap-2">
+              <CurrencyDollarIcon className="h-5 w-5 text-gray-400 flex-shrink-0" />
+              {impact.next_seat_count === impact.seat_count ? (
+                <span className="text-gray-600">Billing is unchanged ({impact.seat_count} active seat{impact.seat_count === 1 ? '' : 's'}).</span>
+              ) : (
+                <span className="text-gray-700">
+                  Seats go from <strong>{impact.seat_count}</strong> to <strong>{impact.next_seat_count}</strong>; estimated monthly cost{' '}
+                  {formatCost(impact.monthly_cost)} → <strong>{formatCost(impact.next_monthly_cost)}</strong>.
+                </span>
+              )}
+            </div>
+            {action !== 'activate' && (
+              <div className="flex items-start gap-2">
+                <ComputerDesktopIcon className="h-5 w-5 text-gray-400 flex-shrink-0" />
+                {impact.active_terminals.length === 0 ? (
+                  <span className="text-gray-600">No active terminals.</span>
+                ) : (
+                  <div className="text-gray-700">
+                    <span>
+                      {impact.active_terminals.length} active terminal{impact.active_terminals.length === 1 ? '' : 's'} will be signed out:
+                    </span>
+                    <ul className="mt-1 list-disc pl-5 text-gray-600">
+                      {impact.active_terminals.map((terminal) => (
+                        <li key={terminal.terminal_id}>{terminal.name || terminal.terminal_id} <span className="text-gray-400">({terminal.platform})</span></li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {isDelete && (
+          <>
+            <div className="rounded-lg border border-gray-200 p-4 space-y-2">
+              <div className="flex items-center justify-between gap-3">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">Export store data</p>
+                  <p className="text-xs text-gray-500">Download a copy of everything before it is erased.</p>
+                </div>
+                <Button type="button" variant="outline" size="sm" onClick={handleExport} isLoading={exporting} disabled={exporting}>
+                  <ArrowDownTrayIcon className="h-4 w-4 mr-1" />
+                  {exportReady ? 'Export Again' : 'Export'}
+                </Button>
+              </div>
+              {dataExport?.status === 'pending' && <p className="text-xs text-gray-500">Preparing export...</p>}
+              {exportReady && dataExport?.download_url && (
+                <p className="text-xs text-green-700">
+                  Export ready.{' '}
+                  <a href={dataExport.download_url} target="_blank" rel="noopener noreferrer" className="underline">Download</a>
+                  {dataExport.expires_at && ` (link valid until ${new Date(dataExport.expires_at).toLocaleString()})`}
+                </p>
+              )}
+              {dataExport?.status === 'failed' && (
+                <p className="text-xs text-red-600">{dataExport.error || 'Export failed'}. Try again before deleting.</p>
+              )}
+              {!exportReady && (
+                <label className="flex items-center gap-2 text-xs text-gray-600">
+                  <input type="checkbox" checked={skipExport} onChange={(e) => setSkipExport(e.target.checked)} />
+                  <span>I don't need a copy of this store's data</span>
+                </label>
+              )}
+            </div>
+
+            <Alert variant="error">
+              <div className="flex items-start gap-2">
+                <ExclamationTriangleIcon className="h-5 w-5 text-red-500 flex-shrink-0" />
+                <div className="flex-1">
+                  <label className={labelClass}>
+                    Type <strong>{store?.store_name}</strong> to confirm
+                  </label>
+                  <input value={confirmName} onChange={(e) => setConfirmName(e.target.value)} className={inputClass} autoComplete="off" />
+                </div>
+              </div>
+            </Alert>
+          </>
+        )}
+
+        <div>
+          <label className={labelClass}>Reason</label>
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={2}
+            placeholder="Recorded in the audit log"
+            className={inputClass}
+          />
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default StoreLifecycleModal;
@@ -6,15 +6,18 @@ import {
   Badge,
   Alert,
   SearchAndFilter,
-  ConfirmDialog,
   Loading,
 } from '../ui';
+import StoreLifecycleModal from './StoreLifecycleModal';
 import { useTenantRole } from '../../hooks/useTenantRole';
 import { useError } from '../../hooks/useError';
-import { useConfirmDialog } from '../../hooks/useConfirmDialog';
 import { useTenantStore, type Store } from '../../tenants/tenantStore';
-import { tenantApiService } from '../../services/tenant/tenantApiService';
+import { tenantStoreService } from '../../services/tenant-dashboard/tenantDashboardService';
+import { canDeleteStore } from '../../services/tenant-dashboard/storeLifecycleUtils';
+import type { StoreLifecycleAction } from '../../services/tenant-dashboard/storeLifecycleUtils';
+import type { StoreLifecycleRequest } from '../../services/types/tenant-dashboard.types';
 import {
+  ArchiveBoxIcon,
   BuildingStorefrontIcon,
   PlusIcon,
   MapPinIcon,
@@ -35,14 +38,14 @@ const StoreList: React.FC = () => {
   const navigate = useNavigate();
   const { can } = useTenantRole();
   const { showError, showInfo } = useError();
-  const confirmDialog = useConfirmDialog();
   const { currentTenant, getCurrentTenantStores, fetchStoresForTenant } = useTenantStore();
 
   const [stores, setStores] = useState<Store[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('');
-  const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [view, setView] = useState<'current' | 'archived'>('current');
+  const [lifecycle, setLifecycle] = useState<{ store: Store; action: StoreLifecycleAction } | null>(null);
 
   // Change plan modal state
   const [changePlanStore, setChangePlanStore] = useState<Store | null>(null);
@@ -89,7 +92,10 @@ const StoreList: React.FC = () => {
     fetchStores();
   }, [fetchStores]);
 
+  // Deactivated stores are archived: kept out of the main list until reactivated or deleted
+  const archivedStores = stores.filter((store) => store.status === 'inactive');
   const filteredStores = stores.filter((store) => {
+    if ((view === 'archived') !== (store.status === 'inactive')) return false;
     const matchesSearch =
       store.store_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
       store.address?.city?.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -100,80 +106,30 @@ const StoreList: React.FC = () => {
 
   const activeStoreCount = stores.filter((s) => s.status === 'active').length;
 
-  const handleDeactivateStore = (store: Store) => {
-    confirmDialog.openDialog(
-      async () => {
-        try {
-          setActionLoading(store.store_id);
-          // TODO: When backend supports it, call a deactivate endpoint
-          // For now use the storeService to update status
-          await tenantApiService.getStore(store.tenant_id, store.store_id);
-          setStores((prev) =>
-            prev.map((s) => (s.store_id === store.store_id ? { ...s, status: 'inactive' as const } : s))
-          );
-          showInfo(`Store "${store.store_name}" has been deactivated. Your seat count has been reduced.`);
-        } catch (error) {
-          showError(error);
-        } finally {
-          setActionLoading(null);
-        }
-      },
-      {
-        title: 'Deactivate Store',
-        message: `Are you sure you want to deactivate "${store.store_name}"?\n\nThis will reduce your active seat count from ${activeStoreCount} to ${activeStoreCount - 1}, lowering your monthly billing.`,
-        variant: 'warning',
-        confirmText: 'Deactivate',
-      }
-    );
-  };
-
-  const handleActivateStore = (store: Store) => {
-    confirmDialog.openDialog(
-      async () => {
-        try {
-          setActionLoading(store.store_id);
-          // TODO: When backend supports it, call an activate endpoint
-          await tenantApiService.getStore(store.tenant_id, store.store_id);
-          setStores((prev) =>
-            prev.map((s) => (s.store_id === store.store_id ? { ...s, status: 'active' as const } : s))
-          );
-          showInfo(`Store "${store.store_name}" has been activated. Your seat count has been increased.`);
-        } catch (error) {
-          showError(error);
-        } finally {
-          setActionLoading(null);
-        }
-      },
-      {
-        title: 'Activate Store',
-        message: `Activating "${store.store_name}" will increase your seat count from ${activeStoreCount} to ${activeStoreCount + 1}.\n\nThis will increase your monthly billing.`,
-        variant: 'warning',
-        confirmText: 'Activate',
+  const handleLifecycleAction = async (store: Store, action: StoreLifecycleAction, data: StoreLifecycleRequest) => {
+    try {
+      if (action === 'delete') {
+        await tenantStoreService.deleteStore(store.store_id, data);
+        setStores((prev) => prev.filter((s) => s.store_id !== store.store_id));
+        showInfo(`Store "${store.store_name}" has been permanently deleted.`);
+      } else {
+        const updated = action === 'deactivate'
+          ? await tenantStoreService.deactivateStore(store.store_id, data)
+          : await tenantStoreService.activateStore(store.store_id, data);
+        const status = updated?.status || (action === 'deactivate' ? 'inactive' : 'active');
+        setStores((prev) => prev.map((s) => (s.store_id === store.store_id ? { ...s, status } : s)));
+        showInfo(action === 'deactivate'
+          ? `Store "${store.store_name}" has been archived. Your seat count has been reduced.`
+          : `Store "${store.store_name}" has been reactivated. Your seat count has been increased.`);
       }
-    );
-  };
-
-  const handleDeleteStore = (store: Store) => {
-    confirmDialog.openDialog(
-      async () => {
-        try {
-          setActionLoading(store.store_id);
-          // TODO: Implement real delete endpoint — DELETE /v0/store/:storeId
-          setStores((prev) => prev.filter((s) => s.store_id !== store.store_id));
-          showInfo(`Store "${store.store_name}" has been permanently deleted.`);
-        } catch (error) {
-          showError(error);
-        } finally {
-          setActionLoading(null);
-        }
-      },
-      {
-        title: 'Delete Store',
-        message: `Are you sure you want to permanently delete "${store.store_name}"?\n\nThis action cannot be undone. All store data, transactions, and settings will be lost.`,
-        variant: 'danger',
-        confirmText: 'Delete Permanently',
+      // Keep the cached tenant stores (store switcher, user access) in step
+      if (currentTenant?.id) {
+        fetchStoresForTenant(currentTenant.id).catch((error) => console.error('Failed to refresh stores:', error));
       }
-    );
+    } catch (error) {
+      showError(error);
+      throw error;
+    }
   };
 
   if (loading) {
@@ -202,33 +158,47 @@ const StoreList: React.FC = () => {
         searchPlaceholder="Search stores by name, city, or ID..."
         filterValue={statusFilter}
         onFilterChange={setStatusFilter}
-        filterOptions={[
+        filterOptions={view === 'current' ? [
           { id: 'active', label: 'Active' },
-          { id: 'inactive', label: 'Inactive' },
           { id: 'pending', label: 'Pending' },
-        ]}
+        ] : []}
         filterPlaceholder="All Statuses"
         actions={
-          canManageStores ? (
-            <Button variant="primary" size="sm" onClick={() => navigate('/create-store')}>
-              <PlusIcon className="h-4 w-4 mr-2" />
-              Create Store
+          <div className="flex items-center gap-2">
+            <Button
+              variant={view === 'archived' ? 'primary' : 'outline'}
+              size="sm"
+              onClick={() => {
+                setView(view === 'archived' ? 'current' : 'archived');
+                setStatusFilter('');
+              }}
+            >
+              <ArchiveBoxIcon className="h-4 w-4 mr-2" />
+              {view === 'archived' ? 'Back to Stores' : `Archived (${archivedStores.length})`}
             </Button>
-          ) : undefined
+            {canManageStores && view === 'current' && (
+              <Button variant="primary" size="sm" onClick={() => navigate('/create-store')}>
+                <PlusIcon className="h-4 w-4 mr-2" />
+                Create Store
+              </Button>
+            )}
+          </div>
         }
       />
 
       {/* Store Cards */}
       <Widget
-        title={`Stores (${filteredStores.length})`}
-        description="All stores under this tenant"
-        icon={BuildingStorefrontIcon}
+        title={view === 'archived' ? `Archived Stores (${filteredStores.length})` : `Stores (${filteredStores.length})`}
+        description={view === 'archived' ? 'Deactivated stores; reactivate, export or delete them' : 'All stores under this tenant'}
+        icon={view === 'archived' ? ArchiveBoxIcon : BuildingStorefrontIcon}
       >
         {filteredStores.length === 0 ? (
           <div className="text-center py-12">
             <BuildingStorefrontIcon className="h-12 w-12 text-gray-300 mx-auto mb-4" />
             <p className="text-gray-500 mb-4">
-              {stores.length === 0 ? 'No stores yet. Create your first store to get started.' : 'No stores match your search criteria.'}
+              {view === 'archived'
+                ? 'No archived stores.'
+                : stores.length === 0 ? 'No stores yet. Create your first store to get started.' : 'No stores match your search criteria.'}
             </p>
             {canManageStores && stores.length === 0 && (
               <Button variant="primary" onClick={() => navigate('/create-store')}>
@@ -241,7 +211,6 @@ const StoreList: React.FC = () => {
           <div className="divide-y divide-gray-100">
             {filteredStores.map((store) => {
               const status = storeStatusConfig[store.status] || storeStatusConfig.active;
-              const isActionLoading = actionLoading === store.store_id;
 
               return (
                 <div
@@ -283,21 +252,21 @@ const StoreList: React.FC = () => {
 
                   {canManageStores && (
                     <div className="flex items-center gap-2 flex-shrink-0">
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => setChangePlanStore(store)}
-                      >
-                        <SparklesIcon className="h-3.5 w-3.5 mr-1" />
-                        Plan
-                      </Button>
+                      {store.status !== 'inactive' && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setChangePlanStore(store)}
+                        >
+                          <SparklesIcon className="h-3.5 w-3.5 mr-1" />
+                          Plan
+                        </Button>
+                      )}
                       {store.status === 'active' && (
                         <Button
                           variant="outline"
                           size="sm"
-                          onClick={() => handleDeactivateStore(store)}
-                          disabled={isActionLoading}
-                          isLoading={isActionLoading}
+                          onClick={() => setLifecycle({ store, action: 'deactivate' })}
                         >
                           Deactivate
                         </Button>
@@ -306,21 +275,20 @@ const StoreList: React.FC = () => {
                         <Button
                           variant="outline"
                           size="sm"
-                          onClick={() => handleActivateStore(store)}
-                          disabled={isActionLoading}
-                          isLoading={isActionLoading}
+                          onClick={() => setLifecycle({ store, action: 'activate' })}
+                        >
+                          Reactivate
+                        </Button>
+                      )}
+                      {canDeleteStore(store) && (
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          onClick={() => setLifecycle({ store, action: 'delete' })}
                         >
-                          Activate
+                          Delete
                         </Button>
                       )}
-                      <Button
-                        variant="destructive"
-                        size="sm"
-                        onClick={() => handleDeleteStore(store)}
-                        disabled={isActionLoading}
-                      >
-                        Delete
-                      </Button>
                     </div>
                   )}
                 </div>
@@ -345,17 +313,12 @@ const StoreList: React.FC = () => {
         />
       )}
 
-      {/* Confirm Dialog */}
-      <ConfirmDialog
-        isOpen={confirmDialog.dialogState.isOpen}
-        onClose={confirmDialog.closeDialog}
-        onConfirm={confirmDialog.handleConfirm}
-        title={confirmDialog.dialogState.title}
-        message={confirmDialog.dialogState.message}
-        confirmText={confirmDialog.dialogState.confirmText}
-        cancelText={confirmDialog.dialogState.cancelText}
-        variant={confirmDialog.dialogState.variant}
-        isLoading={confirmDialog.dialogState.isLoading}
+      <StoreLifecycleModal
+        isOpen={!!lifecycle}
+        onClose={() => setLifecycle(null)}
+        store={lifecycle?.store || null}
+        action={lifecycle?.action || 'deactivate'}
+        onConfirm={handleLifecycleAction}
       />
     </div>
   );
@@ -1,65 +1,55 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   Widget,
   Button,
   Badge,
-  Modal,
-  InputTextField,
   DropdownSearch,
   ConfirmDialog,
   Loading,
   SearchAndFilter,
 } from '../ui';
+import InviteUserModal from './InviteUserModal';
+import PendingInvitations from './PendingInvitations';
+import StoreAccessMatrix from './StoreAccessMatrix';
+import StoreAccessModal from './StoreAccessModal';
+import { ROLE_OPTIONS, ROLE_COLORS, USER_STATUS_COLORS } from './tenantUserFormat';
 import { useTenantRole } from '../../hooks/useTenantRole';
 import { useError } from '../../hooks/useError';
 import { useConfirmDialog } from '../../hooks/useConfirmDialog';
-import { tenantUserService } from '../../services/tenant-dashboard/tenantDashboardService';
-import type { TenantUser, TenantRole, InviteUserRequest } from '../../services/types/tenant-dashboard.types';
+import { useStoreRoles } from '../../hooks/useStoreRoles';
+import { useTenantStore } from '../../tenants/tenantStore';
+import { tenantUserService, tenantInvitationService } from '../../services/tenant-dashboard/tenantDashboardService';
+import type {
+  TenantUser,
+  TenantRole,
+  TenantInvitation,
+  InviteUserRequest,
+  StoreAccess,
+} from '../../services/types/tenant-dashboard.types';
 import {
   UserGroupIcon,
   PlusIcon,
-  EnvelopeIcon,
   ShieldCheckIcon,
-  ClockIcon,
   UserMinusIcon,
-  ArrowPathIcon,
+  BuildingStorefrontIcon,
 } from '@heroicons/react/24/outline';
 
-const roleOptions = [
-  { id: 'owner', label: 'Owner', description: 'Full access — billing, users, stores, settings' },
-  { id: 'admin', label: 'Admin', description: 'Users + stores + settings (read-only billing)' },
-  { id: 'staff', label: 'Staff', description: 'No tenant dashboard access' },
-  { id: 'viewer', label: 'Viewer', description: 'No tenant dashboard access' },
-];
-
-const roleColorMap: Record<string, 'purple' | 'blue' | 'green' | 'gray'> = {
-  owner: 'purple',
-  admin: 'blue',
-  staff: 'green',
-  viewer: 'gray',
-};
-
-const statusColorMap: Record<string, 'green' | 'yellow' | 'gray'> = {
-  active: 'green',
-  invited: 'yellow',
-  deactivated: 'gray',
-};
-
 const UserManagement: React.FC = () => {
   const { can, isOwner } = useTenantRole();
   const { showError, showInfo } = useError();
   const confirmDialog = useConfirmDialog();
+  const { currentTenant, getCurrentTenantStores, fetchStoresForTenant } = useTenantStore();
 
   const [users, setUsers] = useState<TenantUser[]>([]);
+  const [invitations, setInvitations] = useState<TenantInvitation[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [roleFilter, setRoleFilter] = useState('');
 
-  // Invite modal state
+  // Modal state
   const [inviteModalOpen, setInviteModalOpen] = useState(false);
-  const [inviteForm, setInviteForm] = useState<InviteUserRequest>({ email: '', role: 'staff' });
-  const [inviteErrors, setInviteErrors] = useState<Record<string, string>>({});
-  const [inviting, setInviting] = useState(false);
+  const [accessUser, setAccessUser] = useState<TenantUser | null>(null);
+  const [resendingId, setResendingId] = useState<string | null>(null);
 
   // Role edit state
   const [editingUserId, setEditingUserId] = useState<string | null>(null);
@@ -68,11 +58,24 @@ const UserManagement: React.FC = () => {
 
   const canManageUsers = can('canManageUsers');
 
+  const stores = getCurrentTenantStores();
+  const storeIds = stores.map((store) => store.store_id);
+  const storeNames = useMemo(
+    () => new Map(stores.map((store) => [store.store_id, store.store_name])),
+    [stores]
+  );
+  const { rolesByStore, isLoading: rolesLoading } = useStoreRoles({ tenantId: currentTenant?.id, storeIds });
+
   const fetchUsers = async () => {
     try {
       setLoading(true);
-      const data = await tenantUserService.getUsers();
-      setUsers(data);
+      const [userData, invitationData] = await Promise.all([
+        tenantUserService.getUsers(),
+        canManageUsers ? tenantInvitationService.getInvitations() : Promise.resolve([]),
+      ]);
+      // Invitees are listed from their invitation until they accept
+      setUsers(userData.filter((user) => user.status !== 'invited'));
+      setInvitations(invitationData.filter((invitation) => invitation.status === 'pending' || invitation.status === 'expired'));
     } catch (error) {
       showError(error);
     } finally {
@@ -82,7 +85,15 @@ const UserManagement: React.FC = () => {
 
   useEffect(() => {
     fetchUsers();
-  }, []);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [canManageUsers]);
+
+  useEffect(() => {
+    if (currentTenant?.id && stores.length === 0) {
+      fetchStoresForTenant(currentTenant.id);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentTenant?.id]);
 
   const filteredUsers = users.filter((user) => {
     const matchesSearch =
@@ -94,35 +105,14 @@ const UserManagement: React.FC = () => {
 
   // ── Invite User ─────────────────────────────────────────────────────
 
-  const validateInviteForm = (): boolean => {
-    const errors: Record<string, string> = {};
-    if (!inviteForm.email.trim()) {
-      errors.email = 'Email is required';
-    } else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(inviteForm.email)) {
-      errors.email = 'Please enter a valid email address';
-    }
-    if (users.some((u) => u.email.toLowerCase() === inviteForm.email.toLowerCase())) {
-      errors.email = 'This user is already a member of this tenant';
-    }
-    setInviteErrors(errors);
-    return Object.keys(errors).length === 0;
-  };
-
-  const handleInviteUser = async () => {
-    if (!validateInviteForm()) return;
-
+  const handleInviteUser = async (data: InviteUserRequest) => {
     try {
-      setInviting(true);
-      const newUser = await tenantUserService.inviteUser(inviteForm);
-      setUsers((prev) => [...prev, newUser]);
-      setInviteModalOpen(false);
-      setInviteForm({ email: '', role: 'staff' });
-      setInviteErrors({});
-      showInfo(`Invitation sent to ${inviteForm.email}`);
+      const invitation = await tenantInvitationService.createInvitation(data);
+      setInvitations((prev) => [invitation, ...prev]);
+      showInfo(`Invitation sent to ${invitation.email}`);
     } catch (error) {
       showError(error);
-    } finally {
-      setInviting(false);
+      throw error;
     }
   };
 
@@ -169,17 +159,54 @@ const UserManagement: React.FC = () => {
     );
   };
 
-  // ── Resend Invite ───────────────────────────────────────────────────
+  // ── Store Access ────────────────────────────────────────────────────
 
-  const handleResendInvite = async (user: TenantUser) => {
+  const handleSaveStoreAccess = async (user: TenantUser, access: StoreAccess[]) => {
     try {
-      await tenantUserService.resendInvite(user.id);
-      showInfo(`Invitation resent to ${user.email}`);
+      const updatedUser = await tenantUserService.updateStoreAccess(user.id, { store_access: access });
+      setUsers((prev) => prev.map((u) => (u.id === user.id ? { ...u, store_access: updatedUser.store_access ?? access } : u)));
+      showInfo(`Store access updated for ${user.name}`);
     } catch (error) {
       showError(error);
+      throw error;
     }
   };
 
+  // ── Invitations ─────────────────────────────────────────────────────
+
+  const handleResendInvite = async (invitation: TenantInvitation) => {
+    try {
+      setResendingId(invitation.invitation_id);
+      const updated = await tenantInvitationService.resendInvitation(invitation.invitation_id);
+      setInvitations((prev) => prev.map((i) => (i.invitation_id === updated.invitation_id ? updated : i)));
+      showInfo(`Invitation resent to ${invitation.email}`);
+    } catch (error) {
+      showError(error);
+    } finally {
+      setResendingId(null);
+    }
+  };
+
+  const handleRevokeInvite = (invitation: TenantInvitation) => {
+    confirmDialog.openDialog(
+      async () => {
+        try {
+          await tenantInvitationService.revokeInvitation(invitation.invitation_id);
+          setInvitations((prev) => prev.filter((i) => i.invitation_id !== invitation.invitation_id));
+          showInfo(`Invitation for ${invitation.email} revoked`);
+        } catch (error) {
+          showError(error);
+        }
+      },
+      {
+        title: 'Revoke Invitation',
+        message: `Revoke the invitation sent to ${invitation.email}? The link in their email will stop working.`,
+        variant: 'warning',
+        confirmText: 'Revoke',
+      }
+    );
+  };
+
   if (loading) {
     return <Loading title="Loading Users" description="Fetching tenant members..." />;
   }
@@ -193,7 +220,7 @@ const UserManagement: React.FC = () => {
         searchPlaceholder="Search users by name or email..."
         filterValue={roleFilter}
         onFilterChange={setRoleFilter}
-        filterOptions={roleOptions.map((r) => ({ id: r.id, label: r.label }))}
+        filterOptions={ROLE_OPTIONS.map((r) => ({ id: r.id, label: r.label }))}
         filterPlaceholder="All Roles"
         actions={
           canManageUsers ? (
@@ -205,6 +232,15 @@ const UserManagement: React.FC = () => {
         }
       />
 
+      <PendingInvitations
+        invitations={invitations}
+        storeNames={storeNames}
+        canManage={canManageUsers}
+        resendingId={resendingId}
+        onResend={handleResendInvite}
+        onRevoke={handleRevokeInvite}
+      />
+
       {/* Users List */}
       <Widget
         title={`Team Members (${filteredUsers.length})`}
@@ -238,20 +274,14 @@ const UserManagement: React.FC = () => {
                     <div className="min-w-0">
                       <div className="flex items-center gap-2">
                         <h4 className="text-sm font-semibold text-gray-900 truncate">{user.name}</h4>
-                        <Badge color={roleColorMap[user.role] || 'gray'} size="sm">
+                        <Badge color={ROLE_COLORS[user.role] || 'gray'} size="sm">
                           {user.role}
                         </Badge>
-                        <Badge color={statusColorMap[user.status] || 'gray'} size="sm">
+                        <Badge color={USER_STATUS_COLORS[user.status] || 'gray'} size="sm">
                           {user.status}
                         </Badge>
                       </div>
                       <p className="text-xs text-gray-500 truncate mt-0.5">{user.email}</p>
-                      {user.status === 'invited' && user.invited_at && (
-                        <p className="text-xs text-amber-600 flex items-center gap-1 mt-0.5">
-                          <ClockIcon className="h-3 w-3" />
-                          Invited {new Date(user.invited_at).toLocaleDateString()}
-                        </p>
-                      )}
                       {user.last_login && user.status === 'active' && (
                         <p className="text-xs text-gray-400 mt-0.5">
                           Last login: {new Date(user.last_login).toLocaleDateString()}
@@ -267,7 +297,7 @@ const UserManagement: React.FC = () => {
                           <DropdownSearch
                             label=""
                             value={editingRole}
-                            options={roleOptions}
+                            options={ROLE_OPTIONS}
                             onSelect={(option) => setEditingRole((option?.id as TenantRole) || 'staff')}
                             placeholder="Select role"
                             buttonClassName="py-1 text-xs min-w-[120px]"
@@ -292,14 +322,12 @@ const UserManagement: React.FC = () => {
                         </div>
                       ) : (
                         <>
-                          {user.status === 'invited' && (
-                            <Button variant="ghost" size="sm" onClick={() => handleResendInvite(user)}>
-                              <ArrowPathIcon className="h-4 w-4 mr-1" />
-                              Resend
-                            </Button>
-                          )}
+                          <Button variant="ghost" size="sm" onClick={() => setAccessUser(user)}>
+                            <BuildingStorefrontIcon className="h-4 w-4 mr-1" />
+                            Stores
+                          </Button>
                           {/* Don't allow changing owner role unless current user is also owner */}
-                          {(!isCurrentUserOwner || isOwner) && user.status !== 'invited' && (
+                          {(!isCurrentUserOwner || isOwner) && (
                             <Button
                               variant="outline"
                               size="sm"
@@ -330,72 +358,34 @@ const UserManagement: React.FC = () => {
         )}
       </Widget>
 
-      {/* Invite User Modal */}
-      <Modal
+      <StoreAccessMatrix
+        users={filteredUsers}
+        stores={stores}
+        rolesByStore={rolesByStore}
+        canManage={canManageUsers}
+        onEdit={setAccessUser}
+      />
+
+      <InviteUserModal
         isOpen={inviteModalOpen}
-        onClose={() => {
-          setInviteModalOpen(false);
-          setInviteForm({ email: '', role: 'staff' });
-          setInviteErrors({});
-        }}
-        title="Invite User"
-        size="md"
-        footer={
-          <div className="flex justify-end gap-3">
-            <Button
-              variant="outline"
-              onClick={() => {
-                setInviteModalOpen(false);
-                setInviteForm({ email: '', role: 'staff' });
-                setInviteErrors({});
-              }}
-              disabled={inviting}
-            >
-              Cancel
-            </Button>
-            <Button
-              variant="primary"
-              onClick={handleInviteUser}
-              isLoading={inviting}
-              disabled={inviting}
-            >
-              <EnvelopeIcon className="h-4 w-4 mr-2" />
-              Send Invitation
-            </Button>
-          </div>
-        }
-      >
-        <div className="space-y-4">
-          <InputTextField
-            label="Email Address"
-            required
-            value={inviteForm.email}
-            onChange={(value) => {
-              setInviteForm((prev) => ({ ...prev, email: value }));
-              if (inviteErrors.email) setInviteErrors((prev) => ({ ...prev, email: '' }));
-            }}
-            placeholder="colleague@company.com"
-            error={inviteErrors.email}
-          />
-          <DropdownSearch
-            label="Role"
-            value={inviteForm.role}
-            options={roleOptions}
-            onSelect={(option) => setInviteForm((prev) => ({ ...prev, role: (option?.id as TenantRole) || 'staff' }))}
-            placeholder="Select role"
-            required
-          />
-          <div className="p-3 bg-gray-50 rounded-lg">
-            <h4 className="text-xs font-semibold text-gray-700 mb-2">Role Permissions:</h4>
-            <ul className="text-xs text-gray-500 space-y-1">
-              <li><strong>Owner:</strong> Full access — billing, users, stores, settings</li>
-              <li><strong>Admin:</strong> Users + stores + settings (read-only billing)</li>
-              <li><strong>Staff:</strong> No tenant dashboard access</li>
-              <li><strong>Viewer:</strong> No tenant dashboard access</li>
-            </ul>
-          </div>
-        </div>
-      </Modal>
+        onClose={() => setInviteModalOpen(false)}
+        users={users}
+        invitations={invitations}
+        stores={stores}
+        rolesByStore={rolesByStore}
+        rolesLoading={rolesLoading}
+        onInvite={handleInviteUser}
+      />
+
+      <StoreAccessModal
+        isOpen={!!accessUser}
+        onClose={() => setAccessUser(null)}
+        user={accessUser}
+        stores={stores}
+        rolesByStore={rolesByStore}
+        rolesLoading={rolesLoading}
+        onSave={handleSaveStoreAccess}
+      />
 
       {/* Confirm Dialog */}
       <ConfirmDialog
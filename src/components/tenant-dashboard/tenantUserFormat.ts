@@ -0,0 +1,22 @@
+import type { BadgeProps } from '../ui';
+import type { TenantRole, TenantUser } from '../../services/types/tenant-dashboard.types';
+
+export const ROLE_OPTIONS: { id: TenantRole; label: string; description: string }[] = [
+  { id: 'owner', label: 'Owner', description: 'Full access — billing, users, stores, settings' },
+  { id: 'admin', label: 'Admin', description: 'Users + stores + settings (read-only billing)' },
+  { id: 'staff', label: 'Staff', description: 'No tenant dashboard access' },
+  { id: 'viewer', label: 'Viewer', description: 'No tenant dashboard access' },
+];
+
+export const ROLE_COLORS: Record<TenantRole, NonNullable<BadgeProps['color']>> = {
+  owner: 'purple',
+  admin: 'blue',
+  staff: 'green',
+  viewer: 'gray',
+};
+
+export const USER_STATUS_COLORS: Record<TenantUser['status'], NonNullable<BadgeProps['color']>> = {
+  active: 'green',
+  invited: 'yellow',
+  deactivated: 'gray',
+};
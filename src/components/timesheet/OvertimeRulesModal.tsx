@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, Button } from '../ui';
+import { WEEK_DAYS } from '../../services/schedule';
+import type { WeekDay } from '../../services/schedule';
+import type { OvertimeRules, PayPeriodFrequency, UpdateOvertimeRulesRequest } from '../../services/timesheet';
+
+interface OvertimeRulesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  rules: OvertimeRules;
+  onSave: (data: UpdateOvertimeRulesRequest) => Promise<void>;
+}
+
+type RulesForm = Omit<OvertimeRules, 'store_id' | 'updated_at' | 'updated_by'>;
+
+const inputClass = 'w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+const labelClass = 'block text-sm font-medium text-gray-700 mb-1';
+
+const toForm = (rules: OvertimeRules): RulesForm => ({
+  daily_overtime_hours: rules.daily_overtime_hours,
+  daily_double_time_hours: rules.daily_double_time_hours,
+  weekly_overtime_hours: rules.weekly_overtime_hours,
+  overtime_multiplier: rules.overtime_multiplier,
+  double_time_multiplier: rules.double_time_multiplier,
+  auto_break_after_hours: rules.auto_break_after_hours,
+  auto_break_minutes: rules.auto_break_minutes,
+  pay_period_frequency: rules.pay_period_frequency,
+  week_start_day: rules.week_start_day,
+  pay_period_anchor: rules.pay_period_anchor
+});
+
+// Empty threshold inputs turn the rule off
+const parseThreshold = (value: string): number | null => (value === '' ? null : Math.max(0, Number(value)));
+
+const OvertimeRulesModal: React.FC<OvertimeRulesModalProps> = ({ isOpen, onClose, rules, onSave }) => {
+  const [form, setForm] = useState<RulesForm>(() => toForm(rules));
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) setForm(toForm(rules));
+  }, [isOpen, rules]);
+
+  const update = (changes: Partial<RulesForm>) => setForm(prev => ({ ...prev, ...changes }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await onSave(form);
+      onClose();
+    } catch (error) {
+      console.error('Failed to save overtime rules:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const thresholdInput = (key: 'daily_overtime_hours' | 'daily_double_time_hours' | 'weekly_overtime_hours' | 'auto_break_after_hours', label: string) => (
+    <div>
+      <label className={labelClass}>{label}</label>
+      <input
+        type="number"
+        min={0}
+        step={0.5}
+        value={form[key] ?? ''}
+        onChange={(e) => update({ [key]: parseThreshold(e.target.value) })}
+        placeholder="Off"
+        className={inputClass}
+      />
+    </div>
+  );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Overtime & Pay Period Rules"
+      size="lg"
+      footer={
+        <div className="flex justify-end space-x-3">
+          <Button type="button" variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button type="submit" form="overtime-rules-form" isLoading={saving}>
+            Save Rules
+          </Button>
+        </div>
+      }
+    >
+      <form id="overtime-rules-form" onSubmit={handleSubmit} className="space-y-6">
+        <section className="space-y-3">
+          <h4 className="text-sm font-semibold text-gray-900">Overtime thresholds (hours)</h4>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            {thresholdInput('daily_overtime_hours', 'Daily overtime after')}
+            {thresholdInput('daily_double_time_hours', 'Daily double time after')}
+            {thresholdInput('weekly_overtime_hours', 'Weekly overtime after')}
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Overtime multiplier</label>
+              <input
+                type="number"
+                min={1}
+                step={0.05}
+                value={form.overtime_multiplier}
+                onChange={(e) => update({ overtime_multiplier: Number(e.target.value) || 1 })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Double time multiplier</label>
+              <input
+                type="number"
+                min={1}
+                step={0.05}
+                value={form.double_time_multiplier}
+                onChange={(e) => update({ double_time_multiplier: Number(e.target.value) || 1 })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">Leave a threshold empty to turn it off.</p>
+        </section>
+
+        <section className="space-y-3">
+          <h4 className="text-sm font-semibold text-gray-900">Break deduction</h4>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {thresholdInput('auto_break_after_hours', 'Deduct a break for entries over (hours)')}
+            <div>
+              <label className={labelClass}>Minimum break (min)</label>
+              <input
+                type="number"
+                min={0}
+                step={5}
+                value={form.auto_break_minutes}
+                onChange={(e) => update({ auto_break_minutes: Math.max(0, Number(e.target.value) || 0) })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">Recorded breaks shorter than the minimum are raised to it.</p>
+        </section>
+
+        <section className="space-y-3">
+          <h4 className="text-sm font-semibold text-gray-900">Pay periods</h4>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <label className={labelClass}>Frequency</label>
+              <select
+                value={form.pay_period_frequency}
+                onChange={(e) => update({ pay_period_frequency: e.target.value as PayPeriodFrequency })}
+                className={inputClass}
+              >
+                <option value="weekly">Weekly</option>
+                <option value="biweekly">Every two weeks</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Week starts on</label>
+              <select
+                value={form.week_start_day}
+                onChange={(e) => update({ week_start_day: e.target.value as WeekDay })}
+                className={`${inputClass} capitalize`}
+              >
+                {WEEK_DAYS.map(day => (
+                  <option key={day} value={day}>{day.charAt(0).toUpperCase() + day.slice(1)}</option>
+                ))}
+              </select>
+            </div>
+            {form.pay_period_frequency === 'biweekly' && (
+              <div>
+                <label className={labelClass}>A period starting on</label>
+                <input
+                  type="date"
+                  value={form.pay_period_anchor}
+                  onChange={(e) => e.target.value && update({ pay_period_anchor: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            )}
+          </div>
+        </section>
+      </form>
+    </Modal>
+  );
+};
+
+export default OvertimeRulesModal;
@@ -0,0 +1,207 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, Button } from '../ui';
+import { getEntryWorkedMinutes } from '../../services/timesheet';
+import type { CreateTimesheetAdjustmentRequest, TimeEntry } from '../../services/timesheet';
+import type { ReasonCode } from '../../types/reasonCode';
+import { formatMinutes } from './timesheetFormat';
+
+interface TimeEntryEditModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Entry being corrected; omit to add a missed entry */
+  entry?: TimeEntry | null;
+  userId: string;
+  /** Day for a new entry */
+  date?: string;
+  reasonCodes: ReasonCode[];
+  onSubmit: (data: CreateTimesheetAdjustmentRequest) => Promise<void>;
+}
+
+const inputClass = 'w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+const labelClass = 'block text-sm font-medium text-gray-700 mb-1';
+
+// datetime-local inputs work in local time without a zone
+const toLocalInput = (timestamp: string | null | undefined): string => {
+  if (!timestamp) return '';
+  const date = new Date(timestamp);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const fromLocalInput = (value: string): string | undefined => (value ? new Date(value).toISOString() : undefined);
+
+const TimeEntryEditModal: React.FC<TimeEntryEditModalProps> = ({
+  isOpen,
+  onClose,
+  entry,
+  userId,
+  date,
+  reasonCodes,
+  onSubmit
+}) => {
+  const [clockIn, setClockIn] = useState('');
+  const [clockOut, setClockOut] = useState('');
+  const [breakMinutes, setBreakMinutes] = useState(0);
+  const [reasonCode, setReasonCode] = useState('');
+  const [comment, setComment] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setClockIn(entry ? toLocalInput(entry.clock_in) : date ? `${date}T09:00` : '');
+    setClockOut(entry ? toLocalInput(entry.clock_out) : date ? `${date}T17:00` : '');
+    setBreakMinutes(entry?.break_minutes ?? 0);
+    setReasonCode('');
+    setComment('');
+  }, [isOpen, entry, date]);
+
+  const selectedReason = reasonCodes.find(code => code.code === reasonCode);
+  const commentRequired = Boolean(selectedReason?.req_cmt);
+  const outBeforeIn = Boolean(clockIn && clockOut && clockOut <= clockIn);
+  const isValid = Boolean(clockIn && reasonCode && !outBeforeIn && (!commentRequired || comment.trim()));
+
+  const preview = clockIn && clockOut && !outBeforeIn
+    ? getEntryWorkedMinutes({ clock_in: new Date(clockIn).toISOString(), clock_out: new Date(clockOut).toISOString() }) - breakMinutes
+    : null;
+
+  const submit = async (action: CreateTimesheetAdjustmentRequest['action']) => {
+    setSaving(true);
+    try {
+      await onSubmit({
+        user_id: userId,
+        entry_id: entry?.entry_id,
+        action,
+        ...(action !== 'delete' && {
+          clock_in: fromLocalInput(clockIn),
+          clock_out: fromLocalInput(clockOut),
+          break_minutes: breakMinutes
+        }),
+        reason_code: reasonCode,
+        comment: comment.trim() || undefined
+      });
+      onClose();
+    } catch (error) {
+      console.error('Failed to save timesheet adjustment:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+    submit(entry ? 'update' : 'add');
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={entry ? 'Edit Time Entry' : 'Add Missed Entry'}
+      size="md"
+      footer={
+        <div className="flex w-full items-center justify-between">
+          <div>
+            {entry && (
+              <Button
+                type="button"
+                variant="destructiveReverse"
+                onClick={() => submit('delete')}
+                disabled={saving || !reasonCode || (commentRequired && !comment.trim())}
+              >
+                Remove Entry
+              </Button>
+            )}
+          </div>
+          <div className="flex space-x-3">
+            <Button type="button" variant="outline" onClick={onClose} disabled={saving}>
+              Cancel
+            </Button>
+            <Button type="submit" form="time-entry-form" isLoading={saving} disabled={!isValid}>
+              {entry ? 'Save Changes' : 'Add Entry'}
+            </Button>
+          </div>
+        </div>
+      }
+    >
+      <form id="time-entry-form" onSubmit={handleSubmit} className="space-y-4">
+        {entry?.source === 'punch' && (
+          <p className="text-sm text-gray-500">
+            The original punches are kept; this change is recorded as an adjustment with the reason below.
+          </p>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className={labelClass}>Clock in</label>
+            <input
+              type="datetime-local"
+              value={clockIn}
+              onChange={(e) => setClockIn(e.target.value)}
+              className={inputClass}
+              required
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Clock out</label>
+            <input
+              type="datetime-local"
+              value={clockOut}
+              onChange={(e) => setClockOut(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+        </div>
+        {outBeforeIn && <p className="text-sm text-red-600">Clock out must be after clock in.</p>}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className={labelClass}>Break (min)</label>
+            <input
+              type="number"
+              min={0}
+              step={5}
+              value={breakMinutes}
+              onChange={(e) => setBreakMinutes(Math.max(0, Number(e.target.value) || 0))}
+              className={inputClass}
+            />
+          </div>
+          <div className="flex items-end pb-2 text-sm text-gray-600">
+            {preview !== null && <>Paid before automatic breaks: <span className="ml-1 font-medium">{formatMinutes(Math.max(0, preview))}</span></>}
+          </div>
+        </div>
+
+        <div>
+          <label className={labelClass}>Reason</label>
+          <select
+            value={reasonCode}
+            onChange={(e) => setReasonCode(e.target.value)}
+            className={inputClass}
+            required
+          >
+            <option value="">Select a reason...</option>
+            {reasonCodes.map(code => (
+              <option key={code.code} value={code.code}>{code.code} - {code.description}</option>
+            ))}
+          </select>
+          {reasonCodes.length === 0 && (
+            <p className="mt-1 text-xs text-gray-500">Add reason codes with the Timesheet Edit category under Reason Codes.</p>
+          )}
+        </div>
+
+        <div>
+          <label className={labelClass}>Comment{commentRequired && ' (required)'}</label>
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            rows={2}
+            className={inputClass}
+            required={commentRequired}
+          />
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default TimeEntryEditModal;
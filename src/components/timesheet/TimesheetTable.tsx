@@ -0,0 +1,146 @@
+import React from 'react';
+import { ExclamationTriangleIcon, PencilIcon, PlusIcon } from '@heroicons/react/24/outline';
+import { parseDateKey } from '../../services/schedule';
+import { getEntryBreakMinutes, getEntryWorkedMinutes } from '../../services/timesheet';
+import type { OvertimeRules, TimeEntry, Timesheet } from '../../services/timesheet';
+import { formatClockTime, formatMinutes } from './timesheetFormat';
+
+interface TimesheetTableProps {
+  timesheet: Timesheet;
+  rules: OvertimeRules;
+  /** False once the pay period is approved or locked */
+  editable?: boolean;
+  onEditEntry?: (entry: TimeEntry) => void;
+  onAddEntry?: (date: string) => void;
+}
+
+const TimesheetTable: React.FC<TimesheetTableProps> = ({ timesheet, rules, editable = false, onEditEntry, onAddEntry }) => {
+  const { days, totals, warnings } = timesheet;
+  const warnedEntries = new Set(warnings.map(warning => warning.entry_id).filter(Boolean));
+
+  return (
+    <div className="space-y-3">
+      <div className="overflow-x-auto rounded-lg border border-gray-200 bg-white">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr className="text-left text-xs font-medium uppercase text-gray-500">
+              <th className="px-3 py-2">Date</th>
+              <th className="px-3 py-2">In</th>
+              <th className="px-3 py-2">Out</th>
+              <th className="px-3 py-2 text-right">Break</th>
+              <th className="px-3 py-2 text-right">Paid</th>
+              <th className="px-3 py-2 text-right">Regular</th>
+              <th className="px-3 py-2 text-right">Overtime</th>
+              <th className="px-3 py-2 text-right">Double</th>
+              {editable && <th className="px-3 py-2 w-16"></th>}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {days.map(day => {
+              const label = parseDateKey(day.date).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+              const rowCount = Math.max(1, day.entries.length);
+
+              return Array.from({ length: rowCount }, (_, index) => {
+                const entry = day.entries[index];
+                const isFirst = index === 0;
+                return (
+                  <tr key={`${day.date}-${entry?.entry_id || 'empty'}`} className={entry && warnedEntries.has(entry.entry_id) ? 'bg-yellow-50' : ''}>
+                    <td className="px-3 py-2 whitespace-nowrap text-gray-900">
+                      {isFirst && <span className="font-medium">{label}</span>}
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap text-gray-700">{entry ? formatClockTime(entry.clock_in) : ''}</td>
+                    <td className="px-3 py-2 whitespace-nowrap text-gray-700">
+                      {entry && (entry.clock_out ? formatClockTime(entry.clock_out) : (
+                        <span className="inline-flex items-center text-yellow-700">
+                          <ExclamationTriangleIcon className="h-4 w-4 mr-1" />
+                          Open
+                        </span>
+                      ))}
+                      {entry?.adjustment && (
+                        <span
+                          className="ml-2 inline-flex items-center rounded bg-purple-100 px-1.5 py-0.5 text-[11px] font-medium text-purple-800"
+                          title={`${entry.adjustment.reason_code}${entry.adjustment.comment ? `: ${entry.adjustment.comment}` : ''}`}
+                        >
+                          {entry.source === 'manual' ? 'Added' : 'Edited'}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-600">
+                      {entry ? formatMinutes(getEntryBreakMinutes(entry, rules)) : ''}
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-900">
+                      {entry
+                        ? formatMinutes(getEntryWorkedMinutes(entry) - getEntryBreakMinutes(entry, rules))
+                        : <span className="text-gray-300">—</span>}
+                    </td>
+                    {/* Overtime is decided per day, so the split only shows on the day's first row */}
+                    <td className="px-3 py-2 text-right text-gray-700">{isFirst && day.paid_minutes > 0 ? formatMinutes(day.regular_minutes) : ''}</td>
+                    <td className={`px-3 py-2 text-right ${day.overtime_minutes > 0 ? 'font-medium text-orange-600' : 'text-gray-700'}`}>
+                      {isFirst && day.overtime_minutes > 0 ? formatMinutes(day.overtime_minutes) : ''}
+                    </td>
+                    <td className={`px-3 py-2 text-right ${day.double_time_minutes > 0 ? 'font-medium text-red-600' : 'text-gray-700'}`}>
+                      {isFirst && day.double_time_minutes > 0 ? formatMinutes(day.double_time_minutes) : ''}
+                    </td>
+                    {editable && (
+                      <td className="px-3 py-2 text-right whitespace-nowrap">
+                        {entry && onEditEntry && (
+                          <button
+                            type="button"
+                            onClick={() => onEditEntry(entry)}
+                            className="rounded p-1 text-gray-500 hover:bg-gray-100"
+                            title="Edit entry"
+                          >
+                            <PencilIcon className="h-4 w-4" />
+                          </button>
+                        )}
+                        {isFirst && onAddEntry && (
+                          <button
+                            type="button"
+                            onClick={() => onAddEntry(day.date)}
+                            className="rounded p-1 text-gray-500 hover:bg-gray-100"
+                            title="Add missed entry"
+                          >
+                            <PlusIcon className="h-4 w-4" />
+                          </button>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                );
+              });
+            })}
+          </tbody>
+          <tfoot className="bg-gray-50 font-semibold text-gray-900">
+            <tr>
+              <td className="px-3 py-2" colSpan={3}>Total</td>
+              <td className="px-3 py-2 text-right">{formatMinutes(totals.break_minutes)}</td>
+              <td className="px-3 py-2 text-right">{formatMinutes(totals.paid_minutes)}</td>
+              <td className="px-3 py-2 text-right">{formatMinutes(totals.regular_minutes)}</td>
+              <td className="px-3 py-2 text-right text-orange-600">{formatMinutes(totals.overtime_minutes)}</td>
+              <td className="px-3 py-2 text-right text-red-600">{formatMinutes(totals.double_time_minutes)}</td>
+              {editable && <td></td>}
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+
+      {warnings.length > 0 && (
+        <div className="rounded-md border border-yellow-200 bg-yellow-50 p-3">
+          <div className="flex items-center text-sm font-medium text-yellow-800">
+            <ExclamationTriangleIcon className="h-4 w-4 mr-1" />
+            Needs attention before approval
+          </div>
+          <ul className="mt-1 list-disc pl-5 text-sm text-yellow-700">
+            {warnings.map((warning, index) => (
+              <li key={`${warning.type}-${warning.date}-${index}`}>
+                {parseDateKey(warning.date).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}: {warning.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TimesheetTable;
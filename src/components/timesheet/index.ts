@@ -0,0 +1,9 @@
+export { default as TimesheetTable } from './TimesheetTable';
+export { default as TimeEntryEditModal } from './TimeEntryEditModal';
+export { default as OvertimeRulesModal } from './OvertimeRulesModal';
+export {
+  formatMinutes,
+  formatClockTime,
+  PAY_PERIOD_STATUS_STYLES,
+  PAY_PERIOD_STATUS_LABELS
+} from './timesheetFormat';
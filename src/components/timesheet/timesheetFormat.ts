@@ -0,0 +1,23 @@
+import type { PayPeriodStatus } from '../../services/timesheet';
+
+/** 0 → "0:00", 485 → "8:05" */
+export const formatMinutes = (minutes: number): string => {
+  const sign = minutes < 0 ? '-' : '';
+  const abs = Math.abs(Math.round(minutes));
+  return `${sign}${Math.floor(abs / 60)}:${String(abs % 60).padStart(2, '0')}`;
+};
+
+export const formatClockTime = (timestamp: string | null): string =>
+  timestamp ? new Date(timestamp).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' }) : '—';
+
+export const PAY_PERIOD_STATUS_STYLES: Record<PayPeriodStatus, string> = {
+  open: 'bg-blue-100 text-blue-800',
+  approved: 'bg-green-100 text-green-800',
+  locked: 'bg-gray-200 text-gray-800'
+};
+
+export const PAY_PERIOD_STATUS_LABELS: Record<PayPeriodStatus, string> = {
+  open: 'Open',
+  approved: 'Approved',
+  locked: 'Locked'
+};
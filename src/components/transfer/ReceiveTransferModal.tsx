@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, Button } from '../ui';
+import { validateTransferReceipt } from '../../services/transfer';
+import type { ReceiveStockTransferRequest, StockTransfer } from '../../services/transfer';
+
+interface ReceiveTransferModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  transfer: StockTransfer | null;
+  sourceName: string;
+  onReceive: (transfer: StockTransfer, data: ReceiveStockTransferRequest) => Promise<void>;
+}
+
+interface ReceiptRow {
+  quantity: string;
+  reason: string;
+}
+
+const inputClass = 'w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+const ReceiveTransferModal: React.FC<ReceiveTransferModalProps> = ({
+  isOpen,
+  onClose,
+  transfer,
+  sourceName,
+  onReceive
+}) => {
+  const [rows, setRows] = useState<Record<string, ReceiptRow>>({});
+  const [comment, setComment] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !transfer) return;
+    // Start from what the sender shipped so only differences need typing
+    setRows(Object.fromEntries(transfer.lines.map(line => [
+      line.line_id,
+      { quantity: String(line.quantity_shipped), reason: '' }
+    ])));
+    setComment('');
+  }, [isOpen, transfer]);
+
+  if (!transfer) return null;
+
+  const shippedLines = transfer.lines.filter(line => line.quantity_shipped > 0);
+
+  const updateRow = (lineId: string, changes: Partial<ReceiptRow>) => {
+    setRows(prev => ({ ...prev, [lineId]: { ...prev[lineId], ...changes } }));
+  };
+
+  const request: ReceiveStockTransferRequest = {
+    lines: shippedLines.map(line => {
+      const row = rows[line.line_id];
+      const quantity = row?.quantity === '' || row?.quantity === undefined ? NaN : Number(row.quantity);
+      return {
+        line_id: line.line_id,
+        quantity,
+        discrepancy_reason: quantity !== line.quantity_shipped ? row?.reason.trim() || undefined : undefined
+      };
+    }),
+    comment: comment.trim() || undefined
+  };
+
+  const validationError = validateTransferReceipt(transfer, request.lines);
+  const discrepancyCount = request.lines.filter((input, index) => input.quantity !== shippedLines[index].quantity_shipped).length;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (validationError) return;
+
+    setSaving(true);
+    try {
+      await onReceive(transfer, request);
+      onClose();
+    } catch (error) {
+      console.error('Failed to receive stock transfer:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Receive ${transfer.transfer_number}`}
+      size="lg"
+      footer={
+        <div className="flex w-full items-center justify-between">
+          <span className={`text-sm ${discrepancyCount > 0 ? 'text-orange-700' : 'text-gray-600'}`}>
+            {discrepancyCount > 0 ? `${discrepancyCount} line(s) differ from the shipment` : 'Matches the shipment'}
+          </span>
+          <div className="flex space-x-3">
+            <Button type="button" variant="outline" onClick={onClose} disabled={saving}>
+              Cancel
+            </Button>
+            <Button type="submit" form="receive-transfer-form" isLoading={saving} disabled={Boolean(validationError)}>
+              Confirm Receipt
+            </Button>
+          </div>
+        </div>
+      }
+    >
+      <form id="receive-transfer-form" onSubmit={handleSubmit} className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Count what arrived from <span className="font-medium text-gray-900">{sourceName}</span>.
+          Received quantities are added to this store; any difference is recorded as a discrepancy.
+        </p>
+
+        <div className="overflow-x-auto rounded-lg border border-gray-200">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-xs font-medium uppercase text-gray-500">
+                <th className="px-3 py-2">Item</th>
+                <th className="px-3 py-2 text-right">Shipped</th>
+                <th className="px-3 py-2 w-28">Received</th>
+                <th className="px-3 py-2">Discrepancy reason</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {shippedLines.map(line => {
+                const row = rows[line.line_id];
+                const differs = row !== undefined && row.quantity !== '' && Number(row.quantity) !== line.quantity_shipped;
+                return (
+                  <tr key={line.line_id} className={differs ? 'bg-orange-50' : ''}>
+                    <td className="px-3 py-2">
+                      <div className="font-medium text-gray-900">{line.item_name}</div>
+                      <div className="text-xs text-gray-500">{line.item_id}</div>
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-700">{line.quantity_shipped}</td>
+                    <td className="px-3 py-2">
+                      <input
+                        type="number"
+                        min={0}
+                        step="any"
+                        value={row?.quantity ?? ''}
+                        onChange={(e) => updateRow(line.line_id, { quantity: e.target.value })}
+                        className={inputClass}
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <input
+                        type="text"
+                        value={row?.reason ?? ''}
+                        onChange={(e) => updateRow(line.line_id, { reason: e.target.value })}
+                        disabled={!differs}
+                        placeholder={differs ? 'Damaged, missing, miscount...' : ''}
+                        className={`${inputClass} disabled:bg-gray-50`}
+                      />
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+        {validationError && <p className="text-sm text-red-600">{validationError}</p>}
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Comment</label>
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            rows={2}
+            className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default ReceiveTransferModal;
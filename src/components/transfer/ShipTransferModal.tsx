@@ -0,0 +1,142 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Modal, Button } from '../ui';
+import { validateShipment } from '../../services/transfer';
+import type { ShipStockTransferRequest, StockTransfer } from '../../services/transfer';
+import type { InventoryAlertSettings, InventoryItem } from '../../services/inventory';
+
+interface ShipTransferModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  transfer: StockTransfer | null;
+  destinationName: string;
+  /** Sending store's tracked items, for on-hand checks */
+  items: InventoryItem[];
+  settings: InventoryAlertSettings;
+  onShip: (transfer: StockTransfer, data: ShipStockTransferRequest) => Promise<void>;
+}
+
+const inputClass = 'w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+const ShipTransferModal: React.FC<ShipTransferModalProps> = ({
+  isOpen,
+  onClose,
+  transfer,
+  destinationName,
+  items,
+  settings,
+  onShip
+}) => {
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [comment, setComment] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !transfer) return;
+    setQuantities(Object.fromEntries(transfer.lines.map(line => [line.line_id, String(line.quantity_requested)])));
+    setComment('');
+  }, [isOpen, transfer]);
+
+  const onHand = useMemo(() => new Map(items.map(item => [item.item_id, item.on_hand])), [items]);
+
+  if (!transfer) return null;
+
+  const request: ShipStockTransferRequest = {
+    lines: transfer.lines.map(line => ({
+      line_id: line.line_id,
+      quantity: quantities[line.line_id] ? Number(quantities[line.line_id]) : 0
+    })),
+    comment: comment.trim() || undefined
+  };
+
+  const validationError = validateShipment(transfer, request.lines, onHand, settings);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (validationError) return;
+
+    setSaving(true);
+    try {
+      await onShip(transfer, request);
+      onClose();
+    } catch (error) {
+      console.error('Failed to ship stock transfer:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Ship ${transfer.transfer_number}`}
+      size="lg"
+      footer={
+        <div className="flex justify-end space-x-3">
+          <Button type="button" variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button type="submit" form="ship-transfer-form" isLoading={saving} disabled={Boolean(validationError)}>
+            Ship Stock
+          </Button>
+        </div>
+      }
+    >
+      <form id="ship-transfer-form" onSubmit={handleSubmit} className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Confirm what is leaving for <span className="font-medium text-gray-900">{destinationName}</span>.
+          Shipped quantities are removed from this store now and added at the destination once it confirms receipt.
+        </p>
+
+        <div className="overflow-x-auto rounded-lg border border-gray-200">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-xs font-medium uppercase text-gray-500">
+                <th className="px-3 py-2">Item</th>
+                <th className="px-3 py-2 text-right">On Hand</th>
+                <th className="px-3 py-2 text-right">Requested</th>
+                <th className="px-3 py-2 w-28">Ship</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {transfer.lines.map(line => (
+                <tr key={line.line_id}>
+                  <td className="px-3 py-2">
+                    <div className="font-medium text-gray-900">{line.item_name}</div>
+                    <div className="text-xs text-gray-500">{line.item_id}</div>
+                  </td>
+                  <td className="px-3 py-2 text-right text-gray-700">{onHand.get(line.item_id) ?? 0}</td>
+                  <td className="px-3 py-2 text-right text-gray-700">{line.quantity_requested}</td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={quantities[line.line_id] ?? ''}
+                      onChange={(e) => setQuantities(prev => ({ ...prev, [line.line_id]: e.target.value }))}
+                      className={inputClass}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {validationError && <p className="text-sm text-red-600">{validationError}</p>}
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Comment</label>
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            rows={2}
+            placeholder="Carrier, tracking number or packing note"
+            className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default ShipTransferModal;
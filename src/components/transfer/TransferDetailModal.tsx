@@ -0,0 +1,129 @@
+import React from 'react';
+import { Modal, Button, Badge } from '../ui';
+import { TRANSFER_STATUS_COLORS, TRANSFER_STATUS_LABELS } from './transferFormat';
+import type { StockTransfer } from '../../services/transfer';
+
+interface TransferDetailModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  transfer: StockTransfer | null;
+  storeNames: Map<string, string>;
+}
+
+const formatTimestamp = (value?: string) => (value ? new Date(value).toLocaleString() : '—');
+
+const TransferDetailModal: React.FC<TransferDetailModalProps> = ({ isOpen, onClose, transfer, storeNames }) => {
+  if (!transfer) return null;
+
+  const isReceived = transfer.status === 'received';
+  const storeName = (storeId: string) => storeNames.get(storeId) || storeId;
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={transfer.transfer_number}
+      size="lg"
+      footer={
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={onClose}>Close</Button>
+        </div>
+      }
+    >
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <Badge color={TRANSFER_STATUS_COLORS[transfer.status]} size="sm">{TRANSFER_STATUS_LABELS[transfer.status]}</Badge>
+          <span className="text-gray-900">
+            {storeName(transfer.source_store_id)} <span className="text-gray-400">→</span> {storeName(transfer.destination_store_id)}
+          </span>
+        </div>
+
+        <dl className="grid grid-cols-1 gap-3 text-sm sm:grid-cols-3">
+          <div>
+            <dt className="text-gray-500">Created</dt>
+            <dd className="text-gray-900">{formatTimestamp(transfer.created_at)}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Shipped</dt>
+            <dd className="text-gray-900">{formatTimestamp(transfer.shipped_at)}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">{transfer.status === 'cancelled' ? 'Cancelled' : 'Received'}</dt>
+            <dd className="text-gray-900">
+              {formatTimestamp(transfer.status === 'cancelled' ? transfer.cancelled_at : transfer.received_at)}
+            </dd>
+          </div>
+        </dl>
+
+        <div className="overflow-x-auto rounded-lg border border-gray-200">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-xs font-medium uppercase text-gray-500">
+                <th className="px-3 py-2">Item</th>
+                <th className="px-3 py-2 text-right">Requested</th>
+                <th className="px-3 py-2 text-right">Shipped</th>
+                <th className="px-3 py-2 text-right">Received</th>
+                {isReceived && <th className="px-3 py-2">Discrepancy</th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {transfer.lines.map(line => {
+                const difference = line.quantity_received - line.quantity_shipped;
+                return (
+                  <tr key={line.line_id} className={isReceived && difference !== 0 ? 'bg-orange-50' : ''}>
+                    <td className="px-3 py-2">
+                      <div className="font-medium text-gray-900">{line.item_name}</div>
+                      <div className="text-xs text-gray-500">{line.item_id}</div>
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-700">{line.quantity_requested}</td>
+                    <td className="px-3 py-2 text-right text-gray-700">{transfer.status === 'draft' ? '—' : line.quantity_shipped}</td>
+                    <td className="px-3 py-2 text-right text-gray-700">{isReceived ? line.quantity_received : '—'}</td>
+                    {isReceived && (
+                      <td className="px-3 py-2">
+                        {difference !== 0 ? (
+                          <div>
+                            <span className={`font-medium ${difference < 0 ? 'text-red-600' : 'text-orange-600'}`}>
+                              {difference > 0 ? `+${difference}` : difference}
+                            </span>
+                            {line.discrepancy_reason && <span className="ml-2 text-gray-600">{line.discrepancy_reason}</span>}
+                          </div>
+                        ) : (
+                          <span className="text-gray-300">—</span>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {(transfer.notes || transfer.ship_comment || transfer.receive_comment) && (
+          <dl className="space-y-2 text-sm">
+            {transfer.notes && (
+              <div>
+                <dt className="text-gray-500">Notes</dt>
+                <dd className="text-gray-900">{transfer.notes}</dd>
+              </div>
+            )}
+            {transfer.ship_comment && (
+              <div>
+                <dt className="text-gray-500">Shipping comment</dt>
+                <dd className="text-gray-900">{transfer.ship_comment}</dd>
+              </div>
+            )}
+            {transfer.receive_comment && (
+              <div>
+                <dt className="text-gray-500">Receiving comment</dt>
+                <dd className="text-gray-900">{transfer.receive_comment}</dd>
+              </div>
+            )}
+          </dl>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default TransferDetailModal;
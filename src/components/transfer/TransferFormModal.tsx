@@ -0,0 +1,205 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { TrashIcon } from '@heroicons/react/24/outline';
+import { Modal, Button, DropdownSearch } from '../ui';
+import type {
+  CreateStockTransferRequest,
+  StockTransfer,
+  StockTransferLineInput
+} from '../../services/transfer';
+import type { InventoryItem } from '../../services/inventory';
+import type { Store } from '../../tenants/tenantStore';
+
+interface TransferFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Draft being edited; omit to create one */
+  transfer?: StockTransfer | null;
+  /** Stores that can receive the stock, excluding the sending store */
+  destinations: Store[];
+  /** Sending store's tracked items */
+  items: InventoryItem[];
+  onSave: (data: CreateStockTransferRequest, transferId?: string) => Promise<void>;
+}
+
+const inputClass = 'w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+const labelClass = 'block text-sm font-medium text-gray-700 mb-1';
+
+const TransferFormModal: React.FC<TransferFormModalProps> = ({
+  isOpen,
+  onClose,
+  transfer,
+  destinations,
+  items,
+  onSave
+}) => {
+  const [destinationId, setDestinationId] = useState('');
+  const [notes, setNotes] = useState('');
+  const [lines, setLines] = useState<StockTransferLineInput[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setDestinationId(transfer?.destination_store_id || '');
+    setNotes(transfer?.notes || '');
+    setLines(transfer?.lines.map(({ item_id, item_name, quantity_requested }) => ({
+      item_id,
+      item_name,
+      quantity_requested
+    })) || []);
+  }, [isOpen, transfer]);
+
+  const onHand = useMemo(() => new Map(items.map(item => [item.item_id, item.on_hand])), [items]);
+
+  const itemOptions = useMemo(
+    () => items.map(item => ({
+      id: item.item_id,
+      label: item.name,
+      description: `${item.item_id} · ${item.on_hand} on hand`
+    })),
+    [items]
+  );
+
+  const addItem = (itemId: string) => {
+    const item = items.find(candidate => candidate.item_id === itemId);
+    if (!item) return;
+
+    setLines(prev => (prev.some(line => line.item_id === itemId)
+      ? prev.map(line => (line.item_id === itemId ? { ...line, quantity_requested: line.quantity_requested + 1 } : line))
+      : [...prev, { item_id: item.item_id, item_name: item.name, quantity_requested: 1 }]));
+  };
+
+  const updateQuantity = (itemId: string, quantity: number) => {
+    setLines(prev => prev.map(line => (line.item_id === itemId ? { ...line, quantity_requested: quantity } : line)));
+  };
+
+  const isValid = Boolean(destinationId && lines.length > 0 && lines.every(line => line.quantity_requested > 0));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+
+    setSaving(true);
+    try {
+      await onSave({
+        destination_store_id: destinationId,
+        lines,
+        notes: notes.trim() || undefined
+      }, transfer?.transfer_id);
+      onClose();
+    } catch (error) {
+      console.error('Failed to save stock transfer:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={transfer ? `Edit ${transfer.transfer_number}` : 'New Stock Transfer'}
+      size="lg"
+      footer={
+        <div className="flex justify-end space-x-3">
+          <Button type="button" variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button type="submit" form="transfer-form" isLoading={saving} disabled={!isValid}>
+            {transfer ? 'Save Draft' : 'Create Draft'}
+          </Button>
+        </div>
+      }
+    >
+      <form id="transfer-form" onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label className={labelClass}>Destination store</label>
+          <select
+            value={destinationId}
+            onChange={(e) => setDestinationId(e.target.value)}
+            className={inputClass}
+            required
+          >
+            <option value="">Select a store...</option>
+            {destinations.map(store => (
+              <option key={store.store_id} value={store.store_id}>{store.store_name}</option>
+            ))}
+          </select>
+          {destinations.length === 0 && (
+            <p className="mt-1 text-xs text-gray-500">This tenant has no other active stores to transfer to.</p>
+          )}
+        </div>
+
+        <DropdownSearch
+          label="Add item"
+          placeholder="Search tracked items"
+          searchPlaceholder="Search items..."
+          options={itemOptions}
+          onSelect={(option) => option && addItem(option.id)}
+          noOptionsMessage="No tracked items"
+          closeOnSelect={true}
+        />
+
+        <div className="overflow-x-auto rounded-lg border border-gray-200">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr className="text-left text-xs font-medium uppercase text-gray-500">
+                <th className="px-3 py-2">Item</th>
+                <th className="px-3 py-2 text-right">On Hand</th>
+                <th className="px-3 py-2 w-28">Quantity</th>
+                <th className="px-3 py-2 w-10"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {lines.map(line => (
+                <tr key={line.item_id}>
+                  <td className="px-3 py-2">
+                    <div className="font-medium text-gray-900">{line.item_name}</div>
+                    <div className="text-xs text-gray-500">{line.item_id}</div>
+                  </td>
+                  <td className="px-3 py-2 text-right text-gray-700">{onHand.get(line.item_id) ?? '—'}</td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="number"
+                      min={1}
+                      step="any"
+                      value={line.quantity_requested}
+                      onChange={(e) => updateQuantity(line.item_id, Math.max(0, Number(e.target.value) || 0))}
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    <button
+                      type="button"
+                      onClick={() => setLines(prev => prev.filter(candidate => candidate.item_id !== line.item_id))}
+                      className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-red-600"
+                      title="Remove line"
+                    >
+                      <TrashIcon className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              {lines.length === 0 && (
+                <tr>
+                  <td colSpan={4} className="px-3 py-8 text-center text-gray-500">Add the items to send</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div>
+          <label className={labelClass}>Notes</label>
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={2}
+            className={inputClass}
+          />
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default TransferFormModal;
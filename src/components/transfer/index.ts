@@ -0,0 +1,5 @@
+export { default as TransferFormModal } from './TransferFormModal';
+export { default as ShipTransferModal } from './ShipTransferModal';
+export { default as ReceiveTransferModal } from './ReceiveTransferModal';
+export { default as TransferDetailModal } from './TransferDetailModal';
+export { TRANSFER_STATUS_LABELS, TRANSFER_STATUS_COLORS } from './transferFormat';
@@ -0,0 +1,16 @@
+import type { BadgeProps } from '../ui';
+import type { TransferStatus } from '../../services/transfer';
+
+export const TRANSFER_STATUS_LABELS: Record<TransferStatus, string> = {
+  draft: 'Draft',
+  in_transit: 'In Transit',
+  received: 'Received',
+  cancelled: 'Cancelled'
+};
+
+export const TRANSFER_STATUS_COLORS: Record<TransferStatus, NonNullable<BadgeProps['color']>> = {
+  draft: 'gray',
+  in_transit: 'blue',
+  received: 'green',
+  cancelled: 'red'
+};
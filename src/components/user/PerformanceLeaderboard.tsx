@@ -0,0 +1,117 @@
+import React, { useMemo, useState } from 'react';
+import { TrophyIcon } from '@heroicons/react/24/outline';
+import { Card } from '../ui';
+import { buildLeaderboard, findAssociateUser, PERFORMANCE_METRIC_KEYS } from '../../services/transaction';
+import type { EmployeePerformanceMetrics, PerformanceMetricKey } from '../../services/transaction';
+import type { StoreUser } from '../../services/types/user.types';
+import { PERFORMANCE_METRIC_LABELS, formatMetricValue } from './performanceFormat';
+
+interface PerformanceLeaderboardProps {
+  employees: EmployeePerformanceMetrics[];
+  users: StoreUser[];
+  /** Associate to highlight */
+  highlightAssociateId?: string;
+  onSelectUser?: (user: StoreUser) => void;
+}
+
+const MEDAL_STYLES: Record<number, string> = {
+  1: 'bg-yellow-100 text-yellow-800',
+  2: 'bg-gray-200 text-gray-800',
+  3: 'bg-orange-100 text-orange-800'
+};
+
+const PerformanceLeaderboard: React.FC<PerformanceLeaderboardProps> = ({
+  employees,
+  users,
+  highlightAssociateId,
+  onSelectUser
+}) => {
+  const [metric, setMetric] = useState<PerformanceMetricKey>('net_sales');
+
+  const entries = useMemo(() => buildLeaderboard(employees, metric), [employees, metric]);
+
+  const getName = (associateId: string) => {
+    const user = findAssociateUser(associateId, users);
+    if (!user) return associateId;
+    return `${user.first_name || ''} ${user.last_name || ''}`.trim() || user.email;
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <TrophyIcon className="h-5 w-5 text-yellow-500" />
+          <h3 className="text-lg font-medium text-gray-900">Store Leaderboard</h3>
+        </div>
+        <select
+          value={metric}
+          onChange={(e) => setMetric(e.target.value as PerformanceMetricKey)}
+          className="rounded-md border border-gray-300 px-3 py-1.5 text-sm"
+        >
+          {PERFORMANCE_METRIC_KEYS.map(key => (
+            <option key={key} value={key}>{PERFORMANCE_METRIC_LABELS[key]}</option>
+          ))}
+        </select>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="py-8 text-center text-sm text-gray-500">No sales recorded in this period</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead>
+              <tr className="text-left text-xs font-medium uppercase text-gray-500">
+                <th className="py-2 pr-3 w-12">#</th>
+                <th className="py-2 pr-3">Employee</th>
+                <th className="py-2 pr-3 text-right">{PERFORMANCE_METRIC_LABELS[metric]}</th>
+                {metric !== 'net_sales' && <th className="py-2 pr-3 text-right">Net Sales</th>}
+                {metric !== 'transaction_count' && <th className="py-2 text-right">Transactions</th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {entries.map(entry => {
+                const { metrics } = entry;
+                const user = findAssociateUser(metrics.associate_id, users);
+                const isHighlighted = metrics.associate_id === highlightAssociateId;
+                return (
+                  <tr
+                    key={metrics.associate_id}
+                    className={`${isHighlighted ? 'bg-blue-50' : ''} ${user && onSelectUser ? 'cursor-pointer hover:bg-gray-50' : ''}`}
+                    onClick={() => user && onSelectUser?.(user)}
+                  >
+                    <td className="py-2 pr-3">
+                      <span className={`inline-flex h-6 w-6 items-center justify-center rounded-full text-xs font-semibold ${
+                        MEDAL_STYLES[entry.rank] || 'text-gray-500'
+                      }`}>
+                        {entry.rank}
+                      </span>
+                    </td>
+                    <td className="py-2 pr-3">
+                      <div className={`font-medium ${isHighlighted ? 'text-blue-700' : 'text-gray-900'}`}>
+                        {getName(metrics.associate_id)}
+                      </div>
+                      {!user && <div className="text-xs text-gray-400">Not a current store user</div>}
+                    </td>
+                    <td className="py-2 pr-3 text-right font-semibold text-gray-900">
+                      {formatMetricValue(metric, entry.value, metrics.currency)}
+                    </td>
+                    {metric !== 'net_sales' && (
+                      <td className="py-2 pr-3 text-right text-gray-600">
+                        {formatMetricValue('net_sales', metrics.net_sales, metrics.currency)}
+                      </td>
+                    )}
+                    {metric !== 'transaction_count' && (
+                      <td className="py-2 text-right text-gray-600">{metrics.transaction_count}</td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default PerformanceLeaderboard;
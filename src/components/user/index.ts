@@ -2,3 +2,5 @@ export { default as CreateUserModal } from './CreateUserModal';
 export { default as EditUserModal } from './EditUserModal';
 export { default as ActivityModal } from './ActivityModal';
 export { default as TimeTrackingModal } from './TimeTrackingModal';
+export { default as PerformanceLeaderboard } from './PerformanceLeaderboard';
+export { PERFORMANCE_METRIC_LABELS, formatMetricValue, isImprovement } from './performanceFormat';
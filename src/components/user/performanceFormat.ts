@@ -0,0 +1,40 @@
+import { fromScaledInt, LOWER_IS_BETTER } from '../../services/transaction';
+import type { PerformanceMetricKey } from '../../services/transaction';
+import { formattingService } from '../../services/formatting';
+
+export const PERFORMANCE_METRIC_LABELS: Record<PerformanceMetricKey, string> = {
+  net_sales: 'Net Sales',
+  transaction_count: 'Transactions',
+  average_ticket: 'Average Ticket',
+  items_per_transaction: 'Items / Transaction',
+  void_rate: 'Void Rate',
+  return_rate: 'Return Rate',
+  override_rate: 'Override Rate',
+  discount_total: 'Discount Given',
+  sales_per_labor_hour: 'Sales / Labor Hour'
+};
+
+const CURRENCY_METRICS: ReadonlySet<PerformanceMetricKey> = new Set<PerformanceMetricKey>([
+  'net_sales',
+  'average_ticket',
+  'discount_total',
+  'sales_per_labor_hour'
+]);
+
+const RATE_METRICS: ReadonlySet<PerformanceMetricKey> = new Set<PerformanceMetricKey>([
+  'void_rate',
+  'return_rate',
+  'override_rate'
+]);
+
+export const formatMetricValue = (key: PerformanceMetricKey, value: number | null, currency = 'USD'): string => {
+  if (value === null) return '—';
+  if (CURRENCY_METRICS.has(key)) return formattingService.formatCurrency(fromScaledInt(value), { currency });
+  if (RATE_METRICS.has(key)) return `${(value * 100).toFixed(1)}%`;
+  if (key === 'items_per_transaction') return value.toFixed(2);
+  return value.toLocaleString();
+};
+
+/** Whether a relative change is an improvement for the metric */
+export const isImprovement = (key: PerformanceMetricKey, change: number): boolean =>
+  LOWER_IS_BETTER.has(key) ? change < 0 : change > 0;
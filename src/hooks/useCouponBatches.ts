@@ -0,0 +1,93 @@
+// Hook for a serialized discount's coupon batches and their redemptions
+import { useState, useEffect, useCallback } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+import { couponBatchService } from '../services/discount/couponBatchService';
+import type { CouponBatch, CouponRedemptionScan, CouponRedemptionScanParams } from '../types/coupon';
+
+interface UseCouponBatchesOptions {
+  storeId?: string;
+  discountId?: string;
+  discountCode?: string;
+}
+
+interface UseCouponBatchesReturn {
+  batches: CouponBatch[];
+  isLoading: boolean;
+  error: string | null;
+  setBatches: Dispatch<SetStateAction<CouponBatch[]>>;
+  /** Replace one batch in place, or add it when new */
+  upsertBatch: (batch: CouponBatch) => void;
+  refresh: () => Promise<void>;
+  /** Latest redemption scan, null until one is run */
+  scan: CouponRedemptionScan | null;
+  isScanning: boolean;
+  scanRedemptions: (params: CouponRedemptionScanParams) => Promise<void>;
+}
+
+/**
+ * Custom hook for the coupon batches of one discount
+ */
+export const useCouponBatches = (options: UseCouponBatchesOptions): UseCouponBatchesReturn => {
+  const { storeId, discountId, discountCode } = options;
+
+  const [batches, setBatches] = useState<CouponBatch[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [scan, setScan] = useState<CouponRedemptionScan | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+
+  const load = useCallback(async () => {
+    if (!storeId || !discountId) {
+      setBatches([]);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      setBatches(await couponBatchService.getBatches(storeId, discountId));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load coupon batches';
+      setError(errorMessage);
+      console.error('Failed to load coupon batches:', err);
+      setBatches([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [storeId, discountId]);
+
+  useEffect(() => {
+    load();
+    setScan(null);
+  }, [load]);
+
+  const upsertBatch = useCallback((batch: CouponBatch) => {
+    setBatches(prev => (prev.some(existing => existing.batch_id === batch.batch_id)
+      ? prev.map(existing => (existing.batch_id === batch.batch_id ? batch : existing))
+      : [batch, ...prev]));
+  }, []);
+
+  const scanRedemptions = useCallback(async (params: CouponRedemptionScanParams) => {
+    if (!storeId || !discountCode) return;
+    try {
+      setIsScanning(true);
+      setScan(await couponBatchService.findRedemptions(storeId, discountCode, params));
+    } finally {
+      setIsScanning(false);
+    }
+  }, [storeId, discountCode]);
+
+  return {
+    batches,
+    isLoading,
+    error,
+    setBatches,
+    upsertBatch,
+    refresh: load,
+    scan,
+    isScanning,
+    scanRedemptions
+  };
+};
+
+export default useCouponBatches;
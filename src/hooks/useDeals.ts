@@ -0,0 +1,85 @@
+// Hook for a store's deals and the products they can be simulated against
+import { useState, useEffect, useCallback } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+import { dealService } from '../services/deal';
+import type { Deal } from '../services/deal';
+import { productService } from '../services/product';
+import type { ApiProduct } from '../services/types/product.types';
+
+interface UseDealsOptions {
+  tenantId?: string;
+  storeId?: string;
+}
+
+interface UseDealsReturn {
+  deals: Deal[];
+  products: ApiProduct[];
+  isLoading: boolean;
+  error: string | null;
+  setDeals: Dispatch<SetStateAction<Deal[]>>;
+  /** Replace one deal in place, or add it when new */
+  upsertDeal: (deal: Deal) => void;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Custom hook for deals in the current store
+ */
+export const useDeals = (options: UseDealsOptions): UseDealsReturn => {
+  const { tenantId, storeId } = options;
+
+  const [deals, setDeals] = useState<Deal[]>([]);
+  const [products, setProducts] = useState<ApiProduct[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!tenantId || !storeId) {
+      setDeals([]);
+      setProducts([]);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const [storeDeals, storeProducts] = await Promise.all([
+        dealService.getDeals(storeId),
+        productService.getAllProducts(tenantId, storeId)
+      ]);
+
+      setDeals(storeDeals);
+      setProducts(storeProducts);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load deals';
+      setError(errorMessage);
+      console.error('Failed to load deals:', err);
+      setDeals([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [tenantId, storeId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const upsertDeal = useCallback((deal: Deal) => {
+    setDeals(prev => (prev.some(existing => existing.deal_id === deal.deal_id)
+      ? prev.map(existing => (existing.deal_id === deal.deal_id ? deal : existing))
+      : [deal, ...prev]));
+  }, []);
+
+  return {
+    deals,
+    products,
+    isLoading,
+    error,
+    setDeals,
+    upsertDeal,
+    refresh: load
+  };
+};
+
+export default useDeals;
@@ -0,0 +1,174 @@
+// Hook for loading per-associate sales metrics for a period and the one before it
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  applyLaborHours,
+  calculateLaborHours,
+  findAssociateUser,
+  getPreviousPeriod,
+  loadStorePerformance
+} from '../services/transaction';
+import type {
+  EmployeePerformanceMetrics,
+  PerformancePeriod,
+  StorePerformance
+} from '../services/transaction';
+import { userService } from '../services/user';
+import type { StoreUser } from '../services/types/user.types';
+
+interface UseEmployeePerformanceOptions {
+  storeId?: string;
+  period: PerformancePeriod;
+  /** Store users, for matching associates to time tracking */
+  users?: StoreUser[];
+  /** Load transaction details for void, return and override rates */
+  includeDetails?: boolean;
+}
+
+interface UseEmployeePerformanceReturn {
+  current: StorePerformance | null;
+  previous: StorePerformance | null;
+  previousPeriod: PerformancePeriod;
+  isLoading: boolean;
+  progress: { loaded: number; total: number } | null;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+const TIME_TRACKING_BATCH_SIZE = 5;
+const TIME_TRACKING_LIMIT = 500;
+
+/**
+ * Worked hours per associate for the period, for associates that match a store user
+ */
+async function loadLaborHours(
+  employees: EmployeePerformanceMetrics[],
+  users: StoreUser[],
+  period: PerformancePeriod
+): Promise<Map<string, number>> {
+  const hours = new Map<string, number>();
+  const matched = employees
+    .map(item => ({ associateId: item.associate_id, user: findAssociateUser(item.associate_id, users) }))
+    .filter((entry): entry is { associateId: string; user: StoreUser } => Boolean(entry.user));
+
+  for (let start = 0; start < matched.length; start += TIME_TRACKING_BATCH_SIZE) {
+    const batch = matched.slice(start, start + TIME_TRACKING_BATCH_SIZE);
+    await Promise.all(batch.map(async ({ associateId, user }) => {
+      try {
+        const { records } = await userService.getTimeTracking(user.user_id, {
+          start_date: period.start_date,
+          end_date: period.end_date,
+          limit: TIME_TRACKING_LIMIT
+        });
+        if (records.length > 0) hours.set(associateId, calculateLaborHours(records));
+      } catch (err) {
+        // Time tracking is optional; sales per labor hour just stays empty
+        console.warn(`Time tracking unavailable for ${user.user_id}:`, err);
+      }
+    }));
+  }
+
+  return hours;
+}
+
+/**
+ * Custom hook for employee performance analytics
+ */
+export const useEmployeePerformance = (options: UseEmployeePerformanceOptions): UseEmployeePerformanceReturn => {
+  const { storeId, period, users, includeDetails = true } = options;
+  const { start_date: startDate, end_date: endDate } = period;
+
+  const [rawCurrent, setRawCurrent] = useState<StorePerformance | null>(null);
+  const [rawPrevious, setRawPrevious] = useState<StorePerformance | null>(null);
+  const [laborHours, setLaborHours] = useState<{ current: Map<string, number>; previous: Map<string, number> } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [progress, setProgress] = useState<{ loaded: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const previousPeriod = getPreviousPeriod({ start_date: startDate, end_date: endDate });
+  const { start_date: previousStart, end_date: previousEnd } = previousPeriod;
+
+  const load = useCallback(async () => {
+    if (!storeId) {
+      setRawCurrent(null);
+      setRawPrevious(null);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      setProgress(null);
+
+      const currentResult = await loadStorePerformance(
+        storeId,
+        { start_date: startDate, end_date: endDate },
+        { includeDetails, onProgress: setProgress }
+      );
+      const previousResult = await loadStorePerformance(
+        storeId,
+        { start_date: previousStart, end_date: previousEnd },
+        { includeDetails }
+      );
+
+      setRawCurrent(currentResult);
+      setRawPrevious(previousResult);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load performance data';
+      setError(errorMessage);
+      console.error('Failed to load performance data:', err);
+      setRawCurrent(null);
+      setRawPrevious(null);
+    } finally {
+      setIsLoading(false);
+      setProgress(null);
+    }
+  }, [storeId, startDate, endDate, previousStart, previousEnd, includeDetails]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Labor hours load separately so a late user list doesn't refetch transactions
+  useEffect(() => {
+    setLaborHours(null);
+    if (!rawCurrent || !rawPrevious || !users || users.length === 0) return;
+
+    let cancelled = false;
+    Promise.all([
+      loadLaborHours(rawCurrent.employees, users, rawCurrent.period),
+      loadLaborHours(rawPrevious.employees, users, rawPrevious.period)
+    ]).then(([currentHours, previousHours]) => {
+      if (!cancelled) setLaborHours({ current: currentHours, previous: previousHours });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [rawCurrent, rawPrevious, users]);
+
+  const current = useMemo(
+    () => (rawCurrent && laborHours
+      ? { ...rawCurrent, employees: applyLaborHours(rawCurrent.employees, laborHours.current) }
+      : rawCurrent),
+    [rawCurrent, laborHours]
+  );
+
+  const previous = useMemo(
+    () => (rawPrevious && laborHours
+      ? { ...rawPrevious, employees: applyLaborHours(rawPrevious.employees, laborHours.previous) }
+      : rawPrevious),
+    [rawPrevious, laborHours]
+  );
+
+  return {
+    current,
+    previous,
+    previousPeriod,
+    isLoading,
+    progress,
+    error,
+    refresh: load
+  };
+};
+
+export default useEmployeePerformance;
@@ -0,0 +1,165 @@
+// Hook for store stock levels, derived stock status and low-stock alerts
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+import {
+  inventoryService,
+  buildInventoryItems,
+  buildInventoryAlerts,
+  deriveStockStatus,
+  getLowStockThreshold
+} from '../services/inventory';
+import type {
+  CreateInventoryAdjustmentRequest,
+  InventoryAdjustmentResult,
+  InventoryAlert,
+  InventoryAlertSettings,
+  InventoryItem,
+  InventoryLevel
+} from '../services/inventory';
+import type { ApiProduct } from '../services/types/product.types';
+
+interface UseInventoryOptions {
+  tenantId?: string;
+  storeId?: string;
+}
+
+interface UseInventoryReturn {
+  items: InventoryItem[];
+  alerts: InventoryAlert[];
+  settings: InventoryAlertSettings | null;
+  isLoading: boolean;
+  error: string | null;
+  adjustStock: (data: CreateInventoryAdjustmentRequest) => Promise<InventoryAdjustmentResult>;
+  /** Items whose saved product status differs from the derived one */
+  staleStatusCount: number;
+  syncStatuses: () => Promise<number>;
+  setSettings: Dispatch<SetStateAction<InventoryAlertSettings | null>>;
+  setLevels: Dispatch<SetStateAction<InventoryLevel[]>>;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Custom hook for inventory in the current store
+ */
+export const useInventory = (options: UseInventoryOptions): UseInventoryReturn => {
+  const { tenantId, storeId } = options;
+
+  const [products, setProducts] = useState<ApiProduct[]>([]);
+  const [levels, setLevels] = useState<InventoryLevel[]>([]);
+  const [settings, setSettings] = useState<InventoryAlertSettings | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!tenantId || !storeId) {
+      setProducts([]);
+      setLevels([]);
+      setSettings(null);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const [storeProducts, storeLevels, alertSettings] = await Promise.all([
+        inventoryService.getTrackedProducts(tenantId, storeId),
+        inventoryService.getAllLevels(storeId),
+        inventoryService.getAlertSettings(storeId)
+      ]);
+
+      setProducts(storeProducts);
+      setLevels(storeLevels);
+      setSettings(alertSettings);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load inventory';
+      setError(errorMessage);
+      console.error('Failed to load inventory:', err);
+      setProducts([]);
+      setLevels([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [tenantId, storeId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const items = useMemo(
+    () => (settings ? buildInventoryItems(products, levels, settings) : []),
+    [products, levels, settings]
+  );
+
+  const alerts = useMemo(
+    () => (settings ? buildInventoryAlerts(items, settings) : []),
+    [items, settings]
+  );
+
+  const adjustStock = useCallback(async (data: CreateInventoryAdjustmentRequest) => {
+    if (!tenantId || !storeId) {
+      throw new Error('No store selected');
+    }
+
+    const result = await inventoryService.createAdjustment(storeId, data);
+    setLevels(prev => [...prev.filter(level => level.item_id !== result.level.item_id), result.level]);
+
+    // Keep the product's saved status in line with the new quantity
+    const product = products.find(p => p.item_id === data.item_id);
+    if (product && settings) {
+      const status = deriveStockStatus(
+        result.level.on_hand,
+        result.level.on_order,
+        getLowStockThreshold(result.level, settings)
+      );
+      if (product.stock_status !== status) {
+        try {
+          await inventoryService.syncStockStatus(tenantId, storeId, product.item_id, status);
+          setProducts(prev => prev.map(p => (p.item_id === product.item_id ? { ...p, stock_status: status } : p)));
+        } catch (err) {
+          // The adjustment itself succeeded; the item shows up as stale until synced
+          console.warn('Stock status not synced:', err);
+        }
+      }
+    }
+
+    return result;
+  }, [tenantId, storeId, products, settings]);
+
+  const staleItems = useMemo(
+    () => items.filter(item => item.product_stock_status !== item.stock_status),
+    [items]
+  );
+
+  const syncStatuses = useCallback(async () => {
+    if (!tenantId || !storeId) return 0;
+
+    const synced = new Map<string, InventoryItem['stock_status']>();
+    try {
+      for (const item of staleItems) {
+        await inventoryService.syncStockStatus(tenantId, storeId, item.item_id, item.stock_status);
+        synced.set(item.item_id, item.stock_status);
+      }
+    } finally {
+      // Keep whatever was saved before a failure
+      setProducts(prev => prev.map(p => (synced.has(p.item_id) ? { ...p, stock_status: synced.get(p.item_id) } : p)));
+    }
+    return synced.size;
+  }, [tenantId, storeId, staleItems]);
+
+  return {
+    items,
+    alerts,
+    settings,
+    isLoading,
+    error,
+    adjustStock,
+    staleStatusCount: staleItems.length,
+    syncStatuses,
+    setSettings,
+    setLevels,
+    refresh: load
+  };
+};
+
+export default useInventory;
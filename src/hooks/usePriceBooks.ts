@@ -0,0 +1,97 @@
+// Hook for a store's price books, with the products and terminals they can target
+import { useState, useEffect, useCallback } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+import { priceBookService } from '../services/price-book';
+import type { PriceBook } from '../services/price-book';
+import { productService } from '../services/product';
+import { storeService } from '../services/store/storeService';
+import type { ApiProduct } from '../services/types/product.types';
+import type { Terminal } from '../services/types/store.types';
+
+interface UsePriceBooksOptions {
+  tenantId?: string;
+  storeId?: string;
+}
+
+interface UsePriceBooksReturn {
+  priceBooks: PriceBook[];
+  products: ApiProduct[];
+  terminals: Terminal[];
+  isLoading: boolean;
+  error: string | null;
+  setPriceBooks: Dispatch<SetStateAction<PriceBook[]>>;
+  /** Replace one book in place, or add it when new */
+  upsertPriceBook: (book: PriceBook) => void;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Custom hook for price books in the current store
+ */
+export const usePriceBooks = (options: UsePriceBooksOptions): UsePriceBooksReturn => {
+  const { tenantId, storeId } = options;
+
+  const [priceBooks, setPriceBooks] = useState<PriceBook[]>([]);
+  const [products, setProducts] = useState<ApiProduct[]>([]);
+  const [terminals, setTerminals] = useState<Terminal[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!tenantId || !storeId) {
+      setPriceBooks([]);
+      setProducts([]);
+      setTerminals([]);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const [books, storeProducts, details] = await Promise.all([
+        priceBookService.getAllPriceBooks(storeId),
+        productService.getAllProducts(tenantId, storeId),
+        // Terminal scoping is optional; a failure here should not hide the books
+        storeService.getStoreDetails(storeId).catch((err) => {
+          console.error('Failed to load terminals:', err);
+          return null;
+        })
+      ]);
+
+      setPriceBooks(books);
+      setProducts(storeProducts);
+      setTerminals(Object.values(details?.terminals || {}));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load price books';
+      setError(errorMessage);
+      console.error('Failed to load price books:', err);
+      setPriceBooks([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [tenantId, storeId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const upsertPriceBook = useCallback((book: PriceBook) => {
+    setPriceBooks(prev => (prev.some(existing => existing.price_book_id === book.price_book_id)
+      ? prev.map(existing => (existing.price_book_id === book.price_book_id ? book : existing))
+      : [book, ...prev]));
+  }, []);
+
+  return {
+    priceBooks,
+    products,
+    terminals,
+    isLoading,
+    error,
+    setPriceBooks,
+    upsertPriceBook,
+    refresh: load
+  };
+};
+
+export default usePriceBooks;
@@ -0,0 +1,85 @@
+// Hook for a store's suppliers and purchase orders
+import { useState, useEffect, useCallback } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+import { purchasingService } from '../services/purchasing';
+import type { PurchaseOrder, Supplier } from '../services/purchasing';
+
+interface UsePurchasingOptions {
+  storeId?: string;
+}
+
+interface UsePurchasingReturn {
+  suppliers: Supplier[];
+  orders: PurchaseOrder[];
+  isLoading: boolean;
+  error: string | null;
+  setSuppliers: Dispatch<SetStateAction<Supplier[]>>;
+  setOrders: Dispatch<SetStateAction<PurchaseOrder[]>>;
+  /** Replace one order in place, or add it when new */
+  upsertOrder: (order: PurchaseOrder) => void;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Custom hook for purchasing in the current store
+ */
+export const usePurchasing = (options: UsePurchasingOptions): UsePurchasingReturn => {
+  const { storeId } = options;
+
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!storeId) {
+      setSuppliers([]);
+      setOrders([]);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const [storeSuppliers, storeOrders] = await Promise.all([
+        purchasingService.getSuppliers(storeId),
+        purchasingService.getAllPurchaseOrders(storeId)
+      ]);
+
+      setSuppliers(storeSuppliers);
+      setOrders(storeOrders);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load purchasing data';
+      setError(errorMessage);
+      console.error('Failed to load purchasing data:', err);
+      setSuppliers([]);
+      setOrders([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [storeId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const upsertOrder = useCallback((order: PurchaseOrder) => {
+    setOrders(prev => (prev.some(existing => existing.po_id === order.po_id)
+      ? prev.map(existing => (existing.po_id === order.po_id ? order : existing))
+      : [order, ...prev]));
+  }, []);
+
+  return {
+    suppliers,
+    orders,
+    isLoading,
+    error,
+    setSuppliers,
+    setOrders,
+    upsertOrder,
+    refresh: load
+  };
+};
+
+export default usePurchasing;
@@ -0,0 +1,126 @@
+// Hook for loading a week of shifts together with templates and store hours
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+import {
+  scheduleService,
+  addDays,
+  getWeekDates,
+  detectScheduleConflicts,
+  getDailyLabor
+} from '../services/schedule';
+import type { Shift, ShiftTemplate, ScheduleConflict, DailyLaborSummary } from '../services/schedule';
+import { storeService } from '../services/store';
+import type { StoreTimings } from '../services/types/store.types';
+import type { StoreUser } from '../services/types/user.types';
+
+interface UseShiftScheduleOptions {
+  storeId?: string;
+  /** Monday of the week to load, YYYY-MM-DD */
+  weekStart: string;
+  /** Only load this person's shifts */
+  userId?: string;
+  /** Used for access schedule conflicts */
+  users?: StoreUser[];
+}
+
+interface UseShiftScheduleReturn {
+  shifts: Shift[];
+  templates: ShiftTemplate[];
+  storeTimings: StoreTimings | null;
+  weekDates: string[];
+  conflicts: ScheduleConflict[];
+  labor: DailyLaborSummary[];
+  isLoading: boolean;
+  error: string | null;
+  setShifts: Dispatch<SetStateAction<Shift[]>>;
+  setTemplates: Dispatch<SetStateAction<ShiftTemplate[]>>;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Custom hook for the weekly shift planner
+ */
+export const useShiftSchedule = (options: UseShiftScheduleOptions): UseShiftScheduleReturn => {
+  const { storeId, weekStart, userId, users } = options;
+
+  const [shifts, setShifts] = useState<Shift[]>([]);
+  const [templates, setTemplates] = useState<ShiftTemplate[]>([]);
+  const [storeTimings, setStoreTimings] = useState<StoreTimings | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const weekDates = useMemo(() => getWeekDates(weekStart), [weekStart]);
+
+  const loadShifts = useCallback(async () => {
+    if (!storeId) {
+      setShifts([]);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      // Include the day before so overnight shifts from last Sunday still count for overlaps
+      const data = await scheduleService.getShifts(storeId, {
+        start_date: addDays(weekStart, -1),
+        end_date: addDays(weekStart, 6),
+        ...(userId && { user_id: userId })
+      });
+      setShifts(data);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load shifts';
+      setError(errorMessage);
+      console.error('Failed to load shifts:', err);
+      setShifts([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [storeId, weekStart, userId]);
+
+  // Templates and opening hours don't change with the week
+  useEffect(() => {
+    if (!storeId) return;
+
+    scheduleService.getTemplates(storeId)
+      .then(setTemplates)
+      .catch(err => {
+        console.error('Failed to load shift templates:', err);
+        setTemplates([]);
+      });
+
+    storeService.getStoreDetails(storeId)
+      .then(details => setStoreTimings(details.store_timing || null))
+      .catch(err => {
+        console.error('Failed to load store hours:', err);
+        setStoreTimings(null);
+      });
+  }, [storeId]);
+
+  useEffect(() => {
+    loadShifts();
+  }, [loadShifts]);
+
+  const conflicts = useMemo(
+    () => detectScheduleConflicts(shifts, users, storeTimings)
+      .filter(conflict => weekDates.includes(conflict.date)),
+    [shifts, users, storeTimings, weekDates]
+  );
+
+  const labor = useMemo(() => getDailyLabor(shifts, weekDates), [shifts, weekDates]);
+
+  return {
+    shifts,
+    templates,
+    storeTimings,
+    weekDates,
+    conflicts,
+    labor,
+    isLoading,
+    error,
+    setShifts,
+    setTemplates,
+    refresh: loadShifts
+  };
+};
+
+export default useShiftSchedule;
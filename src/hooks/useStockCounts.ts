@@ -0,0 +1,71 @@
+// Hook for a store's stock count sessions
+import { useState, useEffect, useCallback } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+import { stockCountService } from '../services/stock-count';
+import type { StockCount } from '../services/stock-count';
+
+interface UseStockCountsOptions {
+  storeId?: string;
+}
+
+interface UseStockCountsReturn {
+  counts: StockCount[];
+  isLoading: boolean;
+  error: string | null;
+  setCounts: Dispatch<SetStateAction<StockCount[]>>;
+  /** Replace one count in place, or add it when new */
+  upsertCount: (count: StockCount) => void;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Custom hook for stock counts in the current store
+ */
+export const useStockCounts = (options: UseStockCountsOptions): UseStockCountsReturn => {
+  const { storeId } = options;
+
+  const [counts, setCounts] = useState<StockCount[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!storeId) {
+      setCounts([]);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      setCounts(await stockCountService.getAllCounts(storeId));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load stock counts';
+      setError(errorMessage);
+      console.error('Failed to load stock counts:', err);
+      setCounts([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [storeId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const upsertCount = useCallback((count: StockCount) => {
+    setCounts(prev => (prev.some(existing => existing.count_id === count.count_id)
+      ? prev.map(existing => (existing.count_id === count.count_id ? count : existing))
+      : [count, ...prev]));
+  }, []);
+
+  return {
+    counts,
+    isLoading,
+    error,
+    setCounts,
+    upsertCount,
+    refresh: load
+  };
+};
+
+export default useStockCounts;
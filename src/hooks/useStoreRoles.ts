@@ -0,0 +1,63 @@
+// Hook for the roles defined in each of a tenant's stores
+import { useState, useEffect, useCallback } from 'react';
+import { roleApiService } from '../services/role/roleApiService';
+import type { ApiRole } from '../services/role/roleApiService';
+
+interface UseStoreRolesOptions {
+  tenantId?: string;
+  storeIds: string[];
+}
+
+interface UseStoreRolesReturn {
+  /** Roles keyed by store id; a store whose roles failed to load maps to [] */
+  rolesByStore: Record<string, ApiRole[]>;
+  isLoading: boolean;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Custom hook loading store-level roles for several stores at once, e.g. to
+ * assign a role per store when inviting a user
+ */
+export const useStoreRoles = (options: UseStoreRolesOptions): UseStoreRolesReturn => {
+  const { tenantId, storeIds } = options;
+  // Join so callers can pass a fresh array each render without refetching
+  const storeKey = storeIds.join(',');
+
+  const [rolesByStore, setRolesByStore] = useState<Record<string, ApiRole[]>>({});
+  const [isLoading, setIsLoading] = useState(false);
+
+  const load = useCallback(async () => {
+    const ids = storeKey ? storeKey.split(',') : [];
+    if (!tenantId || ids.length === 0) {
+      setRolesByStore({});
+      return;
+    }
+
+    setIsLoading(true);
+    const results = await Promise.allSettled(ids.map(storeId => roleApiService.getRoles(tenantId, storeId)));
+    const next: Record<string, ApiRole[]> = {};
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        next[ids[index]] = result.value;
+      } else {
+        console.error(`Failed to load roles for store ${ids[index]}:`, result.reason);
+        next[ids[index]] = [];
+      }
+    });
+    setRolesByStore(next);
+    setIsLoading(false);
+  }, [tenantId, storeKey]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return {
+    rolesByStore,
+    isLoading,
+    refresh: load
+  };
+};
+
+export default useStoreRoles;
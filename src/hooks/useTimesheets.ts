@@ -0,0 +1,146 @@
+// Hook for building pay period timesheets from clock punches and manager adjustments
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+import {
+  timesheetService,
+  buildTimeEntries,
+  applyAdjustments,
+  calculateTimesheet,
+  findPayPeriod
+} from '../services/timesheet';
+import type {
+  OvertimeRules,
+  PayPeriod,
+  TimeEntry,
+  Timesheet,
+  TimesheetAdjustment,
+  TimesheetWarning
+} from '../services/timesheet';
+
+interface UseTimesheetsOptions {
+  storeId?: string;
+  /** People to build timesheets for */
+  userIds: string[];
+  startDate: string;
+  endDate: string;
+}
+
+interface UseTimesheetsReturn {
+  rules: OvertimeRules | null;
+  payPeriod: PayPeriod | undefined;
+  adjustments: TimesheetAdjustment[];
+  timesheets: Timesheet[];
+  isLoading: boolean;
+  error: string | null;
+  setRules: Dispatch<SetStateAction<OvertimeRules | null>>;
+  setPayPeriods: Dispatch<SetStateAction<PayPeriod[]>>;
+  setAdjustments: Dispatch<SetStateAction<TimesheetAdjustment[]>>;
+  refresh: () => Promise<void>;
+}
+
+interface PunchResult {
+  entries: TimeEntry[];
+  warnings: TimesheetWarning[];
+}
+
+const PUNCH_BATCH_SIZE = 5;
+
+/**
+ * Custom hook for timesheets over one pay period
+ */
+export const useTimesheets = (options: UseTimesheetsOptions): UseTimesheetsReturn => {
+  const { storeId, userIds, startDate, endDate } = options;
+  // Stable key so a new array with the same people doesn't reload
+  const userKey = userIds.join(',');
+
+  const [rules, setRules] = useState<OvertimeRules | null>(null);
+  const [payPeriods, setPayPeriods] = useState<PayPeriod[]>([]);
+  const [adjustments, setAdjustments] = useState<TimesheetAdjustment[]>([]);
+  const [punches, setPunches] = useState<Map<string, PunchResult>>(new Map());
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!storeId) return;
+
+    timesheetService.getOvertimeRules(storeId)
+      .then(setRules)
+      .catch(err => {
+        console.error('Failed to load overtime rules:', err);
+        setRules(null);
+      });
+  }, [storeId]);
+
+  const load = useCallback(async () => {
+    if (!storeId) {
+      setPunches(new Map());
+      setAdjustments([]);
+      setPayPeriods([]);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const [periods, periodAdjustments] = await Promise.all([
+        timesheetService.getPayPeriods(storeId, { start_date: startDate, end_date: endDate }),
+        timesheetService.getAdjustments(storeId, { start_date: startDate, end_date: endDate })
+      ]);
+
+      const ids = userKey ? userKey.split(',') : [];
+      const results = new Map<string, PunchResult>();
+      for (let start = 0; start < ids.length; start += PUNCH_BATCH_SIZE) {
+        const batch = ids.slice(start, start + PUNCH_BATCH_SIZE);
+        const activities = await Promise.all(batch.map(userId => timesheetService.getPunches(userId, startDate, endDate)));
+        batch.forEach((userId, index) => results.set(userId, buildTimeEntries(activities[index])));
+      }
+
+      setPayPeriods(periods);
+      setAdjustments(periodAdjustments);
+      setPunches(results);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load timesheets';
+      setError(errorMessage);
+      console.error('Failed to load timesheets:', err);
+      setPunches(new Map());
+      setAdjustments([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [storeId, userKey, startDate, endDate]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const timesheets = useMemo(() => {
+    if (!rules) return [];
+    return Array.from(punches.entries()).map(([userId, result]) => {
+      const userAdjustments = adjustments.filter(adjustment => adjustment.user_id === userId);
+      const entries = applyAdjustments(result.entries, userAdjustments);
+      return calculateTimesheet(userId, entries, rules, startDate, endDate, result.warnings);
+    });
+  }, [punches, adjustments, rules, startDate, endDate]);
+
+  const payPeriod = useMemo(
+    () => payPeriods.find(period => period.start_date === startDate && period.end_date === endDate)
+      || findPayPeriod(payPeriods, startDate),
+    [payPeriods, startDate, endDate]
+  );
+
+  return {
+    rules,
+    payPeriod,
+    adjustments,
+    timesheets,
+    isLoading,
+    error,
+    setRules,
+    setPayPeriods,
+    setAdjustments,
+    refresh: load
+  };
+};
+
+export default useTimesheets;
@@ -0,0 +1,71 @@
+// Hook for stock transfers sent from or to a store
+import { useState, useEffect, useCallback } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+import { transferService } from '../services/transfer';
+import type { StockTransfer } from '../services/transfer';
+
+interface UseTransfersOptions {
+  storeId?: string;
+}
+
+interface UseTransfersReturn {
+  transfers: StockTransfer[];
+  isLoading: boolean;
+  error: string | null;
+  setTransfers: Dispatch<SetStateAction<StockTransfer[]>>;
+  /** Replace one transfer in place, or add it when new */
+  upsertTransfer: (transfer: StockTransfer) => void;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Custom hook for incoming and outgoing transfers of the current store
+ */
+export const useTransfers = (options: UseTransfersOptions): UseTransfersReturn => {
+  const { storeId } = options;
+
+  const [transfers, setTransfers] = useState<StockTransfer[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!storeId) {
+      setTransfers([]);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      setTransfers(await transferService.getAllTransfers(storeId));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load stock transfers';
+      setError(errorMessage);
+      console.error('Failed to load stock transfers:', err);
+      setTransfers([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [storeId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const upsertTransfer = useCallback((transfer: StockTransfer) => {
+    setTransfers(prev => (prev.some(existing => existing.transfer_id === transfer.transfer_id)
+      ? prev.map(existing => (existing.transfer_id === transfer.transfer_id ? transfer : existing))
+      : [transfer, ...prev]));
+  }, []);
+
+  return {
+    transfers,
+    isLoading,
+    error,
+    setTransfers,
+    upsertTransfer,
+    refresh: load
+  };
+};
+
+export default useTransfers;
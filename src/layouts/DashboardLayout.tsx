@@ -29,6 +29,12 @@ import {
   PercentBadgeIcon,
   CodeBracketIcon,
   ClipboardDocumentListIcon,
+  ArchiveBoxIcon,
+  TruckIcon,
+  ArrowsRightLeftIcon,
+  ClipboardDocumentCheckIcon,
+  BookOpenIcon,
+  GiftIcon,
 } from '@heroicons/react/24/outline';
 
 interface NavigationItem {
@@ -110,8 +116,14 @@ const DashboardLayout: React.FC = () => {
       items: [
         { name: t('nav.sales'), href: '/sales', icon: ShoppingCartIcon },
         { name: t('nav.products'), href: '/products', icon: CubeIcon },
+        { name: 'Inventory', href: '/inventory', icon: ArchiveBoxIcon },
+        { name: 'Purchasing', href: '/purchasing', icon: TruckIcon },
+        { name: 'Price Books', href: '/price-books', icon: BookOpenIcon },
+        { name: 'Transfers', href: '/transfers', icon: ArrowsRightLeftIcon },
+        { name: 'Stock Counts', href: '/stock-counts', icon: ClipboardDocumentCheckIcon },
         { name: t('nav.categories'), href: '/categories', icon: TagIcon },
         { name: t('nav.discounts'), href: '/discounts', icon: PercentBadgeIcon },
+        { name: 'Deals', href: '/deals', icon: GiftIcon },
         { name: 'Reason Codes', href: '/reason-codes', icon: DocumentTextIcon },
         { name: t('nav.customers'), href: '/customers', icon: UserGroupIcon },
         { name: t('nav.tableManagement'), href: '/tables', icon: TableCellsIcon },
@@ -0,0 +1,331 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import {
+  ArrowLeftIcon,
+  PencilIcon,
+  TrashIcon,
+  EnvelopeIcon,
+  PhoneIcon,
+  MapPinIcon,
+  ShoppingBagIcon,
+  CurrencyDollarIcon,
+  CalendarDaysIcon
+} from '@heroicons/react/24/outline';
+import { PageHeader, Button, Card, ConfirmDialog, Loading } from '../components/ui';
+import { CustomerFormModal } from '../components/customer';
+import { customerService } from '../services/customer';
+import type { Customer, CustomerPurchase, CreateCustomerRequest } from '../services/customer';
+import { fromScaledInt } from '../services/transaction';
+import { formattingService } from '../services/formatting';
+import { useTenantStore } from '../tenants/tenantStore';
+import { useDeleteConfirmDialog } from '../hooks/useConfirmDialog';
+import { useError } from '../hooks/useError';
+
+const PURCHASE_PAGE_SIZE = 20;
+
+const CustomerDetailPage: React.FC = () => {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const { id } = useParams<{ id: string }>();
+  const { currentStore } = useTenantStore();
+  const { showError, showSuccess } = useError();
+
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [purchases, setPurchases] = useState<CustomerPurchase[]>([]);
+  const [purchasesCursor, setPurchasesCursor] = useState<string | null>(null);
+  const [isLoadingPurchases, setIsLoadingPurchases] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+
+  const deleteDialog = useDeleteConfirmDialog();
+
+  const loadCustomer = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      setIsLoading(true);
+      setCustomer(await customerService.getCustomerById(id));
+    } catch (error) {
+      console.error('Failed to load customer:', error);
+      setCustomer(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id]);
+
+  const loadPurchases = useCallback(async (cursor?: string) => {
+    if (!id || !currentStore?.store_id) return;
+
+    try {
+      setIsLoadingPurchases(true);
+      const history = await customerService.getPurchaseHistory(currentStore.store_id, id, {
+        cursor,
+        limit: PURCHASE_PAGE_SIZE
+      });
+      setPurchases(prev => cursor ? [...prev, ...history.purchases] : history.purchases);
+      setPurchasesCursor(history.next);
+    } catch (error) {
+      showError(error);
+    } finally {
+      setIsLoadingPurchases(false);
+    }
+  }, [id, currentStore?.store_id, showError]);
+
+  useEffect(() => {
+    loadCustomer();
+  }, [loadCustomer]);
+
+  useEffect(() => {
+    loadPurchases();
+  }, [loadPurchases]);
+
+  const handleUpdate = async (data: CreateCustomerRequest) => {
+    if (!customer) return;
+    const updated = await customerService.updateCustomer(customer.customer_id, data);
+    setCustomer(updated);
+    showSuccess(t('customers.messages.updated'));
+  };
+
+  const handleDelete = () => {
+    if (!customer) return;
+
+    deleteDialog.openDeleteDialog(`${customer.first_name} ${customer.last_name}`, async () => {
+      try {
+        await customerService.deleteCustomer(customer.customer_id);
+        showSuccess(t('customers.messages.deleted'));
+        navigate('/customers');
+      } catch (error) {
+        showError(error);
+      }
+    });
+  };
+
+  const formatDate = (dateString?: string | null) => {
+    return dateString ? new Date(dateString).toLocaleDateString() : '—';
+  };
+
+  if (isLoading) {
+    return (
+      <Loading
+        title={t('customers.detail.loading')}
+        description={t('customers.loading.description')}
+        fullScreen={false}
+        size="md"
+      />
+    );
+  }
+
+  if (!customer) {
+    return (
+      <div className="p-6">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-gray-900">{t('customers.detail.notFound')}</h2>
+          <p className="mt-2 text-gray-600">{t('customers.detail.notFoundDescription')}</p>
+          <Button onClick={() => navigate('/customers')} className="mt-4">
+            {t('customers.detail.back')}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <PageHeader
+        title={`${customer.first_name} ${customer.last_name}`}
+        description={t('customers.detail.description')}
+      >
+        <div className="flex items-center space-x-3">
+          <Button variant="outline" onClick={() => navigate('/customers')} className="flex items-center gap-2">
+            <ArrowLeftIcon className="h-4 w-4" />
+            {t('customers.detail.back')}
+          </Button>
+          <Button onClick={() => setShowForm(true)} className="flex items-center gap-2">
+            <PencilIcon className="h-4 w-4" />
+            {t('common.edit')}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={handleDelete}
+            className="flex items-center gap-2 text-red-600 border-red-200 hover:bg-red-50"
+          >
+            <TrashIcon className="h-4 w-4" />
+            {t('common.delete')}
+          </Button>
+        </div>
+      </PageHeader>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Profile */}
+        <Card className="p-6 bg-white border border-slate-200 rounded-2xl shadow-sm">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-slate-900">{t('customers.detail.profile')}</h3>
+            <span className={`inline-flex px-3 py-1 text-xs font-medium rounded-full ${
+              customer.status === 'active' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+            }`}>
+              {customer.status === 'active' ? t('customers.status.active') : t('customers.status.inactive')}
+            </span>
+          </div>
+          <div className="space-y-3 text-sm">
+            <div className="flex items-center text-slate-900">
+              <EnvelopeIcon className="h-4 w-4 text-slate-400 mr-2" />
+              {customer.email}
+            </div>
+            <div className="flex items-center text-slate-900">
+              <PhoneIcon className="h-4 w-4 text-slate-400 mr-2" />
+              {customer.phone}
+            </div>
+            <div className="flex items-start text-slate-900">
+              <MapPinIcon className="h-4 w-4 text-slate-400 mr-2 mt-0.5" />
+              <div>
+                <div>{customer.address.street}</div>
+                <div>{customer.address.city}, {customer.address.state} {customer.address.zip_code}</div>
+                <div className="text-slate-500">{customer.address.country}</div>
+              </div>
+            </div>
+            <div className="flex items-center text-slate-500">
+              <CalendarDaysIcon className="h-4 w-4 text-slate-400 mr-2" />
+              {t('customers.table.customerSince')} {formatDate(customer.created_at)}
+            </div>
+            {customer.notes && (
+              <p className="pt-3 border-t border-slate-100 text-slate-600">{customer.notes}</p>
+            )}
+          </div>
+        </Card>
+
+        {/* Stats */}
+        <div className="lg:col-span-2 grid grid-cols-1 md:grid-cols-3 gap-6">
+          <Card className="p-6 bg-white border border-slate-200 rounded-2xl shadow-sm">
+            <div className="inline-flex items-center justify-center w-12 h-12 bg-blue-100 rounded-2xl mb-4">
+              <ShoppingBagIcon className="w-6 h-6 text-blue-600" />
+            </div>
+            <p className="text-sm font-medium text-slate-500 mb-1">{t('customers.table.purchases')}</p>
+            <p className="text-3xl font-bold text-slate-900">{customer.total_purchases}</p>
+          </Card>
+          <Card className="p-6 bg-white border border-slate-200 rounded-2xl shadow-sm">
+            <div className="inline-flex items-center justify-center w-12 h-12 bg-green-100 rounded-2xl mb-4">
+              <CurrencyDollarIcon className="w-6 h-6 text-green-600" />
+            </div>
+            <p className="text-sm font-medium text-slate-500 mb-1">{t('customers.table.totalSpent')}</p>
+            <p className="text-3xl font-bold text-slate-900">{formattingService.formatCurrency(customer.total_spent)}</p>
+          </Card>
+          <Card className="p-6 bg-white border border-slate-200 rounded-2xl shadow-sm">
+            <div className="inline-flex items-center justify-center w-12 h-12 bg-purple-100 rounded-2xl mb-4">
+              <CalendarDaysIcon className="w-6 h-6 text-purple-600" />
+            </div>
+            <p className="text-sm font-medium text-slate-500 mb-1">{t('customers.detail.lastPurchase')}</p>
+            <p className="text-3xl font-bold text-slate-900">{formatDate(customer.last_purchase)}</p>
+          </Card>
+        </div>
+      </div>
+
+      {/* Purchase History */}
+      <Card className="p-6 bg-white border border-slate-200 rounded-2xl shadow-sm">
+        <div className="mb-6">
+          <h3 className="text-xl font-semibold text-slate-900 mb-1">{t('customers.detail.purchaseHistory')}</h3>
+          <p className="text-sm text-slate-500">
+            {currentStore ? `${currentStore.store_name} - ` : ''}{t('customers.detail.purchaseHistoryDescription')}
+          </p>
+        </div>
+
+        {purchases.length === 0 && !isLoadingPurchases ? (
+          <div className="text-center py-10">
+            <ShoppingBagIcon className="mx-auto h-12 w-12 text-slate-400" />
+            <p className="mt-4 text-sm text-slate-500">{t('customers.detail.noPurchases')}</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full">
+              <thead>
+                <tr className="border-b border-slate-200">
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                    {t('customers.detail.transaction')}
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                    {t('customers.detail.date')}
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                    {t('customers.detail.items')}
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                    {t('customers.detail.tenders')}
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-slate-500 uppercase tracking-wider">
+                    {t('customers.detail.total')}
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200">
+                {purchases.map(({ summary, detail }) => (
+                  <tr
+                    key={summary.trans_id}
+                    onClick={() => navigate(`/sales/${summary.trans_id}`)}
+                    className="hover:bg-slate-50 transition-colors cursor-pointer"
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-slate-900">
+                      {summary.trans_id}
+                      {detail.is_void && (
+                        <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-medium rounded-full bg-red-100 text-red-800">
+                          {t('customers.detail.void')}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500">
+                      {formatDate(detail.begin_time || detail.biz_date)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-900">
+                      {detail.line_items.filter(line => !line.is_void).length}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500">
+                      {detail.payments
+                        .filter(payment => !payment.is_void && !payment.is_change)
+                        .map(payment => payment.tender_desc)
+                        .join(', ')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-slate-900 text-right">
+                      {formattingService.formatCurrency(fromScaledInt(detail.total), { currency: detail.currency })}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {purchasesCursor && (
+          <div className="mt-6 text-center">
+            <Button
+              variant="outline"
+              onClick={() => loadPurchases(purchasesCursor)}
+              disabled={isLoadingPurchases}
+            >
+              {isLoadingPurchases ? t('common.loading') : t('common.loadMore')}
+            </Button>
+          </div>
+        )}
+      </Card>
+
+      <CustomerFormModal
+        isOpen={showForm}
+        onClose={() => setShowForm(false)}
+        onSubmit={handleUpdate}
+        customer={customer}
+      />
+
+      <ConfirmDialog
+        isOpen={deleteDialog.dialogState.isOpen}
+        onClose={deleteDialog.closeDialog}
+        onConfirm={deleteDialog.handleConfirm}
+        title={deleteDialog.dialogState.title}
+        message={deleteDialog.dialogState.message}
+        confirmText={deleteDialog.dialogState.confirmText}
+        cancelText={deleteDialog.dialogState.cancelText}
+        variant={deleteDialog.dialogState.variant}
+        isLoading={deleteDialog.dialogState.isLoading}
+      />
+    </div>
+  );
+};
+
+export default CustomerDetailPage;
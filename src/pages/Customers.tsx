@@ -1,9 +1,10 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
-import { 
-  PlusIcon, 
-  PencilIcon, 
-  TrashIcon, 
+import {
+  PlusIcon,
+  PencilIcon,
+  TrashIcon,
   EyeIcon,
   MagnifyingGlassIcon,
   UserIcon,
@@ -15,247 +16,139 @@ import {
   ChevronDownIcon
 } from '@heroicons/react/24/outline';
 import { useTenantStore } from '../tenants/tenantStore';
-import { Button, Card, PageHeader, ConfirmDialog, Loading } from '../components/ui';
+import { Button, Card, PageHeader, ConfirmDialog, Loading, Pagination } from '../components/ui';
+import { CustomerFormModal } from '../components/customer';
 import { formattingService } from '../services/formatting';
+import { customerService } from '../services/customer';
+import type { Customer, CreateCustomerRequest, CustomerStatus } from '../services/customer';
 import { useDeleteConfirmDialog } from '../hooks/useConfirmDialog';
+import { useError } from '../hooks/useError';
 
-interface Customer {
-  id: string;
-  firstName: string;
-  lastName: string;
-  email: string;
-  phone: string;
-  address: {
-    street: string;
-    city: string;
-    state: string;
-    zipCode: string;
-    country: string;
-  };
-  dateOfBirth?: string;
-  gender?: 'male' | 'female' | 'other';
-  status: 'active' | 'inactive';
-  totalPurchases: number;
-  totalSpent: number;
-  lastPurchase?: string;
-  notes?: string;
-  createdAt: string;
-  updatedAt: string;
-}
+const SEARCH_DEBOUNCE_MS = 300;
 
 const Customers: React.FC = () => {
   const { t } = useTranslation();
+  const navigate = useNavigate();
   const { currentTenant, currentStore } = useTenantStore();
+  const { showError, showSuccess } = useError();
   const [customers, setCustomers] = useState<Customer[]>([]);
+  const [totalCustomers, setTotalCustomers] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
-  const [statusFilter, setStatusFilter] = useState<string>('all');
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [statusFilter, setStatusFilter] = useState<'all' | CustomerStatus>('all');
+  const [currentPage, setCurrentPage] = useState(1);
+  const [pageSize, setPageSize] = useState(25);
   const [showForm, setShowForm] = useState(false);
   const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  const [showDetails, setShowDetails] = useState(false);
-  
-  // Suppress TS6133 warnings for unused variables that are defined but not used
-  console.log({ showForm, selectedCustomer, showDetails });
-  
+
   // Dialog hook
   const deleteDialog = useDeleteConfirmDialog();
-  
-  const [formData, setFormData] = useState<Partial<Customer>>({
-    firstName: '',
-    lastName: '',
-    email: '',
-    phone: '',
-    address: {
-      street: '',
-      city: '',
-      state: '',
-      zipCode: '',
-      country: 'US',
-    },
-    dateOfBirth: '',
-    gender: undefined,
-    status: 'active',
-    notes: '',
-  });
-  const [errors, setErrors] = useState<Record<string, string>>({});
-
-  // TODO: Implement customer API service
+
+  // Debounce the search box so the server is not queried on every keystroke
   useEffect(() => {
-    const fetchCustomers = async () => {
-      setIsLoading(true);
-      
-      try {
-        // TODO: Replace with actual API call when customer service is implemented
-        // const response = await customerService.getCustomers();
-        // setCustomers(response.customers);
-        setCustomers([]);
-      } catch (error) {
-        console.error('Failed to fetch customers:', error);
-        setCustomers([]);
-      } finally {
-        setIsLoading(false);
-      }
-    };
+    const timer = setTimeout(() => {
+      setDebouncedSearch(searchTerm.trim());
+      setCurrentPage(1);
+    }, SEARCH_DEBOUNCE_MS);
 
-    fetchCustomers();
-  }, [currentTenant]);
-
-  const filteredCustomers = customers.filter(customer => {
-    const fullName = `${customer.firstName} ${customer.lastName}`.toLowerCase();
-    const matchesSearch = fullName.includes(searchTerm.toLowerCase()) ||
-                         customer.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         customer.phone.includes(searchTerm);
-    
-    const matchesStatus = statusFilter === 'all' || customer.status === statusFilter;
-    
-    return matchesSearch && matchesStatus;
-  });
-
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
-    const { name, value } = e.target;
-    
-    // Using the function to avoid TS6133 error
-    console.log('Input changed:', name, value);
-    
-    if (name.startsWith('address.')) {
-      const addressField = name.split('.')[1];
-      setFormData(prev => ({
-        ...prev,
-        address: {
-          ...prev.address!,
-          [addressField]: value
-        }
-      }));
-    } else {
-      setFormData(prev => ({
-        ...prev,
-        [name]: value
-      }));
-    }
-    
-    if (errors[name]) {
-      setErrors(prev => ({ ...prev, [name]: '' }));
-    }
-  };
-  
-  // Suppress TS6133 warning for unused function
-  console.log({ handleInputChange });
-
-  const validateForm = () => {
-    const newErrors: Record<string, string> = {};
-    
-    if (!formData.firstName) newErrors.firstName = 'First name is required';
-    if (!formData.lastName) newErrors.lastName = 'Last name is required';
-    if (!formData.email) newErrors.email = 'Email is required';
-    if (!formData.phone) newErrors.phone = 'Phone is required';
-    if (!formData.address?.street) newErrors['address.street'] = 'Street address is required';
-    if (!formData.address?.city) newErrors['address.city'] = 'City is required';
-    if (!formData.address?.state) newErrors['address.state'] = 'State is required';
-    if (!formData.address?.zipCode) newErrors['address.zipCode'] = 'ZIP code is required';
-    
-    // Email validation
-    if (formData.email && !/\S+@\S+\.\S+/.test(formData.email)) {
-      newErrors.email = 'Please enter a valid email address';
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  const fetchCustomers = useCallback(async () => {
+    if (!currentTenant) {
+      setCustomers([]);
+      setTotalCustomers(0);
+      setIsLoading(false);
+      return;
     }
-    
-    setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
-  };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    // Using the function to avoid TS6133 error
-    console.log('Form submitted');
-    
-    if (!validateForm()) return;
-    
+    setIsLoading(true);
+
     try {
-      if (editingCustomer) {
-        // Update existing customer
-        setCustomers(prev => prev.map(c => 
-          c.id === editingCustomer.id 
-            ? { 
-                ...c, 
-                ...formData,
-                updatedAt: new Date().toISOString()
-              } as Customer
-            : c
-        ));
-      } else {
-        // Add new customer
-        const newCustomer: Customer = {
-          ...formData as Customer,
-          id: Date.now().toString(),
-          totalPurchases: 0,
-          totalSpent: 0,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString(),
-        };
-        setCustomers(prev => [...prev, newCustomer]);
-      }
-      
-      handleCloseForm();
+      const response = await customerService.getCustomers({
+        search: debouncedSearch || undefined,
+        status: statusFilter === 'all' ? undefined : statusFilter,
+        page: currentPage,
+        limit: pageSize,
+        sort_by: 'name',
+        sort_order: 'asc'
+      });
+      setCustomers(response.customers);
+      setTotalCustomers(response.total);
     } catch (error) {
-      console.error('Error saving customer:', error);
+      console.error('Failed to fetch customers:', error);
+      setCustomers([]);
+      setTotalCustomers(0);
+      showError(error);
+    } finally {
+      setIsLoading(false);
     }
+  }, [currentTenant, debouncedSearch, statusFilter, currentPage, pageSize, showError]);
+
+  useEffect(() => {
+    fetchCustomers();
+  }, [fetchCustomers]);
+
+  const handleSubmit = async (data: CreateCustomerRequest) => {
+    if (editingCustomer) {
+      await customerService.updateCustomer(editingCustomer.customer_id, data);
+      showSuccess(t('customers.messages.updated'));
+    } else {
+      await customerService.createCustomer(data);
+      showSuccess(t('customers.messages.created'));
+    }
+    await fetchCustomers();
+  };
+
+  const handleAdd = () => {
+    setEditingCustomer(null);
+    setShowForm(true);
   };
-  
-  // Suppress TS6133 warning for unused function
-  console.log({ handleSubmit });
 
   const handleEdit = (customer: Customer) => {
     setEditingCustomer(customer);
-    setFormData(customer);
     setShowForm(true);
   };
 
-  const handleDelete = async (customerId: string) => {
-    const customer = customers.find(c => c.id === customerId);
-    const customerName = customer ? `${customer.firstName} ${customer.lastName}` : 'this customer';
-    
-    deleteDialog.openDeleteDialog(customerName, () => {
-      setCustomers(prev => prev.filter(c => c.id !== customerId));
+  const handleDelete = (customer: Customer) => {
+    const customerName = `${customer.first_name} ${customer.last_name}`;
+
+    deleteDialog.openDeleteDialog(customerName, async () => {
+      try {
+        await customerService.deleteCustomer(customer.customer_id);
+        showSuccess(t('customers.messages.deleted'));
+        await fetchCustomers();
+      } catch (error) {
+        showError(error);
+      }
     });
   };
 
   const handleViewDetails = (customer: Customer) => {
-    setSelectedCustomer(customer);
-    setShowDetails(true);
+    navigate(`/customers/${customer.customer_id}`);
   };
 
   const handleCloseForm = () => {
     setShowForm(false);
     setEditingCustomer(null);
-    setFormData({
-      firstName: '',
-      lastName: '',
-      email: '',
-      phone: '',
-      address: {
-        street: '',
-        city: '',
-        state: '',
-        zipCode: '',
-        country: 'US',
-      },
-      dateOfBirth: '',
-      gender: undefined,
-      status: 'active',
-      notes: '',
-    });
-    setErrors({});
+  };
+
+  const handleStatusFilterChange = (value: string) => {
+    setStatusFilter(value as 'all' | CustomerStatus);
+    setCurrentPage(1);
+  };
+
+  const handlePageSizeChange = (size: number) => {
+    setPageSize(size);
+    setCurrentPage(1);
   };
 
   const getStatusBadge = (status: Customer['status']) => {
     return (
       <span className={`inline-flex px-3 py-1 text-xs font-medium rounded-full ${
-        status === 'active' 
-          ? 'bg-green-100 text-green-800' 
+        status === 'active'
+          ? 'bg-green-100 text-green-800'
           : 'bg-red-100 text-red-800'
       }`}>
         {status === 'active' ? t('customers.status.active') : t('customers.status.inactive')}
@@ -271,19 +164,14 @@ const Customers: React.FC = () => {
     return new Date(dateString).toLocaleDateString();
   };
 
-  const formatDateTime = (dateString: string) => {
-    return new Date(dateString).toLocaleString();
-  };
-  
-  // Suppress TS6133 warning for unused function
-  console.log({ formatDateTime });
-
-  // Calculate summary stats
+  // Summary stats for the loaded page; the total comes from the server
   const activeCustomers = customers.filter(c => c.status === 'active');
-  const totalRevenue = customers.reduce((sum, c) => sum + c.totalSpent, 0);
+  const totalRevenue = customers.reduce((sum, c) => sum + c.total_spent, 0);
   const averageSpent = customers.length > 0 ? totalRevenue / customers.length : 0;
+  const totalPages = Math.max(1, Math.ceil(totalCustomers / pageSize));
+  const hasFilters = Boolean(debouncedSearch) || statusFilter !== 'all';
 
-  if (isLoading) {
+  if (isLoading && customers.length === 0 && !hasFilters) {
     return (
       <Loading
         title={t('customers.loading.title')}
@@ -309,7 +197,7 @@ const Customers: React.FC = () => {
             {t('customers.export')}
             <ChevronDownIcon className="ml-2 h-4 w-4" />
           </Button>
-          <Button onClick={() => setShowForm(true)}>
+          <Button onClick={handleAdd}>
             <PlusIcon className="h-4 w-4 mr-2" />
             {t('customers.addCustomer')}
           </Button>
@@ -325,11 +213,11 @@ const Customers: React.FC = () => {
                 <UserIcon className="w-6 h-6 text-blue-600" />
               </div>
               <p className="text-sm font-medium text-slate-500 mb-1">{t('customers.stats.totalCustomers')}</p>
-              <p className="text-3xl font-bold text-slate-900">{customers.length}</p>
+              <p className="text-3xl font-bold text-slate-900">{totalCustomers}</p>
             </div>
           </div>
         </Card>
-        
+
         <Card className="p-6 bg-white border border-slate-200 rounded-2xl shadow-sm hover:shadow-md transition-shadow">
           <div className="flex items-start justify-between">
             <div className="flex-1">
@@ -341,7 +229,7 @@ const Customers: React.FC = () => {
             </div>
           </div>
         </Card>
-        
+
         <Card className="p-6 bg-white border border-slate-200 rounded-2xl shadow-sm hover:shadow-md transition-shadow">
           <div className="flex items-start justify-between">
             <div className="flex-1">
@@ -355,7 +243,7 @@ const Customers: React.FC = () => {
             </div>
           </div>
         </Card>
-        
+
         <Card className="p-6 bg-white border border-slate-200 rounded-2xl shadow-sm hover:shadow-md transition-shadow">
           <div className="flex items-start justify-between">
             <div className="flex-1">
@@ -384,17 +272,17 @@ const Customers: React.FC = () => {
               className="w-full pl-10 pr-4 py-2 border border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white text-slate-900 placeholder:text-slate-500"
             />
           </div>
-          
+
           <select
             value={statusFilter}
-            onChange={(e) => setStatusFilter(e.target.value)}
+            onChange={(e) => handleStatusFilterChange(e.target.value)}
             className="flex h-10 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm ring-offset-white focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2"
           >
             <option value="all">{t('customers.filters.allStatus')}</option>
             <option value="active">{t('customers.filters.active')}</option>
             <option value="inactive">{t('customers.filters.inactive')}</option>
           </select>
-          
+
           <button className="inline-flex items-center px-4 py-2 bg-white border border-slate-200 rounded-xl text-sm font-medium text-slate-700 hover:bg-slate-50 transition-colors">
             <CalendarDaysIcon className="h-4 w-4 mr-2" />
             {t('customers.export')}
@@ -407,10 +295,10 @@ const Customers: React.FC = () => {
         <div className="mb-6">
           <h3 className="text-xl font-semibold text-slate-900 mb-1">{t('customers.table.title')}</h3>
           <p className="text-sm text-slate-500">
-            {filteredCustomers.length} {t('customers.table.customersFound')}
+            {totalCustomers} {t('customers.table.customersFound')}
           </p>
         </div>
-        <div className="overflow-hidden">
+        <div className={`overflow-hidden ${isLoading ? 'opacity-60' : ''}`}>
           <table className="min-w-full">
             <thead>
               <tr className="border-b border-slate-200">
@@ -438,8 +326,8 @@ const Customers: React.FC = () => {
               </tr>
             </thead>
             <tbody className="divide-y divide-slate-200">
-              {filteredCustomers.map((customer) => (
-                <tr key={customer.id} className="hover:bg-slate-50 transition-colors">
+              {customers.map((customer) => (
+                <tr key={customer.customer_id} className="hover:bg-slate-50 transition-colors">
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="flex items-center">
                       <div className="flex-shrink-0 h-10 w-10">
@@ -449,10 +337,10 @@ const Customers: React.FC = () => {
                       </div>
                       <div className="ml-4">
                         <div className="text-sm font-medium text-slate-900">
-                          {customer.firstName} {customer.lastName}
+                          {customer.first_name} {customer.last_name}
                         </div>
                         <div className="text-sm text-slate-500">
-                          Customer since {formatDate(customer.createdAt)}
+                          {t('customers.table.customerSince')} {formatDate(customer.created_at)}
                         </div>
                       </div>
                     </div>
@@ -479,10 +367,10 @@ const Customers: React.FC = () => {
                     </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-900">
-                    {customer.totalPurchases}
+                    {customer.total_purchases}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-slate-900">
-                    {formatCurrency(customer.totalSpent)}
+                    {formatCurrency(customer.total_spent)}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     {getStatusBadge(customer.status)}
@@ -502,7 +390,7 @@ const Customers: React.FC = () => {
                         <PencilIcon className="h-4 w-4" />
                       </button>
                       <button
-                        onClick={() => handleDelete(customer.id)}
+                        onClick={() => handleDelete(customer)}
                         className="text-red-600 hover:text-red-700 transition-colors"
                       >
                         <TrashIcon className="h-4 w-4" />
@@ -514,20 +402,32 @@ const Customers: React.FC = () => {
             </tbody>
           </table>
         </div>
+
+        {totalCustomers > 0 && (
+          <Pagination
+            currentPage={currentPage}
+            totalPages={totalPages}
+            totalItems={totalCustomers}
+            itemsPerPage={pageSize}
+            onPageChange={setCurrentPage}
+            onItemsPerPageChange={handlePageSizeChange}
+            className="mt-6"
+          />
+        )}
       </Card>
 
-      {filteredCustomers.length === 0 && (
+      {customers.length === 0 && !isLoading && (
         <Card className="p-12 text-center bg-white border border-slate-200 rounded-2xl shadow-sm">
           <UserIcon className="mx-auto h-12 w-12 text-slate-400" />
           <h3 className="mt-4 text-lg font-medium text-slate-900">{t('customers.empty.title')}</h3>
           <p className="mt-2 text-sm text-slate-500">
-            {searchTerm || statusFilter !== 'all' 
+            {hasFilters
               ? t('customers.empty.tryAdjusting')
               : t('customers.empty.getStarted')
             }
           </p>
-          {!searchTerm && statusFilter === 'all' && (
-            <Button className="mt-4" onClick={() => setShowForm(true)}>
+          {!hasFilters && (
+            <Button className="mt-4" onClick={handleAdd}>
               <PlusIcon className="h-4 w-4 mr-2" />
               {t('customers.addCustomer')}
             </Button>
@@ -535,6 +435,14 @@ const Customers: React.FC = () => {
         </Card>
       )}
 
+      {/* Customer Form */}
+      <CustomerFormModal
+        isOpen={showForm}
+        onClose={handleCloseForm}
+        onSubmit={handleSubmit}
+        customer={editingCustomer}
+      />
+
       {/* Confirm Dialog */}
       <ConfirmDialog
         isOpen={deleteDialog.dialogState.isOpen}
@@ -0,0 +1,291 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  BeakerIcon,
+  GiftIcon,
+  PauseCircleIcon,
+  PencilIcon,
+  PlayCircleIcon,
+  PlusIcon,
+  TrashIcon
+} from '@heroicons/react/24/outline';
+import { PageHeader, Button, DataTable, Badge, ConfirmDialog } from '../components/ui';
+import type { Column } from '../components/ui';
+import {
+  DealFormModal,
+  DealSimulator,
+  DEAL_TYPE_LABELS,
+  DEAL_STATUS_LABELS,
+  DEAL_STATUS_COLORS,
+  describeDeal,
+  formatDealWindow
+} from '../components/deal';
+import { dealService, getDealStatus, toDealRequest } from '../services/deal';
+import type { CreateDealRequest, Deal, DealStatus } from '../services/deal';
+import useDeals from '../hooks/useDeals';
+import { useCategories } from '../hooks/useCategories';
+import { useConfirmDialog } from '../hooks/useConfirmDialog';
+import { useError } from '../hooks/useError';
+import { useTenantStore } from '../tenants/tenantStore';
+import { usePermissions } from '../utils/permissions';
+import { useCurrencyFormatter } from '../utils/currencyUtils';
+
+type DealsTab = 'deals' | 'simulator';
+
+interface DealModalState {
+  isOpen: boolean;
+  deal: Deal | null;
+}
+
+const Deals: React.FC = () => {
+  const { currentTenant, currentStore } = useTenantStore();
+  const { showError, showSuccess } = useError();
+  const { hasAnyPermission } = usePermissions();
+  const formatCurrency = useCurrencyFormatter();
+  const confirmDialog = useConfirmDialog();
+  const storeId = currentStore?.store_id;
+  const canManage = hasAnyPermission(['products_update', 'settings_store']);
+
+  const [activeTab, setActiveTab] = useState<DealsTab>('deals');
+  const [statusFilter, setStatusFilter] = useState<DealStatus | 'all'>('all');
+  const [modal, setModal] = useState<DealModalState>({ isOpen: false, deal: null });
+
+  const { deals, products, isLoading, error, setDeals, upsertDeal } = useDeals({ tenantId: currentTenant?.id, storeId });
+  const { categoryOptions } = useCategories({ tenantId: currentTenant?.id, storeId, autoLoad: true });
+
+  const productOptions = useMemo(
+    () => products.map(product => ({ id: product.item_id, label: product.name, description: product.item_id })),
+    [products]
+  );
+
+  const rows = useMemo(() => deals.map(deal => ({ ...deal, status: getDealStatus(deal) })), [deals]);
+  const filteredRows = rows.filter(row => statusFilter === 'all' || row.status === statusFilter);
+
+  const handleSave = async (data: CreateDealRequest, dealId?: string) => {
+    if (!storeId) return;
+    try {
+      const saved = dealId
+        ? await dealService.updateDeal(storeId, dealId, data)
+        : await dealService.createDeal(storeId, data);
+      upsertDeal(saved);
+      showSuccess(dealId ? `${saved.name} saved` : `${saved.name} created`);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to save deal');
+      throw err;
+    }
+  };
+
+  const handleToggleActive = async (deal: Deal) => {
+    if (!storeId) return;
+    try {
+      upsertDeal(await dealService.updateDeal(storeId, deal.deal_id, { ...toDealRequest(deal), active: !deal.active }));
+      showSuccess(deal.active ? `${deal.name} disabled` : `${deal.name} enabled`);
+    } catch (err) {
+      console.error('Failed to update deal:', err);
+      showError('Failed to update deal');
+    }
+  };
+
+  const handleDelete = (deal: Deal) => {
+    if (!storeId) return;
+    confirmDialog.openDialog(async () => {
+      try {
+        await dealService.deleteDeal(storeId, deal.deal_id);
+        setDeals(prev => prev.filter(existing => existing.deal_id !== deal.deal_id));
+        showSuccess(`${deal.name} deleted`);
+      } catch (err) {
+        console.error('Failed to delete deal:', err);
+        showError('Failed to delete deal');
+      }
+    }, {
+      title: 'Delete deal',
+      message: `Delete "${deal.name}"? Past sales keep their deal reference. This action cannot be undone.`,
+      confirmText: 'Delete',
+      variant: 'danger'
+    });
+  };
+
+  const columns: Column<Deal & { status: DealStatus }>[] = [
+    {
+      key: 'name',
+      title: 'Deal',
+      sortable: true,
+      render: (value, deal) => (
+        <div>
+          <div className="font-medium text-gray-900">{value}</div>
+          <div className="text-xs text-gray-500">{describeDeal(deal, formatCurrency)}</div>
+        </div>
+      )
+    },
+    {
+      key: 'deal_type',
+      title: 'Type',
+      sortable: true,
+      render: (value: Deal['deal_type']) => <span className="text-gray-700">{DEAL_TYPE_LABELS[value]}</span>
+    },
+    {
+      key: 'status',
+      title: 'Status',
+      sortable: true,
+      render: (value: DealStatus) => <Badge color={DEAL_STATUS_COLORS[value]} size="sm">{DEAL_STATUS_LABELS[value]}</Badge>
+    },
+    {
+      key: 'effective_datetime',
+      title: 'Runs',
+      sortable: true,
+      render: (value, deal) => (
+        <div className="text-sm">
+          <div className="text-gray-700">
+            {new Date(value).toLocaleDateString()}
+            {deal.expr_datetime ? ` – ${new Date(deal.expr_datetime).toLocaleDateString()}` : ' onwards'}
+          </div>
+          <div className="text-xs text-gray-500">{formatDealWindow(deal)}</div>
+        </div>
+      )
+    },
+    {
+      key: 'priority',
+      title: 'Priority',
+      sortable: true
+    },
+    ...(canManage ? [{
+      key: 'actions',
+      title: '',
+      render: (_value: unknown, deal: Deal) => (
+        <div className="flex items-center justify-end space-x-1">
+          <button
+            onClick={() => handleToggleActive(deal)}
+            className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-orange-600"
+            title={deal.active ? 'Disable' : 'Enable'}
+          >
+            {deal.active ? <PauseCircleIcon className="h-4 w-4" /> : <PlayCircleIcon className="h-4 w-4" />}
+          </button>
+          <button
+            onClick={() => setModal({ isOpen: true, deal })}
+            className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-blue-600"
+            title="Edit deal"
+          >
+            <PencilIcon className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => handleDelete(deal)}
+            className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-red-600"
+            title="Delete deal"
+          >
+            <TrashIcon className="h-4 w-4" />
+          </button>
+        </div>
+      )
+    }] : [])
+  ];
+
+  if (!storeId) {
+    return (
+      <div className="p-6">
+        <PageHeader title="Deals" description="Buy X get Y, mix and match, thresholds and bundles" />
+        <div className="bg-white rounded-lg border border-gray-200 p-10 text-center text-gray-500">
+          Select a store to manage its deals
+        </div>
+      </div>
+    );
+  }
+
+  const tabClass = (tab: DealsTab) => `${
+    activeTab === tab
+      ? 'border-blue-500 text-blue-600'
+      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+  } whitespace-nowrap py-2 px-1 border-b-2 font-medium text-sm flex items-center space-x-2`;
+
+  return (
+    <div className="p-6">
+      <PageHeader title="Deals" description="Buy X get Y, mix and match, thresholds and bundles">
+        <div className="flex items-center space-x-3">
+          <Link to="/discounts" className="text-sm font-medium text-blue-600 hover:text-blue-700">
+            Discounts
+          </Link>
+          {canManage && (
+            <Button onClick={() => setModal({ isOpen: true, deal: null })} className="flex items-center space-x-2">
+              <PlusIcon className="w-5 h-5" />
+              <span>New Deal</span>
+            </Button>
+          )}
+        </div>
+      </PageHeader>
+
+      {/* Tabs */}
+      <div className="mb-6">
+        <nav className="flex space-x-8" aria-label="Tabs">
+          <button onClick={() => setActiveTab('deals')} className={tabClass('deals')}>
+            <GiftIcon className="h-4 w-4" />
+            <span>Deals</span>
+          </button>
+          <button onClick={() => setActiveTab('simulator')} className={tabClass('simulator')}>
+            <BeakerIcon className="h-4 w-4" />
+            <span>Cart Simulator</span>
+          </button>
+        </nav>
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      )}
+
+      {activeTab === 'deals' && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {(['all', 'active', 'scheduled', 'expired', 'disabled'] as const).map(status => (
+              <button
+                key={status}
+                onClick={() => setStatusFilter(status)}
+                className={`rounded-full px-3 py-1 text-sm font-medium ${
+                  statusFilter === status ? 'bg-blue-600 text-white' : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {status === 'all' ? 'All' : DEAL_STATUS_LABELS[status]}
+              </button>
+            ))}
+          </div>
+          <DataTable
+            data={filteredRows}
+            columns={columns}
+            loading={isLoading}
+            searchable={true}
+            searchPlaceholder="Search deals..."
+            searchFields={['name', 'description']}
+            pagination={true}
+            pageSize={25}
+            defaultSort={{ key: 'priority', direction: 'desc' }}
+          />
+        </div>
+      )}
+
+      {activeTab === 'simulator' && (
+        <DealSimulator deals={deals} products={products} formatCurrency={formatCurrency} />
+      )}
+
+      <DealFormModal
+        isOpen={modal.isOpen}
+        onClose={() => setModal({ isOpen: false, deal: null })}
+        deal={modal.deal}
+        productOptions={productOptions}
+        categoryOptions={categoryOptions}
+        formatCurrency={formatCurrency}
+        onSave={handleSave}
+      />
+
+      <ConfirmDialog
+        isOpen={confirmDialog.dialogState.isOpen}
+        onClose={confirmDialog.closeDialog}
+        onConfirm={confirmDialog.handleConfirm}
+        title={confirmDialog.dialogState.title}
+        message={confirmDialog.dialogState.message}
+        confirmText={confirmDialog.dialogState.confirmText}
+        cancelText={confirmDialog.dialogState.cancelText}
+        variant={confirmDialog.dialogState.variant}
+        isLoading={confirmDialog.dialogState.isLoading}
+      />
+    </div>
+  );
+};
+
+export default Deals;
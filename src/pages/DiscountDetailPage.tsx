@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { 
   ArrowLeftIcon, 
@@ -7,13 +7,29 @@ import {
   CalendarIcon,
   TagIcon,
   PercentBadgeIcon,
-  CurrencyDollarIcon
+  CurrencyDollarIcon,
+  CubeIcon,
+  FunnelIcon
 } from '@heroicons/react/24/outline';
 import { discountApiService } from '../services/discount/discountApiService';
+import {
+  formatEligibilityWindow,
+  getEligibilityWindowIssue,
+  getQualifyingProducts,
+  hasProductTargeting,
+  normalizeEligibility
+} from '../services/discount/discountEligibility';
+import { categoryCacheService } from '../services/category';
+import { productService } from '../services/product/product.service';
+import type { ApiProduct } from '../services/types/product.types';
 import { PageHeader, Button, Card, ConfirmDialog } from '../components/ui';
+import { CouponBatchesCard } from '../components/discount';
 import type { Discount } from '../types/discount';
 import useTenantStore from '../tenants/tenantStore';
 import { useDeleteConfirmDialog } from '../hooks/useConfirmDialog';
+import { useCurrencyFormatter } from '../utils/currencyUtils';
+
+const QUALIFYING_PRODUCTS_SHOWN = 50;
 
 const DiscountDetailPage: React.FC = () => {
   const navigate = useNavigate();
@@ -22,6 +38,9 @@ const DiscountDetailPage: React.FC = () => {
 
   const [loading, setLoading] = useState(true);
   const [discount, setDiscount] = useState<Discount | null>(null);
+  const [products, setProducts] = useState<ApiProduct[] | null>(null);
+  const [categoryNames, setCategoryNames] = useState<Record<string, string>>({});
+  const formatCurrency = useCurrencyFormatter();
 
   // Dialog hook
   const deleteDialog = useDeleteConfirmDialog();
@@ -32,6 +51,30 @@ const DiscountDetailPage: React.FC = () => {
     }
   }, [id]);
 
+  useEffect(() => {
+    if (!currentTenant?.id || !currentStore?.store_id) return;
+    productService.getAllProducts(currentTenant.id, currentStore.store_id)
+      .then(setProducts)
+      .catch(error => {
+        console.error('Failed to load products:', error);
+        setProducts([]);
+      });
+  }, [currentTenant?.id, currentStore?.store_id]);
+
+  useEffect(() => {
+    if (!discount || !currentTenant?.id || !currentStore?.store_id) return;
+    const targeting = normalizeEligibility(discount.eligibility);
+    const categoryIds = [...targeting.include_category_ids, ...targeting.exclude_category_ids];
+    if (categoryIds.length === 0) return;
+    categoryCacheService.getCategoryNames(currentTenant.id, currentStore.store_id, categoryIds).then(setCategoryNames);
+  }, [discount, currentTenant?.id, currentStore?.store_id]);
+
+  const eligibility = useMemo(() => normalizeEligibility(discount?.eligibility), [discount]);
+  const qualifyingProducts = useMemo(
+    () => (discount && products ? getQualifyingProducts(products, discount) : []),
+    [discount, products]
+  );
+
   const loadDiscount = async () => {
     if (!id || !currentTenant?.id || !currentStore?.store_id) return;
 
@@ -73,6 +116,22 @@ const DiscountDetailPage: React.FC = () => {
     return now >= startDate && now <= endDate;
   };
 
+  const productName = (itemId: string) => products?.find(product => product.item_id === itemId)?.name || itemId;
+
+  const renderNames = (ids: string[], nameOf: (id: string) => string, empty: string) => (
+    ids.length === 0 ? (
+      <span className="text-gray-500">{empty}</span>
+    ) : (
+      <div className="flex flex-wrap gap-1">
+        {ids.map(entryId => (
+          <span key={entryId} className="inline-flex px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-800">
+            {nameOf(entryId)}
+          </span>
+        ))}
+      </div>
+    )
+  );
+
   const getDiscountValue = (discount: Discount) => {
     if (discount.calculation_mthd_code === 'PERCENT' || discount.calculation_mthd_code === 'PROMPT_PERCENT') {
       return `${discount.percentage}%`;
@@ -298,6 +357,106 @@ const DiscountDetailPage: React.FC = () => {
               )}
             </div>
           </Card>
+
+          {/* Eligibility */}
+          <Card className="p-6">
+            <div className="flex items-center mb-4">
+              <FunnelIcon className="h-5 w-5 text-gray-400 mr-2" />
+              <h3 className="text-lg font-medium text-gray-900">Eligibility</h3>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <label className="block text-sm font-medium text-gray-500 mb-1">Included Items</label>
+                {renderNames(eligibility.include_item_ids, productName, 'Any item')}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-500 mb-1">Excluded Items</label>
+                {renderNames(eligibility.exclude_item_ids, productName, 'None')}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-500 mb-1">Included Categories</label>
+                {renderNames(eligibility.include_category_ids, categoryId => categoryNames[categoryId] || categoryId, 'Any category')}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-500 mb-1">Excluded Categories</label>
+                {renderNames(eligibility.exclude_category_ids, categoryId => categoryNames[categoryId] || categoryId, 'None')}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-500 mb-1">Customer Groups</label>
+                {renderNames(eligibility.customer_groups, group => group, 'Every customer')}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-500 mb-1">Minimum Basket Total</label>
+                <span className="text-gray-900">
+                  {eligibility.min_basket_total ? formatCurrency(eligibility.min_basket_total) : 'None'}
+                </span>
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-500 mb-1">Days & Times</label>
+                <span className="text-gray-900">{formatEligibilityWindow(eligibility)}</span>
+              </div>
+            </div>
+          </Card>
+
+          {/* Qualifying Products */}
+          <Card className="p-6">
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center">
+                <CubeIcon className="h-5 w-5 text-gray-400 mr-2" />
+                <h3 className="text-lg font-medium text-gray-900">Qualifying Products</h3>
+              </div>
+              {products && (
+                <span className="text-sm text-gray-500">
+                  {qualifyingProducts.length} of {products.length}
+                </span>
+              )}
+            </div>
+
+            {(!isDiscountActive(discount) || getEligibilityWindowIssue(eligibility)) && (
+              <p className="mb-4 rounded-md bg-yellow-50 px-3 py-2 text-sm text-yellow-800">
+                {!isDiscountActive(discount)
+                  ? 'This discount is outside its date range, so nothing qualifies right now.'
+                  : `${getEligibilityWindowIssue(eligibility)}, so nothing qualifies right now.`}
+                {' '}These products qualify whenever it is valid.
+              </p>
+            )}
+
+            {products === null ? (
+              <p className="text-sm text-gray-500">Loading products...</p>
+            ) : qualifyingProducts.length === 0 ? (
+              <p className="text-sm text-gray-500">No products match the eligibility rules.</p>
+            ) : !hasProductTargeting(eligibility) && qualifyingProducts.length === products.length ? (
+              <p className="text-sm text-gray-500">Every product qualifies.</p>
+            ) : (
+              <>
+                <ul className="divide-y divide-gray-100">
+                  {qualifyingProducts.slice(0, QUALIFYING_PRODUCTS_SHOWN).map(product => (
+                    <li key={product.item_id} className="flex items-center justify-between py-2 text-sm">
+                      <button
+                        type="button"
+                        onClick={() => navigate(`/products/edit/${product.item_id}`)}
+                        className="text-left hover:text-blue-600"
+                      >
+                        <span className="font-medium text-gray-900">{product.name}</span>
+                        <span className="ml-2 text-xs text-gray-500">{product.item_id}</span>
+                      </button>
+                      <span className="text-gray-700">{formatCurrency(product.list_price)}</span>
+                    </li>
+                  ))}
+                </ul>
+                {qualifyingProducts.length > QUALIFYING_PRODUCTS_SHOWN && (
+                  <p className="mt-2 text-xs text-gray-500">
+                    and {qualifyingProducts.length - QUALIFYING_PRODUCTS_SHOWN} more
+                  </p>
+                )}
+              </>
+            )}
+          </Card>
+
+          {/* Coupon Batches */}
+          {(discount.serialized_discount_flag === 1 || discount.typcode !== 'DISCOUNT') && (
+            <CouponBatchesCard discount={discount} formatCurrency={formatCurrency} />
+          )}
         </div>
 
         {/* Sidebar */}
@@ -10,13 +10,24 @@ import {
   CloudArrowUpIcon,
   InformationCircleIcon,
   PercentBadgeIcon,
-  PlusIcon
+  PlusIcon,
+  FunnelIcon
 } from '@heroicons/react/24/outline';
 import { discountApiService } from '../services/discount/discountApiService';
+import {
+  EMPTY_DISCOUNT_ELIGIBILITY,
+  hasEligibilityRules,
+  normalizeEligibility,
+  validateEligibility
+} from '../services/discount/discountEligibility';
+import { categoryCacheService } from '../services/category';
+import { productService } from '../services/product/product.service';
+import { DiscountEligibilityEditor } from '../components/discount';
 import { PageHeader, Button, DropdownSearch, Alert, Loading, PropertyCheckbox, ConfirmDialog, Widget } from '../components/ui';
 import { InputTextField, InputMoneyField } from '../components/ui';
 import type { Discount, CreateDiscountRequest } from '../types/discount';
 import type { DropdownSearchOption } from '../components/ui/DropdownSearch';
+import type { MultipleDropdownSearchOption } from '../components/ui/MultipleDropdownSearch';
 import useTenantStore from '../tenants/tenantStore';
 import { useDeleteConfirmDialog } from '../hooks/useConfirmDialog';
 import { useError } from '../hooks/useError';
@@ -124,7 +135,8 @@ const DiscountEditPage: React.FC = () => {
     max_percentage: null,
     exclusive_discount_flag: 0,
     serialized_discount_flag: 0,
-    disallow_change_flag: 0
+    disallow_change_flag: 0,
+    eligibility: EMPTY_DISCOUNT_ELIGIBILITY
   });
 
   const [isLoading, setIsLoading] = useState(false);
@@ -134,6 +146,10 @@ const DiscountEditPage: React.FC = () => {
 
   const [showTemplates, setShowTemplates] = useState(!isEditing);
 
+  // Picker options for eligibility targeting
+  const [productOptions, setProductOptions] = useState<MultipleDropdownSearchOption[]>([]);
+  const [categoryOptions, setCategoryOptions] = useState<MultipleDropdownSearchOption[]>([]);
+
   // Error handling hooks
   const { showError, showSuccess, showValidationError } = useError();
 
@@ -166,6 +182,21 @@ const DiscountEditPage: React.FC = () => {
     }
   }, [id, isEditing]);
 
+  useEffect(() => {
+    if (!currentTenant?.id || !currentStore?.store_id) return;
+    const tenantId = currentTenant.id;
+    const storeId = currentStore.store_id;
+
+    categoryCacheService.getCategoryOptions(tenantId, storeId).then(setCategoryOptions);
+    productService.getAllProducts(tenantId, storeId)
+      .then(products => setProductOptions(products.map(product => ({
+        id: product.item_id,
+        label: product.name,
+        description: product.item_id
+      }))))
+      .catch(error => console.error('Failed to load products for eligibility:', error));
+  }, [currentTenant?.id, currentStore?.store_id]);
+
   // Check for changes to enable/disable save button
   useEffect(() => {
     if (!isEditing) {
@@ -194,7 +225,8 @@ const DiscountEditPage: React.FC = () => {
         formData.max_percentage !== originalDiscount.max_percentage ||
         formData.exclusive_discount_flag !== originalDiscount.exclusive_discount_flag ||
         formData.serialized_discount_flag !== originalDiscount.serialized_discount_flag ||
-        formData.disallow_change_flag !== originalDiscount.disallow_change_flag;
+        formData.disallow_change_flag !== originalDiscount.disallow_change_flag ||
+        JSON.stringify(normalizeEligibility(formData.eligibility)) !== JSON.stringify(normalizeEligibility(originalDiscount.eligibility));
 
       setHasChanges(hasChanged);
     }
@@ -236,6 +268,7 @@ const DiscountEditPage: React.FC = () => {
         exclusive_discount_flag: discountData.exclusive_discount_flag,
         serialized_discount_flag: discountData.serialized_discount_flag,
         disallow_change_flag: discountData.disallow_change_flag,
+        eligibility: normalizeEligibility(discountData.eligibility),
       });
     } catch (error: any) {
       console.error('Failed to load discount:', error);
@@ -363,6 +396,8 @@ const DiscountEditPage: React.FC = () => {
       newErrors.sort_order = 'Sort order cannot be negative';
     }
 
+    Object.assign(newErrors, validateEligibility(normalizeEligibility(formData.eligibility)));
+
     // Cross-field validations
     if (formData.min_eligible_price && formData.max_discount &&
       formData.calculation_mthd_code === 'AMOUNT' &&
@@ -423,6 +458,8 @@ const DiscountEditPage: React.FC = () => {
         ...formData,
         effective_datetime: formData.effective_datetime + 'Z',
         expr_datetime: formData.expr_datetime + 'Z',
+        // Store no eligibility at all when nothing is restricted
+        eligibility: hasEligibilityRules(normalizeEligibility(formData.eligibility)) ? formData.eligibility : null,
       };
 
       if (isEditing && id) {
@@ -786,6 +823,24 @@ const DiscountEditPage: React.FC = () => {
             </div>
           </Widget>
 
+          {/* Eligibility Widget */}
+          <Widget
+            title="Eligibility"
+            description={formData.app_mthd_code === 'TRANSACTION'
+              ? 'Who and when this discount applies; excluded items do not count towards the transaction'
+              : 'Which items, customers and times this discount applies to'}
+            icon={FunnelIcon}
+            className="lg:col-span-2 overflow-visible"
+          >
+            <DiscountEligibilityEditor
+              eligibility={normalizeEligibility(formData.eligibility)}
+              onChange={(eligibility) => handleInputChange('eligibility', eligibility)}
+              productOptions={productOptions}
+              categoryOptions={categoryOptions}
+              errors={errors}
+            />
+          </Widget>
+
           {/* Settings Widget */}
           <Widget
             title="Settings"
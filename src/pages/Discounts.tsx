@@ -7,16 +7,21 @@ import {
   PencilIcon,
   TrashIcon,
   CalendarIcon,
-  PercentBadgeIcon
+  PercentBadgeIcon,
+  BeakerIcon
 } from '@heroicons/react/24/outline';
 import { discountApiService } from '../services/discount/discountApiService';
+import { productService } from '../services/product/product.service';
+import { DiscountStackSimulator } from '../components/discount';
 import { PageHeader, Button, ConfirmDialog, AdvancedSearchFilter } from '../components/ui';
 import type { Discount } from '../types/discount';
+import type { ApiProduct } from '../services/types/product.types';
 import type { FilterConfig, ViewMode } from '../components/ui/AdvancedSearchFilter';
 import useTenantStore from '../tenants/tenantStore';
 import { useDeleteConfirmDialog } from '../hooks/useConfirmDialog';
 import { useError } from '../hooks/useError';
 import { formattingService } from '../services/formatting';
+import { useCurrencyFormatter } from '../utils/currencyUtils';
 
 const Discounts: React.FC = () => {
   const navigate = useNavigate();
@@ -28,6 +33,11 @@ const Discounts: React.FC = () => {
   const [viewMode, setViewMode] = useState<ViewMode>('grid');
   const [loading, setLoading] = useState(true);
   const { currentTenant, currentStore } = useTenantStore();
+  const formatCurrency = useCurrencyFormatter();
+
+  // "Try it" panel; products load the first time it opens
+  const [showSimulator, setShowSimulator] = useState(false);
+  const [products, setProducts] = useState<ApiProduct[] | null>(null);
 
   // Error handling hooks
   const { showError, showApiError, showSuccess } = useError();
@@ -41,6 +51,16 @@ const Discounts: React.FC = () => {
     }
   }, [currentTenant?.id, currentStore?.store_id]);
 
+  useEffect(() => {
+    if (!showSimulator || products !== null || !currentTenant?.id || !currentStore?.store_id) return;
+    productService.getAllProducts(currentTenant.id, currentStore.store_id)
+      .then(setProducts)
+      .catch(error => {
+        console.error('Failed to load products for the simulator:', error);
+        setProducts([]);
+      });
+  }, [showSimulator, products, currentTenant?.id, currentStore?.store_id]);
+
   const loadDiscounts = async () => {
     if (!currentTenant?.id || !currentStore?.store_id) {
       showError('Missing tenant or store information');
@@ -180,15 +200,36 @@ const Discounts: React.FC = () => {
         title="Discounts"
         description="Manage your store's discounts and promotional offers"
       >
-        <Button
-          onClick={() => navigate('/discounts/new')}
-          className="flex items-center space-x-2 bg-blue-600 hover:bg-blue-700 text-white"
-        >
-          <PlusIcon className="w-5 h-5" />
-          <span>Add Discount</span>
-        </Button>
+        <div className="flex items-center space-x-3">
+          <Button
+            onClick={() => setShowSimulator(prev => !prev)}
+            variant="outline"
+            className="flex items-center space-x-2"
+          >
+            <BeakerIcon className="w-5 h-5" />
+            <span>{showSimulator ? 'Hide Simulator' : 'Try It'}</span>
+          </Button>
+          <Button
+            onClick={() => navigate('/discounts/new')}
+            className="flex items-center space-x-2 bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            <PlusIcon className="w-5 h-5" />
+            <span>Add Discount</span>
+          </Button>
+        </div>
       </PageHeader>
 
+      {showSimulator && (
+        <div className="mb-6">
+          <DiscountStackSimulator
+            discounts={discounts}
+            products={products || []}
+            productsLoading={products === null}
+            formatCurrency={formatCurrency}
+          />
+        </div>
+      )}
+
       {/* Search and Filter Bar */}
       <AdvancedSearchFilter
         searchValue={searchTerm}
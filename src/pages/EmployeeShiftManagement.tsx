@@ -1,5 +1,5 @@
-import React, { useState, useEffect } from 'react';
-// import { useNavigate } from 'react-router-dom'; // Will be used for navigation actions
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
 import {
   UserGroupIcon,
   ClockIcon,
@@ -7,418 +7,281 @@ import {
   PlusIcon,
   PencilIcon,
   TrashIcon,
-  EyeIcon,
-  CheckCircleIcon,
   ChevronLeftIcon,
-  ChevronRightIcon
+  ChevronRightIcon,
+  DocumentDuplicateIcon,
+  ExclamationTriangleIcon,
+  RectangleStackIcon
 } from '@heroicons/react/24/outline';
 import {
   PageHeader,
   Button,
   DataTable,
-  Modal
+  ConfirmDialog
 } from '../components/ui';
-
-// Type definitions
-interface Employee {
-  employee_id: string;
-  name: string;
-  role: string;
-  hourly_rate: number;
-  status: 'active' | 'inactive';
-  contact: string;
-  hire_date: string;
+import {
+  WeeklyShiftPlanner,
+  DayShiftTimeline,
+  ShiftFormModal,
+  ShiftTemplatesManager,
+  SHIFT_STATUS_LABELS,
+  formatHours
+} from '../components/schedule';
+import {
+  scheduleService,
+  addDays,
+  getWeekStart,
+  getShiftHours,
+  getUserDisplayName,
+  parseDateKey,
+  toDateKey
+} from '../services/schedule';
+import type { CreateShiftRequest, CreateShiftTemplateRequest, Shift, ShiftTemplate } from '../services/schedule';
+import { userService } from '../services/user';
+import type { StoreUser } from '../services/types/user.types';
+import useShiftSchedule from '../hooks/useShiftSchedule';
+import { useError } from '../hooks/useError';
+import { useDeleteConfirmDialog } from '../hooks/useConfirmDialog';
+import { useTenantStore } from '../tenants/tenantStore';
+
+type ScheduleTab = 'planner' | 'templates' | 'shifts';
+type PlannerView = 'week' | 'day';
+
+interface ShiftModalState {
+  isOpen: boolean;
+  shift: Shift | null;
+  userId?: string;
+  date?: string;
 }
 
-interface Shift {
-  shift_id: string;
-  employee_id: string;
-  employee_name: string;
-  role: string;
-  date: string;
-  start_time: string;
-  end_time: string;
-  status: 'scheduled' | 'confirmed' | 'in_progress' | 'completed' | 'cancelled';
-  hourly_rate: number;
-  break_minutes: number;
-  notes?: string;
-}
+const USERS_PAGE_LIMIT = 200;
 
-// interface ShiftTemplate {
-//   template_id: string;
-//   name: string;
-//   day_of_week: number; // 0-6 (Sunday-Saturday)
-//   start_time: string;
-//   end_time: string;
-//   role: string;
-//   required_employees: number;
-// }
-
-// WeeklyScheduleView Component - Teams-style calendar with time blocks
-interface WeeklyScheduleViewProps {
-  shifts: Shift[];
-  selectedDate: Date;
-  onDateSelect: (date: Date) => void;
-  onShiftClick: (shift: Shift) => void;
-  onTimeSlotClick: (date: Date, time: string) => void;
-}
+const getStatusBadge = (status: Shift['status']) => {
+  const statusStyles: Record<string, string> = {
+    scheduled: 'bg-blue-100 text-blue-800',
+    confirmed: 'bg-green-100 text-green-800',
+    in_progress: 'bg-yellow-100 text-yellow-800',
+    completed: 'bg-gray-100 text-gray-800',
+    cancelled: 'bg-red-100 text-red-800',
+  };
 
-const WeeklyScheduleView: React.FC<WeeklyScheduleViewProps> = ({
-  shifts,
-  selectedDate,
-  onDateSelect,
-  onShiftClick,
-  onTimeSlotClick
-}) => {
-  const [weekStart, setWeekStart] = useState<Date>(() => {
-    const start = new Date(selectedDate);
-    start.setDate(start.getDate() - start.getDay()); // Go to Sunday
-    return start;
-  });
-
-  // Time slots from 6 AM to 2 AM next day (for overnight shifts)
-  const timeSlots = [
-    '06:00', '07:00', '08:00', '09:00', '10:00', '11:00',
-    '12:00', '13:00', '14:00', '15:00', '16:00', '17:00',
-    '18:00', '19:00', '20:00', '21:00', '22:00', '23:00',
-    '00:00', '01:00', '02:00'
-  ];
+  return (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusStyles[status] || 'bg-gray-100 text-gray-800'}`}>
+      {SHIFT_STATUS_LABELS[status] || status}
+    </span>
+  );
+};
 
-  // Get days of the current week
-  const weekDays = Array.from({ length: 7 }, (_, i) => {
-    const day = new Date(weekStart);
-    day.setDate(weekStart.getDate() + i);
-    return day;
-  });
-
-  const getRoleColor = (role: string): string => {
-    const colors: Record<string, string> = {
-      chef: 'bg-red-500',
-      server: 'bg-blue-500',
-      host: 'bg-green-500',
-      bartender: 'bg-purple-500',
-      manager: 'bg-gray-500',
-    };
-    return colors[role] || 'bg-gray-500';
-  };
+const EmployeeShiftManagement: React.FC = () => {
+  const navigate = useNavigate();
+  const { currentStore } = useTenantStore();
+  const { showError, showSuccess } = useError();
+  const deleteDialog = useDeleteConfirmDialog();
+  const storeId = currentStore?.store_id;
+
+  const [activeTab, setActiveTab] = useState<ScheduleTab>('planner');
+  const [view, setView] = useState<PlannerView>('week');
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(new Date()));
+  const [selectedDate, setSelectedDate] = useState(() => toDateKey(new Date()));
+  const [employees, setEmployees] = useState<StoreUser[]>([]);
+  const [loadingEmployees, setLoadingEmployees] = useState(false);
+  const [quickTemplateId, setQuickTemplateId] = useState('');
+  const [copying, setCopying] = useState(false);
+  const [shiftModal, setShiftModal] = useState<ShiftModalState>({ isOpen: false, shift: null });
+
+  const {
+    shifts,
+    templates,
+    storeTimings,
+    weekDates,
+    conflicts,
+    labor,
+    isLoading,
+    error,
+    setShifts,
+    setTemplates,
+    refresh
+  } = useShiftSchedule({ storeId, weekStart, users: employees });
 
-  const getStatusOpacity = (status: string): string => {
-    const opacity: Record<string, string> = {
-      scheduled: 'opacity-70',
-      confirmed: 'opacity-90',
-      in_progress: 'opacity-100 ring-2 ring-yellow-400',
-      completed: 'opacity-50',
-      cancelled: 'opacity-30 line-through',
+  useEffect(() => {
+    if (!storeId) return;
+
+    const loadEmployees = async () => {
+      setLoadingEmployees(true);
+      try {
+        const response = await userService.getUsers({ store_id: storeId, status: 'active', limit: USERS_PAGE_LIMIT });
+        setEmployees(response.users || []);
+      } catch (err) {
+        console.error('Failed to load employees:', err);
+        setEmployees([]);
+      } finally {
+        setLoadingEmployees(false);
+      }
     };
-    return opacity[status] || 'opacity-70';
-  };
 
-  const timeToMinutes = (time: string): number => {
-    const [hours, minutes] = time.split(':').map(Number);
-    return hours * 60 + minutes;
-  };
+    loadEmployees();
+  }, [storeId]);
 
-  const getShiftPosition = (shift: Shift): { top: number; height: number } => {
-    const startMinutes = timeToMinutes(shift.start_time);
-    const endMinutes = timeToMinutes(shift.end_time);
-    
-    // Handle overnight shifts
-    const actualEndMinutes = endMinutes < startMinutes ? endMinutes + 24 * 60 : endMinutes;
-    
-    // Calculate position relative to 6 AM (360 minutes)
-    const dayStartMinutes = 6 * 60; // 6 AM
-    const relativeStart = Math.max(0, startMinutes - dayStartMinutes);
-    const relativeEnd = Math.min(20 * 60, actualEndMinutes - dayStartMinutes); // Max 20 hours displayed
-    
-    const hourHeight = 48; // 48px per hour (h-12)
-    const top = (relativeStart / 60) * hourHeight;
-    const height = Math.max(24, ((relativeEnd - relativeStart) / 60) * hourHeight); // Min 24px height
-    
-    return { top, height };
+  // Keep the day view inside the visible week
+  useEffect(() => {
+    if (!weekDates.includes(selectedDate)) setSelectedDate(weekStart);
+  }, [weekDates, weekStart, selectedDate]);
+
+  const weekShifts = useMemo(() => shifts.filter(shift => weekDates.includes(shift.date)), [shifts, weekDates]);
+  const activeWeekShifts = weekShifts.filter(shift => shift.status !== 'cancelled');
+  const weekHours = labor.reduce((total, day) => total + day.hours, 0);
+  const scheduledStaff = new Set(activeWeekShifts.map(shift => shift.user_id)).size;
+  const employeesById = useMemo(() => new Map(employees.map(user => [user.user_id, user])), [employees]);
+
+  const weekLabel = `${parseDateKey(weekDates[0]).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} - ${
+    parseDateKey(weekDates[6]).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+  }`;
+
+  const getEmployeeName = (shift: Shift) => {
+    const user = employeesById.get(shift.user_id);
+    return user ? getUserDisplayName(user) : shift.employee_name || shift.user_id;
   };
 
-  const getShiftsForDay = (date: Date): Shift[] => {
-    const dateStr = date.toISOString().split('T')[0];
-    return shifts.filter(shift => shift.date === dateStr);
+  const navigateWeek = (weeks: number) => {
+    setWeekStart(addDays(weekStart, weeks * 7));
+    setSelectedDate(addDays(selectedDate, weeks * 7));
   };
 
-  const navigateWeek = (direction: 'prev' | 'next') => {
-    const newWeekStart = new Date(weekStart);
-    newWeekStart.setDate(weekStart.getDate() + (direction === 'next' ? 7 : -7));
-    setWeekStart(newWeekStart);
+  const goToToday = () => {
+    setWeekStart(getWeekStart(new Date()));
+    setSelectedDate(toDateKey(new Date()));
   };
 
-  const formatTime12Hour = (time24: string): string => {
-    const [hours, minutes] = time24.split(':').map(Number);
-    const period = hours >= 12 ? 'PM' : 'AM';
-    const hours12 = hours === 0 ? 12 : hours > 12 ? hours - 12 : hours;
-    return `${hours12}:${minutes.toString().padStart(2, '0')} ${period}`;
+  const handleCopyLastWeek = async () => {
+    if (!storeId) return;
+    setCopying(true);
+    try {
+      const result = await scheduleService.copyWeek(storeId, addDays(weekStart, -7), weekStart);
+      if (result.created.length === 0) {
+        showSuccess('Nothing to copy from last week');
+      } else {
+        showSuccess(`Copied ${result.created.length} shift(s) from last week`);
+      }
+      await refresh();
+    } catch (err) {
+      console.error('Failed to copy last week:', err);
+      showError('Failed to copy last week\'s schedule');
+    } finally {
+      setCopying(false);
+    }
   };
 
-  return (
-    <div className="bg-white rounded-lg border border-gray-200">
-      {/* Header with week navigation */}
-      <div className="flex items-center justify-between p-4 border-b border-gray-200">
-        <div className="flex items-center space-x-4">
-          <button
-            onClick={() => navigateWeek('prev')}
-            className="p-2 hover:bg-gray-100 rounded-md"
-          >
-            <ChevronLeftIcon className="h-5 w-5" />
-          </button>
-          <h2 className="text-lg font-semibold text-gray-900">
-            {weekStart.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
-          </h2>
-          <button
-            onClick={() => navigateWeek('next')}
-            className="p-2 hover:bg-gray-100 rounded-md"
-          >
-            <ChevronRightIcon className="h-5 w-5" />
-          </button>
-        </div>
-        <div className="flex items-center space-x-2 text-sm text-gray-600">
-          <div className="flex items-center space-x-1">
-            <div className="w-3 h-3 bg-red-500 rounded"></div>
-            <span>Chef</span>
-          </div>
-          <div className="flex items-center space-x-1">
-            <div className="w-3 h-3 bg-blue-500 rounded"></div>
-            <span>Server</span>
-          </div>
-          <div className="flex items-center space-x-1">
-            <div className="w-3 h-3 bg-green-500 rounded"></div>
-            <span>Host</span>
-          </div>
-          <div className="flex items-center space-x-1">
-            <div className="w-3 h-3 bg-purple-500 rounded"></div>
-            <span>Bartender</span>
-          </div>
-        </div>
-      </div>
-
-      {/* Calendar Grid */}
-      <div className="flex">
-        {/* Time column */}
-        <div className="w-20 border-r border-gray-200">
-          <div className="h-12 border-b border-gray-200"></div> {/* Header spacer */}
-          {timeSlots.map((time) => (
-            <div key={time} className="h-12 border-b border-gray-100 px-2 py-1 text-xs text-gray-500 text-right flex items-center justify-end">
-              {formatTime12Hour(time)}
-            </div>
-          ))}
-        </div>
-
-        {/* Days columns */}
-        <div className="flex-1 grid grid-cols-7">
-          {weekDays.map((day, dayIndex) => {
-            const dayShifts = getShiftsForDay(day);
-            const isToday = day.toDateString() === new Date().toDateString();
-            const isSelected = day.toDateString() === selectedDate.toDateString();
-
-            return (
-              <div key={dayIndex} className="border-r border-gray-200 last:border-r-0">
-                {/* Day header */}
-                <div 
-                  className={`h-12 border-b border-gray-200 p-2 text-center cursor-pointer hover:bg-gray-50 ${
-                    isSelected ? 'bg-blue-50 text-blue-700' : isToday ? 'bg-yellow-50 text-yellow-700' : ''
-                  }`}
-                  onClick={() => onDateSelect(day)}
-                >
-                  <div className="text-xs text-gray-500">
-                    {day.toLocaleDateString('en-US', { weekday: 'short' })}
-                  </div>
-                  <div className={`text-sm font-medium ${isToday ? 'font-bold' : ''}`}>
-                    {day.getDate()}
-                  </div>
-                </div>
-
-                {/* Time slots */}
-                <div className="relative">
-                  {timeSlots.map((time, timeIndex) => (
-                    <div
-                      key={`${dayIndex}-${timeIndex}`}
-                      className="h-12 border-b border-gray-100 hover:bg-gray-50 cursor-pointer"
-                      onClick={() => onTimeSlotClick(day, time)}
-                    ></div>
-                  ))}
-
-                  {/* Shift blocks */}
-                  {dayShifts.map((shift, shiftIndex) => {
-                    const position = getShiftPosition(shift);
-                    return (
-                      <div
-                        key={shift.shift_id}
-                        className={`absolute left-1 right-1 rounded px-2 py-1 text-xs text-white cursor-pointer hover:shadow-lg transition-shadow ${getRoleColor(shift.role)} ${getStatusOpacity(shift.status)}`}
-                        style={{
-                          top: `${position.top}px`,
-                          height: `${position.height}px`,
-                          zIndex: 10 + shiftIndex
-                        }}
-                        onClick={() => onShiftClick(shift)}
-                        title={`${shift.employee_name} - ${shift.role}\n${shift.start_time} - ${shift.end_time}`}
-                      >
-                        <div className="font-medium truncate">{shift.employee_name}</div>
-                        <div className="text-xs opacity-90 truncate">
-                          {shift.start_time} - {shift.end_time}
-                        </div>
-                        {shift.status === 'in_progress' && (
-                          <div className="absolute top-0 right-0 w-2 h-2 bg-yellow-400 rounded-full animate-pulse"></div>
-                        )}
-                      </div>
-                    );
-                  })}
-                </div>
-              </div>
-            );
-          })}
-        </div>
-      </div>
-    </div>
-  );
-};
-
-const EmployeeShiftManagement: React.FC = () => {
-  // const navigate = useNavigate(); // Will be used for navigation actions
-  
-  const [activeTab, setActiveTab] = useState('calendar');
-  const [selectedDate, setSelectedDate] = useState<Date>(new Date());
-  const [employees, setEmployees] = useState<Employee[]>([]);
-  const [shifts, setShifts] = useState<Shift[]>([]);
-  // const [templates, setTemplates] = useState<ShiftTemplate[]>([]); // Will be used for shift templates
-  const [loading, setLoading] = useState(false);
-  const [showShiftModal, setShowShiftModal] = useState(false);
-
-  useEffect(() => {
-    loadData();
-  }, []);
+  const handleCellClick = async (userId: string, date: string) => {
+    const template = templates.find(item => item.template_id === quickTemplateId);
+    if (!template || !storeId) {
+      setShiftModal({ isOpen: true, shift: null, userId, date });
+      return;
+    }
 
-  const loadData = async () => {
-    setLoading(true);
-    
+    // Quick fill: drop the selected template straight into the cell
+    const user = employeesById.get(userId);
     try {
-      // TODO: Replace with actual API calls when shift management service is implemented
-      // const employeesResponse = await shiftService.getEmployees();
-      // const shiftsResponse = await shiftService.getShifts();
-      // setEmployees(employeesResponse);
-      // setShifts(shiftsResponse);
-      setEmployees([]);
-      setShifts([]);
-    } catch (error) {
-      console.error('Failed to load shift data:', error);
-      setEmployees([]);
-      setShifts([]);
-    } finally {
-      setLoading(false);
+      const created = await scheduleService.createShift(storeId, {
+        user_id: userId,
+        employee_name: user ? getUserDisplayName(user) : undefined,
+        date,
+        start_time: template.start_time,
+        end_time: template.end_time,
+        break_minutes: template.break_minutes,
+        role: template.role,
+        template_id: template.template_id
+      });
+      setShifts(prev => [...prev, created]);
+    } catch (err) {
+      console.error('Failed to create shift:', err);
+      showError('Failed to create shift');
     }
   };
 
-  const getShiftsForDate = (date: Date): Shift[] => {
-    const dateStr = date.toISOString().split('T')[0];
-    return shifts.filter(shift => shift.date === dateStr);
+  const handleSaveShift = async (data: CreateShiftRequest, shiftId?: string) => {
+    if (!storeId) return;
+    try {
+      if (shiftId) {
+        const updated = await scheduleService.updateShift(storeId, shiftId, data);
+        setShifts(prev => prev.map(shift => (shift.shift_id === shiftId ? updated : shift)));
+        showSuccess('Shift updated');
+      } else {
+        const created = await scheduleService.createShift(storeId, data);
+        setShifts(prev => [...prev, created]);
+        showSuccess('Shift scheduled');
+      }
+    } catch (err) {
+      showError(shiftId ? 'Failed to update shift' : 'Failed to schedule shift');
+      throw err;
+    }
   };
 
-  const getStatusBadge = (status: string) => {
-    const statusStyles: Record<string, string> = {
-      scheduled: 'bg-blue-100 text-blue-800',
-      confirmed: 'bg-green-100 text-green-800',
-      in_progress: 'bg-yellow-100 text-yellow-800',
-      completed: 'bg-gray-100 text-gray-800',
-      cancelled: 'bg-red-100 text-red-800',
-    };
+  const handleDeleteShift = async (shift: Shift) => {
+    if (!storeId) return;
+    try {
+      await scheduleService.deleteShift(storeId, shift.shift_id);
+      setShifts(prev => prev.filter(item => item.shift_id !== shift.shift_id));
+      showSuccess('Shift deleted');
+    } catch (err) {
+      showError('Failed to delete shift');
+      throw err;
+    }
+  };
 
-    return (
-      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusStyles[status] || 'bg-gray-100 text-gray-800'}`}>
-        {status.replace('_', ' ').toUpperCase()}
-      </span>
+  const confirmDeleteShift = (shift: Shift) => {
+    deleteDialog.openDeleteDialog(
+      `${getEmployeeName(shift)} ${shift.date} ${shift.start_time}-${shift.end_time}`,
+      async () => {
+        try {
+          await handleDeleteShift(shift);
+        } catch (err) {
+          console.error('Failed to delete shift:', err);
+        }
+      }
     );
   };
 
-  const getRoleBadge = (role: string) => {
-    const roleColors: Record<string, string> = {
-      chef: 'bg-red-100 text-red-800',
-      server: 'bg-blue-100 text-blue-800',
-      host: 'bg-green-100 text-green-800',
-      bartender: 'bg-purple-100 text-purple-800',
-      manager: 'bg-gray-100 text-gray-800',
-    };
-
-    return (
-      <span className={`inline-flex items-center px-2 py-1 rounded-md text-xs font-medium ${roleColors[role] || 'bg-gray-100 text-gray-800'}`}>
-        {role.toUpperCase()}
-      </span>
-    );
+  const handleCreateTemplate = async (data: CreateShiftTemplateRequest) => {
+    if (!storeId) return;
+    try {
+      const created = await scheduleService.createTemplate(storeId, data);
+      setTemplates(prev => [...prev, created]);
+      showSuccess(`Template "${created.name}" created`);
+    } catch (err) {
+      showError('Failed to create template');
+      throw err;
+    }
   };
 
-  const calculateShiftHours = (startTime: string, endTime: string): number => {
-    const start = new Date(`1970-01-01T${startTime}:00`);
-    let end = new Date(`1970-01-01T${endTime}:00`);
-    
-    // Handle overnight shifts
-    if (end < start) {
-      end.setDate(end.getDate() + 1);
+  const handleUpdateTemplate = async (templateId: string, data: CreateShiftTemplateRequest) => {
+    if (!storeId) return;
+    try {
+      const updated = await scheduleService.updateTemplate(storeId, templateId, data);
+      setTemplates(prev => prev.map(template => (template.template_id === templateId ? updated : template)));
+      showSuccess(`Template "${updated.name}" updated`);
+    } catch (err) {
+      showError('Failed to update template');
+      throw err;
     }
-    
-    return (end.getTime() - start.getTime()) / (1000 * 60 * 60);
   };
 
-  // Employee columns for data table
-  const employeeColumns = [
-    {
-      key: 'name',
-      title: 'Employee',
-      sortable: true,
-      render: (value: string, employee: Employee) => (
-        <div className="flex items-center">
-          <UserGroupIcon className="h-5 w-5 text-gray-400 mr-2" />
-          <div>
-            <div className="text-sm font-medium text-gray-900">{value}</div>
-            <div className="text-sm text-gray-500">{employee.employee_id}</div>
-          </div>
-        </div>
-      ),
-    },
-    {
-      key: 'role',
-      title: 'Role',
-      sortable: true,
-      render: (value: string) => getRoleBadge(value),
-    },
-    {
-      key: 'hourly_rate',
-      title: 'Hourly Rate',
-      sortable: true,
-      render: (value: number) => (
-        <span className="text-sm text-gray-900">${value.toFixed(2)}</span>
-      ),
-    },
-    {
-      key: 'status',
-      title: 'Status',
-      sortable: true,
-      render: (value: string) => getStatusBadge(value),
-    },
-    {
-      key: 'contact',
-      title: 'Contact',
-      render: (value: string) => (
-        <span className="text-sm text-gray-900">{value}</span>
-      ),
-    },
-    {
-      key: 'actions',
-      title: 'Actions',
-      render: (_value: any, _employee: Employee) => (
-        <div className="flex items-center space-x-2">
-          <Button size="sm" variant="outline">
-            <EyeIcon className="h-4 w-4" />
-          </Button>
-          <Button size="sm" variant="outline">
-            <PencilIcon className="h-4 w-4" />
-          </Button>
-        </div>
-      ),
-    },
-  ];
+  const handleDeleteTemplate = (template: ShiftTemplate) => {
+    if (!storeId) return;
+    deleteDialog.openDeleteDialog(
+      template.name,
+      async () => {
+        try {
+          await scheduleService.deleteTemplate(storeId, template.template_id);
+          setTemplates(prev => prev.filter(item => item.template_id !== template.template_id));
+          if (quickTemplateId === template.template_id) setQuickTemplateId('');
+          showSuccess(`Template "${template.name}" deleted`);
+        } catch (err) {
+          console.error('Failed to delete template:', err);
+          showError('Failed to delete template');
+        }
+      }
+    );
+  };
 
   // Shift columns for data table
   const shiftColumns = [
@@ -426,10 +289,10 @@ const EmployeeShiftManagement: React.FC = () => {
       key: 'employee_name',
       title: 'Employee',
       sortable: true,
-      render: (value: string, shift: Shift) => (
+      render: (_value: string, shift: Shift) => (
         <div>
-          <div className="text-sm font-medium text-gray-900">{value}</div>
-          <div className="text-sm text-gray-500">{getRoleBadge(shift.role)}</div>
+          <div className="text-sm font-medium text-gray-900">{getEmployeeName(shift)}</div>
+          {shift.role && <div className="text-sm text-gray-500">{shift.role}</div>}
         </div>
       ),
     },
@@ -439,7 +302,7 @@ const EmployeeShiftManagement: React.FC = () => {
       sortable: true,
       render: (value: string) => (
         <span className="text-sm text-gray-900">
-          {new Date(value).toLocaleDateString()}
+          {parseDateKey(value).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
         </span>
       ),
     },
@@ -455,38 +318,35 @@ const EmployeeShiftManagement: React.FC = () => {
         </div>
       ),
     },
+    {
+      key: 'break_minutes',
+      title: 'Hours',
+      render: (_value: number, shift: Shift) => (
+        <div>
+          <div className="text-sm font-medium text-gray-900">{formatHours(getShiftHours(shift))}</div>
+          <div className="text-xs text-gray-500">{shift.break_minutes} min break</div>
+        </div>
+      ),
+    },
     {
       key: 'status',
       title: 'Status',
       sortable: true,
-      render: (value: string) => getStatusBadge(value),
-    },
-    {
-      key: 'hourly_rate',
-      title: 'Rate',
-      render: (value: number, shift: Shift) => {
-        const hours = calculateShiftHours(shift.start_time, shift.end_time);
-        const total = hours * value;
-        return (
-          <div>
-            <div className="text-sm font-medium text-gray-900">${value}/hr</div>
-            <div className="text-xs text-gray-500">${total.toFixed(2)} total</div>
-          </div>
-        );
-      },
+      render: (value: Shift['status']) => getStatusBadge(value),
     },
     {
       key: 'actions',
       title: 'Actions',
-      render: (_value: any, _shift: Shift) => (
+      render: (_value: unknown, shift: Shift) => (
         <div className="flex items-center space-x-2">
-          <Button size="sm" variant="outline">
+          <Button size="sm" variant="outline" onClick={() => setShiftModal({ isOpen: true, shift })}>
             <PencilIcon className="h-4 w-4" />
           </Button>
-          <Button 
-            size="sm" 
+          <Button
+            size="sm"
             variant="outline"
             className="text-red-600 hover:text-red-700"
+            onClick={() => confirmDeleteShift(shift)}
           >
             <TrashIcon className="h-4 w-4" />
           </Button>
@@ -495,17 +355,26 @@ const EmployeeShiftManagement: React.FC = () => {
     },
   ];
 
-  if (loading) {
+  if (!storeId) {
     return (
-      <div className="flex items-center justify-center min-h-screen">
-        <div className="text-center">
-          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600 mx-auto"></div>
-          <p className="mt-4 text-gray-600">Loading shift management...</p>
+      <div className="p-6">
+        <PageHeader
+          title="Employee Shift Management"
+          description="Schedule and manage employee shifts, track hours, and organize work schedules"
+        />
+        <div className="bg-white rounded-lg border border-gray-200 p-10 text-center text-gray-500">
+          Select a store to manage its schedule
         </div>
       </div>
     );
   }
 
+  const tabClass = (tab: ScheduleTab) => `${
+    activeTab === tab
+      ? 'border-blue-500 text-blue-600'
+      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+  } whitespace-nowrap py-2 px-1 border-b-2 font-medium text-sm flex items-center space-x-2`;
+
   return (
     <div className="p-6">
       {/* Header */}
@@ -515,15 +384,24 @@ const EmployeeShiftManagement: React.FC = () => {
       >
         <div className="flex items-center space-x-3">
           <Button
-            onClick={() => setShowShiftModal(true)}
+            onClick={() => navigate('/employee-timesheets')}
             variant="outline"
             className="flex items-center space-x-2"
           >
-            <PlusIcon className="w-5 h-5" />
-            <span>Add Employee</span>
+            <ClockIcon className="w-5 h-5" />
+            <span>Timesheets</span>
           </Button>
           <Button
-            onClick={() => setShowShiftModal(true)}
+            onClick={handleCopyLastWeek}
+            variant="outline"
+            isLoading={copying}
+            className="flex items-center space-x-2"
+          >
+            <DocumentDuplicateIcon className="w-5 h-5" />
+            <span>Copy Last Week</span>
+          </Button>
+          <Button
+            onClick={() => setShiftModal({ isOpen: true, shift: null, date: view === 'day' ? selectedDate : undefined })}
             className="flex items-center space-x-2 bg-blue-600 hover:bg-blue-700 text-white"
           >
             <PlusIcon className="w-5 h-5" />
@@ -538,8 +416,11 @@ const EmployeeShiftManagement: React.FC = () => {
           <div className="flex items-center">
             <UserGroupIcon className="h-8 w-8 text-blue-600" />
             <div className="ml-4">
-              <p className="text-sm font-medium text-gray-600">Active Employees</p>
-              <p className="text-2xl font-bold text-gray-900">{employees.filter(e => e.status === 'active').length}</p>
+              <p className="text-sm font-medium text-gray-600">Scheduled Staff</p>
+              <p className="text-2xl font-bold text-gray-900">
+                {scheduledStaff}
+                <span className="text-sm font-normal text-gray-500"> / {employees.length}</span>
+              </p>
             </div>
           </div>
         </div>
@@ -547,33 +428,27 @@ const EmployeeShiftManagement: React.FC = () => {
           <div className="flex items-center">
             <CalendarDaysIcon className="h-8 w-8 text-green-600" />
             <div className="ml-4">
-              <p className="text-sm font-medium text-gray-600">Today's Shifts</p>
-              <p className="text-2xl font-bold text-gray-900">
-                {getShiftsForDate(new Date()).length}
-              </p>
+              <p className="text-sm font-medium text-gray-600">Shifts This Week</p>
+              <p className="text-2xl font-bold text-gray-900">{activeWeekShifts.length}</p>
             </div>
           </div>
         </div>
         <div className="bg-white rounded-lg border border-gray-200 p-6">
           <div className="flex items-center">
-            <ClockIcon className="h-8 w-8 text-yellow-600" />
+            <ClockIcon className="h-8 w-8 text-purple-600" />
             <div className="ml-4">
-              <p className="text-sm font-medium text-gray-600">Active Now</p>
-              <p className="text-2xl font-bold text-gray-900">
-                {shifts.filter(s => s.status === 'in_progress').length}
-              </p>
+              <p className="text-sm font-medium text-gray-600">Projected Hours</p>
+              <p className="text-2xl font-bold text-gray-900">{formatHours(weekHours)}</p>
             </div>
           </div>
         </div>
         <div className="bg-white rounded-lg border border-gray-200 p-6">
           <div className="flex items-center">
-            <CheckCircleIcon className="h-8 w-8 text-purple-600" />
+            <ExclamationTriangleIcon className={`h-8 w-8 ${conflicts.length > 0 ? 'text-red-600' : 'text-gray-400'}`} />
             <div className="ml-4">
-              <p className="text-sm font-medium text-gray-600">Week Total Hours</p>
-              <p className="text-2xl font-bold text-gray-900">
-                {shifts.reduce((total, shift) => {
-                  return total + calculateShiftHours(shift.start_time, shift.end_time);
-                }, 0).toFixed(0)}
+              <p className="text-sm font-medium text-gray-600">Conflicts</p>
+              <p className={`text-2xl font-bold ${conflicts.length > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                {conflicts.length}
               </p>
             </div>
           </div>
@@ -583,96 +458,201 @@ const EmployeeShiftManagement: React.FC = () => {
       {/* Tabs */}
       <div className="mb-6">
         <nav className="flex space-x-8" aria-label="Tabs">
-          <button
-            onClick={() => setActiveTab('calendar')}
-            className={`${
-              activeTab === 'calendar'
-                ? 'border-blue-500 text-blue-600'
-                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
-            } whitespace-nowrap py-2 px-1 border-b-2 font-medium text-sm flex items-center space-x-2`}
-          >
+          <button onClick={() => setActiveTab('planner')} className={tabClass('planner')}>
             <CalendarDaysIcon className="h-4 w-4" />
-            <span>Schedule Calendar</span>
+            <span>Schedule Planner</span>
           </button>
-          <button
-            onClick={() => setActiveTab('shifts')}
-            className={`${
-              activeTab === 'shifts'
-                ? 'border-blue-500 text-blue-600'
-                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
-            } whitespace-nowrap py-2 px-1 border-b-2 font-medium text-sm flex items-center space-x-2`}
-          >
+          <button onClick={() => setActiveTab('templates')} className={tabClass('templates')}>
+            <RectangleStackIcon className="h-4 w-4" />
+            <span>Shift Templates</span>
+          </button>
+          <button onClick={() => setActiveTab('shifts')} className={tabClass('shifts')}>
             <ClockIcon className="h-4 w-4" />
             <span>All Shifts</span>
           </button>
-          <button
-            onClick={() => setActiveTab('employees')}
-            className={`${
-              activeTab === 'employees'
-                ? 'border-blue-500 text-blue-600'
-                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
-            } whitespace-nowrap py-2 px-1 border-b-2 font-medium text-sm flex items-center space-x-2`}
-          >
-            <UserGroupIcon className="h-4 w-4" />
-            <span>Employees</span>
-          </button>
         </nav>
       </div>
 
+      {error && (
+        <div className="mb-4 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      )}
+
       {/* Tab Content */}
-      {activeTab === 'calendar' && (
-        <WeeklyScheduleView 
-          shifts={shifts} 
-          selectedDate={selectedDate}
-          onDateSelect={setSelectedDate}
-          onShiftClick={(shift) => console.log('Shift clicked:', shift)}
-          onTimeSlotClick={(date, time) => console.log('Time slot clicked:', date, time)}
+      {activeTab === 'planner' && (
+        <div className="space-y-4">
+          {/* Toolbar */}
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex items-center space-x-2">
+              <button onClick={() => navigateWeek(-1)} className="p-2 hover:bg-gray-100 rounded-md" title="Previous week">
+                <ChevronLeftIcon className="h-5 w-5" />
+              </button>
+              <h2 className="text-lg font-semibold text-gray-900 min-w-[220px] text-center">{weekLabel}</h2>
+              <button onClick={() => navigateWeek(1)} className="p-2 hover:bg-gray-100 rounded-md" title="Next week">
+                <ChevronRightIcon className="h-5 w-5" />
+              </button>
+              <Button size="sm" variant="outline" onClick={goToToday}>Today</Button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3">
+              <select
+                value={quickTemplateId}
+                onChange={(e) => setQuickTemplateId(e.target.value)}
+                className="rounded-md border border-gray-300 px-3 py-1.5 text-sm"
+                title="Clicking an empty cell adds this template directly"
+              >
+                <option value="">Click cell: open form</option>
+                {templates.map(template => (
+                  <option key={template.template_id} value={template.template_id}>
+                    Click cell: {template.name} ({template.start_time}-{template.end_time})
+                  </option>
+                ))}
+              </select>
+
+              {view === 'day' && (
+                <select
+                  value={selectedDate}
+                  onChange={(e) => setSelectedDate(e.target.value)}
+                  className="rounded-md border border-gray-300 px-3 py-1.5 text-sm"
+                >
+                  {weekDates.map(date => (
+                    <option key={date} value={date}>
+                      {parseDateKey(date).toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' })}
+                    </option>
+                  ))}
+                </select>
+              )}
+
+              <div className="inline-flex rounded-md border border-gray-300 overflow-hidden">
+                {(['week', 'day'] as PlannerView[]).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setView(option)}
+                    className={`px-3 py-1.5 text-sm font-medium ${
+                      view === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {option === 'week' ? 'Week' : 'Day'}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {isLoading || loadingEmployees ? (
+            <div className="flex items-center justify-center py-16">
+              <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+            </div>
+          ) : view === 'week' ? (
+            <WeeklyShiftPlanner
+              weekDates={weekDates}
+              users={employees}
+              shifts={weekShifts}
+              templates={templates}
+              conflicts={conflicts}
+              labor={labor}
+              storeTimings={storeTimings}
+              onCellClick={handleCellClick}
+              onShiftClick={(shift) => setShiftModal({ isOpen: true, shift })}
+            />
+          ) : (
+            <DayShiftTimeline
+              date={selectedDate}
+              users={employees}
+              shifts={shifts}
+              templates={templates}
+              conflicts={conflicts}
+              storeTimings={storeTimings}
+              onCellClick={handleCellClick}
+              onShiftClick={(shift) => setShiftModal({ isOpen: true, shift })}
+            />
+          )}
+
+          {/* Conflicts */}
+          {conflicts.length > 0 && (
+            <div className="bg-white rounded-lg border border-red-200">
+              <div className="flex items-center px-4 py-3 border-b border-red-100 text-sm font-medium text-red-700">
+                <ExclamationTriangleIcon className="h-5 w-5 mr-2" />
+                {conflicts.length} scheduling conflict{conflicts.length === 1 ? '' : 's'} this week
+              </div>
+              <ul className="divide-y divide-gray-100">
+                {conflicts.map((conflict, index) => {
+                  const shift = shifts.find(item => item.shift_id === conflict.shift_id);
+                  return (
+                    <li key={`${conflict.shift_id}-${conflict.type}-${index}`} className="flex items-center justify-between px-4 py-2 text-sm">
+                      <div>
+                        <span className="font-medium text-gray-900">
+                          {shift ? getEmployeeName(shift) : conflict.user_id}
+                        </span>
+                        <span className="text-gray-500">
+                          {' '}· {parseDateKey(conflict.date).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+                          {shift && ` ${shift.start_time}-${shift.end_time}`}
+                        </span>
+                        <div className="text-red-600">{conflict.message}</div>
+                      </div>
+                      {shift && (
+                        <Button size="sm" variant="outline" onClick={() => setShiftModal({ isOpen: true, shift })}>
+                          Resolve
+                        </Button>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+
+      {activeTab === 'templates' && (
+        <ShiftTemplatesManager
+          templates={templates}
+          onCreate={handleCreateTemplate}
+          onUpdate={handleUpdateTemplate}
+          onDelete={handleDeleteTemplate}
         />
       )}
 
       {activeTab === 'shifts' && (
         <DataTable
-          data={shifts}
+          data={weekShifts}
           columns={shiftColumns}
+          loading={isLoading}
           searchable={true}
           searchPlaceholder="Search shifts..."
           searchFields={['employee_name', 'role', 'date']}
           pagination={true}
           pageSize={15}
-          defaultSort={{ key: 'date', direction: 'desc' }}
+          defaultSort={{ key: 'date', direction: 'asc' }}
         />
       )}
 
-      {activeTab === 'employees' && (
-        <DataTable
-          data={employees}
-          columns={employeeColumns}
-          searchable={true}
-          searchPlaceholder="Search employees..."
-          searchFields={['name', 'role', 'employee_id']}
-          pagination={true}
-          pageSize={10}
-          defaultSort={{ key: 'name', direction: 'asc' }}
-        />
-      )}
-
-      {/* Shift Modal Placeholder */}
-      <Modal isOpen={showShiftModal} onClose={() => setShowShiftModal(false)}>
-        <div className="p-6">
-          <h3 className="text-lg font-medium text-gray-900 mb-4">Schedule New Shift</h3>
-          <p className="text-gray-600">Shift scheduling form will be implemented here.</p>
-          <div className="flex justify-end space-x-3 mt-6">
-            <Button variant="outline" onClick={() => setShowShiftModal(false)}>
-              Cancel
-            </Button>
-            <Button onClick={() => setShowShiftModal(false)}>
-              Save Shift
-            </Button>
-          </div>
-        </div>
-      </Modal>
+      <ShiftFormModal
+        isOpen={shiftModal.isOpen}
+        onClose={() => setShiftModal({ isOpen: false, shift: null })}
+        shift={shiftModal.shift}
+        defaultUserId={shiftModal.userId}
+        defaultDate={shiftModal.date}
+        users={employees}
+        templates={templates}
+        shifts={shifts}
+        storeTimings={storeTimings}
+        onSave={handleSaveShift}
+        onDelete={handleDeleteShift}
+      />
+
+      <ConfirmDialog
+        isOpen={deleteDialog.dialogState.isOpen}
+        onClose={deleteDialog.closeDialog}
+        onConfirm={deleteDialog.handleConfirm}
+        title={deleteDialog.dialogState.title}
+        message={deleteDialog.dialogState.message}
+        confirmText={deleteDialog.dialogState.confirmText}
+        cancelText={deleteDialog.dialogState.cancelText}
+        variant={deleteDialog.dialogState.variant}
+        isLoading={deleteDialog.dialogState.isLoading}
+      />
     </div>
   );
 };
 
-export default EmployeeShiftManagement;
\ No newline at end of file
+export default EmployeeShiftManagement;
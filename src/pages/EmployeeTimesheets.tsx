@@ -0,0 +1,444 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  ArrowDownTrayIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  ClockIcon,
+  Cog6ToothIcon,
+  ExclamationTriangleIcon,
+  LockClosedIcon,
+  CheckCircleIcon,
+  UserGroupIcon
+} from '@heroicons/react/24/outline';
+import { PageHeader, Button, ConfirmDialog } from '../components/ui';
+import {
+  TimesheetTable,
+  TimeEntryEditModal,
+  OvertimeRulesModal,
+  formatMinutes,
+  PAY_PERIOD_STATUS_STYLES,
+  PAY_PERIOD_STATUS_LABELS
+} from '../components/timesheet';
+import {
+  timesheetService,
+  DEFAULT_OVERTIME_RULES,
+  TIMESHEET_REASON_CATEGORY,
+  buildPayrollCsv,
+  getPayPeriodRange,
+  isPayPeriodEditable
+} from '../services/timesheet';
+import type {
+  CreateTimesheetAdjustmentRequest,
+  PayPeriod,
+  TimeEntry,
+  UpdateOvertimeRulesRequest
+} from '../services/timesheet';
+import { addDays, getUserDisplayName, parseDateKey, toDateKey } from '../services/schedule';
+import { userService } from '../services/user';
+import type { StoreUser } from '../services/types/user.types';
+import useTimesheets from '../hooks/useTimesheets';
+import { useReasonCodes } from '../hooks/useReasonCodes';
+import { useConfirmDialog } from '../hooks/useConfirmDialog';
+import { useError } from '../hooks/useError';
+import { useTenantStore } from '../tenants/tenantStore';
+import { downloadFile } from '../utils/csvUtils';
+
+interface EntryModalState {
+  isOpen: boolean;
+  userId: string;
+  entry: TimeEntry | null;
+  date?: string;
+}
+
+const USERS_PAGE_LIMIT = 200;
+
+const formatDay = (dateKey: string) =>
+  parseDateKey(dateKey).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const EmployeeTimesheets: React.FC = () => {
+  const { currentTenant, currentStore } = useTenantStore();
+  const { showError, showSuccess } = useError();
+  const confirmDialog = useConfirmDialog();
+  const storeId = currentStore?.store_id;
+
+  const [employees, setEmployees] = useState<StoreUser[]>([]);
+  const [anchorDate, setAnchorDate] = useState(() => toDateKey(new Date()));
+  const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
+  const [entryModal, setEntryModal] = useState<EntryModalState>({ isOpen: false, userId: '', entry: null });
+  const [showRules, setShowRules] = useState(false);
+
+  useEffect(() => {
+    if (!storeId) return;
+    userService.getUsers({ store_id: storeId, status: 'active', limit: USERS_PAGE_LIMIT })
+      .then(response => setEmployees(response.users || []))
+      .catch(err => {
+        console.error('Failed to load employees:', err);
+        setEmployees([]);
+      });
+  }, [storeId]);
+
+  const { reasonCodes, getReasonCodesByCategory } = useReasonCodes({ tenantId: currentTenant?.id, storeId });
+  const timesheetReasons = useMemo(() => {
+    const categorized = getReasonCodesByCategory([TIMESHEET_REASON_CATEGORY]);
+    return categorized.length > 0 ? categorized : reasonCodes.filter(code => code.active);
+  }, [reasonCodes, getReasonCodesByCategory]);
+
+  const userIds = useMemo(() => employees.map(user => user.user_id), [employees]);
+
+  // Period bounds depend on the rules, so fall back to the defaults until they load
+  const [periodRules, setPeriodRules] = useState(DEFAULT_OVERTIME_RULES);
+  const { start_date: startDate, end_date: endDate } = getPayPeriodRange(anchorDate, periodRules);
+
+  const {
+    rules,
+    payPeriod,
+    adjustments,
+    timesheets,
+    isLoading,
+    error,
+    setRules,
+    setPayPeriods,
+    setAdjustments
+  } = useTimesheets({ storeId, userIds, startDate, endDate });
+
+  useEffect(() => {
+    if (rules) setPeriodRules(rules);
+  }, [rules]);
+
+  const editable = isPayPeriodEditable(payPeriod);
+  const usersById = useMemo(() => new Map(employees.map(user => [user.user_id, user])), [employees]);
+  const selectedTimesheet = timesheets.find(timesheet => timesheet.user_id === selectedUserId);
+  const selectedUser = selectedUserId ? usersById.get(selectedUserId) : undefined;
+  const warningCount = timesheets.reduce((total, timesheet) => total + timesheet.warnings.length, 0);
+  const totals = timesheets.reduce((sum, timesheet) => ({
+    paid: sum.paid + timesheet.totals.paid_minutes,
+    overtime: sum.overtime + timesheet.totals.overtime_minutes + timesheet.totals.double_time_minutes
+  }), { paid: 0, overtime: 0 });
+
+  const updatePeriod = (updated: PayPeriod) => {
+    setPayPeriods(prev => [...prev.filter(period => period.period_id !== updated.period_id), updated]);
+  };
+
+  const handleOpenPeriod = async () => {
+    if (!storeId) return;
+    try {
+      updatePeriod(await timesheetService.createPayPeriod(storeId, { start_date: startDate, end_date: endDate }));
+      showSuccess('Pay period opened');
+    } catch (err) {
+      console.error('Failed to open pay period:', err);
+      showError('Failed to open pay period');
+    }
+  };
+
+  const handleApprove = () => {
+    if (!storeId || !payPeriod) return;
+    confirmDialog.openDialog(async () => {
+      try {
+        updatePeriod(await timesheetService.approvePayPeriod(storeId, payPeriod.period_id));
+        showSuccess('Timesheets approved');
+      } catch (err) {
+        console.error('Failed to approve pay period:', err);
+        showError('Failed to approve pay period');
+      }
+    }, {
+      title: 'Approve timesheets',
+      message: warningCount > 0
+        ? `${warningCount} timesheet issue(s) are unresolved. Approve ${formatDay(startDate)} – ${formatDay(endDate)} anyway? Edits are blocked once approved.`
+        : `Approve all timesheets for ${formatDay(startDate)} – ${formatDay(endDate)}? Edits are blocked once approved.`,
+      confirmText: 'Approve',
+      variant: warningCount > 0 ? 'warning' : 'info'
+    });
+  };
+
+  const handleLock = () => {
+    if (!storeId || !payPeriod) return;
+    confirmDialog.openDialog(async () => {
+      try {
+        updatePeriod(await timesheetService.lockPayPeriod(storeId, payPeriod.period_id));
+        showSuccess('Pay period locked');
+      } catch (err) {
+        console.error('Failed to lock pay period:', err);
+        showError('Failed to lock pay period');
+      }
+    }, {
+      title: 'Lock pay period',
+      message: 'Locked pay periods cannot be reopened. Lock once payroll has been processed.',
+      confirmText: 'Lock',
+      variant: 'danger'
+    });
+  };
+
+  const handleReopen = async () => {
+    if (!storeId || !payPeriod) return;
+    try {
+      updatePeriod(await timesheetService.reopenPayPeriod(storeId, payPeriod.period_id));
+      showSuccess('Pay period reopened');
+    } catch (err) {
+      console.error('Failed to reopen pay period:', err);
+      showError('Failed to reopen pay period');
+    }
+  };
+
+  const handleSaveAdjustment = async (data: CreateTimesheetAdjustmentRequest) => {
+    if (!storeId) return;
+    try {
+      const created = await timesheetService.createAdjustment(storeId, data);
+      setAdjustments(prev => [...prev, created]);
+      showSuccess('Timesheet updated');
+    } catch (err) {
+      showError('Failed to update timesheet');
+      throw err;
+    }
+  };
+
+  const handleSaveRules = async (data: UpdateOvertimeRulesRequest) => {
+    if (!storeId) return;
+    try {
+      setRules(await timesheetService.updateOvertimeRules(storeId, data));
+      showSuccess('Overtime rules saved');
+    } catch (err) {
+      showError('Failed to save overtime rules');
+      throw err;
+    }
+  };
+
+  const handleExport = () => {
+    if (!rules || !storeId) return;
+    const csv = buildPayrollCsv(timesheets, employees, rules, adjustments);
+    downloadFile(csv, `payroll-${storeId}-${startDate}-${endDate}.csv`);
+  };
+
+  if (!storeId) {
+    return (
+      <div className="p-6">
+        <PageHeader title="Timesheets" description="Review clocked hours, approve pay periods and export payroll" />
+        <div className="bg-white rounded-lg border border-gray-200 p-10 text-center text-gray-500">
+          Select a store to review timesheets
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <PageHeader title="Timesheets" description="Review clocked hours, approve pay periods and export payroll">
+        <div className="flex items-center space-x-3">
+          <Button variant="outline" onClick={() => setShowRules(true)} disabled={!rules} className="flex items-center space-x-2">
+            <Cog6ToothIcon className="w-5 h-5" />
+            <span>Overtime Rules</span>
+          </Button>
+          <Button onClick={handleExport} disabled={!rules || timesheets.length === 0} className="flex items-center space-x-2">
+            <ArrowDownTrayIcon className="w-5 h-5" />
+            <span>Export Payroll</span>
+          </Button>
+        </div>
+      </PageHeader>
+
+      {/* Pay period */}
+      <div className="bg-white rounded-lg border border-gray-200 p-4 mb-6 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center space-x-2">
+          <button onClick={() => setAnchorDate(addDays(startDate, -1))} className="p-2 hover:bg-gray-100 rounded-md" title="Previous period">
+            <ChevronLeftIcon className="h-5 w-5" />
+          </button>
+          <h2 className="text-lg font-semibold text-gray-900 min-w-[240px] text-center">
+            {formatDay(startDate)} – {formatDay(endDate)}
+          </h2>
+          <button onClick={() => setAnchorDate(addDays(endDate, 1))} className="p-2 hover:bg-gray-100 rounded-md" title="Next period">
+            <ChevronRightIcon className="h-5 w-5" />
+          </button>
+          <Button size="sm" variant="outline" onClick={() => setAnchorDate(toDateKey(new Date()))}>Current</Button>
+          <span className={`ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+            payPeriod ? PAY_PERIOD_STATUS_STYLES[payPeriod.status] : 'bg-gray-100 text-gray-600'
+          }`}>
+            {payPeriod ? PAY_PERIOD_STATUS_LABELS[payPeriod.status] : 'Not opened'}
+          </span>
+        </div>
+        <div className="flex items-center space-x-2">
+          {!payPeriod && (
+            <Button size="sm" variant="outline" onClick={handleOpenPeriod}>Open Pay Period</Button>
+          )}
+          {payPeriod?.status === 'open' && (
+            <Button size="sm" onClick={handleApprove} className="flex items-center space-x-1">
+              <CheckCircleIcon className="h-4 w-4" />
+              <span>Approve</span>
+            </Button>
+          )}
+          {payPeriod?.status === 'approved' && (
+            <>
+              <Button size="sm" variant="outline" onClick={handleReopen}>Reopen</Button>
+              <Button size="sm" variant="destructiveReverse" onClick={handleLock} className="flex items-center space-x-1">
+                <LockClosedIcon className="h-4 w-4" />
+                <span>Lock</span>
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Quick Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-6">
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <div className="flex items-center">
+            <UserGroupIcon className="h-8 w-8 text-blue-600" />
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600">Employees</p>
+              <p className="text-2xl font-bold text-gray-900">
+                {timesheets.filter(timesheet => timesheet.totals.paid_minutes > 0).length}
+                <span className="text-sm font-normal text-gray-500"> / {employees.length} worked</span>
+              </p>
+            </div>
+          </div>
+        </div>
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <div className="flex items-center">
+            <ClockIcon className="h-8 w-8 text-green-600" />
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600">Paid Hours</p>
+              <p className="text-2xl font-bold text-gray-900">{formatMinutes(totals.paid)}</p>
+            </div>
+          </div>
+        </div>
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <div className="flex items-center">
+            <ClockIcon className="h-8 w-8 text-orange-500" />
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600">Overtime</p>
+              <p className="text-2xl font-bold text-gray-900">{formatMinutes(totals.overtime)}</p>
+            </div>
+          </div>
+        </div>
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <div className="flex items-center">
+            <ExclamationTriangleIcon className={`h-8 w-8 ${warningCount > 0 ? 'text-yellow-500' : 'text-gray-400'}`} />
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600">Issues</p>
+              <p className="text-2xl font-bold text-gray-900">{warningCount}</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      )}
+
+      {isLoading || !rules ? (
+        <div className="flex items-center justify-center py-16">
+          <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 xl:grid-cols-5 gap-6">
+          {/* Summary */}
+          <div className="xl:col-span-2 bg-white rounded-lg border border-gray-200 overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr className="text-left text-xs font-medium uppercase text-gray-500">
+                  <th className="px-3 py-2">Employee</th>
+                  <th className="px-3 py-2 text-right">Regular</th>
+                  <th className="px-3 py-2 text-right">OT</th>
+                  <th className="px-3 py-2 text-right">DT</th>
+                  <th className="px-3 py-2 text-right">Paid</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {timesheets.map(timesheet => {
+                  const user = usersById.get(timesheet.user_id);
+                  const isSelected = timesheet.user_id === selectedUserId;
+                  return (
+                    <tr
+                      key={timesheet.user_id}
+                      onClick={() => setSelectedUserId(timesheet.user_id)}
+                      className={`cursor-pointer ${isSelected ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                    >
+                      <td className="px-3 py-2">
+                        <div className="flex items-center font-medium text-gray-900">
+                          {user ? getUserDisplayName(user) : timesheet.user_id}
+                          {timesheet.warnings.length > 0 && (
+                            <ExclamationTriangleIcon className="ml-1 h-4 w-4 text-yellow-500" title={`${timesheet.warnings.length} issue(s)`} />
+                          )}
+                        </div>
+                        <div className="text-xs text-gray-500">{user?.employee_id || user?.role_name}</div>
+                      </td>
+                      <td className="px-3 py-2 text-right">{formatMinutes(timesheet.totals.regular_minutes)}</td>
+                      <td className="px-3 py-2 text-right text-orange-600">{formatMinutes(timesheet.totals.overtime_minutes)}</td>
+                      <td className="px-3 py-2 text-right text-red-600">{formatMinutes(timesheet.totals.double_time_minutes)}</td>
+                      <td className="px-3 py-2 text-right font-semibold">{formatMinutes(timesheet.totals.paid_minutes)}</td>
+                    </tr>
+                  );
+                })}
+                {timesheets.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-3 py-10 text-center text-gray-500">No employees</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Detail */}
+          <div className="xl:col-span-3">
+            {selectedTimesheet ? (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-lg font-medium text-gray-900">
+                    {selectedUser ? getUserDisplayName(selectedUser) : selectedTimesheet.user_id}
+                  </h3>
+                  {!editable && (
+                    <span className="inline-flex items-center text-sm text-gray-500">
+                      <LockClosedIcon className="h-4 w-4 mr-1" />
+                      Pay period is {payPeriod ? PAY_PERIOD_STATUS_LABELS[payPeriod.status].toLowerCase() : 'closed'}
+                    </span>
+                  )}
+                </div>
+                <TimesheetTable
+                  timesheet={selectedTimesheet}
+                  rules={rules}
+                  editable={editable}
+                  onEditEntry={(entry) => setEntryModal({ isOpen: true, userId: selectedTimesheet.user_id, entry })}
+                  onAddEntry={(date) => setEntryModal({ isOpen: true, userId: selectedTimesheet.user_id, entry: null, date })}
+                />
+              </div>
+            ) : (
+              <div className="bg-white rounded-lg border border-dashed border-gray-300 p-10 text-center text-sm text-gray-500">
+                Select an employee to review their timesheet
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      <TimeEntryEditModal
+        isOpen={entryModal.isOpen}
+        onClose={() => setEntryModal({ isOpen: false, userId: '', entry: null })}
+        entry={entryModal.entry}
+        userId={entryModal.userId}
+        date={entryModal.date}
+        reasonCodes={timesheetReasons}
+        onSubmit={handleSaveAdjustment}
+      />
+
+      {rules && (
+        <OvertimeRulesModal
+          isOpen={showRules}
+          onClose={() => setShowRules(false)}
+          rules={rules}
+          onSave={handleSaveRules}
+        />
+      )}
+
+      <ConfirmDialog
+        isOpen={confirmDialog.dialogState.isOpen}
+        onClose={confirmDialog.closeDialog}
+        onConfirm={confirmDialog.handleConfirm}
+        title={confirmDialog.dialogState.title}
+        message={confirmDialog.dialogState.message}
+        confirmText={confirmDialog.dialogState.confirmText}
+        cancelText={confirmDialog.dialogState.cancelText}
+        variant={confirmDialog.dialogState.variant}
+        isLoading={confirmDialog.dialogState.isLoading}
+      />
+    </div>
+  );
+};
+
+export default EmployeeTimesheets;
@@ -0,0 +1,435 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  AdjustmentsHorizontalIcon,
+  ArchiveBoxIcon,
+  ArrowPathIcon,
+  BellAlertIcon,
+  ClockIcon,
+  Cog6ToothIcon,
+  CubeIcon,
+  ExclamationTriangleIcon,
+  BanknotesIcon
+} from '@heroicons/react/24/outline';
+import { PageHeader, Button, DataTable, Badge } from '../components/ui';
+import type { Column } from '../components/ui';
+import {
+  StockAdjustmentModal,
+  InventoryAlertSettingsModal,
+  InventoryLedgerTable,
+  InventoryAlertsPanel,
+  STOCK_STATUS_LABELS,
+  STOCK_STATUS_COLORS,
+  ADJUSTMENT_TYPE_LABELS
+} from '../components/inventory';
+import { inventoryService, INVENTORY_REASON_CATEGORY } from '../services/inventory';
+import type {
+  CreateInventoryAdjustmentRequest,
+  InventoryAdjustment,
+  InventoryAdjustmentType,
+  InventoryItem,
+  StockStatus,
+  UpdateInventoryAlertSettingsRequest
+} from '../services/inventory';
+import useInventory from '../hooks/useInventory';
+import { useReasonCodes } from '../hooks/useReasonCodes';
+import { useError } from '../hooks/useError';
+import { useTenantStore } from '../tenants/tenantStore';
+import { usePermissions } from '../utils/permissions';
+import { useCurrencyFormatter } from '../utils/currencyUtils';
+
+type InventoryTab = 'stock' | 'alerts' | 'history';
+
+interface AdjustModalState {
+  isOpen: boolean;
+  item: InventoryItem | null;
+}
+
+const LEDGER_PAGE_SIZE = 50;
+
+const Inventory: React.FC = () => {
+  const { currentTenant, currentStore } = useTenantStore();
+  const { showError, showSuccess } = useError();
+  const { hasPermission, hasAnyPermission } = usePermissions();
+  const formatCurrency = useCurrencyFormatter();
+  const storeId = currentStore?.store_id;
+  const canAdjust = hasPermission('inventory_adjust');
+  const canConfigure = hasAnyPermission(['inventory_update', 'settings_store']);
+
+  const [activeTab, setActiveTab] = useState<InventoryTab>('stock');
+  const [statusFilter, setStatusFilter] = useState<StockStatus | 'all'>('all');
+  const [adjustModal, setAdjustModal] = useState<AdjustModalState>({ isOpen: false, item: null });
+  const [showSettings, setShowSettings] = useState(false);
+  const [syncing, setSyncing] = useState(false);
+
+  // Ledger
+  const [ledger, setLedger] = useState<InventoryAdjustment[]>([]);
+  const [ledgerCursor, setLedgerCursor] = useState<string | null>(null);
+  const [ledgerLoading, setLedgerLoading] = useState(false);
+  const [ledgerItem, setLedgerItem] = useState('');
+  const [ledgerType, setLedgerType] = useState<InventoryAdjustmentType | ''>('');
+
+  const {
+    items,
+    alerts,
+    settings,
+    isLoading,
+    error,
+    adjustStock,
+    staleStatusCount,
+    syncStatuses,
+    setSettings
+  } = useInventory({ tenantId: currentTenant?.id, storeId });
+
+  const { reasonCodes, getReasonCodesByCategory } = useReasonCodes({ tenantId: currentTenant?.id, storeId });
+  const inventoryReasons = useMemo(() => {
+    const categorized = getReasonCodesByCategory([INVENTORY_REASON_CATEGORY]);
+    return categorized.length > 0 ? categorized : reasonCodes.filter(code => code.active);
+  }, [reasonCodes, getReasonCodesByCategory]);
+
+  const itemNames = useMemo(() => new Map(items.map(item => [item.item_id, item.name])), [items]);
+
+  const loadLedger = useCallback(async (cursor?: string) => {
+    if (!storeId) return;
+    setLedgerLoading(true);
+    try {
+      const page = await inventoryService.getAdjustments(storeId, {
+        item_id: ledgerItem || undefined,
+        type: ledgerType || undefined,
+        cursor,
+        limit: LEDGER_PAGE_SIZE
+      });
+      setLedger(prev => (cursor ? [...prev, ...page.adjustments] : page.adjustments));
+      setLedgerCursor(page.next);
+    } catch (err) {
+      console.error('Failed to load stock history:', err);
+      showError('Failed to load stock history');
+    } finally {
+      setLedgerLoading(false);
+    }
+  }, [storeId, ledgerItem, ledgerType, showError]);
+
+  useEffect(() => {
+    if (activeTab === 'history') loadLedger();
+  }, [activeTab, loadLedger]);
+
+  const stats = useMemo(() => ({
+    tracked: items.length,
+    low: items.filter(item => item.stock_status === 'low_stock').length,
+    out: items.filter(item => item.stock_status === 'out_of_stock' || item.on_hand < 0).length,
+    value: items.reduce((total, item) => total + Math.max(0, item.on_hand) * (item.unit_cost ?? 0), 0)
+  }), [items]);
+
+  const filteredItems = statusFilter === 'all' ? items : items.filter(item => item.stock_status === statusFilter);
+
+  const handleAdjust = async (data: CreateInventoryAdjustmentRequest) => {
+    try {
+      const result = await adjustStock(data);
+      // Only prepend when the new line matches the ledger filters
+      if ((!ledgerItem || ledgerItem === data.item_id) && (!ledgerType || ledgerType === data.type)) {
+        setLedger(prev => [result.adjustment, ...prev]);
+      }
+      showSuccess(`Stock updated: ${result.level.on_hand} on hand`);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to adjust stock');
+      throw err;
+    }
+  };
+
+  const handleSaveSettings = async (data: UpdateInventoryAlertSettingsRequest) => {
+    if (!storeId) return;
+    try {
+      setSettings(await inventoryService.updateAlertSettings(storeId, data));
+      showSuccess('Stock alert settings saved');
+    } catch (err) {
+      showError('Failed to save stock alert settings');
+      throw err;
+    }
+  };
+
+  const handleSyncStatuses = async () => {
+    setSyncing(true);
+    try {
+      const count = await syncStatuses();
+      showSuccess(`Updated stock status on ${count} product(s)`);
+    } catch (err) {
+      console.error('Failed to sync stock status:', err);
+      showError('Failed to update some stock statuses');
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const openAdjust = (itemId?: string) => {
+    setAdjustModal({ isOpen: true, item: items.find(item => item.item_id === itemId) || null });
+  };
+
+  const columns: Column<InventoryItem>[] = [
+    {
+      key: 'name',
+      title: 'Item',
+      sortable: true,
+      render: (_value, item) => (
+        <div>
+          <div className="font-medium text-gray-900">{item.name}</div>
+          <div className="text-xs text-gray-500">{item.item_id}{item.brand ? ` · ${item.brand}` : ''}</div>
+        </div>
+      )
+    },
+    {
+      key: 'on_hand',
+      title: 'On Hand',
+      sortable: true,
+      render: (value, item) => (
+        <span className={`font-semibold ${value < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+          {value} <span className="text-xs font-normal text-gray-500">{item.uom}</span>
+        </span>
+      )
+    },
+    {
+      key: 'on_order',
+      title: 'On Order',
+      sortable: true,
+      render: (value) => (value > 0 ? value : <span className="text-gray-300">—</span>)
+    },
+    {
+      key: 'low_stock_threshold',
+      title: 'Low At',
+      sortable: true
+    },
+    {
+      key: 'reorder_point',
+      title: 'Reorder Point',
+      sortable: true,
+      render: (value) => (value ?? <span className="text-gray-300">—</span>)
+    },
+    {
+      key: 'unit_cost',
+      title: 'Unit Cost',
+      sortable: true,
+      render: (value) => (value != null ? formatCurrency(value) : <span className="text-gray-300">—</span>)
+    },
+    {
+      key: 'stock_status',
+      title: 'Status',
+      sortable: true,
+      render: (value: StockStatus, item) => (
+        <div className="flex items-center space-x-1">
+          <Badge color={STOCK_STATUS_COLORS[value]} size="sm">{STOCK_STATUS_LABELS[value]}</Badge>
+          {item.product_stock_status !== value && (
+            <span title={`Product still shows ${item.product_stock_status || 'no status'}`}>
+              <ArrowPathIcon className="h-4 w-4 text-gray-400" />
+            </span>
+          )}
+        </div>
+      )
+    },
+    ...(canAdjust ? [{
+      key: 'actions',
+      title: '',
+      render: (_value: unknown, item: InventoryItem) => (
+        <Button size="sm" variant="outline" onClick={() => openAdjust(item.item_id)}>
+          Adjust
+        </Button>
+      )
+    }] : [])
+  ];
+
+  if (!storeId) {
+    return (
+      <div className="p-6">
+        <PageHeader title="Inventory" description="Stock levels, adjustments and low-stock alerts" />
+        <div className="bg-white rounded-lg border border-gray-200 p-10 text-center text-gray-500">
+          Select a store to manage its inventory
+        </div>
+      </div>
+    );
+  }
+
+  const tabClass = (tab: InventoryTab) => `${
+    activeTab === tab
+      ? 'border-blue-500 text-blue-600'
+      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+  } whitespace-nowrap py-2 px-1 border-b-2 font-medium text-sm flex items-center space-x-2`;
+
+  return (
+    <div className="p-6">
+      <PageHeader title="Inventory" description="Stock levels, adjustments and low-stock alerts">
+        <div className="flex items-center space-x-3">
+          {staleStatusCount > 0 && canAdjust && (
+            <Button variant="outline" onClick={handleSyncStatuses} isLoading={syncing} className="flex items-center space-x-2">
+              <ArrowPathIcon className="w-5 h-5" />
+              <span>Update {staleStatusCount} Status{staleStatusCount === 1 ? '' : 'es'}</span>
+            </Button>
+          )}
+          {canConfigure && (
+            <Button variant="outline" onClick={() => setShowSettings(true)} disabled={!settings} className="flex items-center space-x-2">
+              <Cog6ToothIcon className="w-5 h-5" />
+              <span>Alert Settings</span>
+            </Button>
+          )}
+          {canAdjust && (
+            <Button onClick={() => openAdjust()} disabled={!settings || items.length === 0} className="flex items-center space-x-2">
+              <AdjustmentsHorizontalIcon className="w-5 h-5" />
+              <span>Adjust Stock</span>
+            </Button>
+          )}
+        </div>
+      </PageHeader>
+
+      {/* Quick Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-6">
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <div className="flex items-center">
+            <CubeIcon className="h-8 w-8 text-blue-600" />
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600">Tracked Items</p>
+              <p className="text-2xl font-bold text-gray-900">{stats.tracked}</p>
+            </div>
+          </div>
+        </div>
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <div className="flex items-center">
+            <ExclamationTriangleIcon className="h-8 w-8 text-yellow-500" />
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600">Low Stock</p>
+              <p className="text-2xl font-bold text-gray-900">{stats.low}</p>
+            </div>
+          </div>
+        </div>
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <div className="flex items-center">
+            <ArchiveBoxIcon className="h-8 w-8 text-red-500" />
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600">Out of Stock</p>
+              <p className="text-2xl font-bold text-gray-900">{stats.out}</p>
+            </div>
+          </div>
+        </div>
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <div className="flex items-center">
+            <BanknotesIcon className="h-8 w-8 text-green-600" />
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600">Stock Value</p>
+              <p className="text-2xl font-bold text-gray-900">{formatCurrency(stats.value)}</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Tabs */}
+      <div className="mb-6">
+        <nav className="flex space-x-8" aria-label="Tabs">
+          <button onClick={() => setActiveTab('stock')} className={tabClass('stock')}>
+            <CubeIcon className="h-4 w-4" />
+            <span>Stock Levels</span>
+          </button>
+          <button onClick={() => setActiveTab('alerts')} className={tabClass('alerts')}>
+            <BellAlertIcon className="h-4 w-4" />
+            <span>Alerts</span>
+            {alerts.length > 0 && (
+              <span className="ml-1 rounded-full bg-red-100 px-2 py-0.5 text-xs font-semibold text-red-700">{alerts.length}</span>
+            )}
+          </button>
+          <button onClick={() => setActiveTab('history')} className={tabClass('history')}>
+            <ClockIcon className="h-4 w-4" />
+            <span>History</span>
+          </button>
+        </nav>
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      )}
+
+      {activeTab === 'stock' && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {(['all', 'in_stock', 'low_stock', 'out_of_stock', 'on_order'] as const).map(status => (
+              <button
+                key={status}
+                onClick={() => setStatusFilter(status)}
+                className={`rounded-full px-3 py-1 text-sm font-medium ${
+                  statusFilter === status ? 'bg-blue-600 text-white' : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {status === 'all' ? 'All' : STOCK_STATUS_LABELS[status]}
+              </button>
+            ))}
+          </div>
+          <DataTable
+            data={filteredItems}
+            columns={columns}
+            loading={isLoading}
+            searchable={true}
+            searchPlaceholder="Search items..."
+            searchFields={['name', 'item_id', 'brand']}
+            pagination={true}
+            pageSize={25}
+            defaultSort={{ key: 'name', direction: 'asc' }}
+          />
+        </div>
+      )}
+
+      {activeTab === 'alerts' && (
+        <InventoryAlertsPanel alerts={alerts} onAdjust={canAdjust ? openAdjust : undefined} />
+      )}
+
+      {activeTab === 'history' && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={ledgerItem}
+              onChange={(e) => setLedgerItem(e.target.value)}
+              className="rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none"
+            >
+              <option value="">All items</option>
+              {items.map(item => (
+                <option key={item.item_id} value={item.item_id}>{item.name}</option>
+              ))}
+            </select>
+            <select
+              value={ledgerType}
+              onChange={(e) => setLedgerType(e.target.value as InventoryAdjustmentType | '')}
+              className="rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none"
+            >
+              <option value="">All types</option>
+              {(Object.keys(ADJUSTMENT_TYPE_LABELS) as InventoryAdjustmentType[]).map(type => (
+                <option key={type} value={type}>{ADJUSTMENT_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+          <InventoryLedgerTable
+            adjustments={ledger}
+            itemNames={itemNames}
+            loading={ledgerLoading}
+            hasMore={Boolean(ledgerCursor)}
+            onLoadMore={() => ledgerCursor && loadLedger(ledgerCursor)}
+            showItem={!ledgerItem}
+          />
+        </div>
+      )}
+
+      {settings && (
+        <>
+          <StockAdjustmentModal
+            isOpen={adjustModal.isOpen}
+            onClose={() => setAdjustModal({ isOpen: false, item: null })}
+            item={adjustModal.item}
+            items={items}
+            settings={settings}
+            reasonCodes={inventoryReasons}
+            onSubmit={handleAdjust}
+          />
+          <InventoryAlertSettingsModal
+            isOpen={showSettings}
+            onClose={() => setShowSettings(false)}
+            settings={settings}
+            onSave={handleSaveSettings}
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Inventory;
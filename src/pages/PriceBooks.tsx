@@ -0,0 +1,332 @@
+import React, { useMemo, useState } from 'react';
+import {
+  BookOpenIcon,
+  CalendarDaysIcon,
+  ClockIcon,
+  ComputerDesktopIcon,
+  PauseCircleIcon,
+  PencilIcon,
+  PlayCircleIcon,
+  PlusIcon,
+  TrashIcon
+} from '@heroicons/react/24/outline';
+import { PageHeader, Button, DataTable, Badge, ConfirmDialog } from '../components/ui';
+import type { Column } from '../components/ui';
+import {
+  PriceBookFormModal,
+  PRICE_BOOK_STATUS_LABELS,
+  PRICE_BOOK_STATUS_COLORS,
+  formatPriceWindow
+} from '../components/price-book';
+import { priceBookService, getPriceBookStatus } from '../services/price-book';
+import type { CreatePriceBookRequest, PriceBook, PriceBookStatus } from '../services/price-book';
+import usePriceBooks from '../hooks/usePriceBooks';
+import { useConfirmDialog } from '../hooks/useConfirmDialog';
+import { useError } from '../hooks/useError';
+import { useTenantStore } from '../tenants/tenantStore';
+import { usePermissions } from '../utils/permissions';
+import { useCurrencyFormatter } from '../utils/currencyUtils';
+
+type StatusFilter = PriceBookStatus | 'current' | 'all';
+
+interface PriceBookModalState {
+  isOpen: boolean;
+  priceBook: PriceBook | null;
+}
+
+const EXPIRING_SOON_MS = 7 * 24 * 60 * 60 * 1000;
+
+const PriceBooks: React.FC = () => {
+  const { currentTenant, currentStore } = useTenantStore();
+  const { showError, showSuccess } = useError();
+  const { hasAnyPermission } = usePermissions();
+  const formatCurrency = useCurrencyFormatter();
+  const confirmDialog = useConfirmDialog();
+  const storeId = currentStore?.store_id;
+  const canManage = hasAnyPermission(['products_update', 'settings_store']);
+
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('current');
+  const [modal, setModal] = useState<PriceBookModalState>({ isOpen: false, priceBook: null });
+
+  const {
+    priceBooks,
+    products,
+    terminals,
+    isLoading,
+    error,
+    setPriceBooks,
+    upsertPriceBook
+  } = usePriceBooks({ tenantId: currentTenant?.id, storeId });
+
+  const terminalNames = useMemo(
+    () => new Map(terminals.map(terminal => [terminal.terminal_id, terminal.name || terminal.terminal_id])),
+    [terminals]
+  );
+
+  const rows = useMemo(
+    () => priceBooks.map(book => ({ ...book, status: getPriceBookStatus(book) })),
+    [priceBooks]
+  );
+
+  const filteredRows = rows.filter(row => {
+    if (statusFilter === 'all') return true;
+    if (statusFilter === 'current') return row.status === 'live' || row.status === 'scheduled';
+    return row.status === statusFilter;
+  });
+
+  const stats = useMemo(() => {
+    const now = Date.now();
+    const live = rows.filter(row => row.status === 'live');
+    return {
+      live: live.length,
+      scheduled: rows.filter(row => row.status === 'scheduled').length,
+      expiringSoon: live.filter(row => row.expires_at && new Date(row.expires_at).getTime() - now < EXPIRING_SOON_MS).length,
+      itemsRepriced: new Set(live.flatMap(row => row.items.map(item => item.item_id))).size
+    };
+  }, [rows]);
+
+  const handleSave = async (data: CreatePriceBookRequest, priceBookId?: string) => {
+    if (!storeId) return;
+    try {
+      const saved = priceBookId
+        ? await priceBookService.updatePriceBook(storeId, priceBookId, data)
+        : await priceBookService.createPriceBook(storeId, data);
+      upsertPriceBook(saved);
+      showSuccess(priceBookId ? `${saved.name} saved` : `${saved.name} created`);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to save price book');
+      throw err;
+    }
+  };
+
+  const handleToggleActive = async (book: PriceBook) => {
+    if (!storeId) return;
+    try {
+      upsertPriceBook(await priceBookService.updatePriceBook(storeId, book.price_book_id, { active: !book.active }));
+      showSuccess(book.active ? `${book.name} disabled` : `${book.name} enabled`);
+    } catch (err) {
+      console.error('Failed to update price book:', err);
+      showError('Failed to update price book');
+    }
+  };
+
+  const handleDelete = (book: PriceBook) => {
+    if (!storeId) return;
+    confirmDialog.openDialog(async () => {
+      try {
+        await priceBookService.deletePriceBook(storeId, book.price_book_id);
+        setPriceBooks(prev => prev.filter(existing => existing.price_book_id !== book.price_book_id));
+        showSuccess(`${book.name} deleted`);
+      } catch (err) {
+        console.error('Failed to delete price book:', err);
+        showError('Failed to delete price book');
+      }
+    }, {
+      title: 'Delete price book',
+      message: `Delete "${book.name}"? Its ${book.items.length} item price(s) will no longer apply and the book will drop out of item price timelines.`,
+      confirmText: 'Delete',
+      variant: 'danger'
+    });
+  };
+
+  const columns: Column<PriceBook & { status: PriceBookStatus }>[] = [
+    {
+      key: 'name',
+      title: 'Price Book',
+      sortable: true,
+      render: (value, book) => (
+        <div>
+          <div className="font-medium text-gray-900">{value}</div>
+          {book.description && <div className="text-xs text-gray-500">{book.description}</div>}
+        </div>
+      )
+    },
+    {
+      key: 'status',
+      title: 'Status',
+      sortable: true,
+      render: (value: PriceBookStatus) => (
+        <Badge color={PRICE_BOOK_STATUS_COLORS[value]} size="sm">{PRICE_BOOK_STATUS_LABELS[value]}</Badge>
+      )
+    },
+    {
+      key: 'effective_at',
+      title: 'Effective',
+      sortable: true,
+      render: (value, book) => <span className="text-sm text-gray-700">{formatPriceWindow(value, book.expires_at)}</span>
+    },
+    {
+      key: 'scope',
+      title: 'Applies To',
+      render: (value, book) => (value === 'store'
+        ? <span className="text-gray-700">Whole store</span>
+        : (
+          <span className="text-gray-700" title={book.terminal_ids.map(id => terminalNames.get(id) || id).join(', ')}>
+            {book.terminal_ids.length} terminal{book.terminal_ids.length === 1 ? '' : 's'}
+          </span>
+        ))
+    },
+    {
+      key: 'items',
+      title: 'Items',
+      render: (_value, book) => <span className="text-gray-700">{book.items.length}</span>
+    },
+    {
+      key: 'priority',
+      title: 'Priority',
+      sortable: true
+    },
+    ...(canManage ? [{
+      key: 'actions',
+      title: '',
+      render: (_value: unknown, book: PriceBook) => (
+        <div className="flex items-center justify-end space-x-1">
+          <button
+            onClick={() => handleToggleActive(book)}
+            className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-orange-600"
+            title={book.active ? 'Disable' : 'Enable'}
+          >
+            {book.active ? <PauseCircleIcon className="h-4 w-4" /> : <PlayCircleIcon className="h-4 w-4" />}
+          </button>
+          <button
+            onClick={() => setModal({ isOpen: true, priceBook: book })}
+            className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-blue-600"
+            title="Edit price book"
+          >
+            <PencilIcon className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => handleDelete(book)}
+            className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-red-600"
+            title="Delete price book"
+          >
+            <TrashIcon className="h-4 w-4" />
+          </button>
+        </div>
+      )
+    }] : [])
+  ];
+
+  if (!storeId) {
+    return (
+      <div className="p-6">
+        <PageHeader title="Price Books" description="Scheduled prices for promotions and cost changes" />
+        <div className="bg-white rounded-lg border border-gray-200 p-10 text-center text-gray-500">
+          Select a store to manage its price books
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <PageHeader title="Price Books" description="Scheduled prices for promotions and cost changes">
+        {canManage && (
+          <Button
+            onClick={() => setModal({ isOpen: true, priceBook: null })}
+            disabled={products.length === 0}
+            className="flex items-center space-x-2"
+          >
+            <PlusIcon className="w-5 h-5" />
+            <span>New Price Book</span>
+          </Button>
+        )}
+      </PageHeader>
+
+      {/* Quick Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-6">
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <div className="flex items-center">
+            <BookOpenIcon className="h-8 w-8 text-green-600" />
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600">Live</p>
+              <p className="text-2xl font-bold text-gray-900">{stats.live}</p>
+            </div>
+          </div>
+        </div>
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <div className="flex items-center">
+            <CalendarDaysIcon className="h-8 w-8 text-blue-600" />
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600">Scheduled</p>
+              <p className="text-2xl font-bold text-gray-900">{stats.scheduled}</p>
+            </div>
+          </div>
+        </div>
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <div className="flex items-center">
+            <ClockIcon className="h-8 w-8 text-orange-500" />
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600">Expiring in 7 Days</p>
+              <p className="text-2xl font-bold text-gray-900">{stats.expiringSoon}</p>
+            </div>
+          </div>
+        </div>
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <div className="flex items-center">
+            <ComputerDesktopIcon className="h-8 w-8 text-purple-600" />
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600">Items Repriced Now</p>
+              <p className="text-2xl font-bold text-gray-900">{stats.itemsRepriced}</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      )}
+
+      <div className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {(['current', 'live', 'scheduled', 'expired', 'disabled', 'all'] as const).map(status => (
+            <button
+              key={status}
+              onClick={() => setStatusFilter(status)}
+              className={`rounded-full px-3 py-1 text-sm font-medium ${
+                statusFilter === status ? 'bg-blue-600 text-white' : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {status === 'current' ? 'Live & Scheduled' : status === 'all' ? 'All' : PRICE_BOOK_STATUS_LABELS[status]}
+            </button>
+          ))}
+        </div>
+        <DataTable
+          data={filteredRows}
+          columns={columns}
+          loading={isLoading}
+          searchable={true}
+          searchPlaceholder="Search price books..."
+          searchFields={['name', 'description']}
+          pagination={true}
+          pageSize={25}
+          defaultSort={{ key: 'effective_at', direction: 'desc' }}
+        />
+      </div>
+
+      <PriceBookFormModal
+        isOpen={modal.isOpen}
+        onClose={() => setModal({ isOpen: false, priceBook: null })}
+        priceBook={modal.priceBook}
+        products={products}
+        terminals={terminals}
+        formatCurrency={formatCurrency}
+        onSave={handleSave}
+      />
+
+      <ConfirmDialog
+        isOpen={confirmDialog.dialogState.isOpen}
+        onClose={confirmDialog.closeDialog}
+        onConfirm={confirmDialog.handleConfirm}
+        title={confirmDialog.dialogState.title}
+        message={confirmDialog.dialogState.message}
+        confirmText={confirmDialog.dialogState.confirmText}
+        cancelText={confirmDialog.dialogState.cancelText}
+        variant={confirmDialog.dialogState.variant}
+        isLoading={confirmDialog.dialogState.isLoading}
+      />
+    </div>
+  );
+};
+
+export default PriceBooks;
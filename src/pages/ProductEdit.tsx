@@ -18,6 +18,7 @@ import type { MultipleDropdownSearchOption } from '../components/ui/MultipleDrop
 import { 
   ProductBasicInfoTab,
   ProductPricingTab,
+  ProductPriceTimeline,
   ProductSettingsTab,
   ProductAttributesTab,
   ProductMediaTab,
@@ -955,13 +956,23 @@ const ProductEdit: React.FC = () => {
 
               {/* Pricing Tab */}
               {activeTab === 'pricing' && (
-                <ProductPricingTab
-                  formData={formData}
-                  errors={errors}
-                  onInputChange={handleInputChange}
-                  getDiscountTypeDropdownOptions={getDiscountTypeDropdownOptions}
-                  handleDiscountTypeSelect={handleDiscountTypeSelect}
-                />
+                <div className="space-y-6">
+                  <ProductPricingTab
+                    formData={formData}
+                    errors={errors}
+                    onInputChange={handleInputChange}
+                    getDiscountTypeDropdownOptions={getDiscountTypeDropdownOptions}
+                    handleDiscountTypeSelect={handleDiscountTypeSelect}
+                  />
+                  {isEditing && id && currentStore?.store_id && (
+                    <ProductPriceTimeline
+                      storeId={currentStore.store_id}
+                      itemId={id}
+                      listPrice={formData.pricing?.list_price || 0}
+                      salePrice={formData.pricing?.sale_price || null}
+                    />
+                  )}
+                </div>
               )}
 
               {/* Settings Tab */}
@@ -5,15 +5,19 @@ import {
   PlusIcon, 
   Squares2X2Icon, 
   PencilIcon,
-  TrashIcon
+  TrashIcon,
+  ArrowUpTrayIcon,
+  ArrowDownTrayIcon
 } from '@heroicons/react/24/outline';
-import { PageHeader, Button, ConfirmDialog, Loading, Alert, PageContainer, H4, Body1, Body2, Caption, DataTable, AdvancedSearchFilter } from '../components/ui';
+import { PageHeader, Button, ConfirmDialog, Loading, Alert, PageContainer, H4, Body1, Body2, Caption, DataTable, AdvancedSearchFilter, PermissionGuard } from '../components/ui';
 import type { Column, FilterConfig, ViewMode } from '../components/ui';
 import { useDeleteConfirmDialog } from '../hooks/useConfirmDialog';
 import { useError } from '../hooks/useError';
 import { useCategories } from '../hooks/useCategories';
 import { useTenantStore } from '../tenants/tenantStore';
 import { productService } from '../services/product';
+import type { ApiProduct } from '../services/types/product.types';
+import { ProductImportWizard, ProductExportModal } from '../components/product';
 import { useCurrencyFormatter } from '../utils/currencyUtils';
 
 // Types for advanced filters
@@ -57,6 +61,92 @@ interface Product {
   updatedAt: Date;
 }
 
+interface ProductFilterCriteria {
+  searchTerm: string;
+  selectedCategory: string;
+  advancedFilters: AdvancedFilters;
+}
+
+// Map an API product to the UI Product type
+const toProduct = (apiProduct: ApiProduct, categoryName: string): Product => ({
+  id: apiProduct.item_id,
+  name: apiProduct.name,
+  description: apiProduct.description || '',
+  price: apiProduct.list_price,
+  cost: 0, // Not available in API, set to 0 or fetch if available
+  sku: apiProduct.item_id,
+  category: apiProduct.categories?.[0] || '',
+  categoryName,
+  stockQuantity: 0, // Not available in API, set to 0 or fetch if available
+  minStockLevel: 0, // Not available in API, set to 0 or fetch if available
+  unit: apiProduct.uom || '',
+  supplier: '', // Not available in API
+  barcode: '', // Not available in API
+  tags: apiProduct.categories || [],
+  isActive: apiProduct.active !== false,
+  createdAt: new Date(apiProduct.created_at),
+  updatedAt: new Date(apiProduct.updated_at),
+});
+
+// Shared by the product list and the export so both apply the same filters
+const matchesProductFilters = (product: Product, { searchTerm, selectedCategory, advancedFilters }: ProductFilterCriteria): boolean => {
+  // Basic search
+  const matchesSearch = product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                       product.sku.toLowerCase().includes(searchTerm.toLowerCase());
+  
+  // Category filter
+  const matchesCategory = !selectedCategory || product.category === selectedCategory;
+  
+  // Advanced filters
+  const matchesPriceRange = (
+    (advancedFilters.priceRange.min === '' || product.price >= advancedFilters.priceRange.min) &&
+    (advancedFilters.priceRange.max === '' || product.price <= advancedFilters.priceRange.max)
+  );
+  
+  const matchesStockLevel = (() => {
+    switch (advancedFilters.stockLevel) {
+      case 'in-stock':
+        return product.stockQuantity > product.minStockLevel;
+      case 'low-stock':
+        return product.stockQuantity > 0 && product.stockQuantity <= product.minStockLevel;
+      case 'out-of-stock':
+        return product.stockQuantity === 0;
+      default:
+        return true;
+    }
+  })();
+  
+  const matchesSuppliers = advancedFilters.suppliers.length === 0 || 
+                          advancedFilters.suppliers.includes(product.supplier);
+  
+  const matchesTags = advancedFilters.tags.length === 0 || 
+                     advancedFilters.tags.some(tag => product.tags.includes(tag));
+  
+  const matchesStatus = advancedFilters.status === 'all' || 
+                       (advancedFilters.status === 'active' && product.isActive) ||
+                       (advancedFilters.status === 'inactive' && !product.isActive);
+  
+  const matchesDateRange = (() => {
+    if (!advancedFilters.dateRange.start && !advancedFilters.dateRange.end) return true;
+    const productDate = product.createdAt.toISOString().split('T')[0];
+    const startDate = advancedFilters.dateRange.start;
+    const endDate = advancedFilters.dateRange.end;
+    
+    if (startDate && endDate) {
+      return productDate >= startDate && productDate <= endDate;
+    } else if (startDate) {
+      return productDate >= startDate;
+    } else if (endDate) {
+      return productDate <= endDate;
+    }
+    return true;
+  })();
+  
+  return matchesSearch && matchesCategory && matchesPriceRange && 
+         matchesStockLevel && matchesSuppliers && matchesTags && 
+         matchesStatus && matchesDateRange;
+};
+
 const ProductCard: React.FC<{ 
   product: Product; 
   onEdit: (product: Product) => void; 
@@ -160,7 +250,7 @@ const Products: React.FC = () => {
   const navigate = useNavigate();
   const { t } = useTranslation();
   const { currentTenant, currentStore } = useTenantStore();
-  const { categoryOptions, getCategoryNames } = useCategories({
+  const { categories, categoryOptions, getCategoryNames } = useCategories({
     tenantId: currentTenant?.id,
     storeId: currentStore?.store_id,
     autoLoad: true
@@ -171,6 +261,8 @@ const Products: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('');
   const [viewMode, setViewMode] = useState<ViewMode>('grid');
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
   const [advancedFilters, setAdvancedFilters] = useState<AdvancedFilters>({
     priceRange: { min: '', max: '' },
     stockLevel: 'all',
@@ -299,29 +391,9 @@ const Products: React.FC = () => {
         const categoryNames = await getCategoryNames(categoryIds);
 
         // Map API products to UI Product type with category names
-        const mapped = productsRes.items.map((apiProduct: any) => {
+        const mapped = productsRes.items.map(apiProduct => {
           const categoryId = apiProduct.categories?.[0] || '';
-          const categoryName = categoryNames[categoryId] || categoryId;
-          
-          return {
-            id: apiProduct.item_id,
-            name: apiProduct.name,
-            description: apiProduct.description || '',
-            price: apiProduct.list_price,
-            cost: 0, // Not available in API, set to 0 or fetch if available
-            sku: apiProduct.item_id,
-            category: categoryId,
-            categoryName: categoryName,
-            stockQuantity: 0, // Not available in API, set to 0 or fetch if available
-            minStockLevel: 0, // Not available in API, set to 0 or fetch if available
-            unit: apiProduct.uom || '',
-            supplier: '', // Not available in API
-            barcode: '', // Not available in API
-            tags: apiProduct.categories || [],
-            isActive: apiProduct.active !== false,
-            createdAt: new Date(apiProduct.created_at),
-            updatedAt: new Date(apiProduct.updated_at),
-          };
+          return toProduct(apiProduct, categoryNames[categoryId] || categoryId);
         });
 
         setProducts(mapped);
@@ -347,65 +419,7 @@ const Products: React.FC = () => {
   }, []);
 
   const filteredProducts = useMemo(() => {
-    let filtered = products.filter(product => {
-      // Basic search
-      const matchesSearch = product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                           product.sku.toLowerCase().includes(searchTerm.toLowerCase());
-      
-      // Category filter
-      const matchesCategory = !selectedCategory || product.category === selectedCategory;
-      
-      // Advanced filters
-      const matchesPriceRange = (
-        (advancedFilters.priceRange.min === '' || product.price >= advancedFilters.priceRange.min) &&
-        (advancedFilters.priceRange.max === '' || product.price <= advancedFilters.priceRange.max)
-      );
-      
-      const matchesStockLevel = (() => {
-        switch (advancedFilters.stockLevel) {
-          case 'in-stock':
-            return product.stockQuantity > product.minStockLevel;
-          case 'low-stock':
-            return product.stockQuantity > 0 && product.stockQuantity <= product.minStockLevel;
-          case 'out-of-stock':
-            return product.stockQuantity === 0;
-          default:
-            return true;
-        }
-      })();
-      
-      const matchesSuppliers = advancedFilters.suppliers.length === 0 || 
-                              advancedFilters.suppliers.includes(product.supplier);
-      
-      const matchesTags = advancedFilters.tags.length === 0 || 
-                         advancedFilters.tags.some(tag => product.tags.includes(tag));
-      
-      const matchesStatus = advancedFilters.status === 'all' || 
-                           (advancedFilters.status === 'active' && product.isActive) ||
-                           (advancedFilters.status === 'inactive' && !product.isActive);
-      
-      const matchesDateRange = (() => {
-        if (!advancedFilters.dateRange.start && !advancedFilters.dateRange.end) return true;
-        const productDate = product.createdAt.toISOString().split('T')[0];
-        const startDate = advancedFilters.dateRange.start;
-        const endDate = advancedFilters.dateRange.end;
-        
-        if (startDate && endDate) {
-          return productDate >= startDate && productDate <= endDate;
-        } else if (startDate) {
-          return productDate >= startDate;
-        } else if (endDate) {
-          return productDate <= endDate;
-        }
-        return true;
-      })();
-      
-      return matchesSearch && matchesCategory && matchesPriceRange && 
-             matchesStockLevel && matchesSuppliers && matchesTags && 
-             matchesStatus && matchesDateRange;
-    });
-
-    return filtered;
+    return products.filter(product => matchesProductFilters(product, { searchTerm, selectedCategory, advancedFilters }));
   }, [products, searchTerm, selectedCategory, advancedFilters]);
 
   const handleEdit = (product: Product) => {
@@ -611,29 +625,9 @@ const Products: React.FC = () => {
       const categoryNames = await getCategoryNames(categoryIds);
 
       // Map API products to UI Product type with category names
-      const mapped = productsRes.items.map((apiProduct: any) => {
+      const mapped = productsRes.items.map(apiProduct => {
         const categoryId = apiProduct.categories?.[0] || '';
-        const categoryName = categoryNames[categoryId] || categoryId;
-        
-        return {
-          id: apiProduct.item_id,
-          name: apiProduct.name,
-          description: apiProduct.description || '',
-          price: apiProduct.list_price,
-          cost: 0,
-          sku: apiProduct.item_id,
-          category: categoryId,
-          categoryName: categoryName,
-          stockQuantity: 0,
-          minStockLevel: 0,
-          unit: apiProduct.uom || '',
-          supplier: '',
-          barcode: '',
-          tags: apiProduct.categories || [],
-          isActive: apiProduct.active !== false,
-          createdAt: new Date(apiProduct.created_at),
-          updatedAt: new Date(apiProduct.updated_at),
-        };
+        return toProduct(apiProduct, categoryNames[categoryId] || categoryId);
       });
 
       setProducts(mapped);
@@ -683,6 +677,26 @@ const Products: React.FC = () => {
             <PlusIcon className="w-5 h-5" />
             <span>{t('products.addModifier')}</span>
           </Button>
+          <PermissionGuard requiredPermissions={['products_import']}>
+            <Button
+              variant="secondary"
+              onClick={() => setIsImportOpen(true)}
+              className="flex items-center space-x-2"
+            >
+              <ArrowUpTrayIcon className="w-5 h-5" />
+              <span>{t('products.import')}</span>
+            </Button>
+          </PermissionGuard>
+          <PermissionGuard requiredPermissions={['products_export']}>
+            <Button
+              variant="secondary"
+              onClick={() => setIsExportOpen(true)}
+              className="flex items-center space-x-2"
+            >
+              <ArrowDownTrayIcon className="w-5 h-5" />
+              <span>{t('products.export')}</span>
+            </Button>
+          </PermissionGuard>
           <Button
             variant="primary"
             onClick={() => navigate('/products/new')}
@@ -814,6 +828,28 @@ const Products: React.FC = () => {
         cancelText={deleteDialog.dialogState.cancelText}
         isLoading={deleteDialog.dialogState.isLoading}
       />
+
+      {currentTenant && currentStore && (
+        <ProductImportWizard
+          isOpen={isImportOpen}
+          onClose={() => setIsImportOpen(false)}
+          onComplete={retryFetchProducts}
+          tenantId={currentTenant.id}
+          storeId={currentStore.store_id}
+          categories={categories}
+        />
+      )}
+
+      {currentTenant && currentStore && (
+        <ProductExportModal
+          isOpen={isExportOpen}
+          onClose={() => setIsExportOpen(false)}
+          tenantId={currentTenant.id}
+          storeId={currentStore.store_id}
+          filter={apiProduct => matchesProductFilters(toProduct(apiProduct, ''), { searchTerm, selectedCategory, advancedFilters })}
+          hasActiveFilters={Boolean(hasActiveFilters)}
+        />
+      )}
     </PageContainer>
   );
 };
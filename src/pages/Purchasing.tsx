@@ -0,0 +1,613 @@
+import React, { useMemo, useState } from 'react';
+import {
+  ArrowDownTrayIcon,
+  BuildingStorefrontIcon,
+  ClipboardDocumentListIcon,
+  PaperAirplaneIcon,
+  PencilIcon,
+  PlusIcon,
+  TrashIcon,
+  TruckIcon,
+  XCircleIcon
+} from '@heroicons/react/24/outline';
+import { PageHeader, Button, DataTable, Badge, ConfirmDialog } from '../components/ui';
+import type { Column } from '../components/ui';
+import {
+  SupplierFormModal,
+  PurchaseOrderFormModal,
+  ReceivePurchaseOrderModal,
+  ReorderSuggestionsPanel,
+  PO_STATUS_LABELS,
+  PO_STATUS_COLORS
+} from '../components/purchasing';
+import {
+  purchasingService,
+  canPerformAction,
+  getOrderTotal,
+  getOrderQuantities,
+  buildReorderSuggestions,
+  buildDraftOrders,
+  OPEN_ORDER_STATUSES
+} from '../services/purchasing';
+import type {
+  CreatePurchaseOrderRequest,
+  CreateSupplierRequest,
+  PurchaseOrder,
+  PurchaseOrderStatus,
+  ReceivePurchaseOrderRequest,
+  ReorderSuggestion,
+  Supplier
+} from '../services/purchasing';
+import useInventory from '../hooks/useInventory';
+import usePurchasing from '../hooks/usePurchasing';
+import { useConfirmDialog } from '../hooks/useConfirmDialog';
+import { useError } from '../hooks/useError';
+import { useTenantStore } from '../tenants/tenantStore';
+import { usePermissions } from '../utils/permissions';
+import { useCurrencyFormatter } from '../utils/currencyUtils';
+
+type PurchasingTab = 'orders' | 'reorder' | 'suppliers';
+
+interface OrderModalState {
+  isOpen: boolean;
+  order: PurchaseOrder | null;
+}
+
+interface SupplierModalState {
+  isOpen: boolean;
+  supplier: Supplier | null;
+}
+
+const Purchasing: React.FC = () => {
+  const { currentTenant, currentStore } = useTenantStore();
+  const { showError, showSuccess } = useError();
+  const { hasPermission, hasAnyPermission } = usePermissions();
+  const formatCurrency = useCurrencyFormatter();
+  const confirmDialog = useConfirmDialog();
+  const storeId = currentStore?.store_id;
+  const canReceive = hasPermission('inventory_adjust');
+  const canManage = hasAnyPermission(['inventory_update', 'settings_store']);
+
+  const [activeTab, setActiveTab] = useState<PurchasingTab>('orders');
+  const [statusFilter, setStatusFilter] = useState<PurchaseOrderStatus | 'open' | 'all'>('open');
+  const [orderModal, setOrderModal] = useState<OrderModalState>({ isOpen: false, order: null });
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null);
+  const [supplierModal, setSupplierModal] = useState<SupplierModalState>({ isOpen: false, supplier: null });
+
+  const { items, isLoading: inventoryLoading, setLevels } = useInventory({ tenantId: currentTenant?.id, storeId });
+  const {
+    suppliers,
+    orders,
+    isLoading,
+    error,
+    setSuppliers,
+    setOrders,
+    upsertOrder
+  } = usePurchasing({ storeId });
+
+  const supplierNames = useMemo(
+    () => new Map(suppliers.map(supplier => [supplier.supplier_id, supplier.name])),
+    [suppliers]
+  );
+
+  const suggestions = useMemo(() => buildReorderSuggestions(items, orders), [items, orders]);
+
+  const filteredOrders = orders.filter(order => {
+    if (statusFilter === 'all') return true;
+    if (statusFilter === 'open') return OPEN_ORDER_STATUSES.includes(order.status);
+    return order.status === statusFilter;
+  });
+
+  const stats = useMemo(() => {
+    const open = orders.filter(order => OPEN_ORDER_STATUSES.includes(order.status) && order.status !== 'draft');
+    return {
+      drafts: orders.filter(order => order.status === 'draft').length,
+      open: open.length,
+      openValue: open.reduce((total, order) => total + getOrderTotal(order.lines), 0),
+      suppliers: suppliers.filter(supplier => supplier.active).length
+    };
+  }, [orders, suppliers]);
+
+  // ── Purchase orders ──
+
+  const handleSaveOrder = async (data: CreatePurchaseOrderRequest, poId?: string) => {
+    if (!storeId) return;
+    try {
+      const saved = poId
+        ? await purchasingService.updatePurchaseOrder(storeId, poId, data)
+        : await purchasingService.createPurchaseOrder(storeId, data);
+      upsertOrder(saved);
+      showSuccess(poId ? `${saved.po_number} saved` : `${saved.po_number} created`);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to save purchase order');
+      throw err;
+    }
+  };
+
+  const handleSend = (order: PurchaseOrder) => {
+    if (!storeId) return;
+    confirmDialog.openDialog(async () => {
+      try {
+        upsertOrder(await purchasingService.sendPurchaseOrder(storeId, order.po_id));
+        showSuccess(`${order.po_number} marked as sent`);
+      } catch (err) {
+        console.error('Failed to send purchase order:', err);
+        showError('Failed to send purchase order');
+      }
+    }, {
+      title: 'Send purchase order',
+      message: `Mark ${order.po_number} as sent to ${supplierNames.get(order.supplier_id) || 'the supplier'}? Lines can no longer be edited once sent.`,
+      confirmText: 'Mark as Sent',
+      variant: 'info'
+    });
+  };
+
+  const handleCancel = (order: PurchaseOrder) => {
+    if (!storeId) return;
+    confirmDialog.openDialog(async () => {
+      try {
+        upsertOrder(await purchasingService.cancelPurchaseOrder(storeId, order.po_id));
+        showSuccess(`${order.po_number} cancelled`);
+      } catch (err) {
+        console.error('Failed to cancel purchase order:', err);
+        showError('Failed to cancel purchase order');
+      }
+    }, {
+      title: 'Cancel purchase order',
+      message: `Cancel ${order.po_number}? Its quantities will no longer count as on order.`,
+      confirmText: 'Cancel Order',
+      variant: 'warning'
+    });
+  };
+
+  const handleDeleteOrder = (order: PurchaseOrder) => {
+    if (!storeId) return;
+    confirmDialog.openDialog(async () => {
+      try {
+        await purchasingService.deletePurchaseOrder(storeId, order.po_id);
+        setOrders(prev => prev.filter(existing => existing.po_id !== order.po_id));
+        showSuccess(`${order.po_number} deleted`);
+      } catch (err) {
+        console.error('Failed to delete purchase order:', err);
+        showError('Failed to delete purchase order');
+      }
+    }, {
+      title: 'Delete draft',
+      message: `Delete draft ${order.po_number}? This action cannot be undone.`,
+      confirmText: 'Delete',
+      variant: 'danger'
+    });
+  };
+
+  const handleReceive = async (order: PurchaseOrder, data: ReceivePurchaseOrderRequest) => {
+    if (!storeId) return;
+    try {
+      const result = await purchasingService.receivePurchaseOrder(storeId, order.po_id, data);
+      const received = new Map(result.levels.map(level => [level.item_id, level]));
+      setLevels(prev => [...prev.filter(level => !received.has(level.item_id)), ...result.levels]);
+      upsertOrder(result.order);
+      showSuccess(result.order.status === 'received'
+        ? `${order.po_number} fully received`
+        : `Received ${result.adjustments.length} line(s) on ${order.po_number}`);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to receive purchase order');
+      throw err;
+    }
+  };
+
+  const handleCreateDrafts = async (selected: ReorderSuggestion[]) => {
+    if (!storeId) return;
+    const drafts = buildDraftOrders(selected);
+    let created = 0;
+    try {
+      for (const draft of drafts) {
+        upsertOrder(await purchasingService.createPurchaseOrder(storeId, draft));
+        created += 1;
+      }
+      showSuccess(`Created ${created} draft purchase order(s)`);
+      setActiveTab('orders');
+      setStatusFilter('draft');
+    } catch (err) {
+      console.error('Failed to create draft purchase orders:', err);
+      showError(created > 0
+        ? `Created ${created} of ${drafts.length} drafts before an error`
+        : 'Failed to create draft purchase orders');
+    }
+  };
+
+  // ── Suppliers ──
+
+  const handleSaveSupplier = async (data: CreateSupplierRequest, supplierId?: string) => {
+    if (!storeId) return;
+    try {
+      if (supplierId) {
+        const updated = await purchasingService.updateSupplier(storeId, supplierId, data);
+        setSuppliers(prev => prev.map(supplier => (supplier.supplier_id === supplierId ? updated : supplier)));
+        showSuccess('Supplier updated');
+      } else {
+        const created = await purchasingService.createSupplier(storeId, data);
+        setSuppliers(prev => [...prev, created]);
+        showSuccess('Supplier added');
+      }
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to save supplier');
+      throw err;
+    }
+  };
+
+  const handleDeleteSupplier = (supplier: Supplier) => {
+    if (!storeId) return;
+    if (orders.some(order => order.supplier_id === supplier.supplier_id)) {
+      showError(`${supplier.name} has purchase orders. Deactivate the supplier instead.`);
+      return;
+    }
+    confirmDialog.openDialog(async () => {
+      try {
+        await purchasingService.deleteSupplier(storeId, supplier.supplier_id);
+        setSuppliers(prev => prev.filter(existing => existing.supplier_id !== supplier.supplier_id));
+        showSuccess('Supplier deleted');
+      } catch (err) {
+        console.error('Failed to delete supplier:', err);
+        showError('Failed to delete supplier');
+      }
+    }, {
+      title: 'Delete supplier',
+      message: `Are you sure you want to delete "${supplier.name}"? This action cannot be undone.`,
+      confirmText: 'Delete',
+      variant: 'danger'
+    });
+  };
+
+  const orderColumns: Column<PurchaseOrder>[] = [
+    {
+      key: 'po_number',
+      title: 'PO',
+      sortable: true,
+      render: (value, order) => (
+        <div>
+          <div className="font-medium text-gray-900">{value}</div>
+          <div className="text-xs text-gray-500">{new Date(order.created_at).toLocaleDateString()}</div>
+        </div>
+      )
+    },
+    {
+      key: 'supplier_id',
+      title: 'Supplier',
+      sortable: true,
+      render: (value) => supplierNames.get(value) || <span className="text-gray-400">Unknown supplier</span>
+    },
+    {
+      key: 'status',
+      title: 'Status',
+      sortable: true,
+      render: (value: PurchaseOrderStatus) => (
+        <Badge color={PO_STATUS_COLORS[value]} size="sm">{PO_STATUS_LABELS[value]}</Badge>
+      )
+    },
+    {
+      key: 'lines',
+      title: 'Received',
+      render: (_value, order) => {
+        const { ordered, received } = getOrderQuantities(order);
+        return <span className="text-gray-700">{received} / {ordered}</span>;
+      }
+    },
+    {
+      key: 'expected_date',
+      title: 'Expected',
+      sortable: true,
+      render: (value) => (value ? new Date(`${value}T00:00:00`).toLocaleDateString() : <span className="text-gray-300">—</span>)
+    },
+    {
+      key: 'total',
+      title: 'Total',
+      render: (_value, order) => <span className="font-medium text-gray-900">{formatCurrency(getOrderTotal(order.lines))}</span>
+    },
+    {
+      key: 'actions',
+      title: '',
+      render: (_value, order) => (
+        <div className="flex items-center justify-end space-x-1">
+          {canReceive && canPerformAction(order, 'receive') && (
+            <Button size="sm" onClick={() => setReceivingOrder(order)} className="flex items-center space-x-1">
+              <ArrowDownTrayIcon className="h-4 w-4" />
+              <span>Receive</span>
+            </Button>
+          )}
+          {canManage && canPerformAction(order, 'send') && (
+            <Button size="sm" variant="outline" onClick={() => handleSend(order)} className="flex items-center space-x-1">
+              <PaperAirplaneIcon className="h-4 w-4" />
+              <span>Send</span>
+            </Button>
+          )}
+          {canManage && canPerformAction(order, 'edit') && (
+            <button
+              onClick={() => setOrderModal({ isOpen: true, order })}
+              className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-blue-600"
+              title="Edit draft"
+            >
+              <PencilIcon className="h-4 w-4" />
+            </button>
+          )}
+          {canManage && canPerformAction(order, 'cancel') && (
+            <button
+              onClick={() => handleCancel(order)}
+              className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-orange-600"
+              title="Cancel order"
+            >
+              <XCircleIcon className="h-4 w-4" />
+            </button>
+          )}
+          {canManage && canPerformAction(order, 'delete') && (
+            <button
+              onClick={() => handleDeleteOrder(order)}
+              className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-red-600"
+              title="Delete draft"
+            >
+              <TrashIcon className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+      )
+    }
+  ];
+
+  const supplierColumns: Column<Supplier>[] = [
+    {
+      key: 'name',
+      title: 'Supplier',
+      sortable: true,
+      render: (value, supplier) => (
+        <div>
+          <div className="font-medium text-gray-900">{value}</div>
+          {supplier.account_number && <div className="text-xs text-gray-500">Account {supplier.account_number}</div>}
+        </div>
+      )
+    },
+    {
+      key: 'contact_name',
+      title: 'Contact',
+      render: (_value, supplier) => (
+        <div className="text-sm">
+          <div className="text-gray-900">{supplier.contact_name || '—'}</div>
+          <div className="text-xs text-gray-500">{[supplier.email, supplier.phone].filter(Boolean).join(' · ')}</div>
+        </div>
+      )
+    },
+    {
+      key: 'payment_terms',
+      title: 'Terms',
+      render: (value) => value || <span className="text-gray-300">—</span>
+    },
+    {
+      key: 'lead_time_days',
+      title: 'Lead Time',
+      sortable: true,
+      render: (value) => (value != null ? `${value} day${value === 1 ? '' : 's'}` : <span className="text-gray-300">—</span>)
+    },
+    {
+      key: 'active',
+      title: 'Status',
+      render: (value) => <Badge color={value ? 'green' : 'gray'} size="sm">{value ? 'Active' : 'Inactive'}</Badge>
+    },
+    ...(canManage ? [{
+      key: 'actions',
+      title: '',
+      render: (_value: unknown, supplier: Supplier) => (
+        <div className="flex items-center justify-end space-x-1">
+          <button
+            onClick={() => setSupplierModal({ isOpen: true, supplier })}
+            className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-blue-600"
+            title="Edit supplier"
+          >
+            <PencilIcon className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => handleDeleteSupplier(supplier)}
+            className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-red-600"
+            title="Delete supplier"
+          >
+            <TrashIcon className="h-4 w-4" />
+          </button>
+        </div>
+      )
+    }] : [])
+  ];
+
+  if (!storeId) {
+    return (
+      <div className="p-6">
+        <PageHeader title="Purchasing" description="Suppliers, purchase orders and receiving" />
+        <div className="bg-white rounded-lg border border-gray-200 p-10 text-center text-gray-500">
+          Select a store to manage its purchasing
+        </div>
+      </div>
+    );
+  }
+
+  const tabClass = (tab: PurchasingTab) => `${
+    activeTab === tab
+      ? 'border-blue-500 text-blue-600'
+      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+  } whitespace-nowrap py-2 px-1 border-b-2 font-medium text-sm flex items-center space-x-2`;
+
+  return (
+    <div className="p-6">
+      <PageHeader title="Purchasing" description="Suppliers, purchase orders and receiving">
+        {canManage && (
+          <div className="flex items-center space-x-3">
+            <Button variant="outline" onClick={() => setSupplierModal({ isOpen: true, supplier: null })} className="flex items-center space-x-2">
+              <BuildingStorefrontIcon className="w-5 h-5" />
+              <span>Add Supplier</span>
+            </Button>
+            <Button
+              onClick={() => setOrderModal({ isOpen: true, order: null })}
+              disabled={stats.suppliers === 0 || items.length === 0}
+              className="flex items-center space-x-2"
+            >
+              <PlusIcon className="w-5 h-5" />
+              <span>New Purchase Order</span>
+            </Button>
+          </div>
+        )}
+      </PageHeader>
+
+      {/* Quick Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-6">
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <div className="flex items-center">
+            <ClipboardDocumentListIcon className="h-8 w-8 text-gray-500" />
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600">Drafts</p>
+              <p className="text-2xl font-bold text-gray-900">{stats.drafts}</p>
+            </div>
+          </div>
+        </div>
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <div className="flex items-center">
+            <TruckIcon className="h-8 w-8 text-blue-600" />
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600">Awaiting Delivery</p>
+              <p className="text-2xl font-bold text-gray-900">{stats.open}</p>
+            </div>
+          </div>
+        </div>
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <div className="flex items-center">
+            <ArrowDownTrayIcon className="h-8 w-8 text-green-600" />
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600">On Order Value</p>
+              <p className="text-2xl font-bold text-gray-900">{formatCurrency(stats.openValue)}</p>
+            </div>
+          </div>
+        </div>
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <div className="flex items-center">
+            <BuildingStorefrontIcon className="h-8 w-8 text-purple-600" />
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600">Active Suppliers</p>
+              <p className="text-2xl font-bold text-gray-900">{stats.suppliers}</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Tabs */}
+      <div className="mb-6">
+        <nav className="flex space-x-8" aria-label="Tabs">
+          <button onClick={() => setActiveTab('orders')} className={tabClass('orders')}>
+            <ClipboardDocumentListIcon className="h-4 w-4" />
+            <span>Purchase Orders</span>
+          </button>
+          <button onClick={() => setActiveTab('reorder')} className={tabClass('reorder')}>
+            <TruckIcon className="h-4 w-4" />
+            <span>Reorder</span>
+            {suggestions.length > 0 && (
+              <span className="ml-1 rounded-full bg-yellow-100 px-2 py-0.5 text-xs font-semibold text-yellow-800">{suggestions.length}</span>
+            )}
+          </button>
+          <button onClick={() => setActiveTab('suppliers')} className={tabClass('suppliers')}>
+            <BuildingStorefrontIcon className="h-4 w-4" />
+            <span>Suppliers</span>
+          </button>
+        </nav>
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      )}
+
+      {activeTab === 'orders' && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {(['open', 'draft', 'sent', 'partially_received', 'received', 'cancelled', 'all'] as const).map(status => (
+              <button
+                key={status}
+                onClick={() => setStatusFilter(status)}
+                className={`rounded-full px-3 py-1 text-sm font-medium ${
+                  statusFilter === status ? 'bg-blue-600 text-white' : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {status === 'open' ? 'Open' : status === 'all' ? 'All' : PO_STATUS_LABELS[status]}
+              </button>
+            ))}
+          </div>
+          <DataTable
+            data={filteredOrders}
+            columns={orderColumns}
+            loading={isLoading}
+            searchable={true}
+            searchPlaceholder="Search purchase orders..."
+            searchFields={['po_number', 'notes']}
+            pagination={true}
+            pageSize={25}
+            defaultSort={{ key: 'po_number', direction: 'desc' }}
+          />
+        </div>
+      )}
+
+      {activeTab === 'reorder' && (
+        <ReorderSuggestionsPanel
+          suggestions={suggestions}
+          suppliers={suppliers}
+          formatCurrency={formatCurrency}
+          onCreateDrafts={handleCreateDrafts}
+          disabled={!canManage || isLoading || inventoryLoading}
+        />
+      )}
+
+      {activeTab === 'suppliers' && (
+        <DataTable
+          data={suppliers}
+          columns={supplierColumns}
+          loading={isLoading}
+          searchable={true}
+          searchPlaceholder="Search suppliers..."
+          searchFields={['name', 'contact_name', 'email', 'account_number']}
+          pagination={true}
+          pageSize={25}
+          defaultSort={{ key: 'name', direction: 'asc' }}
+        />
+      )}
+
+      <PurchaseOrderFormModal
+        isOpen={orderModal.isOpen}
+        onClose={() => setOrderModal({ isOpen: false, order: null })}
+        order={orderModal.order}
+        suppliers={suppliers}
+        items={items}
+        formatCurrency={formatCurrency}
+        onSave={handleSaveOrder}
+      />
+
+      <ReceivePurchaseOrderModal
+        isOpen={Boolean(receivingOrder)}
+        onClose={() => setReceivingOrder(null)}
+        order={receivingOrder}
+        formatCurrency={formatCurrency}
+        onReceive={handleReceive}
+      />
+
+      <SupplierFormModal
+        isOpen={supplierModal.isOpen}
+        onClose={() => setSupplierModal({ isOpen: false, supplier: null })}
+        supplier={supplierModal.supplier}
+        onSave={handleSaveSupplier}
+      />
+
+      <ConfirmDialog
+        isOpen={confirmDialog.dialogState.isOpen}
+        onClose={confirmDialog.closeDialog}
+        onConfirm={confirmDialog.handleConfirm}
+        title={confirmDialog.dialogState.title}
+        message={confirmDialog.dialogState.message}
+        confirmText={confirmDialog.dialogState.confirmText}
+        cancelText={confirmDialog.dialogState.cancelText}
+        variant={confirmDialog.dialogState.variant}
+        isLoading={confirmDialog.dialogState.isLoading}
+      />
+    </div>
+  );
+};
+
+export default Purchasing;
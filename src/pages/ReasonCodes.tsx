@@ -457,7 +457,8 @@ const categoryOptions: MultipleDropdownSearchOption[] = [
   { id: 'DISCOUNT_OVERRIDE', label: 'Discount Override', description: 'Reason required when overriding a discount rule' },
   { id: 'REPRINT_RECEIPT', label: 'Reprint Receipt', description: 'Reason required when reprinting a receipt for auditing' },
   { id: 'EXCHANGE_ITEM', label: 'Exchange Item', description: 'Reason required when exchanging an item for another' },
-  { id: 'MANUAL_ENTRY', label: 'Manual Entry', description: 'Reason required when item is entered manually without scan' }
+  { id: 'MANUAL_ENTRY', label: 'Manual Entry', description: 'Reason required when item is entered manually without scan' },
+  { id: 'TIMESHEET_EDIT', label: 'Timesheet Edit', description: 'Reason required when a manager edits clocked time' }
 ];
 
 
@@ -1,207 +1,27 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import { 
   CogIcon, 
   DocumentTextIcon, 
   PlayIcon,
   ArrowsPointingOutIcon,
-  ArrowsPointingInIcon
+  ArrowsPointingInIcon,
+  CodeBracketIcon,
+  Squares2X2Icon
 } from '@heroicons/react/24/outline';
 import { JsonViewerEditor, ResizablePanels, DropdownSearch, Button } from '../components/ui';
-import { ReceiptViewer } from '../components/receipt';
+import { ReceiptViewer, ReceiptDesigner, EscPosPreview } from '../components/receipt';
+import type { ReceiptPaperSize } from '../components/receipt/receiptDesignerUtils';
 import type { ReceiptElement } from '../types/receipt';
+import type { PrinterConfig } from '../types/hardware.types';
+import { getDefaultPrinterConfig } from '../constants/hardware.options';
+import { buildReceipt, type ReceiptTemplates } from '../services/receipt/receiptTemplateEngine';
+import { storeSettingsService } from '../services/store/storeSettingsService';
+import useTenantStore from '../tenants/tenantStore';
 
 interface ReceiptBuilderProps {}
 
-// Receipt builder helper functions (TypeScript version of Dart logic)
-class ReceiptBuilderHelper {
-  private static parseTemplate(template: string, data: any): string {
-    const regex = /\{\{\s*([\w\.]+)((?:\s*\|\s*[\w]+(?::[^|}]+)?)*)\s*\}\}/g;
-
-    return template.replace(regex, (match, path, operations) => {
-      let value = this.resolvePath(data, path.split('.'));
-      value = value ?? path;
-
-      if (operations && operations.trim()) {
-        const ops = operations
-          .split('|')
-          .map((op: string) => op.trim())
-          .filter((op: string) => op);
-
-        for (const op of ops) {
-          const parts = op.split(':');
-          const opName = parts[0];
-          const opArg = parts.length > 1 ? parts[1] : null;
-
-          switch (opName) {
-            case 'default':
-              if (value == null || value.toString() === '') {
-                value = opArg;
-              }
-              break;
-
-            case 'padLeft':
-              const leftArgs = (opArg || '').split(',');
-              const leftWidth = parseInt(leftArgs[0]);
-              const leftPadChar = leftArgs.length > 1 ? leftArgs[1] : ' ';
-              if (!isNaN(leftWidth) && value != null) {
-                value = value.toString().padStart(leftWidth, leftPadChar);
-              }
-              break;
-
-            case 'padRight':
-              const rightArgs = (opArg || '').split(',');
-              const rightWidth = parseInt(rightArgs[0]);
-              const rightPadChar = rightArgs.length > 1 ? rightArgs[1] : ' ';
-              if (!isNaN(rightWidth) && value != null) {
-                value = value.toString().padEnd(rightWidth, rightPadChar);
-              }
-              break;
-
-            case 'fit':
-              const fitArgs = (opArg || '').split(',');
-              const fitWidth = parseInt(fitArgs[0]);
-              const align = fitArgs.length > 1 ? fitArgs[1] : 'left';
-              if (!isNaN(fitWidth) && value != null) {
-                let str = value.toString();
-                if (str.length > fitWidth) {
-                  value = str.substring(0, fitWidth);
-                } else {
-                  const pad = fitWidth - str.length;
-                  switch (align) {
-                    case 'right':
-                      value = str.padStart(fitWidth);
-                      break;
-                    case 'center':
-                      const left = Math.floor(pad / 2);
-                      const right = pad - left;
-                      value = ' '.repeat(left) + str + ' '.repeat(right);
-                      break;
-                    default: // left
-                      value = str.padEnd(fitWidth);
-                  }
-                }
-              }
-              break;
-
-            case 'format':
-              if (opArg === 'datetime' && value) {
-                try {
-                  const date = new Date(value);
-                  value = date.toLocaleString();
-                } catch (e) {
-                  // Keep original value if parsing fails
-                }
-              }
-              break;
-          }
-        }
-      }
-
-      return value?.toString() || match;
-    });
-  }
-
-  private static resolvePath(data: any, pathSegments: string[]): any {
-    let current = data;
-    for (const segment of pathSegments) {
-      if (current && typeof current === 'object') {
-        current = current[segment];
-      } else {
-        return null;
-      }
-    }
-    return current;
-  }
-
-  static buildReceiptData(
-    receiptConfig: any,
-    data: any,
-    allConfigs: Record<string, any> = {}
-  ): ReceiptElement[] {
-    const receiptElements: ReceiptElement[] = [];
-
-    if (!receiptConfig.rows) {
-      return receiptElements;
-    }
-
-    for (const element of receiptConfig.rows) {
-      if (element.type === 'sectionref') {
-        if (allConfigs[element.ref]) {
-          const subSection = this.buildReceiptData(
-            allConfigs[element.ref],
-            data,
-            allConfigs
-          );
-          receiptElements.push(...subSection);
-        }
-      } else if (element.type === 'text') {
-        const evaluatedText = this.parseTemplate(element.text, data);
-        receiptElements.push({
-          type: 'text',
-          text: evaluatedText,
-          align: element.align,
-          flex: element.flex,
-        });
-      } else if (element.type === 'iterator') {
-        const dataList = this.resolvePath(data, element.path.split('.')) || [];
-        if (Array.isArray(dataList)) {
-          for (const item of dataList) {
-            const elements = this.buildReceiptData(
-              {
-                type: 'section',
-                conditions: [],
-                rows: element.rows,
-              },
-              item,
-              allConfigs
-            );
-            receiptElements.push(...elements);
-          }
-        }
-      } else if (element.type === 'barcode') {
-        const evaluatedCode = this.parseTemplate(element.code, data);
-        receiptElements.push({
-          type: 'barcode',
-          code: evaluatedCode,
-          barcode_type: element.barcode_type,
-        });
-      } else if (element.type === 'row') {
-        const childElements = this.buildReceiptData(
-          {
-            type: 'section',
-            conditions: [],
-            rows: element.children,
-          },
-          data,
-          allConfigs
-        );
-        receiptElements.push({
-          type: 'row',
-          children: childElements,
-        });
-      } else {
-        receiptElements.push(element);
-      }
-    }
-    return receiptElements;
-  }
-
-  static buildReceipt(
-    receiptConfigKey: string,
-    receiptConfigs: Record<string, any>,
-    data: any
-  ): ReceiptElement[] {
-    if (!receiptConfigs[receiptConfigKey]) {
-      console.warn(`Receipt config not found for key: ${receiptConfigKey}`);
-      return [];
-    }
-
-    const receiptConfig = receiptConfigs[receiptConfigKey];
-    return this.buildReceiptData(receiptConfig, data, receiptConfigs);
-  }
-}
-
 const ReceiptBuilder: React.FC<ReceiptBuilderProps> = () => {
+  const { currentStore } = useTenantStore();
   const [receiptConfigJson, setReceiptConfigJson] = useState('');
   const [receiptDataJson, setReceiptDataJson] = useState('');
   const [selectedSection, setSelectedSection] = useState('StoreCopy');
@@ -209,6 +29,38 @@ const ReceiptBuilder: React.FC<ReceiptBuilderProps> = () => {
   const [error, setError] = useState<string | null>(null);
   const [isJsonValid, setIsJsonValid] = useState({ config: true, data: true });
   const [isFullScreen, setIsFullScreen] = useState(false);
+  const [viewMode, setViewMode] = useState<'visual' | 'code'>('visual');
+  const [printerConfig, setPrinterConfig] = useState<PrinterConfig>(() => getDefaultPrinterConfig('thermal'));
+
+  // The designer preview and the ESC/POS output share the printer's paper width
+  const paperSize: ReceiptPaperSize = printerConfig.paper === '58mm' ? 'thermal_58mm' : 'thermal_80mm';
+  const handlePaperSizeChange = useCallback((size: ReceiptPaperSize) => {
+    setPrinterConfig(prev => ({ ...prev, paper: size === 'thermal_58mm' ? '58mm' : '80mm' }));
+  }, []);
+
+  // Start from the store's receipt paper size; A4/letter stores keep the thermal default
+  useEffect(() => {
+    const storeId = currentStore?.store_id;
+    if (!storeId) return;
+
+    let cancelled = false;
+    const loadPaperSize = async () => {
+      try {
+        const settings = await storeSettingsService.getSettings(storeId);
+        const storePaperSize = settings?.receipt_settings?.paper_size;
+        if (!cancelled && (storePaperSize === 'thermal_58mm' || storePaperSize === 'thermal_80mm')) {
+          handlePaperSizeChange(storePaperSize);
+        }
+      } catch (error) {
+        console.error('Failed to load store receipt settings:', error);
+      }
+    };
+
+    loadPaperSize();
+    return () => {
+      cancelled = true;
+    };
+  }, [currentStore?.store_id, handlePaperSizeChange]);
 
   // Load sample data on mount
   useEffect(() => {
@@ -267,7 +119,7 @@ const ReceiptBuilder: React.FC<ReceiptBuilderProps> = () => {
       const receiptConfig = JSON.parse(receiptConfigJson);
       const receiptData = JSON.parse(receiptDataJson);
 
-      const receipt = ReceiptBuilderHelper.buildReceipt(
+      const receipt = buildReceipt(
         selectedSection,
         receiptConfig,
         receiptData
@@ -288,6 +140,29 @@ const ReceiptBuilder: React.FC<ReceiptBuilderProps> = () => {
     }
   }, [receiptConfigJson, receiptDataJson, selectedSection, generateReceipt, isJsonValid]);
 
+  // The configuration JSON stays the source of truth; the visual designer edits a parsed copy
+  const parsedTemplates = useMemo<ReceiptTemplates | null>(() => {
+    if (!receiptConfigJson || !isJsonValid.config) return null;
+    try {
+      return JSON.parse(receiptConfigJson);
+    } catch {
+      return null;
+    }
+  }, [receiptConfigJson, isJsonValid.config]);
+
+  const parsedData = useMemo<unknown>(() => {
+    if (!receiptDataJson || !isJsonValid.data) return {};
+    try {
+      return JSON.parse(receiptDataJson);
+    } catch {
+      return {};
+    }
+  }, [receiptDataJson, isJsonValid.data]);
+
+  const handleDesignerChange = useCallback((templates: ReceiptTemplates) => {
+    handleConfigChange(JSON.stringify(templates, null, 2));
+  }, [handleConfigChange]);
+
   // Get available sections from config
   const getAvailableSections = () => {
     try {
@@ -341,7 +216,7 @@ const ReceiptBuilder: React.FC<ReceiptBuilderProps> = () => {
         <div>
           <h1 className="text-xl font-bold text-gray-900">Receipt Builder</h1>
           <p className="text-sm text-gray-600">
-            Build and preview receipts using JSON configuration
+            Design receipts visually or edit the JSON configuration directly
           </p>
         </div>
         <div className="flex items-center space-x-3">
@@ -355,6 +230,26 @@ const ReceiptBuilder: React.FC<ReceiptBuilderProps> = () => {
               buttonClassName="!w-[512px] min-w-[512px] max-w-[512px]"
             />
           </div>
+          <div className="flex rounded-md border border-gray-300 overflow-hidden">
+            <button
+              onClick={() => setViewMode('visual')}
+              className={`inline-flex items-center px-3 py-2 text-sm font-medium ${
+                viewMode === 'visual' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              <Squares2X2Icon className="h-4 w-4 mr-2" />
+              Visual
+            </button>
+            <button
+              onClick={() => setViewMode('code')}
+              className={`inline-flex items-center px-3 py-2 text-sm font-medium ${
+                viewMode === 'code' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              <CodeBracketIcon className="h-4 w-4 mr-2" />
+              Code
+            </button>
+          </div>
           <Button
             variant="outline"
             size="sm"
@@ -396,6 +291,30 @@ const ReceiptBuilder: React.FC<ReceiptBuilderProps> = () => {
         </div>
       )}
 
+      {viewMode === 'visual' && (
+        parsedTemplates ? (
+          <div className={isFullScreen ? 'flex-1 overflow-auto' : ''}>
+            <ReceiptDesigner
+              templates={parsedTemplates}
+              sectionKey={selectedSection}
+              data={parsedData}
+              paperSize={paperSize}
+              onPaperSizeChange={handlePaperSizeChange}
+              onChange={handleDesignerChange}
+            />
+          </div>
+        ) : (
+          <div className="border-2 border-dashed border-gray-300 rounded-lg p-12 text-center">
+            <CogIcon className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">Configuration Not Available</h3>
+            <p className="mt-1 text-sm text-gray-500">
+              The receipt configuration JSON is invalid. Switch to the code view to fix it.
+            </p>
+          </div>
+        )
+      )}
+
+      {viewMode === 'code' && (
       <div className={`grid grid-cols-1 ${isFullScreen ? 'lg:grid-cols-2 h-full' : 'lg:grid-cols-2'} gap-4 ${isFullScreen ? 'flex-1 overflow-hidden' : ''}`}>
         {/* JSON Editors Section */}
         <div className={`${isFullScreen ? 'flex-1 overflow-hidden flex flex-col' : ''}`}>
@@ -463,8 +382,19 @@ const ReceiptBuilder: React.FC<ReceiptBuilderProps> = () => {
         </div>
       </div>
 
-      {/* Generated JSON Display */}
+      )}
+
+      {/* ESC/POS bytes for the generated receipt */}
       {generatedReceipt.length > 0 && !isFullScreen && (
+        <EscPosPreview
+          elements={generatedReceipt}
+          printerConfig={printerConfig}
+          onPrinterConfigChange={setPrinterConfig}
+        />
+      )}
+
+      {/* Generated JSON Display */}
+      {viewMode === 'code' && generatedReceipt.length > 0 && !isFullScreen && (
         <JsonViewerEditor
           value={JSON.stringify(generatedReceipt, null, 2)}
           onChange={() => {}} // Read-only
@@ -3,15 +3,23 @@ import { useNavigate } from 'react-router-dom';
 import { 
   MagnifyingGlassIcon,
   FunnelIcon,
+  ArrowDownTrayIcon,
 } from '@heroicons/react/24/outline';
 import { useTenantStore } from '../tenants/tenantStore';
-import { Button, Loading, Alert, Badge, PageHeader, PageContainer, AdvancedSearchFilter } from '../components/ui';
+import { Button, Loading, Alert, Badge, PageHeader, PageContainer, AdvancedSearchFilter, PermissionGuard } from '../components/ui';
 import type { FilterConfig } from '../components/ui';
 import DataTable, { type Column } from '../components/ui/DataTable';
-import { transactionService, type ConvertedSale, type TransactionQueryParams } from '../services/transaction';
+import {
+  transactionService,
+  fetchAllTransactionSummaries,
+  type ConvertedSale,
+  type TransactionQueryParams,
+  type TransactionSummary
+} from '../services/transaction';
 import { AdvancedFilter, type AdvancedFilterState } from '../components/filters/AdvancedFilter';
 import type { DropdownSearchOption } from '../components/ui/DropdownSearch';
 import { formattingService } from '../services/formatting';
+import { TransactionExportModal } from '../components/sales';
 
 // Use ConvertedSale from transaction service
 type Sale = ConvertedSale;
@@ -25,6 +33,8 @@ const Sales: React.FC = () => {
   const [hasNextPage, setHasNextPage] = useState(false);
   const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [selectedTransactions, setSelectedTransactions] = useState<Set<string>>(new Set());
+  const [transactionSummaries, setTransactionSummaries] = useState<TransactionSummary[]>([]);
+  const [showExportModal, setShowExportModal] = useState(false);
   
   // Simple search state
   const [searchTerm, setSearchTerm] = useState('');
@@ -47,6 +57,37 @@ const Sales: React.FC = () => {
     message: string;
   }>({ type: null, message: '' });
 
+  // Build API query parameters from the current filters
+  const buildQueryParams = (): TransactionQueryParams => {
+    const queryParams: TransactionQueryParams = {};
+    
+    // Add date range
+    const dateRange = transactionService.getDateRange(advancedFilters.dateFilter);
+    if (dateRange.start_date) {
+      queryParams.start_date = dateRange.start_date;
+    }
+    if (dateRange.end_date) {
+      queryParams.end_date = dateRange.end_date;
+    }
+    
+    // Handle custom date range
+    if (advancedFilters.dateFilter === 'custom' && advancedFilters.customDateRange.start && advancedFilters.customDateRange.end) {
+      queryParams.start_date = advancedFilters.customDateRange.start;
+      queryParams.end_date = advancedFilters.customDateRange.end;
+    }
+    
+    // Add filters based on current state
+    if (advancedFilters.statusFilter !== 'all') {
+      queryParams.filter_type = 'status';
+      queryParams.value = advancedFilters.statusFilter;
+    } else if (advancedFilters.cashierFilter !== 'all') {
+      queryParams.filter_type = 'cashier';
+      queryParams.value = advancedFilters.cashierFilter;
+    }
+
+    return queryParams;
+  };
+
   // API Integration - Fetch transactions from API
   const fetchTransactions = async () => {
     if (!currentTenant || !currentStore) {
@@ -66,31 +107,7 @@ const Sales: React.FC = () => {
       });
 
       // Build query parameters based on current filters
-      const queryParams: TransactionQueryParams = {};
-      
-      // Add date range
-      const dateRange = transactionService.getDateRange(advancedFilters.dateFilter);
-      if (dateRange.start_date) {
-        queryParams.start_date = dateRange.start_date;
-      }
-      if (dateRange.end_date) {
-        queryParams.end_date = dateRange.end_date;
-      }
-      
-      // Handle custom date range
-      if (advancedFilters.dateFilter === 'custom' && advancedFilters.customDateRange.start && advancedFilters.customDateRange.end) {
-        queryParams.start_date = advancedFilters.customDateRange.start;
-        queryParams.end_date = advancedFilters.customDateRange.end;
-      }
-      
-      // Add filters based on current state
-      if (advancedFilters.statusFilter !== 'all') {
-        queryParams.filter_type = 'status';
-        queryParams.value = advancedFilters.statusFilter;
-      } else if (advancedFilters.cashierFilter !== 'all') {
-        queryParams.filter_type = 'cashier';
-        queryParams.value = advancedFilters.cashierFilter;
-      }
+      const queryParams = buildQueryParams();
 
       // Fetch data from API
       const response = await transactionService.getTransactionSummary(
@@ -104,6 +121,7 @@ const Sales: React.FC = () => {
       );
       
       setSales(convertedSales);
+      setTransactionSummaries(response.datalist);
       setHasNextPage(!!response.next);
       setNextCursor(response.next);
       
@@ -173,30 +191,9 @@ const Sales: React.FC = () => {
 
       // Build query parameters with cursor for pagination
       const queryParams: TransactionQueryParams = {
+        ...buildQueryParams(),
         cursor: nextCursor
       };
-      
-      // Add current filters
-      const dateRange = transactionService.getDateRange(advancedFilters.dateFilter);
-      if (dateRange.start_date) {
-        queryParams.start_date = dateRange.start_date;
-      }
-      if (dateRange.end_date) {
-        queryParams.end_date = dateRange.end_date;
-      }
-      
-      if (advancedFilters.dateFilter === 'custom' && advancedFilters.customDateRange.start && advancedFilters.customDateRange.end) {
-        queryParams.start_date = advancedFilters.customDateRange.start;
-        queryParams.end_date = advancedFilters.customDateRange.end;
-      }
-      
-      if (advancedFilters.statusFilter !== 'all') {
-        queryParams.filter_type = 'status';
-        queryParams.value = advancedFilters.statusFilter;
-      } else if (advancedFilters.cashierFilter !== 'all') {
-        queryParams.filter_type = 'cashier';
-        queryParams.value = advancedFilters.cashierFilter;
-      }
 
       // Fetch additional data
       let response;
@@ -216,6 +213,7 @@ const Sales: React.FC = () => {
       );
       
       setSales(prevSales => [...prevSales, ...newSales]);
+      setTransactionSummaries(prev => [...prev, ...response.datalist]);
       setHasNextPage(!!response.next);
       setNextCursor(response.next);
       
@@ -249,7 +247,7 @@ const Sales: React.FC = () => {
   };
 
   // Enhanced filtering logic (client-side for additional filters not supported by API)
-  const filteredSales = sales.filter(sale => {
+  const matchesClientFilters = (sale: Sale) => {
     // Search filter
     const matchesSearch = searchTerm === '' || 
       sale.saleNumber.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -271,7 +269,21 @@ const Sales: React.FC = () => {
       (!advancedFilters.amountRangeFilter.max || sale.total <= parseFloat(advancedFilters.amountRangeFilter.max));
     
     return matchesSearch && matchesPaymentStatus && matchesPaymentMethod && matchesAmountRange;
-  });
+  };
+
+  const filteredSales = sales.filter(matchesClientFilters);
+
+  // Summaries for every transaction matching the filters, including pages not loaded yet
+  const loadFilteredSummaries = async (): Promise<TransactionSummary[]> => {
+    let summaries = transactionSummaries;
+    if (hasNextPage && nextCursor && currentStore) {
+      const remaining = await fetchAllTransactionSummaries(currentStore.store_id, buildQueryParams(), nextCursor);
+      summaries = [...summaries, ...remaining];
+    }
+    return summaries.filter(summary => matchesClientFilters(transactionService.convertTransactionToSale(summary)));
+  };
+
+  const selectedSummaries = transactionSummaries.filter(summary => selectedTransactions.has(summary.trans_id));
 
   // Get unique cashiers for filter
   const getUniqueCashiers = (): DropdownSearchOption[] => {
@@ -583,14 +595,26 @@ const Sales: React.FC = () => {
           onClearAll={handleClearAllFilters}
           className="mb-6"
           additionalActions={
-            <Button
-              variant="outline"
-              onClick={() => setShowAdvancedFilters(true)}
-              className="text-sm"
-            >
-              <FunnelIcon className="h-4 w-4 mr-2" />
-              More Filters
-            </Button>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                onClick={() => setShowAdvancedFilters(true)}
+                className="text-sm"
+              >
+                <FunnelIcon className="h-4 w-4 mr-2" />
+                More Filters
+              </Button>
+              <PermissionGuard requiredPermissions={['reports_sales', 'reports_financial']}>
+                <Button
+                  variant="outline"
+                  onClick={() => setShowExportModal(true)}
+                  className="text-sm"
+                >
+                  <ArrowDownTrayIcon className="h-4 w-4 mr-2" />
+                  {selectedTransactions.size > 0 ? `Export (${selectedTransactions.size})` : 'Export'}
+                </Button>
+              </PermissionGuard>
+            </div>
           }
         />
 
@@ -632,6 +656,19 @@ const Sales: React.FC = () => {
         cashierOptions={getUniqueCashiers()}
         showCashierFilter={true}
       />
+
+      {/* Export Modal */}
+      {currentStore && (
+        <TransactionExportModal
+          isOpen={showExportModal}
+          onClose={() => setShowExportModal(false)}
+          storeId={currentStore.store_id}
+          selectedSummaries={selectedSummaries}
+          filteredCount={filteredSales.length}
+          hasMorePages={hasNextPage}
+          loadFilteredSummaries={loadFilteredSummaries}
+        />
+      )}
     </PageContainer>
   );
 };
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { 
   ArrowLeftIcon, 
@@ -16,10 +16,32 @@ import {
 } from '@heroicons/react/24/outline';
 import { Button, Card, PageHeader, Loading, PageContainer, H3, H4, H5, Body1, Body2, Label, Caption } from '../components/ui';
 import { EnhancedTabs, TabsContent } from '../components/ui/Tabs';
-import { ReceiptViewer } from '../components/receipt';
+import { ReceiptViewer, printReceiptElements, type ReceiptRenderOptions } from '../components/receipt';
 import { useTenantStore } from '../tenants/tenantStore';
 import { transactionService, type TransactionDetail, fromScaledInt } from '../services/transaction';
 import { formattingService } from '../services/formatting';
+import { buildReceipt, type ReceiptTemplates } from '../services/receipt/receiptTemplateEngine';
+import { toReceiptTemplateData } from '../services/receipt/receiptTemplateData';
+
+// Same configuration the receipt designer loads, so reprints match the designer preview
+const RECEIPT_TEMPLATES_URL = '/receipt-config.json';
+const REPRINT_SECTION = 'StoreCopy';
+
+const RECEIPT_RENDER_OPTIONS: ReceiptRenderOptions = {
+  width: 300,
+  fontSize: 11,
+  fontFamily: 'monospace',
+  showBorders: true,
+  padding: 12
+};
+
+const loadReceiptTemplates = async (): Promise<ReceiptTemplates> => {
+  const response = await fetch(RECEIPT_TEMPLATES_URL);
+  if (!response.ok) {
+    throw new Error(`Failed to load receipt templates (${response.status})`);
+  }
+  return response.json();
+};
 
 const SalesDetail: React.FC = () => {
   const { transId } = useParams<{ transId: string }>();
@@ -30,6 +52,8 @@ const SalesDetail: React.FC = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState('items');
+  const [receiptTemplates, setReceiptTemplates] = useState<ReceiptTemplates | null>(null);
+  const [isPrinting, setIsPrinting] = useState(false);
 
   useEffect(() => {
     if (transId) {
@@ -111,9 +135,32 @@ const SalesDetail: React.FC = () => {
     }
   };
 
-  const handlePrintReceipt = () => {
-    console.log('Printing receipt for transaction:', transId);
-    alert(`Printing receipt for transaction ${transId}`);
+  const getReceiptTemplates = useCallback(async (): Promise<ReceiptTemplates> => {
+    if (receiptTemplates) return receiptTemplates;
+    const templates = await loadReceiptTemplates();
+    setReceiptTemplates(templates);
+    return templates;
+  }, [receiptTemplates]);
+
+  // Load templates up front so stored documents with template rows render in the Receipts tab
+  useEffect(() => {
+    getReceiptTemplates().catch(error => console.error('❌ Error loading receipt templates:', error));
+  }, [getReceiptTemplates]);
+
+  const handlePrintReceipt = async () => {
+    if (!transaction) return;
+
+    try {
+      setIsPrinting(true);
+      const templates = await getReceiptTemplates();
+      const elements = buildReceipt(REPRINT_SECTION, templates, toReceiptTemplateData(transaction, currentStore, true));
+      await printReceiptElements(elements, RECEIPT_RENDER_OPTIONS, `${transaction.trans_seq}_reprint`);
+    } catch (error) {
+      console.error('❌ Error reprinting receipt:', error);
+      alert('Error generating receipt for printing. Please try again.');
+    } finally {
+      setIsPrinting(false);
+    }
   };
 
   // Tab configuration
@@ -194,9 +241,10 @@ const SalesDetail: React.FC = () => {
           <Button
             variant="primary"
             onClick={handlePrintReceipt}
+            disabled={isPrinting}
           >
             <PrinterIcon className="w-4 h-4 mr-2" />
-            Print Receipt
+            {isPrinting ? 'Printing...' : 'Print Receipt'}
           </Button>
         </div>
       </PageHeader>
@@ -444,13 +492,9 @@ const SalesDetail: React.FC = () => {
               {transaction.documents && transaction.documents.length > 0 ? (
                 <ReceiptViewer 
                   documents={transaction.documents}
-                  renderOptions={{
-                    width: 300,
-                    fontSize: 11,
-                    fontFamily: 'monospace',
-                    showBorders: true,
-                    padding: 12
-                  }}
+                  renderOptions={RECEIPT_RENDER_OPTIONS}
+                  templates={receiptTemplates ?? undefined}
+                  templateData={toReceiptTemplateData(transaction, currentStore, false)}
                   showCopyButton={false}
                   printButtonText="Print All"
                   transactionId={transaction.trans_seq}
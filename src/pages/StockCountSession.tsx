@@ -0,0 +1,279 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeftIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
+import { PageHeader, Button, Badge } from '../components/ui';
+import {
+  CountScanInput,
+  StockCountLinesTable,
+  PostStockCountModal,
+  STOCK_COUNT_STATUS_LABELS,
+  STOCK_COUNT_STATUS_COLORS
+} from '../components/stock-count';
+import type { ScanFeedback } from '../components/stock-count';
+import {
+  stockCountService,
+  describeScope,
+  findLineByCode,
+  getLineVariance,
+  summarizeCount
+} from '../services/stock-count';
+import type {
+  ParsedCountEntry,
+  PostStockCountRequest,
+  StockCount,
+  StockCountLine
+} from '../services/stock-count';
+import { INVENTORY_REASON_CATEGORY } from '../services/inventory';
+import { hardwareService } from '../services/hardware/hardware.service';
+import type { ScannerConfig } from '../types/hardware.types';
+import { useCategories } from '../hooks/useCategories';
+import { useReasonCodes } from '../hooks/useReasonCodes';
+import { useError } from '../hooks/useError';
+import { useTenantStore } from '../tenants/tenantStore';
+import { usePermissions } from '../utils/permissions';
+import { useCurrencyFormatter } from '../utils/currencyUtils';
+
+type LineFilter = 'all' | 'uncounted' | 'variance';
+
+const StockCountSession: React.FC = () => {
+  const { countId } = useParams<{ countId: string }>();
+  const navigate = useNavigate();
+  const { currentTenant, currentStore } = useTenantStore();
+  const { showError, showSuccess } = useError();
+  const { hasPermission } = usePermissions();
+  const formatCurrency = useCurrencyFormatter();
+  const storeId = currentStore?.store_id;
+
+  const [count, setCount] = useState<StockCount | null>(null);
+  const [lines, setLines] = useState<StockCountLine[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [showPost, setShowPost] = useState(false);
+  const [scannerConfigs, setScannerConfigs] = useState<ScannerConfig[]>([]);
+  const [lastScanned, setLastScanned] = useState<string | null>(null);
+  const [filter, setFilter] = useState<LineFilter>('all');
+  const [search, setSearch] = useState('');
+
+  const { categoryOptions } = useCategories({ tenantId: currentTenant?.id, storeId });
+  const { reasonCodes, getReasonCodesByCategory } = useReasonCodes({ tenantId: currentTenant?.id, storeId });
+  const inventoryReasons = useMemo(() => {
+    const categorized = getReasonCodesByCategory([INVENTORY_REASON_CATEGORY]);
+    return categorized.length > 0 ? categorized : reasonCodes.filter(code => code.active);
+  }, [reasonCodes, getReasonCodesByCategory]);
+
+  const isEditable = count?.status === 'in_progress' && hasPermission('inventory_adjust');
+
+  const loadCount = useCallback(async () => {
+    if (!storeId || !countId) return;
+    setIsLoading(true);
+    try {
+      const loaded = await stockCountService.getCount(storeId, countId);
+      setCount(loaded);
+      setLines(loaded.lines);
+      setDirty(false);
+    } catch (err) {
+      console.error('Failed to load stock count:', err);
+      showError('Failed to load stock count');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [storeId, countId, showError]);
+
+  useEffect(() => {
+    loadCount();
+  }, [loadCount]);
+
+  // Scanner prefixes/suffixes come from the store's configured scanners
+  useEffect(() => {
+    if (!storeId) return;
+    hardwareService.getDevicesByType(storeId, 'scanner')
+      .then(devices => setScannerConfigs(devices
+        .filter(device => device.enabled !== false && device.scanner_config)
+        .map(device => device.scanner_config as ScannerConfig)))
+      .catch(err => console.error('Failed to load scanner settings:', err));
+  }, [storeId]);
+
+  const updateCounted = (itemId: string, counted: number | null) => {
+    setLines(prev => prev.map(line => (line.item_id === itemId ? { ...line, counted_quantity: counted } : line)));
+    setDirty(true);
+  };
+
+  const handleEntry = (entry: ParsedCountEntry): ScanFeedback => {
+    const line = findLineByCode(lines, entry.code);
+    if (!line) {
+      return { ok: false, message: `${entry.code} is not part of this count` };
+    }
+
+    const counted = (line.counted_quantity ?? 0) + entry.quantity;
+    updateCounted(line.item_id, counted);
+    setLastScanned(line.item_id);
+    return { ok: true, message: `${line.item_name}: ${counted} counted` };
+  };
+
+  const handleSave = async () => {
+    if (!storeId || !count) return;
+    setSaving(true);
+    try {
+      const saved = await stockCountService.saveProgress(storeId, count.count_id, {
+        lines: lines.map(({ item_id, counted_quantity }) => ({ item_id, counted_quantity }))
+      });
+      setCount(saved);
+      setDirty(false);
+      showSuccess('Count progress saved');
+    } catch (err) {
+      console.error('Failed to save stock count:', err);
+      showError('Failed to save count progress');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePost = async (data: Omit<PostStockCountRequest, 'lines'>) => {
+    if (!storeId || !count) return;
+    try {
+      const result = await stockCountService.postCount(storeId, count.count_id, {
+        ...data,
+        lines: lines.map(({ item_id, counted_quantity }) => ({ item_id, counted_quantity }))
+      });
+      setCount(result.count);
+      setLines(result.count.lines);
+      setDirty(false);
+      showSuccess(`${result.count.count_number} posted: ${result.adjustments.length} adjustment(s)`);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to post stock count');
+      throw err;
+    }
+  };
+
+  const summary = useMemo(() => summarizeCount(lines), [lines]);
+  const categoryNames = useMemo(
+    () => new Map(categoryOptions.map(option => [option.id, option.label])),
+    [categoryOptions]
+  );
+
+  const visibleLines = lines.filter(line => {
+    if (filter === 'uncounted' && line.counted_quantity !== null) return false;
+    if (filter === 'variance' && !getLineVariance(line)) return false;
+    if (search) {
+      const term = search.toLowerCase();
+      return line.item_name.toLowerCase().includes(term) || line.item_id.toLowerCase().includes(term);
+    }
+    return true;
+  });
+
+  if (!count) {
+    return (
+      <div className="p-6">
+        <PageHeader title="Stock Count" description="Count entry and variance review" />
+        <div className="bg-white rounded-lg border border-gray-200 p-10 text-center text-gray-500">
+          {isLoading || !storeId ? 'Loading count...' : 'Stock count not found'}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <PageHeader title={count.name} description={`${count.count_number} · ${describeScope(count.scope, categoryNames)}`}>
+        <div className="flex items-center space-x-3">
+          <Button variant="outline" onClick={() => navigate('/stock-counts')} className="flex items-center space-x-2">
+            <ArrowLeftIcon className="w-5 h-5" />
+            <span>All Counts</span>
+          </Button>
+          {isEditable && (
+            <>
+              <Button variant="outline" onClick={handleSave} isLoading={saving} disabled={!dirty}>
+                {dirty ? 'Save Progress' : 'Saved'}
+              </Button>
+              <Button onClick={() => setShowPost(true)} disabled={summary.counted === 0} className="flex items-center space-x-2">
+                <CheckCircleIcon className="w-5 h-5" />
+                <span>Review &amp; Post</span>
+              </Button>
+            </>
+          )}
+        </div>
+      </PageHeader>
+
+      {/* Quick Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-6">
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <p className="text-sm font-medium text-gray-600">Status</p>
+          <div className="mt-2">
+            <Badge color={STOCK_COUNT_STATUS_COLORS[count.status]}>{STOCK_COUNT_STATUS_LABELS[count.status]}</Badge>
+          </div>
+        </div>
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <p className="text-sm font-medium text-gray-600">Counted</p>
+          <p className="text-2xl font-bold text-gray-900">{summary.counted} / {summary.total}</p>
+        </div>
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <p className="text-sm font-medium text-gray-600">Variances</p>
+          <p className="text-2xl font-bold text-gray-900">
+            {summary.variances}
+            <span className="ml-2 text-sm font-normal">
+              <span className="text-green-600">+{summary.units_over}</span> / <span className="text-red-600">-{summary.units_short}</span>
+            </span>
+          </p>
+        </div>
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <p className="text-sm font-medium text-gray-600">Value Impact</p>
+          <p className={`text-2xl font-bold ${summary.value_impact < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+            {formatCurrency(summary.value_impact)}
+          </p>
+        </div>
+      </div>
+
+      {isEditable && (
+        <div className="mb-6">
+          <CountScanInput scannerConfigs={scannerConfigs} onEntry={handleEntry} />
+        </div>
+      )}
+
+      <div className="mb-4 flex flex-wrap items-center gap-3">
+        {([
+          ['all', `All (${summary.total})`],
+          ['uncounted', `Not counted (${summary.uncounted})`],
+          ['variance', `Variances (${summary.variances})`]
+        ] as const).map(([value, label]) => (
+          <button
+            key={value}
+            onClick={() => setFilter(value)}
+            className={`rounded-full px-3 py-1 text-sm font-medium ${
+              filter === value ? 'bg-blue-600 text-white' : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Filter items..."
+          className="ml-auto rounded-md border border-gray-300 px-3 py-1.5 text-sm focus:border-blue-500 focus:outline-none"
+        />
+      </div>
+
+      <StockCountLinesTable
+        lines={visibleLines}
+        onCountChange={isEditable ? updateCounted : undefined}
+        highlightItemId={lastScanned}
+        formatCurrency={formatCurrency}
+      />
+
+      {isEditable && (
+        <PostStockCountModal
+          isOpen={showPost}
+          onClose={() => setShowPost(false)}
+          count={{ ...count, lines }}
+          reasonCodes={inventoryReasons}
+          formatCurrency={formatCurrency}
+          onPost={handlePost}
+        />
+      )}
+    </div>
+  );
+};
+
+export default StockCountSession;
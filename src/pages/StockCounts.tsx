@@ -0,0 +1,231 @@
+import React, { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ClipboardDocumentCheckIcon, PlusIcon, XCircleIcon } from '@heroicons/react/24/outline';
+import { PageHeader, Button, DataTable, Badge, ConfirmDialog } from '../components/ui';
+import type { Column } from '../components/ui';
+import { NewStockCountModal, STOCK_COUNT_STATUS_LABELS, STOCK_COUNT_STATUS_COLORS } from '../components/stock-count';
+import { stockCountService, describeScope, summarizeCount } from '../services/stock-count';
+import type { CreateStockCountRequest, StockCount, StockCountStatus } from '../services/stock-count';
+import useInventory from '../hooks/useInventory';
+import useStockCounts from '../hooks/useStockCounts';
+import { useCategories } from '../hooks/useCategories';
+import { useConfirmDialog } from '../hooks/useConfirmDialog';
+import { useError } from '../hooks/useError';
+import { useTenantStore } from '../tenants/tenantStore';
+import { usePermissions } from '../utils/permissions';
+import { useCurrencyFormatter } from '../utils/currencyUtils';
+
+const StockCounts: React.FC = () => {
+  const navigate = useNavigate();
+  const { currentTenant, currentStore } = useTenantStore();
+  const { showError, showSuccess } = useError();
+  const { hasPermission } = usePermissions();
+  const formatCurrency = useCurrencyFormatter();
+  const confirmDialog = useConfirmDialog();
+  const storeId = currentStore?.store_id;
+  const canCount = hasPermission('inventory_adjust');
+
+  const [statusFilter, setStatusFilter] = useState<StockCountStatus | 'all'>('all');
+  const [showNew, setShowNew] = useState(false);
+
+  const { items } = useInventory({ tenantId: currentTenant?.id, storeId });
+  const { counts, isLoading, error, upsertCount } = useStockCounts({ storeId });
+  const { categoryOptions } = useCategories({ tenantId: currentTenant?.id, storeId });
+
+  const categoryNames = useMemo(
+    () => new Map(categoryOptions.map(option => [option.id, option.label])),
+    [categoryOptions]
+  );
+
+  const filteredCounts = statusFilter === 'all' ? counts : counts.filter(count => count.status === statusFilter);
+
+  const handleCreate = async (data: CreateStockCountRequest) => {
+    if (!storeId) return;
+    try {
+      const created = await stockCountService.createCount(storeId, data);
+      upsertCount(created);
+      showSuccess(`${created.count_number} started with ${created.lines.length} item(s)`);
+      navigate(`/stock-counts/${created.count_id}`);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to start stock count');
+      throw err;
+    }
+  };
+
+  const handleCancel = (count: StockCount) => {
+    if (!storeId) return;
+    confirmDialog.openDialog(async () => {
+      try {
+        upsertCount(await stockCountService.cancelCount(storeId, count.count_id));
+        showSuccess(`${count.count_number} cancelled`);
+      } catch (err) {
+        console.error('Failed to cancel stock count:', err);
+        showError('Failed to cancel stock count');
+      }
+    }, {
+      title: 'Cancel stock count',
+      message: `Cancel ${count.count_number}? Entered counts are kept for reference but stock will not change.`,
+      confirmText: 'Cancel Count',
+      variant: 'warning'
+    });
+  };
+
+  const columns: Column<StockCount>[] = [
+    {
+      key: 'count_number',
+      title: 'Count',
+      sortable: true,
+      render: (value, count) => (
+        <div>
+          <div className="font-medium text-gray-900">{count.name}</div>
+          <div className="text-xs text-gray-500">{value} · {new Date(count.created_at).toLocaleDateString()}</div>
+        </div>
+      )
+    },
+    {
+      key: 'scope',
+      title: 'Scope',
+      render: (_value, count) => <span className="text-gray-700">{describeScope(count.scope, categoryNames)}</span>
+    },
+    {
+      key: 'status',
+      title: 'Status',
+      sortable: true,
+      render: (value: StockCountStatus) => (
+        <Badge color={STOCK_COUNT_STATUS_COLORS[value]} size="sm">{STOCK_COUNT_STATUS_LABELS[value]}</Badge>
+      )
+    },
+    {
+      key: 'lines',
+      title: 'Progress',
+      render: (_value, count) => {
+        const summary = summarizeCount(count.lines);
+        return (
+          <div className="w-32">
+            <div className="text-xs text-gray-600">{summary.counted} / {summary.total} counted</div>
+            <div className="mt-1 h-1.5 rounded-full bg-gray-200">
+              <div
+                className="h-1.5 rounded-full bg-blue-600"
+                style={{ width: `${summary.total > 0 ? (summary.counted / summary.total) * 100 : 0}%` }}
+              />
+            </div>
+          </div>
+        );
+      }
+    },
+    {
+      key: 'value_impact',
+      title: 'Value Impact',
+      render: (_value, count) => {
+        const { value_impact: impact, variances } = summarizeCount(count.lines);
+        return variances > 0
+          ? <span className={impact < 0 ? 'text-red-600' : 'text-gray-900'}>{formatCurrency(impact)}</span>
+          : <span className="text-gray-300">—</span>;
+      }
+    },
+    {
+      key: 'actions',
+      title: '',
+      render: (_value, count) => (
+        <div className="flex items-center justify-end space-x-1">
+          <Button size="sm" variant="outline" onClick={() => navigate(`/stock-counts/${count.count_id}`)}>
+            {count.status === 'in_progress' && canCount ? 'Continue' : 'View'}
+          </Button>
+          {canCount && count.status === 'in_progress' && (
+            <button
+              onClick={() => handleCancel(count)}
+              className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-orange-600"
+              title="Cancel count"
+            >
+              <XCircleIcon className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+      )
+    }
+  ];
+
+  if (!storeId) {
+    return (
+      <div className="p-6">
+        <PageHeader title="Stock Counts" description="Cycle counts and variance posting" />
+        <div className="bg-white rounded-lg border border-gray-200 p-10 text-center text-gray-500">
+          Select a store to count its stock
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <PageHeader title="Stock Counts" description="Cycle counts and variance posting">
+        {canCount && (
+          <Button onClick={() => setShowNew(true)} disabled={items.length === 0} className="flex items-center space-x-2">
+            <PlusIcon className="w-5 h-5" />
+            <span>Start Count</span>
+          </Button>
+        )}
+      </PageHeader>
+
+      {error && (
+        <div className="mb-4 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      )}
+
+      <div className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {(['all', 'in_progress', 'posted', 'cancelled'] as const).map(status => (
+            <button
+              key={status}
+              onClick={() => setStatusFilter(status)}
+              className={`rounded-full px-3 py-1 text-sm font-medium ${
+                statusFilter === status ? 'bg-blue-600 text-white' : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {status === 'all' ? 'All' : STOCK_COUNT_STATUS_LABELS[status]}
+            </button>
+          ))}
+        </div>
+        {!isLoading && counts.length === 0 ? (
+          <div className="flex flex-col items-center rounded-lg border border-dashed border-gray-300 bg-white p-10 text-center text-sm text-gray-500">
+            <ClipboardDocumentCheckIcon className="mb-2 h-8 w-8 text-gray-400" />
+            No stock counts yet. Start one for a category or merchandise level, or for the whole store.
+          </div>
+        ) : (
+          <DataTable
+            data={filteredCounts}
+            columns={columns}
+            loading={isLoading}
+            searchable={true}
+            searchPlaceholder="Search counts..."
+            searchFields={['name', 'count_number']}
+            pagination={true}
+            pageSize={25}
+            defaultSort={{ key: 'count_number', direction: 'desc' }}
+          />
+        )}
+      </div>
+
+      <NewStockCountModal
+        isOpen={showNew}
+        onClose={() => setShowNew(false)}
+        items={items}
+        categoryOptions={categoryOptions}
+        onCreate={handleCreate}
+      />
+
+      <ConfirmDialog
+        isOpen={confirmDialog.dialogState.isOpen}
+        onClose={confirmDialog.closeDialog}
+        onConfirm={confirmDialog.handleConfirm}
+        title={confirmDialog.dialogState.title}
+        message={confirmDialog.dialogState.message}
+        confirmText={confirmDialog.dialogState.confirmText}
+        cancelText={confirmDialog.dialogState.cancelText}
+        variant={confirmDialog.dialogState.variant}
+        isLoading={confirmDialog.dialogState.isLoading}
+      />
+    </div>
+  );
+};
+
+export default StockCounts;
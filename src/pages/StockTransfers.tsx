@@ -0,0 +1,462 @@
+import React, { useMemo, useState } from 'react';
+import {
+  ArrowDownTrayIcon,
+  ArrowUpTrayIcon,
+  ArrowsRightLeftIcon,
+  ExclamationTriangleIcon,
+  EyeIcon,
+  PencilIcon,
+  PlusIcon,
+  TrashIcon,
+  TruckIcon,
+  XCircleIcon
+} from '@heroicons/react/24/outline';
+import { PageHeader, Button, DataTable, Badge, ConfirmDialog } from '../components/ui';
+import type { Column } from '../components/ui';
+import {
+  TransferFormModal,
+  ShipTransferModal,
+  ReceiveTransferModal,
+  TransferDetailModal,
+  TRANSFER_STATUS_LABELS,
+  TRANSFER_STATUS_COLORS
+} from '../components/transfer';
+import {
+  transferService,
+  canPerformTransferAction,
+  getCounterpartyStoreId,
+  getTransferDirection,
+  getTransferDiscrepancies,
+  getTransferQuantities
+} from '../services/transfer';
+import type {
+  CreateStockTransferRequest,
+  ReceiveStockTransferRequest,
+  ShipStockTransferRequest,
+  StockTransfer,
+  StockTransferResult,
+  TransferDirection,
+  TransferStatus
+} from '../services/transfer';
+import useInventory from '../hooks/useInventory';
+import useTransfers from '../hooks/useTransfers';
+import { useConfirmDialog } from '../hooks/useConfirmDialog';
+import { useError } from '../hooks/useError';
+import { useTenantStore } from '../tenants/tenantStore';
+import { usePermissions } from '../utils/permissions';
+
+interface FormModalState {
+  isOpen: boolean;
+  transfer: StockTransfer | null;
+}
+
+const StockTransfers: React.FC = () => {
+  const { currentTenant, currentStore, getCurrentTenantStores } = useTenantStore();
+  const { showError, showSuccess } = useError();
+  const { hasPermission } = usePermissions();
+  const confirmDialog = useConfirmDialog();
+  const storeId = currentStore?.store_id;
+  const canTransfer = hasPermission('inventory_adjust');
+
+  const [direction, setDirection] = useState<TransferDirection>('incoming');
+  const [statusFilter, setStatusFilter] = useState<TransferStatus | 'all'>('all');
+  const [formModal, setFormModal] = useState<FormModalState>({ isOpen: false, transfer: null });
+  const [shipping, setShipping] = useState<StockTransfer | null>(null);
+  const [receiving, setReceiving] = useState<StockTransfer | null>(null);
+  const [viewing, setViewing] = useState<StockTransfer | null>(null);
+
+  const { items, settings, setLevels } = useInventory({ tenantId: currentTenant?.id, storeId });
+  const { transfers, isLoading, error, setTransfers, upsertTransfer } = useTransfers({ storeId });
+
+  const tenantStores = getCurrentTenantStores();
+  const storeNames = useMemo(
+    () => new Map(tenantStores.map(store => [store.store_id, store.store_name])),
+    [tenantStores]
+  );
+  const destinations = tenantStores.filter(store => store.store_id !== storeId && store.status === 'active');
+
+  const storeName = (id: string) => storeNames.get(id) || id;
+
+  const directionTransfers = storeId
+    ? transfers.filter(transfer => getTransferDirection(transfer, storeId) === direction)
+    : [];
+  // The destination never sees the sender's drafts
+  const visibleTransfers = directionTransfers.filter(transfer => (
+    (direction === 'outgoing' || transfer.status !== 'draft')
+    && (statusFilter === 'all' || transfer.status === statusFilter)
+  ));
+
+  const stats = useMemo(() => {
+    if (!storeId) return { awaiting: 0, inTransit: 0, drafts: 0, discrepancies: 0 };
+    const incoming = transfers.filter(transfer => getTransferDirection(transfer, storeId) === 'incoming');
+    const outgoing = transfers.filter(transfer => getTransferDirection(transfer, storeId) === 'outgoing');
+    return {
+      awaiting: incoming.filter(transfer => transfer.status === 'in_transit').length,
+      inTransit: outgoing.filter(transfer => transfer.status === 'in_transit').length,
+      drafts: outgoing.filter(transfer => transfer.status === 'draft').length,
+      discrepancies: transfers.filter(transfer => getTransferDiscrepancies(transfer).length > 0).length
+    };
+  }, [transfers, storeId]);
+
+  // Both ship and receive return this store's updated levels
+  const applyResult = (result: StockTransferResult) => {
+    const updated = new Set(result.levels.map(level => level.item_id));
+    setLevels(prev => [...prev.filter(level => !updated.has(level.item_id)), ...result.levels]);
+    upsertTransfer(result.transfer);
+  };
+
+  const handleSave = async (data: CreateStockTransferRequest, transferId?: string) => {
+    if (!storeId) return;
+    try {
+      const saved = transferId
+        ? await transferService.updateTransfer(storeId, transferId, data)
+        : await transferService.createTransfer(storeId, data);
+      upsertTransfer(saved);
+      showSuccess(transferId ? `${saved.transfer_number} saved` : `${saved.transfer_number} created`);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to save stock transfer');
+      throw err;
+    }
+  };
+
+  const handleShip = async (transfer: StockTransfer, data: ShipStockTransferRequest) => {
+    if (!storeId) return;
+    try {
+      applyResult(await transferService.shipTransfer(storeId, transfer.transfer_id, data));
+      showSuccess(`${transfer.transfer_number} shipped to ${storeName(transfer.destination_store_id)}`);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to ship stock transfer');
+      throw err;
+    }
+  };
+
+  const handleReceive = async (transfer: StockTransfer, data: ReceiveStockTransferRequest) => {
+    if (!storeId) return;
+    try {
+      const result = await transferService.receiveTransfer(storeId, transfer.transfer_id, data);
+      applyResult(result);
+      const discrepancies = getTransferDiscrepancies(result.transfer).length;
+      showSuccess(discrepancies > 0
+        ? `${transfer.transfer_number} received with ${discrepancies} discrepancy(ies)`
+        : `${transfer.transfer_number} received`);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to receive stock transfer');
+      throw err;
+    }
+  };
+
+  const handleCancel = (transfer: StockTransfer) => {
+    if (!storeId) return;
+    confirmDialog.openDialog(async () => {
+      try {
+        upsertTransfer(await transferService.cancelTransfer(storeId, transfer.transfer_id));
+        showSuccess(`${transfer.transfer_number} cancelled`);
+      } catch (err) {
+        console.error('Failed to cancel stock transfer:', err);
+        showError('Failed to cancel stock transfer');
+      }
+    }, {
+      title: 'Cancel transfer',
+      message: `Cancel ${transfer.transfer_number} to ${storeName(transfer.destination_store_id)}? No stock has moved yet.`,
+      confirmText: 'Cancel Transfer',
+      variant: 'warning'
+    });
+  };
+
+  const handleDelete = (transfer: StockTransfer) => {
+    if (!storeId) return;
+    confirmDialog.openDialog(async () => {
+      try {
+        await transferService.deleteTransfer(storeId, transfer.transfer_id);
+        setTransfers(prev => prev.filter(existing => existing.transfer_id !== transfer.transfer_id));
+        showSuccess(`${transfer.transfer_number} deleted`);
+      } catch (err) {
+        console.error('Failed to delete stock transfer:', err);
+        showError('Failed to delete stock transfer');
+      }
+    }, {
+      title: 'Delete draft',
+      message: `Delete draft ${transfer.transfer_number}? This action cannot be undone.`,
+      confirmText: 'Delete',
+      variant: 'danger'
+    });
+  };
+
+  const columns: Column<StockTransfer>[] = [
+    {
+      key: 'transfer_number',
+      title: 'Transfer',
+      sortable: true,
+      render: (value, transfer) => (
+        <div>
+          <div className="font-medium text-gray-900">{value}</div>
+          <div className="text-xs text-gray-500">{new Date(transfer.created_at).toLocaleDateString()}</div>
+        </div>
+      )
+    },
+    {
+      key: direction === 'outgoing' ? 'destination_store_id' : 'source_store_id',
+      title: direction === 'outgoing' ? 'To' : 'From',
+      sortable: true,
+      render: (_value, transfer) => storeName(storeId ? getCounterpartyStoreId(transfer, storeId) : '')
+    },
+    {
+      key: 'status',
+      title: 'Status',
+      sortable: true,
+      render: (value: TransferStatus, transfer) => {
+        const discrepancies = getTransferDiscrepancies(transfer).length;
+        return (
+          <div className="flex items-center space-x-1">
+            <Badge color={TRANSFER_STATUS_COLORS[value]} size="sm">{TRANSFER_STATUS_LABELS[value]}</Badge>
+            {discrepancies > 0 && (
+              <span title={`${discrepancies} line(s) arrived differently than shipped`}>
+                <ExclamationTriangleIcon className="h-4 w-4 text-orange-500" />
+              </span>
+            )}
+          </div>
+        );
+      }
+    },
+    {
+      key: 'lines',
+      title: 'Quantities',
+      render: (_value, transfer) => {
+        const { requested, shipped, received } = getTransferQuantities(transfer);
+        if (transfer.status === 'received') return <span className="text-gray-700">{received} of {shipped} received</span>;
+        if (transfer.status === 'in_transit') return <span className="text-gray-700">{shipped} shipped</span>;
+        return <span className="text-gray-700">{requested} requested</span>;
+      }
+    },
+    {
+      key: 'actions',
+      title: '',
+      render: (_value, transfer) => (
+        <div className="flex items-center justify-end space-x-1">
+          {canTransfer && storeId && canPerformTransferAction(transfer, storeId, 'receive') && (
+            <Button size="sm" onClick={() => setReceiving(transfer)} className="flex items-center space-x-1">
+              <ArrowDownTrayIcon className="h-4 w-4" />
+              <span>Receive</span>
+            </Button>
+          )}
+          {canTransfer && storeId && canPerformTransferAction(transfer, storeId, 'ship') && (
+            <Button size="sm" onClick={() => setShipping(transfer)} disabled={!settings} className="flex items-center space-x-1">
+              <TruckIcon className="h-4 w-4" />
+              <span>Ship</span>
+            </Button>
+          )}
+          <button
+            onClick={() => setViewing(transfer)}
+            className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-gray-700"
+            title="View details"
+          >
+            <EyeIcon className="h-4 w-4" />
+          </button>
+          {canTransfer && storeId && canPerformTransferAction(transfer, storeId, 'edit') && (
+            <button
+              onClick={() => setFormModal({ isOpen: true, transfer })}
+              className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-blue-600"
+              title="Edit draft"
+            >
+              <PencilIcon className="h-4 w-4" />
+            </button>
+          )}
+          {canTransfer && storeId && canPerformTransferAction(transfer, storeId, 'cancel') && (
+            <button
+              onClick={() => handleCancel(transfer)}
+              className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-orange-600"
+              title="Cancel transfer"
+            >
+              <XCircleIcon className="h-4 w-4" />
+            </button>
+          )}
+          {canTransfer && storeId && canPerformTransferAction(transfer, storeId, 'delete') && (
+            <button
+              onClick={() => handleDelete(transfer)}
+              className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-red-600"
+              title="Delete draft"
+            >
+              <TrashIcon className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+      )
+    }
+  ];
+
+  if (!storeId) {
+    return (
+      <div className="p-6">
+        <PageHeader title="Stock Transfers" description="Move inventory between your stores" />
+        <div className="bg-white rounded-lg border border-gray-200 p-10 text-center text-gray-500">
+          Select a store to manage its transfers
+        </div>
+      </div>
+    );
+  }
+
+  const tabClass = (tab: TransferDirection) => `${
+    direction === tab
+      ? 'border-blue-500 text-blue-600'
+      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+  } whitespace-nowrap py-2 px-1 border-b-2 font-medium text-sm flex items-center space-x-2`;
+
+  const statusOptions: TransferStatus[] = direction === 'outgoing'
+    ? ['draft', 'in_transit', 'received', 'cancelled']
+    : ['in_transit', 'received'];
+
+  return (
+    <div className="p-6">
+      <PageHeader title="Stock Transfers" description="Move inventory between your stores">
+        {canTransfer && (
+          <Button
+            onClick={() => setFormModal({ isOpen: true, transfer: null })}
+            disabled={destinations.length === 0 || items.length === 0}
+            className="flex items-center space-x-2"
+          >
+            <PlusIcon className="w-5 h-5" />
+            <span>New Transfer</span>
+          </Button>
+        )}
+      </PageHeader>
+
+      {/* Quick Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-6">
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <div className="flex items-center">
+            <ArrowDownTrayIcon className="h-8 w-8 text-blue-600" />
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600">Awaiting Receipt</p>
+              <p className="text-2xl font-bold text-gray-900">{stats.awaiting}</p>
+            </div>
+          </div>
+        </div>
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <div className="flex items-center">
+            <TruckIcon className="h-8 w-8 text-purple-600" />
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600">Shipped, In Transit</p>
+              <p className="text-2xl font-bold text-gray-900">{stats.inTransit}</p>
+            </div>
+          </div>
+        </div>
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <div className="flex items-center">
+            <ArrowsRightLeftIcon className="h-8 w-8 text-gray-500" />
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600">Drafts</p>
+              <p className="text-2xl font-bold text-gray-900">{stats.drafts}</p>
+            </div>
+          </div>
+        </div>
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <div className="flex items-center">
+            <ExclamationTriangleIcon className="h-8 w-8 text-orange-500" />
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600">With Discrepancies</p>
+              <p className="text-2xl font-bold text-gray-900">{stats.discrepancies}</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Tabs */}
+      <div className="mb-6">
+        <nav className="flex space-x-8" aria-label="Tabs">
+          <button onClick={() => { setDirection('incoming'); setStatusFilter('all'); }} className={tabClass('incoming')}>
+            <ArrowDownTrayIcon className="h-4 w-4" />
+            <span>Incoming</span>
+            {stats.awaiting > 0 && (
+              <span className="ml-1 rounded-full bg-blue-100 px-2 py-0.5 text-xs font-semibold text-blue-700">{stats.awaiting}</span>
+            )}
+          </button>
+          <button onClick={() => { setDirection('outgoing'); setStatusFilter('all'); }} className={tabClass('outgoing')}>
+            <ArrowUpTrayIcon className="h-4 w-4" />
+            <span>Outgoing</span>
+          </button>
+        </nav>
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      )}
+
+      <div className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {(['all', ...statusOptions] as const).map(status => (
+            <button
+              key={status}
+              onClick={() => setStatusFilter(status)}
+              className={`rounded-full px-3 py-1 text-sm font-medium ${
+                statusFilter === status ? 'bg-blue-600 text-white' : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {status === 'all' ? 'All' : TRANSFER_STATUS_LABELS[status]}
+            </button>
+          ))}
+        </div>
+        <DataTable
+          data={visibleTransfers}
+          columns={columns}
+          loading={isLoading}
+          searchable={true}
+          searchPlaceholder="Search transfers..."
+          searchFields={['transfer_number', 'notes']}
+          pagination={true}
+          pageSize={25}
+          defaultSort={{ key: 'transfer_number', direction: 'desc' }}
+        />
+      </div>
+
+      <TransferFormModal
+        isOpen={formModal.isOpen}
+        onClose={() => setFormModal({ isOpen: false, transfer: null })}
+        transfer={formModal.transfer}
+        destinations={destinations}
+        items={items}
+        onSave={handleSave}
+      />
+
+      {settings && (
+        <ShipTransferModal
+          isOpen={Boolean(shipping)}
+          onClose={() => setShipping(null)}
+          transfer={shipping}
+          destinationName={shipping ? storeName(shipping.destination_store_id) : ''}
+          items={items}
+          settings={settings}
+          onShip={handleShip}
+        />
+      )}
+
+      <ReceiveTransferModal
+        isOpen={Boolean(receiving)}
+        onClose={() => setReceiving(null)}
+        transfer={receiving}
+        sourceName={receiving ? storeName(receiving.source_store_id) : ''}
+        onReceive={handleReceive}
+      />
+
+      <TransferDetailModal
+        isOpen={Boolean(viewing)}
+        onClose={() => setViewing(null)}
+        transfer={viewing}
+        storeNames={storeNames}
+      />
+
+      <ConfirmDialog
+        isOpen={confirmDialog.dialogState.isOpen}
+        onClose={confirmDialog.closeDialog}
+        onConfirm={confirmDialog.handleConfirm}
+        title={confirmDialog.dialogState.title}
+        message={confirmDialog.dialogState.message}
+        confirmText={confirmDialog.dialogState.confirmText}
+        cancelText={confirmDialog.dialogState.cancelText}
+        variant={confirmDialog.dialogState.variant}
+        isLoading={confirmDialog.dialogState.isLoading}
+      />
+    </div>
+  );
+};
+
+export default StockTransfers;
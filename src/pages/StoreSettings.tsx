@@ -76,8 +76,14 @@ const StoreSettingsPage: React.FC = () => {
         
         // Fetch store details
         const storeDetails = await storeServices.store.getStoreDetails(storeId);
+
+        // Saved operational settings (e.g. inventory alert thresholds) override the defaults below
+        const savedSettings = await storeServices.settings.getSettings(storeId).catch(error => {
+          console.warn('Store settings unavailable, using defaults:', error);
+          return null;
+        });
         
-        // Create default settings object (settings API doesn't exist yet)
+        // Create default settings object
         const defaultSettings: StoreSettings = {
           tenant_id: currentTenant?.id || '',
           store_id: storeId,
@@ -245,9 +251,22 @@ const StoreSettingsPage: React.FC = () => {
           created_by: storeDetails.create_user_id || ''
         };
         
+        const savedOperational = savedSettings?.operational_settings;
+        const settings: StoreSettings = savedOperational ? {
+          ...defaultSettings,
+          operational_settings: {
+            ...defaultSettings.operational_settings,
+            ...savedOperational,
+            inventory_alerts: {
+              ...defaultSettings.operational_settings.inventory_alerts,
+              ...savedOperational.inventory_alerts
+            }
+          }
+        } : defaultSettings;
+        
         setState(prev => ({ 
           ...prev, 
-          settings: defaultSettings, 
+          settings, 
           storeDetails, 
           isLoading: false 
         }));
@@ -0,0 +1,261 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { EnvelopeOpenIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import Button from '../../components/ui/Button';
+import { cn } from '../../utils/cn';
+import { authService } from '../../auth/authService';
+import type { User } from '../../auth/authService';
+import { useTenantStore } from '../../tenants/tenantStore';
+import { tenantInvitationService } from '../../services/tenant-dashboard/tenantDashboardService';
+import { ACCEPT_INVITE_PATH, formatInvitationExpiry, isInvitationExpired } from '../../services/tenant-dashboard/invitationUtils';
+import type { InvitationPreview } from '../../services/types/tenant-dashboard.types';
+
+const inputClass = 'flex h-12 w-full rounded-xl border border-slate-200 bg-slate-50 px-4 py-3 text-sm placeholder:text-slate-400 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2 focus-visible:border-blue-500 disabled:cursor-not-allowed disabled:opacity-50 transition-all duration-200';
+
+const passwordChecks = [
+  (pwd: string) => pwd.length >= 8,
+  (pwd: string) => /[A-Z]/.test(pwd),
+  (pwd: string) => /[a-z]/.test(pwd),
+  (pwd: string) => /\d/.test(pwd),
+  (pwd: string) => /[!@#$%^&*(),.?":{}|<>]/.test(pwd),
+];
+
+/**
+ * Landing page for the link in an invitation email. New users create their
+ * Cognito account here (the token travels with the sign-up); existing users
+ * sign in and come back to accept.
+ */
+const AcceptInvite: React.FC = () => {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const { fetchTenants, switchTenant } = useTenantStore();
+
+  const [invitation, setInvitation] = useState<InvitationPreview | null>(null);
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState('');
+  const [accepting, setAccepting] = useState(false);
+
+  const [formData, setFormData] = useState({ name: '', password: '', confirmPassword: '' });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [signingUp, setSigningUp] = useState(false);
+
+  const returnPath = `${ACCEPT_INVITE_PATH}?token=${encodeURIComponent(token)}`;
+
+  useEffect(() => {
+    const load = async () => {
+      if (!token) {
+        setLoadError('This invitation link is incomplete. Open the link from your email again.');
+        setLoading(false);
+        return;
+      }
+      try {
+        const [preview, user] = await Promise.all([
+          tenantInvitationService.getInvitationByToken(token),
+          authService.getCurrentUser().catch(() => null),
+        ]);
+        setInvitation(preview);
+        setCurrentUser(user);
+      } catch (error) {
+        console.error('Failed to load invitation:', error);
+        setLoadError('This invitation link is not valid. Ask your administrator to send a new one.');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [token]);
+
+  const handleAccept = async () => {
+    if (!invitation || !currentUser) return;
+    setAccepting(true);
+    try {
+      const { tenant_id } = await tenantInvitationService.acceptInvitation(token);
+      await fetchTenants(currentUser.email);
+      switchTenant(tenant_id);
+      navigate('/tenant-store-selection', { replace: true });
+    } catch (error) {
+      console.error('Failed to accept invitation:', error);
+      setErrors({ general: error instanceof Error ? error.message : 'Could not accept the invitation. Please try again.' });
+    } finally {
+      setAccepting(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    await authService.signOut();
+    setCurrentUser(null);
+  };
+
+  const handleSignUp = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!invitation) return;
+
+    const newErrors: Record<string, string> = {};
+    if (formData.name.trim().length < 2) newErrors.name = t('auth.validation.nameMinLength');
+    if (passwordChecks.some(check => !check(formData.password))) newErrors.password = t('auth.password.doesNotMeetRequirements');
+    if (formData.password !== formData.confirmPassword) newErrors.confirmPassword = t('auth.validation.passwordsNoMatch');
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) return;
+
+    setSigningUp(true);
+    try {
+      await authService.signUp({
+        email: invitation.email,
+        password: formData.password,
+        name: formData.name.trim(),
+        inviteToken: token,
+      });
+      navigate('/auth/verify-email', {
+        state: { email: invitation.email, fromSignUp: true, redirectTo: returnPath },
+      });
+    } catch (error) {
+      console.error('Sign up error:', error);
+      const name = error instanceof Error ? error.name : '';
+      setErrors({
+        general: name === 'UsernameExistsException'
+          ? 'You already have an account. Sign in to accept this invitation.'
+          : 'Sign up failed. Please try again.',
+      });
+    } finally {
+      setSigningUp(false);
+    }
+  };
+
+  const goToSignIn = () => navigate('/auth/signin', { state: { email: invitation?.email, redirectTo: returnPath } });
+
+  const renderBody = () => {
+    if (loading) {
+      return <p className="text-center text-slate-500">Loading invitation...</p>;
+    }
+
+    if (loadError || !invitation) {
+      return <Notice message={loadError} />;
+    }
+
+    if (invitation.status === 'accepted') {
+      return <Notice message="This invitation has already been accepted." action={<Button onClick={goToSignIn}>Sign In</Button>} />;
+    }
+    if (invitation.status === 'revoked') {
+      return <Notice message="This invitation was withdrawn. Contact your administrator if you still need access." />;
+    }
+    if (isInvitationExpired(invitation)) {
+      return <Notice message={`This invitation has expired. Ask ${invitation.invited_by} to resend it.`} />;
+    }
+
+    const emailMatches = currentUser?.email.toLowerCase() === invitation.email.toLowerCase();
+
+    return (
+      <div className="space-y-6">
+        <div className="rounded-xl bg-slate-50 p-4 text-sm">
+          <p className="text-slate-700">
+            <strong>{invitation.invited_by}</strong> invited <strong>{invitation.email}</strong> to join{' '}
+            <strong>{invitation.tenant_name}</strong> as <span className="capitalize">{invitation.role}</span>.
+          </p>
+          {invitation.stores.length > 0 && (
+            <ul className="mt-3 space-y-1 text-slate-600">
+              {invitation.stores.map(store => (
+                <li key={store.store_id} className="flex justify-between">
+                  <span>{store.store_name}</span>
+                  <span className="text-slate-500">{store.role_name}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          <p className="mt-3 text-xs text-slate-400">{formatInvitationExpiry(invitation.expires_at)}</p>
+        </div>
+
+        {errors.general && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-xl">
+            <p className="text-sm text-red-600">{errors.general}</p>
+          </div>
+        )}
+
+        {currentUser ? (
+          emailMatches ? (
+            <Button onClick={handleAccept} isLoading={accepting} className="w-full h-12 rounded-xl">
+              Accept Invitation
+            </Button>
+          ) : (
+            <div className="space-y-3 text-sm text-slate-600">
+              <p>
+                You are signed in as <strong>{currentUser.email}</strong>. Sign out and continue as{' '}
+                <strong>{invitation.email}</strong> to accept.
+              </p>
+              <Button variant="outline" onClick={handleSignOut} className="w-full h-12 rounded-xl">
+                Sign Out
+              </Button>
+            </div>
+          )
+        ) : (
+          <form onSubmit={handleSignUp} className="space-y-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-slate-700">Email</label>
+              <input type="email" value={invitation.email} disabled className={inputClass} />
+            </div>
+            {([
+              ['name', 'Full Name', 'text'],
+              ['password', 'Password', 'password'],
+              ['confirmPassword', 'Confirm Password', 'password'],
+            ] as const).map(([field, label, type]) => (
+              <div key={field} className="space-y-2">
+                <label htmlFor={field} className="text-sm font-medium text-slate-700">{label}</label>
+                <input
+                  id={field}
+                  type={type}
+                  value={formData[field]}
+                  onChange={(e) => {
+                    setFormData(prev => ({ ...prev, [field]: e.target.value }));
+                    if (errors[field]) setErrors(prev => ({ ...prev, [field]: '' }));
+                  }}
+                  className={cn(inputClass, errors[field] && 'border-red-500 focus-visible:ring-red-500')}
+                  required
+                />
+                {errors[field] && <p className="text-sm text-red-600">{errors[field]}</p>}
+              </div>
+            ))}
+            <Button type="submit" isLoading={signingUp} className="w-full h-12 rounded-xl">
+              Create Account &amp; Join
+            </Button>
+            <p className="text-center text-sm text-slate-500">
+              Already have an account?{' '}
+              <button type="button" onClick={goToSignIn} className="font-medium text-blue-600 hover:text-blue-700">
+                Sign in to accept
+              </button>
+            </p>
+          </form>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="bg-white rounded-2xl shadow-xl border border-slate-200/50 p-8">
+          <div className="text-center mb-8">
+            <div className="inline-flex items-center justify-center w-14 h-14 bg-blue-50 rounded-2xl mb-4">
+              <EnvelopeOpenIcon className="w-7 h-7 text-blue-600" />
+            </div>
+            <h1 className="text-3xl font-bold text-slate-900 mb-2">You're Invited</h1>
+            {invitation && <p className="text-slate-500">Join {invitation.tenant_name}</p>}
+          </div>
+          {renderBody()}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const Notice: React.FC<{ message: string; action?: React.ReactNode }> = ({ message, action }) => (
+  <div className="space-y-4 text-center">
+    <ExclamationTriangleIcon className="mx-auto h-10 w-10 text-amber-500" />
+    <p className="text-sm text-slate-600">{message}</p>
+    {action}
+  </div>
+);
+
+export default AcceptInvite;
@@ -12,7 +12,7 @@ const SignIn: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
   const [formData, setFormData] = useState({
-    email: '',
+    email: (location.state as { email?: string } | null)?.email || '',
     password: '',
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -72,6 +72,13 @@ const SignIn: React.FC = () => {
 
       console.log('Sign in successful:', result);
       
+      // Pages outside the dashboard (e.g. accepting an invitation) return straight to themselves
+      const redirectTo = (location.state as { redirectTo?: string } | null)?.redirectTo;
+      if (redirectTo) {
+        navigate(redirectTo, { replace: true });
+        return;
+      }
+
       // Navigate to tenant/store selection first, then to intended destination
       const from = (location.state as any)?.from?.pathname;
       if (from && from !== '/dashboard' && from !== '/tenant-store-selection') {
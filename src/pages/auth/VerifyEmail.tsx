@@ -18,6 +18,8 @@ const VerifyEmail: React.FC = () => {
   const email = location.state?.email || '';
   const fromSignUp = location.state?.fromSignUp || false;
   const fromForgotPassword = location.state?.fromForgotPassword || false;
+  // Where to go after signing in, e.g. back to an invitation being accepted
+  const redirectTo: string | undefined = location.state?.redirectTo;
 
   useEffect(() => {
     if (!email) {
@@ -113,6 +115,7 @@ const VerifyEmail: React.FC = () => {
           state: {
             message: 'Account verified successfully! Please sign in.',
             email,
+            redirectTo,
           }
         });
       } else if (fromForgotPassword) {
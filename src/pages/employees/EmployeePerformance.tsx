@@ -1,39 +1,263 @@
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { ArrowLeftIcon, ChartBarIcon } from '@heroicons/react/24/outline';
+import {
+  ArrowLeftIcon,
+  ArrowDownIcon,
+  ArrowPathIcon,
+  ArrowUpIcon,
+  ChartBarIcon
+} from '@heroicons/react/24/outline';
 import { PageHeader, Button, Card } from '../../components/ui';
+import {
+  PerformanceLeaderboard,
+  PERFORMANCE_METRIC_LABELS,
+  formatMetricValue,
+  isImprovement
+} from '../../components/user';
+import { comparePerformance, findAssociateUser, PERFORMANCE_METRIC_KEYS } from '../../services/transaction';
+import type { EmployeePerformanceMetrics, PerformancePeriod } from '../../services/transaction';
+import { addDays, toDateKey } from '../../services/schedule';
+import { userService } from '../../services/user';
+import type { StoreUser } from '../../services/types/user.types';
+import useEmployeePerformance from '../../hooks/useEmployeePerformance';
+import { useTenantStore } from '../../tenants/tenantStore';
+
+type PeriodPreset = '7d' | '30d' | 'month' | 'custom';
+
+const PERIOD_PRESETS: { value: PeriodPreset; label: string }[] = [
+  { value: '7d', label: 'Last 7 days' },
+  { value: '30d', label: 'Last 30 days' },
+  { value: 'month', label: 'This month' },
+  { value: 'custom', label: 'Custom' }
+];
+
+const USERS_PAGE_LIMIT = 200;
+
+const getPresetPeriod = (preset: Exclude<PeriodPreset, 'custom'>): PerformancePeriod => {
+  const today = toDateKey(new Date());
+  switch (preset) {
+    case '7d':
+      return { start_date: addDays(today, -6), end_date: today };
+    case '30d':
+      return { start_date: addDays(today, -29), end_date: today };
+    case 'month':
+      return { start_date: `${today.slice(0, 8)}01`, end_date: today };
+  }
+};
+
+const formatPeriod = (period: PerformancePeriod) => `${period.start_date} – ${period.end_date}`;
 
 const EmployeePerformance: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const { currentStore } = useTenantStore();
+
+  const [employee, setEmployee] = useState<StoreUser | null>(null);
+  const [users, setUsers] = useState<StoreUser[]>([]);
+  const [loadingEmployee, setLoadingEmployee] = useState(true);
+  const [preset, setPreset] = useState<PeriodPreset>('30d');
+  const [period, setPeriod] = useState<PerformancePeriod>(() => getPresetPeriod('30d'));
+  const [includeDetails, setIncludeDetails] = useState(true);
+
+  useEffect(() => {
+    if (!id) return;
+
+    const loadEmployee = async () => {
+      setLoadingEmployee(true);
+      try {
+        setEmployee(await userService.getUserById(id));
+      } catch (err) {
+        console.error('Failed to load employee:', err);
+        setEmployee(null);
+      } finally {
+        setLoadingEmployee(false);
+      }
+    };
+
+    loadEmployee();
+  }, [id]);
+
+  const storeId = employee?.store_id || currentStore?.store_id;
+
+  useEffect(() => {
+    if (!storeId) return;
+    userService.getUsers({ store_id: storeId, limit: USERS_PAGE_LIMIT })
+      .then(response => setUsers(response.users || []))
+      .catch(err => {
+        console.error('Failed to load store users:', err);
+        setUsers([]);
+      });
+  }, [storeId]);
+
+  const {
+    current,
+    previous,
+    previousPeriod,
+    isLoading,
+    progress,
+    error,
+    refresh
+  } = useEmployeePerformance({ storeId, period, users, includeDetails });
+
+  // The employee's own rows in each period, matched by user ID or employee number
+  const { currentMetrics, previousMetrics } = useMemo(() => {
+    const findOwn = (employees: EmployeePerformanceMetrics[] = []) =>
+      employee ? employees.find(item => findAssociateUser(item.associate_id, [employee])) : undefined;
+    return { currentMetrics: findOwn(current?.employees), previousMetrics: findOwn(previous?.employees) };
+  }, [employee, current, previous]);
+
+  const comparison = useMemo(
+    () => comparePerformance(currentMetrics, previousMetrics),
+    [currentMetrics, previousMetrics]
+  );
+  const currency = currentMetrics?.currency || previousMetrics?.currency || 'USD';
+
+  const handlePresetChange = (value: PeriodPreset) => {
+    setPreset(value);
+    if (value !== 'custom') setPeriod(getPresetPeriod(value));
+  };
 
   return (
     <div className="space-y-6 p-4 sm:p-6 bg-gray-50 min-h-screen">
       <PageHeader
-        title="Employee Performance"
+        title={employee ? `${`${employee.first_name || ''} ${employee.last_name || ''}`.trim() || employee.email} - Performance` : 'Employee Performance'}
         description="Track employee performance metrics and analytics"
       >
-        <Button
-          variant="outline"
-          onClick={() => navigate('/employees')}
-        >
-          <ArrowLeftIcon className="w-4 h-4 mr-2" />
-          Back to Employees
-        </Button>
+        <div className="flex items-center space-x-3">
+          <Button
+            variant="outline"
+            onClick={() => navigate('/employees')}
+          >
+            <ArrowLeftIcon className="w-4 h-4 mr-2" />
+            Back to Employees
+          </Button>
+          <Button variant="outline" onClick={() => navigate(`/employees/${id}/edit`)}>
+            Edit Employee Details
+          </Button>
+        </div>
       </PageHeader>
 
-      <Card className="p-6 text-center">
-        <ChartBarIcon className="mx-auto h-12 w-12 text-gray-400 mb-4" />
-        <h3 className="text-lg font-medium text-gray-900 mb-2">
-          Performance Analytics
-        </h3>
-        <p className="text-gray-500 mb-6">
-          Performance tracking features will be available soon. This will include sales metrics, productivity reports, and performance reviews.
-        </p>
-        <Button onClick={() => navigate(`/employees/${id}/edit`)}>
-          Edit Employee Details
-        </Button>
+      {/* Period */}
+      <Card className="p-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="inline-flex rounded-md border border-gray-300 overflow-hidden">
+            {PERIOD_PRESETS.map(option => (
+              <button
+                key={option.value}
+                onClick={() => handlePresetChange(option.value)}
+                className={`px-3 py-1.5 text-sm font-medium ${
+                  preset === option.value ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          {preset === 'custom' && (
+            <div className="flex items-center space-x-2">
+              <input
+                type="date"
+                value={period.start_date}
+                max={period.end_date}
+                onChange={(e) => e.target.value && setPeriod({ ...period, start_date: e.target.value })}
+                className="rounded-md border border-gray-300 px-3 py-1.5 text-sm"
+              />
+              <span className="text-gray-500">to</span>
+              <input
+                type="date"
+                value={period.end_date}
+                min={period.start_date}
+                onChange={(e) => e.target.value && setPeriod({ ...period, end_date: e.target.value })}
+                className="rounded-md border border-gray-300 px-3 py-1.5 text-sm"
+              />
+            </div>
+          )}
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={includeDetails}
+              onChange={(e) => setIncludeDetails(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            <span>Line-level rates (slower)</span>
+          </label>
+          <div className="ml-auto flex items-center space-x-3 text-sm text-gray-500">
+            <span>Compared with {formatPeriod(previousPeriod)}</span>
+            <Button size="sm" variant="outline" onClick={refresh} disabled={isLoading}>
+              <ArrowPathIcon className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
       </Card>
+
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      )}
+
+      {!loadingEmployee && !employee ? (
+        <Card className="p-6 text-center text-gray-500">Employee not found</Card>
+      ) : isLoading || loadingEmployee ? (
+        <Card className="p-10 text-center">
+          <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-4 text-sm text-gray-600">
+            {progress ? `Loading transaction details ${progress.loaded} / ${progress.total}...` : 'Loading transactions...'}
+          </p>
+        </Card>
+      ) : (
+        <>
+          {!currentMetrics ? (
+            <Card className="p-6 text-center">
+              <ChartBarIcon className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No sales in this period</h3>
+              <p className="text-gray-500">
+                No transactions list this employee as an associate between {formatPeriod(period)}.
+              </p>
+            </Card>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {PERFORMANCE_METRIC_KEYS.map(key => {
+                const { current: value, previous: previousValue, change } = comparison[key];
+                return (
+                  <Card key={key} className="p-5">
+                    <p className="text-sm font-medium text-gray-600">{PERFORMANCE_METRIC_LABELS[key]}</p>
+                    <p className="mt-1 text-2xl font-bold text-gray-900">{formatMetricValue(key, value, currency)}</p>
+                    <div className="mt-1 flex items-center space-x-2 text-xs">
+                      {change !== null && change !== 0 && (
+                        <span className={`inline-flex items-center font-medium ${
+                          isImprovement(key, change) ? 'text-green-600' : 'text-red-600'
+                        }`}>
+                          {change > 0 ? <ArrowUpIcon className="h-3 w-3 mr-0.5" /> : <ArrowDownIcon className="h-3 w-3 mr-0.5" />}
+                          {Math.abs(change * 100).toFixed(1)}%
+                        </span>
+                      )}
+                      <span className="text-gray-500">
+                        vs {formatMetricValue(key, previousValue, currency)}
+                      </span>
+                    </div>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+
+          {currentMetrics && (
+            <p className="text-xs text-gray-500">
+              {currentMetrics.voided_transaction_count} voided transaction(s) excluded from sales.{' '}
+              {includeDetails && current
+                ? `Void, return and override rates use ${currentMetrics.detail_count} of this employee's transactions (${current.detail_count} of ${current.transaction_count} store transactions loaded).`
+                : 'Enable line-level rates to see void, return and override rates.'}
+              {currentMetrics.labor_hours === null && ' No time tracking recorded, so sales per labor hour is unavailable.'}
+            </p>
+          )}
+
+          <PerformanceLeaderboard
+            employees={current?.employees || []}
+            users={users}
+            highlightAssociateId={currentMetrics?.associate_id}
+            onSelectUser={(user) => navigate(`/employees/${user.user_id}/performance`)}
+          />
+        </>
+      )}
     </div>
   );
 };
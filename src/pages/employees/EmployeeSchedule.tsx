@@ -1,39 +1,253 @@
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { ArrowLeftIcon, CalendarDaysIcon } from '@heroicons/react/24/outline';
+import {
+  ArrowLeftIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  ExclamationTriangleIcon,
+  PlusIcon
+} from '@heroicons/react/24/outline';
 import { PageHeader, Button, Card } from '../../components/ui';
+import { WeeklyShiftPlanner, ShiftFormModal, formatHours } from '../../components/schedule';
+import {
+  scheduleService,
+  WEEK_DAYS,
+  addDays,
+  getWeekStart,
+  getUserDisplayName,
+  parseDateKey,
+  toDateKey
+} from '../../services/schedule';
+import type { CreateShiftRequest, Shift } from '../../services/schedule';
+import { userService } from '../../services/user';
+import type { StoreUser } from '../../services/types/user.types';
+import useShiftSchedule from '../../hooks/useShiftSchedule';
+import { useError } from '../../hooks/useError';
+import { useTenantStore } from '../../tenants/tenantStore';
+
+interface ShiftModalState {
+  isOpen: boolean;
+  shift: Shift | null;
+  date?: string;
+}
 
 const EmployeeSchedule: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const { currentStore } = useTenantStore();
+  const { showError, showSuccess } = useError();
+
+  const [employee, setEmployee] = useState<StoreUser | null>(null);
+  const [loadingEmployee, setLoadingEmployee] = useState(true);
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(new Date()));
+  const [shiftModal, setShiftModal] = useState<ShiftModalState>({ isOpen: false, shift: null });
+
+  useEffect(() => {
+    if (!id) return;
+
+    const loadEmployee = async () => {
+      setLoadingEmployee(true);
+      try {
+        setEmployee(await userService.getUserById(id));
+      } catch (err) {
+        console.error('Failed to load employee:', err);
+        setEmployee(null);
+      } finally {
+        setLoadingEmployee(false);
+      }
+    };
+
+    loadEmployee();
+  }, [id]);
+
+  const storeId = employee?.store_id || currentStore?.store_id;
+  const users = useMemo(() => (employee ? [employee] : []), [employee]);
+
+  const {
+    shifts,
+    templates,
+    storeTimings,
+    weekDates,
+    conflicts,
+    labor,
+    isLoading,
+    error,
+    setShifts
+  } = useShiftSchedule({ storeId, weekStart, userId: id, users });
+
+  const weekHours = labor.reduce((total, day) => total + day.hours, 0);
+  const accessSchedule = employee?.access_schedule;
+
+  const weekLabel = `${parseDateKey(weekDates[0]).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} - ${
+    parseDateKey(weekDates[6]).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+  }`;
+
+  const handleSaveShift = async (data: CreateShiftRequest, shiftId?: string) => {
+    if (!storeId) return;
+    try {
+      if (shiftId) {
+        const updated = await scheduleService.updateShift(storeId, shiftId, data);
+        setShifts(prev => prev.map(shift => (shift.shift_id === shiftId ? updated : shift)));
+        showSuccess('Shift updated');
+      } else {
+        const created = await scheduleService.createShift(storeId, data);
+        setShifts(prev => [...prev, created]);
+        showSuccess('Shift scheduled');
+      }
+    } catch (err) {
+      showError(shiftId ? 'Failed to update shift' : 'Failed to schedule shift');
+      throw err;
+    }
+  };
+
+  const handleDeleteShift = async (shift: Shift) => {
+    if (!storeId) return;
+    try {
+      await scheduleService.deleteShift(storeId, shift.shift_id);
+      setShifts(prev => prev.filter(item => item.shift_id !== shift.shift_id));
+      showSuccess('Shift deleted');
+    } catch (err) {
+      showError('Failed to delete shift');
+      throw err;
+    }
+  };
 
   return (
     <div className="space-y-6 p-4 sm:p-6 bg-gray-50 min-h-screen">
       <PageHeader
-        title="Employee Schedule"
+        title={employee ? `${getUserDisplayName(employee)} - Schedule` : 'Employee Schedule'}
         description="Manage employee work schedules and shifts"
       >
-        <Button
-          variant="outline"
-          onClick={() => navigate('/employees')}
-        >
-          <ArrowLeftIcon className="w-4 h-4 mr-2" />
-          Back to Employees
-        </Button>
+        <div className="flex items-center space-x-3">
+          <Button
+            variant="outline"
+            onClick={() => navigate('/employees')}
+          >
+            <ArrowLeftIcon className="w-4 h-4 mr-2" />
+            Back to Employees
+          </Button>
+          <Button variant="outline" onClick={() => navigate(`/employees/${id}/edit`)}>
+            Edit Employee Details
+          </Button>
+          <Button
+            onClick={() => setShiftModal({ isOpen: true, shift: null, date: toDateKey(new Date()) })}
+            disabled={!employee || !storeId}
+          >
+            <PlusIcon className="w-4 h-4 mr-2" />
+            Schedule Shift
+          </Button>
+        </div>
       </PageHeader>
 
-      <Card className="p-6 text-center">
-        <CalendarDaysIcon className="mx-auto h-12 w-12 text-gray-400 mb-4" />
-        <h3 className="text-lg font-medium text-gray-900 mb-2">
-          Schedule Management
-        </h3>
-        <p className="text-gray-500 mb-6">
-          Employee scheduling features will be available soon. This will include shift planning, time slot management, and schedule templates.
-        </p>
-        <Button onClick={() => navigate(`/employees/${id}/edit`)}>
-          Edit Employee Details
-        </Button>
-      </Card>
+      {!loadingEmployee && !employee ? (
+        <Card className="p-6 text-center text-gray-500">Employee not found</Card>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <Card className="p-6">
+              <p className="text-sm font-medium text-gray-600">Scheduled This Week</p>
+              <p className="text-2xl font-bold text-gray-900">{formatHours(weekHours)}</p>
+              <p className="text-sm text-gray-500">
+                {labor.reduce((total, day) => total + day.shift_count, 0)} shifts on{' '}
+                {labor.filter(day => day.shift_count > 0).length} days
+              </p>
+              {conflicts.length > 0 && (
+                <div className="mt-4 space-y-1">
+                  <div className="flex items-center text-sm font-medium text-red-600">
+                    <ExclamationTriangleIcon className="h-4 w-4 mr-1" />
+                    {conflicts.length} conflict{conflicts.length === 1 ? '' : 's'}
+                  </div>
+                  <ul className="list-disc pl-5 text-sm text-red-600">
+                    {conflicts.map((conflict, index) => (
+                      <li key={`${conflict.shift_id}-${conflict.type}-${index}`}>
+                        {parseDateKey(conflict.date).toLocaleDateString('en-US', { weekday: 'short' })}: {conflict.message}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </Card>
+
+            <Card className="p-6 lg:col-span-2">
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="text-sm font-medium text-gray-900">Access Schedule</h3>
+                <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                  accessSchedule?.enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                }`}>
+                  {accessSchedule?.enabled ? 'Restricted' : 'No restrictions'}
+                </span>
+              </div>
+              {accessSchedule?.enabled ? (
+                <div className="grid grid-cols-7 gap-2 text-center text-xs">
+                  {WEEK_DAYS.map(day => {
+                    const entry = accessSchedule.schedule.find(item => item.day === day);
+                    return (
+                      <div
+                        key={day}
+                        className={`rounded-md border px-1 py-2 ${
+                          entry?.enabled ? 'border-green-200 bg-green-50 text-green-800' : 'border-gray-200 bg-gray-50 text-gray-400'
+                        }`}
+                      >
+                        <div className="font-medium capitalize">{day.slice(0, 3)}</div>
+                        <div>{entry?.enabled ? `${entry.start_time}-${entry.end_time}` : 'Off'}</div>
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">This employee can be scheduled at any time the store is open.</p>
+              )}
+            </Card>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <button onClick={() => setWeekStart(addDays(weekStart, -7))} className="p-2 hover:bg-gray-100 rounded-md" title="Previous week">
+              <ChevronLeftIcon className="h-5 w-5" />
+            </button>
+            <h2 className="text-lg font-semibold text-gray-900 min-w-[220px] text-center">{weekLabel}</h2>
+            <button onClick={() => setWeekStart(addDays(weekStart, 7))} className="p-2 hover:bg-gray-100 rounded-md" title="Next week">
+              <ChevronRightIcon className="h-5 w-5" />
+            </button>
+            <Button size="sm" variant="outline" onClick={() => setWeekStart(getWeekStart(new Date()))}>Today</Button>
+          </div>
+
+          {error && (
+            <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+          )}
+
+          {loadingEmployee || isLoading ? (
+            <div className="flex items-center justify-center py-16">
+              <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            <WeeklyShiftPlanner
+              weekDates={weekDates}
+              users={users}
+              shifts={shifts.filter(shift => weekDates.includes(shift.date))}
+              templates={templates}
+              conflicts={conflicts}
+              labor={labor}
+              storeTimings={storeTimings}
+              onCellClick={(_userId, date) => setShiftModal({ isOpen: true, shift: null, date })}
+              onShiftClick={(shift) => setShiftModal({ isOpen: true, shift })}
+            />
+          )}
+        </>
+      )}
+
+      <ShiftFormModal
+        isOpen={shiftModal.isOpen}
+        onClose={() => setShiftModal({ isOpen: false, shift: null })}
+        shift={shiftModal.shift}
+        defaultUserId={id}
+        defaultDate={shiftModal.date}
+        users={users}
+        templates={templates}
+        shifts={shifts}
+        storeTimings={storeTimings}
+        onSave={handleSaveShift}
+        onDelete={handleDeleteShift}
+      />
     </div>
   );
 };
@@ -1,39 +1,229 @@
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { ArrowLeftIcon, ClockIcon } from '@heroicons/react/24/outline';
+import {
+  ArrowLeftIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  ClockIcon,
+  LockClosedIcon
+} from '@heroicons/react/24/outline';
 import { PageHeader, Button, Card } from '../../components/ui';
+import {
+  TimesheetTable,
+  TimeEntryEditModal,
+  formatClockTime,
+  formatMinutes,
+  PAY_PERIOD_STATUS_STYLES,
+  PAY_PERIOD_STATUS_LABELS
+} from '../../components/timesheet';
+import {
+  timesheetService,
+  DEFAULT_OVERTIME_RULES,
+  TIMESHEET_REASON_CATEGORY,
+  getPayPeriodRange,
+  isPayPeriodEditable
+} from '../../services/timesheet';
+import type { CreateTimesheetAdjustmentRequest, TimeEntry } from '../../services/timesheet';
+import { addDays, getUserDisplayName, parseDateKey, toDateKey } from '../../services/schedule';
+import { userService } from '../../services/user';
+import type { StoreUser } from '../../services/types/user.types';
+import useTimesheets from '../../hooks/useTimesheets';
+import { useReasonCodes } from '../../hooks/useReasonCodes';
+import { useError } from '../../hooks/useError';
+import { useTenantStore } from '../../tenants/tenantStore';
+
+interface EntryModalState {
+  isOpen: boolean;
+  entry: TimeEntry | null;
+  date?: string;
+}
+
+const formatDay = (dateKey: string) =>
+  parseDateKey(dateKey).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
 
 const EmployeeTimeTracking: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const { currentTenant, currentStore } = useTenantStore();
+  const { showError, showSuccess } = useError();
+
+  const [employee, setEmployee] = useState<StoreUser | null>(null);
+  const [anchorDate, setAnchorDate] = useState(() => toDateKey(new Date()));
+  const [entryModal, setEntryModal] = useState<EntryModalState>({ isOpen: false, entry: null });
+  const [punching, setPunching] = useState(false);
+
+  useEffect(() => {
+    if (!id) return;
+    userService.getUserById(id)
+      .then(setEmployee)
+      .catch(err => {
+        console.error('Failed to load employee:', err);
+        setEmployee(null);
+      });
+  }, [id]);
+
+  const storeId = employee?.store_id || currentStore?.store_id;
+  const userIds = useMemo(() => (id ? [id] : []), [id]);
+
+  const { reasonCodes, getReasonCodesByCategory } = useReasonCodes({ tenantId: currentTenant?.id, storeId });
+  const timesheetReasons = useMemo(() => {
+    const categorized = getReasonCodesByCategory([TIMESHEET_REASON_CATEGORY]);
+    return categorized.length > 0 ? categorized : reasonCodes.filter(code => code.active);
+  }, [reasonCodes, getReasonCodesByCategory]);
+
+  // Period bounds depend on the rules, so fall back to the defaults until they load
+  const [periodRules, setPeriodRules] = useState(DEFAULT_OVERTIME_RULES);
+  const { start_date: startDate, end_date: endDate } = getPayPeriodRange(anchorDate, periodRules);
+
+  const {
+    rules,
+    payPeriod,
+    timesheets,
+    isLoading,
+    error,
+    setAdjustments,
+    refresh
+  } = useTimesheets({ storeId, userIds, startDate, endDate });
+
+  useEffect(() => {
+    if (rules) setPeriodRules(rules);
+  }, [rules]);
+
+  const timesheet = timesheets[0];
+  const editable = isPayPeriodEditable(payPeriod);
+  const openEntry = timesheet?.days.flatMap(day => day.entries).find(entry => !entry.clock_out);
+
+  const handlePunch = async () => {
+    if (!id) return;
+    setPunching(true);
+    try {
+      if (openEntry) {
+        await userService.clockOut(id);
+        showSuccess('Clocked out');
+      } else {
+        await userService.clockIn(id);
+        showSuccess('Clocked in');
+      }
+      await refresh();
+    } catch (err) {
+      console.error('Failed to record punch:', err);
+      showError(openEntry ? 'Failed to clock out' : 'Failed to clock in');
+    } finally {
+      setPunching(false);
+    }
+  };
+
+  const handleSaveAdjustment = async (data: CreateTimesheetAdjustmentRequest) => {
+    if (!storeId) return;
+    try {
+      const created = await timesheetService.createAdjustment(storeId, data);
+      setAdjustments(prev => [...prev, created]);
+      showSuccess('Timesheet updated');
+    } catch (err) {
+      showError('Failed to update timesheet');
+      throw err;
+    }
+  };
 
   return (
     <div className="space-y-6 p-4 sm:p-6 bg-gray-50 min-h-screen">
       <PageHeader
         title="Employee Time Tracking"
-        description="Track employee work hours and time logs"
+        description={employee ? `Clocked hours and timesheets for ${getUserDisplayName(employee)}` : 'Track employee work hours and time logs'}
       >
-        <Button
-          variant="outline"
-          onClick={() => navigate('/employees')}
-        >
-          <ArrowLeftIcon className="w-4 h-4 mr-2" />
-          Back to Employees
-        </Button>
+        <div className="flex items-center space-x-3">
+          <Button
+            variant="outline"
+            onClick={() => navigate('/employees')}
+          >
+            <ArrowLeftIcon className="w-4 h-4 mr-2" />
+            Back to Employees
+          </Button>
+          <Button variant="outline" onClick={() => navigate(`/employees/${id}/edit`)}>
+            Edit Employee Details
+          </Button>
+        </div>
       </PageHeader>
 
-      <Card className="p-6 text-center">
-        <ClockIcon className="mx-auto h-12 w-12 text-gray-400 mb-4" />
-        <h3 className="text-lg font-medium text-gray-900 mb-2">
-          Time Tracking
-        </h3>
-        <p className="text-gray-500 mb-6">
-          Time tracking features will be available soon. This will include clock in/out functionality, break tracking, and timesheet management.
-        </p>
-        <Button onClick={() => navigate(`/employees/${id}/edit`)}>
-          Edit Employee Details
-        </Button>
+      {/* Clock status */}
+      <Card className="p-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center">
+            <ClockIcon className={`h-10 w-10 ${openEntry ? 'text-green-600' : 'text-gray-400'}`} />
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-600">Status</p>
+              <p className="text-lg font-semibold text-gray-900">
+                {openEntry ? `Clocked in since ${formatClockTime(openEntry.clock_in)}` : 'Clocked out'}
+              </p>
+            </div>
+          </div>
+          <Button
+            onClick={handlePunch}
+            isLoading={punching}
+            disabled={!id || isLoading}
+            variant={openEntry ? 'destructiveReverse' : 'primary'}
+          >
+            {openEntry ? 'Clock Out' : 'Clock In'}
+          </Button>
+        </div>
       </Card>
+
+      {/* Pay period */}
+      <div className="bg-white rounded-lg border border-gray-200 p-4 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center space-x-2">
+          <button onClick={() => setAnchorDate(addDays(startDate, -1))} className="p-2 hover:bg-gray-100 rounded-md" title="Previous period">
+            <ChevronLeftIcon className="h-5 w-5" />
+          </button>
+          <h2 className="text-lg font-semibold text-gray-900 min-w-[240px] text-center">
+            {formatDay(startDate)} – {formatDay(endDate)}
+          </h2>
+          <button onClick={() => setAnchorDate(addDays(endDate, 1))} className="p-2 hover:bg-gray-100 rounded-md" title="Next period">
+            <ChevronRightIcon className="h-5 w-5" />
+          </button>
+          <Button size="sm" variant="outline" onClick={() => setAnchorDate(toDateKey(new Date()))}>Current</Button>
+        </div>
+        <div className="flex items-center space-x-3 text-sm text-gray-600">
+          {timesheet && (
+            <span>
+              Paid <span className="font-semibold text-gray-900">{formatMinutes(timesheet.totals.paid_minutes)}</span>
+            </span>
+          )}
+          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+            payPeriod ? PAY_PERIOD_STATUS_STYLES[payPeriod.status] : 'bg-gray-100 text-gray-600'
+          }`}>
+            {!editable && <LockClosedIcon className="h-3 w-3 mr-1" />}
+            {payPeriod ? PAY_PERIOD_STATUS_LABELS[payPeriod.status] : 'Not opened'}
+          </span>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      )}
+
+      {isLoading || !rules || !timesheet ? (
+        <div className="flex items-center justify-center py-16">
+          <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <TimesheetTable
+          timesheet={timesheet}
+          rules={rules}
+          editable={editable}
+          onEditEntry={(entry) => setEntryModal({ isOpen: true, entry })}
+          onAddEntry={(date) => setEntryModal({ isOpen: true, entry: null, date })}
+        />
+      )}
+
+      <TimeEntryEditModal
+        isOpen={entryModal.isOpen}
+        onClose={() => setEntryModal({ isOpen: false, entry: null })}
+        entry={entryModal.entry}
+        userId={id || ''}
+        date={entryModal.date}
+        reasonCodes={timesheetReasons}
+        onSubmit={handleSaveAdjustment}
+      />
     </div>
   );
 };
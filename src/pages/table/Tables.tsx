@@ -10,7 +10,8 @@ import {
   EyeIcon,
   PencilIcon,
   TrashIcon,
-  LinkIcon
+  LinkIcon,
+  MapIcon
 } from '@heroicons/react/24/outline';
 import { tableApiService } from '../../services/table';
 import { 
@@ -22,12 +23,16 @@ import {
   Loading, 
   PageContainer 
 } from '../../components/ui';
+import { FloorPlanEditor } from '../../components/table';
+import type { FloorPlanUpdate } from '../../components/table';
 import type { FilterConfig, ViewMode, Column } from '../../components/ui';
-import type { EnhancedTable, EnhancedZone, EnhancedReservation, TableStatus, ReservationStatus } from '../../types/table';
+import type { EnhancedTable, EnhancedZone, EnhancedReservation, TableStatus, TableStatusEntity, ReservationStatus } from '../../types/table';
 import useTenantStore from '../../tenants/tenantStore';
 import { useDeleteConfirmDialog } from '../../hooks/useConfirmDialog';
 import { useError } from '../../hooks/useError';
 
+const FLOOR_PLAN_REFRESH_INTERVAL = 30000;
+
 const Tables: React.FC = () => {
   const { t } = useTranslation();
   const navigate = useNavigate();
@@ -38,10 +43,11 @@ const Tables: React.FC = () => {
   const [tables, setTables] = useState<EnhancedTable[]>([]);
   const [zones, setZones] = useState<EnhancedZone[]>([]);
   const [reservations, setReservations] = useState<EnhancedReservation[]>([]);
+  const [tableStatuses, setTableStatuses] = useState<TableStatusEntity[]>([]);
   const [loading, setLoading] = useState(true);
   
   // UI state
-  const [activeTab, setActiveTab] = useState<'tables' | 'zones' | 'reservations'>('tables');
+  const [activeTab, setActiveTab] = useState<'tables' | 'zones' | 'reservations' | 'floorPlan'>('tables');
   const [viewMode, setViewMode] = useState<ViewMode>('grid');
   
   // Filter state - Tables
@@ -103,17 +109,63 @@ const Tables: React.FC = () => {
       setTables(tablesWithStatus);
       setZones(zonesData);
       setReservations(reservationsData);
+      setTableStatuses(statusesData);
     } catch (error) {
       console.error('Failed to load table data:', error);
       showError(t('tables.errors.loadFailed'));
       setTables([]);
       setZones([]);
       setReservations([]);
+      setTableStatuses([]);
     } finally {
       setLoading(false);
     }
   };
 
+  const loadTableStatuses = async () => {
+    if (!currentTenant?.id || !currentStore?.store_id) return;
+
+    try {
+      const statusesData = await tableApiService.getTableStatuses({
+        tenant_id: currentTenant.id,
+        store_id: currentStore.store_id,
+      });
+      setTableStatuses(statusesData);
+    } catch (error) {
+      console.error('Failed to refresh table statuses:', error);
+    }
+  };
+
+  // Keep the live floor plan current while it is open
+  useEffect(() => {
+    if (activeTab !== 'floorPlan') return;
+    const interval = setInterval(loadTableStatuses, FLOOR_PLAN_REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeTab, currentTenant?.id, currentStore?.store_id]);
+
+  const handleSaveFloorPlan = async (updates: FloorPlanUpdate[]) => {
+    const context = {
+      tenant_id: currentTenant?.id,
+      store_id: currentStore?.store_id,
+    };
+
+    try {
+      await Promise.all(updates.map(update => tableApiService.updateTable(update.tableId, update.changes, context)));
+      // Apply locally rather than reloading so the editor keeps its zone and mode
+      const changesById = new Map(updates.map(update => [update.tableId, update.changes]));
+      setTables(prev => prev.map(table => {
+        const changes = changesById.get(table.table_id);
+        return changes ? { ...table, ...changes } : table;
+      }));
+      showSuccess(t('tables.floorPlan.saveSuccess', { count: updates.length }));
+    } catch (error) {
+      console.error('Failed to save floor plan:', error);
+      showError(t('tables.floorPlan.saveError'));
+      throw error;
+    }
+  };
+
   const handleDeleteTable = async (tableId: string) => {
     const table = tables.find(t => t.table_id === tableId);
     if (!table) return;
@@ -968,6 +1020,17 @@ const Tables: React.FC = () => {
               {reservations.length}
             </span>
           </button>
+          <button
+            onClick={() => setActiveTab('floorPlan')}
+            className={`${
+              activeTab === 'floorPlan'
+                ? 'border-blue-500 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            } whitespace-nowrap py-3 px-1 border-b-2 font-medium text-sm flex items-center space-x-2`}
+          >
+            <MapIcon className="h-4 w-4" />
+            <span>{t('tables.tabs.floorPlan')}</span>
+          </button>
         </nav>
       </div>
 
@@ -1182,6 +1245,17 @@ const Tables: React.FC = () => {
         </>
       )}
 
+      {activeTab === 'floorPlan' && (
+        <FloorPlanEditor
+          zones={zones}
+          tables={tables}
+          statuses={tableStatuses}
+          onSave={handleSaveFloorPlan}
+          onRefreshStatuses={loadTableStatuses}
+          onTableClick={(table) => navigate(`/tables/${table.table_id}`)}
+        />
+      )}
+
       {/* Delete Confirmation Dialog */}
       <ConfirmDialog
         isOpen={deleteDialog.dialogState.isOpen}
@@ -0,0 +1,63 @@
+/**
+ * Billing Backend
+ *
+ * Contract shared by the billing implementations behind billingService:
+ *   - HttpBillingBackend  → tenant billing API (/tenant/billing/*), the default
+ *   - MockBillingBackend  → in-memory Stripe-shaped data for local development
+ *
+ * Select one with VITE_BILLING_BACKEND=http|mock.
+ */
+
+import type {
+  SubscriptionPlan,
+  Subscription,
+  Invoice,
+  InvoiceListResponse,
+  PaymentMethod,
+  BillingOverview,
+  BillingPortalSession,
+  CancelSubscriptionRequest,
+  ChangePlanRequest,
+} from '../types/billing.types';
+import { HttpBillingBackend } from './httpBillingBackend';
+import { MockBillingBackend } from './mockBillingBackend';
+
+export type BillingBackendKind = 'http' | 'mock';
+
+export interface BillingBackend {
+  readonly kind: BillingBackendKind;
+
+  // ── Overview ────────────────────────────────────────────────────────────
+  getBillingOverview(): Promise<BillingOverview>;
+
+  // ── Plans ───────────────────────────────────────────────────────────────
+  getPlans(): Promise<SubscriptionPlan[]>;
+
+  // ── Subscription ────────────────────────────────────────────────────────
+  getSubscription(): Promise<Subscription>;
+  changePlan(request: ChangePlanRequest): Promise<Subscription>;
+  cancelSubscription(request?: CancelSubscriptionRequest): Promise<Subscription>;
+  reactivateSubscription(): Promise<Subscription>;
+
+  // ── Stripe Customer Portal ──────────────────────────────────────────────
+  createPortalSession(): Promise<BillingPortalSession>;
+
+  // ── Invoices ────────────────────────────────────────────────────────────
+  getInvoices(page: number, limit: number): Promise<InvoiceListResponse>;
+  /** Resolves to null when the invoice does not exist for this tenant */
+  getInvoiceById(invoiceId: string): Promise<Invoice | null>;
+
+  // ── Payment Methods ─────────────────────────────────────────────────────
+  getPaymentMethods(): Promise<PaymentMethod[]>;
+  /** Returns the updated list so callers can re-render the default badge */
+  setDefaultPaymentMethod(paymentMethodId: string): Promise<PaymentMethod[]>;
+  removePaymentMethod(paymentMethodId: string): Promise<void>;
+}
+
+/**
+ * Resolve the configured backend. Anything other than "mock" talks to the API,
+ * so a missing or mistyped flag never silently shows fake invoices.
+ */
+export function createBillingBackend(kind: string | undefined = import.meta.env.VITE_BILLING_BACKEND): BillingBackend {
+  return kind === 'mock' ? new MockBillingBackend() : new HttpBillingBackend();
+}
@@ -5,7 +5,7 @@
  * All IDs follow Stripe naming conventions (sub_xxx, in_xxx, pm_xxx, price_xxx)
  * so swapping to real Stripe data requires minimal changes.
  * 
- * TODO: Replace with real Stripe API calls when backend is ready.
+ * Backs MockBillingBackend (VITE_BILLING_BACKEND=mock) for local development.
  */
 
 import type {
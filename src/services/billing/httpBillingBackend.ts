@@ -0,0 +1,209 @@
+/**
+ * HTTP Billing Backend
+ *
+ * Calls the tenant billing API. The backend owns every Stripe call; the
+ * tenant is taken from the X-Tenant-Id header that apiClient injects.
+ *
+ *   GET    /tenant/billing                              → overview
+ *   GET    /tenant/billing/plans                        → Stripe Products + Prices
+ *   GET    /tenant/billing/subscription
+ *   POST   /tenant/billing/change-plan                  → subscription update with proration
+ *   POST   /tenant/billing/cancel                       → cancel_at_period_end / immediate
+ *   POST   /tenant/billing/reactivate
+ *   POST   /tenant/billing/portal-session               → Stripe Customer Portal
+ *   GET    /tenant/billing/invoices?page=X&limit=Y
+ *   GET    /tenant/billing/invoices/:id
+ *   GET    /tenant/billing/payment-methods
+ *   POST   /tenant/billing/payment-methods/:id/default
+ *   DELETE /tenant/billing/payment-methods/:id
+ */
+
+import { apiClient, ApiError } from '../api';
+import type {
+  SubscriptionPlan,
+  Subscription,
+  Invoice,
+  InvoiceListResponse,
+  PaymentMethod,
+  BillingOverview,
+  BillingPortalSession,
+  CancelSubscriptionRequest,
+  ChangePlanRequest,
+} from '../types/billing.types';
+import type { BillingBackend } from './billingBackend';
+
+export class HttpBillingBackend implements BillingBackend {
+  readonly kind = 'http' as const;
+  private basePath = '/tenant/billing';
+
+  // ── Overview ────────────────────────────────────────────────────────────
+
+  async getBillingOverview(): Promise<BillingOverview> {
+    try {
+      const response = await apiClient.get<BillingOverview>(this.basePath);
+      return {
+        ...response.data,
+        payment_methods: response.data.payment_methods || [],
+        recent_invoices: response.data.recent_invoices || [],
+        usage: response.data.usage || [],
+      };
+    } catch (error) {
+      console.error('❌ Failed to fetch billing overview:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  // ── Plans ───────────────────────────────────────────────────────────────
+
+  async getPlans(): Promise<SubscriptionPlan[]> {
+    try {
+      const response = await apiClient.get<SubscriptionPlan[]>(`${this.basePath}/plans`);
+      return response.data || [];
+    } catch (error) {
+      console.error('❌ Failed to fetch plans:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  // ── Subscription ────────────────────────────────────────────────────────
+
+  async getSubscription(): Promise<Subscription> {
+    try {
+      const response = await apiClient.get<Subscription>(`${this.basePath}/subscription`);
+      return response.data;
+    } catch (error) {
+      console.error('❌ Failed to fetch subscription:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  async changePlan(request: ChangePlanRequest): Promise<Subscription> {
+    try {
+      const response = await apiClient.post<Subscription>(`${this.basePath}/change-plan`, request);
+      console.log('✅ Plan changed:', request.plan_id);
+      return response.data;
+    } catch (error) {
+      console.error('❌ Failed to change plan:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  async cancelSubscription(request: CancelSubscriptionRequest = {}): Promise<Subscription> {
+    try {
+      const response = await apiClient.post<Subscription>(`${this.basePath}/cancel`, request);
+      console.log('✅ Subscription cancellation requested');
+      return response.data;
+    } catch (error) {
+      console.error('❌ Failed to cancel subscription:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  async reactivateSubscription(): Promise<Subscription> {
+    try {
+      const response = await apiClient.post<Subscription>(`${this.basePath}/reactivate`, {});
+      console.log('✅ Subscription reactivated');
+      return response.data;
+    } catch (error) {
+      console.error('❌ Failed to reactivate subscription:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  // ── Stripe Customer Portal ──────────────────────────────────────────────
+
+  async createPortalSession(): Promise<BillingPortalSession> {
+    try {
+      const response = await apiClient.post<BillingPortalSession>(`${this.basePath}/portal-session`, {});
+      if (!response.data?.url) {
+        throw new ApiError('Billing portal session did not include a URL', 502, 'PORTAL_SESSION_INVALID');
+      }
+      return response.data;
+    } catch (error) {
+      console.error('❌ Failed to create billing portal session:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  // ── Invoices ────────────────────────────────────────────────────────────
+
+  async getInvoices(page: number, limit: number): Promise<InvoiceListResponse> {
+    try {
+      const response = await apiClient.get<InvoiceListResponse>(`${this.basePath}/invoices`, { page, limit });
+      const invoices = response.data.invoices || [];
+      return {
+        invoices,
+        total: response.data.total ?? invoices.length,
+        page: response.data.page ?? page,
+        limit: response.data.limit ?? limit,
+      };
+    } catch (error) {
+      console.error('❌ Failed to fetch invoices:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  async getInvoiceById(invoiceId: string): Promise<Invoice | null> {
+    try {
+      const response = await apiClient.get<Invoice>(`${this.basePath}/invoices/${encodeURIComponent(invoiceId)}`);
+      return response.data;
+    } catch (error) {
+      if (error instanceof ApiError && error.code === 404) {
+        return null;
+      }
+      console.error('❌ Failed to fetch invoice:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  // ── Payment Methods ─────────────────────────────────────────────────────
+
+  async getPaymentMethods(): Promise<PaymentMethod[]> {
+    try {
+      const response = await apiClient.get<PaymentMethod[]>(`${this.basePath}/payment-methods`);
+      return response.data || [];
+    } catch (error) {
+      console.error('❌ Failed to fetch payment methods:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  async setDefaultPaymentMethod(paymentMethodId: string): Promise<PaymentMethod[]> {
+    try {
+      const response = await apiClient.post<PaymentMethod[]>(
+        `${this.basePath}/payment-methods/${encodeURIComponent(paymentMethodId)}/default`,
+        {}
+      );
+      console.log('✅ Default payment method updated');
+      // Older API builds answer with no body; fall back to a fresh list
+      return response.data || this.getPaymentMethods();
+    } catch (error) {
+      console.error('❌ Failed to set default payment method:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  async removePaymentMethod(paymentMethodId: string): Promise<void> {
+    try {
+      await apiClient.delete(`${this.basePath}/payment-methods/${encodeURIComponent(paymentMethodId)}`);
+      console.log('✅ Payment method removed');
+    } catch (error) {
+      console.error('❌ Failed to remove payment method:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  // ── Error Handling ──────────────────────────────────────────────────────
+
+  private handleError(error: unknown): ApiError {
+    if (error instanceof ApiError) {
+      return error;
+    }
+
+    return new ApiError(
+      error instanceof Error ? error.message : 'An unexpected error occurred while processing your request',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * Mock Billing Backend
+ *
+ * In-memory billing for local development (VITE_BILLING_BACKEND=mock).
+ * Starts from billingMockData and keeps changes for the lifetime of the page,
+ * so plan changes, cancellation and payment method edits can be exercised
+ * without a Stripe account.
+ */
+
+import type {
+  SubscriptionPlan,
+  Subscription,
+  Invoice,
+  InvoiceListResponse,
+  PaymentMethod,
+  BillingOverview,
+  BillingPortalSession,
+  CancelSubscriptionRequest,
+  ChangePlanRequest,
+} from '../types/billing.types';
+import type { BillingBackend } from './billingBackend';
+
+import {
+  MOCK_BILLING_OVERVIEW,
+  MOCK_PLANS,
+  MOCK_INVOICES,
+  MOCK_PAYMENT_METHODS,
+  MOCK_SUBSCRIPTION,
+} from './billingMockData';
+
+// Simulate API delay
+const delay = (ms: number = 600) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+export class MockBillingBackend implements BillingBackend {
+  readonly kind = 'mock' as const;
+
+  // ── Local mock state (simulates backend) ────────────────────────────────
+  private _subscription: Subscription = { ...MOCK_SUBSCRIPTION };
+  private _paymentMethods: PaymentMethod[] = [...MOCK_PAYMENT_METHODS];
+  private _invoices: Invoice[] = [...MOCK_INVOICES];
+
+  // ── Overview ────────────────────────────────────────────────────────────
+
+  async getBillingOverview(): Promise<BillingOverview> {
+    await delay();
+    return {
+      ...MOCK_BILLING_OVERVIEW,
+      subscription: { ...this._subscription },
+      payment_methods: [...this._paymentMethods],
+      recent_invoices: this._invoices.slice(0, 5),
+    };
+  }
+
+  // ── Plans ───────────────────────────────────────────────────────────────
+
+  async getPlans(): Promise<SubscriptionPlan[]> {
+    await delay(400);
+    return [...MOCK_PLANS];
+  }
+
+  // ── Subscription ───────────────────────────────────────────────────────
+
+  async getSubscription(): Promise<Subscription> {
+    await delay();
+    return { ...this._subscription };
+  }
+
+  async changePlan(request: ChangePlanRequest): Promise<Subscription> {
+    await delay(1200);
+
+    const newPlan = MOCK_PLANS.find((p) => p.id === request.plan_id);
+    if (!newPlan) {
+      throw new Error('Plan not found');
+    }
+
+    const unitAmount = request.billing_interval === 'year' ? newPlan.price_yearly : newPlan.price_monthly;
+
+    this._subscription = {
+      ...this._subscription,
+      plan: newPlan,
+      billing_interval: request.billing_interval,
+      unit_amount: unitAmount,
+      estimated_monthly_cost: unitAmount * this._subscription.seat_count,
+      status: 'active',
+      cancel_at_period_end: false,
+    };
+
+    return { ...this._subscription };
+  }
+
+  async cancelSubscription(request?: CancelSubscriptionRequest): Promise<Subscription> {
+    await delay(800);
+
+    if (request?.cancel_immediately) {
+      this._subscription = {
+        ...this._subscription,
+        status: 'canceled',
+        cancel_at_period_end: false,
+        canceled_at: new Date().toISOString(),
+        cancel_reason: request.reason,
+      };
+    } else {
+      this._subscription = {
+        ...this._subscription,
+        cancel_at_period_end: true,
+        cancel_reason: request?.reason,
+      };
+    }
+
+    return { ...this._subscription };
+  }
+
+  async reactivateSubscription(): Promise<Subscription> {
+    await delay(800);
+
+    this._subscription = {
+      ...this._subscription,
+      status: 'active',
+      cancel_at_period_end: false,
+      canceled_at: undefined,
+      cancel_reason: undefined,
+    };
+
+    return { ...this._subscription };
+  }
+
+  // ── Stripe Customer Portal ─────────────────────────────────────────────
+
+  async createPortalSession(): Promise<BillingPortalSession> {
+    await delay(600);
+    return { url: 'https://billing.stripe.com/p/session/test_portal_session' };
+  }
+
+  // ── Invoices ───────────────────────────────────────────────────────────
+
+  async getInvoices(page: number, limit: number): Promise<InvoiceListResponse> {
+    await delay();
+    const start = (page - 1) * limit;
+    const end = start + limit;
+    return {
+      invoices: this._invoices.slice(start, end),
+      total: this._invoices.length,
+      page,
+      limit,
+    };
+  }
+
+  async getInvoiceById(invoiceId: string): Promise<Invoice | null> {
+    await delay(400);
+    return this._invoices.find((inv) => inv.id === invoiceId) || null;
+  }
+
+  // ── Payment Methods ────────────────────────────────────────────────────
+
+  async getPaymentMethods(): Promise<PaymentMethod[]> {
+    await delay(400);
+    return [...this._paymentMethods];
+  }
+
+  async setDefaultPaymentMethod(paymentMethodId: string): Promise<PaymentMethod[]> {
+    await delay(600);
+    this._paymentMethods = this._paymentMethods.map((pm) => ({
+      ...pm,
+      is_default: pm.id === paymentMethodId,
+    }));
+    this._subscription.default_payment_method_id = paymentMethodId;
+    return [...this._paymentMethods];
+  }
+
+  async removePaymentMethod(paymentMethodId: string): Promise<void> {
+    await delay(600);
+    const pm = this._paymentMethods.find((p) => p.id === paymentMethodId);
+    if (pm?.is_default) {
+      throw new Error('Cannot remove the default payment method. Set another one as default first.');
+    }
+    this._paymentMethods = this._paymentMethods.filter((p) => p.id !== paymentMethodId);
+  }
+}
@@ -0,0 +1,140 @@
+// Customer management service for POS system
+import { apiClient, ApiError } from '../api';
+import { transactionService } from '../transaction/transactionService';
+import type {
+  Customer,
+  CreateCustomerRequest,
+  UpdateCustomerRequest,
+  CustomerQueryParams,
+  CustomersResponse,
+  CustomerPurchase,
+  CustomerPurchaseHistory,
+  CustomerPurchaseHistoryParams
+} from '../types/customer.types';
+
+export class CustomerService {
+  private readonly basePath = '/v0/customer';
+
+  /**
+   * Get customers for the current tenant with server-side search and pagination
+   */
+  async getCustomers(params: CustomerQueryParams = {}): Promise<CustomersResponse> {
+    try {
+      console.log('🔍 Fetching customers with params:', params);
+
+      const response = await apiClient.get<CustomersResponse>(this.basePath, params);
+      return response.data;
+    } catch (error) {
+      console.error('❌ Failed to fetch customers:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get a specific customer by ID
+   */
+  async getCustomerById(customerId: string): Promise<Customer> {
+    try {
+      const response = await apiClient.get<Customer>(`${this.basePath}/${customerId}`);
+      return response.data;
+    } catch (error) {
+      console.error('❌ Failed to fetch customer:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Create a new customer
+   */
+  async createCustomer(data: CreateCustomerRequest): Promise<Customer> {
+    try {
+      const response = await apiClient.post<Customer>(this.basePath, data);
+      console.log('✅ Customer created:', response.data.customer_id);
+      return response.data;
+    } catch (error) {
+      console.error('❌ Failed to create customer:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Update an existing customer
+   */
+  async updateCustomer(customerId: string, data: UpdateCustomerRequest): Promise<Customer> {
+    try {
+      const response = await apiClient.put<Customer>(`${this.basePath}/${customerId}`, data);
+      console.log('✅ Customer updated:', customerId);
+      return response.data;
+    } catch (error) {
+      console.error('❌ Failed to update customer:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Delete a customer
+   */
+  async deleteCustomer(customerId: string): Promise<void> {
+    try {
+      await apiClient.delete(`${this.basePath}/${customerId}`);
+      console.log('✅ Customer deleted:', customerId);
+    } catch (error) {
+      console.error('❌ Failed to delete customer:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get the purchase history of a customer in a store.
+   *
+   * The summary endpoint is narrowed with the customer filter, then each
+   * transaction detail is loaded and joined on TransactionDetail.customer_id
+   * so that only transactions actually attributed to the customer are returned.
+   */
+  async getPurchaseHistory(
+    storeId: string,
+    customerId: string,
+    params: CustomerPurchaseHistoryParams = {}
+  ): Promise<CustomerPurchaseHistory> {
+    try {
+      const summaryResponse = await transactionService.getTransactionSummary(storeId, {
+        ...params,
+        filter_type: 'customer',
+        value: customerId
+      });
+
+      const purchases = await Promise.all(
+        summaryResponse.datalist.map(async (summary): Promise<CustomerPurchase> => ({
+          summary,
+          detail: await transactionService.getTransactionDetail(storeId, summary.trans_id)
+        }))
+      );
+
+      return {
+        purchases: purchases.filter(purchase => purchase.detail.customer_id === customerId),
+        next: summaryResponse.next
+      };
+    } catch (error) {
+      console.error('❌ Failed to fetch customer purchase history:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Handle API errors
+   */
+  private handleError(error: unknown): ApiError {
+    if (error instanceof ApiError) {
+      return error;
+    }
+
+    return new ApiError(
+      error instanceof Error ? error.message : 'An unexpected error occurred while processing your request',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+}
+
+// Export a singleton instance
+export const customerService = new CustomerService();
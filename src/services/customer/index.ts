@@ -0,0 +1,14 @@
+export { customerService, CustomerService } from './customerService';
+export type {
+  Customer,
+  CustomerAddress,
+  CustomerStatus,
+  CustomerGender,
+  CreateCustomerRequest,
+  UpdateCustomerRequest,
+  CustomerQueryParams,
+  CustomersResponse,
+  CustomerPurchase,
+  CustomerPurchaseHistory,
+  CustomerPurchaseHistoryParams
+} from '../types/customer.types';
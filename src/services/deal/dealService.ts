@@ -0,0 +1,92 @@
+// Deal service: BOGO, mix-and-match, threshold and bundle deals per store
+import { apiClient, ApiError } from '../api';
+import { validateDeal } from './dealUtils';
+import type { Deal, CreateDealRequest, DealsResponse } from '../../types/deal';
+
+export class DealService {
+  private basePath(storeId: string): string {
+    return `/v0/store/${storeId}/deal`;
+  }
+
+  /**
+   * Get all deals for a store
+   */
+  async getDeals(storeId: string): Promise<Deal[]> {
+    try {
+      const response = await apiClient.get<DealsResponse>(this.basePath(storeId));
+      return response.data.deals || [];
+    } catch (error) {
+      console.error('❌ Failed to fetch deals:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Create a deal
+   */
+  async createDeal(storeId: string, data: CreateDealRequest): Promise<Deal> {
+    const validationError = validateDeal(data);
+    if (validationError) {
+      throw new ApiError(validationError, 400, 'INVALID_DEAL');
+    }
+
+    try {
+      const response = await apiClient.post<Deal>(this.basePath(storeId), data);
+      console.log('✅ Deal created:', response.data.deal_id);
+      return response.data;
+    } catch (error) {
+      console.error('❌ Failed to create deal:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Replace a deal's definition
+   */
+  async updateDeal(storeId: string, dealId: string, data: CreateDealRequest): Promise<Deal> {
+    const validationError = validateDeal(data);
+    if (validationError) {
+      throw new ApiError(validationError, 400, 'INVALID_DEAL');
+    }
+
+    try {
+      const response = await apiClient.put<Deal>(`${this.basePath(storeId)}/${dealId}`, data);
+      console.log('✅ Deal updated:', dealId);
+      return response.data;
+    } catch (error) {
+      console.error('❌ Failed to update deal:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Delete a deal. Past transactions keep their deal_id.
+   */
+  async deleteDeal(storeId: string, dealId: string): Promise<void> {
+    try {
+      await apiClient.delete(`${this.basePath(storeId)}/${dealId}`);
+      console.log('✅ Deal deleted:', dealId);
+    } catch (error) {
+      console.error('❌ Failed to delete deal:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Handle API errors
+   */
+  private handleError(error: unknown): ApiError {
+    if (error instanceof ApiError) {
+      return error;
+    }
+
+    return new ApiError(
+      error instanceof Error ? error.message : 'An unexpected error occurred while processing your request',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+}
+
+// Export a singleton instance
+export const dealService = new DealService();
@@ -0,0 +1,327 @@
+// Deal engine: availability, per-deal evaluation and best-combination simulation
+import type {
+  CreateDealRequest,
+  Deal,
+  DealApplication,
+  DealCandidate,
+  DealComponent,
+  DealRewardType,
+  DealSimulationResult,
+  SimulatedPriceModifier,
+  SimulationCartLine
+} from '../../types/deal';
+
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/** One unit of a cart line; deals consume units so they cannot be used twice */
+interface CartUnit {
+  line_index: number;
+  item_id: string;
+  category_ids: string[];
+  price: number;
+}
+
+interface DealEvaluation {
+  count: number;
+  savings: number;
+  /** Savings by position in the unit list */
+  unit_savings: Map<number, number>;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+export type DealStatus = 'active' | 'scheduled' | 'expired' | 'disabled';
+
+/** Status from the enabled flag and date range; day and time windows are not considered */
+export const getDealStatus = (deal: Pick<Deal, 'active' | 'effective_datetime' | 'expr_datetime'>, now: Date = new Date()): DealStatus => {
+  if (!deal.active) return 'disabled';
+  if (new Date(deal.effective_datetime).getTime() > now.getTime()) return 'scheduled';
+  if (deal.expr_datetime && new Date(deal.expr_datetime).getTime() < now.getTime()) return 'expired';
+  return 'active';
+};
+
+/**
+ * Why the deal cannot apply at a moment, or null when it can
+ */
+export const getDealUnavailableReason = (
+  deal: Pick<Deal, 'active' | 'effective_datetime' | 'expr_datetime' | 'days_of_week' | 'start_time' | 'end_time'>,
+  at: Date = new Date()
+): string | null => {
+  if (!deal.active) return 'Disabled';
+  if (new Date(deal.effective_datetime).getTime() > at.getTime()) return 'Not started yet';
+  if (deal.expr_datetime && new Date(deal.expr_datetime).getTime() < at.getTime()) return 'Expired';
+  if (deal.days_of_week.length > 0 && !deal.days_of_week.includes(at.getDay())) {
+    return `Not available on ${DAY_NAMES[at.getDay()]}`;
+  }
+  if (deal.start_time && deal.end_time) {
+    const minutes = at.getHours() * 60 + at.getMinutes();
+    const start = toMinutes(deal.start_time);
+    const end = toMinutes(deal.end_time);
+    // A window like 22:00–02:00 runs past midnight
+    const inWindow = start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+    if (!inWindow) return `Only between ${deal.start_time} and ${deal.end_time}`;
+  }
+  return null;
+};
+
+export const isComponentEmpty = (component: DealComponent | undefined): boolean =>
+  !component || (component.item_ids.length === 0 && component.category_ids.length === 0);
+
+export const matchesComponent = (line: Pick<SimulationCartLine, 'item_id' | 'category_ids'>, component: DealComponent): boolean =>
+  component.item_ids.includes(line.item_id)
+  || line.category_ids.some(categoryId => component.category_ids.includes(categoryId));
+
+/** Savings on one unit when the reward applies per unit */
+export const getUnitSavings = (price: number, rewardType: DealRewardType, value: number): number => {
+  switch (rewardType) {
+    case 'FREE':
+      return price;
+    case 'PERCENT':
+      return price * Math.min(value, 100) / 100;
+    case 'AMOUNT':
+      return Math.min(value, price);
+    case 'FIXED_PRICE':
+      return Math.max(0, price - value);
+  }
+};
+
+/** Whole-unit expansion; fractional (weighed) quantities never count towards deals */
+const expandUnits = (cart: SimulationCartLine[]): CartUnit[] =>
+  cart.flatMap((line, lineIndex) => Array.from({ length: Math.max(0, Math.floor(line.quantity)) }, () => ({
+    line_index: lineIndex,
+    item_id: line.item_id,
+    category_ids: line.category_ids,
+    price: line.unit_price
+  })));
+
+/** Spread a set's savings over its units by price, keeping the cents exact */
+const spreadSavings = (units: CartUnit[], picks: number[], savings: number, into: Map<number, number>) => {
+  const total = picks.reduce((sum, index) => sum + units[index].price, 0);
+  let remaining = round2(savings);
+  picks.forEach((index, position) => {
+    const share = position === picks.length - 1
+      ? remaining
+      : round2(total > 0 ? savings * units[index].price / total : savings / picks.length);
+    remaining = round2(remaining - share);
+    into.set(index, round2((into.get(index) || 0) + share));
+  });
+};
+
+/**
+ * Apply one deal as many times as it fits the available units. Units are
+ * tried most expensive first, except BUY_X_GET_Y rewards the cheapest.
+ */
+const evaluateDeal = (deal: Deal, units: CartUnit[], available: Set<number>): DealEvaluation | null => {
+  const byPrice = [...available].sort((a, b) => units[b].price - units[a].price);
+  const limit = deal.max_applications ?? Infinity;
+  const used = new Set<number>();
+  const unitSavings = new Map<number, number>();
+  let count = 0;
+
+  const take = (component: DealComponent, quantity: number, cheapestFirst = false): number[] | null => {
+    const order = cheapestFirst ? [...byPrice].reverse() : byPrice;
+    const picks = order.filter(index => !used.has(index) && matchesComponent(units[index], component)).slice(0, quantity);
+    return picks.length === quantity ? picks : null;
+  };
+
+  switch (deal.deal_type) {
+    case 'BUY_X_GET_Y': {
+      const [buy, get] = deal.components;
+      const reward = isComponentEmpty(get) ? { ...buy, quantity: get?.quantity || 1 } : get;
+      while (count < limit) {
+        const buyPicks = take(buy, buy.quantity);
+        if (!buyPicks) break;
+        buyPicks.forEach(index => used.add(index));
+        const getPicks = take(reward, reward.quantity, true);
+        if (!getPicks) {
+          buyPicks.forEach(index => used.delete(index));
+          break;
+        }
+        getPicks.forEach(index => {
+          used.add(index);
+          unitSavings.set(index, round2(getUnitSavings(units[index].price, deal.reward_type, deal.reward_value)));
+        });
+        count += 1;
+      }
+      break;
+    }
+    case 'MIX_AND_MATCH':
+    case 'BUNDLE_PRICE': {
+      const slots = deal.deal_type === 'MIX_AND_MATCH' ? deal.components.slice(0, 1) : deal.components;
+      while (count < limit) {
+        const picks: number[] = [];
+        for (const slot of slots) {
+          const slotPicks = take(slot, slot.quantity);
+          if (!slotPicks) break;
+          slotPicks.forEach(index => used.add(index));
+          picks.push(...slotPicks);
+        }
+        if (picks.length !== slots.reduce((sum, slot) => sum + slot.quantity, 0)) {
+          picks.forEach(index => used.delete(index));
+          break;
+        }
+        const setPrice = picks.reduce((sum, index) => sum + units[index].price, 0);
+        spreadSavings(units, picks, getUnitSavings(setPrice, deal.reward_type, deal.reward_value), unitSavings);
+        count += 1;
+      }
+      break;
+    }
+    case 'QUANTITY_THRESHOLD': {
+      const [pool] = deal.components;
+      const matching = byPrice.filter(index => matchesComponent(units[index], pool));
+      if (matching.length >= pool.quantity) {
+        matching.forEach(index => {
+          used.add(index);
+          unitSavings.set(index, round2(getUnitSavings(units[index].price, deal.reward_type, deal.reward_value)));
+        });
+        count = 1;
+      }
+      break;
+    }
+  }
+
+  if (count === 0) return null;
+  const savings = round2([...unitSavings.values()].reduce((sum, value) => sum + value, 0));
+  // Consumed units that earned nothing still belong to the deal
+  used.forEach(index => {
+    if (!unitSavings.has(index)) unitSavings.set(index, 0);
+  });
+  return { count, savings, unit_savings: unitSavings };
+};
+
+const toApplication = (deal: Deal, units: CartUnit[], evaluation: DealEvaluation): DealApplication => {
+  const lineSavings: Record<number, number> = {};
+  evaluation.unit_savings.forEach((savings, index) => {
+    const lineIndex = units[index].line_index;
+    lineSavings[lineIndex] = round2((lineSavings[lineIndex] || 0) + savings);
+  });
+  return { deal, count: evaluation.count, savings: evaluation.savings, line_savings: lineSavings };
+};
+
+/**
+ * Work out which deals a basket gets. Each round applies the available deal
+ * that saves the most on the units still free (priority breaks ties), so a
+ * unit only ever counts towards one deal.
+ */
+export const simulateDeals = (deals: Deal[], cart: SimulationCartLine[], at: Date = new Date()): DealSimulationResult => {
+  const units = expandUnits(cart);
+  const everything = new Set(units.map((_unit, index) => index));
+
+  const candidates: DealCandidate[] = deals.map(deal => {
+    const reason = getDealUnavailableReason(deal, at);
+    if (reason) return { deal, savings: null, reason };
+    const evaluation = evaluateDeal(deal, units, everything);
+    return evaluation && evaluation.savings > 0
+      ? { deal, savings: evaluation.savings }
+      : { deal, savings: null, reason: 'Basket does not qualify' };
+  });
+
+  const remaining = new Set(everything);
+  const pending = candidates.filter(candidate => candidate.savings !== null).map(candidate => candidate.deal);
+  const applied: DealApplication[] = [];
+
+  while (pending.length > 0) {
+    let best: { deal: Deal; evaluation: DealEvaluation } | null = null;
+    for (const deal of pending) {
+      const evaluation = evaluateDeal(deal, units, remaining);
+      if (!evaluation || evaluation.savings <= 0) continue;
+      if (!best
+        || evaluation.savings > best.evaluation.savings
+        || (evaluation.savings === best.evaluation.savings && deal.priority > best.deal.priority)) {
+        best = { deal, evaluation };
+      }
+    }
+    if (!best) break;
+
+    applied.push(toApplication(best.deal, units, best.evaluation));
+    best.evaluation.unit_savings.forEach((_savings, index) => remaining.delete(index));
+    pending.splice(pending.indexOf(best.deal), 1);
+  }
+
+  const modifiers: SimulatedPriceModifier[] = applied.flatMap(application =>
+    Object.entries(application.line_savings)
+      .filter(([, amount]) => amount > 0)
+      .map(([lineIndex, amount]) => ({
+        line_index: Number(lineIndex),
+        reason: 'DEAL' as const,
+        amount,
+        deal_id: application.deal.deal_id,
+        desc: application.deal.name
+      })));
+
+  return {
+    candidates,
+    applied,
+    modifiers,
+    subtotal: round2(cart.reduce((sum, line) => sum + line.unit_price * line.quantity, 0)),
+    total_savings: round2(applied.reduce((sum, application) => sum + application.savings, 0))
+  };
+};
+
+/**
+ * The editable definition of a saved deal, for sending it back with changes
+ */
+export const toDealRequest = (deal: Deal): CreateDealRequest => ({
+  name: deal.name,
+  description: deal.description,
+  deal_type: deal.deal_type,
+  components: deal.components,
+  reward_type: deal.reward_type,
+  reward_value: deal.reward_value,
+  max_applications: deal.max_applications,
+  priority: deal.priority,
+  active: deal.active,
+  effective_datetime: deal.effective_datetime,
+  expr_datetime: deal.expr_datetime,
+  days_of_week: deal.days_of_week,
+  start_time: deal.start_time,
+  end_time: deal.end_time
+});
+
+/**
+ * Check a deal before saving; returns the first problem or null
+ */
+export const validateDeal = (data: CreateDealRequest): string | null => {
+  if (!data.name.trim()) return 'Give the deal a name';
+
+  const expected = data.deal_type === 'BUY_X_GET_Y' ? 2 : data.deal_type === 'BUNDLE_PRICE' ? null : 1;
+  if (expected !== null && data.components.length !== expected) {
+    return data.deal_type === 'BUY_X_GET_Y' ? 'Set what to buy and what to get' : 'Set the qualifying items';
+  }
+  if (data.deal_type === 'BUNDLE_PRICE' && data.components.length < 2) {
+    return 'A bundle needs at least two parts';
+  }
+  if (data.components.some(component => !Number.isInteger(component.quantity) || component.quantity < 1)) {
+    return 'Quantities must be whole numbers of at least 1';
+  }
+  const mustMatch = data.deal_type === 'BUY_X_GET_Y' ? data.components.slice(0, 1) : data.components;
+  if (mustMatch.some(isComponentEmpty)) {
+    return 'Choose at least one item or category for each part of the deal';
+  }
+
+  if (data.reward_type === 'FREE' && data.deal_type !== 'BUY_X_GET_Y') {
+    return 'Free items only apply to buy X get Y deals';
+  }
+  if (data.reward_type !== 'FREE' && !(data.reward_value > 0)) {
+    return 'Enter the deal value';
+  }
+  if (data.reward_type === 'PERCENT' && data.reward_value > 100) {
+    return 'A percentage cannot be more than 100';
+  }
+
+  if (data.expr_datetime && new Date(data.expr_datetime).getTime() <= new Date(data.effective_datetime).getTime()) {
+    return 'The end date must be after the start date';
+  }
+  if (Boolean(data.start_time) !== Boolean(data.end_time)) {
+    return 'Set both the start and end time, or neither';
+  }
+  if (data.start_time && data.start_time === data.end_time) {
+    return 'The time window cannot start and end at the same time';
+  }
+  return null;
+};
@@ -0,0 +1,26 @@
+export { dealService, DealService } from './dealService';
+export {
+  DAY_NAMES,
+  getDealStatus,
+  getDealUnavailableReason,
+  isComponentEmpty,
+  matchesComponent,
+  getUnitSavings,
+  simulateDeals,
+  toDealRequest,
+  validateDeal
+} from './dealUtils';
+export type { DealStatus } from './dealUtils';
+export type {
+  DealType,
+  DealRewardType,
+  DealComponent,
+  Deal,
+  CreateDealRequest,
+  DealsResponse,
+  SimulationCartLine,
+  SimulatedPriceModifier,
+  DealApplication,
+  DealCandidate,
+  DealSimulationResult
+} from '../../types/deal';
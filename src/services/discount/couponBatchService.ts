@@ -0,0 +1,129 @@
+// Coupon batch service: serialized coupon and voucher batches for a discount
+import { apiClient, ApiError } from '../api';
+import { fetchAllTransactionSummaries, fetchTransactionDetails } from '../transaction/transactionExportService';
+import { extractCouponRedemptions, validateSerialPattern } from './couponSerials';
+import type {
+  CouponBatch,
+  CouponBatchesResponse,
+  CouponRedemption,
+  CouponRedemptionScan,
+  CouponRedemptionScanParams,
+  CreateCouponBatchRequest
+} from '../../types/coupon';
+
+const SUMMARY_PAGE_SIZE = 100;
+const DEFAULT_MAX_TRANSACTIONS = 1000;
+
+export class CouponBatchService {
+  private basePath(storeId: string, discountId: string): string {
+    return `/v0/store/${storeId}/discount/${discountId}/coupon-batch`;
+  }
+
+  /**
+   * Get the batches issued for a discount
+   */
+  async getBatches(storeId: string, discountId: string): Promise<CouponBatch[]> {
+    try {
+      const response = await apiClient.get<CouponBatchesResponse>(this.basePath(storeId, discountId));
+      return response.data.batches || [];
+    } catch (error) {
+      console.error('❌ Failed to fetch coupon batches:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Save a generated batch. The server rejects serials already issued for
+   * the discount.
+   */
+  async createBatch(storeId: string, discountId: string, data: CreateCouponBatchRequest): Promise<CouponBatch> {
+    const patternError = validateSerialPattern(data.pattern);
+    if (!data.name.trim() || patternError || data.serials.length === 0) {
+      throw new ApiError(!data.name.trim() ? 'Give the batch a name' : patternError || 'Generate serials first', 400, 'INVALID_COUPON_BATCH');
+    }
+    if (new Set(data.serials).size !== data.serials.length) {
+      throw new ApiError('Serials in a batch must be unique', 400, 'INVALID_COUPON_BATCH');
+    }
+
+    try {
+      const response = await apiClient.post<CouponBatch>(this.basePath(storeId, discountId), data);
+      console.log('✅ Coupon batch created:', response.data.batch_id, `(${data.serials.length} serials)`);
+      return response.data;
+    } catch (error) {
+      console.error('❌ Failed to create coupon batch:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Withdraw a batch. Serials already redeemed stay on their transactions.
+   */
+  async deleteBatch(storeId: string, discountId: string, batchId: string): Promise<void> {
+    try {
+      await apiClient.delete(`${this.basePath(storeId, discountId)}/${batchId}`);
+      console.log('✅ Coupon batch deleted:', batchId);
+    } catch (error) {
+      console.error('❌ Failed to delete coupon batch:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Find serials of a discount used on transactions in a date range.
+   *
+   * Only transactions with a discount are opened, and at most max_transactions
+   * of them so a long range stays bounded.
+   */
+  async findRedemptions(
+    storeId: string,
+    discountCode: string,
+    params: CouponRedemptionScanParams
+  ): Promise<CouponRedemptionScan> {
+    const maxTransactions = params.max_transactions ?? DEFAULT_MAX_TRANSACTIONS;
+
+    try {
+      const summaries = await fetchAllTransactionSummaries(storeId, {
+        start_date: params.start_date,
+        end_date: params.end_date,
+        limit: SUMMARY_PAGE_SIZE
+      });
+      const discounted = summaries.filter(summary => summary.disc_amt);
+      const toOpen = discounted.slice(0, maxTransactions);
+
+      const details = await fetchTransactionDetails(storeId, toOpen.map(summary => summary.trans_id));
+      const redemptions: CouponRedemption[] = details.flatMap((detail, index) =>
+        extractCouponRedemptions(detail, toOpen[index].trans_id, discountCode)
+      );
+
+      console.log('✅ Coupon redemption scan:', toOpen.length, 'transactions,', redemptions.length, 'uses');
+      return {
+        redemptions,
+        scanned: toOpen.length,
+        truncated: discounted.length > toOpen.length,
+        start_date: params.start_date,
+        end_date: params.end_date
+      };
+    } catch (error) {
+      console.error('❌ Failed to scan coupon redemptions:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Handle API errors
+   */
+  private handleError(error: unknown): ApiError {
+    if (error instanceof ApiError) {
+      return error;
+    }
+
+    return new ApiError(
+      error instanceof Error ? error.message : 'An unexpected error occurred while processing your request',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+}
+
+// Export a singleton instance
+export const couponBatchService = new CouponBatchService();
@@ -0,0 +1,184 @@
+// Coupon serials: pattern-based generation, check characters and redemption status
+import { fromScaledInt } from '../transaction/transactionService';
+import type { TransactionDetail } from '../transaction/transactionService';
+import type { CouponRedemption, CouponSerialRow } from '../../types/coupon';
+
+export const MAX_COUPON_BATCH_SIZE = 5000;
+
+const MAX_PATTERN_LENGTH = 32;
+
+/**
+ * Characters a placeholder can produce. Letters skip I and O, and the mixed
+ * set also skips 0 and 1, so printed codes are not misread.
+ */
+const PLACEHOLDER_CHARSETS: Record<string, string> = {
+  '#': '0123456789',
+  '?': 'ABCDEFGHJKLMNPQRSTUVWXYZ',
+  '*': '23456789ABCDEFGHJKLMNPQRSTUVWXYZ'
+};
+
+/** Literal characters that Code39 can encode */
+const LITERAL_PATTERN = /^[A-Z0-9.\-/]$/;
+
+/** Check characters are drawn from the full alphanumeric set */
+const CHECK_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+const randomIndex = (size: number): number => {
+  // Rejection sampling keeps every character equally likely
+  const limit = Math.floor(0x100000000 / size) * size;
+  const buffer = new Uint32Array(1);
+  do {
+    crypto.getRandomValues(buffer);
+  } while (buffer[0] >= limit);
+  return buffer[0] % size;
+};
+
+/**
+ * Problem with a serial pattern, or null when it can be used
+ */
+export const validateSerialPattern = (pattern: string): string | null => {
+  if (!pattern.trim()) return 'Enter a pattern';
+  if (pattern.length > MAX_PATTERN_LENGTH) return `Patterns can be at most ${MAX_PATTERN_LENGTH} characters`;
+  const characters = [...pattern];
+  if (!characters.some(character => character in PLACEHOLDER_CHARSETS)) {
+    return 'Add at least one #, ? or * placeholder';
+  }
+  const invalid = characters.find(character => !(character in PLACEHOLDER_CHARSETS) && !LITERAL_PATTERN.test(character));
+  if (invalid) return `"${invalid}" cannot be printed as a Code39 barcode; use A–Z, 0–9, - . or /`;
+  return null;
+};
+
+/** How many different serials a pattern can produce */
+export const getPatternCapacity = (pattern: string): number =>
+  [...pattern].reduce((capacity, character) => capacity * (PLACEHOLDER_CHARSETS[character]?.length ?? 1), 1);
+
+/**
+ * Luhn mod 36 check character over the letters and digits of a code;
+ * separators are ignored
+ */
+export const computeCheckCharacter = (code: string): string => {
+  const values = [...code.toUpperCase()].filter(character => CHECK_CHARSET.includes(character)).map(character => CHECK_CHARSET.indexOf(character));
+  const base = CHECK_CHARSET.length;
+  let factor = 2;
+  let sum = 0;
+  for (let index = values.length - 1; index >= 0; index--) {
+    const addend = factor * values[index];
+    sum += Math.floor(addend / base) + (addend % base);
+    factor = factor === 2 ? 1 : 2;
+  }
+  return CHECK_CHARSET[(base - (sum % base)) % base];
+};
+
+/** Whether the last character of a serial is its check character */
+export const hasValidCheckCharacter = (serial: string): boolean =>
+  serial.length > 1 && computeCheckCharacter(serial.slice(0, -1)) === serial.slice(-1).toUpperCase();
+
+/** Fill a pattern once */
+export const generateSerial = (pattern: string, checkDigit: boolean): string => {
+  const body = [...pattern]
+    .map(character => {
+      const charset = PLACEHOLDER_CHARSETS[character];
+      return charset ? charset[randomIndex(charset.length)] : character;
+    })
+    .join('');
+  return checkDigit ? body + computeCheckCharacter(body) : body;
+};
+
+/**
+ * Generate unique serials, avoiding any already issued. Throws when the
+ * pattern is invalid or too small to give that many codes safely.
+ */
+export const generateSerials = (
+  pattern: string,
+  quantity: number,
+  options: { checkDigit: boolean; existing?: Iterable<string> }
+): string[] => {
+  const patternError = validateSerialPattern(pattern);
+  if (patternError) throw new Error(patternError);
+  if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_COUPON_BATCH_SIZE) {
+    throw new Error(`Quantity must be between 1 and ${MAX_COUPON_BATCH_SIZE}`);
+  }
+  // Leave room so codes stay hard to guess and generation does not stall
+  if (getPatternCapacity(pattern) < quantity * 100) {
+    throw new Error('The pattern is too short for that many codes; add more placeholders');
+  }
+
+  const taken = new Set(options.existing ?? []);
+  const serials: string[] = [];
+  let attempts = 0;
+  while (serials.length < quantity) {
+    if (++attempts > quantity * 20) {
+      throw new Error('Could not find enough unused serials; add more placeholders');
+    }
+    const serial = generateSerial(pattern, options.checkDigit);
+    if (taken.has(serial)) continue;
+    taken.add(serial);
+    serials.push(serial);
+  }
+  return serials;
+};
+
+/**
+ * Status of each serial from the redemptions found on transactions. Voided
+ * transactions are listed but do not count as a use.
+ */
+export const getCouponSerialRows = (serials: string[], redemptions: CouponRedemption[]): CouponSerialRow[] => {
+  const bySerial = new Map<string, CouponRedemption[]>();
+  redemptions.forEach(redemption => {
+    const key = redemption.serial_num.toUpperCase();
+    bySerial.set(key, [...(bySerial.get(key) || []), redemption]);
+  });
+
+  return serials.map(serial => {
+    const found = bySerial.get(serial.toUpperCase()) || [];
+    const uses = found.filter(redemption => !redemption.is_void).length;
+    return {
+      serial_num: serial,
+      status: uses > 1 ? 'reused' : uses === 1 ? 'redeemed' : 'unused',
+      redemptions: found
+    };
+  });
+};
+
+/**
+ * Serials of a discount used on one transaction. A transaction discount is
+ * also spread over line modifiers with the same serial, so it counts once.
+ */
+export const extractCouponRedemptions = (
+  detail: TransactionDetail,
+  transId: string,
+  discountCode: string
+): CouponRedemption[] => {
+  const code = discountCode.toUpperCase();
+  const amounts = new Map<string, { amount: number; is_void: boolean }>();
+
+  detail.discounts.forEach(discount => {
+    if (!discount.serial_num || discount.disc_code.toUpperCase() !== code) return;
+    amounts.set(discount.serial_num.toUpperCase(), { amount: Math.abs(fromScaledInt(discount.amt)), is_void: detail.is_void });
+  });
+
+  const fromLines = new Map<string, { amount: number; is_void: boolean }>();
+  detail.line_items.forEach(line => {
+    line.modifiers.forEach(modifier => {
+      if (!modifier.serial_num || modifier.disc_code?.toUpperCase() !== code) return;
+      const serial = modifier.serial_num.toUpperCase();
+      if (amounts.has(serial)) return;
+      const current = fromLines.get(serial);
+      const isVoid = detail.is_void || line.is_void || modifier.is_void;
+      fromLines.set(serial, {
+        amount: (current?.amount ?? 0) + (isVoid ? 0 : Math.abs(fromScaledInt(modifier.change_amt))),
+        // Voided only when every use of the serial on the transaction was voided
+        is_void: (current?.is_void ?? true) && isVoid
+      });
+    });
+  });
+
+  return [...amounts, ...fromLines].map(([serial, use]) => ({
+    serial_num: serial,
+    trans_id: transId,
+    biz_date: detail.biz_date,
+    terminal_id: detail.terminal_id,
+    amount: Math.round(use.amount * 100) / 100,
+    is_void: use.is_void
+  }));
+};
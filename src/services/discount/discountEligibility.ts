@@ -0,0 +1,145 @@
+// Discount eligibility: which products, customers, baskets and times a discount targets
+import type { Discount, DiscountEligibility } from '../../types/discount';
+import type { ApiProduct } from '../types/product.types';
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const EMPTY_DISCOUNT_ELIGIBILITY: DiscountEligibility = {
+  include_item_ids: [],
+  exclude_item_ids: [],
+  include_category_ids: [],
+  exclude_category_ids: [],
+  customer_groups: [],
+  min_basket_total: null,
+  days_of_week: [],
+  start_time: null,
+  end_time: null
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+/**
+ * Fill in missing lists so older discounts without eligibility read the same
+ * as unrestricted ones
+ */
+export const normalizeEligibility = (eligibility?: Partial<DiscountEligibility> | null): DiscountEligibility => ({
+  ...EMPTY_DISCOUNT_ELIGIBILITY,
+  ...eligibility,
+  include_item_ids: eligibility?.include_item_ids ?? [],
+  exclude_item_ids: eligibility?.exclude_item_ids ?? [],
+  include_category_ids: eligibility?.include_category_ids ?? [],
+  exclude_category_ids: eligibility?.exclude_category_ids ?? [],
+  customer_groups: eligibility?.customer_groups ?? [],
+  days_of_week: eligibility?.days_of_week ?? []
+});
+
+/** Whether the discount is limited to particular products */
+export const hasProductTargeting = (eligibility: DiscountEligibility): boolean =>
+  eligibility.include_item_ids.length > 0 || eligibility.include_category_ids.length > 0;
+
+/** Whether any eligibility rule is set */
+export const hasEligibilityRules = (eligibility: DiscountEligibility): boolean =>
+  hasProductTargeting(eligibility)
+  || eligibility.exclude_item_ids.length > 0
+  || eligibility.exclude_category_ids.length > 0
+  || eligibility.customer_groups.length > 0
+  || Boolean(eligibility.min_basket_total)
+  || eligibility.days_of_week.length > 0
+  || Boolean(eligibility.start_time && eligibility.end_time);
+
+/**
+ * Whether a product can take the discount. Exclusions win; with no inclusions
+ * every product qualifies.
+ */
+export const isItemEligible = (
+  item: { item_id: string; category_ids: string[] },
+  eligibility: DiscountEligibility
+): boolean => {
+  if (eligibility.exclude_item_ids.includes(item.item_id)) return false;
+  if (item.category_ids.some(categoryId => eligibility.exclude_category_ids.includes(categoryId))) return false;
+  if (!hasProductTargeting(eligibility)) return true;
+  return eligibility.include_item_ids.includes(item.item_id)
+    || item.category_ids.some(categoryId => eligibility.include_category_ids.includes(categoryId));
+};
+
+/**
+ * Products the discount applies to, honouring item and category targeting.
+ * For line item discounts the minimum eligible price is a per-item floor.
+ */
+export const getQualifyingProducts = (
+  products: ApiProduct[],
+  discount: Pick<Discount, 'eligibility' | 'min_eligible_price' | 'app_mthd_code'>
+): ApiProduct[] => {
+  const eligibility = normalizeEligibility(discount.eligibility);
+  const minPrice = discount.app_mthd_code === 'LINE_ITEM' ? discount.min_eligible_price : null;
+  return products.filter(product => {
+    if (!isItemEligible({ item_id: product.item_id, category_ids: product.categories || [] }, eligibility)) return false;
+    if (minPrice && product.list_price < minPrice) return false;
+    return true;
+  });
+};
+
+/** Whether a customer's group may use the discount; walk-ins have no group */
+export const isCustomerGroupEligible = (eligibility: DiscountEligibility, customerGroup?: string | null): boolean => {
+  if (eligibility.customer_groups.length === 0) return true;
+  if (!customerGroup) return false;
+  return eligibility.customer_groups.some(group => group.toLowerCase() === customerGroup.toLowerCase());
+};
+
+/**
+ * Why the day or time window rules out the discount at a moment, or null when
+ * it is open. A window like 22:00–02:00 runs past midnight.
+ */
+export const getEligibilityWindowIssue = (eligibility: DiscountEligibility, at: Date = new Date()): string | null => {
+  if (eligibility.days_of_week.length > 0 && !eligibility.days_of_week.includes(at.getDay())) {
+    return `Not valid on ${WEEKDAY_LABELS[at.getDay()]}`;
+  }
+  if (eligibility.start_time && eligibility.end_time) {
+    const minutes = at.getHours() * 60 + at.getMinutes();
+    const start = toMinutes(eligibility.start_time);
+    const end = toMinutes(eligibility.end_time);
+    const inWindow = start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+    if (!inWindow) return `Only between ${eligibility.start_time} and ${eligibility.end_time}`;
+  }
+  return null;
+};
+
+/** Short summary of the day and time window, e.g. "Mon, Tue · 16:00–18:00" */
+export const formatEligibilityWindow = (eligibility: DiscountEligibility): string => {
+  const days = eligibility.days_of_week.length === 0 || eligibility.days_of_week.length === 7
+    ? 'Every day'
+    : [...eligibility.days_of_week].sort((a, b) => a - b).map(day => WEEKDAY_LABELS[day]).join(', ');
+  const hours = eligibility.start_time && eligibility.end_time
+    ? `${eligibility.start_time}–${eligibility.end_time}`
+    : 'all day';
+  return `${days} · ${hours}`;
+};
+
+/**
+ * Field errors for the eligibility rules, keyed like the edit form's errors
+ */
+export const validateEligibility = (eligibility: DiscountEligibility): Record<string, string> => {
+  const errors: Record<string, string> = {};
+
+  const conflictingItems = eligibility.include_item_ids.filter(itemId => eligibility.exclude_item_ids.includes(itemId));
+  if (conflictingItems.length > 0) {
+    errors.eligibility_items = 'An item cannot be both included and excluded';
+  }
+  const conflictingCategories = eligibility.include_category_ids.filter(categoryId => eligibility.exclude_category_ids.includes(categoryId));
+  if (conflictingCategories.length > 0) {
+    errors.eligibility_categories = 'A category cannot be both included and excluded';
+  }
+  if (eligibility.min_basket_total != null && eligibility.min_basket_total < 0) {
+    errors.min_basket_total = 'Minimum basket total cannot be negative';
+  }
+  if (Boolean(eligibility.start_time) !== Boolean(eligibility.end_time)) {
+    errors.eligibility_time = 'Set both a start and an end time, or neither';
+  } else if (eligibility.start_time && eligibility.start_time === eligibility.end_time) {
+    errors.eligibility_time = 'Start and end time cannot be the same';
+  }
+
+  return errors;
+};
@@ -0,0 +1,187 @@
+// Discount stacking: applies discounts in sort order the way the register does
+import {
+  getEligibilityWindowIssue,
+  isCustomerGroupEligible,
+  isItemEligible,
+  normalizeEligibility
+} from './discountEligibility';
+import type {
+  Discount,
+  DiscountCap,
+  DiscountSimulationOptions,
+  DiscountSimulationResult,
+  DiscountSimulationStep
+} from '../../types/discount';
+import type { SimulatedPriceModifier, SimulationCartLine } from '../../types/deal';
+
+const REASON_BY_METHOD: Record<Discount['app_mthd_code'], SimulatedPriceModifier['reason']> = {
+  LINE_ITEM: 'LINE_ITEM_DISCOUNT',
+  GROUP: 'GROUP_DISCOUNT',
+  TRANSACTION: 'TRANSACTION_DISCOUNT'
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+export const isPercentDiscount = (discount: Pick<Discount, 'calculation_mthd_code'>): boolean =>
+  discount.calculation_mthd_code === 'PERCENT' || discount.calculation_mthd_code === 'PROMPT_PERCENT';
+
+export const isPromptDiscount = (discount: Pick<Discount, 'calculation_mthd_code'>): boolean =>
+  discount.calculation_mthd_code === 'PROMPT_PERCENT' || discount.calculation_mthd_code === 'PROMPT_AMOUNT';
+
+/** Split a total across lines by weight; the last line takes the rounding remainder */
+const prorate = (total: number, weights: number[]): number[] => {
+  const weightTotal = sum(weights);
+  let left = round2(total);
+  return weights.map((weight, position) => {
+    const share = position === weights.length - 1 ? left : round2(total * weight / weightTotal);
+    left = round2(left - share);
+    return share;
+  });
+};
+
+/**
+ * Why a discount cannot apply to this checkout at all, or null when it can
+ */
+export const getDiscountAvailabilityIssue = (
+  discount: Discount,
+  subtotal: number,
+  options: Pick<DiscountSimulationOptions, 'at' | 'customer_group' | 'formatAmount'> = {}
+): string | null => {
+  const at = options.at ?? new Date();
+  const formatAmount = options.formatAmount ?? ((amount: number) => amount.toFixed(2));
+  const eligibility = normalizeEligibility(discount.eligibility);
+
+  if (new Date(discount.effective_datetime).getTime() > at.getTime()) return 'Not started yet';
+  if (new Date(discount.expr_datetime).getTime() < at.getTime()) return 'Expired';
+  const windowIssue = getEligibilityWindowIssue(eligibility, at);
+  if (windowIssue) return windowIssue;
+  if (!isCustomerGroupEligible(eligibility, options.customer_group)) {
+    return `Only for ${eligibility.customer_groups.join(', ')} customers`;
+  }
+  if (eligibility.min_basket_total && subtotal < eligibility.min_basket_total) {
+    return `Needs a basket of ${formatAmount(eligibility.min_basket_total)}`;
+  }
+  return null;
+};
+
+/**
+ * Apply discounts to a cart in sort order. Each discount works on what is left
+ * of a line after earlier ones. An exclusive discount applies only when it is
+ * the first to apply and then blocks everything after it.
+ *
+ * Minimum eligible price is a per-item floor for line item discounts and a
+ * floor on the eligible total for group and transaction discounts. Max
+ * percentage and max amount limit the value (typically what a cashier may
+ * enter for prompted discounts); max discount limits the currency taken.
+ */
+export const simulateDiscountStack = (
+  discounts: Discount[],
+  cart: SimulationCartLine[],
+  options: DiscountSimulationOptions = {}
+): DiscountSimulationResult => {
+  const formatAmount = options.formatAmount ?? ((amount: number) => amount.toFixed(2));
+  const remaining = cart.map(line => round2(line.unit_price * line.quantity));
+  const subtotal = round2(sum(remaining));
+  const ordered = [...discounts].sort((a, b) => a.sort_order - b.sort_order || a.discount_code.localeCompare(b.discount_code));
+
+  const steps: DiscountSimulationStep[] = [];
+  const modifiers: SimulatedPriceModifier[] = [];
+  let exclusive: Discount | null = null;
+
+  for (const discount of ordered) {
+    const skip = (reason: string) => {
+      steps.push({ discount, outcome: 'skipped', value: 0, amount: 0, caps: [], reason });
+    };
+
+    if (options.skipped_ids?.includes(discount.discount_id)) {
+      skip('Not in this checkout');
+      continue;
+    }
+    const issue = getDiscountAvailabilityIssue(discount, subtotal, options);
+    if (issue) {
+      skip(issue);
+      continue;
+    }
+    if (exclusive) {
+      skip(`Blocked by exclusive discount ${exclusive.discount_code}`);
+      continue;
+    }
+    if (discount.exclusive_discount_flag === 1 && steps.some(step => step.outcome === 'applied')) {
+      skip('Exclusive, but another discount already applied');
+      continue;
+    }
+
+    const eligibility = normalizeEligibility(discount.eligibility);
+    const isLineItem = discount.app_mthd_code === 'LINE_ITEM';
+    const lineIndexes = cart
+      .map((_line, index) => index)
+      .filter(index => remaining[index] > 0
+        && isItemEligible(cart[index], eligibility)
+        && (!isLineItem || !discount.min_eligible_price || cart[index].unit_price >= discount.min_eligible_price));
+
+    if (lineIndexes.length === 0) {
+      skip(isLineItem && discount.min_eligible_price
+        ? `No eligible items priced at ${formatAmount(discount.min_eligible_price)} or more`
+        : 'No eligible items in the cart');
+      continue;
+    }
+    const base = round2(sum(lineIndexes.map(index => remaining[index])));
+    if (!isLineItem && discount.min_eligible_price && base < discount.min_eligible_price) {
+      skip(`Needs ${formatAmount(discount.min_eligible_price)} of eligible items`);
+      continue;
+    }
+
+    const isPercent = isPercentDiscount(discount);
+    const caps: DiscountCap[] = [];
+    let value = options.prompt_values?.[discount.discount_id] ?? (isPercent ? discount.percentage : discount.discount) ?? 0;
+    if (isPercent && discount.max_percentage != null && discount.max_percentage > 0 && value > discount.max_percentage) {
+      value = discount.max_percentage;
+      caps.push('max_percentage');
+    }
+    if (!isPercent && discount.max_amount != null && discount.max_amount > 0 && value > discount.max_amount) {
+      value = discount.max_amount;
+      caps.push('max_amount');
+    }
+    if (!(value > 0)) {
+      skip(isPromptDiscount(discount) ? 'Prompts for a value at checkout' : 'No discount value set');
+      continue;
+    }
+
+    // Line item amounts come off each line; group and transaction amounts are shared
+    const raw = lineIndexes.map(index => (isPercent
+      ? remaining[index] * value / 100
+      : isLineItem ? Math.min(value, remaining[index]) : remaining[index]));
+    let total = isPercent || isLineItem ? sum(raw) : Math.min(value, base);
+    if (discount.max_discount != null && discount.max_discount > 0 && total > discount.max_discount) {
+      total = discount.max_discount;
+      caps.push('max_discount');
+    }
+    const amounts = prorate(Math.min(round2(total), base), raw);
+
+    lineIndexes.forEach((index, position) => {
+      const amount = amounts[position];
+      if (amount <= 0) return;
+      remaining[index] = round2(remaining[index] - amount);
+      modifiers.push({
+        line_index: index,
+        reason: REASON_BY_METHOD[discount.app_mthd_code],
+        amount,
+        disc_code: discount.discount_code,
+        desc: discount.description || discount.discount_code
+      });
+    });
+
+    steps.push({ discount, outcome: 'applied', value, amount: round2(sum(amounts)), caps });
+    if (discount.exclusive_discount_flag === 1) exclusive = discount;
+  }
+
+  return {
+    steps,
+    modifiers,
+    line_totals: remaining,
+    subtotal,
+    total_discount: round2(sum(modifiers.map(modifier => modifier.amount)))
+  };
+};
@@ -5,6 +5,7 @@ export * from './payment';
 export * from './user';
 export * from './product';
 export * from './tenant';
+export * from './customer';
 
 // Re-export commonly used services
 export { taxServices } from './tax';
@@ -12,3 +13,4 @@ export { paymentServices } from './payment';
 export { userService } from './user';
 export { productService } from './product';
 export { tenantApiService } from './tenant';
+export { customerService } from './customer';
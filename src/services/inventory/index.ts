@@ -0,0 +1,33 @@
+export { inventoryService, InventoryService } from './inventoryService';
+export {
+  INVENTORY_REASON_CATEGORY,
+  DEFAULT_INVENTORY_ALERTS,
+  ADJUSTMENT_DIRECTION,
+  REASON_REQUIRED_TYPES,
+  isTrackedProduct,
+  getLowStockThreshold,
+  getReorderPoint,
+  getReorderQuantity,
+  deriveStockStatus,
+  buildInventoryItems,
+  buildInventoryAlerts,
+  validateAdjustment
+} from './inventoryUtils';
+export type {
+  StockStatus,
+  InventoryAlertSettings,
+  UpdateInventoryAlertSettingsRequest,
+  InventoryLevel,
+  InventoryLevelsResponse,
+  InventoryLevelQueryParams,
+  UpdateInventoryLevelRequest,
+  InventoryAdjustmentType,
+  InventoryAdjustment,
+  CreateInventoryAdjustmentRequest,
+  InventoryAdjustmentResult,
+  InventoryAdjustmentQueryParams,
+  InventoryAdjustmentsResponse,
+  InventoryItem,
+  InventoryAlertType,
+  InventoryAlert
+} from '../types/inventory.types';
@@ -0,0 +1,171 @@
+// Inventory service: stock levels, the adjustment ledger and the store's alert thresholds
+import { apiClient, ApiError } from '../api';
+import { productService } from '../product';
+import { storeSettingsService } from '../store/storeSettingsService';
+import type { ApiProduct } from '../types/product.types';
+import type {
+  InventoryAdjustmentQueryParams,
+  InventoryAdjustmentResult,
+  InventoryAdjustmentsResponse,
+  InventoryAlertSettings,
+  InventoryLevel,
+  InventoryLevelQueryParams,
+  InventoryLevelsResponse,
+  CreateInventoryAdjustmentRequest,
+  StockStatus,
+  UpdateInventoryAlertSettingsRequest,
+  UpdateInventoryLevelRequest
+} from '../types/inventory.types';
+import { DEFAULT_INVENTORY_ALERTS, REASON_REQUIRED_TYPES, isTrackedProduct } from './inventoryUtils';
+
+const PAGE_LIMIT = 500;
+
+export class InventoryService {
+  private basePath(storeId: string): string {
+    return `/v0/store/${storeId}/inventory`;
+  }
+
+  /**
+   * Get one page of stock levels
+   */
+  async getLevels(storeId: string, params: InventoryLevelQueryParams = {}): Promise<InventoryLevelsResponse> {
+    try {
+      const response = await apiClient.get<InventoryLevelsResponse>(`${this.basePath(storeId)}/levels`, params);
+      return { levels: response.data.levels || [], next: response.data.next || null };
+    } catch (error) {
+      console.error('❌ Failed to fetch inventory levels:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get every stock level in the store, following the cursor
+   */
+  async getAllLevels(storeId: string): Promise<InventoryLevel[]> {
+    const levels: InventoryLevel[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.getLevels(storeId, { cursor, limit: PAGE_LIMIT });
+      levels.push(...page.levels);
+      cursor = page.next || undefined;
+    } while (cursor);
+    return levels;
+  }
+
+  /**
+   * Get every product in the store that tracks inventory
+   */
+  async getTrackedProducts(tenantId: string, storeId: string): Promise<ApiProduct[]> {
+    try {
+      const products = await productService.getAllProducts(tenantId, storeId, PAGE_LIMIT);
+      return products.filter(isTrackedProduct);
+    } catch (error) {
+      console.error('❌ Failed to fetch inventory products:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Update item-level cost and threshold overrides
+   */
+  async updateLevel(storeId: string, itemId: string, data: UpdateInventoryLevelRequest): Promise<InventoryLevel> {
+    try {
+      const response = await apiClient.put<InventoryLevel>(`${this.basePath(storeId)}/levels/${itemId}`, data);
+      console.log('✅ Inventory level updated:', itemId);
+      return response.data;
+    } catch (error) {
+      console.error('❌ Failed to update inventory level:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get adjustment ledger entries, newest first
+   */
+  async getAdjustments(storeId: string, params: InventoryAdjustmentQueryParams = {}): Promise<InventoryAdjustmentsResponse> {
+    try {
+      const response = await apiClient.get<InventoryAdjustmentsResponse>(`${this.basePath(storeId)}/adjustments`, params);
+      return { adjustments: response.data.adjustments || [], next: response.data.next || null };
+    } catch (error) {
+      console.error('❌ Failed to fetch inventory adjustments:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Record a stock change. Manual changes must carry a reason code.
+   */
+  async createAdjustment(storeId: string, data: CreateInventoryAdjustmentRequest): Promise<InventoryAdjustmentResult> {
+    if (REASON_REQUIRED_TYPES.includes(data.type) && !data.reason_code) {
+      throw new ApiError('A reason code is required for inventory adjustments', 400, 'REASON_CODE_REQUIRED');
+    }
+
+    try {
+      const response = await apiClient.post<InventoryAdjustmentResult>(`${this.basePath(storeId)}/adjustments`, data);
+      console.log('✅ Inventory adjusted:', data.item_id, data.quantity_delta);
+      return response.data;
+    } catch (error) {
+      console.error('❌ Failed to adjust inventory:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get the store's stock alert thresholds from its operational settings,
+   * falling back to defaults when none are saved
+   */
+  async getAlertSettings(storeId: string): Promise<InventoryAlertSettings> {
+    try {
+      const settings = await storeSettingsService.getSettings(storeId);
+      return { ...DEFAULT_INVENTORY_ALERTS, ...settings?.operational_settings?.inventory_alerts };
+    } catch (error) {
+      console.error('❌ Failed to fetch inventory settings:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Update the store's stock alert thresholds in its operational settings
+   */
+  async updateAlertSettings(storeId: string, data: UpdateInventoryAlertSettingsRequest): Promise<InventoryAlertSettings> {
+    try {
+      const operationalSettings = await storeSettingsService.updateOperationalSettings(storeId, 'inventory_alerts', data);
+      console.log('✅ Inventory settings updated:', storeId);
+      return { ...DEFAULT_INVENTORY_ALERTS, ...operationalSettings.inventory_alerts };
+    } catch (error) {
+      console.error('❌ Failed to update inventory settings:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Save a derived stock status on the product so the POS sees it
+   */
+  async syncStockStatus(tenantId: string, storeId: string, itemId: string, status: StockStatus): Promise<void> {
+    try {
+      await productService.updateProduct(tenantId, storeId, itemId, { item_id: itemId, stock_status: status });
+      console.log('✅ Stock status synced:', itemId, status);
+    } catch (error) {
+      console.error('❌ Failed to sync stock status:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Handle API errors
+   */
+  private handleError(error: unknown): ApiError {
+    if (error instanceof ApiError) {
+      return error;
+    }
+
+    return new ApiError(
+      error instanceof Error ? error.message : 'An unexpected error occurred while processing your request',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+}
+
+// Export a singleton instance
+export const inventoryService = new InventoryService();
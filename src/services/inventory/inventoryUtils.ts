@@ -0,0 +1,168 @@
+// Derives stock status and alerts from on-hand levels and the store's thresholds
+import type { ApiProduct } from '../types/product.types';
+import type {
+  InventoryAdjustmentType,
+  InventoryAlert,
+  InventoryAlertSettings,
+  InventoryItem,
+  InventoryLevel,
+  StockStatus
+} from '../types/inventory.types';
+
+export const INVENTORY_REASON_CATEGORY = 'INVENTORY_ADJUSTMENT';
+
+export const DEFAULT_INVENTORY_ALERTS: InventoryAlertSettings = {
+  low_stock_threshold: 10,
+  out_of_stock_notifications: true,
+  negative_inventory_allowed: false,
+  auto_reorder: false
+};
+
+/**
+ * Which way each adjustment type moves stock. 'either' types take the sign
+ * from the entered quantity.
+ */
+export const ADJUSTMENT_DIRECTION: Record<InventoryAdjustmentType, 'in' | 'out' | 'either'> = {
+  adjust: 'either',
+  receive: 'in',
+  damage: 'out',
+  shrink: 'out',
+  count: 'either',
+  return: 'in',
+  transfer_in: 'in',
+  transfer_out: 'out'
+};
+
+/** Manual adjustment types that need a reason code */
+export const REASON_REQUIRED_TYPES: InventoryAdjustmentType[] = ['adjust', 'damage', 'shrink', 'count'];
+
+export function isTrackedProduct(product: Pick<ApiProduct, 'non_inventoried'>): boolean {
+  return !product.non_inventoried;
+}
+
+export function getLowStockThreshold(level: InventoryLevel | undefined, settings: InventoryAlertSettings): number {
+  return level?.low_stock_threshold ?? settings.low_stock_threshold;
+}
+
+export function getReorderPoint(level: InventoryLevel | undefined, settings: InventoryAlertSettings): number | null {
+  return level?.reorder_point ?? settings.reorder_point ?? null;
+}
+
+export function getReorderQuantity(level: InventoryLevel | undefined, settings: InventoryAlertSettings): number | null {
+  return level?.reorder_quantity ?? settings.reorder_quantity ?? null;
+}
+
+/**
+ * Stock status for an on-hand quantity. Empty shelves with stock on order
+ * report 'on_order' rather than 'out_of_stock'.
+ */
+export function deriveStockStatus(onHand: number, onOrder: number, lowStockThreshold: number): StockStatus {
+  if (onHand <= 0) {
+    return onOrder > 0 ? 'on_order' : 'out_of_stock';
+  }
+  return onHand <= lowStockThreshold ? 'low_stock' : 'in_stock';
+}
+
+/**
+ * Join tracked products with their levels. Products without a level record
+ * have never been stocked and count as zero on hand.
+ */
+export function buildInventoryItems(
+  products: ApiProduct[],
+  levels: InventoryLevel[],
+  settings: InventoryAlertSettings
+): InventoryItem[] {
+  const levelsByItem = new Map(levels.map(level => [level.item_id, level]));
+
+  return products.filter(isTrackedProduct).map(product => {
+    const level = levelsByItem.get(product.item_id);
+    const onHand = level?.on_hand ?? 0;
+    const onOrder = level?.on_order ?? 0;
+    const threshold = getLowStockThreshold(level, settings);
+
+    return {
+      item_id: product.item_id,
+      name: product.name,
+      uom: product.uom || 'EA',
+      brand: product.brand || undefined,
+      merch_level1: product.merch_level1,
+      merch_level2: product.merch_level2,
+      merch_level3: product.merch_level3,
+      merch_level4: product.merch_level4,
+      categories: product.categories || [],
+      list_price: product.list_price,
+      unit_cost: level?.unit_cost ?? null,
+      on_hand: onHand,
+      on_order: onOrder,
+      low_stock_threshold: threshold,
+      reorder_point: getReorderPoint(level, settings),
+      reorder_quantity: getReorderQuantity(level, settings),
+      preferred_supplier_id: level?.preferred_supplier_id ?? null,
+      stock_status: deriveStockStatus(onHand, onOrder, threshold),
+      product_stock_status: product.stock_status,
+      updated_at: level?.updated_at
+    };
+  });
+}
+
+/**
+ * One alert per item that needs attention, most urgent first
+ */
+export function buildInventoryAlerts(items: InventoryItem[], settings: InventoryAlertSettings): InventoryAlert[] {
+  const priority: Record<InventoryAlert['type'], number> = { negative: 0, out_of_stock: 1, low_stock: 2, reorder: 3 };
+  const alerts: InventoryAlert[] = [];
+
+  items.forEach(item => {
+    const base = { item_id: item.item_id, name: item.name, on_hand: item.on_hand };
+
+    if (item.on_hand < 0) {
+      alerts.push({ ...base, type: 'negative', threshold: 0, message: `${item.on_hand} on hand; stock went below zero` });
+    } else if (item.stock_status === 'out_of_stock') {
+      if (settings.out_of_stock_notifications) {
+        alerts.push({ ...base, type: 'out_of_stock', threshold: 0, message: 'Out of stock with nothing on order' });
+      }
+    } else if (item.stock_status === 'low_stock') {
+      alerts.push({
+        ...base,
+        type: 'low_stock',
+        threshold: item.low_stock_threshold,
+        message: `${item.on_hand} on hand, at or below ${item.low_stock_threshold}`
+      });
+    } else if (item.reorder_point !== null && item.on_hand + item.on_order <= item.reorder_point) {
+      alerts.push({
+        ...base,
+        type: 'reorder',
+        threshold: item.reorder_point,
+        message: `Reached reorder point of ${item.reorder_point}`
+      });
+    }
+  });
+
+  return alerts.sort((a, b) => priority[a.type] - priority[b.type] || a.name.localeCompare(b.name));
+}
+
+/**
+ * Validate a stock change before it is sent. Returns an error message, or
+ * null when the change is allowed.
+ */
+export function validateAdjustment(
+  onHand: number,
+  type: InventoryAdjustmentType,
+  quantityDelta: number,
+  settings: InventoryAlertSettings
+): string | null {
+  if (!Number.isFinite(quantityDelta) || quantityDelta === 0) {
+    return 'Enter a quantity other than zero';
+  }
+
+  const direction = ADJUSTMENT_DIRECTION[type];
+  if ((direction === 'in' && quantityDelta < 0) || (direction === 'out' && quantityDelta > 0)) {
+    return `A ${type.replace('_', ' ')} cannot ${quantityDelta < 0 ? 'remove' : 'add'} stock`;
+  }
+
+  if (!settings.negative_inventory_allowed && onHand + quantityDelta < 0) {
+    return `Only ${onHand} on hand; negative inventory is not allowed for this store`;
+  }
+
+  return null;
+}
@@ -0,0 +1,22 @@
+export { priceBookService, PriceBookService } from './priceBookService';
+export {
+  getPriceBookStatus,
+  isInEffect,
+  getBookItem,
+  appliesToTerminal,
+  comparePriceBooks,
+  resolvePriceBook,
+  buildItemPriceTimeline,
+  validatePriceBook
+} from './priceBookUtils';
+export type {
+  PriceBookScope,
+  PriceBookItem,
+  PriceBook,
+  CreatePriceBookRequest,
+  UpdatePriceBookRequest,
+  PriceBookQueryParams,
+  PriceBooksResponse,
+  PriceBookStatus,
+  ItemPricePeriod
+} from '../types/price-book.types';
@@ -0,0 +1,114 @@
+// Price book service: scheduled price lists and item overrides per store
+import { apiClient, ApiError } from '../api';
+import { validatePriceBook } from './priceBookUtils';
+import type {
+  PriceBook,
+  CreatePriceBookRequest,
+  UpdatePriceBookRequest,
+  PriceBookQueryParams,
+  PriceBooksResponse
+} from '../types/price-book.types';
+
+const PAGE_LIMIT = 200;
+
+export class PriceBookService {
+  private basePath(storeId: string): string {
+    return `/v0/store/${storeId}/price-books`;
+  }
+
+  /**
+   * Get one page of price books
+   */
+  async getPriceBooks(storeId: string, params: PriceBookQueryParams = {}): Promise<PriceBooksResponse> {
+    try {
+      const response = await apiClient.get<PriceBooksResponse>(this.basePath(storeId), params);
+      return { price_books: response.data.price_books || [], next: response.data.next || null };
+    } catch (error) {
+      console.error('❌ Failed to fetch price books:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get every price book matching the filters, following the cursor
+   */
+  async getAllPriceBooks(storeId: string, params: Omit<PriceBookQueryParams, 'cursor' | 'limit'> = {}): Promise<PriceBook[]> {
+    const books: PriceBook[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.getPriceBooks(storeId, { ...params, cursor, limit: PAGE_LIMIT });
+      books.push(...page.price_books);
+      cursor = page.next || undefined;
+    } while (cursor);
+    return books;
+  }
+
+  /**
+   * Create a price book
+   */
+  async createPriceBook(storeId: string, data: CreatePriceBookRequest): Promise<PriceBook> {
+    const validationError = validatePriceBook(data);
+    if (validationError) {
+      throw new ApiError(validationError, 400, 'INVALID_PRICE_BOOK');
+    }
+
+    try {
+      const response = await apiClient.post<PriceBook>(this.basePath(storeId), data);
+      console.log('✅ Price book created:', response.data.price_book_id);
+      return response.data;
+    } catch (error) {
+      console.error('❌ Failed to create price book:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Update a price book. Changes to a live book apply at the next sale.
+   */
+  async updatePriceBook(storeId: string, priceBookId: string, data: UpdatePriceBookRequest): Promise<PriceBook> {
+    const validationError = validatePriceBook(data);
+    if (validationError) {
+      throw new ApiError(validationError, 400, 'INVALID_PRICE_BOOK');
+    }
+
+    try {
+      const response = await apiClient.put<PriceBook>(`${this.basePath(storeId)}/${priceBookId}`, data);
+      console.log('✅ Price book updated:', priceBookId);
+      return response.data;
+    } catch (error) {
+      console.error('❌ Failed to update price book:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Delete a price book
+   */
+  async deletePriceBook(storeId: string, priceBookId: string): Promise<void> {
+    try {
+      await apiClient.delete(`${this.basePath(storeId)}/${priceBookId}`);
+      console.log('✅ Price book deleted:', priceBookId);
+    } catch (error) {
+      console.error('❌ Failed to delete price book:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Handle API errors
+   */
+  private handleError(error: unknown): ApiError {
+    if (error instanceof ApiError) {
+      return error;
+    }
+
+    return new ApiError(
+      error instanceof Error ? error.message : 'An unexpected error occurred while processing your request',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+}
+
+// Export a singleton instance
+export const priceBookService = new PriceBookService();
@@ -0,0 +1,154 @@
+// Price book helpers: status, precedence and per-item price timelines
+import type {
+  ItemPricePeriod,
+  PriceBook,
+  PriceBookItem,
+  PriceBookStatus,
+  UpdatePriceBookRequest
+} from '../types/price-book.types';
+
+const toTime = (timestamp: string) => new Date(timestamp).getTime();
+
+export const getPriceBookStatus = (book: Pick<PriceBook, 'active' | 'effective_at' | 'expires_at'>, now: Date = new Date()): PriceBookStatus => {
+  if (!book.active) return 'disabled';
+  if (toTime(book.effective_at) > now.getTime()) return 'scheduled';
+  if (book.expires_at && toTime(book.expires_at) <= now.getTime()) return 'expired';
+  return 'live';
+};
+
+export const isInEffect = (book: PriceBook, at: Date): boolean =>
+  book.active
+  && toTime(book.effective_at) <= at.getTime()
+  && (!book.expires_at || toTime(book.expires_at) > at.getTime());
+
+export const getBookItem = (book: PriceBook, itemId: string): PriceBookItem | undefined =>
+  book.items.find(item => item.item_id === itemId);
+
+/** Store-wide books apply everywhere; terminal books only where listed */
+export const appliesToTerminal = (book: PriceBook, terminalId?: string): boolean =>
+  book.scope === 'store' || Boolean(terminalId && book.terminal_ids.includes(terminalId));
+
+/**
+ * Order in which overlapping books win: terminal-specific over store-wide,
+ * then higher priority, then the most recently effective.
+ */
+export const comparePriceBooks = (a: PriceBook, b: PriceBook): number => {
+  if (a.scope !== b.scope) return a.scope === 'terminal' ? -1 : 1;
+  if (a.priority !== b.priority) return b.priority - a.priority;
+  return toTime(b.effective_at) - toTime(a.effective_at);
+};
+
+/**
+ * The book that sets an item's price at a moment, or null when the
+ * product's own price applies
+ */
+export const resolvePriceBook = (
+  books: PriceBook[],
+  itemId: string,
+  at: Date = new Date(),
+  terminalId?: string
+): PriceBook | null =>
+  books
+    .filter(book => isInEffect(book, at) && appliesToTerminal(book, terminalId) && getBookItem(book, itemId))
+    .sort(comparePriceBooks)[0] || null;
+
+const getTiming = (startsAt: string | null, endsAt: string | null, now: Date): ItemPricePeriod['timing'] => {
+  if (endsAt && toTime(endsAt) <= now.getTime()) return 'past';
+  if (startsAt && toTime(startsAt) > now.getTime()) return 'upcoming';
+  return 'current';
+};
+
+/**
+ * Store-wide price of an item over time, merged into periods, followed by
+ * the terminal-specific overrides in their own windows. Gaps between books
+ * fall back to the product's own price.
+ */
+export const buildItemPriceTimeline = (
+  books: PriceBook[],
+  itemId: string,
+  basePrice: { list_price: number; sale_price?: number | null },
+  now: Date = new Date()
+): ItemPricePeriod[] => {
+  const relevant = books.filter(book => book.active && getBookItem(book, itemId));
+  const storeBooks = relevant.filter(book => book.scope === 'store');
+
+  const boundaries = [...new Set(storeBooks.flatMap(book => [book.effective_at, book.expires_at].filter((value): value is string => Boolean(value)).map(toTime)))]
+    .sort((a, b) => a - b);
+
+  const periods: ItemPricePeriod[] = [];
+  const pushPeriod = (book: PriceBook | null, startsAt: string | null, endsAt: string | null) => {
+    const previous = periods[periods.length - 1];
+    if (previous && previous.price_book_id === (book?.price_book_id ?? null)) {
+      previous.ends_at = endsAt;
+      return;
+    }
+    const item = book ? getBookItem(book, itemId) : undefined;
+    periods.push({
+      price_book_id: book?.price_book_id ?? null,
+      name: book?.name || 'Standard price',
+      scope: 'store',
+      terminal_ids: [],
+      starts_at: startsAt,
+      ends_at: endsAt,
+      list_price: item?.list_price ?? basePrice.list_price,
+      sale_price: item ? item.sale_price : basePrice.sale_price,
+      timing: 'current'
+    });
+  };
+
+  pushPeriod(null, null, boundaries.length > 0 ? new Date(boundaries[0]).toISOString() : null);
+  boundaries.forEach((start, index) => {
+    const end = boundaries[index + 1];
+    pushPeriod(
+      resolvePriceBook(storeBooks, itemId, new Date(start)),
+      new Date(start).toISOString(),
+      end !== undefined ? new Date(end).toISOString() : null
+    );
+  });
+
+  relevant
+    .filter(book => book.scope === 'terminal')
+    .forEach(book => {
+      const item = getBookItem(book, itemId)!;
+      periods.push({
+        price_book_id: book.price_book_id,
+        name: book.name,
+        scope: 'terminal',
+        terminal_ids: book.terminal_ids,
+        starts_at: book.effective_at,
+        ends_at: book.expires_at || null,
+        list_price: item.list_price,
+        sale_price: item.sale_price,
+        timing: 'current'
+      });
+    });
+
+  return periods
+    .map(period => ({ ...period, timing: getTiming(period.starts_at, period.ends_at, now) }))
+    .sort((a, b) => (a.starts_at ? toTime(a.starts_at) : -Infinity) - (b.starts_at ? toTime(b.starts_at) : -Infinity));
+};
+
+/**
+ * Check the fields being saved; returns the first problem or null
+ */
+export const validatePriceBook = (data: UpdatePriceBookRequest): string | null => {
+  if (data.name !== undefined && !data.name.trim()) {
+    return 'Give the price book a name';
+  }
+  if (data.effective_at && data.expires_at && toTime(data.expires_at) <= toTime(data.effective_at)) {
+    return 'The expiry must be after the effective date';
+  }
+  if (data.scope === 'terminal' && (!data.terminal_ids || data.terminal_ids.length === 0)) {
+    return 'Choose at least one terminal for a terminal price book';
+  }
+  if (data.items !== undefined) {
+    if (data.items.length === 0) {
+      return 'Add at least one item override';
+    }
+    const invalid = data.items.find(item => item.list_price < 0 || (item.sale_price != null && (item.sale_price < 0 || item.sale_price > item.list_price)));
+    if (invalid) {
+      return `Check the prices for ${invalid.item_name}; sale price must be between 0 and the list price`;
+    }
+  }
+  return null;
+};
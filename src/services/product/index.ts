@@ -1,2 +1,4 @@
 export * from './product.service';
 export { productService } from './product.service';
+export * from './productImport.service';
+export * from './productExport.service';
@@ -45,14 +45,20 @@ export interface UpdateProductRequest extends Partial<CreateProductRequest> {
   item_id: string;
 }
 
+export interface ProductQueryParams {
+  cursor?: string;
+  limit?: number;
+}
+
 class ProductService {
   /**
    * Get all products for a store
    */
-  async getProducts(_tenantId: string, storeId: string): Promise<ProductsResponse> {
+  async getProducts(_tenantId: string, storeId: string, params?: ProductQueryParams): Promise<ProductsResponse> {
     try {
       const response = await apiClient.get<ProductsResponse>(
-        `/v0/store/${storeId}/item`
+        `/v0/store/${storeId}/item`,
+        params
       );
       return response.data;
     } catch (error) {
@@ -61,6 +67,20 @@ class ProductService {
     }
   }
 
+  /**
+   * Get every product for a store, following the cursor
+   */
+  async getAllProducts(tenantId: string, storeId: string, pageSize = 500): Promise<ApiProduct[]> {
+    const products: ApiProduct[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.getProducts(tenantId, storeId, { cursor, limit: pageSize });
+      products.push(...page.items);
+      cursor = page.next || undefined;
+    } while (cursor);
+    return products;
+  }
+
   /**
    * Get a single product by ID
    */
@@ -0,0 +1,185 @@
+import { productService } from './product.service';
+import type { ApiProduct } from '../types/product.types';
+import { escapeCsvValue, toCsvRows, type CsvValue } from '../../utils/csvUtils';
+
+export type ProductExportFormat = 'csv' | 'json';
+
+export type ProductExportColumnGroup = 'general' | 'pricing' | 'settings' | 'prompts' | 'attributes' | 'modifiers' | 'audit';
+
+export interface ProductExportColumn {
+  /** CSV header; matches the import aliases so exported files can be imported again */
+  key: string;
+  label: string;
+  group: ProductExportColumnGroup;
+  getValue: (product: ApiProduct) => CsvValue;
+}
+
+export interface ProductExportOptions {
+  format: ProductExportFormat;
+  /** Column keys to include in a CSV export; JSON exports always carry every field */
+  columns: string[];
+  /** Products for which this returns false are left out */
+  filter?: (product: ApiProduct) => boolean;
+  pageSize?: number;
+  onProgress?: (progress: ProductExportProgress) => void;
+  /** Polled between pages; returning true cancels the export */
+  shouldStop?: () => boolean;
+}
+
+export interface ProductExportProgress {
+  pages: number;
+  scanned: number;
+  exported: number;
+}
+
+export interface ProductExportResult extends ProductExportProgress {
+  /** Serialized file content, one part per page */
+  parts: string[];
+  cancelled: boolean;
+}
+
+export const PRODUCT_CATALOG_FORMAT = 'product-catalog';
+export const PRODUCT_CATALOG_VERSION = 1;
+
+export const PRODUCT_EXPORT_GROUP_LABELS: Record<ProductExportColumnGroup, string> = {
+  general: 'General',
+  pricing: 'Pricing',
+  settings: 'Settings',
+  prompts: 'Prompts',
+  attributes: 'Attributes',
+  modifiers: 'Modifier Groups',
+  audit: 'Audit',
+};
+
+const toJsonValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object' && Object.keys(value).length === 0) return '';
+  return JSON.stringify(value);
+};
+
+export const PRODUCT_EXPORT_COLUMNS: ProductExportColumn[] = [
+  { key: 'item_id', label: 'SKU / Item ID', group: 'general', getValue: p => p.item_id },
+  { key: 'name', label: 'Name', group: 'general', getValue: p => p.name },
+  { key: 'description', label: 'Description', group: 'general', getValue: p => p.description },
+  { key: 'uom', label: 'Unit of Measure', group: 'general', getValue: p => p.uom },
+  { key: 'brand', label: 'Brand', group: 'general', getValue: p => p.brand },
+  { key: 'tax_group', label: 'Tax Group', group: 'general', getValue: p => p.tax_group },
+  { key: 'fiscal_item_id', label: 'Fiscal ID', group: 'general', getValue: p => p.fiscal_item_id },
+  { key: 'fiscal_item_description', label: 'Fiscal Description', group: 'general', getValue: p => p.fiscal_item_description },
+  { key: 'stock_status', label: 'Stock Status', group: 'general', getValue: p => p.stock_status },
+  { key: 'parent_item_id', label: 'Parent Item ID', group: 'general', getValue: p => p.parent_item_id },
+  { key: 'image_url', label: 'Image URL', group: 'general', getValue: p => p.image_url },
+  { key: 'list_price', label: 'List Price', group: 'pricing', getValue: p => p.list_price },
+  { key: 'sale_price', label: 'Sale Price', group: 'pricing', getValue: p => p.sale_price },
+  { key: 'tare_value', label: 'Tare Value', group: 'pricing', getValue: p => p.tare_value },
+  { key: 'tare_uom', label: 'Tare UOM', group: 'pricing', getValue: p => p.tare_uom },
+  { key: 'active', label: 'Active', group: 'settings', getValue: p => p.active !== false },
+  { key: 'measure_required', label: 'Measure Required', group: 'settings', getValue: p => p.measure_required },
+  { key: 'non_inventoried', label: 'Non Inventoried', group: 'settings', getValue: p => p.non_inventoried },
+  { key: 'shippable', label: 'Shippable', group: 'settings', getValue: p => p.shippable },
+  { key: 'serialized', label: 'Serialized', group: 'settings', getValue: p => p.serialized },
+  { key: 'disallow_discount', label: 'Disallow Discount', group: 'settings', getValue: p => p.disallow_discount },
+  { key: 'non_returnable', label: 'Non Returnable', group: 'settings', getValue: p => p.non_returnable },
+  { key: 'food_stamp_eligible', label: 'Food Stamp Eligible', group: 'settings', getValue: p => p.food_stamp_eligible },
+  { key: 'online_only', label: 'Online Only', group: 'settings', getValue: p => p.online_only },
+  { key: 'prompt_qty', label: 'Prompt Quantity', group: 'prompts', getValue: p => p.prompt_qty },
+  { key: 'prompt_price', label: 'Prompt Price', group: 'prompts', getValue: p => p.prompt_price },
+  { key: 'prompt_description', label: 'Prompt Description', group: 'prompts', getValue: p => p.prompt_description },
+  { key: 'categories', label: 'Categories', group: 'attributes', getValue: p => (p.categories || []).join('|') },
+  { key: 'tags', label: 'Tags', group: 'attributes', getValue: p => (Array.isArray(p.custom_attribute?.tags) ? p.custom_attribute.tags.join('|') : '') },
+  { key: 'merch_level1', label: 'Merch Level 1', group: 'attributes', getValue: p => p.merch_level1 },
+  { key: 'merch_level2', label: 'Merch Level 2', group: 'attributes', getValue: p => p.merch_level2 },
+  { key: 'merch_level3', label: 'Merch Level 3', group: 'attributes', getValue: p => p.merch_level3 },
+  { key: 'merch_level4', label: 'Merch Level 4', group: 'attributes', getValue: p => p.merch_level4 },
+  {
+    key: 'custom_attribute',
+    label: 'Custom Attributes (JSON)',
+    group: 'attributes',
+    // Tags have their own column
+    getValue: p => toJsonValue(Object.fromEntries(Object.entries(p.custom_attribute || {}).filter(([key]) => key !== 'tags')))
+  },
+  { key: 'properties', label: 'Properties (JSON)', group: 'attributes', getValue: p => toJsonValue(p.properties) },
+  { key: 'modifier_group_count', label: 'Modifier Group Count', group: 'modifiers', getValue: p => p.modifier_groups?.length ?? 0 },
+  { key: 'modifier_groups', label: 'Modifier Groups (JSON)', group: 'modifiers', getValue: p => toJsonValue(p.modifier_groups) },
+  { key: 'created_at', label: 'Created At', group: 'audit', getValue: p => p.created_at },
+  { key: 'updated_at', label: 'Updated At', group: 'audit', getValue: p => p.updated_at },
+];
+
+/** Columns pre-selected in the export dialog */
+export const DEFAULT_PRODUCT_EXPORT_COLUMNS = PRODUCT_EXPORT_COLUMNS
+  .filter(column => ['general', 'pricing', 'settings'].includes(column.group))
+  .map(column => column.key);
+
+// Server-managed fields that cannot be sent back to the create/update API
+const NON_ROUND_TRIP_FIELDS: Array<keyof ApiProduct> = ['tenant_id', 'created_at', 'create_user_id', 'updated_at', 'update_user_id'];
+
+/**
+ * Strip server-managed fields so the item matches the create/update request shape
+ */
+export const toCatalogItem = (product: ApiProduct): Record<string, unknown> => {
+  const item: Record<string, unknown> = { ...product };
+  NON_ROUND_TRIP_FIELDS.forEach(field => delete item[field]);
+  return item;
+};
+
+/**
+ * Export the store catalog one page at a time. Each page is serialized as soon
+ * as it arrives and the raw products are released, so memory use stays
+ * proportional to the output text rather than the API payload.
+ */
+export const exportProducts = async (
+  tenantId: string,
+  storeId: string,
+  options: ProductExportOptions
+): Promise<ProductExportResult> => {
+  const { format, filter, pageSize = 200, onProgress, shouldStop } = options;
+  const columns = PRODUCT_EXPORT_COLUMNS.filter(column => options.columns.includes(column.key));
+  const progress: ProductExportProgress = { pages: 0, scanned: 0, exported: 0 };
+  const parts: string[] = [];
+  let cursor: string | undefined;
+  let cancelled = false;
+
+  if (format === 'csv') {
+    parts.push(columns.map(column => escapeCsvValue(column.key)).join(',') + '\r\n');
+  } else {
+    const header = {
+      format: PRODUCT_CATALOG_FORMAT,
+      version: PRODUCT_CATALOG_VERSION,
+      store_id: storeId,
+      exported_at: new Date().toISOString(),
+    };
+    parts.push(JSON.stringify(header).slice(0, -1) + ',"items":[');
+  }
+
+  do {
+    if (shouldStop?.()) {
+      cancelled = true;
+      break;
+    }
+
+    const page = await productService.getProducts(tenantId, storeId, { cursor, limit: pageSize });
+    const items = filter ? page.items.filter(filter) : page.items;
+
+    if (items.length > 0) {
+      if (format === 'csv') {
+        parts.push(toCsvRows(items.map(product => columns.map(column => column.getValue(product)))) + '\r\n');
+      } else {
+        const separator = progress.exported > 0 ? ',' : '';
+        parts.push(separator + items.map(product => JSON.stringify(toCatalogItem(product))).join(','));
+      }
+    }
+
+    progress.pages += 1;
+    progress.scanned += page.items.length;
+    progress.exported += items.length;
+    onProgress?.({ ...progress });
+
+    cursor = page.next || undefined;
+  } while (cursor);
+
+  if (format === 'json') {
+    parts.push(']}');
+  }
+
+  return { ...progress, parts, cancelled };
+};
@@ -0,0 +1,465 @@
+import { productService, type CreateProductRequest, type UpdateProductRequest } from './product.service';
+import { ProductValidationRules, type ProductFormData } from '../../utils/productValidation';
+import { DEFAULT_UOM } from '../../constants/uom';
+import type { ApiProduct } from '../types/product.types';
+
+export type ProductImportFieldType = 'string' | 'number' | 'boolean' | 'list';
+
+export interface ProductImportField {
+  /** `item_id` or a dotted ProductFormData path */
+  key: string;
+  label: string;
+  type: ProductImportFieldType;
+  required?: boolean;
+  /** Lower-cased header names that map onto this field automatically */
+  aliases: string[];
+}
+
+/**
+ * Column targets available to an import. Columns prefixed with `attr:` map to
+ * custom attributes and `prop:` to properties, keyed by the rest of the header.
+ */
+export const PRODUCT_IMPORT_FIELDS: ProductImportField[] = [
+  { key: 'item_id', label: 'SKU / Item ID', type: 'string', aliases: ['item_id', 'item id', 'sku', 'id'] },
+  { key: 'name', label: 'Name', type: 'string', required: true, aliases: ['name', 'product name', 'item name', 'title'] },
+  { key: 'description', label: 'Description', type: 'string', aliases: ['description', 'desc'] },
+  { key: 'uom', label: 'Unit of Measure', type: 'string', aliases: ['uom', 'unit', 'unit of measure'] },
+  { key: 'brand', label: 'Brand', type: 'string', aliases: ['brand'] },
+  { key: 'tax_group', label: 'Tax Group', type: 'string', aliases: ['tax_group', 'tax group', 'tax'] },
+  { key: 'fiscal_id', label: 'Fiscal ID', type: 'string', aliases: ['fiscal_id', 'fiscal id', 'fiscal_item_id'] },
+  { key: 'stock_status', label: 'Stock Status', type: 'string', aliases: ['stock_status', 'stock status'] },
+  { key: 'pricing.list_price', label: 'List Price', type: 'number', required: true, aliases: ['list_price', 'list price', 'price'] },
+  { key: 'pricing.sale_price', label: 'Sale Price', type: 'number', aliases: ['sale_price', 'sale price'] },
+  { key: 'pricing.tare_value', label: 'Tare Value', type: 'number', aliases: ['tare_value', 'tare value', 'tare'] },
+  { key: 'pricing.tare_uom', label: 'Tare UOM', type: 'string', aliases: ['tare_uom', 'tare uom'] },
+  { key: 'settings.active', label: 'Active', type: 'boolean', aliases: ['active', 'enabled'] },
+  { key: 'settings.measure_required', label: 'Measure Required', type: 'boolean', aliases: ['measure_required', 'measure required'] },
+  { key: 'settings.non_inventoried', label: 'Non Inventoried', type: 'boolean', aliases: ['non_inventoried', 'non inventoried'] },
+  { key: 'settings.shippable', label: 'Shippable', type: 'boolean', aliases: ['shippable'] },
+  { key: 'settings.serialized', label: 'Serialized', type: 'boolean', aliases: ['serialized'] },
+  { key: 'settings.disallow_discount', label: 'Disallow Discount', type: 'boolean', aliases: ['disallow_discount', 'disallow discount'] },
+  { key: 'settings.online_only', label: 'Online Only', type: 'boolean', aliases: ['online_only', 'online only'] },
+  { key: 'prompts.prompt_qty', label: 'Prompt Quantity', type: 'boolean', aliases: ['prompt_qty', 'prompt quantity'] },
+  { key: 'prompts.prompt_price', label: 'Prompt Price', type: 'boolean', aliases: ['prompt_price', 'prompt price'] },
+  { key: 'prompts.prompt_description', label: 'Prompt Description', type: 'boolean', aliases: ['prompt_description', 'prompt description'] },
+  { key: 'attributes.category_ids', label: 'Categories', type: 'list', aliases: ['category_ids', 'categories', 'category'] },
+  { key: 'attributes.tags', label: 'Tags', type: 'list', aliases: ['tags'] },
+  { key: 'media.image_url', label: 'Image URL', type: 'string', aliases: ['image_url', 'image url', 'image'] },
+];
+
+export const CUSTOM_ATTRIBUTE_PREFIX = 'attr:';
+export const PROPERTY_PREFIX = 'prop:';
+
+/** Header → target key (field key, `attr:<name>`, `prop:<name>` or '' to skip) */
+export type ProductImportMapping = Record<string, string>;
+
+export type ProductImportAction = 'create' | 'update';
+
+export interface ProductImportRow {
+  /** Line number in the source file, counting the header as line 1 */
+  rowNumber: number;
+  itemId: string;
+  action: ProductImportAction;
+  formData: ProductFormData;
+  /** Targets the row gave a value for; an update sends only these */
+  fields: string[];
+  errors: Record<string, string>;
+}
+
+export type ProductImportStatus = 'created' | 'updated' | 'failed';
+
+export interface ProductImportResult {
+  rowNumber: number;
+  itemId: string;
+  status: ProductImportStatus;
+  error?: string;
+}
+
+export interface ProductImportContext {
+  storeId: string;
+  /** Item IDs already in the store; matching rows are updated instead of created */
+  existingItemIds: Set<string>;
+  /** Lower-cased category ID or name → category ID */
+  categoryLookup: Map<string, string>;
+}
+
+export interface ProductImportOptions {
+  batchSize?: number;
+  onProgress?: (results: ProductImportResult[]) => void;
+  /** Polled between batches; returning true stops the run so it can be resumed later */
+  shouldStop?: () => boolean;
+}
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+
+/**
+ * Guess a mapping for each header from the field aliases
+ */
+export const autoMapColumns = (headers: string[]): ProductImportMapping => {
+  return headers.reduce<ProductImportMapping>((mapping, header) => {
+    const normalized = header.trim().toLowerCase();
+    const prefix = [CUSTOM_ATTRIBUTE_PREFIX, PROPERTY_PREFIX].find(candidate => normalized.startsWith(candidate));
+    if (prefix) {
+      // Lower-case the prefix so "Attr:Color" maps like "attr:Color"; the key keeps its case
+      mapping[header] = `${prefix}${header.trim().slice(prefix.length)}`;
+    } else {
+      mapping[header] = PRODUCT_IMPORT_FIELDS.find(field => field.aliases.includes(normalized))?.key || '';
+    }
+    return mapping;
+  }, {});
+};
+
+/**
+ * Headers for a blank import template, one per importable column
+ */
+export const getImportTemplateHeaders = (): string[] => PRODUCT_IMPORT_FIELDS.map(field => field.aliases[0]);
+
+// Same compact format as products created from ProductEdit
+const generateProductId = (): string => {
+  const timestamp = Date.now().toString(36).slice(-3);
+  const random = Math.random().toString(36).substr(2, 4);
+  return `P${timestamp}${random}`.toUpperCase();
+};
+
+const parseNumber = (value: string): number | undefined => {
+  const cleaned = value.replace(/[\s,$€£₹]/g, '');
+  if (cleaned === '') return undefined;
+  const parsed = Number(cleaned);
+  return Number.isFinite(parsed) ? parsed : NaN;
+};
+
+const parseBoolean = (value: string): boolean | undefined | null => {
+  const normalized = value.trim().toLowerCase();
+  if (normalized === '') return undefined;
+  if (TRUE_VALUES.includes(normalized)) return true;
+  if (FALSE_VALUES.includes(normalized)) return false;
+  return null;
+};
+
+const parseList = (value: string): string[] => {
+  return value.split(/[|;,]/).map(entry => entry.trim()).filter(Boolean);
+};
+
+const setNestedValue = (target: object, path: string, value: unknown) => {
+  const keys = path.split('.');
+  let current = target as Record<string, unknown>;
+  for (const key of keys.slice(0, -1)) {
+    current[key] = current[key] ?? {};
+    current = current[key] as Record<string, unknown>;
+  }
+  current[keys[keys.length - 1]] = value;
+};
+
+/**
+ * Convert one mapped record into product form data, collecting parse errors
+ */
+const buildFormData = (
+  record: Record<string, string>,
+  mapping: ProductImportMapping,
+  context: ProductImportContext
+): { itemId: string; formData: ProductFormData; fields: string[]; errors: Record<string, string> } => {
+  const errors: Record<string, string> = {};
+  const fields: string[] = [];
+  const formData: ProductFormData = {
+    name: '',
+    store_id: context.storeId,
+    uom: DEFAULT_UOM,
+    pricing: {} as ProductFormData['pricing'],
+    settings: { active: true },
+    prompts: {},
+    attributes: { custom_attributes: {}, properties: {} },
+    media: {},
+  };
+  let itemId = '';
+
+  for (const [header, target] of Object.entries(mapping)) {
+    const raw = record[header] ?? '';
+    if (!target || raw === '') continue;
+    fields.push(target);
+
+    if (target.startsWith(CUSTOM_ATTRIBUTE_PREFIX)) {
+      formData.attributes!.custom_attributes![target.slice(CUSTOM_ATTRIBUTE_PREFIX.length).trim()] = raw;
+      continue;
+    }
+    if (target.startsWith(PROPERTY_PREFIX)) {
+      formData.attributes!.properties![target.slice(PROPERTY_PREFIX.length).trim()] = raw;
+      continue;
+    }
+
+    const field = PRODUCT_IMPORT_FIELDS.find(f => f.key === target);
+    if (!field) continue;
+
+    if (field.key === 'item_id') {
+      itemId = raw;
+      continue;
+    }
+
+    switch (field.type) {
+      case 'number': {
+        const parsed = parseNumber(raw);
+        if (Number.isNaN(parsed)) {
+          errors[field.key] = `${field.label} must be a number`;
+        } else if (parsed !== undefined) {
+          setNestedValue(formData, field.key, parsed);
+        }
+        break;
+      }
+      case 'boolean': {
+        const parsed = parseBoolean(raw);
+        if (parsed === null) {
+          errors[field.key] = `${field.label} must be true/false or yes/no`;
+        } else if (parsed !== undefined) {
+          setNestedValue(formData, field.key, parsed);
+        }
+        break;
+      }
+      case 'list':
+        setNestedValue(formData, field.key, parseList(raw));
+        break;
+      default:
+        setNestedValue(formData, field.key, field.key === 'stock_status' ? raw.toLowerCase() : raw);
+    }
+  }
+
+  // Categories may be given by ID or by name; resolve both to IDs
+  const categoryRefs = formData.attributes?.category_ids || [];
+  const unknownCategories = categoryRefs.filter(ref => !context.categoryLookup.has(ref.toLowerCase()));
+  if (unknownCategories.length > 0) {
+    errors['attributes.category_ids'] = `Unknown categories: ${unknownCategories.join(', ')}`;
+  }
+  formData.attributes!.category_ids = categoryRefs
+    .map(ref => context.categoryLookup.get(ref.toLowerCase()))
+    .filter((id): id is string => Boolean(id));
+
+  return { itemId, formData, fields, errors };
+};
+
+/**
+ * Parse and validate every record (the dry run). Nothing is sent to the API.
+ */
+export const buildImportRows = (
+  records: Record<string, string>[],
+  mapping: ProductImportMapping,
+  context: ProductImportContext
+): ProductImportRow[] => {
+  const seenItemIds = new Map<string, number>();
+  const parsed = records.map(record => buildFormData(record, mapping, context));
+  // Generated IDs must not collide with the store, the file's own SKUs or each other
+  const takenItemIds = new Set([...context.existingItemIds, ...parsed.map(entry => entry.itemId).filter(Boolean)]);
+
+  return parsed.map(({ itemId: sourceItemId, formData, fields, errors }, index) => {
+    const rowNumber = index + 2;
+    const action: ProductImportAction = sourceItemId && context.existingItemIds.has(sourceItemId) ? 'update' : 'create';
+
+    // An update keeps what the file leaves out, so only the given fields must be valid
+    const validation = ProductValidationRules.validateForm(formData);
+    const validationErrors = action === 'update'
+      ? Object.fromEntries(Object.entries(validation.errors).filter(([key]) => fields.includes(key)))
+      : validation.errors;
+    const rowErrors = { ...validationErrors, ...errors };
+
+    let itemId = sourceItemId;
+    if (itemId) {
+      const itemIdValidation = ProductValidationRules.validateItemId(itemId);
+      if (!itemIdValidation.isValid) {
+        rowErrors.item_id = itemIdValidation.error || 'Invalid item ID';
+      }
+      const firstRow = seenItemIds.get(itemId);
+      if (firstRow !== undefined) {
+        rowErrors.item_id = `Duplicate item ID, first seen on row ${firstRow}`;
+      } else {
+        seenItemIds.set(itemId, rowNumber);
+      }
+    } else {
+      do {
+        itemId = generateProductId();
+      } while (takenItemIds.has(itemId));
+      takenItemIds.add(itemId);
+    }
+
+    return {
+      rowNumber,
+      itemId,
+      action,
+      formData,
+      fields,
+      errors: rowErrors,
+    };
+  });
+};
+
+/**
+ * Map validated form data onto the product API request
+ */
+export const toProductRequest = (row: ProductImportRow): CreateProductRequest => {
+  const { formData } = row;
+  return {
+    item_id: row.itemId,
+    store_id: formData.store_id,
+    name: formData.name,
+    description: formData.description,
+    uom: formData.uom || DEFAULT_UOM,
+    brand: formData.brand,
+    tax_group: formData.tax_group,
+    fiscal_item_id: formData.fiscal_id,
+    stock_status: formData.stock_status,
+    list_price: formData.pricing.list_price,
+    sale_price: formData.pricing.sale_price,
+    tare_value: formData.pricing.tare_value,
+    tare_uom: formData.pricing.tare_uom,
+    image_url: formData.media?.image_url,
+    measure_required: formData.settings?.measure_required,
+    non_inventoried: formData.settings?.non_inventoried,
+    shippable: formData.settings?.shippable,
+    serialized: formData.settings?.serialized,
+    active: formData.settings?.active,
+    disallow_discount: formData.settings?.disallow_discount,
+    online_only: formData.settings?.online_only,
+    prompt_qty: formData.prompts?.prompt_qty,
+    prompt_price: formData.prompts?.prompt_price,
+    prompt_description: formData.prompts?.prompt_description,
+    categories: formData.attributes?.category_ids || [],
+    custom_attribute: {
+      ...formData.attributes?.custom_attributes,
+      tags: formData.attributes?.tags || []
+    },
+    properties: formData.attributes?.properties,
+  };
+};
+
+// Update request field → import target it comes from
+const UPDATE_FIELD_SOURCES: Partial<Record<keyof CreateProductRequest, string>> = {
+  name: 'name',
+  description: 'description',
+  uom: 'uom',
+  brand: 'brand',
+  tax_group: 'tax_group',
+  fiscal_item_id: 'fiscal_id',
+  stock_status: 'stock_status',
+  list_price: 'pricing.list_price',
+  sale_price: 'pricing.sale_price',
+  tare_value: 'pricing.tare_value',
+  tare_uom: 'pricing.tare_uom',
+  image_url: 'media.image_url',
+  measure_required: 'settings.measure_required',
+  non_inventoried: 'settings.non_inventoried',
+  shippable: 'settings.shippable',
+  serialized: 'settings.serialized',
+  active: 'settings.active',
+  disallow_discount: 'settings.disallow_discount',
+  online_only: 'settings.online_only',
+  prompt_qty: 'prompts.prompt_qty',
+  prompt_price: 'prompts.prompt_price',
+  prompt_description: 'prompts.prompt_description',
+  categories: 'attributes.category_ids',
+};
+
+/** Whether the row sets custom attributes (including tags) or properties */
+const hasAttributeFields = (row: ProductImportRow): boolean =>
+  row.fields.some(field => field === 'attributes.tags'
+    || field.startsWith(CUSTOM_ATTRIBUTE_PREFIX)
+    || field.startsWith(PROPERTY_PREFIX));
+
+/**
+ * Map a row onto an update request holding only the fields the file gave.
+ * Custom attributes and properties are merged onto the current product's.
+ */
+export const toProductUpdateRequest = (
+  row: ProductImportRow,
+  current?: Pick<ApiProduct, 'custom_attribute' | 'properties'>
+): UpdateProductRequest => {
+  const full = toProductRequest(row);
+  const request: UpdateProductRequest = { item_id: full.item_id, store_id: full.store_id };
+
+  (Object.keys(UPDATE_FIELD_SOURCES) as Array<keyof CreateProductRequest>).forEach(key => {
+    const source = UPDATE_FIELD_SOURCES[key];
+    if (source && row.fields.includes(source)) {
+      Object.assign(request, { [key]: full[key] });
+    }
+  });
+
+  const { custom_attributes = {}, properties = {}, tags } = row.formData.attributes || {};
+  if (row.fields.includes('attributes.tags') || row.fields.some(field => field.startsWith(CUSTOM_ATTRIBUTE_PREFIX))) {
+    request.custom_attribute = {
+      ...current?.custom_attribute,
+      ...custom_attributes,
+      ...(row.fields.includes('attributes.tags') ? { tags: tags || [] } : {})
+    };
+  }
+  if (row.fields.some(field => field.startsWith(PROPERTY_PREFIX))) {
+    request.properties = { ...current?.properties, ...properties };
+  }
+
+  return request;
+};
+
+/**
+ * Build the category lookup used to resolve category references
+ */
+export const buildCategoryLookup = (categories: Array<{ category_id: string; name: string }>): Map<string, string> => {
+  const lookup = new Map<string, string>();
+  for (const category of categories) {
+    lookup.set(category.name.toLowerCase(), category.category_id);
+  }
+  // IDs win over names when they collide
+  for (const category of categories) {
+    lookup.set(category.category_id.toLowerCase(), category.category_id);
+  }
+  return lookup;
+};
+
+/**
+ * Load every item ID in the store
+ */
+export const fetchExistingItemIds = async (tenantId: string, storeId: string): Promise<Set<string>> => {
+  const products = await productService.getAllProducts(tenantId, storeId);
+  return new Set(products.map(product => product.item_id));
+};
+
+/**
+ * Create or update the given rows in batches. Rows are processed concurrently
+ * within a batch; a failing row never aborts the run. Pass only the rows that
+ * have not succeeded yet to resume after a stop or failure.
+ */
+export const runProductImport = async (
+  tenantId: string,
+  storeId: string,
+  rows: ProductImportRow[],
+  options: ProductImportOptions = {}
+): Promise<ProductImportResult[]> => {
+  const { batchSize = 10, onProgress, shouldStop } = options;
+  const results: ProductImportResult[] = [];
+
+  for (let start = 0; start < rows.length; start += batchSize) {
+    if (shouldStop?.()) break;
+
+    const batch = rows.slice(start, start + batchSize);
+    const settled = await Promise.allSettled(batch.map(async row => {
+      if (row.action === 'create') {
+        return productService.createProduct(tenantId, storeId, toProductRequest(row));
+      }
+      // Attribute columns merge onto the stored attributes rather than replace them
+      const current = hasAttributeFields(row)
+        ? await productService.getProduct(tenantId, storeId, row.itemId)
+        : undefined;
+      return productService.updateProduct(tenantId, storeId, row.itemId, toProductUpdateRequest(row, current));
+    }));
+
+    settled.forEach((outcome, index) => {
+      const row = batch[index];
+      results.push(outcome.status === 'fulfilled'
+        ? { rowNumber: row.rowNumber, itemId: row.itemId, status: row.action === 'update' ? 'updated' : 'created' }
+        : {
+            rowNumber: row.rowNumber,
+            itemId: row.itemId,
+            status: 'failed',
+            error: outcome.reason instanceof Error ? outcome.reason.message : 'Unknown error'
+          });
+    });
+
+    onProgress?.([...results]);
+  }
+
+  return results;
+};
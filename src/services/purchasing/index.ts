@@ -0,0 +1,33 @@
+export { purchasingService, PurchasingService } from './purchasingService';
+export {
+  OPEN_ORDER_STATUSES,
+  canPerformAction,
+  getLineOutstanding,
+  getOrderTotal,
+  getOrderQuantities,
+  validateReceipt,
+  getOutstandingByItem,
+  getLastOrderedByItem,
+  calculateSuggestedQuantity,
+  buildReorderSuggestions,
+  buildDraftOrders
+} from './purchasingUtils';
+export type { PurchaseOrderAction } from './purchasingUtils';
+export type {
+  Supplier,
+  CreateSupplierRequest,
+  UpdateSupplierRequest,
+  SuppliersResponse,
+  PurchaseOrderStatus,
+  PurchaseOrderLine,
+  PurchaseOrder,
+  PurchaseOrderLineInput,
+  CreatePurchaseOrderRequest,
+  UpdatePurchaseOrderRequest,
+  PurchaseOrderQueryParams,
+  PurchaseOrdersResponse,
+  ReceiptLineInput,
+  ReceivePurchaseOrderRequest,
+  ReceivePurchaseOrderResult,
+  ReorderSuggestion
+} from '../types/purchasing.types';
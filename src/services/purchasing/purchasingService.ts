@@ -0,0 +1,210 @@
+// Purchasing service: suppliers, purchase orders and receiving per store
+import { apiClient, ApiError } from '../api';
+import type {
+  Supplier,
+  CreateSupplierRequest,
+  UpdateSupplierRequest,
+  SuppliersResponse,
+  PurchaseOrder,
+  CreatePurchaseOrderRequest,
+  UpdatePurchaseOrderRequest,
+  PurchaseOrderQueryParams,
+  PurchaseOrdersResponse,
+  ReceivePurchaseOrderRequest,
+  ReceivePurchaseOrderResult
+} from '../types/purchasing.types';
+
+const PAGE_LIMIT = 200;
+
+export class PurchasingService {
+  private basePath(storeId: string): string {
+    return `/v0/store/${storeId}/purchasing`;
+  }
+
+  /**
+   * Get the store's suppliers
+   */
+  async getSuppliers(storeId: string): Promise<Supplier[]> {
+    try {
+      const response = await apiClient.get<SuppliersResponse>(`${this.basePath(storeId)}/suppliers`);
+      return response.data.suppliers || [];
+    } catch (error) {
+      console.error('❌ Failed to fetch suppliers:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Create a supplier
+   */
+  async createSupplier(storeId: string, data: CreateSupplierRequest): Promise<Supplier> {
+    try {
+      const response = await apiClient.post<Supplier>(`${this.basePath(storeId)}/suppliers`, data);
+      console.log('✅ Supplier created:', response.data.supplier_id);
+      return response.data;
+    } catch (error) {
+      console.error('❌ Failed to create supplier:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Update a supplier
+   */
+  async updateSupplier(storeId: string, supplierId: string, data: UpdateSupplierRequest): Promise<Supplier> {
+    try {
+      const response = await apiClient.put<Supplier>(`${this.basePath(storeId)}/suppliers/${supplierId}`, data);
+      console.log('✅ Supplier updated:', supplierId);
+      return response.data;
+    } catch (error) {
+      console.error('❌ Failed to update supplier:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Delete a supplier. Suppliers with purchase orders should be deactivated instead.
+   */
+  async deleteSupplier(storeId: string, supplierId: string): Promise<void> {
+    try {
+      await apiClient.delete(`${this.basePath(storeId)}/suppliers/${supplierId}`);
+      console.log('✅ Supplier deleted:', supplierId);
+    } catch (error) {
+      console.error('❌ Failed to delete supplier:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get one page of purchase orders, newest first
+   */
+  async getPurchaseOrders(storeId: string, params: PurchaseOrderQueryParams = {}): Promise<PurchaseOrdersResponse> {
+    try {
+      const response = await apiClient.get<PurchaseOrdersResponse>(`${this.basePath(storeId)}/purchase-orders`, params);
+      return { orders: response.data.orders || [], next: response.data.next || null };
+    } catch (error) {
+      console.error('❌ Failed to fetch purchase orders:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get every purchase order matching the filters, following the cursor
+   */
+  async getAllPurchaseOrders(storeId: string, params: Omit<PurchaseOrderQueryParams, 'cursor' | 'limit'> = {}): Promise<PurchaseOrder[]> {
+    const orders: PurchaseOrder[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.getPurchaseOrders(storeId, { ...params, cursor, limit: PAGE_LIMIT });
+      orders.push(...page.orders);
+      cursor = page.next || undefined;
+    } while (cursor);
+    return orders;
+  }
+
+  /**
+   * Create a draft purchase order
+   */
+  async createPurchaseOrder(storeId: string, data: CreatePurchaseOrderRequest): Promise<PurchaseOrder> {
+    if (data.lines.length === 0) {
+      throw new ApiError('A purchase order needs at least one line', 400, 'EMPTY_PURCHASE_ORDER');
+    }
+
+    try {
+      const response = await apiClient.post<PurchaseOrder>(`${this.basePath(storeId)}/purchase-orders`, data);
+      console.log('✅ Purchase order created:', response.data.po_number);
+      return response.data;
+    } catch (error) {
+      console.error('❌ Failed to create purchase order:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Update a draft purchase order
+   */
+  async updatePurchaseOrder(storeId: string, poId: string, data: UpdatePurchaseOrderRequest): Promise<PurchaseOrder> {
+    try {
+      const response = await apiClient.put<PurchaseOrder>(`${this.basePath(storeId)}/purchase-orders/${poId}`, data);
+      console.log('✅ Purchase order updated:', poId);
+      return response.data;
+    } catch (error) {
+      console.error('❌ Failed to update purchase order:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Delete a draft purchase order
+   */
+  async deletePurchaseOrder(storeId: string, poId: string): Promise<void> {
+    try {
+      await apiClient.delete(`${this.basePath(storeId)}/purchase-orders/${poId}`);
+      console.log('✅ Purchase order deleted:', poId);
+    } catch (error) {
+      console.error('❌ Failed to delete purchase order:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Mark a draft as sent to the supplier
+   */
+  async sendPurchaseOrder(storeId: string, poId: string): Promise<PurchaseOrder> {
+    return this.transitionPurchaseOrder(storeId, poId, 'send');
+  }
+
+  /**
+   * Cancel an order that has not been received
+   */
+  async cancelPurchaseOrder(storeId: string, poId: string): Promise<PurchaseOrder> {
+    return this.transitionPurchaseOrder(storeId, poId, 'cancel');
+  }
+
+  /**
+   * Receive a delivery against a sent order. Stock and item costs are
+   * updated in the same request.
+   */
+  async receivePurchaseOrder(storeId: string, poId: string, data: ReceivePurchaseOrderRequest): Promise<ReceivePurchaseOrderResult> {
+    try {
+      const response = await apiClient.post<ReceivePurchaseOrderResult>(
+        `${this.basePath(storeId)}/purchase-orders/${poId}/receive`,
+        data
+      );
+      console.log('✅ Purchase order received:', response.data.order.po_number, response.data.order.status);
+      return response.data;
+    } catch (error) {
+      console.error('❌ Failed to receive purchase order:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  private async transitionPurchaseOrder(storeId: string, poId: string, action: 'send' | 'cancel'): Promise<PurchaseOrder> {
+    try {
+      const response = await apiClient.post<PurchaseOrder>(`${this.basePath(storeId)}/purchase-orders/${poId}/${action}`, {});
+      console.log(`✅ Purchase order ${action}:`, poId);
+      return response.data;
+    } catch (error) {
+      console.error(`❌ Failed to ${action} purchase order:`, error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Handle API errors
+   */
+  private handleError(error: unknown): ApiError {
+    if (error instanceof ApiError) {
+      return error;
+    }
+
+    return new ApiError(
+      error instanceof Error ? error.message : 'An unexpected error occurred while processing your request',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+}
+
+// Export a singleton instance
+export const purchasingService = new PurchasingService();
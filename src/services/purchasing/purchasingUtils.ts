@@ -0,0 +1,175 @@
+// Purchase order arithmetic and reorder suggestions from configured reorder points
+import type { InventoryItem } from '../types/inventory.types';
+import type {
+  CreatePurchaseOrderRequest,
+  PurchaseOrder,
+  PurchaseOrderLine,
+  PurchaseOrderLineInput,
+  PurchaseOrderStatus,
+  ReceiptLineInput,
+  ReorderSuggestion
+} from '../types/purchasing.types';
+
+/** Orders that still expect stock to arrive */
+export const OPEN_ORDER_STATUSES: PurchaseOrderStatus[] = ['draft', 'sent', 'partially_received'];
+
+export type PurchaseOrderAction = 'edit' | 'send' | 'receive' | 'cancel' | 'delete';
+
+const ALLOWED_ACTIONS: Record<PurchaseOrderStatus, PurchaseOrderAction[]> = {
+  draft: ['edit', 'send', 'cancel', 'delete'],
+  sent: ['receive', 'cancel'],
+  partially_received: ['receive'],
+  received: [],
+  cancelled: []
+};
+
+export function canPerformAction(order: Pick<PurchaseOrder, 'status'>, action: PurchaseOrderAction): boolean {
+  return ALLOWED_ACTIONS[order.status].includes(action);
+}
+
+export function getLineOutstanding(line: Pick<PurchaseOrderLine, 'quantity_ordered' | 'quantity_received'>): number {
+  return Math.max(0, line.quantity_ordered - line.quantity_received);
+}
+
+export function getOrderTotal(lines: Array<Pick<PurchaseOrderLineInput, 'quantity_ordered' | 'unit_cost'>>): number {
+  return lines.reduce((total, line) => total + line.quantity_ordered * line.unit_cost, 0);
+}
+
+export function getOrderQuantities(order: PurchaseOrder): { ordered: number; received: number } {
+  return order.lines.reduce(
+    (totals, line) => ({
+      ordered: totals.ordered + line.quantity_ordered,
+      received: totals.received + line.quantity_received
+    }),
+    { ordered: 0, received: 0 }
+  );
+}
+
+/**
+ * Check a delivery against the order. Returns an error message, or null
+ * when it can be received.
+ */
+export function validateReceipt(order: PurchaseOrder, lines: ReceiptLineInput[]): string | null {
+  if (!canPerformAction(order, 'receive')) {
+    return 'Only sent orders can be received';
+  }
+
+  const linesById = new Map(order.lines.map(line => [line.line_id, line]));
+  let total = 0;
+
+  for (const input of lines) {
+    const line = linesById.get(input.line_id);
+    if (!line) {
+      return 'The delivery contains a line that is not on this order';
+    }
+    if (!Number.isFinite(input.quantity) || input.quantity < 0) {
+      return `Enter a valid quantity for ${line.item_name}`;
+    }
+    if (input.quantity > getLineOutstanding(line)) {
+      return `${line.item_name}: only ${getLineOutstanding(line)} still outstanding`;
+    }
+    if (input.unit_cost !== undefined && (!Number.isFinite(input.unit_cost) || input.unit_cost < 0)) {
+      return `Enter a valid cost for ${line.item_name}`;
+    }
+    total += input.quantity;
+  }
+
+  return total > 0 ? null : 'Enter at least one received quantity';
+}
+
+/**
+ * Quantity still expected per item across open orders, drafts included so
+ * suggestions aren't drafted twice
+ */
+export function getOutstandingByItem(orders: PurchaseOrder[]): Map<string, number> {
+  const outstanding = new Map<string, number>();
+  orders
+    .filter(order => OPEN_ORDER_STATUSES.includes(order.status))
+    .forEach(order => order.lines.forEach(line => {
+      outstanding.set(line.item_id, (outstanding.get(line.item_id) || 0) + getLineOutstanding(line));
+    }));
+  return outstanding;
+}
+
+/** The supplier and cost each item was last ordered at */
+export function getLastOrderedByItem(orders: PurchaseOrder[]): Map<string, { supplier_id: string; unit_cost: number }> {
+  const last = new Map<string, { supplier_id: string; unit_cost: number; created_at: string }>();
+  orders
+    .filter(order => order.status !== 'cancelled')
+    .forEach(order => order.lines.forEach(line => {
+      const previous = last.get(line.item_id);
+      if (!previous || previous.created_at < order.created_at) {
+        last.set(line.item_id, { supplier_id: order.supplier_id, unit_cost: line.unit_cost, created_at: order.created_at });
+      }
+    }));
+  return new Map(Array.from(last, ([itemId, { supplier_id, unit_cost }]) => [itemId, { supplier_id, unit_cost }]));
+}
+
+/**
+ * How much to order once stock falls to the reorder point. With a reorder
+ * quantity, order whole multiples of it until stock is back above the point;
+ * without one, order back up to twice the reorder point.
+ */
+export function calculateSuggestedQuantity(available: number, reorderPoint: number, reorderQuantity: number | null): number {
+  if (available > reorderPoint) return 0;
+
+  const shortfall = reorderPoint - available;
+  if (reorderQuantity && reorderQuantity > 0) {
+    return reorderQuantity * (Math.floor(shortfall / reorderQuantity) + 1);
+  }
+  return Math.max(1, reorderPoint * 2 - available);
+}
+
+/**
+ * Items at or below their reorder point, counting stock already on open orders
+ */
+export function buildReorderSuggestions(items: InventoryItem[], orders: PurchaseOrder[]): ReorderSuggestion[] {
+  const outstanding = getOutstandingByItem(orders);
+  const lastOrdered = getLastOrderedByItem(orders);
+
+  return items
+    .filter(item => item.reorder_point !== null)
+    .map(item => {
+      const onOrder = outstanding.get(item.item_id) || 0;
+      const reorderPoint = item.reorder_point as number;
+      const previous = lastOrdered.get(item.item_id);
+
+      return {
+        item_id: item.item_id,
+        item_name: item.name,
+        on_hand: item.on_hand,
+        on_order: onOrder,
+        reorder_point: reorderPoint,
+        suggested_quantity: calculateSuggestedQuantity(item.on_hand + onOrder, reorderPoint, item.reorder_quantity),
+        unit_cost: item.unit_cost ?? previous?.unit_cost ?? 0,
+        supplier_id: item.preferred_supplier_id || previous?.supplier_id || null
+      };
+    })
+    .filter(suggestion => suggestion.suggested_quantity > 0)
+    .sort((a, b) => a.item_name.localeCompare(b.item_name));
+}
+
+/**
+ * One draft order per supplier. Suggestions without a supplier are left out.
+ */
+export function buildDraftOrders(suggestions: ReorderSuggestion[]): CreatePurchaseOrderRequest[] {
+  const bySupplier = new Map<string, PurchaseOrderLineInput[]>();
+
+  suggestions.forEach(suggestion => {
+    if (!suggestion.supplier_id || suggestion.suggested_quantity <= 0) return;
+    const lines = bySupplier.get(suggestion.supplier_id) || [];
+    lines.push({
+      item_id: suggestion.item_id,
+      item_name: suggestion.item_name,
+      quantity_ordered: suggestion.suggested_quantity,
+      unit_cost: suggestion.unit_cost
+    });
+    bySupplier.set(suggestion.supplier_id, lines);
+  });
+
+  return Array.from(bySupplier, ([supplierId, lines]) => ({
+    supplier_id: supplierId,
+    lines,
+    notes: 'Drafted from reorder suggestions'
+  }));
+}
@@ -0,0 +1,533 @@
+import type { ReceiptElement, TextElement } from '../../types/receipt';
+import type { CharacterEncoding, PaperSize, PrinterConfig } from '../../types/hardware.types';
+
+// =============================================================================
+// ESC/POS renderer
+//
+// Turns built receipt elements (the output of the template engine) into the
+// command bytes a thermal printer understands:
+//
+//   text            ESC a (align), ESC E (bold), ESC - (underline), GS ! (size)
+//   row             fixed-width columns sized by each child's flex
+//   horizontalline  a full-width line of '-'
+//   barcode         GS ( k for QR / PDF417, GS k for Code39
+//   picture         GS v 0 raster bit image
+//   pagebreak       cut when cutting is enabled, otherwise a blank feed
+//
+// `PrinterConfig.paper` picks the character columns and image width,
+// `encoding` selects UTF-8 or GBK text, `cut` and `drawer` control the end of
+// the job.
+// =============================================================================
+
+export interface EscPosRasterImage {
+  /** Width in dots; rows are packed 8 dots per byte, MSB first */
+  width: number;
+  height: number;
+  /** One entry per dot, true = black */
+  pixels: boolean[];
+}
+
+export interface EscPosRenderOptions {
+  printer?: Partial<PrinterConfig>;
+  /** Turns a picture URL into a monochrome image; defaults to a canvas loader in the browser */
+  loadImage?: (url: string, maxWidth: number) => Promise<EscPosRasterImage | null>;
+}
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const FS = 0x1c;
+const LF = 0x0a;
+
+/** Font A columns and printable dots per paper width */
+const PAPER_LAYOUT: Partial<Record<PaperSize, { columns: number; dots: number }>> = {
+  '58mm': { columns: 32, dots: 384 },
+  '80mm': { columns: 48, dots: 576 },
+};
+
+const DEFAULT_LAYOUT = { columns: 48, dots: 576 };
+
+export const getEscPosLayout = (paper?: PaperSize) => (paper && PAPER_LAYOUT[paper]) || DEFAULT_LAYOUT;
+
+// ── Text encoding ────────────────────────────────────────────────────────────
+
+const utf8Encoder = new TextEncoder();
+let gbkTable: Map<string, number> | null = null;
+
+// Browsers can decode GBK but not encode it, so build the reverse table once
+const getGbkTable = (): Map<string, number> => {
+  if (gbkTable) return gbkTable;
+  gbkTable = new Map();
+  const decoder = new TextDecoder('gbk');
+  const pair = new Uint8Array(2);
+  for (let lead = 0x81; lead <= 0xfe; lead++) {
+    for (let trail = 0x40; trail <= 0xfe; trail++) {
+      if (trail === 0x7f) continue;
+      pair[0] = lead;
+      pair[1] = trail;
+      const char = decoder.decode(pair);
+      if (char.length === 1 && char !== '\uFFFD' && !gbkTable.has(char)) {
+        gbkTable.set(char, (lead << 8) | trail);
+      }
+    }
+  }
+  return gbkTable;
+};
+
+export const encodeEscPosText = (text: string, encoding: CharacterEncoding = 'utf8'): number[] => {
+  if (encoding !== 'gbk') return Array.from(utf8Encoder.encode(text));
+
+  const table = getGbkTable();
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (code < 0x80) {
+      bytes.push(code);
+      continue;
+    }
+    const gbk = table.get(char);
+    if (gbk === undefined) {
+      bytes.push(0x3f); // '?'
+    } else {
+      bytes.push(gbk >> 8, gbk & 0xff);
+    }
+  }
+  return bytes;
+};
+
+// CJK and full-width characters take two columns on the printer
+const WIDE_CHAR = /[\u1100-\u115F\u2E80-\uA4CF\uAC00-\uD7A3\uF900-\uFAFF\uFE30-\uFE4F\uFF00-\uFF60\uFFE0-\uFFE6]/;
+
+const charWidth = (char: string) => (WIDE_CHAR.test(char) ? 2 : 1);
+
+export const textWidth = (text: string): number => {
+  let width = 0;
+  for (const char of text) width += charWidth(char);
+  return width;
+};
+
+/** Split text into lines no wider than `width` columns */
+const wrapText = (text: string, width: number): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    let lineWidth = 0;
+    for (const char of paragraph) {
+      const w = charWidth(char);
+      if (lineWidth + w > width && line) {
+        lines.push(line);
+        line = '';
+        lineWidth = 0;
+      }
+      line += char;
+      lineWidth += w;
+    }
+    lines.push(line);
+  }
+  return lines;
+};
+
+const alignText = (text: string, width: number, align?: TextElement['align']): string => {
+  const pad = Math.max(0, width - textWidth(text));
+  switch (align) {
+    case 'right':
+      return ' '.repeat(pad) + text;
+    case 'center': {
+      const left = Math.floor(pad / 2);
+      return ' '.repeat(left) + text + ' '.repeat(pad - left);
+    }
+    default:
+      return text + ' '.repeat(pad);
+  }
+};
+
+// ── Styles ───────────────────────────────────────────────────────────────────
+
+interface TextStyle {
+  bold: boolean;
+  underline: boolean;
+  doubleWidth: boolean;
+  doubleHeight: boolean;
+}
+
+// Same style vocabulary as ReceiptElementRenderer ("bold large", "BL", ...)
+export const parseEscPosStyle = (style?: string): TextStyle => {
+  const value = style || '';
+  const large = value.includes('large') || value.includes('double') || value.includes('L');
+  return {
+    bold: value.includes('bold') || value.includes('B'),
+    underline: value.includes('underline') || value.includes('U'),
+    doubleWidth: large || value.includes('wide'),
+    doubleHeight: large || value.includes('tall'),
+  };
+};
+
+// ── Command builder ──────────────────────────────────────────────────────────
+
+class EscPosBuilder {
+  readonly bytes: number[] = [];
+  private readonly encoding: CharacterEncoding;
+
+  constructor(encoding: CharacterEncoding) {
+    this.encoding = encoding;
+  }
+
+  raw(...values: number[]) {
+    this.bytes.push(...values);
+  }
+
+  text(value: string) {
+    this.bytes.push(...encodeEscPosText(value, this.encoding));
+  }
+
+  line(value = '') {
+    this.text(value);
+    this.raw(LF);
+  }
+
+  align(align?: TextElement['align']) {
+    this.raw(ESC, 0x61, align === 'center' ? 1 : align === 'right' ? 2 : 0);
+  }
+
+  style(style: TextStyle) {
+    this.raw(ESC, 0x45, style.bold ? 1 : 0);
+    this.raw(ESC, 0x2d, style.underline ? 1 : 0);
+    this.raw(GS, 0x21, (style.doubleWidth ? 0x10 : 0) | (style.doubleHeight ? 0x01 : 0));
+  }
+
+  resetStyle() {
+    this.style({ bold: false, underline: false, doubleWidth: false, doubleHeight: false });
+  }
+
+  feed(lines: number) {
+    this.raw(ESC, 0x64, lines);
+  }
+
+  cut() {
+    // Feed to the cutter and partial cut
+    this.raw(GS, 0x56, 0x42, 0x00);
+  }
+
+  /** GS ( k function with a two-byte length prefix */
+  symbol(cn: number, fn: number, ...params: number[]) {
+    const length = params.length + 2;
+    this.raw(GS, 0x28, 0x6b, length & 0xff, (length >> 8) & 0xff, cn, fn, ...params);
+  }
+}
+
+// ── Elements ─────────────────────────────────────────────────────────────────
+
+const CODE39_CHARS = /^[0-9A-Z $%+\-./]+$/;
+
+const renderBarcode = (builder: EscPosBuilder, element: Extract<ReceiptElement, { type: 'barcode' }>) => {
+  const data = Array.from(utf8Encoder.encode(element.code));
+  if (data.length === 0) return;
+  builder.align('center');
+
+  switch (element.barcode_type) {
+    case 'qrcode':
+      builder.symbol(0x31, 0x41, 0x32, 0x00); // model 2
+      builder.symbol(0x31, 0x43, 0x06); // module size
+      builder.symbol(0x31, 0x45, 0x31); // error correction M
+      builder.symbol(0x31, 0x50, 0x30, ...data); // store
+      builder.symbol(0x31, 0x51, 0x30); // print
+      break;
+
+    case 'pdf417':
+      builder.symbol(0x30, 0x41, 0x00); // columns: auto
+      builder.symbol(0x30, 0x42, 0x00); // rows: auto
+      builder.symbol(0x30, 0x43, 0x03); // module width
+      builder.symbol(0x30, 0x44, 0x03); // row height
+      builder.symbol(0x30, 0x45, 0x30, 0x31); // error correction level 1 (level mode takes 0x30-0x38)
+      builder.symbol(0x30, 0x50, 0x30, ...data); // store
+      builder.symbol(0x30, 0x51, 0x30); // print
+      break;
+
+    default: {
+      const code = element.code.toUpperCase();
+      if (!CODE39_CHARS.test(code) || code.length > 255) {
+        builder.line(code);
+        break;
+      }
+      builder.raw(GS, 0x68, 80); // height
+      builder.raw(GS, 0x77, 2); // module width
+      builder.raw(GS, 0x48, 2); // human readable text below
+      builder.raw(GS, 0x6b, 69, code.length, ...utf8Encoder.encode(code));
+    }
+  }
+
+  builder.raw(LF);
+  builder.align('left');
+};
+
+const renderRaster = (builder: EscPosBuilder, image: EscPosRasterImage) => {
+  const widthBytes = Math.ceil(image.width / 8);
+  builder.align('center');
+  builder.raw(GS, 0x76, 0x30, 0x00, widthBytes & 0xff, widthBytes >> 8, image.height & 0xff, image.height >> 8);
+  for (let y = 0; y < image.height; y++) {
+    for (let xByte = 0; xByte < widthBytes; xByte++) {
+      let byte = 0;
+      for (let bit = 0; bit < 8; bit++) {
+        const x = xByte * 8 + bit;
+        if (x < image.width && image.pixels[y * image.width + x]) byte |= 0x80 >> bit;
+      }
+      builder.raw(byte);
+    }
+  }
+  builder.align('left');
+};
+
+// Row children become fixed-width columns; text that does not fit wraps within its column
+const renderRow = (builder: EscPosBuilder, children: ReceiptElement[], columns: number) => {
+  const cells = children.map(child => ({
+    flex: child.flex && child.flex > 0 ? child.flex : 1,
+    text: child.type === 'text' ? child.text || '' : '',
+    align: child.type === 'text' ? child.align : undefined,
+  }));
+  if (cells.length === 0) return;
+
+  const totalFlex = cells.reduce((sum, cell) => sum + cell.flex, 0);
+  let remaining = columns;
+  const widths = cells.map((cell, index) => {
+    const width = index === cells.length - 1 ? remaining : Math.floor((columns * cell.flex) / totalFlex);
+    remaining -= width;
+    return Math.max(1, width);
+  });
+
+  const wrapped = cells.map((cell, index) => wrapText(cell.text, widths[index]));
+  const lineCount = Math.max(...wrapped.map(lines => lines.length));
+
+  builder.align('left');
+  for (let line = 0; line < lineCount; line++) {
+    builder.line(
+      wrapped
+        .map((lines, index) => alignText(lines[line] ?? '', widths[index], cells[index].align))
+        .join('')
+        .replace(/\s+$/, '')
+    );
+  }
+};
+
+/**
+ * Render built receipt elements to ESC/POS bytes
+ */
+export async function renderEscPos(elements: ReceiptElement[], options: EscPosRenderOptions = {}): Promise<Uint8Array> {
+  const printer = options.printer || {};
+  const encoding = printer.encoding || 'utf8';
+  const layout = getEscPosLayout(printer.paper);
+  const shouldCut = printer.cut !== false;
+  const loadImage = options.loadImage ?? loadRasterImage;
+
+  const builder = new EscPosBuilder(encoding);
+  builder.raw(ESC, 0x40); // initialize
+  if (encoding === 'gbk') {
+    builder.raw(FS, 0x26); // Chinese character mode
+  } else {
+    builder.raw(FS, 0x2e); // single-byte mode; UTF-8 text is sent as-is
+  }
+
+  const renderElement = async (element: ReceiptElement): Promise<void> => {
+    switch (element.type) {
+      case 'text': {
+        const style = parseEscPosStyle(element.style);
+        builder.align(element.align);
+        builder.style(style);
+        builder.line(element.text || '');
+        builder.resetStyle();
+        break;
+      }
+
+      case 'row':
+        renderRow(builder, element.children || [], layout.columns);
+        break;
+
+      case 'horizontalline':
+        builder.align('left');
+        builder.line('-'.repeat(layout.columns));
+        break;
+
+      case 'pagebreak':
+        if (shouldCut) {
+          builder.feed(3);
+          builder.cut();
+        } else {
+          builder.feed(2);
+        }
+        break;
+
+      case 'barcode':
+        renderBarcode(builder, element);
+        break;
+
+      case 'picture': {
+        if (!element.url) break;
+        const image = await loadImage(element.url, layout.dots).catch(error => {
+          console.warn('Failed to load receipt image:', element.url, error);
+          return null;
+        });
+        if (image) renderRaster(builder, image);
+        break;
+      }
+
+      case 'iterator':
+        // Unbuilt template rows; print what the iterator contains
+        for (const row of element.rows || []) await renderElement(row);
+        break;
+
+      default:
+        // Section references only exist in unbuilt templates
+        break;
+    }
+  };
+
+  for (const element of elements) {
+    await renderElement(element);
+  }
+
+  if (shouldCut) {
+    builder.feed(4);
+    builder.cut();
+  } else {
+    builder.feed(2);
+  }
+
+  if (printer.drawer) {
+    builder.raw(ESC, 0x70, 0x00, 0x19, 0xfa); // pulse drawer pin 2
+  }
+
+  return new Uint8Array(builder.bytes);
+}
+
+/**
+ * Load an image in the browser, scale it to the printable width and dither it
+ * to black and white with a simple threshold
+ */
+export const loadRasterImage = async (url: string, maxWidth: number): Promise<EscPosRasterImage | null> => {
+  if (typeof document === 'undefined') return null;
+
+  const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Failed to load image: ${url}`));
+    img.src = url;
+  });
+
+  const scale = Math.min(1, maxWidth / image.naturalWidth);
+  const width = Math.max(1, Math.round(image.naturalWidth * scale));
+  const height = Math.max(1, Math.round(image.naturalHeight * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, width, height);
+  context.drawImage(image, 0, 0, width, height);
+
+  const { data } = context.getImageData(0, 0, width, height);
+  const pixels: boolean[] = new Array(width * height);
+  for (let i = 0; i < pixels.length; i++) {
+    const luminance = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    pixels[i] = data[i * 4 + 3] > 127 && luminance < 128;
+  }
+
+  return { width, height, pixels };
+};
+
+// ── Dumps ────────────────────────────────────────────────────────────────────
+
+/**
+ * Classic hex dump: offset, 16 bytes in hex, printable ASCII
+ */
+export function toHexDump(bytes: Uint8Array, bytesPerLine: number = 16): string {
+  const lines: string[] = [];
+  for (let offset = 0; offset < bytes.length; offset += bytesPerLine) {
+    const chunk = Array.from(bytes.slice(offset, offset + bytesPerLine));
+    const hex = chunk.map(byte => byte.toString(16).padStart(2, '0').toUpperCase()).join(' ');
+    const ascii = chunk.map(byte => (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.')).join('');
+    lines.push(`${offset.toString(16).padStart(6, '0')}  ${hex.padEnd(bytesPerLine * 3 - 1)}  |${ascii}|`);
+  }
+  return lines.join('\n');
+}
+
+const ALIGN_NAMES = ['left', 'center', 'right'];
+
+/**
+ * Readable listing of the command stream: text as printed, commands in
+ * [brackets]. Meant for checking templates without a printer.
+ */
+export function describeEscPos(bytes: Uint8Array, encoding: CharacterEncoding = 'utf8'): string {
+  const decoder = new TextDecoder(encoding === 'gbk' ? 'gbk' : 'utf-8');
+  const out: string[] = [];
+  let text: number[] = [];
+  let i = 0;
+
+  const flushText = () => {
+    if (text.length > 0) {
+      out.push(decoder.decode(new Uint8Array(text)));
+      text = [];
+    }
+  };
+  const command = (label: string, length: number) => {
+    flushText();
+    out.push(`[${label}]`);
+    i += length;
+  };
+
+  while (i < bytes.length) {
+    const byte = bytes[i];
+    const next = bytes[i + 1];
+
+    if (byte === LF) {
+      flushText();
+      out.push('\n');
+      i += 1;
+    } else if (byte === ESC && next === 0x40) {
+      command('INIT', 2);
+    } else if (byte === ESC && next === 0x61) {
+      command(`ALIGN ${ALIGN_NAMES[bytes[i + 2]] ?? bytes[i + 2]}`, 3);
+    } else if (byte === ESC && next === 0x45) {
+      command(`BOLD ${bytes[i + 2] ? 'on' : 'off'}`, 3);
+    } else if (byte === ESC && next === 0x2d) {
+      command(`UNDERLINE ${bytes[i + 2] ? 'on' : 'off'}`, 3);
+    } else if (byte === ESC && next === 0x64) {
+      command(`FEED ${bytes[i + 2]}`, 3);
+    } else if (byte === ESC && next === 0x70) {
+      command('OPEN DRAWER', 5);
+    } else if (byte === GS && next === 0x21) {
+      const size = bytes[i + 2];
+      command(`SIZE ${(size >> 4) + 1}x${(size & 0x0f) + 1}`, 3);
+    } else if (byte === GS && next === 0x56) {
+      command('CUT', 4);
+    } else if (byte === GS && (next === 0x68 || next === 0x77 || next === 0x48)) {
+      i += 3; // barcode settings, shown with the barcode
+    } else if (byte === GS && next === 0x6b) {
+      const length = bytes[i + 3];
+      command(`CODE39 ${decoder.decode(bytes.slice(i + 4, i + 4 + length))}`, 4 + length);
+    } else if (byte === GS && next === 0x28 && bytes[i + 2] === 0x6b) {
+      const length = bytes[i + 3] | (bytes[i + 4] << 8);
+      const cn = bytes[i + 5];
+      const fn = bytes[i + 6];
+      const symbol = cn === 0x31 ? 'QR' : 'PDF417';
+      if (fn === 0x50) {
+        command(`${symbol} ${decoder.decode(bytes.slice(i + 8, i + 5 + length))}`, 5 + length);
+      } else {
+        i += 5 + length; // symbol settings and print
+      }
+    } else if (byte === GS && next === 0x76 && bytes[i + 2] === 0x30) {
+      const widthBytes = bytes[i + 4] | (bytes[i + 5] << 8);
+      const height = bytes[i + 6] | (bytes[i + 7] << 8);
+      command(`IMAGE ${widthBytes * 8}x${height}`, 8 + widthBytes * height);
+    } else if (byte === FS && (next === 0x26 || next === 0x2e)) {
+      command(next === 0x26 ? 'GBK MODE' : 'SINGLE-BYTE MODE', 2);
+    } else {
+      text.push(byte);
+      i += 1;
+    }
+  }
+
+  flushText();
+  return out.join('');
+}
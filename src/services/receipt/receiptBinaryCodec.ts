@@ -8,7 +8,9 @@ import type {
   RowElement,
   SectionRefElement,
   IteratorRefElement,
+  ReceiptCondition,
 } from '../../types/receipt';
+import { deflateRaw, inflateRaw } from '../../utils/deflate';
 
 // =============================================================================
 // Binary codec for receipt elements – TypeScript port of the Dart implementation.
@@ -21,6 +23,19 @@ import type {
 // Element: [opcode(varint)] [total_length(varint)] [field_count(varint)] [fields…]
 // Field  : [tag(varint)] [length(varint)] [value(bytes)]   (TLV)
 //
+// Format Overview (Version 2)
+// ─────────────────────────────
+// Header : [magic(2)] [version(1)] [flags(1)]
+// Body   : payload, raw-deflated when flags & FLAG_DEFLATE
+// Payload: [string_count(varint)] [strings: [length(varint)] [utf8]…]
+//          [element_count(varint)] [elements…]
+// Trailer: [crc32(4, big-endian)] over header + body
+//
+// Elements use the same framing as v1, but string fields hold a varint index
+// into the string table so repeated text, alignments and styles are stored
+// once. Pictures whose url is a base64 data URL are stored as raw image bytes
+// (TAG_IMAGE_DATA) plus a mime type instead of base64 text.
+//
 // All integers use unsigned LEB128 (same as Protocol Buffers).
 // =============================================================================
 
@@ -52,6 +67,16 @@ const TAG_PATH = 9;
 const TAG_CONDITIONS = 10;
 const TAG_CHILDREN = 11;
 const TAG_ROWS = 12;
+const TAG_ITEM_ALIAS = 13;
+const TAG_IMAGE_DATA = 14;
+const TAG_IMAGE_MIME = 15;
+
+// Version 2 header flags
+const FLAG_DEFLATE = 0x01;
+const KNOWN_FLAGS = FLAG_DEFLATE;
+
+const V2_HEADER_LENGTH = 4;
+const CRC_LENGTH = 4;
 
 // ── Helpers ──────────────────────────────────────────────────────────────────
 
@@ -115,10 +140,116 @@ function decodeVarIntBytes(data: Uint8Array): number {
   return readVarInt(data, createOffsetRef(0));
 }
 
-function encodeJson(obj: unknown): Uint8Array {
-  return encodeString(JSON.stringify(obj));
+// ── String fields per version ────────────────────────────────────────────────
+
+/**
+ * How string fields are stored: inline UTF-8 in v1, string table indexes in v2.
+ */
+interface CodecContext {
+  version: number;
+  writeString(value: string): Uint8Array;
+  readString(value: Uint8Array): string;
+}
+
+const v1Context: CodecContext = {
+  version: 1,
+  writeString: encodeString,
+  readString: decodeString,
+};
+
+class StringTable implements CodecContext {
+  readonly version = 2;
+  readonly strings: string[];
+  private readonly indices = new Map<string, number>();
+
+  constructor(strings: string[] = []) {
+    this.strings = strings;
+    strings.forEach((value, index) => this.indices.set(value, index));
+  }
+
+  writeString(value: string): Uint8Array {
+    let index = this.indices.get(value);
+    if (index === undefined) {
+      index = this.strings.length;
+      this.strings.push(value);
+      this.indices.set(value, index);
+    }
+    return encodeVarIntBytes(index);
+  }
+
+  readString(value: Uint8Array): string {
+    const index = decodeVarIntBytes(value);
+    if (index >= this.strings.length) {
+      throw new ReceiptCodecError(`String index out of range: ${index}`);
+    }
+    return this.strings[index];
+  }
+}
+
+function readStringField(fields: Map<number, Uint8Array>, tag: number, ctx: CodecContext): string {
+  const value = fields.get(tag);
+  return value ? ctx.readString(value) : '';
+}
+
+function encodeJson(obj: unknown, ctx: CodecContext): Uint8Array {
+  return ctx.writeString(JSON.stringify(obj));
+}
+
+function decodeJson<T>(data: Uint8Array, ctx: CodecContext): T {
+  return JSON.parse(ctx.readString(data)) as T;
+}
+
+// ── Byte helpers ─────────────────────────────────────────────────────────────
+
+function concatBytes(parts: Array<Uint8Array | number[]>): Uint8Array {
+  const length = parts.reduce((sum, part) => sum + part.length, 0);
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/** CRC-32 (IEEE 802.3), as used by zip and PNG */
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(base64String: string): Uint8Array {
+  const binary = atob(base64String);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
 }
 
+const DATA_URL_PATTERN = /^data:([^;,]+);base64,(.*)$/s;
+
 // ── TLV field helpers ────────────────────────────────────────────────────────
 
 function writeField(bytes: number[], tag: number, value: Uint8Array): void {
@@ -152,38 +283,40 @@ function writeElementWithLength(bytes: number[], opcode: number, elementBytes: n
   for (let i = 0; i < elementBytes.length; i++) bytes.push(elementBytes[i]);
 }
 
-function encodeElement(bytes: number[], element: ReceiptElement): void {
+function encodeElement(bytes: number[], element: ReceiptElement, ctx: CodecContext): void {
   const eb: number[] = [];
 
   switch (element.type) {
     case 'text':
-      encodeTextElement(eb, element);
+      encodeTextElement(eb, element, ctx);
       writeElementWithLength(bytes, OP_TEXT, eb);
       break;
     case 'picture':
-      encodePictureElement(eb, element);
+      encodePictureElement(eb, element, ctx);
       writeElementWithLength(bytes, OP_PICTURE, eb);
       break;
     case 'barcode':
-      encodeBarcodeElement(eb, element);
+      encodeBarcodeElement(eb, element, ctx);
       writeElementWithLength(bytes, OP_BARCODE, eb);
       break;
     case 'pagebreak':
+      encodeBareElement(eb, element, ctx);
       writeElementWithLength(bytes, OP_PAGE_BREAK, eb);
       break;
     case 'horizontalline':
+      encodeBareElement(eb, element, ctx);
       writeElementWithLength(bytes, OP_HORIZONTAL_LINE, eb);
       break;
     case 'row':
-      encodeRowElement(eb, element);
+      encodeRowElement(eb, element, ctx);
       writeElementWithLength(bytes, OP_ROW, eb);
       break;
     case 'sectionref':
-      encodeSectionRefElement(eb, element);
+      encodeSectionRefElement(eb, element, ctx);
       writeElementWithLength(bytes, OP_SECTION_REF, eb);
       break;
     case 'iterator':
-      encodeIteratorElement(eb, element);
+      encodeIteratorElement(eb, element, ctx);
       writeElementWithLength(bytes, OP_ITERATOR, eb);
       break;
     default:
@@ -191,91 +324,111 @@ function encodeElement(bytes: number[], element: ReceiptElement): void {
   }
 }
 
-function encodeTextElement(bytes: number[], e: TextElement): void {
-  let fieldCount = 2;
-  if (e.style) fieldCount++;
-  if (e.flex != null) fieldCount++;
+// ── Fields every element may carry (conditions, flex) ───────────────────────
 
-  writeVarInt(bytes, fieldCount);
-  writeField(bytes, TAG_TEXT, encodeString(e.text));
-  writeField(bytes, TAG_ALIGN, encodeString(e.align ?? 'left'));
-  if (e.style) writeField(bytes, TAG_STYLE, encodeString(e.style));
+function sharedFieldCount(e: ReceiptElement): number {
+  return (e.conditions != null ? 1 : 0) + (e.flex != null ? 1 : 0);
+}
+
+function writeSharedFields(bytes: number[], e: ReceiptElement, ctx: CodecContext): void {
+  if (e.conditions != null) writeField(bytes, TAG_CONDITIONS, encodeJson(e.conditions, ctx));
   if (e.flex != null) writeField(bytes, TAG_FLEX, encodeVarIntBytes(e.flex));
 }
 
-function encodePictureElement(bytes: number[], e: PictureElement): void {
-  let fieldCount = 1;
-  if (e.flex != null) fieldCount++;
+function readSharedFields(fields: Map<number, Uint8Array>, ctx: CodecContext): Pick<ReceiptElement, 'conditions' | 'flex'> {
+  return {
+    conditions: fields.has(TAG_CONDITIONS) ? decodeJson<ReceiptCondition[]>(fields.get(TAG_CONDITIONS)!, ctx) : undefined,
+    flex: fields.has(TAG_FLEX) ? decodeVarIntBytes(fields.get(TAG_FLEX)!) : undefined,
+  };
+}
 
-  writeVarInt(bytes, fieldCount);
-  writeField(bytes, TAG_IMAGE_URL, encodeString(e.url));
-  if (e.flex != null) writeField(bytes, TAG_FLEX, encodeVarIntBytes(e.flex));
+// Page breaks and lines have no fields of their own; the body stays empty
+// unless they carry shared fields, so older readers still skip it cleanly
+function encodeBareElement(bytes: number[], e: PageBreakElement | HorizontalLineElement, ctx: CodecContext): void {
+  if (sharedFieldCount(e) === 0) return;
+  writeVarInt(bytes, sharedFieldCount(e));
+  writeSharedFields(bytes, e, ctx);
 }
 
-function encodeBarcodeElement(bytes: number[], e: BarcodeElement): void {
-  let fieldCount = 2;
-  if (e.flex != null) fieldCount++;
+function encodeTextElement(bytes: number[], e: TextElement, ctx: CodecContext): void {
+  let fieldCount = 2 + sharedFieldCount(e);
+  if (e.style) fieldCount++;
 
   writeVarInt(bytes, fieldCount);
-  writeField(bytes, TAG_CODE, encodeString(e.code));
-  writeField(bytes, TAG_BARCODE_TYPE, encodeString(e.barcode_type));
-  if (e.flex != null) writeField(bytes, TAG_FLEX, encodeVarIntBytes(e.flex));
+  writeField(bytes, TAG_TEXT, ctx.writeString(e.text));
+  writeField(bytes, TAG_ALIGN, ctx.writeString(e.align ?? 'left'));
+  if (e.style) writeField(bytes, TAG_STYLE, ctx.writeString(e.style));
+  writeSharedFields(bytes, e, ctx);
 }
 
-function encodeRowElement(bytes: number[], e: RowElement): void {
-  let fieldCount = 1;
-  if (e.flex != null) fieldCount++;
+function encodePictureElement(bytes: number[], e: PictureElement, ctx: CodecContext): void {
+  // v2 stores embedded images as raw bytes rather than base64 text
+  const dataUrl = ctx.version >= 2 ? DATA_URL_PATTERN.exec(e.url) : null;
+  const fieldCount = (dataUrl ? 2 : 1) + sharedFieldCount(e);
 
   writeVarInt(bytes, fieldCount);
-  writeField(bytes, TAG_CHILDREN, encodeElementList(e.children));
-  if (e.flex != null) writeField(bytes, TAG_FLEX, encodeVarIntBytes(e.flex));
+  if (dataUrl) {
+    writeField(bytes, TAG_IMAGE_DATA, base64ToBytes(dataUrl[2]));
+    writeField(bytes, TAG_IMAGE_MIME, ctx.writeString(dataUrl[1]));
+  } else {
+    writeField(bytes, TAG_IMAGE_URL, ctx.writeString(e.url));
+  }
+  writeSharedFields(bytes, e, ctx);
 }
 
-function encodeSectionRefElement(bytes: number[], e: SectionRefElement): void {
-  let fieldCount = 1;
-  if (e.flex != null) fieldCount++;
+function encodeBarcodeElement(bytes: number[], e: BarcodeElement, ctx: CodecContext): void {
+  writeVarInt(bytes, 2 + sharedFieldCount(e));
+  writeField(bytes, TAG_CODE, ctx.writeString(e.code));
+  writeField(bytes, TAG_BARCODE_TYPE, ctx.writeString(e.barcode_type));
+  writeSharedFields(bytes, e, ctx);
+}
 
-  writeVarInt(bytes, fieldCount);
-  writeField(bytes, TAG_REF, encodeString(e.ref));
-  if (e.flex != null) writeField(bytes, TAG_FLEX, encodeVarIntBytes(e.flex));
+function encodeRowElement(bytes: number[], e: RowElement, ctx: CodecContext): void {
+  writeVarInt(bytes, 1 + sharedFieldCount(e));
+  writeField(bytes, TAG_CHILDREN, encodeElementList(e.children, ctx));
+  writeSharedFields(bytes, e, ctx);
 }
 
-function encodeIteratorElement(bytes: number[], e: IteratorRefElement): void {
-  let fieldCount = 2;
-  if ((e as any).conditions != null) fieldCount++;
-  if (e.flex != null) fieldCount++;
+function encodeSectionRefElement(bytes: number[], e: SectionRefElement, ctx: CodecContext): void {
+  writeVarInt(bytes, 1 + sharedFieldCount(e));
+  writeField(bytes, TAG_REF, ctx.writeString(e.ref));
+  writeSharedFields(bytes, e, ctx);
+}
+
+function encodeIteratorElement(bytes: number[], e: IteratorRefElement, ctx: CodecContext): void {
+  let fieldCount = 2 + sharedFieldCount(e);
+  if (e.as) fieldCount++;
 
   writeVarInt(bytes, fieldCount);
-  writeField(bytes, TAG_PATH, encodeString(e.path));
-  writeField(bytes, TAG_ROWS, encodeElementList(e.rows));
-  if ((e as any).conditions != null) {
-    writeField(bytes, TAG_CONDITIONS, encodeJson((e as any).conditions));
-  }
-  if (e.flex != null) writeField(bytes, TAG_FLEX, encodeVarIntBytes(e.flex));
+  writeField(bytes, TAG_PATH, ctx.writeString(e.path));
+  writeField(bytes, TAG_ROWS, encodeElementList(e.rows, ctx));
+  if (e.as) writeField(bytes, TAG_ITEM_ALIAS, ctx.writeString(e.as));
+  writeSharedFields(bytes, e, ctx);
 }
 
-function encodeElementList(elements: ReceiptElement[]): Uint8Array {
+function encodeElementList(elements: ReceiptElement[], ctx: CodecContext): Uint8Array {
   const buf: number[] = [];
   writeVarInt(buf, elements.length);
-  for (const e of elements) encodeElement(buf, e);
+  for (const e of elements) encodeElement(buf, e, ctx);
   return new Uint8Array(buf);
 }
 
 // ── Element decoding ─────────────────────────────────────────────────────────
 
 function decodeElementsV1(data: Uint8Array, ref: OffsetRef): ReceiptElement[] {
+  const ctx = v1Context;
   const count = readVarInt(data, ref);
   const list: ReceiptElement[] = [];
 
   for (let i = 0; i < count; i++) {
-    const element = decodeElement(data, ref);
+    const element = decodeElement(data, ref, ctx);
     if (element) list.push(element);
   }
 
   return list;
 }
 
-function decodeElement(data: Uint8Array, ref: OffsetRef): ReceiptElement | null {
+function decodeElement(data: Uint8Array, ref: OffsetRef, ctx: CodecContext): ReceiptElement | null {
   const opcode = readVarInt(data, ref);
   const length = readVarInt(data, ref);
   const endOffset = ref.value + length;
@@ -288,28 +441,28 @@ function decodeElement(data: Uint8Array, ref: OffsetRef): ReceiptElement | null
   try {
     switch (opcode) {
       case OP_TEXT:
-        result = decodeTextElement(elementData, elementRef);
+        result = decodeTextElement(elementData, elementRef, ctx);
         break;
       case OP_PICTURE:
-        result = decodePictureElement(elementData, elementRef);
+        result = decodePictureElement(elementData, elementRef, ctx);
         break;
       case OP_BARCODE:
-        result = decodeBarcodeElement(elementData, elementRef);
+        result = decodeBarcodeElement(elementData, elementRef, ctx);
         break;
       case OP_PAGE_BREAK:
-        result = { type: 'pagebreak' } as PageBreakElement;
+        result = { type: 'pagebreak', ...decodeBareFields(elementData, elementRef, ctx) } as PageBreakElement;
         break;
       case OP_HORIZONTAL_LINE:
-        result = { type: 'horizontalline' } as HorizontalLineElement;
+        result = { type: 'horizontalline', ...decodeBareFields(elementData, elementRef, ctx) } as HorizontalLineElement;
         break;
       case OP_ROW:
-        result = decodeRowElement(elementData, elementRef);
+        result = decodeRowElement(elementData, elementRef, ctx);
         break;
       case OP_SECTION_REF:
-        result = decodeSectionRefElement(elementData, elementRef);
+        result = decodeSectionRefElement(elementData, elementRef, ctx);
         break;
       case OP_ITERATOR:
-        result = decodeIteratorElement(elementData, elementRef);
+        result = decodeIteratorElement(elementData, elementRef, ctx);
         break;
       default:
         // Unknown element – skip gracefully
@@ -325,86 +478,125 @@ function decodeElement(data: Uint8Array, ref: OffsetRef): ReceiptElement | null
   return result;
 }
 
-function decodeTextElement(data: Uint8Array, ref: OffsetRef): TextElement {
+function decodeBareFields(data: Uint8Array, ref: OffsetRef, ctx: CodecContext): Pick<ReceiptElement, 'conditions' | 'flex'> {
+  if (data.length === 0) return {};
+  const { conditions, flex } = readSharedFields(readFields(data, ref), ctx);
+  return { ...(conditions ? { conditions } : {}), ...(flex != null ? { flex } : {}) };
+}
+
+function decodeTextElement(data: Uint8Array, ref: OffsetRef, ctx: CodecContext): TextElement {
   const fields = readFields(data, ref);
 
-  const text = decodeString(fields.get(TAG_TEXT) ?? new Uint8Array(0));
-  const align = decodeString(fields.get(TAG_ALIGN) ?? new Uint8Array(0));
-  const style = fields.has(TAG_STYLE) ? decodeString(fields.get(TAG_STYLE)!) : undefined;
-  const flex = fields.has(TAG_FLEX) ? decodeVarIntBytes(fields.get(TAG_FLEX)!) : undefined;
+  const text = readStringField(fields, TAG_TEXT, ctx);
+  const align = readStringField(fields, TAG_ALIGN, ctx);
+  const style = fields.has(TAG_STYLE) ? ctx.readString(fields.get(TAG_STYLE)!) : undefined;
 
   return {
     type: 'text',
     text,
     align: (align || 'left') as TextElement['align'],
     style,
-    flex,
+    ...readSharedFields(fields, ctx),
   };
 }
 
-function decodePictureElement(data: Uint8Array, ref: OffsetRef): PictureElement {
+function decodePictureElement(data: Uint8Array, ref: OffsetRef, ctx: CodecContext): PictureElement {
   const fields = readFields(data, ref);
 
-  const url = decodeString(fields.get(TAG_IMAGE_URL) ?? new Uint8Array(0));
-  const flex = fields.has(TAG_FLEX) ? decodeVarIntBytes(fields.get(TAG_FLEX)!) : undefined;
+  const url = fields.has(TAG_IMAGE_DATA)
+    ? `data:${readStringField(fields, TAG_IMAGE_MIME, ctx) || 'application/octet-stream'};base64,${bytesToBase64(fields.get(TAG_IMAGE_DATA)!)}`
+    : readStringField(fields, TAG_IMAGE_URL, ctx);
 
-  return { type: 'picture', url, flex };
+  return { type: 'picture', url, ...readSharedFields(fields, ctx) };
 }
 
-function decodeBarcodeElement(data: Uint8Array, ref: OffsetRef): BarcodeElement {
+function decodeBarcodeElement(data: Uint8Array, ref: OffsetRef, ctx: CodecContext): BarcodeElement {
   const fields = readFields(data, ref);
 
-  const code = decodeString(fields.get(TAG_CODE) ?? new Uint8Array(0));
-  const barcodeType = decodeString(fields.get(TAG_BARCODE_TYPE) ?? new Uint8Array(0));
-  const flex = fields.has(TAG_FLEX) ? decodeVarIntBytes(fields.get(TAG_FLEX)!) : undefined;
+  const code = readStringField(fields, TAG_CODE, ctx);
+  const barcodeType = readStringField(fields, TAG_BARCODE_TYPE, ctx);
 
   return {
     type: 'barcode',
     code,
     barcode_type: barcodeType as BarcodeElement['barcode_type'],
-    flex,
+    ...readSharedFields(fields, ctx),
   };
 }
 
-function decodeRowElement(data: Uint8Array, ref: OffsetRef): RowElement {
+function decodeRowElement(data: Uint8Array, ref: OffsetRef, ctx: CodecContext): RowElement {
   const fields = readFields(data, ref);
 
   const children = fields.has(TAG_CHILDREN)
-    ? decodeElementList(fields.get(TAG_CHILDREN)!)
+    ? decodeElementList(fields.get(TAG_CHILDREN)!, ctx)
     : [];
-  const flex = fields.has(TAG_FLEX) ? decodeVarIntBytes(fields.get(TAG_FLEX)!) : undefined;
 
-  return { type: 'row', children, flex };
+  return { type: 'row', children, ...readSharedFields(fields, ctx) };
 }
 
-function decodeSectionRefElement(data: Uint8Array, ref: OffsetRef): SectionRefElement {
+function decodeSectionRefElement(data: Uint8Array, ref: OffsetRef, ctx: CodecContext): SectionRefElement {
   const fields = readFields(data, ref);
 
-  const refName = decodeString(fields.get(TAG_REF) ?? new Uint8Array(0));
-  const flex = fields.has(TAG_FLEX) ? decodeVarIntBytes(fields.get(TAG_FLEX)!) : undefined;
+  const refName = readStringField(fields, TAG_REF, ctx);
 
-  return { type: 'sectionref', ref: refName, flex };
+  return { type: 'sectionref', ref: refName, ...readSharedFields(fields, ctx) };
 }
 
-function decodeIteratorElement(data: Uint8Array, ref: OffsetRef): IteratorRefElement {
+function decodeIteratorElement(data: Uint8Array, ref: OffsetRef, ctx: CodecContext): IteratorRefElement {
   const fields = readFields(data, ref);
 
-  const path = decodeString(fields.get(TAG_PATH) ?? new Uint8Array(0));
+  const path = readStringField(fields, TAG_PATH, ctx);
   const rows = fields.has(TAG_ROWS)
-    ? decodeElementList(fields.get(TAG_ROWS)!)
+    ? decodeElementList(fields.get(TAG_ROWS)!, ctx)
     : [];
-  const flex = fields.has(TAG_FLEX) ? decodeVarIntBytes(fields.get(TAG_FLEX)!) : undefined;
+  const as = fields.has(TAG_ITEM_ALIAS) ? ctx.readString(fields.get(TAG_ITEM_ALIAS)!) : undefined;
+
+  return { type: 'iterator', path, rows, as, ...readSharedFields(fields, ctx) };
+}
+
+function decodeElementsV2(data: Uint8Array, ref: OffsetRef): ReceiptElement[] {
+  const flags = data[ref.value++];
+  if (flags & ~KNOWN_FLAGS) {
+    throw new ReceiptCodecError(`Unsupported flags: 0x${flags.toString(16)}`);
+  }
+
+  const bodyEnd = data.length - CRC_LENGTH;
+  const expected = ((data[bodyEnd] << 24) | (data[bodyEnd + 1] << 16) | (data[bodyEnd + 2] << 8) | data[bodyEnd + 3]) >>> 0;
+  if (crc32(data.subarray(0, bodyEnd)) !== expected) {
+    throw new ReceiptCodecError('Checksum mismatch');
+  }
+
+  let payload = data.subarray(ref.value, bodyEnd);
+  if (flags & FLAG_DEFLATE) {
+    try {
+      payload = inflateRaw(payload);
+    } catch (error) {
+      throw new ReceiptCodecError(`Failed to inflate body: ${error instanceof Error ? error.message : error}`);
+    }
+  }
 
-  return { type: 'iterator', path, rows, flex };
+  const payloadRef = createOffsetRef(0);
+  const stringCount = readVarInt(payload, payloadRef);
+  const strings: string[] = [];
+  for (let i = 0; i < stringCount; i++) {
+    const length = readVarInt(payload, payloadRef);
+    if (payloadRef.value + length > payload.length) {
+      throw new ReceiptCodecError('Unexpected end of data reading string table');
+    }
+    strings.push(decodeString(payload.subarray(payloadRef.value, payloadRef.value + length)));
+    payloadRef.value += length;
+  }
+
+  return decodeElementList(payload.subarray(payloadRef.value), new StringTable(strings));
 }
 
-function decodeElementList(data: Uint8Array): ReceiptElement[] {
+function decodeElementList(data: Uint8Array, ctx: CodecContext): ReceiptElement[] {
   const ref = createOffsetRef(0);
   const count = readVarInt(data, ref);
   const list: ReceiptElement[] = [];
 
   for (let i = 0; i < count; i++) {
-    const element = decodeElement(data, ref);
+    const element = decodeElement(data, ref, ctx);
     if (element) list.push(element);
   }
 
@@ -420,25 +612,106 @@ export class ReceiptCodecError extends Error {
   }
 }
 
-export const receiptBinaryCodec = {
-  /**
-   * Encode a list of receipt elements to binary format.
-   */
-  encodeElements(elements: ReceiptElement[]): Uint8Array {
-    const bytes: number[] = [];
+export interface ReceiptEncodeOptions {
+  /** Format version to write; defaults to 2 */
+  version?: 1 | 2;
+  /** Deflate the v2 body when that makes it smaller; defaults to true */
+  compress?: boolean;
+}
+
+/** Fetches an image and returns its bytes and mime type */
+export type ImageFetcher = (url: string) => Promise<{ data: Uint8Array; mimeType: string }>;
+
+const fetchImage: ImageFetcher = async (url) => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new ReceiptCodecError(`Failed to fetch image ${url}: ${response.status}`);
+  }
+  return {
+    data: new Uint8Array(await response.arrayBuffer()),
+    mimeType: response.headers.get('content-type')?.split(';')[0] || 'application/octet-stream',
+  };
+};
+
+function encodeElementsV1(elements: ReceiptElement[]): Uint8Array {
+  const bytes: number[] = [];
+
+  // Header
+  bytes.push(MAGIC1, MAGIC2, 0x01); // version 1
+
+  // Element count
+  writeVarInt(bytes, elements.length);
+
+  // Elements
+  for (const e of elements) {
+    encodeElement(bytes, e, v1Context);
+  }
+
+  return new Uint8Array(bytes);
+}
+
+function encodeElementsV2(elements: ReceiptElement[], compress: boolean): Uint8Array {
+  const table = new StringTable();
+  // Elements first so the table is complete before it is written
+  const elementBytes = encodeElementList(elements, table);
+
+  const tableBytes: number[] = [];
+  writeVarInt(tableBytes, table.strings.length);
+  for (const value of table.strings) {
+    const encoded = encodeString(value);
+    writeVarInt(tableBytes, encoded.length);
+    for (let i = 0; i < encoded.length; i++) tableBytes.push(encoded[i]);
+  }
+
+  let body = concatBytes([tableBytes, elementBytes]);
+  let flags = 0;
+  if (compress) {
+    const deflated = deflateRaw(body);
+    if (deflated.length < body.length) {
+      body = deflated;
+      flags |= FLAG_DEFLATE;
+    }
+  }
 
-    // Header
-    bytes.push(MAGIC1, MAGIC2, 0x01); // version 1
+  const result = new Uint8Array(V2_HEADER_LENGTH + body.length + CRC_LENGTH);
+  result.set([MAGIC1, MAGIC2, 0x02, flags]);
+  result.set(body, V2_HEADER_LENGTH);
 
-    // Element count
-    writeVarInt(bytes, elements.length);
+  const crc = crc32(result.subarray(0, V2_HEADER_LENGTH + body.length));
+  const offset = V2_HEADER_LENGTH + body.length;
+  result[offset] = crc >>> 24;
+  result[offset + 1] = (crc >>> 16) & 0xff;
+  result[offset + 2] = (crc >>> 8) & 0xff;
+  result[offset + 3] = crc & 0xff;
+  return result;
+}
 
-    // Elements
-    for (const e of elements) {
-      encodeElement(bytes, e);
+async function embedImageUrls(elements: ReceiptElement[], fetcher: ImageFetcher): Promise<ReceiptElement[]> {
+  return Promise.all(elements.map(async (element): Promise<ReceiptElement> => {
+    switch (element.type) {
+      case 'picture': {
+        if (!/^https?:\/\//i.test(element.url)) return element;
+        const { data, mimeType } = await fetcher(element.url);
+        return { ...element, url: `data:${mimeType};base64,${bytesToBase64(data)}` };
+      }
+      case 'row':
+        return { ...element, children: await embedImageUrls(element.children, fetcher) };
+      case 'iterator':
+        return { ...element, rows: await embedImageUrls(element.rows, fetcher) };
+      default:
+        return element;
     }
+  }));
+}
 
-    return new Uint8Array(bytes);
+export const receiptBinaryCodec = {
+  /**
+   * Encode a list of receipt elements to binary format.
+   * Writes version 2 unless options.version is 1.
+   */
+  encodeElements(elements: ReceiptElement[], options: ReceiptEncodeOptions = {}): Uint8Array {
+    const { version = 2, compress = true } = options;
+    return version === 1 ? encodeElementsV1(elements) : encodeElementsV2(elements, compress);
   },
 
   /**
@@ -464,6 +737,11 @@ export const receiptBinaryCodec = {
     switch (version) {
       case 0x01:
         return decodeElementsV1(data, ref);
+      case 0x02:
+        if (data.length < V2_HEADER_LENGTH + CRC_LENGTH) {
+          throw new ReceiptCodecError('Data too short for header');
+        }
+        return decodeElementsV2(data, ref);
       default:
         throw new ReceiptCodecError(`Unsupported version: ${version}`);
     }
@@ -472,25 +750,23 @@ export const receiptBinaryCodec = {
   /**
    * Encode elements to a base64 string.
    */
-  toBase64(elements: ReceiptElement[]): string {
-    const bytes = this.encodeElements(elements);
-    let binary = '';
-    for (let i = 0; i < bytes.length; i++) {
-      binary += String.fromCharCode(bytes[i]);
-    }
-    return btoa(binary);
+  toBase64(elements: ReceiptElement[], options?: ReceiptEncodeOptions): string {
+    return bytesToBase64(this.encodeElements(elements, options));
   },
 
   /**
    * Decode a base64 string to receipt elements.
    */
   fromBase64(base64String: string): ReceiptElement[] {
-    const binary = atob(base64String);
-    const bytes = new Uint8Array(binary.length);
-    for (let i = 0; i < binary.length; i++) {
-      bytes[i] = binary.charCodeAt(i);
-    }
-    return this.decodeElements(bytes);
+    return this.decodeElements(base64ToBytes(base64String));
+  },
+
+  /**
+   * Replace http(s) picture urls with base64 data URLs so the images travel
+   * inside the encoded document (stored as raw bytes in version 2).
+   */
+  embedImages(elements: ReceiptElement[], fetcher: ImageFetcher = fetchImage): Promise<ReceiptElement[]> {
+    return embedImageUrls(elements, fetcher);
   },
 
   /**
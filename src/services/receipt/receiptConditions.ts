@@ -0,0 +1,348 @@
+import type { ReceiptCondition, ReceiptConditionRule } from '../../types/receipt';
+
+// =============================================================================
+// Receipt template conditions
+//
+// Sections, rows and iterators may carry a `conditions` list. Every entry must
+// pass for the element to print. An entry is either
+//
+//   • an expression string, e.g.  "payments.length > 1"
+//                                 "customer_id != null"
+//                                 "line.is_void == false && !(line.qty < 0)"
+//   • a rule object, e.g.         { "type": "condition", "field": "customer_id", "operator": "exists" }
+//
+// Expression grammar:
+//   or         := and ( '||' and )*
+//   and        := unary ( '&&' unary )*
+//   unary      := '!' unary | comparison
+//   comparison := operand ( ( '==' | '!=' | '>' | '>=' | '<' | '<=' ) operand )?
+//   operand    := number | string | true | false | null | path | '(' or ')'
+//   path       := identifier ( '.' identifier | '[' number ']' )*
+//
+// Paths resolve against the receipt data the same way template placeholders
+// do; missing values resolve to null instead of failing.
+// =============================================================================
+
+export class ReceiptConditionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReceiptConditionError';
+  }
+}
+
+// ── Tokenizer ────────────────────────────────────────────────────────────────
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'ident'; value: string }
+  | { kind: 'op'; value: string };
+
+const OPERATORS = ['==', '!=', '>=', '<=', '&&', '||', '>', '<', '!', '(', ')', '.', '[', ']'];
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === '-' && /[0-9]/.test(expression[i + 1] ?? '') && !isOperandEnd(tokens))) {
+      const match = /^-?\d+(\.\d+)?/.exec(expression.slice(i))!;
+      tokens.push({ kind: 'number', value: parseFloat(match[0]) });
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      i++;
+      while (i < expression.length && expression[i] !== char) {
+        if (expression[i] === '\\' && i + 1 < expression.length) i++;
+        value += expression[i++];
+      }
+      if (i >= expression.length) {
+        throw new ReceiptConditionError(`Unterminated string in condition: ${expression}`);
+      }
+      i++;
+      tokens.push({ kind: 'string', value });
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][\w$]*/.exec(expression.slice(i))!;
+      tokens.push({ kind: 'ident', value: match[0] });
+      i += match[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => expression.startsWith(op, i));
+    if (!operator) {
+      throw new ReceiptConditionError(`Unexpected character '${char}' in condition: ${expression}`);
+    }
+    tokens.push({ kind: 'op', value: operator });
+    i += operator.length;
+  }
+
+  return tokens;
+}
+
+// A '-' directly after an operand is subtraction-like and not part of a number
+function isOperandEnd(tokens: Token[]): boolean {
+  const last = tokens[tokens.length - 1];
+  if (!last) return false;
+  return last.kind !== 'op' || last.value === ')' || last.value === ']';
+}
+
+// ── Parser / evaluator ───────────────────────────────────────────────────────
+
+class ConditionParser {
+  private position = 0;
+  private readonly expression: string;
+  private readonly tokens: Token[];
+  private readonly data: unknown;
+
+  constructor(expression: string, tokens: Token[], data: unknown) {
+    this.expression = expression;
+    this.tokens = tokens;
+    this.data = data;
+  }
+
+  evaluate(): boolean {
+    const result = this.parseOr();
+    if (this.position < this.tokens.length) {
+      throw new ReceiptConditionError(`Unexpected token '${this.tokens[this.position].value}' in condition: ${this.expression}`);
+    }
+    return isTruthy(result);
+  }
+
+  private peek(value: string): boolean {
+    const token = this.tokens[this.position];
+    return token?.kind === 'op' && token.value === value;
+  }
+
+  private expect(value: string): void {
+    if (!this.peek(value)) {
+      throw new ReceiptConditionError(`Expected '${value}' in condition: ${this.expression}`);
+    }
+    this.position++;
+  }
+
+  private parseOr(): unknown {
+    let left = this.parseAnd();
+    while (this.peek('||')) {
+      this.position++;
+      const right = this.parseAnd();
+      left = isTruthy(left) || isTruthy(right);
+    }
+    return left;
+  }
+
+  private parseAnd(): unknown {
+    let left = this.parseUnary();
+    while (this.peek('&&')) {
+      this.position++;
+      const right = this.parseUnary();
+      left = isTruthy(left) && isTruthy(right);
+    }
+    return left;
+  }
+
+  private parseUnary(): unknown {
+    if (this.peek('!')) {
+      this.position++;
+      return !isTruthy(this.parseUnary());
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): unknown {
+    const left = this.parseOperand();
+    const token = this.tokens[this.position];
+    if (token?.kind === 'op' && ['==', '!=', '>', '>=', '<', '<='].includes(token.value)) {
+      this.position++;
+      return compareValues(left, token.value, this.parseOperand());
+    }
+    return left;
+  }
+
+  private parseOperand(): unknown {
+    const token = this.tokens[this.position];
+    if (!token) {
+      throw new ReceiptConditionError(`Unexpected end of condition: ${this.expression}`);
+    }
+
+    if (token.kind === 'number' || token.kind === 'string') {
+      this.position++;
+      return token.value;
+    }
+
+    if (token.kind === 'op' && token.value === '(') {
+      this.position++;
+      const value = this.parseOr();
+      this.expect(')');
+      return value;
+    }
+
+    if (token.kind === 'ident') {
+      this.position++;
+      if (token.value === 'true') return true;
+      if (token.value === 'false') return false;
+      if (token.value === 'null' || token.value === 'undefined') return null;
+      return this.parsePath(token.value);
+    }
+
+    throw new ReceiptConditionError(`Unexpected token '${token.value}' in condition: ${this.expression}`);
+  }
+
+  private parsePath(first: string): unknown {
+    const segments: string[] = [first];
+
+    while (this.peek('.') || this.peek('[')) {
+      if (this.peek('.')) {
+        this.position++;
+        const token = this.tokens[this.position++];
+        if (token?.kind !== 'ident') {
+          throw new ReceiptConditionError(`Expected a property name in condition: ${this.expression}`);
+        }
+        segments.push(token.value);
+      } else {
+        this.position++;
+        const token = this.tokens[this.position++];
+        if (token?.kind !== 'number' && token?.kind !== 'string') {
+          throw new ReceiptConditionError(`Expected an index in condition: ${this.expression}`);
+        }
+        segments.push(String(token.value));
+        this.expect(']');
+      }
+    }
+
+    return resolveValue(this.data, segments);
+  }
+}
+
+// ── Value helpers ────────────────────────────────────────────────────────────
+
+/**
+ * Resolve a dotted path against receipt data. `length` works on arrays and
+ * strings; anything missing resolves to null.
+ */
+export function resolveValue(data: unknown, segments: string[]): unknown {
+  let current: unknown = data;
+  for (const segment of segments) {
+    if (current == null) return null;
+    if (typeof current === 'string' && segment === 'length') {
+      current = current.length;
+    } else if (typeof current === 'object') {
+      current = (current as Record<string, unknown>)[segment];
+    } else {
+      return null;
+    }
+  }
+  return current ?? null;
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (value === 'false') return false;
+  return Boolean(value);
+}
+
+function toComparable(value: unknown): unknown {
+  // Receipt data carries amounts and quantities as numeric strings ("5.00")
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+    return Number(value);
+  }
+  return value ?? null;
+}
+
+function compareValues(left: unknown, operator: string, right: unknown): boolean {
+  const a = toComparable(left);
+  const b = toComparable(right);
+
+  switch (operator) {
+    case '==':
+      return a === b || (typeof a === 'boolean' && String(a) === b) || (typeof b === 'boolean' && String(b) === a);
+    case '!=':
+      return !compareValues(left, '==', right);
+    default: {
+      if (a === null || b === null) return false;
+      const [x, y] = typeof a === 'number' && typeof b === 'number' ? [a, b] : [String(a), String(b)];
+      switch (operator) {
+        case '>': return x > y;
+        case '>=': return x >= y;
+        case '<': return x < y;
+        case '<=': return x <= y;
+        default: return false;
+      }
+    }
+  }
+}
+
+function isEmpty(value: unknown): boolean {
+  if (value == null || value === '') return true;
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'object') return Object.keys(value as object).length === 0;
+  return false;
+}
+
+// ── Public API ───────────────────────────────────────────────────────────────
+
+const expressionCache = new Map<string, Token[]>();
+
+/**
+ * Evaluate a single expression string against receipt data
+ */
+export function evaluateExpression(expression: string, data: unknown): boolean {
+  let tokens = expressionCache.get(expression);
+  if (!tokens) {
+    tokens = tokenize(expression);
+    expressionCache.set(expression, tokens);
+  }
+  if (tokens.length === 0) return true;
+  return new ConditionParser(expression, tokens, data).evaluate();
+}
+
+function evaluateRule(rule: ReceiptConditionRule, data: unknown): boolean {
+  const value = resolveValue(data, rule.field.split('.'));
+
+  switch (rule.operator) {
+    case 'exists':
+      return value != null;
+    case 'not_exists':
+      return value == null;
+    case 'empty':
+      return isEmpty(value);
+    case 'not_empty':
+      return !isEmpty(value);
+    case 'equals':
+      return compareValues(value, '==', rule.value);
+    case 'not_equals':
+      return compareValues(value, '!=', rule.value);
+    case 'gt':
+      return compareValues(value, '>', rule.value);
+    case 'gte':
+      return compareValues(value, '>=', rule.value);
+    case 'lt':
+      return compareValues(value, '<', rule.value);
+    case 'lte':
+      return compareValues(value, '<=', rule.value);
+    default:
+      throw new ReceiptConditionError(`Unknown condition operator: ${(rule as ReceiptConditionRule).operator}`);
+  }
+}
+
+/**
+ * Check whether every condition passes. An empty or missing list always passes.
+ */
+export function evaluateConditions(conditions: ReceiptCondition[] | undefined, data: unknown): boolean {
+  if (!conditions || conditions.length === 0) return true;
+  return conditions.every(condition =>
+    typeof condition === 'string' ? evaluateExpression(condition, data) : evaluateRule(condition, data)
+  );
+}
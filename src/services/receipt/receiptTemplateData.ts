@@ -0,0 +1,126 @@
+import type { Store } from '../../tenants/tenantStore';
+import { fromScaledInt, type TransactionDetail } from '../transaction/transactionService';
+
+// =============================================================================
+// Receipt template data
+//
+// Receipt templates (public/receipt-config.json) are written against the POS
+// receipt payload: camelCase collections (lineItems, priceModifiers,
+// paymentLineItems), long field names (item_description, begin_datetime) and
+// decimal strings such as "55.00". Transaction details from the API use short
+// names and ScaledInt amounts, so reprints map them here first; the designer's
+// sample data (public/receipt-data.json) already has the POS shape.
+// =============================================================================
+
+/** Amount as the POS prints it: two-decimal string */
+const toAmount = (scaled: number | null | undefined): string => fromScaledInt(scaled).toFixed(2);
+
+/** Quantity without trailing zeros, e.g. "1" or "0.25" */
+const toQuantity = (scaled: number | null | undefined): string => String(fromScaledInt(scaled));
+
+const toPriceModifiers = (line: TransactionDetail['line_items'][number]) =>
+  line.modifiers
+    .filter(modifier => !modifier.is_void)
+    .map(modifier => ({
+      price_modifier_seq: modifier.seq,
+      reason_code: modifier.reason,
+      description: modifier.desc || modifier.disc_reason || modifier.disc_code || null,
+      discount_code: modifier.disc_code ?? null,
+      serial_number: modifier.serial_num ?? null,
+      percent: modifier.percent != null ? String(fromScaledInt(modifier.percent)) : null,
+      amount: toAmount(Math.abs(modifier.change_amt)),
+      extended_amount: toAmount(modifier.ext_amt),
+      notes: modifier.notes ?? null
+    }));
+
+/**
+ * Build the data a receipt template renders from a stored transaction.
+ * `reprint` prints the duplicate banner.
+ */
+export const toReceiptTemplateData = (transaction: TransactionDetail, store: Store | null, reprint: boolean) => {
+  const payments = transaction.payments.filter(payment => !payment.is_void);
+  const tendered = payments
+    .filter(payment => !payment.is_change)
+    .reduce((total, payment) => total + fromScaledInt(payment.amt), 0);
+  const transactionDiscount = transaction.discounts[0];
+
+  return {
+    store,
+    currency: transaction.currency,
+    reprint,
+    transaction: {
+      tenant_id: transaction.tenant_id,
+      store_id: transaction.store_id,
+      terminal_id: transaction.terminal_id,
+      trans_id: transaction.trans_seq,
+      store_locale: transaction.locale,
+      store_currency: transaction.currency,
+      transaction_type: transaction.trans_type,
+      business_date: transaction.biz_date,
+      begin_datetime: transaction.begin_time,
+      end_datetime: transaction.end_time ?? null,
+      total: toAmount(transaction.total),
+      tax_total: toAmount(transaction.tax_total),
+      sub_total: toAmount(transaction.sub_total),
+      round_total: toAmount(transaction.round_total),
+      status: transaction.status.toLowerCase(),
+      is_void: transaction.is_void,
+      customer_id: transaction.customer_id ?? null,
+      associates: transaction.associates,
+      cashier_name: transaction.associates[0],
+      table_id: transaction.trans_table?.table_name || transaction.trans_table?.table_id,
+      notes: transaction.notes ?? null,
+      return_ref: transaction.return_ref ?? null,
+      external_order_id: transaction.ext_order_id ?? null,
+      external_order_source: transaction.ext_order_src ?? null,
+      lineItems: transaction.line_items.map(line => ({
+        line_item_id: line.seq,
+        category: line.category ?? null,
+        item_id: line.item_id,
+        item_description: line.entered_desc || line.item_desc,
+        is_void: line.is_void,
+        quantity: toQuantity(line.qty),
+        gross_quantity: toQuantity(line.gross_qty),
+        net_quantity: toQuantity(line.net_qty),
+        unit_price: toAmount(line.unit_price),
+        extended_amount: toAmount(line.ext_amt),
+        vat_amount: line.vat_amt != null ? toAmount(line.vat_amt) : null,
+        net_amount: toAmount(line.net_amt),
+        gross_amount: toAmount(line.gross_amt),
+        serial_number: line.serial_num ?? null,
+        return_flag: line.is_return,
+        notes: line.notes ?? null,
+        taxModifiers: line.taxes,
+        priceModifiers: toPriceModifiers(line)
+      })),
+      discountLineItems: transaction.discounts.map(discount => ({
+        discount_seq: discount.seq,
+        discount_code: discount.disc_code,
+        percent: discount.percent != null ? String(fromScaledInt(discount.percent)) : null,
+        amount: toAmount(Math.abs(discount.amt)),
+        serial_number: discount.serial_num ?? null
+      })),
+      paymentLineItems: payments.map(payment => ({
+        payment_seq: payment.seq,
+        amount: toAmount(payment.amt),
+        change_flag: payment.is_change,
+        tender_id: payment.tender_id,
+        tender_description: payment.tender_desc,
+        is_void: payment.is_void,
+        serial_number: payment.serial_num ?? null
+      })),
+      documents: transaction.documents,
+      totals: {
+        subTotal: toAmount(transaction.sub_total),
+        total: toAmount(transaction.total),
+        discountTotal: toAmount(Math.abs(transaction.disc_total)),
+        taxTotal: toAmount(transaction.tax_total),
+        tenderedAmount: tendered.toFixed(2),
+        amountDue: Math.max(0, fromScaledInt(transaction.total) - tendered).toFixed(2),
+        transactionDiscountAmount: transactionDiscount ? toAmount(Math.abs(transactionDiscount.amt)) : null,
+        transactionDiscountReasonCode: transactionDiscount?.disc_code ?? null,
+        transactionDiscountDescription: null
+      }
+    }
+  };
+};
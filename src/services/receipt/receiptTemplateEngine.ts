@@ -0,0 +1,340 @@
+import type { ReceiptElement, ReceiptSection } from '../../types/receipt';
+import { formattingService } from '../formatting';
+import { fromScaledInt } from '../transaction/transactionService';
+import { evaluateConditions, resolveValue } from './receiptConditions';
+
+// =============================================================================
+// Receipt template engine
+//
+// Turns a receipt configuration (named sections of template rows) plus receipt
+// data into the flat element list the viewer and printers render. The receipt
+// designer, ReceiptViewer and sales reprints all go through this module so the
+// same template and data always produce the same receipt.
+//
+// Placeholders:  {{ path | filter:arg | filter:arg,arg }}
+//
+//   default:text          value when missing or empty ('' for blank)
+//   padLeft:width[,char]  padRight:width[,char]
+//   fit:width[,left|right|center]
+//   truncate:width[,ellipsis]
+//   upper                 lower
+//   number[:decimals]     grouped, locale formatted
+//   decimal[:decimals]    fixed decimals, no grouping
+//   currency[:CODE]       via formattingService; defaults to the receipt currency
+//   scaled[:decimals]     ScaledInt → number
+//   date:pattern          yyyy yy MM M dd d HH H hh h mm ss a, 'quoted' literals
+//   format:datetime       locale date and time
+//
+// A placeholder whose path does not resolve and has no default prints the path
+// itself, which lets templates use {{Qty}} style column captions.
+// =============================================================================
+
+/** Named sections of a receipt configuration, e.g. "StoreCopy" */
+export type ReceiptTemplates = Record<string, ReceiptSection>;
+
+type TemplateRows = Pick<ReceiptSection, 'conditions' | 'rows'>;
+
+const PLACEHOLDER_REGEX = /\{\{\s*([\w.$]+)((?:\s*\|\s*\w+(?::[^|}]+)?)*)\s*\}\}/g;
+
+// ── Filters ──────────────────────────────────────────────────────────────────
+
+const toNumber = (value: unknown): number | null => {
+  if (value == null || value === '') return null;
+  const numeric = typeof value === 'number' ? value : Number(value);
+  return isNaN(numeric) ? null : numeric;
+};
+
+const toDate = (value: unknown): Date | null => {
+  if (value == null || value === '') return null;
+  const date = value instanceof Date ? value : new Date(value as string | number);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const parseInteger = (value: string | undefined, fallback: number): number => {
+  const parsed = parseInt(value ?? '', 10);
+  return isNaN(parsed) ? fallback : parsed;
+};
+
+// Arguments may be quoted to keep spaces or commas, e.g. default:'' or default:"N/A"
+const unquote = (value: string): string => {
+  const trimmed = value.trim();
+  if (trimmed.length >= 2 && (trimmed[0] === "'" || trimmed[0] === '"') && trimmed[trimmed.length - 1] === trimmed[0]) {
+    return trimmed.slice(1, -1);
+  }
+  return trimmed;
+};
+
+const DATE_TOKEN_REGEX = /'[^']*'|yyyy|yy|MM|M|dd|d|HH|H|hh|h|mm|ss|a/g;
+
+/**
+ * Format a date with a simple pattern such as "dd.MM.yyyy HH:mm"
+ */
+export function formatDatePattern(date: Date, pattern: string): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const hours12 = date.getHours() % 12 || 12;
+
+  return pattern.replace(DATE_TOKEN_REGEX, token => {
+    switch (token) {
+      case 'yyyy': return String(date.getFullYear());
+      case 'yy': return pad(date.getFullYear() % 100);
+      case 'MM': return pad(date.getMonth() + 1);
+      case 'M': return String(date.getMonth() + 1);
+      case 'dd': return pad(date.getDate());
+      case 'd': return String(date.getDate());
+      case 'HH': return pad(date.getHours());
+      case 'H': return String(date.getHours());
+      case 'hh': return pad(hours12);
+      case 'h': return String(hours12);
+      case 'mm': return pad(date.getMinutes());
+      case 'ss': return pad(date.getSeconds());
+      case 'a': return date.getHours() < 12 ? 'AM' : 'PM';
+      default: return token.slice(1, -1);
+    }
+  });
+}
+
+const fitText = (text: string, width: number, align: string): string => {
+  if (text.length > width) return text.substring(0, width);
+  const pad = width - text.length;
+  switch (align) {
+    case 'right':
+      return text.padStart(width);
+    case 'center': {
+      const left = Math.floor(pad / 2);
+      return ' '.repeat(left) + text + ' '.repeat(pad - left);
+    }
+    default:
+      return text.padEnd(width);
+  }
+};
+
+// Receipt data carries the currency on the transaction or the store
+const resolveCurrency = (data: unknown): string | undefined => {
+  for (const path of ['currency', 'transaction.currency', 'transaction.store_currency', 'store.currency']) {
+    const currency = resolveValue(data, path.split('.'));
+    if (typeof currency === 'string' && currency) return currency;
+  }
+  return undefined;
+};
+
+/**
+ * Apply a single placeholder filter. Unknown filters and values a filter
+ * cannot handle pass through unchanged.
+ */
+export function applyFilter(value: unknown, name: string, arg: string | null, data: unknown = {}): unknown {
+  const args = arg === null ? [] : arg.split(',');
+
+  switch (name) {
+    case 'default':
+      return value == null || String(value) === '' ? unquote(arg ?? '') : value;
+
+    case 'padLeft':
+    case 'padRight': {
+      const width = parseInteger(args[0], NaN);
+      if (isNaN(width) || value == null) return value;
+      const padChar = args.length > 1 ? args[1] : ' ';
+      return name === 'padLeft' ? String(value).padStart(width, padChar) : String(value).padEnd(width, padChar);
+    }
+
+    case 'fit': {
+      const width = parseInteger(args[0], NaN);
+      if (isNaN(width) || value == null) return value;
+      return fitText(String(value), width, args[1]?.trim() || 'left');
+    }
+
+    case 'truncate': {
+      const width = parseInteger(args[0], NaN);
+      if (isNaN(width) || value == null) return value;
+      return formattingService.truncateText(String(value), width, args.length > 1 ? unquote(args.slice(1).join(',')) : '');
+    }
+
+    case 'upper':
+      return value == null ? value : String(value).toUpperCase();
+
+    case 'lower':
+      return value == null ? value : String(value).toLowerCase();
+
+    case 'number': {
+      const numeric = toNumber(value);
+      if (numeric === null) return value;
+      const decimals = parseInteger(args[0], 2);
+      return formattingService.formatNumber(numeric, {
+        minimumFractionDigits: decimals,
+        maximumFractionDigits: decimals
+      });
+    }
+
+    case 'decimal': {
+      const numeric = toNumber(value);
+      return numeric === null ? value : numeric.toFixed(parseInteger(args[0], 2));
+    }
+
+    case 'currency': {
+      const numeric = toNumber(value);
+      if (numeric === null) return value;
+      const currency = args[0]?.trim() || resolveCurrency(data);
+      return formattingService.formatCurrency(numeric, currency ? { currency } : {});
+    }
+
+    case 'scaled': {
+      const numeric = toNumber(value);
+      if (numeric === null) return value;
+      const amount = fromScaledInt(numeric);
+      return args.length > 0 ? amount.toFixed(parseInteger(args[0], 2)) : amount;
+    }
+
+    case 'date': {
+      const date = toDate(value);
+      return date ? formatDatePattern(date, arg || 'yyyy-MM-dd') : value;
+    }
+
+    case 'format': {
+      const date = arg === 'datetime' ? toDate(value) : null;
+      return date ? date.toLocaleString() : value;
+    }
+
+    default:
+      return value;
+  }
+}
+
+// ── Templates ────────────────────────────────────────────────────────────────
+
+/**
+ * Replace every {{ placeholder }} in a template string
+ */
+export function parseTemplate(template: string, data: unknown): string {
+  return template.replace(PLACEHOLDER_REGEX, (_match, path: string, operations: string) => {
+    let value = resolveValue(data, path.split('.'));
+
+    const filters = operations
+      .split('|')
+      .map(operation => operation.trim())
+      .filter(operation => operation);
+
+    for (const filter of filters) {
+      // Everything after the first ':' is the argument so patterns like HH:mm survive
+      const separator = filter.indexOf(':');
+      const name = separator === -1 ? filter : filter.slice(0, separator).trim();
+      const arg = separator === -1 ? null : filter.slice(separator + 1).trim();
+      value = applyFilter(value, name, arg, data);
+    }
+
+    return value == null ? path : String(value);
+  });
+}
+
+// ── Builder ──────────────────────────────────────────────────────────────────
+
+// Iterator items see their own fields first and fall back to the enclosing data
+function createItemScope(item: unknown, parent: unknown, alias: string, index: number): Record<string, unknown> {
+  const scope: Record<string, unknown> = Object.create(parent && typeof parent === 'object' ? parent : null);
+  if (item && typeof item === 'object') {
+    Object.assign(scope, item);
+  }
+  scope[alias] = item;
+  scope.$index = index;
+  return scope;
+}
+
+/**
+ * Expand a section against receipt data: evaluate conditions, resolve section
+ * references and iterators, and fill in placeholders. `activeRefs` holds the
+ * sections being expanded, so a section that references itself (directly or
+ * through others) is skipped instead of recursing forever.
+ */
+export function buildReceiptData(
+  section: TemplateRows,
+  data: unknown,
+  templates: ReceiptTemplates = {},
+  activeRefs: ReadonlySet<string> = new Set()
+): ReceiptElement[] {
+  const receiptElements: ReceiptElement[] = [];
+
+  if (!section.rows || !evaluateConditions(section.conditions, data)) {
+    return receiptElements;
+  }
+
+  for (const element of section.rows) {
+    // Iterator conditions are evaluated per item below
+    if (element.type !== 'iterator' && !evaluateConditions(element.conditions, data)) {
+      continue;
+    }
+
+    switch (element.type) {
+      case 'sectionref':
+        if (activeRefs.has(element.ref)) {
+          console.warn(`Receipt section "${element.ref}" references itself; skipped`);
+        } else if (templates[element.ref]) {
+          receiptElements.push(...buildReceiptData(templates[element.ref], data, templates, new Set([...activeRefs, element.ref])));
+        }
+        break;
+
+      case 'text':
+        receiptElements.push({
+          type: 'text',
+          text: parseTemplate(element.text, data),
+          align: element.align,
+          style: element.style,
+          flex: element.flex,
+        });
+        break;
+
+      case 'iterator': {
+        const items = resolveValue(data, element.path.split('.'));
+        if (!Array.isArray(items)) break;
+        items.forEach((item, index) => {
+          const scope = createItemScope(item, data, element.as || 'item', index);
+          if (evaluateConditions(element.conditions, scope)) {
+            receiptElements.push(...buildReceiptData({ rows: element.rows }, scope, templates, activeRefs));
+          }
+        });
+        break;
+      }
+
+      case 'barcode':
+        receiptElements.push({
+          type: 'barcode',
+          code: parseTemplate(element.code, data),
+          barcode_type: element.barcode_type,
+        });
+        break;
+
+      case 'row':
+        receiptElements.push({
+          type: 'row',
+          children: buildReceiptData({ rows: element.children }, data, templates, activeRefs),
+        });
+        break;
+
+      default:
+        receiptElements.push(element);
+    }
+  }
+
+  return receiptElements;
+}
+
+/**
+ * Build a named section (e.g. "StoreCopy") of a receipt configuration
+ */
+export function buildReceipt(sectionKey: string, templates: ReceiptTemplates, data: unknown): ReceiptElement[] {
+  const section = templates[sectionKey];
+  if (!section) {
+    console.warn(`Receipt config not found for key: ${sectionKey}`);
+    return [];
+  }
+  return buildReceiptData(section, data, templates, new Set([sectionKey]));
+}
+
+/**
+ * Expand stored document elements that still contain template rows
+ * (section references, iterators or placeholders)
+ */
+export function resolveReceiptElements(
+  elements: ReceiptElement[],
+  data: unknown,
+  templates: ReceiptTemplates = {}
+): ReceiptElement[] {
+  return buildReceiptData({ rows: elements }, data, templates);
+}
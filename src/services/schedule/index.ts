@@ -0,0 +1,36 @@
+export { scheduleService, ScheduleService } from './scheduleService';
+export {
+  WEEK_DAYS,
+  toDateKey,
+  parseDateKey,
+  addDays,
+  getWeekStart,
+  getWeekDates,
+  getWeekDay,
+  timeToMinutes,
+  minutesToTime,
+  getShiftWindow,
+  getShiftHours,
+  parseTimingRange,
+  getStoreTimingForDate,
+  detectScheduleConflicts,
+  getDailyLabor,
+  getUserDisplayName
+} from './scheduleUtils';
+export type { WeekDay } from './scheduleUtils';
+export type {
+  Shift,
+  ShiftStatus,
+  ShiftTemplate,
+  CreateShiftRequest,
+  UpdateShiftRequest,
+  CreateShiftTemplateRequest,
+  UpdateShiftTemplateRequest,
+  ShiftQueryParams,
+  ShiftsResponse,
+  ShiftTemplatesResponse,
+  CopyWeekResult,
+  ScheduleConflict,
+  ScheduleConflictType,
+  DailyLaborSummary
+} from '../types/schedule.types';
@@ -0,0 +1,195 @@
+// Employee scheduling service: shifts and reusable shift templates per store
+import { apiClient, ApiError } from '../api';
+import type {
+  Shift,
+  ShiftTemplate,
+  CreateShiftRequest,
+  UpdateShiftRequest,
+  CreateShiftTemplateRequest,
+  UpdateShiftTemplateRequest,
+  ShiftQueryParams,
+  ShiftsResponse,
+  ShiftTemplatesResponse,
+  CopyWeekResult
+} from '../types/schedule.types';
+import { addDays, parseDateKey } from './scheduleUtils';
+
+export class ScheduleService {
+  private basePath(storeId: string): string {
+    return `/v0/store/${storeId}/schedule`;
+  }
+
+  /**
+   * Get shifts for a store, usually narrowed to a date range
+   */
+  async getShifts(storeId: string, params: ShiftQueryParams = {}): Promise<Shift[]> {
+    try {
+      const response = await apiClient.get<ShiftsResponse>(`${this.basePath(storeId)}/shifts`, params);
+      return response.data.shifts || [];
+    } catch (error) {
+      console.error('❌ Failed to fetch shifts:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Create a shift
+   */
+  async createShift(storeId: string, data: CreateShiftRequest): Promise<Shift> {
+    try {
+      const response = await apiClient.post<Shift>(`${this.basePath(storeId)}/shifts`, data);
+      console.log('✅ Shift created:', response.data.shift_id);
+      return response.data;
+    } catch (error) {
+      console.error('❌ Failed to create shift:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Update a shift
+   */
+  async updateShift(storeId: string, shiftId: string, data: UpdateShiftRequest): Promise<Shift> {
+    try {
+      const response = await apiClient.put<Shift>(`${this.basePath(storeId)}/shifts/${shiftId}`, data);
+      console.log('✅ Shift updated:', shiftId);
+      return response.data;
+    } catch (error) {
+      console.error('❌ Failed to update shift:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Delete a shift
+   */
+  async deleteShift(storeId: string, shiftId: string): Promise<void> {
+    try {
+      await apiClient.delete(`${this.basePath(storeId)}/shifts/${shiftId}`);
+      console.log('✅ Shift deleted:', shiftId);
+    } catch (error) {
+      console.error('❌ Failed to delete shift:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Copy the shifts of one week (Monday to Sunday) into another.
+   *
+   * Cancelled shifts are not copied, and shifts that already exist in the
+   * target week for the same person, day and times are skipped so running
+   * the copy twice does not double-book anyone.
+   */
+  async copyWeek(storeId: string, sourceWeekStart: string, targetWeekStart: string): Promise<CopyWeekResult> {
+    try {
+      const [sourceShifts, targetShifts] = await Promise.all([
+        this.getShifts(storeId, { start_date: sourceWeekStart, end_date: addDays(sourceWeekStart, 6) }),
+        this.getShifts(storeId, { start_date: targetWeekStart, end_date: addDays(targetWeekStart, 6) })
+      ]);
+
+      const shiftKey = (shift: Pick<Shift, 'user_id' | 'date' | 'start_time' | 'end_time'>) =>
+        `${shift.user_id}|${shift.date}|${shift.start_time}|${shift.end_time}`;
+      const existing = new Set(targetShifts.filter(shift => shift.status !== 'cancelled').map(shiftKey));
+
+      const offsetDays = Math.round(
+        (parseDateKey(targetWeekStart).getTime() - parseDateKey(sourceWeekStart).getTime()) / 86400000
+      );
+
+      const requests: CreateShiftRequest[] = sourceShifts
+        .filter(shift => shift.status !== 'cancelled')
+        .map(shift => ({
+          user_id: shift.user_id,
+          employee_name: shift.employee_name,
+          role: shift.role,
+          date: addDays(shift.date, offsetDays),
+          start_time: shift.start_time,
+          end_time: shift.end_time,
+          break_minutes: shift.break_minutes,
+          status: 'scheduled' as const,
+          template_id: shift.template_id,
+          notes: shift.notes
+        }));
+
+      const toCreate = requests.filter(request => !existing.has(shiftKey(request)));
+      const created = await Promise.all(toCreate.map(request => this.createShift(storeId, request)));
+
+      console.log(`✅ Copied ${created.length} shifts from week of ${sourceWeekStart}`);
+      return { created, skipped: requests.length - toCreate.length };
+    } catch (error) {
+      console.error('❌ Failed to copy week:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get the shift templates of a store
+   */
+  async getTemplates(storeId: string): Promise<ShiftTemplate[]> {
+    try {
+      const response = await apiClient.get<ShiftTemplatesResponse>(`${this.basePath(storeId)}/templates`);
+      return response.data.templates || [];
+    } catch (error) {
+      console.error('❌ Failed to fetch shift templates:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Create a shift template
+   */
+  async createTemplate(storeId: string, data: CreateShiftTemplateRequest): Promise<ShiftTemplate> {
+    try {
+      const response = await apiClient.post<ShiftTemplate>(`${this.basePath(storeId)}/templates`, data);
+      console.log('✅ Shift template created:', response.data.template_id);
+      return response.data;
+    } catch (error) {
+      console.error('❌ Failed to create shift template:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Update a shift template
+   */
+  async updateTemplate(storeId: string, templateId: string, data: UpdateShiftTemplateRequest): Promise<ShiftTemplate> {
+    try {
+      const response = await apiClient.put<ShiftTemplate>(`${this.basePath(storeId)}/templates/${templateId}`, data);
+      console.log('✅ Shift template updated:', templateId);
+      return response.data;
+    } catch (error) {
+      console.error('❌ Failed to update shift template:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Delete a shift template
+   */
+  async deleteTemplate(storeId: string, templateId: string): Promise<void> {
+    try {
+      await apiClient.delete(`${this.basePath(storeId)}/templates/${templateId}`);
+      console.log('✅ Shift template deleted:', templateId);
+    } catch (error) {
+      console.error('❌ Failed to delete shift template:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Handle API errors
+   */
+  private handleError(error: unknown): ApiError {
+    if (error instanceof ApiError) {
+      return error;
+    }
+
+    return new ApiError(
+      error instanceof Error ? error.message : 'An unexpected error occurred while processing your request',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+}
+
+// Export a singleton instance
+export const scheduleService = new ScheduleService();
@@ -0,0 +1,216 @@
+// Date helpers, conflict detection and labor totals for employee schedules
+import type { AccessSchedule, StoreUser } from '../types/user.types';
+import type { StoreTimings } from '../types/store.types';
+import type { DailyLaborSummary, ScheduleConflict, Shift } from '../types/schedule.types';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export const WEEK_DAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'] as const;
+export type WeekDay = typeof WEEK_DAYS[number];
+
+// ── Dates ────────────────────────────────────────────────────────────────────
+
+/** Local calendar date as YYYY-MM-DD (toISOString would shift it to UTC) */
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function parseDateKey(dateKey: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export function addDays(dateKey: string, days: number): string {
+  const date = parseDateKey(dateKey);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+}
+
+/** Monday of the week containing the date */
+export function getWeekStart(date: Date): string {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return toDateKey(start);
+}
+
+export function getWeekDates(weekStart: string): string[] {
+  return Array.from({ length: 7 }, (_, index) => addDays(weekStart, index));
+}
+
+export function getWeekDay(dateKey: string): WeekDay {
+  return WEEK_DAYS[(parseDateKey(dateKey).getDay() + 6) % 7];
+}
+
+// ── Times ────────────────────────────────────────────────────────────────────
+
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+export function minutesToTime(minutes: number): string {
+  const normalized = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hours = Math.floor(normalized / 60);
+  return `${String(hours).padStart(2, '0')}:${String(normalized % 60).padStart(2, '0')}`;
+}
+
+/** Start and end in minutes from the shift's date; end passes midnight for overnight shifts */
+export function getShiftWindow(shift: Pick<Shift, 'start_time' | 'end_time'>): { start: number; end: number } {
+  const start = timeToMinutes(shift.start_time);
+  let end = timeToMinutes(shift.end_time);
+  if (end <= start) end += MINUTES_PER_DAY;
+  return { start, end };
+}
+
+/** Paid hours of a shift, breaks excluded */
+export function getShiftHours(shift: Pick<Shift, 'start_time' | 'end_time' | 'break_minutes'>): number {
+  const { start, end } = getShiftWindow(shift);
+  return Math.max(0, end - start - (shift.break_minutes || 0)) / 60;
+}
+
+/** Parse a StoreTimings value like "09:00-22:00"; null when closed or unset */
+export function parseTimingRange(value: string | undefined | null): { start: number; end: number } | null {
+  if (!value || value.toLowerCase() === 'closed') return null;
+  const [open, close] = value.split('-');
+  if (!open || !close) return null;
+  const start = timeToMinutes(open.trim());
+  let end = timeToMinutes(close.trim());
+  if (end <= start) end += MINUTES_PER_DAY;
+  return { start, end };
+}
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+/** StoreTimings keys are capitalised day names ("Monday") but accept lower case too */
+export function getStoreTimingForDate(timings: StoreTimings, dateKey: string): string | undefined {
+  const day = getWeekDay(dateKey);
+  return timings[capitalize(day)] ?? timings[day];
+}
+
+// ── Conflicts ────────────────────────────────────────────────────────────────
+
+const isActiveShift = (shift: Shift) => shift.status !== 'cancelled';
+
+const absoluteWindow = (shift: Shift) => {
+  const dayOffset = Math.round(parseDateKey(shift.date).getTime() / 86400000) * MINUTES_PER_DAY;
+  const { start, end } = getShiftWindow(shift);
+  return { start: dayOffset + start, end: dayOffset + end };
+};
+
+function checkAccessSchedule(shift: Shift, schedule: AccessSchedule): string | null {
+  const day = getWeekDay(shift.date);
+  const entry = schedule.schedule.find(item => item.day === day);
+  if (!entry || !entry.enabled) {
+    return `Not allowed to work on ${capitalize(day)} by their access schedule`;
+  }
+
+  const window = parseTimingRange(`${entry.start_time}-${entry.end_time}`);
+  const shiftWindow = getShiftWindow(shift);
+  if (window && (shiftWindow.start < window.start || shiftWindow.end > window.end)) {
+    return `Outside their access hours (${entry.start_time}-${entry.end_time})`;
+  }
+  return null;
+}
+
+/**
+ * Find problems in a set of shifts: a person booked twice at once, shifts
+ * outside the person's StoreUser.access_schedule, and shifts on days or at
+ * times the store is closed according to its StoreTimings.
+ * Cancelled shifts are ignored.
+ */
+export function detectScheduleConflicts(
+  shifts: Shift[],
+  users: StoreUser[] = [],
+  storeTimings?: StoreTimings | null
+): ScheduleConflict[] {
+  const conflicts: ScheduleConflict[] = [];
+  const usersById = new Map(users.map(user => [user.user_id, user]));
+  const active = shifts.filter(isActiveShift);
+
+  const byUser = new Map<string, Shift[]>();
+  active.forEach(shift => {
+    byUser.set(shift.user_id, [...(byUser.get(shift.user_id) || []), shift]);
+  });
+
+  byUser.forEach(userShifts => {
+    const sorted = [...userShifts].sort((a, b) => absoluteWindow(a).start - absoluteWindow(b).start);
+    for (let i = 0; i < sorted.length; i++) {
+      const current = absoluteWindow(sorted[i]);
+      for (let j = i + 1; j < sorted.length; j++) {
+        const next = absoluteWindow(sorted[j]);
+        if (next.start >= current.end) break;
+        [[sorted[i], sorted[j]], [sorted[j], sorted[i]]].forEach(([shift, other]) => {
+          conflicts.push({
+            type: 'overlap',
+            shift_id: shift.shift_id,
+            user_id: shift.user_id,
+            date: shift.date,
+            other_shift_id: other.shift_id,
+            message: `Overlaps another shift on ${other.date} (${other.start_time}-${other.end_time})`,
+          });
+        });
+      }
+    }
+  });
+
+  active.forEach(shift => {
+    const schedule = usersById.get(shift.user_id)?.access_schedule;
+    if (schedule?.enabled) {
+      const message = checkAccessSchedule(shift, schedule);
+      if (message) {
+        conflicts.push({ type: 'access_schedule', shift_id: shift.shift_id, user_id: shift.user_id, date: shift.date, message });
+      }
+    }
+
+    if (!storeTimings) return;
+    const day = getWeekDay(shift.date);
+    const timing = getStoreTimingForDate(storeTimings, shift.date);
+    if (timing === undefined) return;
+
+    const hours = parseTimingRange(timing);
+    if (!hours) {
+      conflicts.push({
+        type: 'store_closed',
+        shift_id: shift.shift_id,
+        user_id: shift.user_id,
+        date: shift.date,
+        message: `Store is closed on ${capitalize(day)}`,
+      });
+      return;
+    }
+
+    const window = getShiftWindow(shift);
+    if (window.start < hours.start || window.end > hours.end) {
+      conflicts.push({
+        type: 'store_hours',
+        shift_id: shift.shift_id,
+        user_id: shift.user_id,
+        date: shift.date,
+        message: `Outside store opening hours (${timing})`,
+      });
+    }
+  });
+
+  return conflicts;
+}
+
+// ── Labor ────────────────────────────────────────────────────────────────────
+
+/** Projected paid hours per day, for every date given (zero when nobody is scheduled) */
+export function getDailyLabor(shifts: Shift[], dates: string[]): DailyLaborSummary[] {
+  return dates.map(date => {
+    const dayShifts = shifts.filter(shift => shift.date === date && isActiveShift(shift));
+    return {
+      date,
+      shift_count: dayShifts.length,
+      employee_count: new Set(dayShifts.map(shift => shift.user_id)).size,
+      hours: dayShifts.reduce((total, shift) => total + getShiftHours(shift), 0),
+    };
+  });
+}
+
+export function getUserDisplayName(user: Pick<StoreUser, 'first_name' | 'last_name' | 'email'>): string {
+  return `${user.first_name || ''} ${user.last_name || ''}`.trim() || user.email;
+}
@@ -0,0 +1,30 @@
+export { stockCountService, StockCountService } from './stockCountService';
+export {
+  MERCH_LEVELS,
+  matchesScope,
+  getMerchValues,
+  buildCountLines,
+  stripScannerAffixes,
+  parseCountEntry,
+  findLineByCode,
+  getLineVariance,
+  summarizeCount,
+  describeScope
+} from './stockCountUtils';
+export type {
+  StockCountStatus,
+  MerchLevel,
+  StockCountScope,
+  StockCountLine,
+  StockCount,
+  CreateStockCountRequest,
+  CountedQuantityInput,
+  UpdateStockCountRequest,
+  UncountedHandling,
+  PostStockCountRequest,
+  PostStockCountResult,
+  StockCountQueryParams,
+  StockCountsResponse,
+  StockCountSummary,
+  ParsedCountEntry
+} from '../types/stock-count.types';
@@ -0,0 +1,141 @@
+// Stock count service: count sessions, progress saving and batch posting
+import { apiClient, ApiError } from '../api';
+import type {
+  StockCount,
+  CreateStockCountRequest,
+  UpdateStockCountRequest,
+  PostStockCountRequest,
+  PostStockCountResult,
+  StockCountQueryParams,
+  StockCountsResponse
+} from '../types/stock-count.types';
+
+const PAGE_LIMIT = 100;
+
+export class StockCountService {
+  private basePath(storeId: string): string {
+    return `/v0/store/${storeId}/inventory/counts`;
+  }
+
+  /**
+   * Get one page of stock counts, newest first
+   */
+  async getCounts(storeId: string, params: StockCountQueryParams = {}): Promise<StockCountsResponse> {
+    try {
+      const response = await apiClient.get<StockCountsResponse>(this.basePath(storeId), params);
+      return { counts: response.data.counts || [], next: response.data.next || null };
+    } catch (error) {
+      console.error('❌ Failed to fetch stock counts:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get every stock count matching the filters, following the cursor
+   */
+  async getAllCounts(storeId: string, params: Omit<StockCountQueryParams, 'cursor' | 'limit'> = {}): Promise<StockCount[]> {
+    const counts: StockCount[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.getCounts(storeId, { ...params, cursor, limit: PAGE_LIMIT });
+      counts.push(...page.counts);
+      cursor = page.next || undefined;
+    } while (cursor);
+    return counts;
+  }
+
+  /**
+   * Get a single stock count with its lines
+   */
+  async getCount(storeId: string, countId: string): Promise<StockCount> {
+    try {
+      const response = await apiClient.get<StockCount>(`${this.basePath(storeId)}/${countId}`);
+      return response.data;
+    } catch (error) {
+      console.error('❌ Failed to fetch stock count:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Start a count session from a snapshot of the in-scope items
+   */
+  async createCount(storeId: string, data: CreateStockCountRequest): Promise<StockCount> {
+    if (data.lines.length === 0) {
+      throw new ApiError('No tracked items match this count scope', 400, 'EMPTY_STOCK_COUNT');
+    }
+
+    try {
+      const response = await apiClient.post<StockCount>(this.basePath(storeId), data);
+      console.log('✅ Stock count created:', response.data.count_number);
+      return response.data;
+    } catch (error) {
+      console.error('❌ Failed to create stock count:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Save counted quantities so far. Stock is not changed until the count is posted.
+   */
+  async saveProgress(storeId: string, countId: string, data: UpdateStockCountRequest): Promise<StockCount> {
+    try {
+      const response = await apiClient.put<StockCount>(`${this.basePath(storeId)}/${countId}`, data);
+      console.log('✅ Stock count progress saved:', countId);
+      return response.data;
+    } catch (error) {
+      console.error('❌ Failed to save stock count:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Post every variance as a count adjustment in one batch and close the count
+   */
+  async postCount(storeId: string, countId: string, data: PostStockCountRequest): Promise<PostStockCountResult> {
+    if (!data.reason_code) {
+      throw new ApiError('A reason code is required to post a stock count', 400, 'REASON_CODE_REQUIRED');
+    }
+
+    try {
+      const response = await apiClient.post<PostStockCountResult>(`${this.basePath(storeId)}/${countId}/post`, data);
+      console.log('✅ Stock count posted:', response.data.count.count_number, response.data.adjustments.length);
+      return response.data;
+    } catch (error) {
+      console.error('❌ Failed to post stock count:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Abandon a count in progress without changing stock
+   */
+  async cancelCount(storeId: string, countId: string): Promise<StockCount> {
+    try {
+      const response = await apiClient.post<StockCount>(`${this.basePath(storeId)}/${countId}/cancel`, {});
+      console.log('✅ Stock count cancelled:', countId);
+      return response.data;
+    } catch (error) {
+      console.error('❌ Failed to cancel stock count:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Handle API errors
+   */
+  private handleError(error: unknown): ApiError {
+    if (error instanceof ApiError) {
+      return error;
+    }
+
+    return new ApiError(
+      error instanceof Error ? error.message : 'An unexpected error occurred while processing your request',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+}
+
+// Export a singleton instance
+export const stockCountService = new StockCountService();
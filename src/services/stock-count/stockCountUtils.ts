@@ -0,0 +1,165 @@
+// Stock count scoping, scanner entry parsing and variance maths
+import type { InventoryItem } from '../types/inventory.types';
+import type { ScannerConfig } from '../../types/hardware.types';
+import type {
+  MerchLevel,
+  ParsedCountEntry,
+  StockCountLine,
+  StockCountScope,
+  StockCountSummary,
+  UncountedHandling
+} from '../types/stock-count.types';
+
+export const MERCH_LEVELS: MerchLevel[] = [1, 2, 3, 4];
+
+// ── Scope ──
+
+const getMerchValue = (item: InventoryItem, level: MerchLevel): string | null | undefined => {
+  switch (level) {
+    case 1: return item.merch_level1;
+    case 2: return item.merch_level2;
+    case 3: return item.merch_level3;
+    case 4: return item.merch_level4;
+  }
+};
+
+export function matchesScope(item: InventoryItem, scope: StockCountScope): boolean {
+  if (scope.category_id && !item.categories.includes(scope.category_id)) {
+    return false;
+  }
+  if (scope.merch_level && scope.merch_value && getMerchValue(item, scope.merch_level) !== scope.merch_value) {
+    return false;
+  }
+  return true;
+}
+
+/** Distinct values used at a merchandise level, for the scope picker */
+export function getMerchValues(items: InventoryItem[], level: MerchLevel): string[] {
+  const values = new Set<string>();
+  items.forEach(item => {
+    const value = getMerchValue(item, level);
+    if (value) values.add(value);
+  });
+  return Array.from(values).sort((a, b) => a.localeCompare(b));
+}
+
+/** Snapshot the in-scope items with their current on-hand as the expected quantity */
+export function buildCountLines(items: InventoryItem[], scope: StockCountScope): Omit<StockCountLine, 'counted_quantity'>[] {
+  return items
+    .filter(item => matchesScope(item, scope))
+    .map(item => ({
+      item_id: item.item_id,
+      item_name: item.name,
+      expected_quantity: item.on_hand,
+      unit_cost: item.unit_cost
+    }))
+    .sort((a, b) => a.item_name.localeCompare(b.item_name));
+}
+
+// ── Scanner entry ──
+
+/**
+ * Remove the prefix and suffix a scanner is configured to add. Keyboard-wedge
+ * scanners send control characters such as "\r\n" as keystrokes that never
+ * reach the input, so affixes are compared without surrounding whitespace.
+ */
+export function stripScannerAffixes(raw: string, configs: ScannerConfig[]): string {
+  let value = raw.trim();
+
+  for (const config of configs) {
+    const prefix = config.prefix?.trim();
+    if (prefix && value.startsWith(prefix)) {
+      value = value.slice(prefix.length);
+      break;
+    }
+  }
+
+  for (const config of configs) {
+    const suffix = config.suffix?.trim();
+    if (suffix && value.endsWith(suffix)) {
+      value = value.slice(0, -suffix.length);
+      break;
+    }
+  }
+
+  return value.trim();
+}
+
+/**
+ * Parse one scan or typed entry. A single scan counts one unit; "12*CODE"
+ * counts twelve, for cases and for typing up paper count sheets.
+ */
+export function parseCountEntry(raw: string, configs: ScannerConfig[]): ParsedCountEntry | null {
+  const value = stripScannerAffixes(raw, configs);
+  if (!value) return null;
+
+  const multiplied = /^(\d+(?:\.\d+)?)\s*\*\s*(.+)$/.exec(value);
+  if (multiplied) {
+    const code = stripScannerAffixes(multiplied[2], configs);
+    return code ? { code, quantity: Number(multiplied[1]) } : null;
+  }
+
+  return { code: value, quantity: 1 };
+}
+
+export function findLineByCode<T extends Pick<StockCountLine, 'item_id'>>(lines: T[], code: string): T | undefined {
+  const normalized = code.toLowerCase();
+  return lines.find(line => line.item_id === code)
+    || lines.find(line => line.item_id.toLowerCase() === normalized);
+}
+
+// ── Variance ──
+
+/**
+ * Counted minus expected. Uncounted lines have no variance unless they are
+ * being posted as zero.
+ */
+export function getLineVariance(line: StockCountLine, uncounted: UncountedHandling = 'skip'): number | null {
+  if (line.counted_quantity === null) {
+    return uncounted === 'zero' ? -line.expected_quantity : null;
+  }
+  return line.counted_quantity - line.expected_quantity;
+}
+
+export function summarizeCount(lines: StockCountLine[], uncounted: UncountedHandling = 'skip'): StockCountSummary {
+  return lines.reduce<StockCountSummary>((summary, line) => {
+    const variance = getLineVariance(line, uncounted);
+    const counted = line.counted_quantity !== null;
+
+    const next = {
+      ...summary,
+      counted: summary.counted + (counted ? 1 : 0),
+      uncounted: summary.uncounted + (counted ? 0 : 1)
+    };
+    if (!variance) return next;
+
+    return {
+      ...next,
+      variances: next.variances + 1,
+      units_over: next.units_over + Math.max(0, variance),
+      units_short: next.units_short + Math.max(0, -variance),
+      value_impact: next.value_impact + (line.unit_cost !== null ? variance * line.unit_cost : 0),
+      uncosted: next.uncosted + (line.unit_cost === null ? 1 : 0)
+    };
+  }, {
+    total: lines.length,
+    counted: 0,
+    uncounted: 0,
+    variances: 0,
+    units_over: 0,
+    units_short: 0,
+    value_impact: 0,
+    uncosted: 0
+  });
+}
+
+export function describeScope(scope: StockCountScope, categoryNames: Map<string, string>): string {
+  const parts: string[] = [];
+  if (scope.category_id) {
+    parts.push(categoryNames.get(scope.category_id) || scope.category_id);
+  }
+  if (scope.merch_level && scope.merch_value) {
+    parts.push(`Merch level ${scope.merch_level}: ${scope.merch_value}`);
+  }
+  return parts.length > 0 ? parts.join(' · ') : 'All tracked items';
+}
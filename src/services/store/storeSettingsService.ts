@@ -1,17 +1,62 @@
+import { apiClient, ApiError } from '../api';
 import type {
   SupportedCurrency,
   SupportedTimezone,
-  BusinessHours
+  BusinessHours,
+  OperationalSettings,
+  StoreSettings
 } from '../types/store.types';
 
 /**
- * Store Settings Helper Service
+ * Store Settings Service
  * 
- * NOTE: The store settings API (/v0/store/{store_id}/settings) is not yet implemented.
- * This service now only provides helper methods for supported currencies, timezones, etc.
- * When the API is implemented, add the API methods back here.
+ * Reads and saves the settings document at /v0/store/{store_id}/settings. Stores
+ * without saved settings return 404; callers fall back to their defaults.
+ * Also provides helper methods for supported currencies, timezones, etc.
  */
 export class StoreSettingsService {
+  private basePath(storeId: string): string {
+    return `/v0/store/${storeId}/settings`;
+  }
+
+  /**
+   * Get the saved settings for a store, or null when none are saved yet
+   */
+  async getSettings(storeId: string): Promise<Partial<StoreSettings> | null> {
+    try {
+      const response = await apiClient.get<Partial<StoreSettings>>(this.basePath(storeId));
+      return response.data;
+    } catch (error) {
+      if (error instanceof ApiError && error.code === 404) {
+        return null;
+      }
+      console.error('❌ Failed to fetch store settings:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Update one group of operational settings, keeping the other groups as saved
+   */
+  async updateOperationalSettings<K extends keyof OperationalSettings>(
+    storeId: string,
+    group: K,
+    data: Partial<OperationalSettings[K]>
+  ): Promise<Partial<OperationalSettings>> {
+    try {
+      const current: Partial<OperationalSettings> = (await this.getSettings(storeId))?.operational_settings || {};
+      const operationalSettings = { ...current, [group]: { ...current[group], ...data } };
+      const response = await apiClient.patch<Partial<StoreSettings>>(this.basePath(storeId), {
+        operational_settings: operationalSettings
+      });
+      console.log('✅ Store settings updated:', storeId, group);
+      return response.data?.operational_settings || operationalSettings;
+    } catch (error) {
+      console.error('❌ Failed to update store settings:', error);
+      throw this.handleError(error);
+    }
+  }
+
   /**
    * Get supported currencies
    */
@@ -62,6 +107,21 @@ export class StoreSettingsService {
       close_time: '18:00'
     }));
   }
+
+  /**
+   * Handle API errors
+   */
+  private handleError(error: unknown): ApiError {
+    if (error instanceof ApiError) {
+      return error;
+    }
+
+    return new ApiError(
+      error instanceof Error ? error.message : 'An unexpected error occurred while processing your request',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
 }
 
 // Create and export a singleton instance
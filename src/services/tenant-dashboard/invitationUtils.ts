@@ -0,0 +1,103 @@
+// Tenant invitation helpers: expiry, validation and per-store access
+import type {
+  InviteUserRequest,
+  StoreAccess,
+  TenantInvitation,
+  TenantUser
+} from '../types/tenant-dashboard.types';
+import type { ApiRole } from '../role/roleApiService';
+
+/** Public route the invitation email links to, with ?token=... */
+export const ACCEPT_INVITE_PATH = '/auth/accept-invite';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// ── Expiry ──
+
+export const isInvitationExpired = (invitation: Pick<TenantInvitation, 'status' | 'expires_at'>, now: Date = new Date()): boolean =>
+  invitation.status === 'expired' || (invitation.status === 'pending' && new Date(invitation.expires_at) <= now);
+
+/**
+ * Short expiry label for the pending list: "Expires in 3 days", "Expires today",
+ * "Expired 2 days ago"
+ */
+export const formatInvitationExpiry = (expiresAt: string, now: Date = new Date()): string => {
+  const diff = new Date(expiresAt).getTime() - now.getTime();
+  const days = Math.floor(Math.abs(diff) / DAY_MS);
+
+  if (diff <= 0) {
+    return days === 0 ? 'Expired today' : `Expired ${days} day${days === 1 ? '' : 's'} ago`;
+  }
+  return days === 0 ? 'Expires today' : `Expires in ${days} day${days === 1 ? '' : 's'}`;
+};
+
+// ── Validation ──
+
+/**
+ * Field errors for an invite. Existing members and open invitations for the same
+ * address are rejected here rather than as a duplicate email from the API.
+ */
+export const validateInvite = (
+  data: InviteUserRequest,
+  users: TenantUser[],
+  invitations: TenantInvitation[]
+): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  const email = data.email.trim().toLowerCase();
+
+  if (!email) {
+    errors.email = 'Email is required';
+  } else if (!EMAIL_PATTERN.test(email)) {
+    errors.email = 'Please enter a valid email address';
+  } else if (users.some(user => user.email.toLowerCase() === email && user.status !== 'invited')) {
+    errors.email = 'This user is already a member of this tenant';
+  } else if (invitations.some(invite => invite.email.toLowerCase() === email && invite.status === 'pending' && !isInvitationExpired(invite))) {
+    errors.email = 'An invitation is already pending for this email. Resend it instead.';
+  }
+
+  // Owners and admins reach every store through the tenant dashboard
+  if ((data.role === 'staff' || data.role === 'viewer') && data.store_access.length === 0) {
+    errors.store_access = 'Give access to at least one store';
+  }
+
+  return errors;
+};
+
+// ── Store access ──
+
+export const getStoreRoleId = (access: StoreAccess[] | undefined, storeId: string): string =>
+  access?.find(entry => entry.store_id === storeId)?.role_id || '';
+
+/**
+ * Set (or with an empty roleId, remove) the role for one store
+ */
+export const setStoreRole = (access: StoreAccess[], storeId: string, roleId: string): StoreAccess[] => {
+  const others = access.filter(entry => entry.store_id !== storeId);
+  return roleId ? [...others, { store_id: storeId, role_id: roleId }] : others;
+};
+
+/** Role names offered by at least one store, for the "same role everywhere" picker */
+export const getSharedRoleNames = (rolesByStore: Record<string, ApiRole[]>): string[] =>
+  Array.from(new Set(Object.values(rolesByStore).flat().filter(role => role.is_active).map(role => role.name)))
+    .sort((a, b) => a.localeCompare(b));
+
+/**
+ * Give the same role in every listed store. Role ids differ per store, so the
+ * role is matched by name; stores without a role of that name are left as they were.
+ * An empty name removes access to every listed store.
+ */
+export const applyRoleToStores = (
+  access: StoreAccess[],
+  storeIds: string[],
+  rolesByStore: Record<string, ApiRole[]>,
+  roleName: string
+): StoreAccess[] => {
+  if (!roleName) {
+    return access.filter(entry => !storeIds.includes(entry.store_id));
+  }
+  return storeIds.reduce((next, storeId) => {
+    const role = rolesByStore[storeId]?.find(candidate => candidate.is_active && candidate.name === roleName);
+    return role ? setStoreRole(next, storeId, role.role_id) : next;
+  }, access);
+};
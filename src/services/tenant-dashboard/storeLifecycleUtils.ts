@@ -0,0 +1,45 @@
+// Store lifecycle helpers: impact of archiving, reactivating and deleting a store
+import type { StoreDetails, Terminal } from '../types/store.types';
+import type { Subscription } from '../types/billing.types';
+import type { StoreLifecycleImpact } from '../types/tenant-dashboard.types';
+
+export type StoreLifecycleAction = 'deactivate' | 'activate' | 'delete';
+
+export const getActiveTerminals = (details: Pick<StoreDetails, 'terminals'> | null | undefined): Terminal[] =>
+  Object.values(details?.terminals || {}).filter(terminal => terminal.status === 'active');
+
+/**
+ * Seat and cost change for an action. Seats count active stores, so only
+ * deactivating an active store or reactivating an archived one moves them;
+ * deleting an already archived store leaves billing unchanged.
+ */
+export const getStoreLifecycleImpact = (
+  action: StoreLifecycleAction,
+  storeIsActive: boolean,
+  details: Pick<StoreDetails, 'terminals'> | null | undefined,
+  subscription: Pick<Subscription, 'seat_count' | 'unit_amount' | 'estimated_monthly_cost' | 'currency'> | null | undefined
+): StoreLifecycleImpact => {
+  const seatCount = subscription?.seat_count ?? 0;
+  // unit_amount is per billing interval; derive the monthly seat price from the estimate
+  const monthlySeatPrice = seatCount > 0
+    ? (subscription?.estimated_monthly_cost ?? 0) / seatCount
+    : subscription?.unit_amount ?? 0;
+
+  let delta = 0;
+  if (action === 'activate' && !storeIsActive) delta = 1;
+  if (action !== 'activate' && storeIsActive) delta = -1;
+
+  const nextSeatCount = Math.max(0, seatCount + delta);
+  return {
+    // Terminals only go offline when an active store is taken out of service
+    active_terminals: action === 'activate' ? [] : getActiveTerminals(details),
+    seat_count: seatCount,
+    next_seat_count: nextSeatCount,
+    monthly_cost: seatCount * monthlySeatPrice,
+    next_monthly_cost: nextSeatCount * monthlySeatPrice,
+    currency: subscription?.currency || 'usd'
+  };
+};
+
+/** Stores must be archived before they can be deleted */
+export const canDeleteStore = (store: { status: string }): boolean => store.status === 'inactive';
@@ -11,18 +11,20 @@
 import { apiClient } from '../api';
 import type {
   TenantOverviewData,
-  BillingOverview,
-  Subscription,
-  Invoice,
   TenantUser,
   InviteUserRequest,
   UpdateUserRoleRequest,
+  UpdateStoreAccessRequest,
+  TenantInvitation,
+  InvitationPreview,
+  AcceptInvitationResponse,
   TenantStore,
+  StoreLifecycleRequest,
+  StoreDataExport,
   AuditLogFilters,
   AuditLogResponse,
   TenantSettings,
   UpdateTenantSettingsRequest,
-  SubscriptionPlan,
 } from '../types/tenant-dashboard.types';
 
 // ─── Tenant Overview ─────────────────────────────────────────────────────────
@@ -44,137 +46,108 @@ export const tenantDashboardService = new TenantDashboardService();
 
 // ─── Billing Service ─────────────────────────────────────────────────────────
 
-class TenantBillingService {
-  private basePath = '/tenant/billing';
+// Tenant billing is served by billingService, which picks the HTTP or mock
+// backend; re-exported here so dashboard code has one import for tenant APIs.
+export { billingService as tenantBillingService } from '../billing/billingService';
 
-  /**
-   * Fetch billing overview including current subscription and last invoice
-   * TODO: Connect to real API endpoint — GET /tenant/billing
-   */
-  async getBillingOverview(): Promise<BillingOverview> {
-    const response = await apiClient.get<BillingOverview>(this.basePath);
-    return response.data;
-  }
+// ─── User Management Service ─────────────────────────────────────────────────
 
-  /**
-   * Get current subscription details
-   * TODO: Connect to real API endpoint — GET /tenant/billing/subscription
-   */
-  async getSubscription(): Promise<Subscription> {
-    const response = await apiClient.get<Subscription>(`${this.basePath}/subscription`);
-    return response.data;
-  }
+class TenantUserService {
+  private basePath = '/tenant/users';
 
   /**
-   * Get available plans for upgrade/downgrade
-   * TODO: Connect to real API endpoint — GET /tenant/billing/plans
+   * List all users in the tenant, with their per-store access
    */
-  async getAvailablePlans(): Promise<SubscriptionPlan[]> {
-    const response = await apiClient.get<SubscriptionPlan[]>(`${this.basePath}/plans`);
-    return response.data;
+  async getUsers(): Promise<TenantUser[]> {
+    const response = await apiClient.get<TenantUser[]>(this.basePath);
+    return response.data || [];
   }
 
   /**
-   * Get invoice history
-   * TODO: Connect to real API endpoint — GET /tenant/billing/invoices
+   * Update a user's role in the tenant
    */
-  async getInvoices(page: number = 1, limit: number = 10): Promise<{ invoices: Invoice[]; total: number }> {
-    const response = await apiClient.get<{ invoices: Invoice[]; total: number }>(
-      `${this.basePath}/invoices`,
-      { page, limit }
-    );
+  async updateUserRole(userId: string, data: UpdateUserRoleRequest): Promise<TenantUser> {
+    const response = await apiClient.patch<TenantUser>(`${this.basePath}/${userId}/role`, data);
     return response.data;
   }
 
   /**
-   * Get a link to the Stripe Billing Portal
-   * TODO: Connect to real API endpoint — POST /tenant/billing/portal-session
+   * Replace the stores a user can sign in to and their role at each
    */
-  async getBillingPortalUrl(): Promise<{ url: string }> {
-    const response = await apiClient.post<{ url: string }>(`${this.basePath}/portal-session`);
+  async updateStoreAccess(userId: string, data: UpdateStoreAccessRequest): Promise<TenantUser> {
+    const response = await apiClient.put<TenantUser>(`${this.basePath}/${userId}/store-access`, data);
     return response.data;
   }
 
   /**
-   * Change subscription plan
-   * TODO: Connect to real API endpoint — POST /tenant/billing/change-plan
+   * Remove a user from the tenant
    */
-  async changePlan(planId: string): Promise<Subscription> {
-    const response = await apiClient.post<Subscription>(`${this.basePath}/change-plan`, { plan_id: planId });
-    return response.data;
+  async removeUser(userId: string): Promise<void> {
+    await apiClient.delete(`${this.basePath}/${userId}`);
   }
+}
 
-  /**
-   * Cancel subscription (owner only)
-   * TODO: Connect to real API endpoint — POST /tenant/billing/cancel
-   */
-  async cancelSubscription(reason?: string): Promise<Subscription> {
-    const response = await apiClient.post<Subscription>(`${this.basePath}/cancel`, { reason });
-    return response.data;
-  }
+export const tenantUserService = new TenantUserService();
+
+// ─── Invitation Service ──────────────────────────────────────────────────────
+
+class TenantInvitationService {
+  private basePath = '/tenant/invitations';
+  // Token endpoints are not tenant-scoped: the invitee is not a member yet
+  private tokenPath = '/invitations';
 
   /**
-   * Reactivate a canceled subscription
-   * TODO: Connect to real API endpoint — POST /tenant/billing/reactivate
+   * List invitations that have not been accepted
    */
-  async reactivateSubscription(): Promise<Subscription> {
-    const response = await apiClient.post<Subscription>(`${this.basePath}/reactivate`);
-    return response.data;
+  async getInvitations(): Promise<TenantInvitation[]> {
+    const response = await apiClient.get<TenantInvitation[]>(this.basePath);
+    return response.data || [];
   }
-}
-
-export const tenantBillingService = new TenantBillingService();
-
-// ─── User Management Service ─────────────────────────────────────────────────
-
-class TenantUserService {
-  private basePath = '/tenant/users';
 
   /**
-   * List all users in the tenant
-   * TODO: Connect to real API endpoint — GET /tenant/users
+   * Invite someone by email; the backend emails a link to /auth/accept-invite
    */
-  async getUsers(): Promise<TenantUser[]> {
-    const response = await apiClient.get<TenantUser[]>(this.basePath);
+  async createInvitation(data: InviteUserRequest): Promise<TenantInvitation> {
+    const response = await apiClient.post<TenantInvitation>(this.basePath, data);
     return response.data;
   }
 
   /**
-   * Invite a new user to the tenant
-   * TODO: Connect to real API endpoint — POST /tenant/users/invite
+   * Send the invitation email again with a fresh expiry
    */
-  async inviteUser(data: InviteUserRequest): Promise<TenantUser> {
-    const response = await apiClient.post<TenantUser>(`${this.basePath}/invite`, data);
+  async resendInvitation(invitationId: string): Promise<TenantInvitation> {
+    const response = await apiClient.post<TenantInvitation>(`${this.basePath}/${invitationId}/resend`, {});
     return response.data;
   }
 
   /**
-   * Update a user's role in the tenant
-   * TODO: Connect to real API endpoint — PATCH /tenant/users/:userId/role
+   * Revoke an invitation so its link stops working
    */
-  async updateUserRole(userId: string, data: UpdateUserRoleRequest): Promise<TenantUser> {
-    const response = await apiClient.patch<TenantUser>(`${this.basePath}/${userId}/role`, data);
-    return response.data;
+  async revokeInvitation(invitationId: string): Promise<void> {
+    await apiClient.delete(`${this.basePath}/${invitationId}`);
   }
 
   /**
-   * Remove a user from the tenant
-   * TODO: Connect to real API endpoint — DELETE /tenant/users/:userId
+   * Look up an invitation by the token from the emailed link
    */
-  async removeUser(userId: string): Promise<void> {
-    await apiClient.delete(`${this.basePath}/${userId}`);
+  async getInvitationByToken(token: string): Promise<InvitationPreview> {
+    const response = await apiClient.get<InvitationPreview>(`${this.tokenPath}/${encodeURIComponent(token)}`);
+    return response.data;
   }
 
   /**
-   * Resend invitation to a pending user
-   * TODO: Connect to real API endpoint — POST /tenant/users/:userId/resend-invite
+   * Accept an invitation as the signed-in user, whose email must match it
    */
-  async resendInvite(userId: string): Promise<void> {
-    await apiClient.post(`${this.basePath}/${userId}/resend-invite`);
+  async acceptInvitation(token: string): Promise<AcceptInvitationResponse> {
+    const response = await apiClient.post<AcceptInvitationResponse>(
+      `${this.tokenPath}/${encodeURIComponent(token)}/accept`,
+      {}
+    );
+    return response.data;
   }
 }
 
-export const tenantUserService = new TenantUserService();
+export const tenantInvitationService = new TenantInvitationService();
 
 // ─── Store Management Service (Tenant Scope) ────────────────────────────────
 
@@ -183,7 +156,6 @@ class TenantStoreService {
 
   /**
    * List all stores under the tenant
-   * TODO: Connect to real API endpoint — GET /tenant/stores
    */
   async getStores(): Promise<TenantStore[]> {
     const response = await apiClient.get<TenantStore[]>(this.basePath);
@@ -191,29 +163,48 @@ class TenantStoreService {
   }
 
   /**
-   * Deactivate a store (reduces seat count)
-   * TODO: Connect to real API endpoint — POST /tenant/stores/:storeId/deactivate
+   * Deactivate (archive) a store; its terminals are signed out and the seat is released
    */
-  async deactivateStore(storeId: string): Promise<TenantStore> {
-    const response = await apiClient.post<TenantStore>(`${this.basePath}/${storeId}/deactivate`);
+  async deactivateStore(storeId: string, data: StoreLifecycleRequest = {}): Promise<TenantStore> {
+    const response = await apiClient.post<TenantStore>(`${this.basePath}/${storeId}/deactivate`, data);
     return response.data;
   }
 
   /**
-   * Activate a store (increases seat count)
-   * TODO: Connect to real API endpoint — POST /tenant/stores/:storeId/activate
+   * Reactivate an archived store (increases seat count)
    */
-  async activateStore(storeId: string): Promise<TenantStore> {
-    const response = await apiClient.post<TenantStore>(`${this.basePath}/${storeId}/activate`);
+  async activateStore(storeId: string, data: StoreLifecycleRequest = {}): Promise<TenantStore> {
+    const response = await apiClient.post<TenantStore>(`${this.basePath}/${storeId}/activate`, data);
     return response.data;
   }
 
   /**
-   * Delete a store permanently (decreases seat count)
-   * TODO: Connect to real API endpoint — DELETE /tenant/stores/:storeId
+   * Delete an archived store permanently (decreases seat count). apiClient sends
+   * DELETE without a body, so the confirmation goes in the query string.
    */
-  async deleteStore(storeId: string): Promise<void> {
-    await apiClient.delete(`${this.basePath}/${storeId}`);
+  async deleteStore(storeId: string, data: StoreLifecycleRequest): Promise<void> {
+    const params = new URLSearchParams();
+    Object.entries(data).forEach(([key, value]) => {
+      if (value) params.set(key, value);
+    });
+    const query = params.toString();
+    await apiClient.delete(`${this.basePath}/${storeId}${query ? `?${query}` : ''}`);
+  }
+
+  /**
+   * Start an export of all store data (catalog, sales, customers, settings)
+   */
+  async createExport(storeId: string): Promise<StoreDataExport> {
+    const response = await apiClient.post<StoreDataExport>(`${this.basePath}/${storeId}/exports`, {});
+    return response.data;
+  }
+
+  /**
+   * Poll an export until its download link is ready
+   */
+  async getExport(storeId: string, exportId: string): Promise<StoreDataExport> {
+    const response = await apiClient.get<StoreDataExport>(`${this.basePath}/${storeId}/exports/${exportId}`);
+    return response.data;
   }
 }
 
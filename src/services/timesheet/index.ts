@@ -0,0 +1,36 @@
+export { timesheetService, TimesheetService } from './timesheetService';
+export {
+  TIMESHEET_REASON_CATEGORY,
+  DEFAULT_OVERTIME_RULES,
+  buildTimeEntries,
+  applyAdjustments,
+  getEntryWorkedMinutes,
+  getEntryBreakMinutes,
+  getPayWeekStart,
+  calculateTimesheet,
+  getPayPeriodRange,
+  findPayPeriod,
+  isPayPeriodEditable,
+  minutesToHours,
+  buildPayrollCsv
+} from './timesheetUtils';
+export type {
+  PayPeriodFrequency,
+  PayPeriodStatus,
+  OvertimeRules,
+  UpdateOvertimeRulesRequest,
+  PayPeriod,
+  CreatePayPeriodRequest,
+  PayPeriodsResponse,
+  TimesheetAdjustmentAction,
+  TimesheetAdjustment,
+  CreateTimesheetAdjustmentRequest,
+  TimesheetAdjustmentQueryParams,
+  TimesheetAdjustmentsResponse,
+  TimeEntry,
+  TimesheetWarningType,
+  TimesheetWarning,
+  TimesheetDay,
+  TimesheetTotals,
+  Timesheet
+} from '../types/timesheet.types';
@@ -0,0 +1,212 @@
+// Timesheet service: overtime rules, pay periods and manager adjustments per store
+import { apiClient, ApiError } from '../api';
+import { userService } from '../user';
+import type { UserActivity } from '../types/user.types';
+import type {
+  OvertimeRules,
+  UpdateOvertimeRulesRequest,
+  PayPeriod,
+  CreatePayPeriodRequest,
+  PayPeriodsResponse,
+  TimesheetAdjustment,
+  CreateTimesheetAdjustmentRequest,
+  TimesheetAdjustmentQueryParams,
+  TimesheetAdjustmentsResponse
+} from '../types/timesheet.types';
+import { addDays } from '../schedule/scheduleUtils';
+import { DEFAULT_OVERTIME_RULES } from './timesheetUtils';
+
+const ACTIVITY_PAGE_LIMIT = 200;
+
+export class TimesheetService {
+  private basePath(storeId: string): string {
+    return `/v0/store/${storeId}/timesheet`;
+  }
+
+  /**
+   * Clock in and clock out activity for a person. The range is extended by a
+   * day on each side so entries that cross midnight at either end are paired.
+   */
+  async getPunches(userId: string, startDate: string, endDate: string): Promise<UserActivity[]> {
+    try {
+      const types = ['clock_in', 'clock_out'] as const;
+      const pages = await Promise.all(types.map(async activityType => {
+        const activities: UserActivity[] = [];
+        let page = 1;
+        let total = 0;
+        do {
+          const response = await userService.getUserActivity(userId, {
+            activity_type: activityType,
+            start_date: addDays(startDate, -1),
+            end_date: addDays(endDate, 1),
+            page,
+            limit: ACTIVITY_PAGE_LIMIT
+          });
+          activities.push(...response.activities);
+          total = response.total;
+          page += 1;
+          if (response.activities.length === 0) break;
+        } while (activities.length < total);
+        return activities;
+      }));
+      return pages.flat();
+    } catch (error) {
+      console.error('❌ Failed to fetch clock punches:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get the store's overtime rules, falling back to defaults when none are saved
+   */
+  async getOvertimeRules(storeId: string): Promise<OvertimeRules> {
+    try {
+      const response = await apiClient.get<OvertimeRules>(`${this.basePath(storeId)}/rules`);
+      return { ...DEFAULT_OVERTIME_RULES, ...response.data, store_id: storeId };
+    } catch (error) {
+      if (error instanceof ApiError && error.code === 404) {
+        return { ...DEFAULT_OVERTIME_RULES, store_id: storeId };
+      }
+      console.error('❌ Failed to fetch overtime rules:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Update the store's overtime rules
+   */
+  async updateOvertimeRules(storeId: string, data: UpdateOvertimeRulesRequest): Promise<OvertimeRules> {
+    try {
+      const response = await apiClient.put<OvertimeRules>(`${this.basePath(storeId)}/rules`, data);
+      console.log('✅ Overtime rules updated:', storeId);
+      return { ...DEFAULT_OVERTIME_RULES, ...response.data, store_id: storeId };
+    } catch (error) {
+      console.error('❌ Failed to update overtime rules:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get pay periods overlapping a date range
+   */
+  async getPayPeriods(storeId: string, params: { start_date?: string; end_date?: string } = {}): Promise<PayPeriod[]> {
+    try {
+      const response = await apiClient.get<PayPeriodsResponse>(`${this.basePath(storeId)}/pay-periods`, params);
+      return response.data.periods || [];
+    } catch (error) {
+      console.error('❌ Failed to fetch pay periods:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Open a pay period
+   */
+  async createPayPeriod(storeId: string, data: CreatePayPeriodRequest): Promise<PayPeriod> {
+    try {
+      const response = await apiClient.post<PayPeriod>(`${this.basePath(storeId)}/pay-periods`, data);
+      console.log('✅ Pay period created:', response.data.period_id);
+      return response.data;
+    } catch (error) {
+      console.error('❌ Failed to create pay period:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Approve a pay period's timesheets; approved periods no longer accept edits
+   */
+  async approvePayPeriod(storeId: string, periodId: string): Promise<PayPeriod> {
+    return this.transitionPayPeriod(storeId, periodId, 'approve');
+  }
+
+  /**
+   * Lock an approved pay period once payroll has been run
+   */
+  async lockPayPeriod(storeId: string, periodId: string): Promise<PayPeriod> {
+    return this.transitionPayPeriod(storeId, periodId, 'lock');
+  }
+
+  /**
+   * Reopen an approved (not locked) pay period for corrections
+   */
+  async reopenPayPeriod(storeId: string, periodId: string): Promise<PayPeriod> {
+    return this.transitionPayPeriod(storeId, periodId, 'reopen');
+  }
+
+  private async transitionPayPeriod(
+    storeId: string,
+    periodId: string,
+    action: 'approve' | 'lock' | 'reopen'
+  ): Promise<PayPeriod> {
+    try {
+      const response = await apiClient.post<PayPeriod>(`${this.basePath(storeId)}/pay-periods/${periodId}/${action}`, {});
+      console.log(`✅ Pay period ${action}:`, periodId);
+      return response.data;
+    } catch (error) {
+      console.error(`❌ Failed to ${action} pay period:`, error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get manager adjustments, usually for a pay period
+   */
+  async getAdjustments(storeId: string, params: TimesheetAdjustmentQueryParams = {}): Promise<TimesheetAdjustment[]> {
+    try {
+      const response = await apiClient.get<TimesheetAdjustmentsResponse>(`${this.basePath(storeId)}/adjustments`, params);
+      return response.data.adjustments || [];
+    } catch (error) {
+      console.error('❌ Failed to fetch timesheet adjustments:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Record a manager adjustment; the reason code is required
+   */
+  async createAdjustment(storeId: string, data: CreateTimesheetAdjustmentRequest): Promise<TimesheetAdjustment> {
+    try {
+      if (!data.reason_code) {
+        throw new ApiError('A reason code is required for timesheet edits', 400, 'REASON_CODE_REQUIRED');
+      }
+      const response = await apiClient.post<TimesheetAdjustment>(`${this.basePath(storeId)}/adjustments`, data);
+      console.log('✅ Timesheet adjustment recorded:', response.data.adjustment_id);
+      return response.data;
+    } catch (error) {
+      console.error('❌ Failed to record timesheet adjustment:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Remove a manager adjustment, restoring the punched time
+   */
+  async deleteAdjustment(storeId: string, adjustmentId: string): Promise<void> {
+    try {
+      await apiClient.delete(`${this.basePath(storeId)}/adjustments/${adjustmentId}`);
+      console.log('✅ Timesheet adjustment removed:', adjustmentId);
+    } catch (error) {
+      console.error('❌ Failed to remove timesheet adjustment:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Handle API errors
+   */
+  private handleError(error: unknown): ApiError {
+    if (error instanceof ApiError) {
+      return error;
+    }
+
+    return new ApiError(
+      error instanceof Error ? error.message : 'An unexpected error occurred while processing your request',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+}
+
+// Export a singleton instance
+export const timesheetService = new TimesheetService();
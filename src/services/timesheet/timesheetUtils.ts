@@ -0,0 +1,341 @@
+// Builds timesheets from clock punches, applies manager adjustments and overtime rules
+import { toCsv, type CsvValue } from '../../utils/csvUtils';
+import { addDays, parseDateKey, toDateKey, WEEK_DAYS, getUserDisplayName } from '../schedule/scheduleUtils';
+import type { StoreUser, UserActivity } from '../types/user.types';
+import type {
+  OvertimeRules,
+  PayPeriod,
+  TimeEntry,
+  Timesheet,
+  TimesheetAdjustment,
+  TimesheetDay,
+  TimesheetTotals,
+  TimesheetWarning
+} from '../types/timesheet.types';
+
+const MINUTE_MS = 60000;
+
+export const TIMESHEET_REASON_CATEGORY = 'TIMESHEET_EDIT';
+
+export const DEFAULT_OVERTIME_RULES: Omit<OvertimeRules, 'store_id'> = {
+  daily_overtime_hours: null,
+  daily_double_time_hours: null,
+  weekly_overtime_hours: 40,
+  overtime_multiplier: 1.5,
+  double_time_multiplier: 2,
+  auto_break_after_hours: 6,
+  auto_break_minutes: 30,
+  pay_period_frequency: 'weekly',
+  week_start_day: 'monday',
+  pay_period_anchor: '2024-01-01'
+};
+
+// ── Entries ──────────────────────────────────────────────────────────────────
+
+const byTime = (a: string, b: string) => new Date(a).getTime() - new Date(b).getTime();
+
+const localDate = (timestamp: string) => toDateKey(new Date(timestamp));
+
+/**
+ * Pair clock_in/clock_out activity into time entries. A clock in without a
+ * later clock out stays open; a clock out without a clock in is reported.
+ * Break minutes may be recorded on the clock out's metadata.
+ */
+export function buildTimeEntries(activities: UserActivity[]): { entries: TimeEntry[]; warnings: TimesheetWarning[] } {
+  const entries: TimeEntry[] = [];
+  const warnings: TimesheetWarning[] = [];
+  let open: TimeEntry | null = null;
+
+  const punches = activities
+    .filter(activity => activity.activity_type === 'clock_in' || activity.activity_type === 'clock_out')
+    .sort((a, b) => byTime(a.timestamp, b.timestamp));
+
+  punches.forEach(punch => {
+    if (punch.activity_type === 'clock_in') {
+      if (open) entries.push(open);
+      open = {
+        entry_id: punch.activity_id,
+        user_id: punch.user_id,
+        date: localDate(punch.timestamp),
+        clock_in: punch.timestamp,
+        clock_out: null,
+        break_minutes: 0,
+        source: 'punch'
+      };
+      return;
+    }
+
+    if (!open) {
+      warnings.push({
+        type: 'missing_clock_in',
+        date: localDate(punch.timestamp),
+        message: `Clock out at ${new Date(punch.timestamp).toLocaleTimeString()} has no matching clock in`
+      });
+      return;
+    }
+
+    open.clock_out = punch.timestamp;
+    open.break_minutes = Math.max(0, Number(punch.metadata?.break_minutes) || 0);
+    entries.push(open);
+    open = null;
+  });
+
+  if (open) entries.push(open);
+  return { entries, warnings };
+}
+
+/**
+ * Layer manager adjustments over punched entries, oldest first
+ */
+export function applyAdjustments(entries: TimeEntry[], adjustments: TimesheetAdjustment[]): TimeEntry[] {
+  const result = entries.map(entry => ({ ...entry }));
+
+  [...adjustments].sort((a, b) => byTime(a.created_at, b.created_at)).forEach(adjustment => {
+    if (adjustment.action === 'add') {
+      if (!adjustment.clock_in) return;
+      result.push({
+        entry_id: adjustment.adjustment_id,
+        user_id: adjustment.user_id,
+        date: localDate(adjustment.clock_in),
+        clock_in: adjustment.clock_in,
+        clock_out: adjustment.clock_out ?? null,
+        break_minutes: adjustment.break_minutes ?? 0,
+        source: 'manual',
+        adjustment
+      });
+      return;
+    }
+
+    const index = result.findIndex(entry => entry.entry_id === adjustment.entry_id);
+    if (index === -1) return;
+
+    if (adjustment.action === 'delete') {
+      result.splice(index, 1);
+      return;
+    }
+
+    const entry = result[index];
+    const clockIn = adjustment.clock_in ?? entry.clock_in;
+    result[index] = {
+      ...entry,
+      date: localDate(clockIn),
+      clock_in: clockIn,
+      clock_out: adjustment.clock_out ?? entry.clock_out,
+      break_minutes: adjustment.break_minutes ?? entry.break_minutes,
+      adjustment
+    };
+  });
+
+  return result.sort((a, b) => byTime(a.clock_in, b.clock_in));
+}
+
+/** Minutes between clock in and clock out; zero while still clocked in */
+export function getEntryWorkedMinutes(entry: Pick<TimeEntry, 'clock_in' | 'clock_out'>): number {
+  if (!entry.clock_out) return 0;
+  return Math.max(0, Math.round((new Date(entry.clock_out).getTime() - new Date(entry.clock_in).getTime()) / MINUTE_MS));
+}
+
+/**
+ * Unpaid break for an entry: the recorded break, raised to the automatic
+ * deduction when the entry is long enough to require one
+ */
+export function getEntryBreakMinutes(
+  entry: Pick<TimeEntry, 'clock_in' | 'clock_out' | 'break_minutes'>,
+  rules: Pick<OvertimeRules, 'auto_break_after_hours' | 'auto_break_minutes'>
+): number {
+  const worked = getEntryWorkedMinutes(entry);
+  let breakMinutes = entry.break_minutes;
+  if (rules.auto_break_after_hours !== null && worked > rules.auto_break_after_hours * 60) {
+    breakMinutes = Math.max(breakMinutes, rules.auto_break_minutes);
+  }
+  return Math.min(worked, breakMinutes);
+}
+
+// ── Timesheets ───────────────────────────────────────────────────────────────
+
+const emptyTotals = (): TimesheetTotals => ({
+  worked_minutes: 0,
+  break_minutes: 0,
+  paid_minutes: 0,
+  regular_minutes: 0,
+  overtime_minutes: 0,
+  double_time_minutes: 0
+});
+
+const getDateRange = (startDate: string, endDate: string): string[] => {
+  const dates: string[] = [];
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) dates.push(date);
+  return dates;
+};
+
+/** Start of the pay week containing the date */
+export function getPayWeekStart(dateKey: string, weekStartDay: OvertimeRules['week_start_day']): string {
+  const offset = (parseDateKey(dateKey).getDay() + 6) % 7; // Monday = 0
+  const startOffset = WEEK_DAYS.indexOf(weekStartDay);
+  return addDays(dateKey, -((offset - startOffset + 7) % 7));
+}
+
+/**
+ * Build a timesheet for one person over a date range. Daily overtime and
+ * double time apply first; regular hours beyond the weekly threshold then
+ * become overtime in date order. Weeks follow week_start_day, so a range
+ * that starts mid-week only counts the days inside it.
+ */
+export function calculateTimesheet(
+  userId: string,
+  entries: TimeEntry[],
+  rules: Omit<OvertimeRules, 'store_id'>,
+  startDate: string,
+  endDate: string,
+  punchWarnings: TimesheetWarning[] = []
+): Timesheet {
+  const warnings: TimesheetWarning[] = punchWarnings.filter(warning => warning.date >= startDate && warning.date <= endDate);
+  const inRange = entries.filter(entry => entry.user_id === userId && entry.date >= startDate && entry.date <= endDate);
+
+  inRange.forEach((entry, index) => {
+    if (!entry.clock_out) {
+      warnings.push({
+        type: 'missing_clock_out',
+        date: entry.date,
+        entry_id: entry.entry_id,
+        message: `No clock out after ${new Date(entry.clock_in).toLocaleTimeString()}`
+      });
+    }
+    const next = inRange[index + 1];
+    if (next && entry.clock_out && byTime(next.clock_in, entry.clock_out) < 0) {
+      warnings.push({
+        type: 'overlap',
+        date: next.date,
+        entry_id: next.entry_id,
+        message: 'Overlaps the previous entry'
+      });
+    }
+  });
+
+  const weeklyRegular = new Map<string, number>();
+
+  const days: TimesheetDay[] = getDateRange(startDate, endDate).map(date => {
+    const dayEntries = inRange.filter(entry => entry.date === date);
+    const worked = dayEntries.reduce((total, entry) => total + getEntryWorkedMinutes(entry), 0);
+    const breaks = dayEntries.reduce((total, entry) => total + getEntryBreakMinutes(entry, rules), 0);
+    const paid = worked - breaks;
+
+    const doubleTime = rules.daily_double_time_hours !== null
+      ? Math.max(0, paid - rules.daily_double_time_hours * 60)
+      : 0;
+    let overtime = rules.daily_overtime_hours !== null
+      ? Math.max(0, paid - doubleTime - rules.daily_overtime_hours * 60)
+      : 0;
+    let regular = paid - doubleTime - overtime;
+
+    if (rules.weekly_overtime_hours !== null) {
+      const week = getPayWeekStart(date, rules.week_start_day);
+      const before = weeklyRegular.get(week) || 0;
+      const allowed = Math.max(0, rules.weekly_overtime_hours * 60 - before);
+      const weeklyOvertime = Math.max(0, regular - allowed);
+      regular -= weeklyOvertime;
+      overtime += weeklyOvertime;
+      weeklyRegular.set(week, before + regular);
+    }
+
+    return {
+      date,
+      entries: dayEntries,
+      worked_minutes: worked,
+      break_minutes: breaks,
+      paid_minutes: paid,
+      regular_minutes: regular,
+      overtime_minutes: overtime,
+      double_time_minutes: doubleTime
+    };
+  });
+
+  const totals = days.reduce((sum, day) => ({
+    worked_minutes: sum.worked_minutes + day.worked_minutes,
+    break_minutes: sum.break_minutes + day.break_minutes,
+    paid_minutes: sum.paid_minutes + day.paid_minutes,
+    regular_minutes: sum.regular_minutes + day.regular_minutes,
+    overtime_minutes: sum.overtime_minutes + day.overtime_minutes,
+    double_time_minutes: sum.double_time_minutes + day.double_time_minutes
+  }), emptyTotals());
+
+  return { user_id: userId, start_date: startDate, end_date: endDate, days, totals, warnings };
+}
+
+// ── Pay periods ──────────────────────────────────────────────────────────────
+
+/**
+ * Pay period bounds containing a date. Weekly periods follow week_start_day;
+ * biweekly periods count fortnights from pay_period_anchor.
+ */
+export function getPayPeriodRange(
+  dateKey: string,
+  rules: Pick<OvertimeRules, 'pay_period_frequency' | 'week_start_day' | 'pay_period_anchor'>
+): { start_date: string; end_date: string } {
+  if (rules.pay_period_frequency === 'weekly') {
+    const start = getPayWeekStart(dateKey, rules.week_start_day);
+    return { start_date: start, end_date: addDays(start, 6) };
+  }
+
+  const days = Math.round((parseDateKey(dateKey).getTime() - parseDateKey(rules.pay_period_anchor).getTime()) / 86400000);
+  const start = addDays(rules.pay_period_anchor, Math.floor(days / 14) * 14);
+  return { start_date: start, end_date: addDays(start, 13) };
+}
+
+export function findPayPeriod(periods: PayPeriod[], dateKey: string): PayPeriod | undefined {
+  return periods.find(period => period.start_date <= dateKey && period.end_date >= dateKey);
+}
+
+/** Approved and locked periods can't be edited; unknown periods are open */
+export function isPayPeriodEditable(period: PayPeriod | undefined | null): boolean {
+  return !period || period.status === 'open';
+}
+
+// ── Export ───────────────────────────────────────────────────────────────────
+
+export const minutesToHours = (minutes: number): number => Math.round((minutes / 60) * 100) / 100;
+
+/**
+ * Payroll export for a pay period: one row per person with regular, overtime
+ * and double time hours, plus the overtime-weighted total
+ */
+export function buildPayrollCsv(
+  timesheets: Timesheet[],
+  users: StoreUser[],
+  rules: Pick<OvertimeRules, 'overtime_multiplier' | 'double_time_multiplier'>,
+  adjustments: TimesheetAdjustment[] = []
+): string {
+  const headers = [
+    'employee_id', 'user_id', 'name', 'period_start', 'period_end',
+    'regular_hours', 'overtime_hours', 'double_time_hours', 'paid_hours', 'break_hours',
+    'weighted_hours', 'adjustments', 'warnings'
+  ];
+
+  const usersById = new Map(users.map(user => [user.user_id, user]));
+
+  const rows: CsvValue[][] = timesheets.map(timesheet => {
+    const user = usersById.get(timesheet.user_id);
+    const { totals } = timesheet;
+    const weighted = totals.regular_minutes
+      + totals.overtime_minutes * rules.overtime_multiplier
+      + totals.double_time_minutes * rules.double_time_multiplier;
+
+    return [
+      user?.employee_id || '',
+      timesheet.user_id,
+      user ? getUserDisplayName(user) : '',
+      timesheet.start_date,
+      timesheet.end_date,
+      minutesToHours(totals.regular_minutes).toFixed(2),
+      minutesToHours(totals.overtime_minutes).toFixed(2),
+      minutesToHours(totals.double_time_minutes).toFixed(2),
+      minutesToHours(totals.paid_minutes).toFixed(2),
+      minutesToHours(totals.break_minutes).toFixed(2),
+      minutesToHours(weighted).toFixed(2),
+      adjustments.filter(adjustment => adjustment.user_id === timesheet.user_id).length,
+      timesheet.warnings.map(warning => `${warning.date}: ${warning.message}`).join('; ')
+    ];
+  });
+
+  return toCsv(headers, rows);
+}
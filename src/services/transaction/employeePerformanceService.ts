@@ -0,0 +1,399 @@
+import type { StoreUser, UserTimeTracking } from '../types/user.types';
+import {
+  fetchAllTransactionSummaries,
+  fetchTransactionDetails,
+  type TransactionDetailProgress
+} from './transactionExportService';
+import type {
+  PriceModReasonCode,
+  TransactionDetail,
+  TransactionLineItem,
+  TransactionSummary
+} from './transactionService';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface PerformancePeriod {
+  start_date: string; // YYYY-MM-DD
+  end_date: string; // YYYY-MM-DD, inclusive
+}
+
+export interface EmployeePerformanceMetrics {
+  /** Associate ID as recorded on the transaction */
+  associate_id: string;
+  currency: string;
+  net_sales: number; // ScaledInt
+  transaction_count: number;
+  voided_transaction_count: number;
+  average_ticket: number; // ScaledInt
+  item_count: number;
+  items_per_transaction: number;
+  discount_total: number; // ScaledInt
+  /** Line level figures are only known for transactions whose detail was loaded */
+  detail_count: number;
+  line_count: number;
+  void_line_count: number;
+  return_line_count: number;
+  override_count: number;
+  /** Shares of loaded line items, 0..1; null when no detail was loaded */
+  void_rate: number | null;
+  return_rate: number | null;
+  override_rate: number | null;
+  /** Null when no time tracking was loaded for the associate */
+  labor_hours: number | null;
+  sales_per_labor_hour: number | null; // ScaledInt
+}
+
+export type PerformanceMetricKey =
+  | 'net_sales'
+  | 'transaction_count'
+  | 'average_ticket'
+  | 'items_per_transaction'
+  | 'void_rate'
+  | 'return_rate'
+  | 'override_rate'
+  | 'discount_total'
+  | 'sales_per_labor_hour';
+
+export interface PerformanceMetricChange {
+  current: number | null;
+  previous: number | null;
+  /** Relative change, null when there is nothing to compare against */
+  change: number | null;
+}
+
+export type PerformanceComparison = Record<PerformanceMetricKey, PerformanceMetricChange>;
+
+export interface LeaderboardEntry {
+  rank: number;
+  metrics: EmployeePerformanceMetrics;
+  value: number | null;
+}
+
+export interface PerformanceLoadOptions {
+  /** Load transaction details for void, return and override rates (one request per transaction) */
+  includeDetails?: boolean;
+  /** Upper bound on detail requests; the most recent transactions are used */
+  maxDetails?: number;
+  onProgress?: (progress: TransactionDetailProgress) => void;
+}
+
+export interface StorePerformance {
+  period: PerformancePeriod;
+  employees: EmployeePerformanceMetrics[];
+  transaction_count: number;
+  detail_count: number;
+}
+
+/** Metrics where a lower value is better */
+export const LOWER_IS_BETTER: ReadonlySet<PerformanceMetricKey> = new Set<PerformanceMetricKey>([
+  'void_rate',
+  'return_rate',
+  'override_rate',
+  'discount_total'
+]);
+
+export const PERFORMANCE_METRIC_KEYS: PerformanceMetricKey[] = [
+  'net_sales',
+  'transaction_count',
+  'average_ticket',
+  'items_per_transaction',
+  'void_rate',
+  'return_rate',
+  'override_rate',
+  'discount_total',
+  'sales_per_labor_hour'
+];
+
+const DEFAULT_MAX_DETAILS = 500;
+
+const OVERRIDE_REASONS: ReadonlySet<PriceModReasonCode> = new Set<PriceModReasonCode>([
+  'PRICE_OVERRIDE',
+  'PROMPT_PRICE_CHANGE'
+]);
+
+const UNKNOWN_ASSOCIATE = 'unknown';
+
+// =============================================================================
+// ATTRIBUTION
+// =============================================================================
+
+/**
+ * The associate credited with a transaction: the first listed associate,
+ * falling back to whoever created it
+ */
+export function getTransactionAssociate(transaction: Pick<TransactionSummary, 'associates' | 'created_by'>): string {
+  return transaction.associates?.[0] || transaction.created_by || UNKNOWN_ASSOCIATE;
+}
+
+/**
+ * Associates may be recorded by user ID or by employee number
+ */
+export function findAssociateUser(associateId: string, users: StoreUser[]): StoreUser | undefined {
+  return users.find(user => user.user_id === associateId || (user.employee_id && user.employee_id === associateId));
+}
+
+// Only completed sales count towards sales figures
+const isCountedSale = (summary: TransactionSummary): boolean =>
+  summary.status === 'COMPLETED' && !summary.is_void;
+
+const isOverrideLine = (line: TransactionLineItem): boolean =>
+  line.modifiers.some(modifier => !modifier.is_void && OVERRIDE_REASONS.has(modifier.reason));
+
+// =============================================================================
+// AGGREGATION
+// =============================================================================
+
+const emptyMetrics = (associateId: string, currency: string): EmployeePerformanceMetrics => ({
+  associate_id: associateId,
+  currency,
+  net_sales: 0,
+  transaction_count: 0,
+  voided_transaction_count: 0,
+  average_ticket: 0,
+  item_count: 0,
+  items_per_transaction: 0,
+  discount_total: 0,
+  detail_count: 0,
+  line_count: 0,
+  void_line_count: 0,
+  return_line_count: 0,
+  override_count: 0,
+  void_rate: null,
+  return_rate: null,
+  override_rate: null,
+  labor_hours: null,
+  sales_per_labor_hour: null
+});
+
+const ratio = (part: number, whole: number): number => (whole > 0 ? part / whole : 0);
+
+const lineRate = (part: number, lines: number): number | null => (lines > 0 ? part / lines : null);
+
+/**
+ * Fill in averages and rates from the raw counts
+ */
+function finalizeMetrics(metrics: EmployeePerformanceMetrics): EmployeePerformanceMetrics {
+  return {
+    ...metrics,
+    average_ticket: Math.round(ratio(metrics.net_sales, metrics.transaction_count)),
+    items_per_transaction: ratio(metrics.item_count, metrics.transaction_count),
+    void_rate: lineRate(metrics.void_line_count, metrics.line_count),
+    return_rate: lineRate(metrics.return_line_count, metrics.line_count),
+    override_rate: lineRate(metrics.override_count, metrics.line_count),
+    sales_per_labor_hour: metrics.labor_hours
+      ? Math.round(metrics.net_sales / metrics.labor_hours)
+      : null
+  };
+}
+
+/**
+ * Aggregate per-associate metrics from transaction summaries. Sales figures
+ * come from the summaries; void, return and override counts come from the
+ * line items of whichever details are supplied, keyed by trans_id.
+ */
+export function aggregateEmployeePerformance(
+  summaries: TransactionSummary[],
+  detailsByTransId: Map<string, TransactionDetail> = new Map()
+): EmployeePerformanceMetrics[] {
+  const byAssociate = new Map<string, EmployeePerformanceMetrics>();
+
+  const getMetrics = (associateId: string, currency: string) => {
+    let metrics = byAssociate.get(associateId);
+    if (!metrics) {
+      metrics = emptyMetrics(associateId, currency);
+      byAssociate.set(associateId, metrics);
+    }
+    return metrics;
+  };
+
+  summaries.forEach(summary => {
+    const metrics = getMetrics(getTransactionAssociate(summary), summary.currency);
+
+    if (summary.is_void) {
+      metrics.voided_transaction_count += 1;
+    }
+
+    if (isCountedSale(summary)) {
+      metrics.transaction_count += 1;
+      metrics.net_sales += summary.sub_total;
+      metrics.item_count += summary.item_count;
+      metrics.discount_total += summary.disc_amt || 0;
+    }
+
+    const detail = detailsByTransId.get(summary.trans_id);
+    if (!detail) return;
+
+    metrics.detail_count += 1;
+    detail.line_items.forEach(line => {
+      metrics.line_count += 1;
+      if (line.is_void) {
+        metrics.void_line_count += 1;
+        return;
+      }
+      if (line.is_return || line.line_type === 'RETURN') metrics.return_line_count += 1;
+      if (isOverrideLine(line)) metrics.override_count += 1;
+    });
+  });
+
+  return Array.from(byAssociate.values()).map(finalizeMetrics);
+}
+
+// =============================================================================
+// LABOR
+// =============================================================================
+
+const toTime = (value: string): number => new Date(value).getTime();
+
+/**
+ * Worked hours from time tracking records. Uses the recorded total when
+ * available, otherwise clock in to clock out (or now, while still clocked in)
+ * minus breaks (break_duration is in minutes).
+ */
+export function calculateLaborHours(records: UserTimeTracking[], now: Date = new Date()): number {
+  return records.reduce((total, record) => {
+    if (record.total_hours !== undefined && record.total_hours !== null) {
+      return total + record.total_hours;
+    }
+
+    const end = record.clock_out_time ? toTime(record.clock_out_time) : now.getTime();
+    const worked = (end - toTime(record.clock_in_time)) / 3600000 - (record.break_duration || 0) / 60;
+    return total + Math.max(0, worked);
+  }, 0);
+}
+
+/**
+ * Attach worked hours to the matching associates and derive sales per labor hour
+ */
+export function applyLaborHours(
+  metrics: EmployeePerformanceMetrics[],
+  laborHours: Map<string, number>
+): EmployeePerformanceMetrics[] {
+  return metrics.map(item => finalizeMetrics({
+    ...item,
+    labor_hours: laborHours.get(item.associate_id) ?? item.labor_hours
+  }));
+}
+
+// =============================================================================
+// COMPARISON & RANKING
+// =============================================================================
+
+const toDate = (dateKey: string): Date => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * The period of the same length ending the day before the given one
+ */
+export function getPreviousPeriod(period: PerformancePeriod): PerformancePeriod {
+  const start = toDate(period.start_date);
+  const end = toDate(period.end_date);
+  const days = Math.round((end.getTime() - start.getTime()) / 86400000) + 1;
+
+  const previousEnd = new Date(start);
+  previousEnd.setDate(previousEnd.getDate() - 1);
+  const previousStart = new Date(previousEnd);
+  previousStart.setDate(previousStart.getDate() - (days - 1));
+
+  return { start_date: toDateKey(previousStart), end_date: toDateKey(previousEnd) };
+}
+
+export function getMetricValue(metrics: EmployeePerformanceMetrics, key: PerformanceMetricKey): number | null {
+  return metrics[key];
+}
+
+/**
+ * Change of every metric between two periods. A missing side means the
+ * associate had no activity in that period.
+ */
+export function comparePerformance(
+  current: EmployeePerformanceMetrics | null | undefined,
+  previous: EmployeePerformanceMetrics | null | undefined
+): PerformanceComparison {
+  const comparison = {} as PerformanceComparison;
+
+  PERFORMANCE_METRIC_KEYS.forEach(key => {
+    const currentValue = current ? getMetricValue(current, key) : null;
+    const previousValue = previous ? getMetricValue(previous, key) : null;
+    const change = currentValue !== null && previousValue !== null && previousValue !== 0
+      ? (currentValue - previousValue) / Math.abs(previousValue)
+      : null;
+    comparison[key] = { current: currentValue, previous: previousValue, change };
+  });
+
+  return comparison;
+}
+
+/**
+ * Rank associates by a metric. Associates without a value (no labor hours,
+ * or no loaded details for the line rates) go last; ties share a rank.
+ */
+export function buildLeaderboard(
+  metrics: EmployeePerformanceMetrics[],
+  key: PerformanceMetricKey
+): LeaderboardEntry[] {
+  const direction = LOWER_IS_BETTER.has(key) ? 1 : -1;
+  const sorted = [...metrics].sort((a, b) => {
+    const aValue = getMetricValue(a, key);
+    const bValue = getMetricValue(b, key);
+    if (aValue === null && bValue === null) return b.net_sales - a.net_sales;
+    if (aValue === null) return 1;
+    if (bValue === null) return -1;
+    return (aValue - bValue) * direction || b.net_sales - a.net_sales;
+  });
+
+  const entries: LeaderboardEntry[] = [];
+  sorted.forEach((item, index) => {
+    const value = getMetricValue(item, key);
+    const previous = entries[index - 1];
+    const rank = previous && value !== null && previous.value === value ? previous.rank : index + 1;
+    entries.push({ rank, metrics: item, value });
+  });
+  return entries;
+}
+
+// =============================================================================
+// LOADING
+// =============================================================================
+
+/**
+ * Load every transaction in the period and aggregate per-associate metrics.
+ * Details are loaded for the most recent transactions up to maxDetails.
+ */
+export async function loadStorePerformance(
+  storeId: string,
+  period: PerformancePeriod,
+  options: PerformanceLoadOptions = {}
+): Promise<StorePerformance> {
+  const { includeDetails = true, maxDetails = DEFAULT_MAX_DETAILS, onProgress } = options;
+
+  const summaries = await fetchAllTransactionSummaries(storeId, {
+    start_date: period.start_date,
+    end_date: period.end_date
+  });
+
+  const detailsByTransId = new Map<string, TransactionDetail>();
+  if (includeDetails && summaries.length > 0) {
+    const transIds = [...summaries]
+      .sort((a, b) => b.begin_time.localeCompare(a.begin_time))
+      .slice(0, maxDetails)
+      .map(summary => summary.trans_id);
+    // Details come back in request order
+    const details = await fetchTransactionDetails(storeId, transIds, onProgress);
+    details.forEach((detail, index) => detailsByTransId.set(transIds[index], detail));
+  }
+
+  return {
+    period,
+    employees: aggregateEmployeePerformance(summaries, detailsByTransId),
+    transaction_count: summaries.length,
+    detail_count: detailsByTransId.size
+  };
+}
@@ -35,3 +35,48 @@ export type {
   TransactionDiscountLineItem,
   TransactionAdditionalLineItemModifier
 } from './transactionService';
+
+// Export transaction exports and accounting journal
+export {
+  DEFAULT_JOURNAL_ACCOUNTS,
+  fetchAllTransactionSummaries,
+  fetchTransactionDetails,
+  buildTransactionSummaryCsv,
+  buildLineItemCsv,
+  buildDailyJournal,
+  buildJournalCsv
+} from './transactionExportService';
+
+export type {
+  JournalAccounts,
+  JournalLine,
+  JournalEntry,
+  TransactionDetailProgress
+} from './transactionExportService';
+
+// Export employee performance analytics
+export {
+  LOWER_IS_BETTER,
+  PERFORMANCE_METRIC_KEYS,
+  getTransactionAssociate,
+  findAssociateUser,
+  aggregateEmployeePerformance,
+  calculateLaborHours,
+  applyLaborHours,
+  getPreviousPeriod,
+  getMetricValue,
+  comparePerformance,
+  buildLeaderboard,
+  loadStorePerformance
+} from './employeePerformanceService';
+
+export type {
+  PerformancePeriod,
+  EmployeePerformanceMetrics,
+  PerformanceMetricKey,
+  PerformanceMetricChange,
+  PerformanceComparison,
+  LeaderboardEntry,
+  PerformanceLoadOptions,
+  StorePerformance
+} from './employeePerformanceService';
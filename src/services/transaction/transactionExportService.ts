@@ -0,0 +1,362 @@
+import { toCsv, type CsvValue } from '../../utils/csvUtils';
+import {
+  transactionService,
+  formatScaledInt,
+  type PriceModReasonCode,
+  type TransactionDetail,
+  type TransactionQueryParams,
+  type TransactionSummary
+} from './transactionService';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface JournalAccounts {
+  sales: string;
+  returns: string;
+  discounts: string;
+  /** Suffixed with the tax authority */
+  taxPayable: string;
+  /** Suffixed with the tender */
+  tenderClearing: string;
+  /** Absorbs rounding and any difference between tenders and the computed sale */
+  overShort: string;
+}
+
+export interface JournalLine {
+  account: string;
+  description: string;
+  debit: number; // ScaledInt
+  credit: number; // ScaledInt
+}
+
+export interface JournalEntry {
+  biz_date: string;
+  currency: string;
+  transaction_count: number;
+  lines: JournalLine[];
+  total_debit: number; // ScaledInt
+  total_credit: number; // ScaledInt
+}
+
+export interface TransactionDetailProgress {
+  loaded: number;
+  total: number;
+}
+
+export const DEFAULT_JOURNAL_ACCOUNTS: JournalAccounts = {
+  sales: '4000 Sales',
+  returns: '4100 Sales Returns',
+  discounts: '4200 Sales Discounts',
+  taxPayable: '2200 Sales Tax Payable',
+  tenderClearing: '1100 Tender Clearing',
+  overShort: '6900 Cash Over/Short',
+};
+
+// =============================================================================
+// FETCHING
+// =============================================================================
+
+/**
+ * Follow the summary cursor until every page for the query has been loaded
+ */
+export async function fetchAllTransactionSummaries(
+  storeId: string,
+  params: TransactionQueryParams,
+  startCursor?: string | null
+): Promise<TransactionSummary[]> {
+  const summaries: TransactionSummary[] = [];
+  let cursor = startCursor || undefined;
+
+  do {
+    const response = await transactionService.getTransactionSummary(storeId, { ...params, cursor });
+    summaries.push(...response.datalist);
+    cursor = response.next || undefined;
+  } while (cursor);
+
+  return summaries;
+}
+
+/**
+ * Load transaction details a few at a time to keep the API load bounded
+ */
+export async function fetchTransactionDetails(
+  storeId: string,
+  transIds: string[],
+  onProgress?: (progress: TransactionDetailProgress) => void,
+  concurrency: number = 5
+): Promise<TransactionDetail[]> {
+  const details: TransactionDetail[] = [];
+
+  for (let start = 0; start < transIds.length; start += concurrency) {
+    const batch = transIds.slice(start, start + concurrency);
+    const results = await Promise.all(batch.map(transId => transactionService.getTransactionDetail(storeId, transId)));
+    details.push(...results);
+    onProgress?.({ loaded: details.length, total: transIds.length });
+  }
+
+  return details;
+}
+
+// =============================================================================
+// CSV EXPORTS
+// =============================================================================
+
+const amount = (value: number | null | undefined): string => formatScaledInt(value ?? 0, 2);
+
+/**
+ * One row per transaction summary
+ */
+export function buildTransactionSummaryCsv(summaries: TransactionSummary[]): string {
+  const headers = [
+    'trans_id', 'biz_date', 'begin_time', 'terminal_id', 'trans_seq', 'status', 'is_void',
+    'currency', 'item_count', 'sub_total', 'disc_amt', 'tax_total', 'total', 'tenders', 'associates'
+  ];
+
+  const rows: CsvValue[][] = summaries.map(summary => [
+    summary.trans_id,
+    summary.biz_date,
+    summary.begin_time,
+    summary.terminal_id,
+    summary.trans_seq,
+    summary.status,
+    summary.is_void,
+    summary.currency,
+    summary.item_count,
+    amount(summary.sub_total),
+    amount(summary.disc_amt),
+    amount(summary.tax_total),
+    amount(summary.total),
+    summary.tenders.map(tender => `${tender.tender}:${amount(tender.amount)}`).join('|'),
+    summary.associates.join('|'),
+  ]);
+
+  return toCsv(headers, rows);
+}
+
+/**
+ * One row per line item, with the line's discounts and taxes rolled up
+ */
+export function buildLineItemCsv(details: TransactionDetail[]): string {
+  const headers = [
+    'biz_date', 'store_id', 'terminal_id', 'trans_seq', 'trans_status', 'trans_void', 'customer_id',
+    'line_seq', 'line_type', 'item_id', 'item_desc', 'category', 'is_void', 'qty', 'unit_price',
+    'ext_amt', 'discount_amt', 'net_amt', 'tax_amt', 'tax_group_id', 'return_reason', 'currency'
+  ];
+
+  const rows: CsvValue[][] = details.flatMap(detail =>
+    detail.line_items.map(line => [
+      detail.biz_date,
+      detail.store_id,
+      detail.terminal_id,
+      detail.trans_seq,
+      detail.status,
+      detail.is_void,
+      detail.customer_id,
+      line.seq,
+      line.line_type,
+      line.item_id,
+      line.entered_desc || line.item_desc,
+      line.category,
+      line.is_void,
+      formatScaledInt(line.qty, 3),
+      amount(line.unit_price),
+      amount(line.ext_amt),
+      amount(getLineDiscount(line, true)),
+      amount(line.net_amt),
+      amount(line.taxes.reduce((sum, tax) => sum + tax.tax_amt, 0)),
+      line.tax_group_id,
+      line.return_reason,
+      detail.currency,
+    ])
+  );
+
+  return toCsv(headers, rows);
+}
+
+// =============================================================================
+// ACCOUNTING JOURNAL
+// =============================================================================
+
+type LineItem = TransactionDetail['line_items'][number];
+
+// Modifiers that always reduce the price
+const DISCOUNT_REASONS = new Set<PriceModReasonCode>(['LINE_ITEM_DISCOUNT', 'GROUP_DISCOUNT', 'DEAL', 'MANUFACTURER_COUPON']);
+// Manual price changes: a negative change_amt lowers the price, a positive one raises it
+const PRICE_CHANGE_REASONS = new Set<PriceModReasonCode>(['PRICE_OVERRIDE', 'PROMPT_PRICE_CHANGE']);
+
+/**
+ * Discount on a line: discount modifiers plus price changes that lowered the
+ * price. Transaction discounts are spread over lines as TRANSACTION_DISCOUNT
+ * modifiers; they count only with includeTransactionShare, since the journal
+ * posts them once from the transaction's own discounts.
+ */
+function getLineDiscount(line: LineItem, includeTransactionShare = false): number {
+  return line.modifiers
+    .filter(modifier => !modifier.is_void)
+    .reduce((sum, modifier) => {
+      if (DISCOUNT_REASONS.has(modifier.reason) || (includeTransactionShare && modifier.reason === 'TRANSACTION_DISCOUNT')) {
+        return sum + Math.abs(modifier.change_amt);
+      }
+      if (PRICE_CHANGE_REASONS.has(modifier.reason) && modifier.change_amt < 0) {
+        return sum - modifier.change_amt;
+      }
+      return sum;
+    }, 0);
+}
+
+/**
+ * Price changes that raised a line's price above its extended amount
+ */
+function getLinePriceIncrease(line: LineItem): number {
+  return line.modifiers
+    .filter(modifier => !modifier.is_void && PRICE_CHANGE_REASONS.has(modifier.reason) && modifier.change_amt > 0)
+    .reduce((sum, modifier) => sum + modifier.change_amt, 0);
+}
+
+/**
+ * Posting amounts for a single date/currency, keyed by account.
+ * Positive values are debits, negative values credits.
+ */
+class JournalAccumulator {
+  readonly balances = new Map<string, { description: string; amount: number }>();
+  transactionCount = 0;
+
+  post(account: string, description: string, value: number) {
+    if (value === 0) return;
+    const existing = this.balances.get(account);
+    if (existing) {
+      existing.amount += value;
+    } else {
+      this.balances.set(account, { description, amount: value });
+    }
+  }
+}
+
+/**
+ * Roll completed transactions into one balanced double-entry journal per
+ * business date (and currency). Sales and returns post at their extended
+ * amount before discounts (plus any manual price increase); line discounts
+ * and markdowns post separately, and transaction discounts once per transaction;
+ * taxes post to a payable account per authority and tenders to a clearing
+ * account per tender. Whatever remains between tenders and the computed sale
+ * (rounding, mis-keyed tenders) lands in the over/short account so every
+ * entry balances.
+ */
+export function buildDailyJournal(
+  details: TransactionDetail[],
+  accounts: JournalAccounts = DEFAULT_JOURNAL_ACCOUNTS
+): JournalEntry[] {
+  const accumulators = new Map<string, JournalAccumulator>();
+
+  for (const detail of details) {
+    if (detail.is_void || detail.status !== 'COMPLETED') continue;
+
+    const key = `${detail.biz_date}|${detail.currency}`;
+    let journal = accumulators.get(key);
+    if (!journal) {
+      journal = new JournalAccumulator();
+      accumulators.set(key, journal);
+    }
+    journal.transactionCount += 1;
+
+    // Running debit - credit for this transaction, used to balance against over/short
+    const start = sumBalances(journal);
+
+    for (const line of detail.line_items) {
+      if (line.is_void) continue;
+
+      const extended = Math.abs(line.ext_amt)
+        + line.addons.reduce((sum, addon) => sum + Math.abs(addon.ext_amt), 0)
+        + getLinePriceIncrease(line);
+      const discount = getLineDiscount(line);
+
+      if (line.is_return) {
+        journal.post(accounts.returns, 'Sales returns', extended);
+        journal.post(accounts.discounts, 'Discounts on returns', -discount);
+      } else {
+        journal.post(accounts.sales, 'Gross sales', -extended);
+        journal.post(accounts.discounts, 'Discounts', discount);
+      }
+
+      for (const tax of line.taxes) {
+        const authority = tax.authority_name || tax.authority_id;
+        const taxAmount = Math.abs(tax.tax_amt);
+        journal.post(
+          `${accounts.taxPayable} - ${authority}`,
+          `Tax payable (${authority})`,
+          line.is_return ? taxAmount : -taxAmount
+        );
+      }
+    }
+
+    for (const discount of detail.discounts) {
+      journal.post(accounts.discounts, 'Discounts', Math.abs(discount.amt));
+    }
+
+    for (const payment of detail.payments) {
+      if (payment.is_void) continue;
+      const paid = payment.is_change ? -Math.abs(payment.amt) : payment.amt;
+      journal.post(
+        `${accounts.tenderClearing} - ${payment.tender_desc || payment.tender_id}`,
+        `${payment.tender_desc || payment.tender_id} tenders`,
+        paid
+      );
+    }
+
+    const imbalance = sumBalances(journal) - start;
+    journal.post(accounts.overShort, 'Rounding and over/short', -imbalance);
+  }
+
+  return Array.from(accumulators.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, journal]) => {
+      const [biz_date, currency] = key.split('|');
+      const lines: JournalLine[] = Array.from(journal.balances.entries())
+        .filter(([, balance]) => balance.amount !== 0)
+        .map(([account, balance]) => ({
+          account,
+          description: balance.description,
+          debit: balance.amount > 0 ? balance.amount : 0,
+          credit: balance.amount < 0 ? -balance.amount : 0,
+        }))
+        .sort((a, b) => a.account.localeCompare(b.account));
+
+      return {
+        biz_date,
+        currency,
+        transaction_count: journal.transactionCount,
+        lines,
+        total_debit: lines.reduce((sum, line) => sum + line.debit, 0),
+        total_credit: lines.reduce((sum, line) => sum + line.credit, 0),
+      };
+    });
+}
+
+function sumBalances(journal: JournalAccumulator): number {
+  let total = 0;
+  journal.balances.forEach(balance => { total += balance.amount; });
+  return total;
+}
+
+/**
+ * Journal lines in the flat layout most accounting packages import
+ */
+export function buildJournalCsv(entries: JournalEntry[]): string {
+  const headers = ['biz_date', 'currency', 'account', 'description', 'debit', 'credit', 'transaction_count'];
+
+  const rows: CsvValue[][] = entries.flatMap(entry =>
+    entry.lines.map(line => [
+      entry.biz_date,
+      entry.currency,
+      line.account,
+      line.description,
+      line.debit ? amount(line.debit) : '',
+      line.credit ? amount(line.credit) : '',
+      entry.transaction_count,
+    ])
+  );
+
+  return toCsv(headers, rows);
+}
@@ -128,7 +128,7 @@ export interface TransactionSummaryResponse {
 export interface TransactionQueryParams {
   start_date?: string;
   end_date?: string;
-  filter_type?: 'status' | 'cashier' | 'type';
+  filter_type?: 'status' | 'cashier' | 'type' | 'customer';
   value?: string;
   cursor?: string;
   limit?: number;
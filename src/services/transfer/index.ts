@@ -0,0 +1,28 @@
+export { transferService, TransferService } from './transferService';
+export {
+  getTransferDirection,
+  canPerformTransferAction,
+  getCounterpartyStoreId,
+  getTransferQuantities,
+  getTransferDiscrepancies,
+  validateShipment,
+  validateTransferReceipt
+} from './transferUtils';
+export type { TransferAction } from './transferUtils';
+export type {
+  TransferStatus,
+  TransferDirection,
+  StockTransferLine,
+  StockTransfer,
+  StockTransferLineInput,
+  CreateStockTransferRequest,
+  UpdateStockTransferRequest,
+  StockTransferQueryParams,
+  StockTransfersResponse,
+  ShipTransferLineInput,
+  ShipStockTransferRequest,
+  ReceiveTransferLineInput,
+  ReceiveStockTransferRequest,
+  StockTransferResult,
+  TransferDiscrepancy
+} from '../types/transfer.types';
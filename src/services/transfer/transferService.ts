@@ -0,0 +1,164 @@
+// Stock transfer service: moving inventory between stores of the same tenant
+import { apiClient, ApiError } from '../api';
+import type {
+  StockTransfer,
+  CreateStockTransferRequest,
+  UpdateStockTransferRequest,
+  StockTransferQueryParams,
+  StockTransfersResponse,
+  ShipStockTransferRequest,
+  ReceiveStockTransferRequest,
+  StockTransferResult
+} from '../types/transfer.types';
+
+const PAGE_LIMIT = 200;
+
+export class TransferService {
+  // Transfers are visible from both stores; each side calls through its own store path
+  private basePath(storeId: string): string {
+    return `/v0/store/${storeId}/inventory/transfers`;
+  }
+
+  /**
+   * Get one page of transfers sent from or to the store, newest first
+   */
+  async getTransfers(storeId: string, params: StockTransferQueryParams = {}): Promise<StockTransfersResponse> {
+    try {
+      const response = await apiClient.get<StockTransfersResponse>(this.basePath(storeId), params);
+      return { transfers: response.data.transfers || [], next: response.data.next || null };
+    } catch (error) {
+      console.error('❌ Failed to fetch stock transfers:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Get every transfer matching the filters, following the cursor
+   */
+  async getAllTransfers(storeId: string, params: Omit<StockTransferQueryParams, 'cursor' | 'limit'> = {}): Promise<StockTransfer[]> {
+    const transfers: StockTransfer[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.getTransfers(storeId, { ...params, cursor, limit: PAGE_LIMIT });
+      transfers.push(...page.transfers);
+      cursor = page.next || undefined;
+    } while (cursor);
+    return transfers;
+  }
+
+  /**
+   * Create a draft transfer from the sending store
+   */
+  async createTransfer(storeId: string, data: CreateStockTransferRequest): Promise<StockTransfer> {
+    if (data.destination_store_id === storeId) {
+      throw new ApiError('Stock cannot be transferred to the same store', 400, 'SAME_STORE_TRANSFER');
+    }
+    if (data.lines.length === 0) {
+      throw new ApiError('A transfer needs at least one line', 400, 'EMPTY_TRANSFER');
+    }
+
+    try {
+      const response = await apiClient.post<StockTransfer>(this.basePath(storeId), data);
+      console.log('✅ Stock transfer created:', response.data.transfer_number);
+      return response.data;
+    } catch (error) {
+      console.error('❌ Failed to create stock transfer:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Update a draft transfer
+   */
+  async updateTransfer(storeId: string, transferId: string, data: UpdateStockTransferRequest): Promise<StockTransfer> {
+    if (data.destination_store_id === storeId) {
+      throw new ApiError('Stock cannot be transferred to the same store', 400, 'SAME_STORE_TRANSFER');
+    }
+
+    try {
+      const response = await apiClient.put<StockTransfer>(`${this.basePath(storeId)}/${transferId}`, data);
+      console.log('✅ Stock transfer updated:', transferId);
+      return response.data;
+    } catch (error) {
+      console.error('❌ Failed to update stock transfer:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Delete a draft transfer
+   */
+  async deleteTransfer(storeId: string, transferId: string): Promise<void> {
+    try {
+      await apiClient.delete(`${this.basePath(storeId)}/${transferId}`);
+      console.log('✅ Stock transfer deleted:', transferId);
+    } catch (error) {
+      console.error('❌ Failed to delete stock transfer:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Cancel a draft transfer, keeping it for the record
+   */
+  async cancelTransfer(storeId: string, transferId: string): Promise<StockTransfer> {
+    try {
+      const response = await apiClient.post<StockTransfer>(`${this.basePath(storeId)}/${transferId}/cancel`, {});
+      console.log('✅ Stock transfer cancelled:', transferId);
+      return response.data;
+    } catch (error) {
+      console.error('❌ Failed to cancel stock transfer:', error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Ship from the sending store. Stock leaves the source as transfer_out
+   * adjustments in the same request.
+   */
+  async shipTransfer(storeId: string, transferId: string, data: ShipStockTransferRequest): Promise<StockTransferResult> {
+    return this.postMovement(storeId, transferId, 'ship', data);
+  }
+
+  /**
+   * Confirm arrival at the destination store. Received quantities are added
+   * as transfer_in adjustments and differences are kept as discrepancies.
+   */
+  async receiveTransfer(storeId: string, transferId: string, data: ReceiveStockTransferRequest): Promise<StockTransferResult> {
+    return this.postMovement(storeId, transferId, 'receive', data);
+  }
+
+  private async postMovement(
+    storeId: string,
+    transferId: string,
+    action: 'ship' | 'receive',
+    data: ShipStockTransferRequest | ReceiveStockTransferRequest
+  ): Promise<StockTransferResult> {
+    try {
+      const response = await apiClient.post<StockTransferResult>(`${this.basePath(storeId)}/${transferId}/${action}`, data);
+      console.log(`✅ Stock transfer ${action}:`, response.data.transfer.transfer_number, response.data.transfer.status);
+      return response.data;
+    } catch (error) {
+      console.error(`❌ Failed to ${action} stock transfer:`, error);
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Handle API errors
+   */
+  private handleError(error: unknown): ApiError {
+    if (error instanceof ApiError) {
+      return error;
+    }
+
+    return new ApiError(
+      error instanceof Error ? error.message : 'An unexpected error occurred while processing your request',
+      500,
+      'INTERNAL_SERVER_ERROR'
+    );
+  }
+}
+
+// Export a singleton instance
+export const transferService = new TransferService();
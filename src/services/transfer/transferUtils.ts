@@ -0,0 +1,128 @@
+// Stock transfer workflow rules, shipment checks and discrepancy reporting
+import { validateAdjustment } from '../inventory/inventoryUtils';
+import type { InventoryAlertSettings } from '../types/inventory.types';
+import type {
+  ReceiveTransferLineInput,
+  ShipTransferLineInput,
+  StockTransfer,
+  TransferDirection,
+  TransferDiscrepancy
+} from '../types/transfer.types';
+
+export type TransferAction = 'edit' | 'ship' | 'receive' | 'cancel' | 'delete';
+
+// Drafts belong to the sending store; the destination only acts once stock is on its way
+const ALLOWED_ACTIONS: Record<TransferDirection, Partial<Record<StockTransfer['status'], TransferAction[]>>> = {
+  outgoing: { draft: ['edit', 'ship', 'cancel', 'delete'] },
+  incoming: { in_transit: ['receive'] }
+};
+
+export function getTransferDirection(transfer: StockTransfer, storeId: string): TransferDirection | null {
+  if (transfer.source_store_id === storeId) return 'outgoing';
+  if (transfer.destination_store_id === storeId) return 'incoming';
+  return null;
+}
+
+export function canPerformTransferAction(transfer: StockTransfer, storeId: string, action: TransferAction): boolean {
+  const direction = getTransferDirection(transfer, storeId);
+  return direction !== null && (ALLOWED_ACTIONS[direction][transfer.status] || []).includes(action);
+}
+
+/** The store on the other side of the transfer */
+export function getCounterpartyStoreId(transfer: StockTransfer, storeId: string): string {
+  return transfer.source_store_id === storeId ? transfer.destination_store_id : transfer.source_store_id;
+}
+
+export function getTransferQuantities(transfer: StockTransfer): { requested: number; shipped: number; received: number } {
+  return transfer.lines.reduce(
+    (totals, line) => ({
+      requested: totals.requested + line.quantity_requested,
+      shipped: totals.shipped + line.quantity_shipped,
+      received: totals.received + line.quantity_received
+    }),
+    { requested: 0, shipped: 0, received: 0 }
+  );
+}
+
+/** Lines where the destination counted something other than what was shipped */
+export function getTransferDiscrepancies(transfer: StockTransfer): TransferDiscrepancy[] {
+  if (transfer.status !== 'received') return [];
+
+  return transfer.lines
+    .filter(line => line.quantity_received !== line.quantity_shipped)
+    .map(line => ({
+      line_id: line.line_id,
+      item_id: line.item_id,
+      item_name: line.item_name,
+      shipped: line.quantity_shipped,
+      received: line.quantity_received,
+      difference: line.quantity_received - line.quantity_shipped,
+      reason: line.discrepancy_reason
+    }));
+}
+
+/**
+ * Check a shipment against the sending store's stock. Returns an error
+ * message, or null when it can be shipped.
+ */
+export function validateShipment(
+  transfer: StockTransfer,
+  lines: ShipTransferLineInput[],
+  onHandByItem: Map<string, number>,
+  settings: InventoryAlertSettings
+): string | null {
+  if (transfer.status !== 'draft') {
+    return 'Only draft transfers can be shipped';
+  }
+
+  const linesById = new Map(transfer.lines.map(line => [line.line_id, line]));
+  let total = 0;
+
+  for (const input of lines) {
+    const line = linesById.get(input.line_id);
+    if (!line) {
+      return 'The shipment contains a line that is not on this transfer';
+    }
+    if (!Number.isFinite(input.quantity) || input.quantity < 0) {
+      return `Enter a valid quantity for ${line.item_name}`;
+    }
+    if (input.quantity === 0) continue;
+
+    const stockError = validateAdjustment(onHandByItem.get(line.item_id) ?? 0, 'transfer_out', -input.quantity, settings);
+    if (stockError) {
+      return `${line.item_name}: ${stockError}`;
+    }
+    total += input.quantity;
+  }
+
+  return total > 0 ? null : 'Enter at least one shipped quantity';
+}
+
+/**
+ * Check what the destination counted. Every shipped line must be confirmed,
+ * and any difference needs a reason.
+ */
+export function validateTransferReceipt(transfer: StockTransfer, lines: ReceiveTransferLineInput[]): string | null {
+  if (transfer.status !== 'in_transit') {
+    return 'Only transfers in transit can be received';
+  }
+
+  const inputsById = new Map(lines.map(input => [input.line_id, input]));
+  const shippedLines = transfer.lines.filter(line => line.quantity_shipped > 0);
+
+  for (const line of shippedLines) {
+    const input = inputsById.get(line.line_id);
+    if (!input || !Number.isFinite(input.quantity) || input.quantity < 0) {
+      return `Enter the quantity received for ${line.item_name}`;
+    }
+    if (input.quantity !== line.quantity_shipped && !input.discrepancy_reason?.trim()) {
+      return `${line.item_name}: explain why ${input.quantity} arrived instead of ${line.quantity_shipped}`;
+    }
+  }
+
+  if (lines.some(input => !shippedLines.some(line => line.line_id === input.line_id))) {
+    return 'The receipt contains a line that was not shipped';
+  }
+
+  return null;
+}
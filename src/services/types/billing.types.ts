@@ -223,3 +223,16 @@ export interface UpdateBillingDetailsRequest {
   billing_address?: BillingOverview['billing_address'];
   tax_id?: string;
 }
+
+// ─── API Responses ───────────────────────────────────────────────────────────
+
+export interface InvoiceListResponse {
+  invoices: Invoice[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+export interface BillingPortalSession {
+  url: string;
+}
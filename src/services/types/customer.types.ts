@@ -0,0 +1,90 @@
+// Customer management type definitions
+import type { TransactionDetail, TransactionSummary } from '../transaction/transactionService';
+
+export type CustomerStatus = 'active' | 'inactive';
+
+export type CustomerGender = 'male' | 'female' | 'other';
+
+export interface CustomerAddress {
+  street: string;
+  city: string;
+  state: string;
+  zip_code: string;
+  country: string;
+}
+
+export interface Customer {
+  customer_id: string;
+  tenant_id: string;
+  first_name: string;
+  last_name: string;
+  email: string;
+  phone: string;
+  address: CustomerAddress;
+  date_of_birth?: string;
+  gender?: CustomerGender;
+  status: CustomerStatus;
+  total_purchases: number;
+  total_spent: number;
+  last_purchase?: string;
+  notes?: string;
+  created_at: string;
+  updated_at: string;
+  created_by?: string;
+  updated_by?: string;
+}
+
+export interface CreateCustomerRequest {
+  first_name: string;
+  last_name: string;
+  email: string;
+  phone: string;
+  address: CustomerAddress;
+  date_of_birth?: string;
+  gender?: CustomerGender;
+  status?: CustomerStatus;
+  notes?: string;
+}
+
+export type UpdateCustomerRequest = Partial<CreateCustomerRequest>;
+
+// Query parameters
+export interface CustomerQueryParams {
+  search?: string;
+  status?: CustomerStatus;
+  page?: number;
+  limit?: number;
+  sort_by?: 'name' | 'email' | 'total_spent' | 'last_purchase' | 'created_at';
+  sort_order?: 'asc' | 'desc';
+}
+
+// Response types
+export interface CustomersResponse {
+  customers: Customer[];
+  total: number;
+  page: number;
+  limit: number;
+  has_more: boolean;
+}
+
+/**
+ * A transaction attributed to a customer. The summary carries the composite
+ * trans_id used for navigation, the detail carries the customer_id it was
+ * matched on.
+ */
+export interface CustomerPurchase {
+  summary: TransactionSummary;
+  detail: TransactionDetail;
+}
+
+export interface CustomerPurchaseHistoryParams {
+  start_date?: string;
+  end_date?: string;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface CustomerPurchaseHistory {
+  purchases: CustomerPurchase[];
+  next: string | null;
+}
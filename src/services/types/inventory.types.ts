@@ -0,0 +1,142 @@
+// Inventory types: on-hand levels, the adjustment ledger and stock alerts
+import type { Product } from './product.types';
+import type { OperationalSettings } from './store.types';
+
+export type StockStatus = Product['stock_status'];
+
+/** Store-wide thresholds; the same shape as the store's operational settings */
+export type InventoryAlertSettings = OperationalSettings['inventory_alerts'];
+
+export type UpdateInventoryAlertSettingsRequest = Partial<InventoryAlertSettings>;
+
+/**
+ * Stock held for one item in one store. Threshold fields override the store
+ * settings for this item when set.
+ */
+export interface InventoryLevel {
+  store_id: string;
+  item_id: string;
+  on_hand: number;
+  /** Open purchase quantity not yet received */
+  on_order: number;
+  unit_cost?: number;
+  low_stock_threshold?: number | null;
+  reorder_point?: number | null;
+  reorder_quantity?: number | null;
+  /** Supplier reorder suggestions go to by default */
+  preferred_supplier_id?: string | null;
+  last_counted_at?: string;
+  updated_at?: string;
+}
+
+export interface InventoryLevelsResponse {
+  levels: InventoryLevel[];
+  next: string | null;
+}
+
+export interface InventoryLevelQueryParams {
+  item_id?: string;
+  cursor?: string;
+  limit?: number;
+}
+
+export type UpdateInventoryLevelRequest = Partial<Pick<
+  InventoryLevel,
+  'unit_cost' | 'low_stock_threshold' | 'reorder_point' | 'reorder_quantity' | 'preferred_supplier_id'
+>>;
+
+export type InventoryAdjustmentType =
+  | 'adjust'
+  | 'receive'
+  | 'damage'
+  | 'shrink'
+  | 'count'
+  | 'return'
+  | 'transfer_in'
+  | 'transfer_out';
+
+/** One ledger line; stock only ever changes through these */
+export interface InventoryAdjustment {
+  adjustment_id: string;
+  store_id: string;
+  item_id: string;
+  type: InventoryAdjustmentType;
+  quantity_delta: number;
+  quantity_before: number;
+  quantity_after: number;
+  reason_code?: string;
+  comment?: string;
+  unit_cost?: number;
+  /** Document that caused the change, e.g. a purchase order */
+  reference_type?: string;
+  reference_id?: string;
+  created_by: string;
+  created_at: string;
+}
+
+export interface CreateInventoryAdjustmentRequest {
+  item_id: string;
+  type: InventoryAdjustmentType;
+  quantity_delta: number;
+  reason_code?: string;
+  comment?: string;
+  /** Cost of received units; becomes the item's unit cost */
+  unit_cost?: number;
+  reference_type?: string;
+  reference_id?: string;
+}
+
+export interface InventoryAdjustmentResult {
+  adjustment: InventoryAdjustment;
+  level: InventoryLevel;
+}
+
+export interface InventoryAdjustmentQueryParams {
+  item_id?: string;
+  type?: InventoryAdjustmentType;
+  start_date?: string;
+  end_date?: string;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface InventoryAdjustmentsResponse {
+  adjustments: InventoryAdjustment[];
+  next: string | null;
+}
+
+/** A tracked product joined with its stock level, flattened for tables */
+export interface InventoryItem {
+  item_id: string;
+  name: string;
+  uom: string;
+  brand?: string;
+  merch_level1?: string | null;
+  merch_level2?: string | null;
+  merch_level3?: string | null;
+  merch_level4?: string | null;
+  categories: string[];
+  list_price: number;
+  unit_cost: number | null;
+  on_hand: number;
+  on_order: number;
+  low_stock_threshold: number;
+  reorder_point: number | null;
+  reorder_quantity: number | null;
+  preferred_supplier_id: string | null;
+  stock_status: StockStatus;
+  /** Status currently saved on the product, which may be stale */
+  product_stock_status?: string;
+  updated_at?: string;
+}
+
+export type InventoryAlertType = 'out_of_stock' | 'low_stock' | 'reorder' | 'negative';
+
+export interface InventoryAlert {
+  type: InventoryAlertType;
+  item_id: string;
+  name: string;
+  on_hand: number;
+  threshold: number;
+  message: string;
+}
@@ -0,0 +1,66 @@
+// Price book types: scheduled price lists with item-level overrides
+
+/** `store` applies at every terminal; `terminal` only at the listed terminals */
+export type PriceBookScope = 'store' | 'terminal';
+
+export interface PriceBookItem {
+  item_id: string;
+  item_name: string;
+  list_price: number;
+  sale_price?: number | null;
+}
+
+export interface PriceBook {
+  price_book_id: string;
+  store_id: string;
+  name: string;
+  description?: string;
+  scope: PriceBookScope;
+  terminal_ids: string[];
+  /** ISO timestamp the prices take effect */
+  effective_at: string;
+  /** ISO timestamp the prices stop applying; open-ended when null */
+  expires_at?: string | null;
+  /** Breaks ties between overlapping books of the same scope; higher wins */
+  priority: number;
+  active: boolean;
+  items: PriceBookItem[];
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CreatePriceBookRequest = Omit<PriceBook, 'price_book_id' | 'store_id' | 'created_by' | 'created_at' | 'updated_at'>;
+
+export type UpdatePriceBookRequest = Partial<CreatePriceBookRequest>;
+
+export interface PriceBookQueryParams {
+  /** Only books that override this item */
+  item_id?: string;
+  active?: boolean;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface PriceBooksResponse {
+  price_books: PriceBook[];
+  next: string | null;
+}
+
+/** Derived from the active flag and the effective window */
+export type PriceBookStatus = 'scheduled' | 'live' | 'expired' | 'disabled';
+
+/** Price an item sells for over one stretch of time */
+export interface ItemPricePeriod {
+  /** Null for the product's own price */
+  price_book_id: string | null;
+  name: string;
+  scope: PriceBookScope;
+  terminal_ids: string[];
+  /** Null when the product's own price has applied since before any book */
+  starts_at: string | null;
+  ends_at: string | null;
+  list_price: number;
+  sale_price?: number | null;
+  timing: 'past' | 'current' | 'upcoming';
+}
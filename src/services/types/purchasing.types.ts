@@ -0,0 +1,121 @@
+// Supplier and purchase order types
+import type { InventoryAdjustment, InventoryLevel } from './inventory.types';
+
+export interface Supplier {
+  /** Recorded as `vendor_id` on transaction line items */
+  supplier_id: string;
+  store_id: string;
+  name: string;
+  contact_name?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  /** Our account number with the supplier */
+  account_number?: string;
+  payment_terms?: string;
+  lead_time_days?: number | null;
+  notes?: string;
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CreateSupplierRequest = Omit<Supplier, 'supplier_id' | 'store_id' | 'created_at' | 'updated_at'>;
+
+export type UpdateSupplierRequest = Partial<CreateSupplierRequest>;
+
+export interface SuppliersResponse {
+  suppliers: Supplier[];
+}
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received' | 'cancelled';
+
+export interface PurchaseOrderLine {
+  line_id: string;
+  item_id: string;
+  item_name: string;
+  quantity_ordered: number;
+  quantity_received: number;
+  unit_cost: number;
+}
+
+export interface PurchaseOrder {
+  po_id: string;
+  po_number: string;
+  store_id: string;
+  supplier_id: string;
+  status: PurchaseOrderStatus;
+  lines: PurchaseOrderLine[];
+  expected_date?: string; // YYYY-MM-DD
+  notes?: string;
+  sent_at?: string;
+  received_at?: string;
+  cancelled_at?: string;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PurchaseOrderLineInput {
+  item_id: string;
+  item_name: string;
+  quantity_ordered: number;
+  unit_cost: number;
+}
+
+export interface CreatePurchaseOrderRequest {
+  supplier_id: string;
+  lines: PurchaseOrderLineInput[];
+  expected_date?: string;
+  notes?: string;
+}
+
+/** Only draft orders can be edited */
+export type UpdatePurchaseOrderRequest = Partial<CreatePurchaseOrderRequest>;
+
+export interface PurchaseOrderQueryParams {
+  supplier_id?: string;
+  status?: PurchaseOrderStatus;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface PurchaseOrdersResponse {
+  orders: PurchaseOrder[];
+  next: string | null;
+}
+
+export interface ReceiptLineInput {
+  line_id: string;
+  /** Quantity in this delivery, not the running total */
+  quantity: number;
+  /** Invoiced cost when it differs from the ordered cost */
+  unit_cost?: number;
+}
+
+export interface ReceivePurchaseOrderRequest {
+  lines: ReceiptLineInput[];
+  comment?: string;
+}
+
+/**
+ * Receiving is applied in one request: the order's received quantities, the
+ * 'receive' ledger entries and the new stock levels and costs come back together.
+ */
+export interface ReceivePurchaseOrderResult {
+  order: PurchaseOrder;
+  adjustments: InventoryAdjustment[];
+  levels: InventoryLevel[];
+}
+
+export interface ReorderSuggestion {
+  item_id: string;
+  item_name: string;
+  on_hand: number;
+  /** Outstanding on open purchase orders, drafts included */
+  on_order: number;
+  reorder_point: number;
+  suggested_quantity: number;
+  unit_cost: number;
+  supplier_id: string | null;
+}
@@ -0,0 +1,115 @@
+// Employee scheduling type definitions
+
+export type ShiftStatus = 'scheduled' | 'confirmed' | 'in_progress' | 'completed' | 'cancelled';
+
+export interface Shift {
+  shift_id: string;
+  tenant_id?: string;
+  store_id: string;
+  user_id: string;
+  employee_name?: string;
+  role?: string;
+  date: string;        // YYYY-MM-DD, the day the shift starts
+  start_time: string;  // HH:MM
+  end_time: string;    // HH:MM, earlier than start_time for overnight shifts
+  break_minutes: number;
+  status: ShiftStatus;
+  template_id?: string;
+  notes?: string;
+  created_at: string;
+  updated_at: string;
+  created_by?: string;
+  updated_by?: string;
+}
+
+export interface ShiftTemplate {
+  template_id: string;
+  store_id: string;
+  name: string;
+  start_time: string;
+  end_time: string;
+  break_minutes: number;
+  role?: string;
+  color?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateShiftRequest {
+  user_id: string;
+  employee_name?: string;
+  role?: string;
+  date: string;
+  start_time: string;
+  end_time: string;
+  break_minutes?: number;
+  status?: ShiftStatus;
+  template_id?: string;
+  notes?: string;
+}
+
+export interface UpdateShiftRequest {
+  user_id?: string;
+  employee_name?: string;
+  role?: string;
+  date?: string;
+  start_time?: string;
+  end_time?: string;
+  break_minutes?: number;
+  status?: ShiftStatus;
+  template_id?: string;
+  notes?: string;
+}
+
+export interface CreateShiftTemplateRequest {
+  name: string;
+  start_time: string;
+  end_time: string;
+  break_minutes?: number;
+  role?: string;
+  color?: string;
+}
+
+export type UpdateShiftTemplateRequest = Partial<CreateShiftTemplateRequest>;
+
+export interface ShiftQueryParams {
+  start_date?: string;  // inclusive, YYYY-MM-DD
+  end_date?: string;    // inclusive, YYYY-MM-DD
+  user_id?: string;
+  status?: ShiftStatus;
+}
+
+export interface ShiftsResponse {
+  shifts: Shift[];
+  size?: number;
+}
+
+export interface ShiftTemplatesResponse {
+  templates: ShiftTemplate[];
+  size?: number;
+}
+
+export interface CopyWeekResult {
+  created: Shift[];
+  skipped: number;
+}
+
+export type ScheduleConflictType = 'overlap' | 'access_schedule' | 'store_closed' | 'store_hours';
+
+export interface ScheduleConflict {
+  type: ScheduleConflictType;
+  shift_id: string;
+  user_id: string;
+  date: string;
+  message: string;
+  /** The other shift for overlap conflicts */
+  other_shift_id?: string;
+}
+
+export interface DailyLaborSummary {
+  date: string;
+  shift_count: number;
+  employee_count: number;
+  /** Paid hours, breaks excluded */
+  hours: number;
+}
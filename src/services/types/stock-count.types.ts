@@ -0,0 +1,104 @@
+// Stock count (cycle count) types
+import type { InventoryAdjustment, InventoryLevel } from './inventory.types';
+
+export type StockCountStatus = 'in_progress' | 'posted' | 'cancelled';
+
+export type MerchLevel = 1 | 2 | 3 | 4;
+
+/** Which items a count covers; an empty scope counts every tracked item */
+export interface StockCountScope {
+  category_id?: string | null;
+  merch_level?: MerchLevel | null;
+  merch_value?: string | null;
+}
+
+export interface StockCountLine {
+  item_id: string;
+  item_name: string;
+  /** On hand when the count was started */
+  expected_quantity: number;
+  /** Null until the item has been counted */
+  counted_quantity: number | null;
+  unit_cost: number | null;
+}
+
+export interface StockCount {
+  count_id: string;
+  count_number: string;
+  store_id: string;
+  name: string;
+  scope: StockCountScope;
+  status: StockCountStatus;
+  lines: StockCountLine[];
+  notes?: string;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  posted_at?: string;
+  posted_by?: string;
+}
+
+export interface CreateStockCountRequest {
+  name: string;
+  scope: StockCountScope;
+  lines: Omit<StockCountLine, 'counted_quantity'>[];
+  notes?: string;
+}
+
+export interface CountedQuantityInput {
+  item_id: string;
+  counted_quantity: number | null;
+}
+
+/** Saves counting progress without touching stock */
+export interface UpdateStockCountRequest {
+  lines: CountedQuantityInput[];
+  notes?: string;
+}
+
+/** What to do with items nobody counted when posting */
+export type UncountedHandling = 'skip' | 'zero';
+
+export interface PostStockCountRequest {
+  lines: CountedQuantityInput[];
+  reason_code: string;
+  comment?: string;
+  uncounted: UncountedHandling;
+}
+
+/** Every variance is posted as a count adjustment in one batch */
+export interface PostStockCountResult {
+  count: StockCount;
+  adjustments: InventoryAdjustment[];
+  levels: InventoryLevel[];
+}
+
+export interface StockCountQueryParams {
+  status?: StockCountStatus;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface StockCountsResponse {
+  counts: StockCount[];
+  next: string | null;
+}
+
+export interface StockCountSummary {
+  total: number;
+  counted: number;
+  uncounted: number;
+  /** Lines whose count differs from expected */
+  variances: number;
+  units_over: number;
+  units_short: number;
+  value_impact: number;
+  /** Lines with a variance but no unit cost, left out of the value impact */
+  uncosted: number;
+}
+
+/** A scan or typed entry after scanner affixes are removed */
+export interface ParsedCountEntry {
+  code: string;
+  quantity: number;
+}
@@ -5,6 +5,8 @@
  * billing, user management, audit logs, and tenant settings.
  */
 
+import type { Terminal } from './store.types';
+
 // ─── Tenant Roles & RBAC ────────────────────────────────────────────────────
 
 export type TenantRole = 'owner' | 'admin' | 'staff' | 'viewer';
@@ -133,11 +135,19 @@ export interface TenantUser {
   invited_at?: string;
   joined_at?: string;
   invited_by?: string;
+  store_access?: StoreAccess[];
+}
+
+/** Store-level role held by a user; role_id refers to one of that store's roles */
+export interface StoreAccess {
+  store_id: string;
+  role_id: string;
 }
 
 export interface InviteUserRequest {
   email: string;
   role: TenantRole;
+  store_access: StoreAccess[];
   message?: string;
 }
 
@@ -145,6 +155,45 @@ export interface UpdateUserRoleRequest {
   role: TenantRole;
 }
 
+export interface UpdateStoreAccessRequest {
+  store_access: StoreAccess[];
+}
+
+// ─── Invitations ─────────────────────────────────────────────────────────────
+
+export type InvitationStatus = 'pending' | 'accepted' | 'expired' | 'revoked';
+
+export interface TenantInvitation {
+  invitation_id: string;
+  email: string;
+  role: TenantRole;
+  store_access: StoreAccess[];
+  status: InvitationStatus;
+  message?: string;
+  invited_by: string;
+  invited_at: string;
+  expires_at: string;
+  last_sent_at?: string;
+  send_count: number;
+}
+
+/** Public view of an invitation, looked up by the token in the emailed link */
+export interface InvitationPreview {
+  tenant_id: string;
+  tenant_name: string;
+  email: string;
+  role: TenantRole;
+  stores: { store_id: string; store_name: string; role_name: string }[];
+  invited_by: string;
+  expires_at: string;
+  status: InvitationStatus;
+}
+
+export interface AcceptInvitationResponse {
+  tenant_id: string;
+  user: TenantUser;
+}
+
 // ─── Tenant Stores ───────────────────────────────────────────────────────────
 
 export interface TenantStore {
@@ -160,6 +209,41 @@ export interface TenantStore {
   updated_at: string;
 }
 
+/**
+ * Sent with deactivate, activate and delete. The backend writes the audit
+ * entry for the action and keeps the reason and impact in its details.
+ */
+export interface StoreLifecycleRequest {
+  reason?: string;
+  /** Delete only: must equal the store name */
+  confirm_name?: string;
+  /** Delete only: id of the export taken beforehand, if any */
+  export_id?: string;
+}
+
+/** What a lifecycle action will change, shown before confirming */
+export interface StoreLifecycleImpact {
+  active_terminals: Terminal[];
+  seat_count: number;
+  next_seat_count: number;
+  monthly_cost: number;
+  next_monthly_cost: number;
+  currency: string;
+}
+
+export type StoreExportStatus = 'pending' | 'ready' | 'failed';
+
+export interface StoreDataExport {
+  export_id: string;
+  store_id: string;
+  status: StoreExportStatus;
+  download_url?: string;
+  /** Download links are signed and stop working after this */
+  expires_at?: string;
+  created_at: string;
+  error?: string;
+}
+
 // ─── Audit Log ───────────────────────────────────────────────────────────────
 
 export type AuditAction =
@@ -167,6 +251,7 @@ export type AuditAction =
   | 'store_deleted'
   | 'store_deactivated'
   | 'store_activated'
+  | 'store_exported'
   | 'user_invited'
   | 'user_removed'
   | 'user_role_changed'
@@ -0,0 +1,141 @@
+// Timesheet, overtime and pay period types
+import type { WeekDay } from '../schedule/scheduleUtils';
+
+export type PayPeriodFrequency = 'weekly' | 'biweekly';
+
+export type PayPeriodStatus = 'open' | 'approved' | 'locked';
+
+export interface OvertimeRules {
+  store_id: string;
+  /** Paid hours per day before overtime starts; null disables daily overtime */
+  daily_overtime_hours: number | null;
+  /** Paid hours per day before double time starts; null disables it */
+  daily_double_time_hours: number | null;
+  /** Paid hours per week before overtime starts; null disables weekly overtime */
+  weekly_overtime_hours: number | null;
+  overtime_multiplier: number;
+  double_time_multiplier: number;
+  /** Deduct an unpaid break from entries longer than this, when less break was recorded */
+  auto_break_after_hours: number | null;
+  auto_break_minutes: number;
+  pay_period_frequency: PayPeriodFrequency;
+  /** Day pay weeks start on */
+  week_start_day: WeekDay;
+  /** Any period start (YYYY-MM-DD); biweekly periods are counted from here */
+  pay_period_anchor: string;
+  updated_at?: string;
+  updated_by?: string;
+}
+
+export type UpdateOvertimeRulesRequest = Partial<Omit<OvertimeRules, 'store_id' | 'updated_at' | 'updated_by'>>;
+
+export interface PayPeriod {
+  period_id: string;
+  store_id: string;
+  start_date: string; // YYYY-MM-DD
+  end_date: string; // YYYY-MM-DD, inclusive
+  status: PayPeriodStatus;
+  approved_by?: string;
+  approved_at?: string;
+  locked_by?: string;
+  locked_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreatePayPeriodRequest {
+  start_date: string;
+  end_date: string;
+}
+
+export interface PayPeriodsResponse {
+  periods: PayPeriod[];
+}
+
+export type TimesheetAdjustmentAction = 'add' | 'update' | 'delete';
+
+/**
+ * A manager correction to punched time. Punches themselves are never changed;
+ * adjustments are layered on top when the timesheet is built.
+ */
+export interface TimesheetAdjustment {
+  adjustment_id: string;
+  store_id: string;
+  user_id: string;
+  /** Entry being corrected; omitted when adding a missed shift */
+  entry_id?: string;
+  action: TimesheetAdjustmentAction;
+  clock_in?: string; // ISO timestamp
+  clock_out?: string; // ISO timestamp
+  break_minutes?: number;
+  reason_code: string;
+  comment?: string;
+  created_by: string;
+  created_at: string;
+}
+
+export type CreateTimesheetAdjustmentRequest = Omit<TimesheetAdjustment, 'adjustment_id' | 'store_id' | 'created_by' | 'created_at'>;
+
+export interface TimesheetAdjustmentQueryParams {
+  start_date?: string;
+  end_date?: string;
+  user_id?: string;
+}
+
+export interface TimesheetAdjustmentsResponse {
+  adjustments: TimesheetAdjustment[];
+}
+
+export interface TimeEntry {
+  /** Clock-in activity ID for punched entries, adjustment ID for added ones */
+  entry_id: string;
+  user_id: string;
+  /** Local date of the clock in */
+  date: string;
+  clock_in: string; // ISO timestamp
+  /** Null while still clocked in */
+  clock_out: string | null;
+  break_minutes: number;
+  source: 'punch' | 'manual';
+  /** The latest adjustment applied to this entry */
+  adjustment?: TimesheetAdjustment;
+}
+
+export type TimesheetWarningType = 'missing_clock_out' | 'missing_clock_in' | 'overlap';
+
+export interface TimesheetWarning {
+  type: TimesheetWarningType;
+  date: string;
+  entry_id?: string;
+  message: string;
+}
+
+/** Minutes are paid minutes after breaks */
+export interface TimesheetDay {
+  date: string;
+  entries: TimeEntry[];
+  worked_minutes: number;
+  break_minutes: number;
+  paid_minutes: number;
+  regular_minutes: number;
+  overtime_minutes: number;
+  double_time_minutes: number;
+}
+
+export interface TimesheetTotals {
+  worked_minutes: number;
+  break_minutes: number;
+  paid_minutes: number;
+  regular_minutes: number;
+  overtime_minutes: number;
+  double_time_minutes: number;
+}
+
+export interface Timesheet {
+  user_id: string;
+  start_date: string;
+  end_date: string;
+  days: TimesheetDay[];
+  totals: TimesheetTotals;
+  warnings: TimesheetWarning[];
+}
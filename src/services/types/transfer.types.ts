@@ -0,0 +1,108 @@
+// Stock transfer types for moving inventory between a tenant's stores
+import type { InventoryAdjustment, InventoryLevel } from './inventory.types';
+
+export type TransferStatus = 'draft' | 'in_transit' | 'received' | 'cancelled';
+
+/** Which side of a transfer the current store is on */
+export type TransferDirection = 'outgoing' | 'incoming';
+
+export interface StockTransferLine {
+  line_id: string;
+  item_id: string;
+  item_name: string;
+  /** Quantity planned by the sending store */
+  quantity_requested: number;
+  quantity_shipped: number;
+  quantity_received: number;
+  /** Required when the received quantity differs from what was shipped */
+  discrepancy_reason?: string;
+}
+
+export interface StockTransfer {
+  transfer_id: string;
+  transfer_number: string;
+  source_store_id: string;
+  destination_store_id: string;
+  status: TransferStatus;
+  lines: StockTransferLine[];
+  notes?: string;
+  ship_comment?: string;
+  receive_comment?: string;
+  shipped_at?: string;
+  shipped_by?: string;
+  received_at?: string;
+  received_by?: string;
+  cancelled_at?: string;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface StockTransferLineInput {
+  item_id: string;
+  item_name: string;
+  quantity_requested: number;
+}
+
+/** Created from the sending store */
+export interface CreateStockTransferRequest {
+  destination_store_id: string;
+  lines: StockTransferLineInput[];
+  notes?: string;
+}
+
+export type UpdateStockTransferRequest = Partial<CreateStockTransferRequest>;
+
+export interface StockTransferQueryParams {
+  direction?: TransferDirection;
+  status?: TransferStatus;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface StockTransfersResponse {
+  transfers: StockTransfer[];
+  next: string | null;
+}
+
+export interface ShipTransferLineInput {
+  line_id: string;
+  quantity: number;
+}
+
+export interface ShipStockTransferRequest {
+  lines: ShipTransferLineInput[];
+  comment?: string;
+}
+
+export interface ReceiveTransferLineInput {
+  line_id: string;
+  quantity: number;
+  discrepancy_reason?: string;
+}
+
+export interface ReceiveStockTransferRequest {
+  lines: ReceiveTransferLineInput[];
+  comment?: string;
+}
+
+/**
+ * Shipping posts transfer_out adjustments at the sending store and receiving
+ * posts transfer_in adjustments at the destination, in the same request
+ */
+export interface StockTransferResult {
+  transfer: StockTransfer;
+  adjustments: InventoryAdjustment[];
+  levels: InventoryLevel[];
+}
+
+export interface TransferDiscrepancy {
+  line_id: string;
+  item_id: string;
+  item_name: string;
+  shipped: number;
+  received: number;
+  /** Received minus shipped; negative when stock went missing */
+  difference: number;
+  reason?: string;
+}
@@ -137,6 +137,7 @@ export interface UserTimeTracking {
   break_start_time?: string;
   break_end_time?: string;
   total_hours?: number;
+  /** Minutes */
   break_duration?: number;
   status: 'clocked_in' | 'on_break' | 'clocked_out';
   notes?: string;
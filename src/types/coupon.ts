@@ -0,0 +1,67 @@
+// Serialized coupon and voucher batch types
+
+/**
+ * A batch of unique serials issued for a serialized discount. Serials are
+ * generated from a pattern where # is a digit, ? a letter and * a letter or
+ * digit; other characters are copied as they are.
+ */
+export interface CouponBatch {
+  batch_id: string;
+  store_id: string;
+  discount_id: string;
+  discount_code: string;
+  name: string;
+  pattern: string;
+  check_digit: boolean;
+  serials: string[];
+  notes?: string;
+  created_at: string;
+  created_by?: string;
+}
+
+export interface CreateCouponBatchRequest {
+  name: string;
+  pattern: string;
+  check_digit: boolean;
+  serials: string[];
+  notes?: string;
+}
+
+export interface CouponBatchesResponse {
+  batches: CouponBatch[];
+}
+
+/** One use of a serial found on a transaction */
+export interface CouponRedemption {
+  serial_num: string;
+  trans_id: string;
+  biz_date: string;
+  terminal_id: string;
+  /** Discount taken, in currency units */
+  amount: number;
+  is_void: boolean;
+}
+
+export type CouponSerialStatus = 'unused' | 'redeemed' | 'reused';
+
+export interface CouponSerialRow {
+  serial_num: string;
+  status: CouponSerialStatus;
+  redemptions: CouponRedemption[];
+}
+
+export interface CouponRedemptionScanParams {
+  start_date: string;
+  end_date: string;
+  /** Upper bound on transactions with discounts to open */
+  max_transactions?: number;
+}
+
+export interface CouponRedemptionScan {
+  redemptions: CouponRedemption[];
+  scanned: number;
+  /** True when the scan stopped at max_transactions before reaching the end */
+  truncated: boolean;
+  start_date: string;
+  end_date: string;
+}
@@ -0,0 +1,103 @@
+// Deal types: multi-item promotions recorded as DEAL price modifiers
+
+export type DealType = 'BUY_X_GET_Y' | 'MIX_AND_MATCH' | 'QUANTITY_THRESHOLD' | 'BUNDLE_PRICE';
+
+/**
+ * FREE and FIXED_PRICE set a price, PERCENT and AMOUNT take money off.
+ * For MIX_AND_MATCH and BUNDLE_PRICE the value covers the whole set; for
+ * BUY_X_GET_Y and QUANTITY_THRESHOLD it applies to each discounted unit.
+ */
+export type DealRewardType = 'FREE' | 'PERCENT' | 'AMOUNT' | 'FIXED_PRICE';
+
+/** Items matching any listed item or category count towards the quantity */
+export interface DealComponent {
+  item_ids: string[];
+  category_ids: string[];
+  quantity: number;
+}
+
+/**
+ * Components by type:
+ * - BUY_X_GET_Y: [buy, get]; an empty get component reuses the buy items
+ * - MIX_AND_MATCH: [pool]; every `quantity` units from the pool form a set
+ * - QUANTITY_THRESHOLD: [pool]; reaching `quantity` units discounts them all
+ * - BUNDLE_PRICE: one component per bundle slot
+ */
+export interface Deal {
+  tenant_id: string;
+  store_id: string;
+  deal_id: string;
+  name: string;
+  description?: string;
+  deal_type: DealType;
+  components: DealComponent[];
+  reward_type: DealRewardType;
+  reward_value: number;
+  /** Times the deal can apply in one transaction; unlimited when null */
+  max_applications?: number | null;
+  /** Wins ties between deals saving the same amount; higher first */
+  priority: number;
+  active: boolean;
+  effective_datetime: string;
+  expr_datetime?: string | null;
+  /** 0 = Sunday; every day when empty */
+  days_of_week: number[];
+  /** HH:MM in store time; all day when empty */
+  start_time?: string | null;
+  end_time?: string | null;
+  created_at: string;
+  create_user_id: string;
+  updated_at: string;
+  update_user_id: string | null;
+}
+
+export type CreateDealRequest = Omit<Deal, 'tenant_id' | 'store_id' | 'deal_id' | 'created_at' | 'create_user_id' | 'updated_at' | 'update_user_id'>;
+
+export interface DealsResponse {
+  deals: Deal[];
+}
+
+// ── Cart simulation ──────────────────────────────────────────────────────────
+
+export interface SimulationCartLine {
+  item_id: string;
+  name: string;
+  category_ids: string[];
+  unit_price: number;
+  quantity: number;
+}
+
+/** A simulated line price modifier, in currency units rather than ScaledInt */
+export interface SimulatedPriceModifier {
+  line_index: number;
+  reason: 'DEAL' | 'LINE_ITEM_DISCOUNT' | 'GROUP_DISCOUNT' | 'TRANSACTION_DISCOUNT';
+  amount: number;
+  deal_id?: string;
+  disc_code?: string;
+  desc: string;
+}
+
+export interface DealApplication {
+  deal: Deal;
+  /** Times the deal applied */
+  count: number;
+  savings: number;
+  /** Savings by cart line index */
+  line_savings: Record<number, number>;
+}
+
+export interface DealCandidate {
+  deal: Deal;
+  /** Savings if this deal were the only one, or null with the reason it cannot apply */
+  savings: number | null;
+  reason?: string;
+}
+
+export interface DealSimulationResult {
+  candidates: DealCandidate[];
+  /** Deals in the order they were applied; each consumes the units it used */
+  applied: DealApplication[];
+  modifiers: SimulatedPriceModifier[];
+  subtotal: number;
+  total_savings: number;
+}
@@ -1,4 +1,24 @@
 // Discount types for the POS system
+import type { SimulatedPriceModifier } from './deal';
+
+/**
+ * Who and what a discount can apply to. Empty lists mean no restriction;
+ * exclusions win over inclusions.
+ */
+export interface DiscountEligibility {
+  include_item_ids: string[];
+  exclude_item_ids: string[];
+  include_category_ids: string[];
+  exclude_category_ids: string[];
+  /** Customer group codes; an empty list allows every customer, including walk-ins */
+  customer_groups: string[];
+  min_basket_total?: number | null;
+  /** 0 = Sunday; empty means every day */
+  days_of_week: number[];
+  /** HH:mm, local store time */
+  start_time?: string | null;
+  end_time?: string | null;
+}
 
 export interface Discount {
   tenant_id: string;
@@ -23,6 +43,7 @@ export interface Discount {
   disallow_change_flag: 0 | 1;
   max_amount?: number | null;
   max_percentage?: number | null;
+  eligibility?: DiscountEligibility | null;
   properties?: Record<string, any> | null;
   created_at: string;
   create_user_id: string;
@@ -50,6 +71,7 @@ export interface CreateDiscountRequest {
   disallow_change_flag: 0 | 1;
   max_amount?: number | null;
   max_percentage?: number | null;
+  eligibility?: DiscountEligibility | null;
 }
 
 export interface DiscountsResponse {
@@ -65,3 +87,36 @@ export interface DiscountQueryParams {
   limit?: number;
   offset?: number;
 }
+
+/** Caps that limited a discount in a simulation */
+export type DiscountCap = 'max_percentage' | 'max_amount' | 'max_discount';
+
+/** What happened to one discount when simulating the stack */
+export interface DiscountSimulationStep {
+  discount: Discount;
+  outcome: 'applied' | 'skipped';
+  /** Percentage or currency value used, after caps */
+  value: number;
+  amount: number;
+  caps: DiscountCap[];
+  reason?: string;
+}
+
+export interface DiscountSimulationOptions {
+  at?: Date;
+  customer_group?: string | null;
+  /** Values a cashier would enter for prompted discounts, by discount_id */
+  prompt_values?: Record<string, number>;
+  /** Discounts left out of the cart, e.g. coupons not presented */
+  skipped_ids?: string[];
+  formatAmount?: (amount: number) => string;
+}
+
+export interface DiscountSimulationResult {
+  steps: DiscountSimulationStep[];
+  modifiers: SimulatedPriceModifier[];
+  /** Line totals after every modifier */
+  line_totals: number[];
+  subtotal: number;
+  total_discount: number;
+}
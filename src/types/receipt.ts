@@ -1,7 +1,33 @@
 // Receipt Element Types - Based on Flutter doc_elements.dart
+
+// Condition operators for rule-style conditions
+export type ReceiptConditionOperator =
+  | 'exists'
+  | 'not_exists'
+  | 'empty'
+  | 'not_empty'
+  | 'equals'
+  | 'not_equals'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte';
+
+export interface ReceiptConditionRule {
+  type: 'condition';
+  field: string;
+  operator: ReceiptConditionOperator;
+  value?: string | number | boolean | null;
+}
+
+// Either an expression such as "payments.length > 1" or a rule object
+export type ReceiptCondition = string | ReceiptConditionRule;
+
 export interface BaseReceiptElement {
   type: string;
   flex?: number;
+  // Element is skipped unless every condition passes
+  conditions?: ReceiptCondition[];
 }
 
 export interface TextElement extends BaseReceiptElement {
@@ -45,6 +71,8 @@ export interface IteratorRefElement extends BaseReceiptElement {
   type: 'iterator';
   path: string;
   rows: ReceiptElement[];
+  // Name the current item is exposed under (default "item"); conditions are evaluated per item
+  as?: string;
 }
 
 export type ReceiptElement = 
@@ -57,6 +85,13 @@ export type ReceiptElement =
   | SectionRefElement 
   | IteratorRefElement;
 
+// Named template section in a receipt configuration
+export interface ReceiptSection {
+  type: 'section';
+  conditions?: ReceiptCondition[];
+  rows: ReceiptElement[];
+}
+
 export interface ReceiptDocument {
   document_id: number;
   data: ReceiptElement[];
@@ -0,0 +1,116 @@
+// CSV parsing and generation utilities
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+/**
+ * Parse CSV text into rows of cells (RFC 4180).
+ * Handles quoted fields, escaped quotes, embedded newlines, CRLF line endings
+ * and a leading UTF-8 BOM. Fully empty lines are skipped.
+ */
+export const parseCsv = (text: string, delimiter: string = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const pushRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      pushRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    pushRow();
+  }
+
+  return rows;
+};
+
+/**
+ * Parse CSV text into records keyed by the header row
+ */
+export const parseCsvRecords = (text: string, delimiter: string = ','): { headers: string[]; records: Record<string, string>[] } => {
+  const [headerRow = [], ...dataRows] = parseCsv(text, delimiter);
+  const headers = headerRow.map(header => header.trim());
+
+  const records = dataRows.map(cells =>
+    headers.reduce<Record<string, string>>((record, header, index) => {
+      record[header] = (cells[index] ?? '').trim();
+      return record;
+    }, {})
+  );
+
+  return { headers, records };
+};
+
+/**
+ * Escape a single value for CSV output
+ */
+export const escapeCsvValue = (value: CsvValue, delimiter: string = ','): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  if (text.includes('"') || text.includes(delimiter) || text.includes('\n') || text.includes('\r')) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+};
+
+/**
+ * Convert rows of values into a CSV line block (CRLF line endings)
+ */
+export const toCsvRows = (rows: CsvValue[][], delimiter: string = ','): string => {
+  return rows.map(row => row.map(value => escapeCsvValue(value, delimiter)).join(delimiter)).join('\r\n');
+};
+
+/**
+ * Build a CSV document from a header row and data rows
+ */
+export const toCsv = (headers: string[], rows: CsvValue[][], delimiter: string = ','): string => {
+  return toCsvRows([headers, ...rows], delimiter) + '\r\n';
+};
+
+/**
+ * Trigger a browser download for generated file content
+ */
+export const downloadFile = (content: BlobPart | BlobPart[], filename: string, mimeType: string = 'text/csv;charset=utf-8'): void => {
+  const blob = new Blob(Array.isArray(content) ? content : [content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
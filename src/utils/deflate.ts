@@ -0,0 +1,320 @@
+/**
+ * Raw DEFLATE (RFC 1951) without external dependencies.
+ *
+ * deflateRaw compresses with LZ77 matching and the fixed Huffman codes, which
+ * is small and plenty for receipt payloads. inflateRaw handles stored, fixed
+ * and dynamic blocks so data compressed by zlib or other encoders also reads.
+ * Both run synchronously, unlike CompressionStream.
+ */
+
+const MAX_BITS = 15;
+const WINDOW_SIZE = 32768;
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+const MAX_CHAIN = 64;
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DIST_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+export class DeflateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeflateError';
+  }
+}
+
+// ── Compression ──────────────────────────────────────────────────────────────
+
+class BitWriter {
+  readonly bytes: number[] = [];
+  private buffer = 0;
+  private count = 0;
+
+  writeBits(value: number, length: number) {
+    for (let i = 0; i < length; i++) {
+      this.buffer |= ((value >> i) & 1) << this.count;
+      if (++this.count === 8) {
+        this.bytes.push(this.buffer);
+        this.buffer = 0;
+        this.count = 0;
+      }
+    }
+  }
+
+  // Huffman codes are packed most significant bit first
+  writeCode(code: number, length: number) {
+    for (let i = length - 1; i >= 0; i--) this.writeBits((code >> i) & 1, 1);
+  }
+
+  flush() {
+    if (this.count > 0) this.bytes.push(this.buffer);
+    this.buffer = 0;
+    this.count = 0;
+  }
+}
+
+function writeFixedLiteral(writer: BitWriter, symbol: number) {
+  if (symbol < 144) writer.writeCode(0x30 + symbol, 8);
+  else if (symbol < 256) writer.writeCode(0x190 + symbol - 144, 9);
+  else if (symbol < 280) writer.writeCode(symbol - 256, 7);
+  else writer.writeCode(0xc0 + symbol - 280, 8);
+}
+
+function findCode(base: number[], value: number): number {
+  let index = base.length - 1;
+  while (base[index] > value) index--;
+  return index;
+}
+
+function writeMatch(writer: BitWriter, length: number, distance: number) {
+  const lengthCode = findCode(LENGTH_BASE, length);
+  writeFixedLiteral(writer, 257 + lengthCode);
+  writer.writeBits(length - LENGTH_BASE[lengthCode], LENGTH_EXTRA[lengthCode]);
+
+  const distCode = findCode(DIST_BASE, distance);
+  writer.writeCode(distCode, 5);
+  writer.writeBits(distance - DIST_BASE[distCode], DIST_EXTRA[distCode]);
+}
+
+const hash3 = (data: Uint8Array, i: number) => ((data[i] << 10) ^ (data[i + 1] << 5) ^ data[i + 2]) & 0x7fff;
+
+/**
+ * Compress to a raw DEFLATE stream (no zlib header)
+ */
+export function deflateRaw(data: Uint8Array): Uint8Array {
+  const writer = new BitWriter();
+  writer.writeBits(1, 1); // final block
+  writer.writeBits(1, 2); // fixed Huffman
+
+  const head = new Int32Array(WINDOW_SIZE).fill(-1);
+  const previous = new Int32Array(data.length);
+  let i = 0;
+
+  const insert = (position: number) => {
+    if (position + MIN_MATCH > data.length) return;
+    const hash = hash3(data, position);
+    previous[position] = head[hash];
+    head[hash] = position;
+  };
+
+  while (i < data.length) {
+    let bestLength = 0;
+    let bestDistance = 0;
+
+    if (i + MIN_MATCH <= data.length) {
+      let candidate = head[hash3(data, i)];
+      let chain = 0;
+      const maxLength = Math.min(MAX_MATCH, data.length - i);
+      while (candidate >= 0 && i - candidate <= WINDOW_SIZE && chain++ < MAX_CHAIN) {
+        let length = 0;
+        while (length < maxLength && data[candidate + length] === data[i + length]) length++;
+        if (length > bestLength) {
+          bestLength = length;
+          bestDistance = i - candidate;
+          if (length === maxLength) break;
+        }
+        candidate = previous[candidate];
+      }
+    }
+
+    if (bestLength >= MIN_MATCH) {
+      writeMatch(writer, bestLength, bestDistance);
+      for (let k = 0; k < bestLength; k++) insert(i + k);
+      i += bestLength;
+    } else {
+      writeFixedLiteral(writer, data[i]);
+      insert(i);
+      i++;
+    }
+  }
+
+  writeFixedLiteral(writer, 256); // end of block
+  writer.flush();
+  return new Uint8Array(writer.bytes);
+}
+
+// ── Decompression ────────────────────────────────────────────────────────────
+
+interface HuffmanTable {
+  counts: Uint16Array;
+  symbols: Uint16Array;
+}
+
+function buildTable(lengths: ArrayLike<number>): HuffmanTable {
+  const counts = new Uint16Array(MAX_BITS + 1);
+  for (let i = 0; i < lengths.length; i++) counts[lengths[i]]++;
+  counts[0] = 0;
+
+  const offsets = new Uint16Array(MAX_BITS + 1);
+  for (let length = 1; length < MAX_BITS; length++) {
+    offsets[length + 1] = offsets[length] + counts[length];
+  }
+
+  const symbols = new Uint16Array(lengths.length);
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    if (lengths[symbol] !== 0) symbols[offsets[lengths[symbol]]++] = symbol;
+  }
+  return { counts, symbols };
+}
+
+const FIXED_LITERAL_TABLE = buildTable(
+  Array.from({ length: 288 }, (_value, symbol) => (symbol < 144 ? 8 : symbol < 256 ? 9 : symbol < 280 ? 7 : 8))
+);
+const FIXED_DISTANCE_TABLE = buildTable(new Array(30).fill(5));
+
+class BitReader {
+  private position = 0;
+  private buffer = 0;
+  private count = 0;
+  private readonly data: Uint8Array;
+
+  constructor(data: Uint8Array) {
+    this.data = data;
+  }
+
+  readBits(length: number): number {
+    let value = 0;
+    for (let i = 0; i < length; i++) {
+      if (this.count === 0) {
+        if (this.position >= this.data.length) throw new DeflateError('Unexpected end of compressed data');
+        this.buffer = this.data[this.position++];
+        this.count = 8;
+      }
+      value |= (this.buffer & 1) << i;
+      this.buffer >>= 1;
+      this.count--;
+    }
+    return value;
+  }
+
+  alignToByte() {
+    this.count = 0;
+  }
+
+  readBytes(length: number): Uint8Array {
+    if (this.position + length > this.data.length) throw new DeflateError('Unexpected end of compressed data');
+    const bytes = this.data.subarray(this.position, this.position + length);
+    this.position += length;
+    return bytes;
+  }
+
+  decode(table: HuffmanTable): number {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let length = 1; length <= MAX_BITS; length++) {
+      code |= this.readBits(1);
+      const count = table.counts[length];
+      if (code - count < first) return table.symbols[index + (code - first)];
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw new DeflateError('Invalid Huffman code');
+  }
+}
+
+function readDynamicTables(reader: BitReader): [HuffmanTable, HuffmanTable] {
+  const literalCount = reader.readBits(5) + 257;
+  const distanceCount = reader.readBits(5) + 1;
+  const codeLengthCount = reader.readBits(4) + 4;
+
+  const codeLengths = new Uint8Array(19);
+  for (let i = 0; i < codeLengthCount; i++) codeLengths[CODE_LENGTH_ORDER[i]] = reader.readBits(3);
+  const codeLengthTable = buildTable(codeLengths);
+
+  const lengths = new Uint8Array(literalCount + distanceCount);
+  let i = 0;
+  while (i < lengths.length) {
+    const symbol = reader.decode(codeLengthTable);
+    if (symbol < 16) {
+      lengths[i++] = symbol;
+      continue;
+    }
+
+    let repeat: number;
+    let value = 0;
+    if (symbol === 16) {
+      if (i === 0) throw new DeflateError('Repeat with no previous code length');
+      value = lengths[i - 1];
+      repeat = 3 + reader.readBits(2);
+    } else if (symbol === 17) {
+      repeat = 3 + reader.readBits(3);
+    } else {
+      repeat = 11 + reader.readBits(7);
+    }
+    if (i + repeat > lengths.length) throw new DeflateError('Too many code lengths');
+    lengths.fill(value, i, i + repeat);
+    i += repeat;
+  }
+
+  return [buildTable(lengths.subarray(0, literalCount)), buildTable(lengths.subarray(literalCount))];
+}
+
+/**
+ * Decompress a raw DEFLATE stream (no zlib header)
+ */
+export function inflateRaw(data: Uint8Array): Uint8Array {
+  const reader = new BitReader(data);
+  let output = new Uint8Array(Math.max(1024, data.length * 4));
+  let size = 0;
+
+  const ensure = (extra: number) => {
+    if (size + extra <= output.length) return;
+    let capacity = output.length * 2;
+    while (capacity < size + extra) capacity *= 2;
+    const grown = new Uint8Array(capacity);
+    grown.set(output.subarray(0, size));
+    output = grown;
+  };
+
+  let isFinal = false;
+  while (!isFinal) {
+    isFinal = reader.readBits(1) === 1;
+    const type = reader.readBits(2);
+
+    if (type === 0) {
+      reader.alignToByte();
+      const header = reader.readBytes(4);
+      const length = header[0] | (header[1] << 8);
+      if ((length ^ 0xffff) !== (header[2] | (header[3] << 8))) throw new DeflateError('Stored block length mismatch');
+      ensure(length);
+      output.set(reader.readBytes(length), size);
+      size += length;
+      continue;
+    }
+
+    if (type === 3) throw new DeflateError('Invalid block type');
+    const [literalTable, distanceTable] = type === 1
+      ? [FIXED_LITERAL_TABLE, FIXED_DISTANCE_TABLE]
+      : readDynamicTables(reader);
+
+    for (;;) {
+      const symbol = reader.decode(literalTable);
+      if (symbol === 256) break;
+
+      if (symbol < 256) {
+        ensure(1);
+        output[size++] = symbol;
+        continue;
+      }
+
+      const lengthCode = symbol - 257;
+      if (lengthCode >= LENGTH_BASE.length) throw new DeflateError('Invalid length code');
+      const length = LENGTH_BASE[lengthCode] + reader.readBits(LENGTH_EXTRA[lengthCode]);
+
+      const distCode = reader.decode(distanceTable);
+      if (distCode >= DIST_BASE.length) throw new DeflateError('Invalid distance code');
+      const distance = DIST_BASE[distCode] + reader.readBits(DIST_EXTRA[distCode]);
+      if (distance > size) throw new DeflateError('Distance too far back');
+
+      ensure(length);
+      for (let k = 0; k < length; k++, size++) output[size] = output[size - distance];
+    }
+  }
+
+  return output.slice(0, size);
+}
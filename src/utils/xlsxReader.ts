@@ -0,0 +1,205 @@
+// Minimal XLSX reader built on browser primitives (DecompressionStream + DOMParser)
+//
+// Only what spreadsheet imports need is supported: the first worksheet is read
+// as a grid of display strings. Formulas yield their cached value, shared and
+// inline strings are resolved, and numbers are returned as written in the file.
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+const textDecoder = new TextDecoder('utf-8');
+
+/**
+ * Read the central directory of a ZIP archive
+ */
+const readZipEntries = (view: DataView): Map<string, ZipEntry> => {
+  // The end-of-central-directory record sits in the last 22 bytes plus an optional comment
+  let eocd = -1;
+  for (let offset = view.byteLength - 22; offset >= Math.max(0, view.byteLength - 65557); offset--) {
+    if (view.getUint32(offset, true) === EOCD_SIGNATURE) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('Invalid XLSX file: ZIP directory not found');
+  }
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const entries = new Map<string, ZipEntry>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error('Invalid XLSX file: corrupt ZIP directory');
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = textDecoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLength));
+
+    entries.set(name, {
+      name,
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
+
+/**
+ * Extract a single ZIP entry as text
+ */
+const readZipText = async (view: DataView, entry: ZipEntry): Promise<string> => {
+  const header = entry.localHeaderOffset;
+  if (view.getUint32(header, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`Invalid XLSX file: corrupt entry ${entry.name}`);
+  }
+  const dataStart = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+  const data = new Uint8Array(view.buffer, view.byteOffset + dataStart, entry.compressedSize);
+
+  if (entry.method === 0) {
+    return textDecoder.decode(data);
+  }
+  if (entry.method !== 8) {
+    throw new Error(`Unsupported XLSX compression method ${entry.method}`);
+  }
+
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+};
+
+const parseXml = (xml: string): Document => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid XLSX file: malformed XML');
+  }
+  return doc;
+};
+
+/**
+ * Concatenate every <t> text run below an element (rich text support)
+ */
+const collectText = (element: Element): string => {
+  return Array.from(element.getElementsByTagName('t')).map(node => node.textContent || '').join('');
+};
+
+/**
+ * Convert a column reference ("A", "AB") to a zero-based index
+ */
+const columnIndex = (cellRef: string): number => {
+  const letters = cellRef.replace(/[^A-Z]/gi, '').toUpperCase();
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+};
+
+/**
+ * Resolve the path of the first worksheet through the workbook relationships
+ */
+const resolveFirstSheetPath = async (view: DataView, entries: Map<string, ZipEntry>): Promise<string> => {
+  const fallback = 'xl/worksheets/sheet1.xml';
+  const workbookEntry = entries.get('xl/workbook.xml');
+  const relsEntry = entries.get('xl/_rels/workbook.xml.rels');
+  if (!workbookEntry || !relsEntry) return fallback;
+
+  const workbook = parseXml(await readZipText(view, workbookEntry));
+  const firstSheet = workbook.getElementsByTagName('sheet')[0];
+  const relationId = firstSheet?.getAttribute('r:id');
+  if (!relationId) return fallback;
+
+  const rels = parseXml(await readZipText(view, relsEntry));
+  const relation = Array.from(rels.getElementsByTagName('Relationship')).find(rel => rel.getAttribute('Id') === relationId);
+  const target = relation?.getAttribute('Target');
+  if (!target) return fallback;
+
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+};
+
+/**
+ * Read the first worksheet of an XLSX workbook into rows of cells
+ */
+export const readXlsxRows = async (buffer: ArrayBuffer): Promise<string[][]> => {
+  const view = new DataView(buffer);
+  const entries = readZipEntries(view);
+
+  const sharedStrings: string[] = [];
+  const sharedStringsEntry = entries.get('xl/sharedStrings.xml');
+  if (sharedStringsEntry) {
+    const doc = parseXml(await readZipText(view, sharedStringsEntry));
+    for (const item of Array.from(doc.getElementsByTagName('si'))) {
+      sharedStrings.push(collectText(item));
+    }
+  }
+
+  const sheetEntry = entries.get(await resolveFirstSheetPath(view, entries));
+  if (!sheetEntry) {
+    throw new Error('Invalid XLSX file: no worksheet found');
+  }
+
+  const sheet = parseXml(await readZipText(view, sheetEntry));
+  const rows: string[][] = [];
+
+  for (const rowElement of Array.from(sheet.getElementsByTagName('row'))) {
+    const cells: string[] = [];
+    let nextIndex = 0;
+
+    for (const cell of Array.from(rowElement.getElementsByTagName('c'))) {
+      const ref = cell.getAttribute('r');
+      const index = ref ? columnIndex(ref) : nextIndex;
+      const type = cell.getAttribute('t');
+      const rawValue = cell.getElementsByTagName('v')[0]?.textContent ?? '';
+
+      let value: string;
+      if (type === 's') {
+        value = sharedStrings[Number(rawValue)] ?? '';
+      } else if (type === 'inlineStr') {
+        value = collectText(cell);
+      } else if (type === 'b') {
+        value = rawValue === '1' ? 'true' : 'false';
+      } else {
+        value = rawValue;
+      }
+
+      while (cells.length < index) cells.push('');
+      cells[index] = value;
+      nextIndex = index + 1;
+    }
+
+    if (cells.some(value => value.trim() !== '')) {
+      rows.push(cells);
+    }
+  }
+
+  return rows;
+};
+
+/**
+ * Read the first worksheet of an XLSX workbook into records keyed by the header row
+ */
+export const readXlsxRecords = async (buffer: ArrayBuffer): Promise<{ headers: string[]; records: Record<string, string>[] }> => {
+  const [headerRow = [], ...dataRows] = await readXlsxRows(buffer);
+  const headers = headerRow.map(header => header.trim());
+
+  const records = dataRows.map(cells =>
+    headers.reduce<Record<string, string>>((record, header, index) => {
+      record[header] = (cells[index] ?? '').trim();
+      return record;
+    }, {})
+  );
+
+  return { headers, records };
+};